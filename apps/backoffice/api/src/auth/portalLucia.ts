@@ -0,0 +1,18 @@
+import { Lucia } from 'lucia';
+import { PrismaAdapter } from '@lucia-auth/adapter-prisma';
+import { prismaPrimary } from '../db/index.js';
+
+// Customer portal sessions - separate tables (customer.portal_sessions / portal_users)
+// and a separate cookie, so a portal session is never accepted by staff routes and a
+// staff session is never accepted by portal routes
+const adapter = new PrismaAdapter(prismaPrimary.portalSession, prismaPrimary.portalUser);
+
+export const portalLucia = new Lucia(adapter, {
+  sessionCookie: {
+    name: 'portal_session',
+    attributes: {
+      // Matches the staff session cookie until HTTPS is in place
+      secure: false,
+    },
+  },
+});
@@ -3,6 +3,7 @@ import { PrismaClient as DataClient } from '@prisma/client-data';
 import { PrismaPg } from '@prisma/adapter-pg';
 import { Pool } from 'pg';
 import { debug } from '../lib/logger.js';
+import { withAuditLog } from '../services/auditLog.js';
 
 // Lazy initialization to ensure env vars are loaded first
 let _prismaPrimary: PrimaryClient | null = null;
@@ -27,10 +28,11 @@ function getPrismaPrimary(): PrimaryClient {
     _poolPrimary = new Pool({ connectionString: url });
     const adapter = new PrismaPg(_poolPrimary);
     
-    _prismaPrimary = new PrimaryClient({
+    // Every mutation through the primary client is written to config.audit_log
+    _prismaPrimary = withAuditLog(new PrimaryClient({
       adapter,
       log: LOG_LEVEL
-    });
+    }));
   }
   return _prismaPrimary;
 }
@@ -3,6 +3,8 @@
  * 
  * Caches session data for 30 seconds to minimize PRIMARY DB queries.
  * Auth checks happen on every request, so this significantly reduces load.
+ * Staff and portal sessions live in separate caches with namespaced keys, so a
+ * portal session id can never resolve to a staff user (or the other way round).
  * 
  * Performance Impact:
  * - Reduces PRIMARY DB queries from ~100/min to ~10/min for active users
@@ -20,15 +22,21 @@ export class SessionCache {
   private readonly TTL = 30000; // 30 seconds
   private cleanupInterval: NodeJS.Timeout | null = null;
 
+  constructor(private readonly namespace: string) {}
+
+  private key(sessionId: string) {
+    return `${this.namespace}:${sessionId}`;
+  }
+
   async get<T>(sessionId: string, fetchFn: () => Promise<T>): Promise<T | null> {
-    const cached = this.cache.get(sessionId);
+    const cached = this.cache.get(this.key(sessionId));
     if (cached && cached.expiresAt > Date.now()) {
       return cached.data as T;
     }
 
     const data = await fetchFn();
     if (data) {
-      this.cache.set(sessionId, { 
+      this.cache.set(this.key(sessionId), { 
         data, 
         expiresAt: Date.now() + this.TTL 
       });
@@ -38,7 +46,7 @@ export class SessionCache {
   }
 
   invalidate(sessionId: string) {
-    this.cache.delete(sessionId);
+    this.cache.delete(this.key(sessionId));
   }
   
   clear() {
@@ -87,17 +95,20 @@ export class SessionCache {
    */
   getStats() {
     return {
+      namespace: this.namespace,
       size: this.cache.size,
       ttl: this.TTL,
     };
   }
 }
 
-// Export singleton instance
-export const sessionCache = new SessionCache();
+// Export singleton instances - staff (lucia) and customer portal (portalLucia) sessions
+export const sessionCache = new SessionCache('staff');
+export const portalSessionCache = new SessionCache('portal');
 
 // Start cleanup automatically
 sessionCache.startCleanup();
+portalSessionCache.startCleanup();
 
 // Cleanup on shutdown
 process.on('beforeExit', () => {
@@ -2,6 +2,7 @@
 import './env.js';
 
 import Fastify from 'fastify';
+import { randomUUID } from 'crypto';
 import cors from '@fastify/cors';
 import cookie from '@fastify/cookie';
 import multipart from '@fastify/multipart';
@@ -19,9 +20,45 @@ import { clientsRoutes } from './routes/clients.js';
 import { usersRoutes } from './routes/users.js';
 import rateCardsRoutes from './routes/rateCards.js';
 import billingServicesRoutes from './routes/billingServices.js';
+import billingActivitiesRoutes from './routes/billingActivities.js';
+import invoicesRoutes from './routes/invoices.js';
+import paymentsRoutes from './routes/payments.js';
+import creditNotesRoutes from './routes/creditNotes.js';
+import documentsRoutes from './routes/documents.js';
+import storageRoutes from './routes/storage.js';
+import carrierCostRoutes from './routes/carrierCosts.js';
+import rateCardTemplateRoutes from './routes/rateCardTemplates.js';
+import renewalAlertRoutes from './routes/renewalAlerts.js';
+import portalRoutes from './routes/portal.js';
+import notificationRoutes from './routes/notifications.js';
+import auditLogRoutes from './routes/auditLog.js';
+import purgeRoutes from './routes/purge.js';
+import { createRequestAuditContext, runWithAuditContext } from './lib/auditContext.js';
+import { readSessionUser } from './middleware/requirePermission.js';
+import { startStorageSnapshotCron } from './jobs/storage-snapshot-cron.js';
+import { startRenewalAlertCron } from './jobs/renewal-alert-cron.js';
+import { startContractStatusCron } from './jobs/contract-status-cron.js';
+import { startOnboardingCron } from './jobs/onboarding-cron.js';
+import { startCustomerOffboardingCron } from './jobs/customer-offboarding-cron.js';
+import { startNotificationRetryCron } from './jobs/notification-retry-cron.js';
+import { startPurgeCron } from './jobs/purge-cron.js';
 
 const fastify = Fastify({
   logger: true,
+  // Request IDs are recorded in the audit log - always generated here, never taken from the client
+  requestIdHeader: false,
+  genReqId: () => randomUUID(),
+  // request.ip (also recorded in the audit log) reads X-Forwarded-For only across this many reverse proxies
+  trustProxy: Number(process.env.TRUST_PROXY_HOPS) || false,
+});
+
+// Audit context: changes made while handling a request are attributed to its user, ID and IP
+fastify.addHook('onRequest', (request, _reply, done) => {
+  runWithAuditContext(createRequestAuditContext(request, readSessionUser), done);
+});
+
+fastify.addHook('onSend', async (request, reply) => {
+  reply.header('x-request-id', request.id);
 });
 
 // Register Swagger first (before other plugins)
@@ -38,15 +75,27 @@ await fastify.register(swagger, {
         name: 'Admin',
         description: 'Administrative and system management'
       },
+      {
+        name: 'Audit Log',
+        description: 'Append-only change history'
+      },
       {
         name: 'Auth',
         description: 'Authentication and user session management'
       },
 
+      {
+        name: 'billing',
+        description: 'Billing catalog, activities and invoicing'
+      },
       {
         name: 'Clients',
         description: 'Client organization management'
       },
+      {
+        name: 'Documents',
+        description: 'Stored invoice and contract documents'
+      },
       {
         name: 'Exports',
         description: 'Data export and reporting'
@@ -55,6 +104,14 @@ await fastify.register(swagger, {
         name: 'Integrations',
         description: 'Data import/export and integration management'
       },
+      {
+        name: 'Notifications',
+        description: 'Notification delivery log, retries and preferences'
+      },
+      {
+        name: 'Portal',
+        description: 'Customer self-service portal (customer-scoped sessions)'
+      },
       {
         name: 'rate-cards',
         description: 'Rate card management and versioning'
@@ -148,6 +205,19 @@ await fastify.register(clientsRoutes, { prefix: '/api/clients' });
 await fastify.register(usersRoutes, { prefix: '/api/users' });
 await fastify.register(rateCardsRoutes, { prefix: '/api' });
 await fastify.register(billingServicesRoutes, { prefix: '/api' });
+await fastify.register(billingActivitiesRoutes, { prefix: '/api' });
+await fastify.register(invoicesRoutes, { prefix: '/api' });
+await fastify.register(paymentsRoutes, { prefix: '/api' });
+await fastify.register(creditNotesRoutes, { prefix: '/api' });
+await fastify.register(documentsRoutes, { prefix: '/api' });
+await fastify.register(storageRoutes, { prefix: '/api' });
+await fastify.register(carrierCostRoutes, { prefix: '/api' });
+await fastify.register(rateCardTemplateRoutes, { prefix: '/api' });
+await fastify.register(renewalAlertRoutes, { prefix: '/api' });
+await fastify.register(portalRoutes, { prefix: '/api/portal' });
+await fastify.register(notificationRoutes, { prefix: '/api' });
+await fastify.register(auditLogRoutes, { prefix: '/api' });
+await fastify.register(purgeRoutes, { prefix: '/api/admin' });
 
 // Health check
 fastify.get('/api/health', {
@@ -165,6 +235,16 @@ const start = async () => {
     await fastify.listen({ port, host });
     const { info } = await import('./lib/logger.js');
     info(`Server running at http://${host}:${port}`);
+
+    if (process.env.NODE_ENV === 'production') {
+      startStorageSnapshotCron();
+      startRenewalAlertCron();
+      startContractStatusCron();
+      startOnboardingCron();
+      startCustomerOffboardingCron();
+      startNotificationRetryCron();
+      startPurgeCron();
+    }
   } catch (err) {
     fastify.log.error(err);
     process.exit(1);
@@ -0,0 +1,272 @@
+/**
+ * Billing Activities Integration
+ *
+ * Source: WMS/OMS activity exports (one row = one billable event)
+ * Format: CSV, Excel (.xlsx/.xls) or JSON (array, or { activities: [...] })
+ *
+ * Expected columns (header names are case/space-insensitive):
+ * - activity_date   (required) Date the event happened
+ * - type            (required) BillingService code, e.g. Fulfillment_BaseOrder
+ * - quantity        (required) Billable units, > 0
+ * - reference_id    (required) Order/receipt/shipment ID from the source system
+ * - unit, description, billing_cycle, customer_id (optional)
+ *
+ * The per-customer endpoint (POST /api/customers/:customerId/billing-activities)
+ * reuses parse/validate and upserts into customer.billing_activities by the
+ * natural key (customer_id, reference_id, activity_date, type). The generic
+ * upload flow stages the same rows in the workspace schema for inspection.
+ */
+
+import * as XLSX from 'xlsx';
+import type { Integration, ParsedRecord, ValidationResult } from '../types.js';
+import { col } from '../types.js';
+import type { BillingActivityInput } from '../../validation/billingActivitySchema.js';
+
+// Header aliases seen in common WMS exports -> our column names
+const HEADER_ALIASES: Record<string, string> = {
+  date: 'activity_date',
+  activitydate: 'activity_date',
+  activity_date: 'activity_date',
+  type: 'type',
+  activity_type: 'type',
+  service: 'type',
+  service_code: 'type',
+  qty: 'quantity',
+  quantity: 'quantity',
+  unit: 'unit',
+  uom: 'unit',
+  description: 'description',
+  reference: 'reference_id',
+  reference_id: 'reference_id',
+  referenceid: 'reference_id',
+  order_id: 'reference_id',
+  billing_cycle: 'billing_cycle',
+  billingcycle: 'billing_cycle',
+  customer_id: 'customer_id',
+  customerid: 'customer_id',
+};
+
+const KNOWN_COLUMNS = new Set(Object.values(HEADER_ALIASES));
+
+function normalizeHeader(header: string): string {
+  const key = header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return HEADER_ALIASES[key] ?? key;
+}
+
+// CSV parsing helper
+function parseCSV(content: string): ParsedRecord[] {
+  const lines = content.replace(/^﻿/, '').trim().split(/\r?\n/);
+  if (lines.length < 2) return [];
+
+  const headers = parseCSVLine(lines[0]);
+  const records: ParsedRecord[] = [];
+
+  for (let i = 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    const values = parseCSVLine(lines[i]);
+    const record: ParsedRecord = {};
+
+    headers.forEach((header, index) => {
+      record[header] = values[index] || null;
+    });
+
+    records.push(record);
+  }
+
+  return records;
+}
+
+function parseCSVLine(line: string): string[] {
+  const result: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === '"') {
+      // Escaped quote inside a quoted field ("")
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === ',' && !inQuotes) {
+      result.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  result.push(current.trim());
+  return result;
+}
+
+function parseJSON(content: string): ParsedRecord[] {
+  const data = JSON.parse(content);
+  const rows = Array.isArray(data) ? data : data?.activities;
+
+  if (!Array.isArray(rows)) {
+    throw new Error('JSON file must be an array of activities or an object with an "activities" array');
+  }
+
+  return rows as ParsedRecord[];
+}
+
+function parseExcel(file: Buffer): ParsedRecord[] {
+  const workbook = XLSX.read(file, { type: 'buffer', cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  return XLSX.utils.sheet_to_json<ParsedRecord>(sheet, { defval: null, raw: true });
+}
+
+function toDateString(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10);
+  }
+  const str = String(value).trim();
+  const parsed = new Date(str);
+  if (isNaN(parsed.getTime())) return str; // Left as-is so validate() reports it
+  return /^\d{4}-\d{2}-\d{2}$/.test(str) ? str : parsed.toISOString().slice(0, 10);
+}
+
+function toText(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const str = String(value).trim();
+  return str === '' ? null : str;
+}
+
+/**
+ * Normalize raw rows (any supported format) to our snake_case columns.
+ * Unknown columns are kept under `metadata` so nothing from the feed is lost.
+ */
+function normalizeRecords(rawRecords: ParsedRecord[]): ParsedRecord[] {
+  return rawRecords.map((raw) => {
+    const record: ParsedRecord = {};
+    const metadata: Record<string, unknown> = {};
+
+    for (const [header, value] of Object.entries(raw)) {
+      const column = normalizeHeader(header);
+      if (KNOWN_COLUMNS.has(column)) {
+        record[column] = value;
+      } else if (column === 'metadata' && value && typeof value === 'object') {
+        Object.assign(metadata, value);
+      } else if (value !== null && value !== '') {
+        metadata[header] = value;
+      }
+    }
+
+    const quantity = toText(record.quantity);
+
+    return {
+      customer_id: toText(record.customer_id),
+      activity_date: toDateString(record.activity_date),
+      type: toText(record.type),
+      quantity: quantity === null ? null : Number(quantity),
+      unit: toText(record.unit),
+      description: toText(record.description),
+      reference_id: toText(record.reference_id),
+      billing_cycle: toText(record.billing_cycle)?.toLowerCase() ?? null,
+      metadata: Object.keys(metadata).length > 0 ? metadata : null,
+    };
+  });
+}
+
+/**
+ * Map a parsed record to the ingestion input shape used by BillingActivityService
+ */
+export function toBillingActivityInput(record: ParsedRecord): BillingActivityInput {
+  return {
+    activityDate: new Date(`${record.activity_date}T00:00:00Z`),
+    type: record.type as string,
+    quantity: record.quantity as number,
+    unit: (record.unit as string) ?? undefined,
+    description: (record.description as string) ?? undefined,
+    referenceId: record.reference_id as string,
+    billingCycle: (record.billing_cycle as BillingActivityInput['billingCycle']) ?? undefined,
+    metadata: (record.metadata as Record<string, unknown>) ?? undefined,
+  };
+}
+
+export const billingActivities: Integration = {
+  id: 'billing-activities',
+  name: 'Billing Activities',
+  description: 'Billable events (receiving, storage, fulfillment, shipping, VAS) exported from the WMS/OMS. CSV, Excel or JSON.',
+  category: 'billing',
+
+  fileTypes: ['csv', 'xlsx', 'xls', 'json'],
+
+  async parse(file: Buffer, filename: string): Promise<ParsedRecord[]> {
+    const ext = filename.split('.').pop()?.toLowerCase();
+
+    let rawRecords: ParsedRecord[];
+    if (ext === 'json') {
+      rawRecords = parseJSON(file.toString('utf-8'));
+    } else if (ext === 'xlsx' || ext === 'xls') {
+      rawRecords = parseExcel(file);
+    } else {
+      rawRecords = parseCSV(file.toString('utf-8'));
+    }
+
+    return normalizeRecords(rawRecords);
+  },
+
+  validate(records: ParsedRecord[]): ValidationResult {
+    const errors: { row?: number; field?: string; message: string }[] = [];
+
+    if (records.length === 0) {
+      errors.push({ message: 'No activity rows found in file' });
+    }
+
+    records.forEach((record, index) => {
+      const row = index + 1;
+
+      if (!record.activity_date) {
+        errors.push({ row, field: 'activity_date', message: 'Activity date is required' });
+      } else if (!/^\d{4}-\d{2}-\d{2}$/.test(record.activity_date as string)) {
+        errors.push({ row, field: 'activity_date', message: `Invalid date: ${record.activity_date}` });
+      }
+      if (!record.type) {
+        errors.push({ row, field: 'type', message: 'Activity type is required' });
+      } else if (!/^[A-Za-z]+_[A-Za-z]+$/.test(record.type as string)) {
+        errors.push({ row, field: 'type', message: `Activity type must be a service code (Category_Service): ${record.type}` });
+      }
+      if (record.quantity === null || record.quantity === undefined || Number.isNaN(record.quantity)) {
+        errors.push({ row, field: 'quantity', message: 'Quantity is required and must be numeric' });
+      } else if ((record.quantity as number) <= 0) {
+        errors.push({ row, field: 'quantity', message: 'Quantity must be greater than 0' });
+      }
+      if (!record.reference_id) {
+        errors.push({ row, field: 'reference_id', message: 'Reference ID is required' });
+      }
+      if (record.billing_cycle && !['immediate', 'weekly', 'monthly'].includes(record.billing_cycle as string)) {
+        errors.push({ row, field: 'billing_cycle', message: `Invalid billing cycle: ${record.billing_cycle}` });
+      }
+    });
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.slice(0, 100),
+    };
+  },
+
+  targetSchema: 'workspace',
+  targetTable: 'billing_activities_staging',
+
+  columns: [
+    col('customer_id', 'VARCHAR(100)', { description: 'Customer ID (set by the per-customer endpoint)' }),
+    col('activity_date', 'DATE', { nullable: false, description: 'Date the billable event happened' }),
+    col('type', 'VARCHAR(100)', { nullable: false, description: 'BillingService code (Category_Service)' }),
+    col('quantity', 'NUMERIC(10,3)', { nullable: false, description: 'Billable units' }),
+    col('unit', 'VARCHAR(50)', { description: 'Unit of measure' }),
+    col('description', 'TEXT', { description: 'Free-text description' }),
+    col('reference_id', 'VARCHAR(255)', { nullable: false, description: 'Source system reference (order, receipt, shipment)' }),
+    col('billing_cycle', 'VARCHAR(20)', { description: 'Billing cycle override (immediate, weekly, monthly)' }),
+    col('metadata', 'JSONB', { description: 'Unmapped source columns' }),
+  ],
+
+  uniqueKey: ['reference_id', 'activity_date', 'type'],
+  importMode: 'upsert',
+};
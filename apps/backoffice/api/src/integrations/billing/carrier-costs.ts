@@ -0,0 +1,356 @@
+/**
+ * Carrier Costs Integration
+ *
+ * Source: Carrier invoice / label cost exports
+ * - UPS billing data (one row per charge: freight, fuel, residential, adjustments...)
+ * - USPS postage reports (Click-N-Ship, ePostage and shipping software exports)
+ * Format: CSV or Excel (.xlsx/.xls)
+ *
+ * Expected columns (header names are case/punctuation-insensitive):
+ * - tracking_number  Tracking number / PIC (required unless reference_id is given)
+ * - reference_id     Shipment reference (order ID) printed on the label
+ * - cost             (required) Net charge / postage, may be negative for credits
+ * - charge_date, invoice_number, carrier, service, zone, weight (optional)
+ *
+ * The carrier comes from a carrier column, the tracking number format (1Z... is UPS,
+ * 92/93/94/95... is USPS) or the file layout. Rows of the same tracking number are
+ * summed when they are matched to shipping activities.
+ *
+ * The per-customer endpoint (POST /api/customers/:customerId/carrier-costs) reuses
+ * parse/validate, matches charges to billing activities and bills them cost-plus.
+ * The generic upload flow stages the rows in the workspace schema for inspection.
+ */
+
+import * as XLSX from 'xlsx';
+import type { Integration, ParsedRecord, ValidationResult } from '../types.js';
+import { col } from '../types.js';
+
+export type Carrier = 'UPS' | 'USPS';
+
+// Header aliases seen in UPS billing data and USPS postage reports -> our column names
+const HEADER_ALIASES: Record<string, string> = {
+  carrier: 'carrier',
+  carrier_name: 'carrier',
+  tracking: 'tracking_number',
+  tracking_number: 'tracking_number',
+  tracking_no: 'tracking_number',
+  tracking_id: 'tracking_number',
+  trackingnumber: 'tracking_number',
+  package_tracking_number: 'tracking_number',
+  pic: 'tracking_number',
+  impb: 'tracking_number',
+  reference: 'reference_id',
+  reference_id: 'reference_id',
+  reference_no_1: 'reference_id',
+  reference_number_1: 'reference_id',
+  shipment_reference_number_1: 'reference_id',
+  package_reference_number_1: 'reference_id',
+  ref_1: 'reference_id',
+  order_id: 'reference_id',
+  order_number: 'reference_id',
+  ship_date: 'charge_date',
+  shipment_date: 'charge_date',
+  pickup_date: 'charge_date',
+  date_printed: 'charge_date',
+  print_date: 'charge_date',
+  mailing_date: 'charge_date',
+  transaction_date: 'charge_date',
+  date: 'charge_date',
+  invoice_date: 'invoice_date',
+  invoice: 'invoice_number',
+  invoice_no: 'invoice_number',
+  invoice_number: 'invoice_number',
+  service: 'service',
+  service_level: 'service',
+  service_type: 'service',
+  mail_class: 'service',
+  zone: 'zone',
+  shipping_zone: 'zone',
+  weight: 'weight',
+  billed_weight: 'weight',
+  weight_lb: 'weight',
+  weight_lbs: 'weight',
+  weight_oz: 'weight_oz',
+  cost: 'cost',
+  amount: 'cost',
+  charge: 'cost',
+  net_amount: 'cost',
+  net_charge: 'cost',
+  net_charges: 'cost',
+  billed_charge: 'cost',
+  total_charge: 'cost',
+  total_charges: 'cost',
+  total_cost: 'cost',
+  label_cost: 'cost',
+  postage: 'cost',
+  postage_amount: 'cost',
+  total_postage: 'cost',
+};
+
+const KNOWN_COLUMNS = new Set(Object.values(HEADER_ALIASES));
+
+// Headers only one carrier's exports use (for files without a carrier column)
+const UPS_HEADERS = new Set(['lead_shipment_number', 'incentive_amount', 'net_amount', 'account_number', 'shipment_reference_number_1']);
+const USPS_HEADERS = new Set(['postage', 'postage_amount', 'total_postage', 'mail_class', 'pic', 'impb']);
+
+// "Tracking #" -> tracking, "Weight (oz)" -> weight_oz, "Reference No.1" -> reference_no_1
+function headerKey(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+function normalizeHeader(header: string): string {
+  const key = headerKey(header);
+  return HEADER_ALIASES[key] ?? key;
+}
+
+// CSV parsing helper
+function parseCSV(content: string): ParsedRecord[] {
+  const lines = content.replace(/^﻿/, '').trim().split(/\r?\n/);
+  if (lines.length < 2) return [];
+
+  const headers = parseCSVLine(lines[0]);
+  const records: ParsedRecord[] = [];
+
+  for (let i = 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    const values = parseCSVLine(lines[i]);
+    const record: ParsedRecord = {};
+
+    headers.forEach((header, index) => {
+      record[header] = values[index] || null;
+    });
+
+    records.push(record);
+  }
+
+  return records;
+}
+
+function parseCSVLine(line: string): string[] {
+  const result: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === '"') {
+      // Escaped quote inside a quoted field ("")
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === ',' && !inQuotes) {
+      result.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  result.push(current.trim());
+  return result;
+}
+
+function parseExcel(file: Buffer): ParsedRecord[] {
+  const workbook = XLSX.read(file, { type: 'buffer', cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  return XLSX.utils.sheet_to_json<ParsedRecord>(sheet, { defval: null, raw: true });
+}
+
+function toDateString(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10);
+  }
+  const str = String(value).trim();
+  const parsed = new Date(str);
+  if (isNaN(parsed.getTime())) return str; // Left as-is so validate() reports it
+  return /^\d{4}-\d{2}-\d{2}$/.test(str) ? str : parsed.toISOString().slice(0, 10);
+}
+
+function toText(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const str = String(value).trim();
+  return str === '' ? null : str;
+}
+
+/**
+ * Money as exported by carriers: "$1,234.56", "-2.10" or "(2.10)" for credits
+ */
+export function parseMoney(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') return value;
+  const str = String(value).trim();
+  const negative = /^\(.*\)$/.test(str);
+  const amount = Number(str.replace(/[()$,\s]/g, ''));
+  if (Number.isNaN(amount)) return NaN;
+  return negative ? -amount : amount;
+}
+
+/**
+ * Carrier from the tracking number format
+ */
+export function detectCarrier(trackingNumber: string | null | undefined): Carrier | null {
+  if (!trackingNumber) return null;
+  const value = trackingNumber.replace(/\s+/g, '').toUpperCase();
+  if (/^1Z[0-9A-Z]{16}$/.test(value)) return 'UPS';
+  if (/^9[1-5]\d{18,24}$/.test(value) || /^[A-Z]{2}\d{9}US$/.test(value)) return 'USPS';
+  return null;
+}
+
+function normalizeCarrier(value: string | null): Carrier | null {
+  if (!value) return null;
+  const carrier = value.toUpperCase();
+  if (carrier.includes('USPS') || carrier.includes('POSTAL')) return 'USPS';
+  if (carrier.includes('UPS')) return 'UPS';
+  return null;
+}
+
+/**
+ * Normalize raw rows to our snake_case columns.
+ * Unknown columns (charge descriptions, account numbers...) are kept under `metadata`.
+ */
+function normalizeRecords(rawRecords: ParsedRecord[]): ParsedRecord[] {
+  const headers = rawRecords.length > 0 ? Object.keys(rawRecords[0]).map(headerKey) : [];
+  const layoutCarrier: Carrier | null = headers.some(h => USPS_HEADERS.has(h))
+    ? 'USPS'
+    : headers.some(h => UPS_HEADERS.has(h)) ? 'UPS' : null;
+
+  return rawRecords.map((raw) => {
+    const record: ParsedRecord = {};
+    const metadata: Record<string, unknown> = {};
+
+    for (const [header, value] of Object.entries(raw)) {
+      const column = normalizeHeader(header);
+      if (KNOWN_COLUMNS.has(column)) {
+        // Several aliases can map to one column - the first one in the file wins
+        if (record[column] === undefined || record[column] === null) record[column] = value;
+      } else if (value !== null && value !== '') {
+        metadata[header] = value;
+      }
+    }
+
+    const trackingNumber = toText(record.tracking_number)?.replace(/\s+/g, '').toUpperCase() ?? null;
+    const weight = toText(record.weight);
+    const weightOz = toText(record.weight_oz);
+
+    return {
+      carrier: normalizeCarrier(toText(record.carrier)) ?? detectCarrier(trackingNumber) ?? layoutCarrier,
+      tracking_number: trackingNumber,
+      reference_id: toText(record.reference_id),
+      charge_date: toDateString(record.charge_date ?? record.invoice_date),
+      invoice_number: toText(record.invoice_number),
+      service: toText(record.service),
+      zone: toText(record.zone),
+      weight: weight !== null ? Number(weight) : weightOz !== null ? Number(weightOz) / 16 : null,
+      cost: parseMoney(record.cost),
+      metadata: Object.keys(metadata).length > 0 ? metadata : null,
+    };
+  });
+}
+
+/**
+ * One carrier charge row, as matched by CarrierCostService
+ */
+export interface CarrierCharge {
+  /** Source file and 1-based data row, for the reconciliation report */
+  filename: string;
+  row: number;
+  carrier: Carrier | null;
+  trackingNumber: string | null;
+  referenceId: string | null;
+  chargeDate: string | null;
+  invoiceNumber: string | null;
+  service: string | null;
+  zone: string | null;
+  weight: number | null;
+  cost: number;
+}
+
+/**
+ * Map a parsed record to the charge shape used by CarrierCostService
+ */
+export function toCarrierCharge(record: ParsedRecord, row: number, filename: string): CarrierCharge {
+  return {
+    filename,
+    row,
+    carrier: (record.carrier as Carrier | null) ?? null,
+    trackingNumber: (record.tracking_number as string | null) ?? null,
+    referenceId: (record.reference_id as string | null) ?? null,
+    chargeDate: (record.charge_date as string | null) ?? null,
+    invoiceNumber: (record.invoice_number as string | null) ?? null,
+    service: (record.service as string | null) ?? null,
+    zone: (record.zone as string | null) ?? null,
+    weight: (record.weight as number | null) ?? null,
+    cost: record.cost as number,
+  };
+}
+
+export const carrierCosts: Integration = {
+  id: 'carrier-costs',
+  name: 'Carrier Costs',
+  description: 'Carrier invoice / label costs (UPS billing data, USPS postage reports), matched to shipping activities for cost-plus billing. CSV or Excel.',
+  category: 'billing',
+
+  fileTypes: ['csv', 'xlsx', 'xls'],
+
+  async parse(file: Buffer, filename: string): Promise<ParsedRecord[]> {
+    const ext = filename.split('.').pop()?.toLowerCase();
+    const rawRecords = ext === 'xlsx' || ext === 'xls'
+      ? parseExcel(file)
+      : parseCSV(file.toString('utf-8'));
+
+    return normalizeRecords(rawRecords);
+  },
+
+  validate(records: ParsedRecord[]): ValidationResult {
+    const errors: { row?: number; field?: string; message: string }[] = [];
+
+    if (records.length === 0) {
+      errors.push({ message: 'No carrier charges found in file' });
+    }
+
+    records.forEach((record, index) => {
+      const row = index + 1;
+
+      if (!record.tracking_number && !record.reference_id) {
+        errors.push({ row, field: 'tracking_number', message: 'Tracking number or reference is required' });
+      }
+      if (record.cost === null || record.cost === undefined || Number.isNaN(record.cost)) {
+        errors.push({ row, field: 'cost', message: 'Cost is required and must be numeric' });
+      }
+      if (record.charge_date && !/^\d{4}-\d{2}-\d{2}$/.test(record.charge_date as string)) {
+        errors.push({ row, field: 'charge_date', message: `Invalid date: ${record.charge_date}` });
+      }
+      if (record.weight !== null && Number.isNaN(record.weight)) {
+        errors.push({ row, field: 'weight', message: 'Weight must be numeric' });
+      }
+    });
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.slice(0, 100),
+    };
+  },
+
+  targetSchema: 'workspace',
+  targetTable: 'carrier_costs_staging',
+
+  columns: [
+    col('carrier', 'VARCHAR(20)', { description: 'UPS or USPS (from carrier column, tracking number or layout)' }),
+    col('tracking_number', 'VARCHAR(64)', { description: 'Carrier tracking number / PIC' }),
+    col('reference_id', 'VARCHAR(255)', { description: 'Shipment reference printed on the label' }),
+    col('charge_date', 'DATE', { description: 'Ship / print date (invoice date when absent)' }),
+    col('invoice_number', 'VARCHAR(100)', { description: 'Carrier invoice number' }),
+    col('service', 'VARCHAR(100)', { description: 'Carrier service / mail class' }),
+    col('zone', 'VARCHAR(20)', { description: 'Carrier zone' }),
+    col('weight', 'NUMERIC(10,3)', { description: 'Billed weight (lb)' }),
+    col('cost', 'NUMERIC(12,2)', { nullable: false, description: 'Net carrier charge (negative for credits)' }),
+    col('metadata', 'JSONB', { description: 'Unmapped source columns' }),
+  ],
+
+  importMode: 'replace',
+};
@@ -11,6 +11,8 @@ import { gazZcta } from './demographics/gaz-zcta.js';
 import { upsZones } from './carriers/ups-zones.js';
 import { upsGroundService } from './carriers/ups-ground-service.js';
 import { usps3dBase } from './carriers/usps-3d-base.js';
+import { billingActivities } from './billing/billing-activities.js';
+import { carrierCosts } from './billing/carrier-costs.js';
 
 // All registered integrations
 export const integrations: Integration[] = [
@@ -22,6 +24,10 @@ export const integrations: Integration[] = [
   usps3dBase,
   upsZones,
   upsGroundService,
+
+  // Billing
+  billingActivities,
+  carrierCosts,
 ];
 
 // Group by category
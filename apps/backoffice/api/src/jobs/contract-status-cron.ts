@@ -0,0 +1,33 @@
+/**
+ * Daily contract status job
+ *
+ * Activates executed contracts on their start date, expires contracts past their
+ * end date and renews autoRenew contracts (activating the renewal drafted by the
+ * renewal check, or creating one). Every change is written to the contract status
+ * history. Re-running is safe; a missed day can be caught up with
+ * POST /api/clients/contracts/status-transitions/run.
+ *
+ * Config:
+ * - CONTRACT_STATUS_HOUR: UTC hour to run (default 0)
+ */
+
+import { prismaPrimary } from '../db/index.js';
+import { ContractService } from '../services/contractService.js';
+import { error, info } from '../lib/logger.js';
+import { scheduleDaily, type ScheduledJob } from './scheduler.js';
+
+export function startContractStatusCron(): ScheduledJob {
+  const hour = parseInt(process.env.CONTRACT_STATUS_HOUR || '0', 10);
+  const service = new ContractService(prismaPrimary);
+
+  return scheduleDaily('contract-status', { hour: Number.isInteger(hour) && hour >= 0 && hour < 24 ? hour : 0 }, async () => {
+    const result = await service.runStatusTransitions();
+    info(
+      `[jobs] contract-status ${result.asOf}: ${result.activated.length} activated, ` +
+      `${result.expired.length} expired, ${result.renewed.length} renewed, ${result.failed.length} failed`
+    );
+    for (const failure of result.failed) {
+      error(`[jobs] contract-status ${failure.action} ${failure.contractId} failed: ${failure.error}`);
+    }
+  });
+}
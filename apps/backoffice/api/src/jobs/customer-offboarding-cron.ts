@@ -0,0 +1,33 @@
+/**
+ * Daily customer offboarding job
+ *
+ * Terminates customers whose scheduled termination has reached its effective date
+ * (releasing remaining warehouse space and terminating contracts that never
+ * started) and deactivates rate cards once a final invoice covering the last day of
+ * service has been issued. Re-running is safe; a missed day can be caught up with
+ * POST /api/clients/offboarding/run.
+ *
+ * Config:
+ * - CUSTOMER_OFFBOARDING_HOUR: UTC hour to run (default 2)
+ */
+
+import { prismaPrimary } from '../db/index.js';
+import { CustomerLifecycleService } from '../services/customerLifecycleService.js';
+import { error, info } from '../lib/logger.js';
+import { scheduleDaily, type ScheduledJob } from './scheduler.js';
+
+export function startCustomerOffboardingCron(): ScheduledJob {
+  const hour = parseInt(process.env.CUSTOMER_OFFBOARDING_HOUR || '2', 10);
+  const service = new CustomerLifecycleService(prismaPrimary);
+
+  return scheduleDaily('customer-offboarding', { hour: Number.isInteger(hour) && hour >= 0 && hour < 24 ? hour : 2 }, async () => {
+    const result = await service.runOffboarding();
+    info(
+      `[jobs] customer-offboarding ${result.asOf}: ${result.terminated.length} terminated, ` +
+      `${result.finalInvoices.length} final invoices, ${result.failed.length} failed`
+    );
+    for (const failure of result.failed) {
+      error(`[jobs] customer-offboarding ${failure.customerId} failed: ${failure.error}`);
+    }
+  });
+}
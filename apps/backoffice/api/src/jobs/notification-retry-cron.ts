@@ -0,0 +1,30 @@
+/**
+ * Notification retry job
+ *
+ * Sends notification deliveries whose next attempt is due: first sends that were
+ * interrupted and failed sends waiting out their backoff. Deliveries that keep
+ * failing are marked failed after MAX_DELIVERY_ATTEMPTS.
+ *
+ * Config:
+ * - NOTIFICATION_RETRY_INTERVAL_SECONDS: how often to look for due deliveries (default 60)
+ */
+
+import { prismaPrimary } from '../db/index.js';
+import { NotificationService } from '../services/notificationService.js';
+import { info } from '../lib/logger.js';
+import { scheduleInterval, type ScheduledJob } from './scheduler.js';
+
+export function startNotificationRetryCron(): ScheduledJob {
+  const seconds = parseInt(process.env.NOTIFICATION_RETRY_INTERVAL_SECONDS || '60', 10);
+  const service = new NotificationService(prismaPrimary);
+
+  return scheduleInterval('notification-retry', (Number.isInteger(seconds) && seconds > 0 ? seconds : 60) * 1000, async () => {
+    const result = await service.processDue();
+    if (result.processed > 0) {
+      info(
+        `[jobs] notification-retry: ${result.processed} processed, ${result.sent} sent, ` +
+        `${result.retrying} retrying, ${result.failed} failed`
+      );
+    }
+  });
+}
@@ -0,0 +1,31 @@
+/**
+ * Daily onboarding status job
+ *
+ * Re-evaluates the onboarding checklist of every prospect / setup customer and
+ * advances its status (prospect → setup → active) when steps were completed outside
+ * the checklist - a contract signed, a rate card taking effect. Runs after the
+ * contract status job so contracts activated today count. One customer can be
+ * re-evaluated on demand with POST /api/clients/:id/onboarding/sync.
+ *
+ * Config:
+ * - ONBOARDING_SYNC_HOUR: UTC hour to run (default 1)
+ * - ONBOARDING_REQUIRED_STEPS: steps required for activation (see onboardingService)
+ */
+
+import { prismaPrimary } from '../db/index.js';
+import { OnboardingService } from '../services/onboardingService.js';
+import { info } from '../lib/logger.js';
+import { scheduleDaily, type ScheduledJob } from './scheduler.js';
+
+export function startOnboardingCron(): ScheduledJob {
+  const hour = parseInt(process.env.ONBOARDING_SYNC_HOUR || '1', 10);
+  const service = new OnboardingService(prismaPrimary);
+
+  return scheduleDaily('onboarding-sync', { hour: Number.isInteger(hour) && hour >= 0 && hour < 24 ? hour : 1 }, async () => {
+    const result = await service.syncStatuses();
+    info(`[jobs] onboarding-sync: ${result.evaluated} evaluated, ${result.changes.length} advanced`);
+    for (const change of result.changes) {
+      info(`[jobs] onboarding-sync ${change.customerId}: ${change.from} → ${change.to}`);
+    }
+  });
+}
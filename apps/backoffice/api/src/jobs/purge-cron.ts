@@ -0,0 +1,42 @@
+/**
+ * Daily purge job (docs/PURGE_JOB_SPEC.md)
+ *
+ * Hard-deletes soft-deleted customers, warehouses, contacts, facilities and users
+ * once their retention period has passed. Runs as a dry run - logging what would be
+ * purged - until PURGE_ENABLED=true, so the output can be checked in production
+ * before anything is deleted. An admin can run it on demand with POST /api/admin/purge/run.
+ *
+ * Config:
+ * - PURGE_HOUR: UTC hour to run (default 2)
+ * - PURGE_ENABLED: 'true' to actually delete (default: dry run)
+ * - PURGE_RETENTION_DAYS / PURGE_RETENTION_DAYS_<ENTITY>: see services/purgeService.ts
+ */
+
+import { prismaPrimary } from '../db/index.js';
+import { PurgeService } from '../services/purgeService.js';
+import { checkEvidentaryValue } from '../services/usage-detection.js';
+import { error, info, warn } from '../lib/logger.js';
+import { scheduleDaily, type ScheduledJob } from './scheduler.js';
+
+export function startPurgeCron(): ScheduledJob {
+  const hour = parseInt(process.env.PURGE_HOUR || '2', 10);
+  const dryRun = process.env.PURGE_ENABLED !== 'true';
+  const service = new PurgeService(prismaPrimary, checkEvidentaryValue);
+
+  return scheduleDaily('purge', { hour: Number.isInteger(hour) && hour >= 0 && hour < 24 ? hour : 2 }, async () => {
+    const result = await service.run({ dryRun });
+    const prefix = dryRun ? '[jobs] purge [DRY RUN]' : '[jobs] purge';
+
+    for (const purged of result.purged) {
+      const children = Object.values(purged.childrenPurged).reduce((a, b) => a + b, 0);
+      info(`${prefix} ${dryRun ? 'would purge' : 'purged'} ${purged.entityType} ${purged.entityId} and ${children} children`);
+    }
+    for (const failure of result.failed) {
+      error(`${prefix} ${failure.entityType} ${failure.entityId} failed: ${failure.error}`);
+    }
+    if (result.limitReached) {
+      warn(`${prefix} stopped at the per-run limit - remaining records wait for the next run`);
+    }
+    info(`${prefix}: ${result.purged.length} ${dryRun ? 'eligible' : 'purged'}, ${result.skipped.length} skipped, ${result.failed.length} failed`);
+  });
+}
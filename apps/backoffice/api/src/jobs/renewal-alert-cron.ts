@@ -0,0 +1,37 @@
+/**
+ * Daily renewal alert job
+ *
+ * Raises / resolves alerts for standard rate cards and contracts expiring within the
+ * alert windows and customers without a rate card for an upcoming date, and drafts
+ * renewal contracts for autoRenew contracts. Expiring contracts also notify the
+ * customer (once per alert window). Re-running is safe, so the check can also be
+ * triggered with POST /api/renewal-alerts/run.
+ *
+ * Config:
+ * - RENEWAL_ALERT_HOUR: UTC hour to run (default 6)
+ * - RENEWAL_ALERT_WINDOWS: alert windows in days (default 90,60,30)
+ * - RENEWAL_DRAFT_RATE_CARDS: also plan the next rate card version for renewals, created
+ *   when the renewal is executed (default false)
+ */
+
+import { prismaPrimary } from '../db/index.js';
+import { RenewalAlertService } from '../services/renewalAlertService.js';
+import { NotificationService } from '../services/notificationService.js';
+import { info } from '../lib/logger.js';
+import { scheduleDaily, type ScheduledJob } from './scheduler.js';
+
+export function startRenewalAlertCron(): ScheduledJob {
+  const hour = parseInt(process.env.RENEWAL_ALERT_HOUR || '6', 10);
+  const service = new RenewalAlertService(prismaPrimary);
+  const notificationService = new NotificationService(prismaPrimary);
+
+  return scheduleDaily('renewal-alerts', { hour: Number.isInteger(hour) && hour >= 0 && hour < 24 ? hour : 6 }, async () => {
+    const result = await service.runCheck();
+    await notificationService.notifyRenewalCandidates(result.candidates);
+    info(
+      `[jobs] renewal-alerts ${result.asOf}: ${result.alerts.open} open, ` +
+      `${result.alerts.created} created, ${result.alerts.reopened} reopened, ` +
+      `${result.alerts.resolved} resolved, ${result.renewals.length} renewals drafted`
+    );
+  });
+}
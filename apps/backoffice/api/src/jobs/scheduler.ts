@@ -0,0 +1,103 @@
+/**
+ * Minimal in-process scheduler for background jobs
+ *
+ * Runs a task once a day at a fixed UTC time or on a fixed interval. Runs never
+ * overlap: the next run is only scheduled after the current one settles. Timers are
+ * unref'd so they never keep the process alive on shutdown. Changes a run makes are
+ * attributed to the job in the audit log.
+ */
+
+import { error, info } from '../lib/logger.js';
+import { createJobAuditContext, runWithAuditContext } from '../lib/auditContext.js';
+
+export interface DailySchedule {
+  /** UTC hour (0-23) */
+  hour: number;
+  /** UTC minute (0-59) */
+  minute?: number;
+}
+
+export interface ScheduledJob {
+  stop(): void;
+}
+
+/**
+ * Milliseconds from `now` until the next occurrence of the schedule
+ */
+export function msUntilNextRun(schedule: DailySchedule, now: Date = new Date()): number {
+  const next = new Date(Date.UTC(
+    now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(),
+    schedule.hour, schedule.minute ?? 0
+  ));
+  if (next.getTime() <= now.getTime()) {
+    next.setUTCDate(next.getUTCDate() + 1);
+  }
+  return next.getTime() - now.getTime();
+}
+
+export function scheduleDaily(name: string, schedule: DailySchedule, task: () => Promise<void>): ScheduledJob {
+  let timer: NodeJS.Timeout | null = null;
+  let stopped = false;
+
+  const arm = () => {
+    if (stopped) return;
+    timer = setTimeout(run, msUntilNextRun(schedule));
+    timer.unref();
+  };
+
+  const run = async () => {
+    const startedAt = Date.now();
+    try {
+      await runWithAuditContext(createJobAuditContext(name), task);
+      info(`[jobs] ${name} finished in ${Date.now() - startedAt}ms`);
+    } catch (err) {
+      error(`[jobs] ${name} failed:`, err);
+    } finally {
+      arm();
+    }
+  };
+
+  arm();
+  info(`[jobs] ${name} scheduled daily at ${String(schedule.hour).padStart(2, '0')}:${String(schedule.minute ?? 0).padStart(2, '0')} UTC`);
+
+  return {
+    stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    },
+  };
+}
+
+/**
+ * Run a task every `intervalMs`, measured from the end of the previous run
+ */
+export function scheduleInterval(name: string, intervalMs: number, task: () => Promise<void>): ScheduledJob {
+  let timer: NodeJS.Timeout | null = null;
+  let stopped = false;
+
+  const arm = () => {
+    if (stopped) return;
+    timer = setTimeout(run, intervalMs);
+    timer.unref();
+  };
+
+  const run = async () => {
+    try {
+      await runWithAuditContext(createJobAuditContext(name), task);
+    } catch (err) {
+      error(`[jobs] ${name} failed:`, err);
+    } finally {
+      arm();
+    }
+  };
+
+  arm();
+  info(`[jobs] ${name} scheduled every ${Math.round(intervalMs / 1000)}s`);
+
+  return {
+    stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    },
+  };
+}
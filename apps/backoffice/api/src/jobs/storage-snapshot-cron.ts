@@ -0,0 +1,32 @@
+/**
+ * Daily storage snapshot job
+ *
+ * Snapshots yesterday's on-hand storage for every customer and emits the day's
+ * Storage_* billing activities. Re-running a date is safe, so a missed or failed
+ * night can be caught up with POST /api/storage/snapshots/run.
+ *
+ * Config:
+ * - STORAGE_SNAPSHOT_HOUR: UTC hour to run (default 1)
+ */
+
+import { prismaPrimary } from '../db/index.js';
+import { StorageBillingService } from '../services/storageBillingService.js';
+import { info } from '../lib/logger.js';
+import { scheduleDaily, type ScheduledJob } from './scheduler.js';
+
+export function startStorageSnapshotCron(): ScheduledJob {
+  const hour = parseInt(process.env.STORAGE_SNAPSHOT_HOUR || '1', 10);
+  const service = new StorageBillingService(prismaPrimary);
+
+  return scheduleDaily('storage-snapshot', { hour: Number.isInteger(hour) && hour >= 0 && hour < 24 ? hour : 1 }, async () => {
+    const yesterday = new Date();
+    yesterday.setUTCDate(yesterday.getUTCDate() - 1);
+
+    const result = await service.runSnapshot(yesterday);
+    info(
+      `[jobs] storage-snapshot ${result.date}: ${result.snapshots} snapshots, ` +
+      `${result.activities.created} created, ${result.activities.updated} updated, ` +
+      `${result.activities.removed} removed, ${result.skippedAllocations.length} allocations skipped`
+    );
+  });
+}
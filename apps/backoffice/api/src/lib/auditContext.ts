@@ -0,0 +1,92 @@
+/**
+ * Audit context - who is making the current change
+ *
+ * Carried through async calls with AsyncLocalStorage so the audit extension on the
+ * primary Prisma client can stamp every change with the acting user, request ID and
+ * IP without each route passing them down. The server opens a context per request
+ * (onRequest hook) and the scheduler opens one per job run.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { FastifyRequest } from 'fastify';
+
+export type AuditSource = 'user' | 'portal' | 'job' | 'system';
+
+export interface AuditActor {
+  source: AuditSource;
+  actorId: string | null;
+  actorName: string | null;
+}
+
+export interface AuditContext {
+  requestId?: string;
+  ipAddress?: string;
+  /** Resolved when an entry is written - the user is only known after authentication */
+  getActor?: () => AuditActor | Promise<AuditActor>;
+  /** Entries buffered inside a transaction, written after it commits */
+  pending?: unknown[];
+  /**
+   * Client of the interactive transaction in progress - previous state is read through
+   * it, on the transaction's own connection and including its uncommitted writes
+   */
+  tx?: unknown;
+}
+
+const storage = new AsyncLocalStorage<AuditContext>();
+
+export function getAuditContext(): AuditContext | undefined {
+  return storage.getStore();
+}
+
+export function runWithAuditContext<T>(context: AuditContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+export type SessionUserResolver = (request: FastifyRequest) => Promise<{ id: string; name: string } | null>;
+
+/**
+ * Actor of a request: the authenticated staff user, else the portal user, else the
+ * staff session cookie (routes without a permission check never load request.user)
+ */
+export async function getRequestActor(
+  request: FastifyRequest,
+  resolveSessionUser?: SessionUserResolver
+): Promise<AuditActor> {
+  if (request.user) {
+    return { source: 'user', actorId: request.user.id, actorName: request.user.name || request.user.email };
+  }
+  if (request.portalUser) {
+    return { source: 'portal', actorId: null, actorName: request.portalUser.email };
+  }
+
+  const sessionUser = resolveSessionUser ? await resolveSessionUser(request).catch(() => null) : null;
+  if (sessionUser) {
+    return { source: 'user', actorId: sessionUser.id, actorName: sessionUser.name };
+  }
+  return { source: 'system', actorId: null, actorName: null };
+}
+
+/**
+ * Context for a request. The request ID is generated by the server and the IP is
+ * request.ip, which only honours X-Forwarded-For across the trusted proxy hops
+ * (trustProxy) - neither can be set by the client.
+ */
+export function createRequestAuditContext(
+  request: FastifyRequest,
+  resolveSessionUser?: SessionUserResolver
+): AuditContext {
+  return {
+    requestId: String(request.id),
+    ipAddress: request.ip,
+    getActor: () => getRequestActor(request, resolveSessionUser),
+  };
+}
+
+/**
+ * Context for a background job run - changes are attributed to the job
+ */
+export function createJobAuditContext(jobName: string): AuditContext {
+  return {
+    getActor: () => ({ source: 'job', actorId: null, actorName: jobName }),
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * Minimal PDF writer
+ *
+ * Produces PDF 1.4 documents using the built-in Helvetica fonts (no embedding),
+ * which is all server-rendered billing documents need: text, rules and filled
+ * boxes on US Letter pages.
+ *
+ * Coordinates are in points from the TOP-LEFT corner of the page; the writer
+ * converts to PDF's bottom-left origin. Text is encoded as WinAnsi, characters
+ * outside Latin-1 are replaced with '?'.
+ */
+
+export type PdfColor = [number, number, number];
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right' | 'center';
+  color?: PdfColor;
+}
+
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+// Helvetica / Helvetica-Bold advance widths (1/1000 em) for ASCII 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+const DEFAULT_WIDTH = 556;
+
+function toLatin1(text: string): string {
+  return Array.from(text, ch => (ch.charCodeAt(0) <= 255 ? ch : '?')).join('');
+}
+
+function escapeText(text: string): string {
+  return toLatin1(text).replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function colorOp(color: PdfColor, stroke: boolean): string {
+  return `${color.map(num).join(' ')} ${stroke ? 'RG' : 'rg'}`;
+}
+
+/**
+ * Width of a string in points
+ */
+export function measureText(text: string, size: number, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+  for (const ch of toLatin1(text)) {
+    const code = ch.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH;
+  }
+  return (units * size) / 1000;
+}
+
+/**
+ * Truncate a string with an ellipsis so it fits maxWidth
+ */
+export function fitText(text: string, maxWidth: number, size: number, bold = false): string {
+  if (measureText(text, size, bold) <= maxWidth) {
+    return text;
+  }
+  let fitted = text;
+  while (fitted.length > 0 && measureText(`${fitted}...`, size, bold) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}...`;
+}
+
+export class PdfDocument {
+  private pages: string[][] = [];
+  private current = -1;
+
+  constructor(private info: { title?: string; author?: string } = {}) {}
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): number {
+    this.pages.push([]);
+    this.current = this.pages.length - 1;
+    return this.current;
+  }
+
+  /**
+   * Switch drawing to an existing page (e.g. to add "Page n of m" footers)
+   */
+  goToPage(index: number): void {
+    if (index < 0 || index >= this.pages.length) {
+      throw new Error(`Page ${index} does not exist`);
+    }
+    this.current = index;
+  }
+
+  text(value: string, x: number, y: number, options: PdfTextOptions = {}): void {
+    const size = options.size ?? 10;
+    const bold = options.bold ?? false;
+    const width = measureText(value, size, bold);
+    const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+
+    this.ops().push(
+      'BT',
+      colorOp(options.color ?? [0, 0, 0], false),
+      `/${bold ? 'F2' : 'F1'} ${num(size)} Tf`,
+      `${num(left)} ${num(PAGE_HEIGHT - y)} Td`,
+      `(${escapeText(value)}) Tj`,
+      'ET'
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: { width?: number; color?: PdfColor } = {}): void {
+    this.ops().push(
+      colorOp(options.color ?? [0, 0, 0], true),
+      `${num(options.width ?? 0.5)} w`,
+      `${num(x1)} ${num(PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PAGE_HEIGHT - y2)} l S`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill: PdfColor): void {
+    this.ops().push(
+      colorOp(fill, false),
+      `${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re f`
+    );
+  }
+
+  toBuffer(): Buffer {
+    if (this.pages.length === 0) {
+      this.addPage();
+    }
+
+    // 1 catalog, 2 pages, 3-4 fonts, 5 info, then page + content pairs
+    const objects: string[] = [];
+    const pageIds = this.pages.map((_, i) => 6 + i * 2);
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+    objects[5] = `<< /Producer (Handled Backoffice)${this.info.title ? ` /Title (${escapeText(this.info.title)})` : ''}${this.info.author ? ` /Author (${escapeText(this.info.author)})` : ''} >>`;
+
+    this.pages.forEach((ops, i) => {
+      const pageId = pageIds[i];
+      const content = ops.join('\n');
+      objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+    });
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(output, 'latin1');
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  private ops(): string[] {
+    if (this.current < 0) {
+      this.addPage();
+    }
+    return this.pages[this.current];
+  }
+}
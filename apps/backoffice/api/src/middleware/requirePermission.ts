@@ -17,6 +17,20 @@ declare module 'fastify' {
   }
 }
 
+/**
+ * Staff user of the session cookie, without loading permissions - for attributing
+ * changes (audit log) on routes that do not authenticate
+ */
+export async function readSessionUser(request: FastifyRequest): Promise<{ id: string; name: string } | null> {
+  const sessionId = lucia.readSessionCookie(request.headers.cookie ?? '');
+  if (!sessionId) return null;
+
+  const sessionData = await sessionCache.get(sessionId, () => lucia.validateSession(sessionId));
+  if (!sessionData?.session || !sessionData.user) return null;
+
+  return { id: sessionData.user.id, name: sessionData.user.name || sessionData.user.email };
+}
+
 /**
  * Load user with roles and permissions into request
  */
@@ -0,0 +1,68 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { portalLucia } from '../auth/portalLucia.js';
+import { prismaPrimary } from '../db/index.js';
+import { portalSessionCache } from '../db/session-cache.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    /** Customer portal user - set by requirePortalUser, never by staff auth */
+    portalUser?: {
+      id: string;
+      customerId: string;
+      email: string;
+      name: string;
+    };
+  }
+}
+
+/**
+ * Middleware: Require a customer portal session
+ *
+ * The customer every portal query is scoped to comes from here - from the session's
+ * portal user - and never from the request.
+ */
+export async function requirePortalUser(request: FastifyRequest, reply: FastifyReply) {
+  const sessionId = portalLucia.readSessionCookie(request.headers.cookie ?? '');
+
+  if (!sessionId) {
+    return reply.status(401).send({ error: 'Authentication required' });
+  }
+
+  const sessionData = await portalSessionCache.get(
+    sessionId,
+    () => portalLucia.validateSession(sessionId)
+  );
+
+  if (!sessionData || !sessionData.session || !sessionData.user) {
+    return reply.status(401).send({ error: 'Invalid session' });
+  }
+
+  // Reload on every request so disabling a user or the portal takes effect immediately
+  const portalUser = await prismaPrimary.portalUser.findUnique({
+    where: { id: sessionData.user.id },
+    include: {
+      customer: {
+        select: { deleted: true, settings: { select: { portalEnabled: true } } },
+      },
+    },
+  });
+
+  if (!portalUser) {
+    return reply.status(401).send({ error: 'Invalid session' });
+  }
+
+  if (portalUser.disabled) {
+    return reply.status(403).send({ error: 'Account is disabled' });
+  }
+
+  if (portalUser.customer.deleted || !portalUser.customer.settings?.portalEnabled) {
+    return reply.status(403).send({ error: 'Portal access is disabled' });
+  }
+
+  request.portalUser = {
+    id: portalUser.id,
+    customerId: portalUser.customerId,
+    email: portalUser.email,
+    name: portalUser.name,
+  };
+}
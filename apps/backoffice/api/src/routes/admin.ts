@@ -5,6 +5,7 @@ import { requirePermission } from '../middleware/requirePermission.js';
 import { PERMISSIONS } from '../auth/permissions.js';
 import { Argon2id } from 'oslo/password';
 import { generateId } from 'lucia';
+import { buildDeleteConflict, checkEvidentaryValue } from '../services/usage-detection.js';
 
 interface CreateUserBody {
   email: string;
@@ -383,6 +384,20 @@ export async function adminRoutes(fastify: FastifyInstance) {
       return reply.status(404).send({ error: 'User not found' });
     }
 
+    // Users who ever logged in or did anything are disabled, never deleted
+    const valueCheck = await checkEvidentaryValue('user', id);
+
+    if (valueCheck.hasValue) {
+      return reply.status(409).send(buildDeleteConflict('Cannot delete user with activity', valueCheck,
+        valueCheck.suggestion === 'disable'
+          ? {
+              message: 'This user has activity or audit trail records. Please disable instead.',
+              endpoint: `POST /api/admin/users/${id}/disable`,
+            }
+          : { message: 'This user is already disabled and is kept for the audit trail.' }
+      ));
+    }
+
     // Get all session IDs for this user before deleting
     const userSessions = await prismaPrimary.session.findMany({
       where: { userId: id },
@@ -0,0 +1,112 @@
+/**
+ * Audit Log API Routes
+ * ====================
+ *
+ * PURPOSE:
+ * Read-only access to config.audit_log - the change history written automatically for
+ * every mutation on the primary database. Per-entity history lives with the entity:
+ * /clients/:id/audit-log, /warehouses/:id/audit-log, /users/:id/audit-log.
+ *
+ * ENDPOINTS:
+ * GET /audit-log                # Filter by entityType, entityId, action, source, actorId, requestId, from/to, search
+ * GET /audit-log/entity-types   # Entity types present in the log (filter options)
+ * GET /audit-log/:id            # One entry with its before/after diff
+ *
+ * AUTHENTICATION:
+ * - view_settings
+ */
+
+import type { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { ZodError } from 'zod';
+import { prismaPrimary } from '../db/index.js';
+import { AuditLogService } from '../services/auditLog.js';
+import { requirePermission } from '../middleware/requirePermission.js';
+import { PERMISSIONS } from '../auth/permissions.js';
+import { AUDIT_ACTIONS, AUDIT_SOURCES, listAuditLogSchema } from '../validation/auditLogSchema.js';
+
+/**
+ * Map service errors to HTTP responses
+ * ZodError → 400, "... not found" → 404, anything else → 400
+ */
+function sendAuditLogError(reply: FastifyReply, error: unknown) {
+  if (error instanceof ZodError) {
+    return reply.code(400).send({ error: 'Invalid audit log query', details: error.errors });
+  }
+
+  const message = (error as Error).message;
+
+  if (message.endsWith('not found')) {
+    return reply.code(404).send({ error: message });
+  }
+  return reply.code(400).send({ error: message });
+}
+
+const auditLogRoutes: FastifyPluginAsync = async (fastify) => {
+  const auditLogService = new AuditLogService(prismaPrimary);
+
+  fastify.get('/audit-log', {
+    schema: {
+      tags: ['Audit Log'],
+      description: 'Audit log entries, newest first',
+      querystring: {
+        type: 'object',
+        properties: {
+          entityType: { type: 'string' },
+          entityId: { type: 'string' },
+          action: { type: 'string', enum: [...AUDIT_ACTIONS] },
+          source: { type: 'string', enum: [...AUDIT_SOURCES] },
+          actorId: { type: 'string' },
+          requestId: { type: 'string' },
+          from: { type: 'string' },
+          to: { type: 'string' },
+          search: { type: 'string' },
+          limit: { type: 'integer', minimum: 1, maximum: 500 },
+          offset: { type: 'integer', minimum: 0 },
+        },
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.VIEW_SETTINGS),
+  }, async (request, reply) => {
+    try {
+      const query = listAuditLogSchema.parse(request.query);
+      return await auditLogService.list(query);
+    } catch (error) {
+      return sendAuditLogError(reply, error);
+    }
+  });
+
+  fastify.get('/audit-log/entity-types', {
+    schema: {
+      tags: ['Audit Log'],
+      description: 'Entity types that have audit log entries',
+    },
+    preHandler: requirePermission(PERMISSIONS.VIEW_SETTINGS),
+  }, async () => {
+    return { entityTypes: await auditLogService.getEntityTypes() };
+  });
+
+  fastify.get('/audit-log/:id', {
+    schema: {
+      tags: ['Audit Log'],
+      description: 'One audit log entry',
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+        },
+        required: ['id'],
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.VIEW_SETTINGS),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      return await auditLogService.getEntry(id);
+    } catch (error) {
+      return sendAuditLogError(reply, error);
+    }
+  });
+};
+
+export default auditLogRoutes;
@@ -0,0 +1,191 @@
+/**
+ * Billing Activities API Routes
+ * =============================
+ *
+ * PURPOSE:
+ * HTTP interface for ingesting billable events (WMS/OMS feeds) and reviewing them
+ * before they are rated and invoiced.
+ *
+ * ENDPOINTS:
+ * GET  /customers/:customerId/billing-activities   # List/filter activities
+ * POST /customers/:customerId/billing-activities   # Ingest JSON body or CSV/XLSX/JSON file upload
+ * POST /customers/:customerId/billing-activities/price  # Price unpriced / re-price a period
+ *
+ * INGESTION FORMATS:
+ * - application/json: { source?, activities: [{ activityDate, type, quantity, referenceId, ... }] }
+ * - multipart/form-data: one or more files parsed by the billing-activities integration
+ *
+ * AUTHENTICATION:
+ * - Read: view_billing
+ * - Ingest / price: manage_billing (importedBy is stamped with the current user)
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { ZodError } from 'zod';
+import { prismaPrimary } from '../db/index.js';
+import { BillingActivityService } from '../services/billingActivityService.js';
+import { RateEngine } from '../services/rateEngine.js';
+import { billingActivities, toBillingActivityInput } from '../integrations/billing/billing-activities.js';
+import { requirePermission } from '../middleware/requirePermission.js';
+import { PERMISSIONS } from '../auth/permissions.js';
+import {
+  ingestBillingActivitiesSchema,
+  listBillingActivitiesSchema,
+  priceActivitiesSchema,
+  type BillingActivityInput,
+} from '../validation/billingActivitySchema.js';
+
+const customerParams = {
+  type: 'object',
+  properties: {
+    customerId: { type: 'string' },
+  },
+  required: ['customerId'],
+};
+
+const billingActivitiesRoutes: FastifyPluginAsync = async (fastify) => {
+  const billingActivityService = new BillingActivityService(prismaPrimary);
+  const rateEngine = new RateEngine(prismaPrimary);
+
+  // List activities for customer
+  fastify.get('/customers/:customerId/billing-activities', {
+    schema: {
+      tags: ['billing'],
+      description: 'List billing activities for a customer, filterable by date range, type, invoiced state and import batch',
+      params: customerParams,
+      querystring: {
+        type: 'object',
+        properties: {
+          from: { type: 'string', format: 'date' },
+          to: { type: 'string', format: 'date' },
+          type: { type: 'string', description: 'BillingService code, e.g. Fulfillment_BaseOrder' },
+          invoiced: { type: 'string', enum: ['true', 'false'] },
+          importBatchId: { type: 'string' },
+          limit: { type: 'integer', minimum: 1, maximum: 1000 },
+          offset: { type: 'integer', minimum: 0 },
+        },
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.VIEW_BILLING),
+  }, async (request, reply) => {
+    const { customerId } = request.params as { customerId: string };
+
+    try {
+      const query = listBillingActivitiesSchema.parse(request.query);
+      return await billingActivityService.listActivities(customerId, query);
+    } catch (error) {
+      return reply.code(400).send({ error: (error as Error).message });
+    }
+  });
+
+  // Ingest activities (JSON body or file upload)
+  fastify.post('/customers/:customerId/billing-activities', {
+    schema: {
+      tags: ['billing'],
+      description: 'Ingest billing activities from a JSON body or CSV/XLSX/JSON file upload. Upserts by (customerId, referenceId, activityDate, type).',
+      params: customerParams,
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_BILLING),
+  }, async (request, reply) => {
+    const { customerId } = request.params as { customerId: string };
+    const userId = (request.user as any)?.id;
+
+    let activities: BillingActivityInput[] = [];
+    let source: string;
+
+    if (request.isMultipart()) {
+      source = 'file';
+      const fileErrors: Array<{ filename: string; errors: unknown[] }> = [];
+
+      for await (const file of request.files()) {
+        const buffer = await file.toBuffer();
+        const ext = file.filename.split('.').pop()?.toLowerCase();
+
+        if (!ext || !billingActivities.fileTypes.includes(ext)) {
+          fileErrors.push({
+            filename: file.filename,
+            errors: [{ message: `Invalid file type. Expected: ${billingActivities.fileTypes.join(', ')}` }],
+          });
+          continue;
+        }
+
+        try {
+          const records = await billingActivities.parse(buffer, file.filename);
+          const validation = billingActivities.validate(records);
+
+          if (!validation.valid) {
+            fileErrors.push({ filename: file.filename, errors: validation.errors });
+            continue;
+          }
+
+          activities.push(...records.map(toBillingActivityInput));
+        } catch (error) {
+          fileErrors.push({ filename: file.filename, errors: [{ message: (error as Error).message }] });
+        }
+      }
+
+      if (fileErrors.length > 0) {
+        return reply.code(400).send({ error: 'Invalid billing activity file', files: fileErrors });
+      }
+      if (activities.length === 0) {
+        return reply.code(400).send({ error: 'No files uploaded' });
+      }
+    } else {
+      try {
+        const body = ingestBillingActivitiesSchema.parse(request.body);
+        activities = body.activities;
+        source = body.source ?? 'api';
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return reply.code(400).send({ error: 'Invalid billing activities', details: error.errors });
+        }
+        throw error;
+      }
+    }
+
+    try {
+      const result = await billingActivityService.ingestActivities(customerId, activities, {
+        importedBy: userId,
+        source,
+      });
+      return reply.code(201).send(result);
+    } catch (error) {
+      const message = (error as Error).message;
+      if (message.startsWith('Cannot ')) {
+        return reply.code(409).send({ error: 'Ingestion not allowed', reason: message });
+      }
+      return reply.code(message === 'Customer not found' ? 404 : 400).send({ error: message });
+    }
+  });
+
+  // Price unpriced activities, or re-price a period after a rate card correction
+  fastify.post('/customers/:customerId/billing-activities/price', {
+    schema: {
+      tags: ['billing'],
+      description: 'Price activities against the effective rate card. mode=unpriced rates rows without an amount; mode=reprice recomputes a period. Services with period volume tiers (tierMode all_units/graduated) re-price every open activity of the service in the billing period. Invoiced and manual override rows are skipped.',
+      params: customerParams,
+      body: {
+        type: 'object',
+        properties: {
+          from: { type: 'string', format: 'date' },
+          to: { type: 'string', format: 'date' },
+          type: { type: 'string' },
+          mode: { type: 'string', enum: ['unpriced', 'reprice'] },
+          dryRun: { type: 'boolean' },
+        },
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_BILLING),
+  }, async (request, reply) => {
+    const { customerId } = request.params as { customerId: string };
+
+    try {
+      const input = priceActivitiesSchema.parse(request.body ?? {});
+      return await rateEngine.priceActivities(customerId, input);
+    } catch (error) {
+      return reply.code(400).send({ error: (error as Error).message });
+    }
+  });
+};
+
+export default billingActivitiesRoutes;
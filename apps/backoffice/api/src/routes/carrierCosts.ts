@@ -0,0 +1,190 @@
+/**
+ * Carrier Cost API Routes
+ * =======================
+ *
+ * PURPOSE:
+ * HTTP interface for importing carrier invoice / label cost files, billing the
+ * matched shipping activities cost-plus, and reviewing the reconciliation.
+ *
+ * ENDPOINTS:
+ * POST /customers/:customerId/carrier-costs                   # Import UPS/USPS cost files (multipart)
+ * GET  /customers/:customerId/carrier-costs/imports           # List past imports
+ * GET  /customers/:customerId/carrier-costs/imports/:importId # Import with reconciliation report
+ *
+ * AUTHENTICATION:
+ * - Read: view_billing
+ * - Import: manage_billing (importedBy is stamped with the current user)
+ */
+
+import type { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { ZodError } from 'zod';
+import { prismaPrimary } from '../db/index.js';
+import { CarrierCostService } from '../services/carrierCostService.js';
+import { carrierCosts, toCarrierCharge, type CarrierCharge } from '../integrations/billing/carrier-costs.js';
+import { requirePermission } from '../middleware/requirePermission.js';
+import { PERMISSIONS } from '../auth/permissions.js';
+import {
+  importCarrierCostsQuerySchema,
+  listCarrierCostImportsSchema,
+} from '../validation/carrierCostSchema.js';
+
+const customerParams = {
+  type: 'object',
+  properties: {
+    customerId: { type: 'string' },
+  },
+  required: ['customerId'],
+};
+
+/**
+ * Map carrier cost errors: missing record → 404, validation → 400
+ */
+function sendCarrierCostError(reply: FastifyReply, error: unknown) {
+  if (error instanceof ZodError) {
+    return reply.code(400).send({ error: 'Invalid carrier cost import', details: error.errors });
+  }
+
+  const message = (error as Error).message;
+
+  if (message.endsWith('not found')) {
+    return reply.code(404).send({ error: message });
+  }
+  return reply.code(400).send({ error: message });
+}
+
+const carrierCostRoutes: FastifyPluginAsync = async (fastify) => {
+  const carrierCostService = new CarrierCostService(prismaPrimary);
+
+  // Import carrier cost files
+  fastify.post('/customers/:customerId/carrier-costs', {
+    schema: {
+      tags: ['billing'],
+      description: 'Import carrier cost files (UPS billing data, USPS postage reports; CSV/XLSX). Charges are matched to Shipping_* activities by tracking number or reference and billed cost × (1 + markup) + label fee, or by zone tier. Returns the reconciliation of unmatched charges. dryRun=true previews without writing.',
+      params: customerParams,
+      querystring: {
+        type: 'object',
+        properties: {
+          dryRun: { type: 'string', enum: ['true', 'false'] },
+        },
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_BILLING),
+  }, async (request, reply) => {
+    const { customerId } = request.params as { customerId: string };
+    const userId = (request.user as any)?.id;
+
+    if (!request.isMultipart()) {
+      return reply.code(400).send({ error: 'Upload carrier cost files as multipart/form-data' });
+    }
+
+    let query;
+    try {
+      query = importCarrierCostsQuerySchema.parse(request.query);
+    } catch (error) {
+      return sendCarrierCostError(reply, error);
+    }
+
+    const charges: CarrierCharge[] = [];
+    const filenames: string[] = [];
+    const fileErrors: Array<{ filename: string; errors: unknown[] }> = [];
+
+    for await (const file of request.files()) {
+      const buffer = await file.toBuffer();
+      const ext = file.filename.split('.').pop()?.toLowerCase();
+
+      if (!ext || !carrierCosts.fileTypes.includes(ext)) {
+        fileErrors.push({
+          filename: file.filename,
+          errors: [{ message: `Invalid file type. Expected: ${carrierCosts.fileTypes.join(', ')}` }],
+        });
+        continue;
+      }
+
+      try {
+        const records = await carrierCosts.parse(buffer, file.filename);
+        const validation = carrierCosts.validate(records);
+
+        if (!validation.valid) {
+          fileErrors.push({ filename: file.filename, errors: validation.errors });
+          continue;
+        }
+
+        filenames.push(file.filename);
+        charges.push(...records.map((record, index) => toCarrierCharge(record, index + 1, file.filename)));
+      } catch (error) {
+        fileErrors.push({ filename: file.filename, errors: [{ message: (error as Error).message }] });
+      }
+    }
+
+    if (fileErrors.length > 0) {
+      return reply.code(400).send({ error: 'Invalid carrier cost file', files: fileErrors });
+    }
+    if (charges.length === 0) {
+      return reply.code(400).send({ error: 'No files uploaded' });
+    }
+
+    try {
+      const result = await carrierCostService.importCharges(customerId, charges, {
+        filenames,
+        importedBy: userId,
+        dryRun: query.dryRun,
+      });
+      return reply.code(query.dryRun ? 200 : 201).send(result);
+    } catch (error) {
+      return sendCarrierCostError(reply, error);
+    }
+  });
+
+  // List imports
+  fastify.get('/customers/:customerId/carrier-costs/imports', {
+    schema: {
+      tags: ['billing'],
+      description: 'List carrier cost imports for a customer with their totals, newest first',
+      params: customerParams,
+      querystring: {
+        type: 'object',
+        properties: {
+          limit: { type: 'integer', minimum: 1, maximum: 100 },
+          offset: { type: 'integer', minimum: 0 },
+        },
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.VIEW_BILLING),
+  }, async (request, reply) => {
+    const { customerId } = request.params as { customerId: string };
+
+    try {
+      const query = listCarrierCostImportsSchema.parse(request.query);
+      return await carrierCostService.listImports(customerId, query);
+    } catch (error) {
+      return sendCarrierCostError(reply, error);
+    }
+  });
+
+  // Get import with reconciliation report
+  fastify.get('/customers/:customerId/carrier-costs/imports/:importId', {
+    schema: {
+      tags: ['billing'],
+      description: 'Get a carrier cost import with its reconciliation report (matched, unmatched, locked and unpriced charges)',
+      params: {
+        type: 'object',
+        properties: {
+          customerId: { type: 'string' },
+          importId: { type: 'string' },
+        },
+        required: ['customerId', 'importId'],
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.VIEW_BILLING),
+  }, async (request, reply) => {
+    const { customerId, importId } = request.params as { customerId: string; importId: string };
+
+    try {
+      return await carrierCostService.getImport(customerId, importId);
+    } catch (error) {
+      return sendCarrierCostError(reply, error);
+    }
+  });
+};
+
+export default carrierCostRoutes;
@@ -1,7 +1,49 @@
-import { FastifyPluginAsync } from 'fastify';
-import { z } from 'zod';
+import { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { z, ZodError } from 'zod';
 import { prismaPrimary } from '../db';
-import { checkEvidentaryValue } from '../services/usage-detection.js';
+import { buildDeleteConflict, checkEvidentaryValue } from '../services/usage-detection.js';
+import { requirePermission } from '../middleware/requirePermission.js';
+import { PERMISSIONS } from '../auth/permissions.js';
+import { documentUrl, getDocumentStore, toKeySegment } from '../services/documentStore.js';
+import { ContractService, ContractTransitionError } from '../services/contractService.js';
+import { ContactLogService } from '../services/contactLogService.js';
+import { OnboardingService } from '../services/onboardingService.js';
+import { CustomerLifecycleService } from '../services/customerLifecycleService.js';
+import { PortalUserService } from '../services/portalUserService.js';
+import { AuditLogService } from '../services/auditLog.js';
+import {
+  amendContractSchema,
+  contractStatusTransitionSchema,
+  runContractTransitionsSchema,
+  supersedeContractSchema,
+} from '../validation/contractSchema.js';
+import {
+  clientTimelineSchema,
+  createContactLogSchema,
+  listContactLogSchema,
+  updateContactLogSchema,
+} from '../validation/contactLogSchema.js';
+import {
+  onboardingStepKeySchema,
+  runOnboardingSyncSchema,
+  signOffOnboardingStepSchema,
+  updateOnboardingStepSchema,
+} from '../validation/onboardingSchema.js';
+import {
+  FINAL_BILL_ITEM_KEYS,
+  cancelOffboardingSchema,
+  pauseCustomerSchema,
+  recordFinalInvoiceSchema,
+  resumeCustomerSchema,
+  runOffboardingSchema,
+  terminateCustomerSchema,
+  updateFinalBillItemSchema,
+} from '../validation/customerLifecycleSchema.js';
+import { createPortalUserSchema, updatePortalUserSchema } from '../validation/portalSchema.js';
+import { notificationPreferencesSchema, type NotificationPreferences } from '../validation/notificationSchema.js';
+import { entityHistorySchema } from '../validation/auditLogSchema.js';
+
+const MAX_CONTRACT_DOCUMENT_BYTES = 25 * 1024 * 1024;
 
 const organizationSchema = z.object({
   name: z.string().min(1),
@@ -74,7 +116,110 @@ const rateCardSchema = z.object({
 });
 */
 
+/**
+ * Map contract service errors to HTTP responses
+ * ZodError → 400, rejected status change → 409 with code / from / to / allowed,
+ * "... not found" → 404, "Cannot ..." → 409, anything else → 400
+ */
+function sendContractError(reply: FastifyReply, error: unknown) {
+  if (error instanceof ZodError) {
+    return reply.status(400).send({ error: 'Invalid contract request', details: error.errors });
+  }
+  if (error instanceof ContractTransitionError) {
+    return reply.status(409).send({
+      error: 'Invalid contract status transition',
+      code: error.code,
+      reason: error.message,
+      from: error.from,
+      to: error.to,
+      allowed: error.allowed,
+    });
+  }
+
+  const message = (error as Error).message;
+
+  if (message.endsWith('not found')) {
+    return reply.status(404).send({ error: message });
+  }
+  if (message.startsWith('Cannot ')) {
+    return reply.status(409).send({ error: 'Contract change not allowed', reason: message });
+  }
+  return reply.status(400).send({ error: message });
+}
+
+/**
+ * Map contact log service errors to HTTP responses
+ * ZodError → 400, "... not found" → 404, anything else → 400
+ */
+function sendContactLogError(reply: FastifyReply, error: unknown) {
+  if (error instanceof ZodError) {
+    return reply.status(400).send({ error: 'Invalid contact log request', details: error.errors });
+  }
+
+  const message = (error as Error).message;
+
+  if (message.endsWith('not found')) {
+    return reply.status(404).send({ error: message });
+  }
+  return reply.status(400).send({ error: message });
+}
+
+function sendOnboardingError(reply: FastifyReply, error: unknown) {
+  if (error instanceof ZodError) {
+    return reply.status(400).send({ error: 'Invalid onboarding request', details: error.errors });
+  }
+
+  const message = (error as Error).message;
+
+  if (message.endsWith('not found')) {
+    return reply.status(404).send({ error: message });
+  }
+  if (message.startsWith('Cannot ')) {
+    return reply.status(409).send({ error: 'Onboarding change not allowed', reason: message });
+  }
+  return reply.status(400).send({ error: message });
+}
+
+function sendLifecycleError(reply: FastifyReply, error: unknown) {
+  if (error instanceof ZodError) {
+    return reply.status(400).send({ error: 'Invalid lifecycle request', details: error.errors });
+  }
+
+  const message = (error as Error).message;
+
+  if (message.endsWith('not found')) {
+    return reply.status(404).send({ error: message });
+  }
+  if (message.startsWith('Cannot ')) {
+    return reply.status(409).send({ error: 'Status change not allowed', reason: message });
+  }
+  return reply.status(400).send({ error: message });
+}
+
+function sendPortalUserError(reply: FastifyReply, error: unknown) {
+  if (error instanceof ZodError) {
+    return reply.status(400).send({ error: 'Invalid portal user request', details: error.errors });
+  }
+
+  const message = (error as Error).message;
+
+  if (message.endsWith('not found')) {
+    return reply.status(404).send({ error: message });
+  }
+  if (message.startsWith('Cannot ')) {
+    return reply.status(409).send({ error: 'Portal user change not allowed', reason: message });
+  }
+  return reply.status(400).send({ error: message });
+}
+
 export const clientsRoutes: FastifyPluginAsync = async (fastify) => {
+  const contractService = new ContractService(prismaPrimary);
+  const contactLogService = new ContactLogService(prismaPrimary);
+  const onboardingService = new OnboardingService(prismaPrimary);
+  const lifecycleService = new CustomerLifecycleService(prismaPrimary);
+  const portalUserService = new PortalUserService(prismaPrimary);
+  const auditLogService = new AuditLogService(prismaPrimary);
+
   // ============================================
   // ORGANIZATIONS (Clients)
   // ============================================
@@ -199,9 +344,18 @@ export const clientsRoutes: FastifyPluginAsync = async (fastify) => {
   // Update client
   fastify.put('/:id', {
     schema: { tags: ['Clients'] }
-  }, async (request) => {
+  }, async (request, reply) => {
     const { id } = request.params as { id: string };
-    const body = organizationSchema.partial().parse(request.body);
+    const { status, ...body } = organizationSchema.partial().parse(request.body);
+
+    // Status follows the transition table; pausing and terminating have their own routes
+    if (status) {
+      try {
+        await lifecycleService.setStatus(id, status, (request.user as any)?.id);
+      } catch (error) {
+        return sendLifecycleError(reply, error);
+      }
+    }
 
     const client = await prismaPrimary.customer.update({
       where: { id },
@@ -221,20 +375,14 @@ export const clientsRoutes: FastifyPluginAsync = async (fastify) => {
     const valueCheck = await checkEvidentaryValue('customer', id);
 
     if (valueCheck.hasValue) {
-      return reply.status(409).send({
-        error: 'Cannot delete customer with history',
-        reason: valueCheck.reason,
-        details: valueCheck.details,
-        suggestion: {
-          action: 'terminate',
-          message: 'This customer has business history. Please terminate the relationship instead.',
-          endpoint: `PATCH /api/clients/${id}`,
-          payload: { 
-            status: 'terminated',
-            retiredReason: reason || 'Customer relationship ended'
-          }
+      return reply.status(409).send(buildDeleteConflict('Cannot delete customer with history', valueCheck, {
+        message: 'This customer has business history. Please terminate the relationship instead.',
+        endpoint: `POST /api/clients/${id}/terminate`,
+        payload: { 
+          reason: reason || 'Customer relationship ended',
+          effective_date: new Date().toISOString().slice(0, 10)
         }
-      });
+      }));
     }
 
     // Safe to soft-delete
@@ -251,34 +399,179 @@ export const clientsRoutes: FastifyPluginAsync = async (fastify) => {
     return reply.status(204).send();
   });
 
+  // ============================================
+  // STATUS LIFECYCLE (pause / resume / offboarding)
+  // ============================================
+
+  // Status history and allowed next statuses
+  fastify.get('/:id/status-history', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.VIEW_CLIENTS),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      return await lifecycleService.getStatusHistory(id);
+    } catch (error) {
+      return sendLifecycleError(reply, error);
+    }
+  });
+
+  // Change history of the client and its records (audit log)
+  fastify.get('/:id/audit-log', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.VIEW_CLIENTS),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      const query = entityHistorySchema.parse(request.query);
+      return await auditLogService.getEntityHistory('customer', id, query);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return reply.status(400).send({ error: 'Invalid history query', details: error.errors });
+      }
+      throw error;
+    }
+  });
+
+  // Pause an active customer - blocks new billing activity ingestion
+  fastify.post('/:id/pause', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_CLIENTS),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      const body = pauseCustomerSchema.parse(request.body);
+      const customer = await lifecycleService.pause(id, body, (request.user as any)?.id);
+      return reply.send({ customer });
+    } catch (error) {
+      return sendLifecycleError(reply, error);
+    }
+  });
+
+  // Resume a paused customer
+  fastify.post('/:id/resume', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_CLIENTS),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      const body = resumeCustomerSchema.parse(request.body ?? {});
+      const customer = await lifecycleService.resume(id, body, (request.user as any)?.id);
+      return reply.send({ customer });
+    } catch (error) {
+      return sendLifecycleError(reply, error);
+    }
+  });
+
   // Terminate customer relationship - Preserve forever
+  // Schedules an offboarding for the effective date; cancellable until then
   fastify.post('/:id/terminate', {
-    schema: { tags: ['Clients'] }
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_CLIENTS),
   }, async (request, reply) => {
     const { id } = request.params as { id: string };
-    const { reason } = request.body as { reason: string };
 
-    if (!reason || reason.trim().length < 10) {
-      return reply.status(400).send({
-        error: 'Termination reason required',
-        message: 'Please provide a detailed reason for termination (minimum 10 characters)'
-      });
+    try {
+      const body = terminateCustomerSchema.parse(request.body);
+      const result = await lifecycleService.scheduleTermination(id, body, (request.user as any)?.id);
+      return reply.status(201).send(result);
+    } catch (error) {
+      return sendLifecycleError(reply, error);
     }
+  });
 
-    const customer =     await prismaPrimary.customer.update({
-      where: { id },
-      data: {
-        status: 'terminated',
-        retiredAt: new Date(),
-        retiredBy: (request as any).user?.id || null,
-        retiredReason: reason.trim()
-      }
-    });
+  // Latest offboarding with its checklist and undo information
+  fastify.get('/:id/offboarding', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.VIEW_CLIENTS),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
 
-    return reply.send({ 
-      message: 'Customer relationship terminated successfully',
-      customer 
-    });
+    try {
+      return await lifecycleService.getOffboarding(id);
+    } catch (error) {
+      return sendLifecycleError(reply, error);
+    }
+  });
+
+  // Cancel a scheduled termination - restores contracts, space and rate cards
+  fastify.post('/:id/offboarding/cancel', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_CLIENTS),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      const body = cancelOffboardingSchema.parse(request.body ?? {});
+      return await lifecycleService.cancelOffboarding(id, body, (request.user as any)?.id);
+    } catch (error) {
+      return sendLifecycleError(reply, error);
+    }
+  });
+
+  // Release warehouse allocations ahead of the effective date
+  fastify.post('/:id/offboarding/release-allocations', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_CLIENTS),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      return await lifecycleService.releaseAllocations(id);
+    } catch (error) {
+      return sendLifecycleError(reply, error);
+    }
+  });
+
+  // Record the final invoice - deactivates the customer's rate cards
+  fastify.post('/:id/offboarding/final-invoice', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_CLIENTS),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      const body = recordFinalInvoiceSchema.parse(request.body);
+      return await lifecycleService.recordFinalInvoice(id, body.invoice_id, (request.user as any)?.id);
+    } catch (error) {
+      return sendLifecycleError(reply, error);
+    }
+  });
+
+  // Tick off a final-bill checklist item
+  fastify.put('/:id/offboarding/checklist/:itemKey', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_CLIENTS),
+  }, async (request, reply) => {
+    const { id, itemKey } = request.params as { id: string; itemKey: string };
+
+    try {
+      const key = z.enum(FINAL_BILL_ITEM_KEYS).parse(itemKey);
+      const body = updateFinalBillItemSchema.parse(request.body);
+      return await lifecycleService.updateFinalBillItem(id, key, body.done, (request.user as any)?.id);
+    } catch (error) {
+      return sendLifecycleError(reply, error);
+    }
+  });
+
+  // Run the offboarding job now (terminations due, final invoices issued)
+  fastify.post('/offboarding/run', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_CLIENTS),
+  }, async (request, reply) => {
+    try {
+      const body = runOffboardingSchema.parse(request.body ?? {});
+      return await lifecycleService.runOffboarding({
+        asOf: body.as_of ? new Date(`${body.as_of}T00:00:00.000Z`) : undefined,
+        dryRun: body.dry_run,
+      });
+    } catch (error) {
+      return sendLifecycleError(reply, error);
+    }
   });
 
   // ============================================
@@ -447,7 +740,17 @@ export const clientsRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.delete('/:id/warehouse-allocations/:allocationId', {
     schema: { tags: ['Clients'] }  // ← Creates "Roles" header
   },async (request, reply) => {
-    const { allocationId } = request.params as { id: string; allocationId: string };
+    const { id, allocationId } = request.params as { id: string; allocationId: string };
+
+    const valueCheck = await checkEvidentaryValue('warehouse_allocation', allocationId);
+
+    if (valueCheck.hasValue) {
+      return reply.status(409).send(buildDeleteConflict('Cannot delete allocation with storage history', valueCheck, {
+        message: 'Storage has been recorded against this allocation. Please deactivate it instead.',
+        endpoint: `PUT /api/clients/${id}/warehouse-allocations/${allocationId}`,
+        payload: { status: 'inactive' }
+      }));
+    }
 
     await prismaPrimary.warehouseAllocation.delete({ where: { id: allocationId } });
 
@@ -521,6 +824,14 @@ export const clientsRoutes: FastifyPluginAsync = async (fastify) => {
   }, async (request, reply) => {
     const { id, facilityId } = request.params as { id: string; facilityId: string };
 
+    const valueCheck = await checkEvidentaryValue('facility', facilityId);
+
+    if (valueCheck.hasValue) {
+      return reply.status(409).send(buildDeleteConflict('Cannot delete facility of an active customer', valueCheck, {
+        message: 'This facility belongs to an active or retired customer and is kept as history.'
+      }));
+    }
+
     await prismaPrimary.customerFacility.delete({
       where: { id: facilityId, customerId: id },
     });
@@ -633,6 +944,191 @@ export const clientsRoutes: FastifyPluginAsync = async (fastify) => {
     return reply.status(204).send();
   });
 
+  // ============================================
+  // CONTACT LOG (calls, emails, meetings, notes)
+  // ============================================
+
+  // List contact log entries (filters: type, contact_id, from, to)
+  fastify.get('/:id/contact-log', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.VIEW_CLIENTS),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      const query = listContactLogSchema.parse(request.query);
+      return await contactLogService.listEntries(id, query);
+    } catch (error) {
+      return sendContactLogError(reply, error);
+    }
+  });
+
+  // Client timeline: contact log merged with contract, rate card and status events
+  fastify.get('/:id/timeline', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.VIEW_CLIENTS),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      const query = clientTimelineSchema.parse(request.query);
+      return await contactLogService.getTimeline(id, query);
+    } catch (error) {
+      return sendContactLogError(reply, error);
+    }
+  });
+
+  // Log a contact
+  fastify.post('/:id/contact-log', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_CLIENTS),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const userId = (request.user as any)?.id;
+
+    // Entries always record who logged them
+    if (!userId) {
+      return reply.status(401).send({ error: 'Not authenticated' });
+    }
+
+    try {
+      const body = createContactLogSchema.parse(request.body);
+      const entry = await contactLogService.createEntry(id, body, userId);
+      return reply.status(201).send({ entry });
+    } catch (error) {
+      return sendContactLogError(reply, error);
+    }
+  });
+
+  // Update contact log entry
+  fastify.put('/:id/contact-log/:entryId', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_CLIENTS),
+  }, async (request, reply) => {
+    const { id, entryId } = request.params as { id: string; entryId: string };
+
+    try {
+      const body = updateContactLogSchema.parse(request.body);
+      const entry = await contactLogService.updateEntry(id, entryId, body);
+      return reply.send({ entry });
+    } catch (error) {
+      return sendContactLogError(reply, error);
+    }
+  });
+
+  // Delete contact log entry
+  fastify.delete('/:id/contact-log/:entryId', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_CLIENTS),
+  }, async (request, reply) => {
+    const { id, entryId } = request.params as { id: string; entryId: string };
+
+    try {
+      await contactLogService.deleteEntry(id, entryId);
+      return reply.status(204).send();
+    } catch (error) {
+      return sendContactLogError(reply, error);
+    }
+  });
+
+  // ============================================
+  // ONBOARDING CHECKLIST
+  // ============================================
+
+  // Checklist with detected / signed-off steps and the status it calls for
+  fastify.get('/:id/onboarding', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.VIEW_CLIENTS),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      return await onboardingService.getChecklist(id);
+    } catch (error) {
+      return sendOnboardingError(reply, error);
+    }
+  });
+
+  // Owner, due date, required flag and notes for one step
+  fastify.put('/:id/onboarding/steps/:stepKey', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_CLIENTS),
+  }, async (request, reply) => {
+    const { id, stepKey } = request.params as { id: string; stepKey: string };
+
+    try {
+      const key = onboardingStepKeySchema.parse(stepKey);
+      const body = updateOnboardingStepSchema.parse(request.body);
+      return await onboardingService.updateStep(id, key, body);
+    } catch (error) {
+      return sendOnboardingError(reply, error);
+    }
+  });
+
+  // Sign off a step by hand
+  fastify.post('/:id/onboarding/steps/:stepKey/sign-off', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_CLIENTS),
+  }, async (request, reply) => {
+    const { id, stepKey } = request.params as { id: string; stepKey: string };
+    const userId = (request.user as any)?.id;
+
+    // Sign-offs always record who made them
+    if (!userId) {
+      return reply.status(401).send({ error: 'Not authenticated' });
+    }
+
+    try {
+      const key = onboardingStepKeySchema.parse(stepKey);
+      const body = signOffOnboardingStepSchema.parse(request.body ?? {});
+      return await onboardingService.signOffStep(id, key, body, userId);
+    } catch (error) {
+      return sendOnboardingError(reply, error);
+    }
+  });
+
+  // Withdraw a sign-off
+  fastify.delete('/:id/onboarding/steps/:stepKey/sign-off', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_CLIENTS),
+  }, async (request, reply) => {
+    const { id, stepKey } = request.params as { id: string; stepKey: string };
+
+    try {
+      const key = onboardingStepKeySchema.parse(stepKey);
+      return await onboardingService.revokeSignOff(id, key);
+    } catch (error) {
+      return sendOnboardingError(reply, error);
+    }
+  });
+
+  // Re-evaluate one customer and advance its status
+  fastify.post('/:id/onboarding/sync', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_CLIENTS),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      return await onboardingService.syncCustomer(id);
+    } catch (error) {
+      return sendOnboardingError(reply, error);
+    }
+  });
+
+  // Re-evaluate every prospect / setup customer now (same as the daily job)
+  fastify.post('/onboarding/sync', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_CLIENTS),
+  }, async (request, reply) => {
+    try {
+      const body = runOnboardingSyncSchema.parse(request.body ?? {});
+      return await onboardingService.syncStatuses({ dryRun: body.dry_run });
+    } catch (error) {
+      return sendOnboardingError(reply, error);
+    }
+  });
+
   // ============================================
   // CONTRACTS
   // ============================================
@@ -737,6 +1233,139 @@ export const clientsRoutes: FastifyPluginAsync = async (fastify) => {
     });
   });
 
+  // Contract timeline (amendments + supersession chain)
+  fastify.get('/:id/contracts/timeline', {
+    schema: { tags: ['Clients'] }
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      return await contractService.getTimeline(id);
+    } catch (error) {
+      return sendContractError(reply, error);
+    }
+  });
+
+  // Amend contract (child contract with the next amendment number)
+  fastify.post('/:customerId/contracts/:contractId/amend', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_CLIENTS),
+  }, async (request, reply) => {
+    const { customerId, contractId } = request.params as { customerId: string; contractId: string };
+
+    try {
+      const body = amendContractSchema.parse(request.body ?? {});
+      const contract = await contractService.amendContract(customerId, contractId, body);
+      return reply.status(201).send({ contract });
+    } catch (error) {
+      return sendContractError(reply, error);
+    }
+  });
+
+  // Supersede contract (replacement contract, statuses and rate card links move over)
+  fastify.post('/:customerId/contracts/:contractId/supersede', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_CLIENTS),
+  }, async (request, reply) => {
+    const { customerId, contractId } = request.params as { customerId: string; contractId: string };
+    const userId = (request.user as any)?.id;
+
+    try {
+      const body = supersedeContractSchema.parse(request.body);
+      const result = await contractService.supersedeContract(customerId, contractId, body, userId);
+      return reply.status(201).send(result);
+    } catch (error) {
+      return sendContractError(reply, error);
+    }
+  });
+
+  // Change contract status (transition table enforced)
+  fastify.post('/:customerId/contracts/:contractId/status', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_CLIENTS),
+  }, async (request, reply) => {
+    const { customerId, contractId } = request.params as { customerId: string; contractId: string };
+    const userId = (request.user as any)?.id;
+
+    try {
+      const body = contractStatusTransitionSchema.parse(request.body);
+      const contract = await contractService.transitionContract(customerId, contractId, body, userId);
+      return reply.send({ contract });
+    } catch (error) {
+      return sendContractError(reply, error);
+    }
+  });
+
+  // Contract status history
+  fastify.get('/:customerId/contracts/:contractId/status-history', {
+    schema: { tags: ['Clients'] }
+  }, async (request, reply) => {
+    const { customerId, contractId } = request.params as { customerId: string; contractId: string };
+
+    try {
+      return await contractService.getStatusHistory(customerId, contractId);
+    } catch (error) {
+      return sendContractError(reply, error);
+    }
+  });
+
+  // Run the daily contract status job now (dry_run previews the transitions)
+  fastify.post('/contracts/status-transitions/run', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_CLIENTS),
+  }, async (request, reply) => {
+    try {
+      const body = runContractTransitionsSchema.parse(request.body ?? {});
+      return await contractService.runStatusTransitions({
+        asOf: body.as_of ? new Date(body.as_of) : undefined,
+        dryRun: body.dry_run,
+      });
+    } catch (error) {
+      return sendContractError(reply, error);
+    }
+  });
+
+  // Upload signed contract PDF
+  // Each upload is kept under its own key; documentUrl points at the latest one
+  fastify.post('/:customerId/contracts/:contractId/document', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_CLIENTS),
+  }, async (request, reply) => {
+    const { customerId, contractId } = request.params as { customerId: string; contractId: string };
+
+    const contract = await prismaPrimary.contract.findFirst({
+      where: { id: contractId, customerId },
+      select: { id: true },
+    });
+
+    if (!contract) {
+      return reply.status(404).send({ error: 'Contract not found' });
+    }
+
+    const file = await request.file();
+    if (!file) {
+      return reply.status(400).send({ error: 'No file uploaded' });
+    }
+
+    const buffer = await file.toBuffer();
+    if (buffer.length > MAX_CONTRACT_DOCUMENT_BYTES) {
+      return reply.status(400).send({ error: 'Contract document exceeds 25MB' });
+    }
+    if (buffer.subarray(0, 5).toString('latin1') !== '%PDF-') {
+      return reply.status(400).send({ error: 'Contract document must be a PDF' });
+    }
+
+    const key = `contracts/${toKeySegment(customerId)}/${toKeySegment(contractId)}/${Date.now()}.pdf`;
+    await getDocumentStore().put(key, buffer);
+
+    const updated = await prismaPrimary.contract.update({
+      where: { id: contractId },
+      data: { documentUrl: documentUrl(key) },
+    });
+
+    return reply.status(201).send({ contract: updated });
+  });
+
   // ============================================
   // RATE CARDS (DEPRECATED - use /api/rate-cards routes instead)
   // ============================================
@@ -809,7 +1438,8 @@ export const clientsRoutes: FastifyPluginAsync = async (fastify) => {
           data: {
             name: body.client.name,
             slug: body.client.slug,
-            status: body.client.status || 'active',
+            // The onboarding checklist moves the client on from here
+            status: body.client.status || 'prospect',
             setupProgress: {},
           },
         });
@@ -897,7 +1527,13 @@ export const clientsRoutes: FastifyPluginAsync = async (fastify) => {
         return { client, contact, allocations, contract };
       });
 
-      return reply.status(201).send(result);
+      const { checklist } = await onboardingService.syncCustomer(result.client.id);
+
+      return reply.status(201).send({
+        ...result,
+        client: { ...result.client, status: checklist.status },
+        onboarding: checklist,
+      });
     } catch (error: any) {
       // Handle Prisma unique constraint errors
       if (error.code === 'P2002') {
@@ -929,9 +1565,19 @@ export const clientsRoutes: FastifyPluginAsync = async (fastify) => {
       portal_enabled?: boolean;
       portal_subdomain?: string;
       notification_email?: string;
+      notification_preferences?: NotificationPreferences;
       timezone?: string;
     };
 
+    let notificationPreferences: NotificationPreferences | undefined;
+    if (settingsData.notification_preferences !== undefined) {
+      const parsed = notificationPreferencesSchema.safeParse(settingsData.notification_preferences);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: 'Invalid notification preferences', details: parsed.error.errors });
+      }
+      notificationPreferences = parsed.data;
+    }
+
     // Verify customer exists and is not deleted
     const customer = await prismaPrimary.customer.findUnique({
       where: { id },
@@ -953,6 +1599,7 @@ export const clientsRoutes: FastifyPluginAsync = async (fastify) => {
         portalEnabled: settingsData.portal_enabled,
         portalSubdomain: settingsData.portal_subdomain,
         notificationEmail: settingsData.notification_email,
+        notificationPreferences,
         timezone: settingsData.timezone,
       },
       create: {
@@ -960,12 +1607,68 @@ export const clientsRoutes: FastifyPluginAsync = async (fastify) => {
         portalEnabled: settingsData.portal_enabled || false,
         portalSubdomain: settingsData.portal_subdomain,
         notificationEmail: settingsData.notification_email,
+        notificationPreferences: notificationPreferences ?? {},
         timezone: settingsData.timezone || 'America/Chicago',
       },
     });
 
     return reply.send({ settings });
   });
+
+  // ============================================
+  // PORTAL USERS (customer logins for the self-service portal)
+  // ============================================
+
+  // List portal users
+  fastify.get('/:id/portal-users', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.VIEW_CLIENTS),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      return await portalUserService.listUsers(id);
+    } catch (error) {
+      return sendPortalUserError(reply, error);
+    }
+  });
+
+  // Invite a portal user with an initial password
+  fastify.post('/:id/portal-users', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_CLIENTS),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const userId = (request.user as any)?.id;
+
+    if (!userId) {
+      return reply.status(401).send({ error: 'Not authenticated' });
+    }
+
+    try {
+      const body = createPortalUserSchema.parse(request.body);
+      const user = await portalUserService.createUser(id, body, userId);
+      return reply.status(201).send({ user });
+    } catch (error) {
+      return sendPortalUserError(reply, error);
+    }
+  });
+
+  // Rename, disable / re-enable or reset the password of a portal user
+  fastify.put('/:id/portal-users/:portalUserId', {
+    schema: { tags: ['Clients'] },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_CLIENTS),
+  }, async (request, reply) => {
+    const { id, portalUserId } = request.params as { id: string; portalUserId: string };
+
+    try {
+      const body = updatePortalUserSchema.parse(request.body);
+      const user = await portalUserService.updateUser(id, portalUserId, body);
+      return reply.send({ user });
+    } catch (error) {
+      return sendPortalUserError(reply, error);
+    }
+  });
 };
 
 
@@ -0,0 +1,225 @@
+/**
+ * Credit Notes API Routes
+ * =======================
+ *
+ * PURPOSE:
+ * HTTP interface for corrections to issued invoices. Invoices are never edited;
+ * credit notes are requested, approved by a manage_billing holder, then applied.
+ *
+ * ENDPOINTS:
+ * GET  /credit-notes                 # List/filter credit notes
+ * GET  /credit-notes/:id             # Credit note with lines
+ * POST /credit-notes                 # Request a credit note against an invoice
+ * POST /credit-notes/:id/approve     # Approve a pending credit note
+ * POST /credit-notes/:id/reject      # Reject a pending credit note
+ * POST /credit-notes/:id/apply       # Apply to the invoice balance or as account credit
+ *
+ * AUTHENTICATION:
+ * - Read: view_billing
+ * - Request / approve / reject / apply: manage_billing
+ */
+
+import type { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { ZodError } from 'zod';
+import { prismaPrimary } from '../db/index.js';
+import { CreditNoteService } from '../services/creditNoteService.js';
+import { requirePermission } from '../middleware/requirePermission.js';
+import { PERMISSIONS } from '../auth/permissions.js';
+import {
+  applyCreditNoteSchema,
+  createCreditNoteSchema,
+  listCreditNotesSchema,
+  rejectCreditNoteSchema,
+} from '../validation/creditNoteSchema.js';
+
+const idParams = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+  },
+  required: ['id'],
+};
+
+/**
+ * Map credit note errors: missing record → 404, rule violation → 409, validation → 400
+ */
+function sendCreditNoteError(reply: FastifyReply, error: unknown) {
+  if (error instanceof ZodError) {
+    return reply.code(400).send({ error: 'Invalid credit note', details: error.errors });
+  }
+
+  const message = (error as Error).message;
+
+  if (message.endsWith('not found')) {
+    return reply.code(404).send({ error: message });
+  }
+  if (message.startsWith('Cannot ')) {
+    return reply.status(409).send({ error: 'Credit note not allowed', reason: message });
+  }
+  return reply.code(400).send({ error: message });
+}
+
+const creditNotesRoutes: FastifyPluginAsync = async (fastify) => {
+  const creditNoteService = new CreditNoteService(prismaPrimary);
+
+  // List credit notes
+  fastify.get('/credit-notes', {
+    schema: {
+      tags: ['billing'],
+      description: 'List credit notes, filterable by customer, invoice and status',
+      querystring: {
+        type: 'object',
+        properties: {
+          customerId: { type: 'string' },
+          invoiceId: { type: 'string' },
+          status: { type: 'string', enum: ['pending', 'approved', 'rejected', 'applied'] },
+          limit: { type: 'integer', minimum: 1, maximum: 500 },
+          offset: { type: 'integer', minimum: 0 },
+        },
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.VIEW_BILLING),
+  }, async (request, reply) => {
+    try {
+      const query = listCreditNotesSchema.parse(request.query);
+      return await creditNoteService.listCreditNotes(query);
+    } catch (error) {
+      return reply.code(400).send({ error: (error as Error).message });
+    }
+  });
+
+  // Get credit note by ID
+  fastify.get('/credit-notes/:id', {
+    schema: {
+      tags: ['billing'],
+      description: 'Get a credit note with its lines and the invoice lines they correct',
+      params: idParams,
+    },
+    preHandler: requirePermission(PERMISSIONS.VIEW_BILLING),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const creditNote = await creditNoteService.getCreditNoteById(id);
+
+    if (!creditNote) {
+      return reply.code(404).send({ error: 'Credit note not found' });
+    }
+
+    return creditNote;
+  });
+
+  // Request credit note
+  fastify.post('/credit-notes', {
+    schema: {
+      tags: ['billing'],
+      description: 'Request a credit note against an issued invoice. Lines may reference invoice lines; amounts cannot exceed what remains creditable.',
+      body: {
+        type: 'object',
+        properties: {
+          invoiceId: { type: 'string' },
+          reasonCode: {
+            type: 'string',
+            enum: ['billing_error', 'pricing_correction', 'duplicate_charge', 'service_issue', 'goodwill', 'other'],
+          },
+          reason: { type: 'string' },
+          lines: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                invoiceLineId: { type: 'string' },
+                description: { type: 'string' },
+                quantity: { type: 'number' },
+                unitRate: { type: 'number' },
+              },
+              required: ['quantity', 'unitRate'],
+            },
+          },
+        },
+        required: ['invoiceId', 'reasonCode', 'reason', 'lines'],
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_BILLING),
+  }, async (request, reply) => {
+    const userId = (request.user as any)?.id;
+
+    try {
+      const input = createCreditNoteSchema.parse(request.body);
+      const creditNote = await creditNoteService.createCreditNote(input, userId);
+      return reply.code(201).send(creditNote);
+    } catch (error) {
+      return sendCreditNoteError(reply, error);
+    }
+  });
+
+  // Approve
+  fastify.post('/credit-notes/:id/approve', {
+    schema: {
+      tags: ['billing'],
+      description: 'Approve a pending credit note',
+      params: idParams,
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_BILLING),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const userId = (request.user as any)?.id;
+
+    try {
+      return await creditNoteService.approveCreditNote(id, userId);
+    } catch (error) {
+      return sendCreditNoteError(reply, error);
+    }
+  });
+
+  // Reject
+  fastify.post('/credit-notes/:id/reject', {
+    schema: {
+      tags: ['billing'],
+      description: 'Reject a pending credit note',
+      params: idParams,
+      body: {
+        type: 'object',
+        properties: { reason: { type: 'string' } },
+        required: ['reason'],
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_BILLING),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const userId = (request.user as any)?.id;
+
+    try {
+      const { reason } = rejectCreditNoteSchema.parse(request.body);
+      return await creditNoteService.rejectCreditNote(id, reason, userId);
+    } catch (error) {
+      return sendCreditNoteError(reply, error);
+    }
+  });
+
+  // Apply
+  fastify.post('/credit-notes/:id/apply', {
+    schema: {
+      tags: ['billing'],
+      description: 'Apply an approved credit note. target=invoice reduces the invoice balance (excess becomes account credit); target=account holds it all as account credit.',
+      params: idParams,
+      body: {
+        type: 'object',
+        properties: {
+          target: { type: 'string', enum: ['invoice', 'account'] },
+        },
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_BILLING),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const userId = (request.user as any)?.id;
+
+    try {
+      const input = applyCreditNoteSchema.parse(request.body ?? {});
+      return await creditNoteService.applyCreditNote(id, input, userId);
+    } catch (error) {
+      return sendCreditNoteError(reply, error);
+    }
+  });
+};
+
+export default creditNotesRoutes;
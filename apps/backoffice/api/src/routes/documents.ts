@@ -0,0 +1,77 @@
+/**
+ * Documents API Routes
+ * ====================
+ *
+ * PURPOSE:
+ * Authenticated access to files in the document store. Stored URLs
+ * (Invoice.pdfUrl, Contract.documentUrl) point here: /api/documents/<key>.
+ *
+ * ENDPOINTS:
+ * GET /documents/*    # Stream a stored document
+ *
+ * AUTHENTICATION:
+ * Depends on the kind of document (first key segment):
+ * - invoices/...: view_billing
+ * - contracts/...: view_clients
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { requireAuth } from '../middleware/requirePermission.js';
+import { hasEffectivePermission } from '../middleware/permissions.js';
+import { PERMISSIONS } from '../auth/permissions.js';
+import { getDocumentStore, normalizeDocumentKey } from '../services/documentStore.js';
+
+const DOCUMENT_PERMISSIONS: Record<string, string> = {
+  invoices: PERMISSIONS.VIEW_BILLING,
+  contracts: PERMISSIONS.VIEW_CLIENTS,
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+};
+
+const documentsRoutes: FastifyPluginAsync = async (fastify) => {
+  const store = getDocumentStore();
+
+  fastify.get('/documents/*', {
+    schema: {
+      tags: ['Documents'],
+      description: 'Download a stored document (invoice or contract PDF)',
+    },
+    preHandler: requireAuth,
+  }, async (request, reply) => {
+    let key: string;
+    try {
+      key = normalizeDocumentKey((request.params as { '*': string })['*'] ?? '');
+    } catch {
+      return reply.code(404).send({ error: 'Document not found' });
+    }
+
+    const permission = DOCUMENT_PERMISSIONS[key.split('/')[0]];
+    if (!permission) {
+      return reply.code(404).send({ error: 'Document not found' });
+    }
+    if (!hasEffectivePermission(request.user!.permissions, permission)) {
+      return reply.status(403).send({
+        error: 'Forbidden',
+        message: `This action requires the '${permission}' permission`,
+      });
+    }
+
+    const document = await store.get(key);
+    if (!document) {
+      return reply.code(404).send({ error: 'Document not found' });
+    }
+
+    const filename = key.split('/').pop()!;
+    const extension = filename.split('.').pop()?.toLowerCase() ?? '';
+
+    return reply
+      .type(CONTENT_TYPES[extension] ?? 'application/octet-stream')
+      .header('Content-Disposition', `inline; filename="${filename}"`)
+      .header('Cache-Control', 'private, no-store')
+      .send(document);
+  });
+};
+
+export default documentsRoutes;
@@ -0,0 +1,277 @@
+/**
+ * Invoices API Routes
+ * ===================
+ *
+ * PURPOSE:
+ * HTTP interface for invoice generation runs and the invoice lifecycle
+ * (draft → issued, draft/issued → void). Payments are recorded through /payments.
+ *
+ * ENDPOINTS:
+ * GET  /invoices                          # List/filter invoices
+ * GET  /invoices/:id                      # Invoice with lines and payments
+ * GET  /customers/:customerId/invoices    # Invoices for one customer
+ * POST /invoices/generate                 # Generate (or preview) invoices for closed periods
+ * POST /invoices/:id/issue                # Issue a draft
+ * POST /invoices/:id/void                 # Void with a reason
+ * GET  /invoices/:id/pdf                  # Invoice PDF (live preview for drafts)
+ * POST /invoices/:id/pdf                  # Re-render and store the PDF of an issued invoice
+ *
+ * AUTHENTICATION:
+ * - Read: view_billing
+ * - Generate / lifecycle / PDF regeneration: manage_billing
+ *
+ * The issued PDF is stored when an invoice is issued and re-stamped when it is voided.
+ * A failed render never blocks the status change; the PDF is produced on first download.
+ * Issuing also sends the invoice_issued notification in the background.
+ */
+
+import type { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { ZodError } from 'zod';
+import { prismaPrimary } from '../db/index.js';
+import { InvoiceService } from '../services/invoiceService.js';
+import { InvoicePdfService } from '../services/invoicePdfService.js';
+import { NotificationService } from '../services/notificationService.js';
+import { requirePermission } from '../middleware/requirePermission.js';
+import { PERMISSIONS } from '../auth/permissions.js';
+import {
+  generateInvoicesSchema,
+  listInvoicesSchema,
+  voidInvoiceSchema,
+} from '../validation/invoiceSchema.js';
+
+const idParams = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+  },
+  required: ['id'],
+};
+
+const listQuerystring = {
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: ['draft', 'issued', 'sent', 'paid', 'partial', 'overdue', 'void', 'credited'] },
+    billingCycle: { type: 'string', enum: ['immediate', 'weekly', 'monthly', 'ad-hoc'] },
+    from: { type: 'string', format: 'date' },
+    to: { type: 'string', format: 'date' },
+    limit: { type: 'integer', minimum: 1, maximum: 500 },
+    offset: { type: 'integer', minimum: 0 },
+  },
+};
+
+/**
+ * Map lifecycle errors: missing invoice → 404, disallowed transition → 409
+ */
+function sendLifecycleError(reply: FastifyReply, error: unknown) {
+  const message = (error as Error).message;
+
+  if (message === 'Invoice not found') {
+    return reply.code(404).send({ error: message });
+  }
+  if (message.startsWith('Cannot ')) {
+    return reply.status(409).send({ error: 'Invalid invoice status change', reason: message });
+  }
+  return reply.code(400).send({ error: message });
+}
+
+const invoicesRoutes: FastifyPluginAsync = async (fastify) => {
+  const invoiceService = new InvoiceService(prismaPrimary);
+  const invoicePdfService = new InvoicePdfService(prismaPrimary);
+  const notificationService = new NotificationService(prismaPrimary);
+
+  const storePdf = async (invoiceId: string) => {
+    try {
+      await invoicePdfService.storeInvoicePdf(invoiceId);
+    } catch (error) {
+      fastify.log.warn({ invoiceId, err: error }, 'Invoice PDF could not be stored');
+    }
+  };
+
+  // List invoices
+  fastify.get('/invoices', {
+    schema: {
+      tags: ['billing'],
+      description: 'List invoices, filterable by customer, status, billing cycle and period',
+      querystring: {
+        ...listQuerystring,
+        properties: { ...listQuerystring.properties, customerId: { type: 'string' } },
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.VIEW_BILLING),
+  }, async (request, reply) => {
+    try {
+      const query = listInvoicesSchema.parse(request.query);
+      return await invoiceService.listInvoices(query);
+    } catch (error) {
+      return reply.code(400).send({ error: (error as Error).message });
+    }
+  });
+
+  // List invoices for customer
+  fastify.get('/customers/:customerId/invoices', {
+    schema: {
+      tags: ['billing'],
+      description: 'List invoices for a customer',
+      params: {
+        type: 'object',
+        properties: { customerId: { type: 'string' } },
+        required: ['customerId'],
+      },
+      querystring: listQuerystring,
+    },
+    preHandler: requirePermission(PERMISSIONS.VIEW_BILLING),
+  }, async (request, reply) => {
+    const { customerId } = request.params as { customerId: string };
+
+    try {
+      const query = listInvoicesSchema.parse({ ...(request.query as object), customerId });
+      return await invoiceService.listInvoices(query);
+    } catch (error) {
+      return reply.code(400).send({ error: (error as Error).message });
+    }
+  });
+
+  // Get invoice by ID
+  fastify.get('/invoices/:id', {
+    schema: {
+      tags: ['billing'],
+      description: 'Get an invoice with its lines, payments and data snapshot',
+      params: idParams,
+    },
+    preHandler: requirePermission(PERMISSIONS.VIEW_BILLING),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const invoice = await invoiceService.getInvoiceById(id);
+
+    if (!invoice) {
+      return reply.code(404).send({ error: 'Invoice not found' });
+    }
+
+    return invoice;
+  });
+
+  // Generate invoices for closed periods
+  fastify.post('/invoices/generate', {
+    schema: {
+      tags: ['billing'],
+      description: 'Generate draft invoices from priced activities for closed billing periods. preview=true computes the run without writing anything. Existing drafts for a period are regenerated.',
+      body: {
+        type: 'object',
+        properties: {
+          customerId: { type: 'string' },
+          asOf: { type: 'string', format: 'date' },
+          cycles: { type: 'array', items: { type: 'string', enum: ['immediate', 'weekly', 'monthly'] } },
+          preview: { type: 'boolean' },
+        },
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_BILLING),
+  }, async (request, reply) => {
+    const userId = (request.user as any)?.id;
+
+    try {
+      const input = generateInvoicesSchema.parse(request.body ?? {});
+      const result = await invoiceService.generateInvoices(input, userId);
+      return reply.code(input.preview ? 200 : 201).send(result);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return reply.code(400).send({ error: 'Invalid generation request', details: error.errors });
+      }
+      return reply.code(400).send({ error: (error as Error).message });
+    }
+  });
+
+  // Issue draft
+  fastify.post('/invoices/:id/issue', {
+    schema: {
+      tags: ['billing'],
+      description: 'Issue a draft invoice. Issued invoices are locked; the due date follows the active contract paymentTerms (default Net 30).',
+      params: idParams,
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_BILLING),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const userId = (request.user as any)?.id;
+
+    try {
+      const invoice = await invoiceService.issueInvoice(id, userId);
+      await storePdf(id);
+      void notificationService.notifyInvoiceIssued(id, userId);
+      return invoice;
+    } catch (error) {
+      return sendLifecycleError(reply, error);
+    }
+  });
+
+  // Void
+  fastify.post('/invoices/:id/void', {
+    schema: {
+      tags: ['billing'],
+      description: 'Void an invoice. Its activities are released for re-invoicing. Invoices with applied payments cannot be voided.',
+      params: idParams,
+      body: {
+        type: 'object',
+        properties: { reason: { type: 'string' } },
+        required: ['reason'],
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_BILLING),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const userId = (request.user as any)?.id;
+
+    try {
+      const { reason } = voidInvoiceSchema.parse(request.body);
+      const invoice = await invoiceService.voidInvoice(id, reason, userId);
+      if (invoice.pdfUrl) {
+        await storePdf(id);
+      }
+      return invoice;
+    } catch (error) {
+      return sendLifecycleError(reply, error);
+    }
+  });
+
+  // PDF
+  fastify.get('/invoices/:id/pdf', {
+    schema: {
+      tags: ['billing'],
+      description: 'Download the invoice PDF. Drafts render a live preview; issued invoices return the stored document.',
+      params: idParams,
+    },
+    preHandler: requirePermission(PERMISSIONS.VIEW_BILLING),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      const { invoiceNumber, pdf } = await invoicePdfService.getInvoicePdf(id);
+      return reply
+        .type('application/pdf')
+        .header('Content-Disposition', `inline; filename="${invoiceNumber}.pdf"`)
+        .send(pdf);
+    } catch (error) {
+      return sendLifecycleError(reply, error);
+    }
+  });
+
+  // Regenerate PDF
+  fastify.post('/invoices/:id/pdf', {
+    schema: {
+      tags: ['billing'],
+      description: 'Re-render and store the PDF of an issued invoice (e.g. after a branding change)',
+      params: idParams,
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_BILLING),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      const { pdfUrl } = await invoicePdfService.storeInvoicePdf(id);
+      return { pdfUrl };
+    } catch (error) {
+      return sendLifecycleError(reply, error);
+    }
+  });
+};
+
+export default invoicesRoutes;
@@ -0,0 +1,236 @@
+/**
+ * Notification API Routes
+ * =======================
+ *
+ * PURPOSE:
+ * HTTP interface for the notification delivery log (admin), manual retries, a
+ * transport test and the signed-in user's own notification preferences.
+ * Customer preferences are saved with the client settings (/clients/:id/settings).
+ *
+ * ENDPOINTS:
+ * GET  /notifications                # Delivery log (filters: status, eventType, customerId, search) + status counts
+ * GET  /notifications/events         # Event types with their templates
+ * GET  /notifications/preferences    # Current user's subscriptions
+ * PUT  /notifications/preferences    # Update the current user's subscriptions
+ * POST /notifications/process        # Send every delivery that is due now (the retry job)
+ * POST /notifications/test           # Send a test message through the configured transport
+ * GET  /notifications/:id            # One delivery with its rendered message
+ * POST /notifications/:id/retry      # Send a pending or failed delivery again
+ *
+ * AUTHENTICATION:
+ * - Delivery log / events: view_settings
+ * - Retry / process / test: manage_settings
+ * - Preferences: any signed-in user (their own only)
+ */
+
+import type { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { ZodError } from 'zod';
+import { prismaPrimary } from '../db/index.js';
+import { NotificationService } from '../services/notificationService.js';
+import { requireAuth, requirePermission } from '../middleware/requirePermission.js';
+import { PERMISSIONS } from '../auth/permissions.js';
+import {
+  NOTIFICATION_EVENT_TYPES,
+  NOTIFICATION_STATUSES,
+  listNotificationsSchema,
+  notificationPreferencesSchema,
+  sendTestNotificationSchema,
+} from '../validation/notificationSchema.js';
+
+const idParams = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+  },
+  required: ['id'],
+};
+
+const preferencesBody = {
+  type: 'object',
+  properties: Object.fromEntries(NOTIFICATION_EVENT_TYPES.map(eventType => [eventType, { type: 'boolean' }])),
+};
+
+/**
+ * Map service errors to HTTP responses
+ * ZodError → 400, "... not found" → 404, "Cannot ..." → 409, anything else → 400
+ */
+function sendNotificationError(reply: FastifyReply, error: unknown) {
+  if (error instanceof ZodError) {
+    return reply.code(400).send({ error: 'Invalid notification request', details: error.errors });
+  }
+
+  const message = (error as Error).message;
+
+  if (message.endsWith('not found')) {
+    return reply.code(404).send({ error: message });
+  }
+  if (message.startsWith('Cannot ')) {
+    return reply.code(409).send({ error: 'Notification change not allowed', reason: message });
+  }
+  return reply.code(400).send({ error: message });
+}
+
+const notificationRoutes: FastifyPluginAsync = async (fastify) => {
+  const notificationService = new NotificationService(prismaPrimary);
+
+  // Delivery log
+  fastify.get('/notifications', {
+    schema: {
+      tags: ['Notifications'],
+      description: 'List notification deliveries, newest first, with counts by status',
+      querystring: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: [...NOTIFICATION_STATUSES] },
+          eventType: { type: 'string', enum: [...NOTIFICATION_EVENT_TYPES] },
+          customerId: { type: 'string' },
+          search: { type: 'string' },
+          limit: { type: 'integer', minimum: 1, maximum: 500 },
+          offset: { type: 'integer', minimum: 0 },
+        },
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.VIEW_SETTINGS),
+  }, async (request, reply) => {
+    try {
+      const query = listNotificationsSchema.parse(request.query);
+      return await notificationService.listDeliveries(query);
+    } catch (error) {
+      return sendNotificationError(reply, error);
+    }
+  });
+
+  // Event catalog
+  fastify.get('/notifications/events', {
+    schema: {
+      tags: ['Notifications'],
+      description: 'Notification event types with audience and message templates',
+    },
+    preHandler: requirePermission(PERMISSIONS.VIEW_SETTINGS),
+  }, async () => {
+    return { events: notificationService.getEvents() };
+  });
+
+  // Current user's preferences
+  fastify.get('/notifications/preferences', {
+    schema: {
+      tags: ['Notifications'],
+      description: 'Notification events the signed-in user is subscribed to',
+    },
+    preHandler: requireAuth,
+  }, async (request, reply) => {
+    const userId = (request.user as any)?.id;
+    if (!userId) {
+      return reply.code(401).send({ error: 'Not authenticated' });
+    }
+
+    try {
+      return { preferences: await notificationService.getUserPreferences(userId) };
+    } catch (error) {
+      return sendNotificationError(reply, error);
+    }
+  });
+
+  fastify.put('/notifications/preferences', {
+    schema: {
+      tags: ['Notifications'],
+      description: 'Subscribe to (true) or unsubscribe from (false) notification events. Omitted events keep their setting.',
+      body: preferencesBody,
+    },
+    preHandler: requireAuth,
+  }, async (request, reply) => {
+    const userId = (request.user as any)?.id;
+    if (!userId) {
+      return reply.code(401).send({ error: 'Not authenticated' });
+    }
+
+    try {
+      const changes = notificationPreferencesSchema.parse(request.body ?? {});
+      return { preferences: await notificationService.updateUserPreferences(userId, changes) };
+    } catch (error) {
+      return sendNotificationError(reply, error);
+    }
+  });
+
+  // Run the retry job now
+  fastify.post('/notifications/process', {
+    schema: {
+      tags: ['Notifications'],
+      description: 'Send every pending delivery whose next attempt is due',
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_SETTINGS),
+  }, async (_request, reply) => {
+    try {
+      return await notificationService.processDue();
+    } catch (error) {
+      return sendNotificationError(reply, error);
+    }
+  });
+
+  // Transport test
+  fastify.post('/notifications/test', {
+    schema: {
+      tags: ['Notifications'],
+      description: 'Send a test message through the configured transport (outbox or SMTP). Not recorded in the delivery log.',
+      body: {
+        type: 'object',
+        properties: {
+          to: { type: 'string' },
+        },
+        required: ['to'],
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_SETTINGS),
+  }, async (request, reply) => {
+    let input;
+    try {
+      input = sendTestNotificationSchema.parse(request.body);
+    } catch (error) {
+      return sendNotificationError(reply, error);
+    }
+
+    try {
+      return await notificationService.sendTest(input.to);
+    } catch (error) {
+      return reply.code(502).send({ error: 'Test message could not be sent', reason: (error as Error).message });
+    }
+  });
+
+  // One delivery
+  fastify.get('/notifications/:id', {
+    schema: {
+      tags: ['Notifications'],
+      description: 'Notification delivery with its rendered subject and body',
+      params: idParams,
+    },
+    preHandler: requirePermission(PERMISSIONS.VIEW_SETTINGS),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      return await notificationService.getDelivery(id);
+    } catch (error) {
+      return sendNotificationError(reply, error);
+    }
+  });
+
+  // Manual retry
+  fastify.post('/notifications/:id/retry', {
+    schema: {
+      tags: ['Notifications'],
+      description: 'Send a pending or failed delivery again now. Sent deliveries cannot be retried.',
+      params: idParams,
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_SETTINGS),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      return await notificationService.retryDelivery(id);
+    } catch (error) {
+      return sendNotificationError(reply, error);
+    }
+  });
+};
+
+export default notificationRoutes;
@@ -0,0 +1,252 @@
+/**
+ * Payments & Accounts Receivable API Routes
+ * =========================================
+ *
+ * PURPOSE:
+ * HTTP interface for the AR ledger: recording payments against issued invoices,
+ * reversals (including NSF), unapplied credit and the aging report.
+ *
+ * ENDPOINTS:
+ * GET  /payments                  # List/filter payments
+ * POST /payments                  # Record a payment (partial, full or overpayment)
+ * POST /payments/:id/clear        # Apply a pending payment
+ * POST /payments/:id/reverse      # Reverse a payment (nsf=true for returned payments)
+ * GET  /credits                   # Open unapplied credit
+ * POST /credits/:id/apply         # Apply credit to an open invoice
+ * GET  /ar/aging                  # AR aging by customer (current/1-30/31-60/61-90/90+)
+ *
+ * AUTHENTICATION:
+ * - Read: view_billing
+ * - Record / reverse / apply: manage_billing (recordedBy is stamped with the current user)
+ *
+ * Recording a payment sends the payment_received notification in the background.
+ */
+
+import type { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { ZodError } from 'zod';
+import { prismaPrimary } from '../db/index.js';
+import { PaymentService } from '../services/paymentService.js';
+import { NotificationService } from '../services/notificationService.js';
+import { requirePermission } from '../middleware/requirePermission.js';
+import { PERMISSIONS } from '../auth/permissions.js';
+import {
+  agingReportSchema,
+  applyCreditSchema,
+  listPaymentsSchema,
+  recordPaymentSchema,
+  reversePaymentSchema,
+} from '../validation/paymentSchema.js';
+
+const idParams = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+  },
+  required: ['id'],
+};
+
+/**
+ * Map ledger errors: missing record → 404, rule violation → 409, validation → 400
+ */
+function sendPaymentError(reply: FastifyReply, error: unknown) {
+  if (error instanceof ZodError) {
+    return reply.code(400).send({ error: 'Invalid request', details: error.errors });
+  }
+
+  const message = (error as Error).message;
+
+  if (message.endsWith('not found')) {
+    return reply.code(404).send({ error: message });
+  }
+  if (message.startsWith('Cannot ')) {
+    return reply.status(409).send({ error: 'Payment not allowed', reason: message });
+  }
+  return reply.code(400).send({ error: message });
+}
+
+const paymentsRoutes: FastifyPluginAsync = async (fastify) => {
+  const paymentService = new PaymentService(prismaPrimary);
+  const notificationService = new NotificationService(prismaPrimary);
+
+  // List payments
+  fastify.get('/payments', {
+    schema: {
+      tags: ['billing'],
+      description: 'List payments, filterable by customer, invoice, status, method and payment date',
+      querystring: {
+        type: 'object',
+        properties: {
+          customerId: { type: 'string' },
+          invoiceId: { type: 'string' },
+          status: { type: 'string', enum: ['applied', 'pending', 'failed', 'reversed'] },
+          method: { type: 'string', enum: ['ach', 'card', 'wire', 'check', 'cash', 'credit'] },
+          from: { type: 'string', format: 'date' },
+          to: { type: 'string', format: 'date' },
+          limit: { type: 'integer', minimum: 1, maximum: 500 },
+          offset: { type: 'integer', minimum: 0 },
+        },
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.VIEW_BILLING),
+  }, async (request, reply) => {
+    try {
+      const query = listPaymentsSchema.parse(request.query);
+      return await paymentService.listPayments(query);
+    } catch (error) {
+      return reply.code(400).send({ error: (error as Error).message });
+    }
+  });
+
+  // Record payment
+  fastify.post('/payments', {
+    schema: {
+      tags: ['billing'],
+      description: 'Record a payment against an issued invoice. Updates balanceDue and status atomically; any amount above the balance is kept as unapplied credit. status=pending records without applying.',
+      body: {
+        type: 'object',
+        properties: {
+          invoiceId: { type: 'string' },
+          amount: { type: 'number' },
+          paymentDate: { type: 'string', format: 'date' },
+          method: { type: 'string', enum: ['ach', 'card', 'wire', 'check', 'cash'] },
+          reference: { type: 'string' },
+          status: { type: 'string', enum: ['applied', 'pending'] },
+          notes: { type: 'string' },
+        },
+        required: ['invoiceId', 'amount', 'paymentDate', 'method'],
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_BILLING),
+  }, async (request, reply) => {
+    const userId = (request.user as any)?.id;
+
+    try {
+      const input = recordPaymentSchema.parse(request.body);
+      const result = await paymentService.recordPayment(input, userId);
+      if (result.payment) {
+        void notificationService.notifyPaymentReceived(result.payment.id, userId);
+      }
+      return reply.code(201).send(result);
+    } catch (error) {
+      return sendPaymentError(reply, error);
+    }
+  });
+
+  // Clear pending payment
+  fastify.post('/payments/:id/clear', {
+    schema: {
+      tags: ['billing'],
+      description: 'Apply a pending payment (e.g. a cleared check) to its invoice',
+      params: idParams,
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_BILLING),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const userId = (request.user as any)?.id;
+
+    try {
+      return await paymentService.clearPayment(id, userId);
+    } catch (error) {
+      return sendPaymentError(reply, error);
+    }
+  });
+
+  // Reverse payment
+  fastify.post('/payments/:id/reverse', {
+    schema: {
+      tags: ['billing'],
+      description: 'Reverse a payment and reopen its invoice. nsf=true records a returned payment (status failed).',
+      params: idParams,
+      body: {
+        type: 'object',
+        properties: {
+          reason: { type: 'string' },
+          nsf: { type: 'boolean' },
+        },
+        required: ['reason'],
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_BILLING),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const userId = (request.user as any)?.id;
+
+    try {
+      const input = reversePaymentSchema.parse(request.body);
+      return await paymentService.reversePayment(id, input, userId);
+    } catch (error) {
+      return sendPaymentError(reply, error);
+    }
+  });
+
+  // Open credit
+  fastify.get('/credits', {
+    schema: {
+      tags: ['billing'],
+      description: 'List open unapplied credit (overpayments), optionally for one customer',
+      querystring: {
+        type: 'object',
+        properties: {
+          customerId: { type: 'string' },
+        },
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.VIEW_BILLING),
+  }, async (request) => {
+    const { customerId } = request.query as { customerId?: string };
+    return paymentService.listCredits(customerId);
+  });
+
+  // Apply credit
+  fastify.post('/credits/:id/apply', {
+    schema: {
+      tags: ['billing'],
+      description: 'Apply unapplied credit to an open invoice of the same customer (amount defaults to what can be applied)',
+      params: idParams,
+      body: {
+        type: 'object',
+        properties: {
+          invoiceId: { type: 'string' },
+          amount: { type: 'number' },
+        },
+        required: ['invoiceId'],
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_BILLING),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const userId = (request.user as any)?.id;
+
+    try {
+      const input = applyCreditSchema.parse(request.body);
+      return await paymentService.applyCredit(id, input, userId);
+    } catch (error) {
+      return sendPaymentError(reply, error);
+    }
+  });
+
+  // AR aging
+  fastify.get('/ar/aging', {
+    schema: {
+      tags: ['billing'],
+      description: 'Accounts receivable aging per customer by days past dueDate (current, 1-30, 31-60, 61-90, 90+), net of unapplied credit',
+      querystring: {
+        type: 'object',
+        properties: {
+          asOf: { type: 'string', format: 'date' },
+          customerId: { type: 'string' },
+        },
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.VIEW_BILLING),
+  }, async (request, reply) => {
+    try {
+      const query = agingReportSchema.parse(request.query);
+      return await paymentService.getAgingReport(query);
+    } catch (error) {
+      return reply.code(400).send({ error: (error as Error).message });
+    }
+  });
+};
+
+export default paymentsRoutes;
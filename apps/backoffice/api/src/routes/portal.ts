@@ -0,0 +1,250 @@
+/**
+ * Customer Portal API Routes
+ * ==========================
+ *
+ * PURPOSE:
+ * HTTP interface for the read-only customer self-service portal. Portal users are
+ * customer logins (customer.portal_users), not staff, and have their own session
+ * cookie - staff sessions are not accepted here and portal sessions are not
+ * accepted anywhere else.
+ *
+ * ENDPOINTS (mounted at /api/portal):
+ * GET    /auth/portal         # Portal branding for a subdomain (public)
+ * POST   /auth/login          # Sign in to a customer's portal
+ * POST   /auth/logout         # End the portal session
+ * GET    /auth/me             # Current portal user and customer
+ * GET    /invoices            # Issued invoices (status: open | paid | all)
+ * GET    /invoices/:id        # Invoice with lines and payments
+ * GET    /payments            # Payments on the customer's invoices
+ * GET    /rate-card           # Rates in effect today
+ * GET    /contracts           # Contracts
+ * GET    /allocations         # Active warehouse allocations
+ * GET    /issues              # Open issues (overdue invoices, expiring contracts, termination)
+ *
+ * ROUTING:
+ * The portal is found by subdomain - from the Host header when it is a subdomain of
+ * PORTAL_BASE_DOMAIN (acme.portal.handled.app), otherwise from the path-prefix
+ * routed web app (/portal/acme) passing `subdomain`.
+ *
+ * AUTHENTICATION:
+ * - auth/portal, auth/login: public
+ * - everything else: portal session; the customer comes from the session, never
+ *   from the request
+ */
+
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { ZodError } from 'zod';
+import { prismaPrimary } from '../db/index.js';
+import { portalSessionCache } from '../db/session-cache.js';
+import { portalLucia } from '../auth/portalLucia.js';
+import { requirePortalUser } from '../middleware/requirePortalUser.js';
+import { PortalService, resolvePortalSubdomain } from '../services/portalService.js';
+import { PortalUserService } from '../services/portalUserService.js';
+import {
+  portalInvoiceListSchema,
+  portalListSchema,
+  portalLoginSchema,
+  portalLookupSchema,
+} from '../validation/portalSchema.js';
+
+/**
+ * Map service errors to HTTP responses
+ * ZodError → 400, "... not found" → 404, bad credentials → 401, disabled → 403,
+ * anything else → 400
+ */
+function sendPortalError(reply: FastifyReply, error: unknown) {
+  if (error instanceof ZodError) {
+    return reply.code(400).send({ error: 'Invalid portal request', details: error.errors });
+  }
+
+  const message = (error as Error).message;
+
+  if (message.endsWith('not found')) {
+    return reply.code(404).send({ error: message });
+  }
+  if (message === 'Invalid email or password') {
+    return reply.code(401).send({ error: message });
+  }
+  if (message === 'Account is disabled') {
+    return reply.code(403).send({ error: message });
+  }
+  return reply.code(400).send({ error: message });
+}
+
+/**
+ * Portal subdomain for a request - the Host wins over the path-prefix subdomain
+ */
+function getSubdomain(request: FastifyRequest, pathSubdomain: string | undefined): string {
+  const subdomain = resolvePortalSubdomain(request.headers.host, process.env.PORTAL_BASE_DOMAIN) ?? pathSubdomain;
+
+  if (!subdomain) {
+    throw new Error('Portal not found');
+  }
+  return subdomain;
+}
+
+function scopedPortal(request: FastifyRequest): PortalService {
+  return new PortalService(prismaPrimary, request.portalUser!.customerId);
+}
+
+const portalRoutes: FastifyPluginAsync = async (fastify) => {
+  const portalUserService = new PortalUserService(prismaPrimary);
+
+  // ============================================
+  // PORTAL AUTH
+  // ============================================
+
+  // Portal branding for the login page
+  fastify.get('/auth/portal', {
+    schema: { tags: ['Portal'] },
+  }, async (request, reply) => {
+    try {
+      const query = portalLookupSchema.parse(request.query);
+      const portal = await portalUserService.getPortal(getSubdomain(request, query.subdomain));
+      return { subdomain: portal.subdomain, customerName: portal.customerName };
+    } catch (error) {
+      return sendPortalError(reply, error);
+    }
+  });
+
+  // Login
+  fastify.post('/auth/login', {
+    schema: { tags: ['Portal'] },
+  }, async (request, reply) => {
+    try {
+      const body = portalLoginSchema.parse(request.body);
+      const user = await portalUserService.authenticate(body, getSubdomain(request, body.subdomain));
+
+      const session = await portalLucia.createSession(user.id, {});
+      const sessionCookie = portalLucia.createSessionCookie(session.id);
+
+      reply.setCookie(sessionCookie.name, sessionCookie.value, sessionCookie.attributes);
+      return { user };
+    } catch (error) {
+      return sendPortalError(reply, error);
+    }
+  });
+
+  // Logout
+  fastify.post('/auth/logout', {
+    schema: { tags: ['Portal'] },
+  }, async (request, reply) => {
+    const sessionId = portalLucia.readSessionCookie(request.headers.cookie ?? '');
+
+    if (sessionId) {
+      await portalLucia.invalidateSession(sessionId);
+      portalSessionCache.invalidate(sessionId);
+    }
+
+    const blankCookie = portalLucia.createBlankSessionCookie();
+    reply.setCookie(blankCookie.name, blankCookie.value, blankCookie.attributes);
+    return { success: true };
+  });
+
+  // ============================================
+  // PORTAL DATA (session required, scoped to the session's customer)
+  // ============================================
+
+  await fastify.register(async (portal) => {
+    portal.addHook('preHandler', requirePortalUser);
+
+    // Current portal user - 401 when the session belongs to another customer's portal
+    portal.get('/auth/me', {
+      schema: { tags: ['Portal'] },
+    }, async (request, reply) => {
+      try {
+        const query = portalLookupSchema.parse(request.query);
+        const subdomain = resolvePortalSubdomain(request.headers.host, process.env.PORTAL_BASE_DOMAIN) ?? query.subdomain;
+        if (subdomain) {
+          const current = await portalUserService.getPortal(subdomain).catch(() => null);
+          if (current?.customerId !== request.portalUser!.customerId) {
+            return reply.code(401).send({ error: 'Signed in to a different portal' });
+          }
+        }
+
+        const customer = await scopedPortal(request).getProfile();
+        const { id, email, name } = request.portalUser!;
+        return { id, email, name, customer };
+      } catch (error) {
+        return sendPortalError(reply, error);
+      }
+    });
+
+    portal.get('/invoices', {
+      schema: { tags: ['Portal'] },
+    }, async (request, reply) => {
+      try {
+        const query = portalInvoiceListSchema.parse(request.query);
+        return await scopedPortal(request).listInvoices(query);
+      } catch (error) {
+        return sendPortalError(reply, error);
+      }
+    });
+
+    portal.get('/invoices/:id', {
+      schema: { tags: ['Portal'] },
+    }, async (request, reply) => {
+      const { id } = request.params as { id: string };
+
+      try {
+        const invoice = await scopedPortal(request).getInvoice(id);
+        return { invoice };
+      } catch (error) {
+        return sendPortalError(reply, error);
+      }
+    });
+
+    portal.get('/payments', {
+      schema: { tags: ['Portal'] },
+    }, async (request, reply) => {
+      try {
+        const query = portalListSchema.parse(request.query);
+        return await scopedPortal(request).listPayments(query);
+      } catch (error) {
+        return sendPortalError(reply, error);
+      }
+    });
+
+    portal.get('/rate-card', {
+      schema: { tags: ['Portal'] },
+    }, async (request, reply) => {
+      try {
+        return await scopedPortal(request).getRateCard();
+      } catch (error) {
+        return sendPortalError(reply, error);
+      }
+    });
+
+    portal.get('/contracts', {
+      schema: { tags: ['Portal'] },
+    }, async (request, reply) => {
+      try {
+        return await scopedPortal(request).listContracts();
+      } catch (error) {
+        return sendPortalError(reply, error);
+      }
+    });
+
+    portal.get('/allocations', {
+      schema: { tags: ['Portal'] },
+    }, async (request, reply) => {
+      try {
+        return await scopedPortal(request).listAllocations();
+      } catch (error) {
+        return sendPortalError(reply, error);
+      }
+    });
+
+    portal.get('/issues', {
+      schema: { tags: ['Portal'] },
+    }, async (request, reply) => {
+      try {
+        return await scopedPortal(request).listIssues();
+      } catch (error) {
+        return sendPortalError(reply, error);
+      }
+    });
+  });
+};
+
+export default portalRoutes;
@@ -0,0 +1,90 @@
+/**
+ * Purge API Routes
+ * ================
+ *
+ * PURPOSE:
+ * Admin trigger for the purge job (jobs/purge-cron.ts): preview what would be
+ * hard-deleted and, when asked explicitly, purge it now. Runs default to dry runs.
+ *
+ * ENDPOINTS:
+ * GET  /purge/config   # Retention per entity type, run limit, whether the daily job deletes
+ * POST /purge/run      # { dryRun = true, entityTypes?, limit? } → purged / skipped / failed
+ *
+ * AUTHENTICATION:
+ * - view_settings (config), manage_settings (run)
+ */
+
+import type { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { ZodError } from 'zod';
+import { prismaPrimary } from '../db/index.js';
+import {
+  DEFAULT_PURGE_LIMIT,
+  MIN_RETENTION_DAYS,
+  PurgeService,
+  getPurgeRetention,
+} from '../services/purgeService.js';
+import { checkEvidentaryValue } from '../services/usage-detection.js';
+import { requirePermission } from '../middleware/requirePermission.js';
+import { PERMISSIONS } from '../auth/permissions.js';
+import { PURGE_ENTITIES, runPurgeSchema } from '../validation/purgeSchema.js';
+
+/**
+ * Map service errors to HTTP responses
+ * ZodError → 400, anything else → 400
+ */
+function sendPurgeError(reply: FastifyReply, error: unknown) {
+  if (error instanceof ZodError) {
+    return reply.code(400).send({ error: 'Invalid purge request', details: error.errors });
+  }
+  return reply.code(400).send({ error: (error as Error).message });
+}
+
+const purgeRoutes: FastifyPluginAsync = async (fastify) => {
+  const purgeService = new PurgeService(prismaPrimary, checkEvidentaryValue);
+
+  fastify.get('/purge/config', {
+    schema: {
+      tags: ['Admin'],
+      description: 'Purge job retention and mode',
+    },
+    preHandler: requirePermission(PERMISSIONS.VIEW_SETTINGS),
+  }, async () => {
+    return {
+      enabled: process.env.PURGE_ENABLED === 'true',
+      retention: getPurgeRetention(),
+      minRetentionDays: MIN_RETENTION_DAYS,
+      limit: DEFAULT_PURGE_LIMIT,
+    };
+  });
+
+  fastify.post('/purge/run', {
+    schema: {
+      tags: ['Admin'],
+      description: 'Run the purge job now - a dry run unless dryRun is false',
+      body: {
+        type: 'object',
+        properties: {
+          dryRun: { type: 'boolean' },
+          entityTypes: { type: 'array', items: { type: 'string', enum: [...PURGE_ENTITIES] } },
+          limit: { type: 'integer', minimum: 1, maximum: 1000 },
+        },
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_SETTINGS),
+  }, async (request, reply) => {
+    try {
+      const body = runPurgeSchema.parse(request.body ?? {});
+      const result = await purgeService.run(body);
+
+      request.log.info(
+        { dryRun: result.dryRun, purged: result.purged.length, skipped: result.skipped.length, failed: result.failed.length },
+        'Purge run triggered by admin'
+      );
+      return result;
+    } catch (error) {
+      return sendPurgeError(reply, error);
+    }
+  });
+};
+
+export default purgeRoutes;
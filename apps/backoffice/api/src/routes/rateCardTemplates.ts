@@ -0,0 +1,230 @@
+/**
+ * Rate Card Template API Routes
+ * =============================
+ *
+ * PURPOSE:
+ * HTTP interface for the company rate card template catalog (versioned list-price
+ * cards built from billing service codes) and bulk rate increases across every
+ * customer card derived from a template.
+ *
+ * ENDPOINTS:
+ * GET    /rate-card-templates                     # Latest template versions (+ active card counts)
+ * GET    /rate-card-templates/:id                 # Template version with its version history
+ * POST   /rate-card-templates                     # Create template (v1)
+ * PUT    /rate-card-templates/:id                 # Edit template (creates v2+)
+ * DELETE /rate-card-templates/:id                 # Archive template (all versions)
+ * POST   /rate-card-templates/:id/bulk-increase   # Preview (dryRun) or apply a general rate increase
+ *
+ * AUTHENTICATION:
+ * - Read: view_billing
+ * - Write / bulk increase: manage_billing (createdBy is stamped with the current user)
+ */
+
+import type { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { ZodError } from 'zod';
+import { prismaPrimary } from '../db/index.js';
+import { RateCardTemplateService } from '../services/rateCardTemplateService.js';
+import { requirePermission } from '../middleware/requirePermission.js';
+import { PERMISSIONS } from '../auth/permissions.js';
+import {
+  bulkRateIncreaseSchema,
+  createRateCardTemplateSchema,
+  listRateCardTemplatesSchema,
+  updateRateCardTemplateSchema,
+} from '../validation/rateCardTemplateSchema.js';
+
+const templateParams = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+  },
+  required: ['id'],
+};
+
+/**
+ * Map service errors to HTTP responses
+ * ZodError → 400, "... not found" → 404, "Cannot ..." → 409, anything else → 400
+ */
+function sendTemplateError(reply: FastifyReply, error: unknown) {
+  if (error instanceof ZodError) {
+    return reply.code(400).send({ error: 'Invalid rate card template request', details: error.errors });
+  }
+
+  const message = (error as Error).message;
+
+  if (message.endsWith('not found')) {
+    return reply.code(404).send({ error: message });
+  }
+  if (message.startsWith('Cannot ')) {
+    return reply.code(409).send({ error: 'Rate card template change not allowed', reason: message });
+  }
+  return reply.code(400).send({ error: message });
+}
+
+const rateCardTemplateRoutes: FastifyPluginAsync = async (fastify) => {
+  const templateService = new RateCardTemplateService(prismaPrimary);
+
+  // List templates
+  fastify.get('/rate-card-templates', {
+    schema: {
+      tags: ['rate-cards'],
+      description: 'List the latest version of each rate card template with the number of active customer cards derived from it',
+      querystring: {
+        type: 'object',
+        properties: {
+          includeInactive: { type: 'string', enum: ['true', 'false'] },
+        },
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.VIEW_BILLING),
+  }, async (request, reply) => {
+    try {
+      const query = listRateCardTemplatesSchema.parse(request.query);
+      return await templateService.listTemplates(query);
+    } catch (error) {
+      return sendTemplateError(reply, error);
+    }
+  });
+
+  // Get template
+  fastify.get('/rate-card-templates/:id', {
+    schema: {
+      tags: ['rate-cards'],
+      description: 'Get a rate card template version with the version history of its template key',
+      params: templateParams,
+    },
+    preHandler: requirePermission(PERMISSIONS.VIEW_BILLING),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      return await templateService.getTemplate(id);
+    } catch (error) {
+      return sendTemplateError(reply, error);
+    }
+  });
+
+  // Create template
+  fastify.post('/rate-card-templates', {
+    schema: {
+      tags: ['rate-cards'],
+      description: 'Create a rate card template (v1). Service types must be active billing service codes.',
+      body: {
+        type: 'object',
+        properties: {
+          templateKey: { type: 'string' },
+          name: { type: 'string' },
+          description: { type: 'string' },
+          rates: { type: 'object' },
+          billingCycles: { type: 'object' },
+          minimumMonthlyCharge: { type: 'number' },
+          notes: { type: 'string' },
+        },
+        required: ['templateKey', 'name', 'rates'],
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_BILLING),
+  }, async (request, reply) => {
+    const userId = (request.user as any)?.id;
+
+    try {
+      const input = createRateCardTemplateSchema.parse(request.body);
+      const template = await templateService.createTemplate(input, userId);
+      return reply.code(201).send(template);
+    } catch (error) {
+      return sendTemplateError(reply, error);
+    }
+  });
+
+  // Edit template (creates next version)
+  fastify.put('/rate-card-templates/:id', {
+    schema: {
+      tags: ['rate-cards'],
+      description: 'Edit a rate card template - creates the next version and deactivates this one. Customer cards are not changed.',
+      params: templateParams,
+      body: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          description: { type: 'string', nullable: true },
+          rates: { type: 'object' },
+          billingCycles: { type: 'object' },
+          minimumMonthlyCharge: { type: 'number', nullable: true },
+          notes: { type: 'string' },
+        },
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_BILLING),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const userId = (request.user as any)?.id;
+
+    try {
+      const input = updateRateCardTemplateSchema.parse(request.body);
+      const template = await templateService.updateTemplate(id, input, userId);
+      return reply.code(201).send(template);
+    } catch (error) {
+      return sendTemplateError(reply, error);
+    }
+  });
+
+  // Archive template
+  fastify.delete('/rate-card-templates/:id', {
+    schema: {
+      tags: ['rate-cards'],
+      description: 'Archive a rate card template (all versions). Customer cards created from it keep their rates.',
+      params: templateParams,
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_BILLING),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      return await templateService.archiveTemplate(id);
+    } catch (error) {
+      return sendTemplateError(reply, error);
+    }
+  });
+
+  // Bulk rate increase
+  fastify.post('/rate-card-templates/:id/bulk-increase', {
+    schema: {
+      tags: ['rate-cards'],
+      description: 'Apply a general rate increase (percentage, rounding, per-service exclusions) to every active customer card derived from any version of this template, creating new card versions effective on effectiveDate. dryRun (default true) previews the affected customers and rate changes.',
+      params: templateParams,
+      body: {
+        type: 'object',
+        properties: {
+          percentage: { type: 'number' },
+          effectiveDate: { type: 'string', format: 'date' },
+          rounding: {
+            type: 'object',
+            properties: {
+              increment: { type: 'number' },
+              mode: { type: 'string', enum: ['nearest', 'up', 'down'] },
+            },
+          },
+          excludeServices: { type: 'array', items: { type: 'string' } },
+          includeSurcharges: { type: 'boolean' },
+          includeMinimums: { type: 'boolean' },
+          customerIds: { type: 'array', items: { type: 'string' } },
+          dryRun: { type: 'boolean' },
+        },
+        required: ['percentage', 'effectiveDate'],
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_BILLING),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const userId = (request.user as any)?.id;
+
+    try {
+      const input = bulkRateIncreaseSchema.parse(request.body);
+      return await templateService.bulkIncrease(id, input, userId);
+    } catch (error) {
+      return sendTemplateError(reply, error);
+    }
+  });
+};
+
+export default rateCardTemplateRoutes;
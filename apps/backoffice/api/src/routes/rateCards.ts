@@ -51,6 +51,7 @@
  * 📖 READ OPERATIONS:
  * GET  /customers/:customerId/rate-cards          # Get all rate cards for customer
  * GET  /customers/:customerId/rate-cards/active   # Get currently active rate card
+ * GET  /customers/:customerId/effective-rates?date= # Merged services/surcharges/minimums with provenance
  * GET  /rate-cards/:id                            # Get specific rate card by ID
  *
  * ✏️ WRITE OPERATIONS:
@@ -58,13 +59,20 @@
  * PUT  /rate-cards/:id                            # Edit rate card (creates v2+)
  * POST /rate-cards/:parentId/adjustments          # Create adjustment rate card
  *
+ * 🧪 SIMULATION:
+ * POST /rate-cards/simulate                       # Price a customer's history against draft rates (read-only)
+ *
+ * 🔍 COMPARISON:
+ * GET  /rate-cards/diff?from=&to=                 # Service-by-service diff between two cards
+ * GET  /rate-cards/:id/diff/effective             # Diff between a card and its merged adjustments
+ *
  * 🔗 CONTRACT MANAGEMENT:
  * POST   /rate-cards/:id/contracts                # Add contract to rate card
  * DELETE /rate-cards/:id/contracts/:contractId    # Remove contract from rate card
  *
  * 🔄 LIFECYCLE OPERATIONS:
  * POST   /rate-cards/:id/deactivate               # Deactivate rate card
- * DELETE /rate-cards/:id                          # Archive rate card
+ * DELETE /rate-cards/:id                          # Delete if never used, otherwise archive
  * POST   /rate-cards/:id/restore                  # Restore archived rate card
  *
  * AUTHENTICATION REQUIREMENTS:
@@ -139,19 +147,52 @@
  * ```
  */
 
-import type { FastifyPluginAsync } from 'fastify';
+import type { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { ZodError } from 'zod';
 import { prismaPrimary } from '../db/index.js';
 import { RateCardService } from '../services/rateCardService.js';
-import { requireAuth } from '../middleware/requirePermission.js';
+import { RateSimulationService } from '../services/rateSimulationService.js';
+import { RateCardDiffService } from '../services/rateCardDiffService.js';
+import { EffectiveRatesService } from '../services/effectiveRatesService.js';
+import { requireAuth, requirePermission } from '../middleware/requirePermission.js';
+import { PERMISSIONS } from '../auth/permissions.js';
+import { buildDeleteConflict, checkEvidentaryValue } from '../services/usage-detection.js';
 import {
   createRateCardSchema,
   createAdjustmentSchema,
   updateRateCardSchema,
   addContractLinkSchema,
+  simulateRateCardSchema,
+  rateCardDiffQuerySchema,
+  effectiveRateCardDiffQuerySchema,
+  effectiveRatesQuerySchema,
 } from '../validation/rateCardSchema.js';
 
+/**
+ * Map service errors to HTTP responses
+ * ZodError → 400, "... not found" → 404, "Cannot ..." → 409, anything else → 400
+ */
+function sendRateCardError(reply: FastifyReply, error: unknown) {
+  if (error instanceof ZodError) {
+    return reply.code(400).send({ error: 'Invalid request', details: error.errors });
+  }
+
+  const message = (error as Error).message;
+
+  if (message.endsWith('not found')) {
+    return reply.code(404).send({ error: message });
+  }
+  if (message.startsWith('Cannot ')) {
+    return reply.code(409).send({ error: 'Rate card operation not allowed', reason: message });
+  }
+  return reply.code(400).send({ error: message });
+}
+
 const rateCards: FastifyPluginAsync = async (fastify) => {
   const rateCardService = new RateCardService(prismaPrimary);
+  const rateSimulationService = new RateSimulationService(prismaPrimary);
+  const rateCardDiffService = new RateCardDiffService(prismaPrimary);
+  const effectiveRatesService = new EffectiveRatesService(prismaPrimary);
 
   // Get all rate cards for customer
   fastify.get('/customers/:customerId/rate-cards', {
@@ -189,6 +230,37 @@ const rateCards: FastifyPluginAsync = async (fastify) => {
     return rateCardService.getActiveRateCard(customerId);
   });
 
+  // Effective rates for a customer on a date
+  fastify.get('/customers/:customerId/effective-rates', {
+    schema: {
+      tags: ['rate-cards'],
+      description: 'Fully merged services, surcharges and minimums for a customer on a date (today by default) across the standard card and every adjustment in effect, keyed by billing service code, with the card and field each value comes from',
+      params: {
+        type: 'object',
+        properties: {
+          customerId: { type: 'string' },
+        },
+        required: ['customerId'],
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          date: { type: 'string', format: 'date' },
+        },
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.VIEW_BILLING),
+  }, async (request, reply) => {
+    const { customerId } = request.params as { customerId: string };
+
+    try {
+      const { date } = effectiveRatesQuerySchema.parse(request.query);
+      return await effectiveRatesService.getEffectiveRates(customerId, date);
+    } catch (error) {
+      return sendRateCardError(reply, error);
+    }
+  });
+
   // Create NEW rate card (v1 - no parent)
   fastify.post('/customers/:customerId/rate-cards', {
     schema: {
@@ -319,6 +391,87 @@ const rateCards: FastifyPluginAsync = async (fastify) => {
     }
   });
 
+  // Simulate a customer's billing history against draft rates or an existing card
+  fastify.post('/rate-cards/simulate', {
+    schema: {
+      tags: ['rate-cards'],
+      description: 'Price a customer\'s billing activities in a date range against a draft rates payload or an existing rate card. Returns per-category totals, the difference vs what was actually charged and the effect of monthly minimums. Nothing is persisted.',
+      body: {
+        type: 'object',
+        properties: {
+          customerId: { type: 'string' },
+          from: { type: 'string', format: 'date' },
+          to: { type: 'string', format: 'date' },
+          rateCardId: { type: 'string' },
+          rates: { type: 'object' },
+          minimumMonthlyCharge: { type: ['number', 'null'] },
+        },
+        required: ['customerId', 'from', 'to'],
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.VIEW_BILLING),
+  }, async (request, reply) => {
+    try {
+      const input = simulateRateCardSchema.parse(request.body);
+      return await rateSimulationService.simulate(input);
+    } catch (error) {
+      return sendRateCardError(reply, error);
+    }
+  });
+
+  // Diff two rate cards
+  fastify.get('/rate-cards/diff', {
+    schema: {
+      tags: ['rate-cards'],
+      description: 'Service-by-service diff between two rate cards: added/removed services, changed base rates, tiers, zones, items, surcharges and minimums with percentage deltas',
+      querystring: {
+        type: 'object',
+        properties: {
+          from: { type: 'string' },
+          to: { type: 'string' },
+        },
+        required: ['from', 'to'],
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const { from, to } = rateCardDiffQuerySchema.parse(request.query);
+      return await rateCardDiffService.diffCards(from, to);
+    } catch (error) {
+      return sendRateCardError(reply, error);
+    }
+  });
+
+  // Diff a rate card against its effective result with adjustments
+  fastify.get('/rate-cards/:id/diff/effective', {
+    schema: {
+      tags: ['rate-cards'],
+      description: 'Diff between a standard rate card and the effective rates once its adjustments are merged (adjustments in effect on asOf, or all active ones)',
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+        },
+        required: ['id'],
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          asOf: { type: 'string', format: 'date' },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      const { asOf } = effectiveRateCardDiffQuerySchema.parse(request.query);
+      return await rateCardDiffService.diffWithAdjustments(id, asOf);
+    } catch (error) {
+      return sendRateCardError(reply, error);
+    }
+  });
+
   // Get specific rate card by ID
   fastify.get('/rate-cards/:id', {
     schema: {
@@ -465,11 +618,11 @@ const rateCards: FastifyPluginAsync = async (fastify) => {
     return rateCardService.deactivateRateCard(id);
   });
 
-  // Archive (soft delete) rate card
+  // Smart delete - never-used rate cards are deleted, anything with history is archived
   fastify.delete('/rate-cards/:id', {
     schema: {
       tags: ['rate-cards'],
-      description: 'Archive (soft delete) a rate card following the app\'s deletion philosophy',
+      description: 'Delete a never-used rate card, or archive (soft delete) one with history following the app\'s deletion philosophy',
       params: {
         type: 'object',
         properties: {
@@ -493,7 +646,24 @@ const rateCards: FastifyPluginAsync = async (fastify) => {
       return reply.code(401).send({ error: 'Authentication required to archive rate cards' });
     }
 
-    const rateCard = await rateCardService.archiveRateCard(id, userId, reason);
+    const valueCheck = await checkEvidentaryValue('rate_card', id);
+
+    if (!valueCheck.hasValue) {
+      if (valueCheck.reason.endsWith('not found')) {
+        return reply.code(404).send({ error: valueCheck.reason });
+      }
+      await rateCardService.deleteRateCard(id);
+      return reply.code(204).send();
+    }
+
+    if (valueCheck.suggestion !== 'archive') {
+      return reply.code(409).send(buildDeleteConflict('Cannot delete rate card with history', valueCheck, {
+        message: 'This rate card is already archived and is kept as pricing history.',
+      }));
+    }
+
+    // Used for billing, contracts or versioning - archive instead of deleting
+    const rateCard = await rateCardService.archiveRateCard(id, userId, reason || valueCheck.reason);
     return reply.code(200).send(rateCard);
   });
 
@@ -0,0 +1,139 @@
+/**
+ * Renewal Alert API Routes
+ * ========================
+ *
+ * PURPOSE:
+ * HTTP interface for rate card / contract expiry alerts - the dashboard task list,
+ * header notifications and a manual trigger for the daily renewal check.
+ *
+ * ENDPOINTS:
+ * GET    /renewal-alerts                   # Open + acknowledged alerts (filters: status, customerId, alertType)
+ * POST   /renewal-alerts/:id/acknowledge   # Acknowledge an alert (stays listed until resolved)
+ * POST   /renewal-alerts/run               # Run the renewal check now (dryRun previews candidates only; otherwise expiring contracts are notified)
+ *
+ * AUTHENTICATION:
+ * - Read: view_clients
+ * - Acknowledge / run: manage_clients (acknowledgedBy is stamped with the current user)
+ */
+
+import type { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { ZodError } from 'zod';
+import { prismaPrimary } from '../db/index.js';
+import { RenewalAlertService } from '../services/renewalAlertService.js';
+import { NotificationService } from '../services/notificationService.js';
+import { requirePermission } from '../middleware/requirePermission.js';
+import { PERMISSIONS } from '../auth/permissions.js';
+import {
+  RENEWAL_ALERT_TYPES,
+  listRenewalAlertsSchema,
+  runRenewalCheckSchema,
+} from '../validation/renewalAlertSchema.js';
+
+/**
+ * Map service errors to HTTP responses
+ * ZodError → 400, "... not found" → 404, "Cannot ..." → 409, anything else → 400
+ */
+function sendRenewalAlertError(reply: FastifyReply, error: unknown) {
+  if (error instanceof ZodError) {
+    return reply.code(400).send({ error: 'Invalid renewal alert request', details: error.errors });
+  }
+
+  const message = (error as Error).message;
+
+  if (message.endsWith('not found')) {
+    return reply.code(404).send({ error: message });
+  }
+  if (message.startsWith('Cannot ')) {
+    return reply.code(409).send({ error: 'Renewal alert change not allowed', reason: message });
+  }
+  return reply.code(400).send({ error: message });
+}
+
+const renewalAlertRoutes: FastifyPluginAsync = async (fastify) => {
+  const renewalAlertService = new RenewalAlertService(prismaPrimary);
+  const notificationService = new NotificationService(prismaPrimary);
+
+  // List alerts
+  fastify.get('/renewal-alerts', {
+    schema: {
+      tags: ['Clients'],
+      description: 'List renewal alerts (expiring rate cards and contracts, rate card gaps, drafted renewals) with counts by status and severity',
+      querystring: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['active', 'open', 'acknowledged', 'resolved'] },
+          customerId: { type: 'string' },
+          alertType: { type: 'string', enum: [...RENEWAL_ALERT_TYPES] },
+          limit: { type: 'integer', minimum: 1, maximum: 500 },
+        },
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.VIEW_CLIENTS),
+  }, async (request, reply) => {
+    try {
+      const query = listRenewalAlertsSchema.parse(request.query);
+      return await renewalAlertService.listAlerts(query);
+    } catch (error) {
+      return sendRenewalAlertError(reply, error);
+    }
+  });
+
+  // Acknowledge alert
+  fastify.post('/renewal-alerts/:id/acknowledge', {
+    schema: {
+      tags: ['Clients'],
+      description: 'Acknowledge a renewal alert. It stays listed until the renewal check resolves it.',
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+        },
+        required: ['id'],
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_CLIENTS),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const userId = (request.user as any)?.id;
+
+    try {
+      return await renewalAlertService.acknowledgeAlert(id, userId);
+    } catch (error) {
+      return sendRenewalAlertError(reply, error);
+    }
+  });
+
+  // Run renewal check
+  fastify.post('/renewal-alerts/run', {
+    schema: {
+      tags: ['Clients'],
+      description: 'Run the renewal check now. Drafts renewal contracts for autoRenew contracts unless dryRun is set.',
+      body: {
+        type: 'object',
+        properties: {
+          asOf: { type: 'string', format: 'date' },
+          windows: { type: 'array', items: { type: 'integer' } },
+          draftRenewals: { type: 'boolean' },
+          draftRateCardVersions: { type: 'boolean' },
+          dryRun: { type: 'boolean' },
+        },
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_CLIENTS),
+  }, async (request, reply) => {
+    const userId = (request.user as any)?.id;
+
+    try {
+      const input = runRenewalCheckSchema.parse(request.body ?? {});
+      const result = await renewalAlertService.runCheck({ ...input, runBy: userId });
+      if (!result.dryRun) {
+        void notificationService.notifyRenewalCandidates(result.candidates);
+      }
+      return result;
+    } catch (error) {
+      return sendRenewalAlertError(reply, error);
+    }
+  });
+};
+
+export default renewalAlertRoutes;
@@ -15,6 +15,7 @@ import {
   validatePermissions,
 } from '../lib/validation.js';
 import { error as logError } from '../lib/logger.js';
+import { buildDeleteConflict, checkEvidentaryValue } from '../services/usage-detection.js';
 
 interface RoleParams {
   id: string;
@@ -513,14 +514,22 @@ export async function roleRoutes(fastify: FastifyInstance) {
         return reply.status(404).send({ error: 'Role not found' });
       }
 
-      if (role.isSystem) {
-        return reply.status(400).send({ error: 'Cannot delete system role' });
-      }
-
-      if (role._count.userRoles > 0) {
-        return reply.status(400).send({
-          error: 'Cannot delete role with assigned users',
-          details: `This role is assigned to ${role._count.userRoles} user${role._count.userRoles === 1 ? '' : 's'}. Remove the role from all users first.`,
+      // System, retired and assigned roles are kept
+      const valueCheck = await checkEvidentaryValue('role', String(roleId));
+
+      if (valueCheck.hasValue) {
+        const error = role.isSystem
+          ? 'Cannot delete system role'
+          : role._count.userRoles > 0
+            ? 'Cannot delete role with assigned users'
+            : 'Cannot delete retired role';
+
+        return reply.status(409).send({
+          ...buildDeleteConflict(error, valueCheck, {
+            message: role._count.userRoles > 0 && !role.isSystem
+              ? `This role is assigned to ${role._count.userRoles} user${role._count.userRoles === 1 ? '' : 's'}. Remove the role from all users first.`
+              : 'This role is kept to preserve the history of who had which access.',
+          }),
           userCount: role._count.userRoles
         });
       }
@@ -0,0 +1,208 @@
+/**
+ * Storage Billing API Routes
+ * ==========================
+ *
+ * PURPOSE:
+ * HTTP interface for on-hand storage input and the daily storage snapshot job that
+ * turns it into prorated Storage_* billing activities.
+ *
+ * ENDPOINTS:
+ * POST /storage/levels                             # Record on-hand storage for an allocation
+ * GET  /customers/:customerId/storage/levels       # Storage levels for a customer
+ * GET  /storage/snapshots                          # List daily snapshots
+ * POST /storage/snapshots/run                      # Run (or re-run) the snapshot for a date
+ * GET  /customers/:customerId/storage/config       # Long-term penalty thresholds
+ * PUT  /customers/:customerId/storage/config       # Update long-term penalty thresholds
+ *
+ * AUTHENTICATION:
+ * - Read: view_billing
+ * - Levels / run / config: manage_billing
+ */
+
+import type { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { ZodError } from 'zod';
+import { prismaPrimary } from '../db/index.js';
+import { StorageBillingService } from '../services/storageBillingService.js';
+import { requirePermission } from '../middleware/requirePermission.js';
+import { PERMISSIONS } from '../auth/permissions.js';
+import {
+  createStorageLevelSchema,
+  listStorageSnapshotsSchema,
+  runStorageSnapshotSchema,
+  storageConfigSchema,
+} from '../validation/storageSchema.js';
+
+const customerParams = {
+  type: 'object',
+  properties: {
+    customerId: { type: 'string' },
+  },
+  required: ['customerId'],
+};
+
+/**
+ * Map storage errors: missing record → 404, rule violation → 409, validation → 400
+ */
+function sendStorageError(reply: FastifyReply, error: unknown) {
+  if (error instanceof ZodError) {
+    return reply.code(400).send({ error: 'Invalid storage input', details: error.errors });
+  }
+
+  const message = (error as Error).message;
+
+  if (message.endsWith('not found')) {
+    return reply.code(404).send({ error: message });
+  }
+  if (message.startsWith('Cannot ')) {
+    return reply.status(409).send({ error: 'Storage snapshot not allowed', reason: message });
+  }
+  return reply.code(400).send({ error: message });
+}
+
+const storageRoutes: FastifyPluginAsync = async (fastify) => {
+  const storageService = new StorageBillingService(prismaPrimary);
+
+  // Record on-hand storage
+  fastify.post('/storage/levels', {
+    schema: {
+      tags: ['billing'],
+      description: 'Record on-hand storage for a warehouse allocation from a date. Replaces a level on the same date. Takes precedence over the allocation\'s spaceAllocated until inventory exists.',
+      body: {
+        type: 'object',
+        properties: {
+          warehouseAllocationId: { type: 'string' },
+          effectiveDate: { type: 'string', format: 'date' },
+          pallets: { type: 'number', minimum: 0 },
+          cubicFeet: { type: 'number', minimum: 0 },
+          aging: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                storedSince: { type: 'string', format: 'date' },
+                pallets: { type: 'number' },
+              },
+              required: ['storedSince', 'pallets'],
+            },
+          },
+          notes: { type: 'string' },
+        },
+        required: ['warehouseAllocationId', 'effectiveDate'],
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_BILLING),
+  }, async (request, reply) => {
+    try {
+      const input = createStorageLevelSchema.parse(request.body);
+      const userId = (request.user as any)?.id;
+      const level = await storageService.createStorageLevel(input, userId);
+      return reply.code(201).send(level);
+    } catch (error) {
+      return sendStorageError(reply, error);
+    }
+  });
+
+  // List storage levels for a customer
+  fastify.get('/customers/:customerId/storage/levels', {
+    schema: {
+      tags: ['billing'],
+      description: 'List recorded storage levels for a customer, newest first',
+      params: customerParams,
+    },
+    preHandler: requirePermission(PERMISSIONS.VIEW_BILLING),
+  }, async (request) => {
+    const { customerId } = request.params as { customerId: string };
+    return storageService.listStorageLevels(customerId);
+  });
+
+  // List snapshots
+  fastify.get('/storage/snapshots', {
+    schema: {
+      tags: ['billing'],
+      description: 'List daily storage snapshots, filterable by customer and date range',
+      querystring: {
+        type: 'object',
+        properties: {
+          customerId: { type: 'string' },
+          from: { type: 'string', format: 'date' },
+          to: { type: 'string', format: 'date' },
+          limit: { type: 'integer', minimum: 1, maximum: 1000 },
+          offset: { type: 'integer', minimum: 0 },
+        },
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.VIEW_BILLING),
+  }, async (request, reply) => {
+    try {
+      const query = listStorageSnapshotsSchema.parse(request.query);
+      return await storageService.listSnapshots(query);
+    } catch (error) {
+      return sendStorageError(reply, error);
+    }
+  });
+
+  // Run snapshot for a date
+  fastify.post('/storage/snapshots/run', {
+    schema: {
+      tags: ['billing'],
+      description: 'Snapshot on-hand storage for a date and emit Storage_* billing activities. Safe to re-run; invoiced activities are left untouched.',
+      body: {
+        type: 'object',
+        properties: {
+          date: { type: 'string', format: 'date' },
+          customerId: { type: 'string' },
+        },
+        required: ['date'],
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_BILLING),
+  }, async (request, reply) => {
+    try {
+      const input = runStorageSnapshotSchema.parse(request.body);
+      const userId = (request.user as any)?.id;
+      return await storageService.runSnapshot(input.date, { customerId: input.customerId, runBy: userId });
+    } catch (error) {
+      return sendStorageError(reply, error);
+    }
+  });
+
+  // Get storage config
+  fastify.get('/customers/:customerId/storage/config', {
+    schema: {
+      tags: ['billing'],
+      description: 'Get long-term storage penalty thresholds (days in storage) for a customer',
+      params: customerParams,
+    },
+    preHandler: requirePermission(PERMISSIONS.VIEW_BILLING),
+  }, async (request) => {
+    const { customerId } = request.params as { customerId: string };
+    return storageService.getStorageConfig(customerId);
+  });
+
+  // Update storage config
+  fastify.put('/customers/:customerId/storage/config', {
+    schema: {
+      tags: ['billing'],
+      description: 'Set long-term storage penalty thresholds (ascending days, e.g. [180, 365])',
+      params: customerParams,
+      body: {
+        type: 'object',
+        properties: {
+          longTermThresholdDays: { type: 'array', items: { type: 'integer', minimum: 1 } },
+        },
+        required: ['longTermThresholdDays'],
+      },
+    },
+    preHandler: requirePermission(PERMISSIONS.MANAGE_BILLING),
+  }, async (request, reply) => {
+    try {
+      const { customerId } = request.params as { customerId: string };
+      const config = storageConfigSchema.parse(request.body);
+      return await storageService.updateStorageConfig(customerId, config);
+    } catch (error) {
+      return sendStorageError(reply, error);
+    }
+  });
+};
+
+export default storageRoutes;
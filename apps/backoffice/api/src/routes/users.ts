@@ -1,8 +1,33 @@
 import { FastifyPluginAsync } from 'fastify';
+import { ZodError } from 'zod';
 import { prismaPrimary } from '../db';
-import { checkEvidentaryValue } from '../services/usage-detection.js';
+import { buildDeleteConflict, checkEvidentaryValue } from '../services/usage-detection.js';
+import { requirePermission } from '../middleware/requirePermission.js';
+import { PERMISSIONS } from '../auth/permissions.js';
+import { AuditLogService } from '../services/auditLog.js';
+import { entityHistorySchema } from '../validation/auditLogSchema.js';
 
 export const usersRoutes: FastifyPluginAsync = async (fastify) => {
+  const auditLogService = new AuditLogService(prismaPrimary);
+
+  // GET /api/users/:id/audit-log - Changes to the user and their role assignments
+  fastify.get('/:id/audit-log', {
+    schema: { tags: ['Users'] },
+    preHandler: requirePermission(PERMISSIONS.VIEW_USERS),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      const query = entityHistorySchema.parse(request.query);
+      return await auditLogService.getEntityHistory('user', id, query);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return reply.status(400).send({ error: 'Invalid history query', details: error.errors });
+      }
+      throw error;
+    }
+  });
+
   // DELETE /api/users/:id - Smart delete for users
   fastify.delete('/:id', {
     schema: { tags: ['Users'] }  // ← Creates "Roles" header
@@ -14,19 +39,14 @@ export const usersRoutes: FastifyPluginAsync = async (fastify) => {
     const valueCheck = await checkEvidentaryValue('user', id);
 
     if (valueCheck.hasValue) {
-      return reply.status(409).send({
-        error: 'Cannot delete user with activity',
-        reason: valueCheck.reason,
-        details: valueCheck.details,
-        suggestion: {
-          action: 'disable',
-          message: 'This user has activity or audit trail records. Please disable instead.',
-          endpoint: `PATCH /api/users/${id}`,
-          payload: { 
-            disabled: true
-          }
-        }
-      });
+      return reply.status(409).send(buildDeleteConflict('Cannot delete user with activity', valueCheck,
+        valueCheck.suggestion === 'disable'
+          ? {
+              message: 'This user has activity or audit trail records. Please disable instead.',
+              endpoint: `POST /api/admin/users/${id}/disable`,
+            }
+          : { message: 'This user is already disabled and is kept for the audit trail.' }
+      ));
     }
 
     // Safe to soft-delete (test account with no activity)
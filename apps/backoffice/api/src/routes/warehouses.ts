@@ -1,6 +1,11 @@
 import { FastifyPluginAsync } from 'fastify';
-import { z } from 'zod';
+import { z, ZodError } from 'zod';
 import { prismaPrimary } from '../db';
+import { requirePermission } from '../middleware/requirePermission.js';
+import { PERMISSIONS } from '../auth/permissions.js';
+import { buildDeleteConflict, checkEvidentaryValue } from '../services/usage-detection.js';
+import { AuditLogService } from '../services/auditLog.js';
+import { entityHistorySchema } from '../validation/auditLogSchema.js';
 
 const warehouseSchema = z.object({
   code: z.string().min(1),
@@ -29,6 +34,8 @@ const warehouseSchema = z.object({
 });
 
 export const warehousesRoutes: FastifyPluginAsync = async (fastify) => {
+  const auditLogService = new AuditLogService(prismaPrimary);
+
   // List warehouses
   fastify.get('/', {
     schema: { tags: ['Warehouses'] }
@@ -83,6 +90,24 @@ export const warehousesRoutes: FastifyPluginAsync = async (fastify) => {
     return { warehouse };
   });
 
+  // Change history of the warehouse, its zones and allocations (audit log)
+  fastify.get('/:id/audit-log', {
+    schema: { tags: ['Warehouses'] },
+    preHandler: requirePermission(PERMISSIONS.VIEW_WAREHOUSES),
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      const query = entityHistorySchema.parse(request.query);
+      return await auditLogService.getEntityHistory('warehouse', id, query);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return reply.status(400).send({ error: 'Invalid history query', details: error.errors });
+      }
+      throw error;
+    }
+  });
+
   // Create warehouse
   fastify.post('/', {
     schema: { tags: ['Warehouses'] }
@@ -135,22 +160,25 @@ export const warehousesRoutes: FastifyPluginAsync = async (fastify) => {
     return { warehouse };
   });
 
-  // Delete warehouse
+  // Delete warehouse - Smart delete with lifecycle awareness
   fastify.delete('/:id', {
     schema: { tags: ['Warehouses'] }
   }, async (request, reply) => {
     const { id } = request.params as { id: string };
 
-    // Check if warehouse has active client allocations
-    const allocationsCount = await prismaPrimary.warehouseAllocation.count({
-      where: { companyWarehouseId: id, status: 'active' },
-    });
+    // Any allocation (active or not) or zone configuration = has history
+    const valueCheck = await checkEvidentaryValue('warehouse', id);
+
+    if (valueCheck.hasValue) {
+      return reply.status(409).send(buildDeleteConflict('Cannot delete warehouse with history', valueCheck, {
+        message: 'This warehouse has been used in operations or planning. Please decommission it instead.',
+        endpoint: `PUT /api/warehouses/${id}`,
+        payload: { status: 'decommissioned' }
+      }));
+    }
 
-    if (allocationsCount > 0) {
-      return reply.status(400).send({
-        error: 'Cannot delete warehouse with active client allocations',
-        details: `${allocationsCount} active allocations exist`,
-      });
+    if (valueCheck.reason.endsWith('not found')) {
+      return reply.status(404).send({ error: valueCheck.reason });
     }
 
     await prismaPrimary.warehouse.delete({ where: { id } });
@@ -0,0 +1,523 @@
+/**
+ * @fileoverview Audit Log - automatic change history for the primary database
+ * @author Handled Platform Team
+ * @version 1.0.0
+ * @since 2026-10-18
+ *
+ * PURPOSE:
+ * Record who changed what, when and from where for every mutation made through the
+ * primary Prisma client, and serve that history to the admin audit log page and the
+ * per-entity history tabs (client, warehouse, user).
+ *
+ * SCOPE:
+ * ✅ Prisma client extension that writes config.audit_log for create / update / upsert / delete (+ *Many)
+ * ✅ Before/after diff of the changed columns, secrets redacted
+ * ✅ Actor, request ID and IP from the audit context (lib/auditContext.ts)
+ * ✅ Transaction-aware: inside $transaction the previous state is read through the
+ *    transaction client, and entries are written only after it commits
+ * ✅ Filterable log and entity history (including child records via parent_type/parent_id)
+ *
+ * OUT OF SCOPE:
+ * ❌ Raw SQL ($executeRaw / $queryRaw) - write an AuditLog row explicitly
+ * ❌ Database cascades (ON DELETE CASCADE children are not logged individually)
+ * ❌ Nested writes (e.g. invoice lines created with their invoice) are not itemised -
+ *    the parent's entry names the relations written in details
+ * ❌ The data database (workspace / reference schemas)
+ *
+ * BUSINESS RULES:
+ * 📜 The log is append-only - the table rejects UPDATE / DELETE / TRUNCATE
+ * 🙈 Columns named like password / secret / token are stored as "[redacted]"
+ * 🔇 Updates that change nothing (or only updatedAt) are not logged
+ * 📦 Bulk operations over more than BULK_DETAIL_LIMIT rows are logged as one summary entry
+ * 🧯 A failed audit write is logged and never fails the change itself
+ *
+ * @example
+ * const client = withAuditLog(new PrismaClient({ adapter }));
+ * await client.customer.update({ where: { id }, data: { name: 'Acme' } });
+ * // → config.audit_log: UPDATE customer <id> { before: { name: 'Old' }, after: { name: 'Acme' } }
+ */
+
+import type { PrismaClient } from '@prisma/client-primary';
+import { getAuditContext, runWithAuditContext } from '../lib/auditContext.js';
+import { error as logError } from '../lib/logger.js';
+import type { EntityHistoryInput, ListAuditLogInput } from '../validation/auditLogSchema.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'PURGE';
+
+type AuditRecord = Record<string, unknown>;
+
+export interface AuditEntry {
+  action: AuditAction;
+  entityType: string;
+  entityId: string;
+  parentType: string | null;
+  parentId: string | null;
+  before: AuditRecord | null;
+  after: AuditRecord | null;
+  details: string | null;
+}
+
+interface AuditQueryParams {
+  model?: string;
+  operation: string;
+  args: any;
+  query: (args: any) => Promise<any>;
+}
+
+/** Models whose changes are not audited: the log itself, sessions, and the notification delivery log */
+export const AUDIT_EXCLUDED_MODELS = ['AuditLog', 'Session', 'PortalSession', 'NotificationDelivery'];
+
+/** Models keyed by something other than `id` */
+export const AUDIT_RECORD_KEYS: Record<string, string[]> = {
+  UserRole: ['userId', 'roleId'],
+  RolePermission: ['roleId', 'permissionId'],
+  RateCardContract: ['rateCardId', 'contractId'],
+  CustomerSettings: ['customerId'],
+};
+
+/** Foreign keys that make a record part of a customer's, warehouse's or user's history (first match wins) */
+const PARENT_KEYS: Array<[field: string, entityType: string]> = [
+  ['customerId', 'customer'],
+  ['warehouseId', 'warehouse'],
+  ['companyWarehouseId', 'warehouse'],
+  ['userId', 'user'],
+];
+
+const AUDITED_OPERATIONS = new Set([
+  'create', 'createMany', 'createManyAndReturn',
+  'update', 'updateMany', 'updateManyAndReturn', 'upsert',
+  'delete', 'deleteMany',
+]);
+
+/** Nested write operations inside a relation field of create / update data */
+const NESTED_WRITE_OPERATIONS = [
+  'create', 'createMany', 'connectOrCreate', 'upsert',
+  'update', 'updateMany', 'delete', 'deleteMany', 'set', 'connect', 'disconnect',
+];
+
+const IGNORED_FIELDS = new Set(['updatedAt']);
+const SECRET_FIELD = /password|secret|token/i;
+export const BULK_DETAIL_LIMIT = 100;
+
+// ============================================
+// PURE HELPERS
+// ============================================
+
+/**
+ * Entity type stored in the log: snake_case model name (CustomerSettings → customer_settings)
+ */
+export function toEntityType(model: string): string {
+  return model.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+}
+
+/**
+ * JSON-safe copy of a record (Dates → ISO strings, Decimals → strings, BigInts → strings)
+ */
+export function toAuditJson(record: AuditRecord): AuditRecord {
+  return JSON.parse(JSON.stringify(record, (_key, value) => (typeof value === 'bigint' ? value.toString() : value)));
+}
+
+export function redactSecrets(record: AuditRecord | null): AuditRecord | null {
+  if (!record) return null;
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [key, SECRET_FIELD.test(key) && value != null ? '[redacted]' : value])
+  );
+}
+
+/**
+ * Record ID as stored in entity_id: `id`, or the key columns joined with ':'
+ */
+export function getEntityId(model: string, record: AuditRecord): string | null {
+  const keys = AUDIT_RECORD_KEYS[model] ?? ['id'];
+  const values = keys.map(key => record[key]);
+  return values.every(value => value != null) ? values.map(String).join(':') : null;
+}
+
+export function getParent(entityType: string, record: AuditRecord): { parentType: string; parentId: string } | null {
+  for (const [field, parentType] of PARENT_KEYS) {
+    if (parentType !== entityType && record[field] != null) {
+      return { parentType, parentId: String(record[field]) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Changed columns only. Fields missing from `after` (not selected) are not compared.
+ */
+export function diffRecords(
+  before: AuditRecord,
+  after: AuditRecord
+): { before: AuditRecord; after: AuditRecord } | null {
+  const changedBefore: AuditRecord = {};
+  const changedAfter: AuditRecord = {};
+
+  for (const key of Object.keys(after)) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    if (JSON.stringify(before[key] ?? null) !== JSON.stringify(after[key] ?? null)) {
+      changedBefore[key] = before[key] ?? null;
+      changedAfter[key] = after[key] ?? null;
+    }
+  }
+
+  return Object.keys(changedAfter).length > 0 ? { before: changedBefore, after: changedAfter } : null;
+}
+
+/**
+ * Audit entry for one record, or null for an update that changed nothing
+ */
+export function buildAuditEntry(
+  action: AuditAction,
+  model: string,
+  before: AuditRecord | null,
+  after: AuditRecord | null
+): AuditEntry | null {
+  const beforeJson = before ? toAuditJson(before) : null;
+  const afterJson = after ? toAuditJson(after) : null;
+  const record = afterJson ?? beforeJson ?? {};
+  const entityType = toEntityType(model);
+
+  let changes = { before: beforeJson, after: afterJson };
+  if (action === 'UPDATE' && beforeJson && afterJson) {
+    const diff = diffRecords(beforeJson, afterJson);
+    if (!diff) return null;
+    changes = diff;
+  }
+
+  const parent = getParent(entityType, record);
+  return {
+    action,
+    entityType,
+    entityId: getEntityId(model, record) ?? '*',
+    parentType: parent?.parentType ?? null,
+    parentId: parent?.parentId ?? null,
+    before: redactSecrets(changes.before),
+    after: redactSecrets(changes.after),
+    details: null,
+  };
+}
+
+/**
+ * One summary entry for a bulk operation too large to log row by row
+ */
+export function buildBulkAuditEntry(action: AuditAction, model: string, count: number): AuditEntry {
+  const verb = action === 'CREATE' ? 'Created' : action === 'DELETE' ? 'Deleted' : 'Updated';
+  const entityType = toEntityType(model);
+  return {
+    action,
+    entityType,
+    entityId: '*',
+    parentType: null,
+    parentId: null,
+    before: null,
+    after: null,
+    details: `${verb} ${count} ${entityType} records`,
+  };
+}
+
+/**
+ * Scalar columns of a query result - drops relations requested with include / nested select
+ */
+export function stripRelations(result: AuditRecord, args: any): AuditRecord {
+  const relations = new Set<string>(Object.keys(args?.include ?? {}));
+  for (const [key, selection] of Object.entries(args?.select ?? {})) {
+    if (selection && typeof selection === 'object') relations.add(key);
+  }
+  return Object.fromEntries(Object.entries(result).filter(([key]) => !relations.has(key)));
+}
+
+/**
+ * Relation fields of create / update / upsert data that carry nested writes
+ */
+export function getNestedWrites(args: any): string[] {
+  const data = args?.data ?? { ...args?.create, ...args?.update };
+  return Object.entries(data ?? {})
+    .filter(([, value]) =>
+      value !== null && typeof value === 'object' && !(value instanceof Date) && !Array.isArray(value) &&
+      Object.keys(value).some(key => NESTED_WRITE_OPERATIONS.includes(key))
+    )
+    .map(([key]) => key);
+}
+
+/**
+ * Row after an updateMany, computed from its data (set values and numeric operations)
+ */
+export function applyUpdateData(before: AuditRecord, data: AuditRecord): AuditRecord {
+  const after: AuditRecord = { ...before };
+
+  for (const [key, value] of Object.entries(data ?? {})) {
+    if (value === null || typeof value !== 'object' || value instanceof Date || Array.isArray(value)) {
+      after[key] = value;
+      continue;
+    }
+
+    const op = value as Record<string, unknown>;
+    const current = Number(before[key]);
+    if ('set' in op) after[key] = op.set;
+    else if ('increment' in op) after[key] = current + Number(op.increment);
+    else if ('decrement' in op) after[key] = current - Number(op.decrement);
+    else if ('multiply' in op) after[key] = current * Number(op.multiply);
+    else if ('divide' in op) after[key] = current / Number(op.divide);
+    // Json column values are plain objects - anything else is taken as-is
+    else after[key] = value;
+  }
+
+  return after;
+}
+
+/**
+ * Stamp entries with the actor, request ID and IP of the current audit context
+ */
+export async function toAuditRows(entries: object[]): Promise<AuditRecord[]> {
+  const context = getAuditContext();
+  const actor = (await context?.getActor?.()) ?? { source: 'system', actorId: null, actorName: null };
+
+  return entries.map(entry => ({
+    source: actor.source,
+    actorId: actor.actorId,
+    actorName: actor.actorName,
+    requestId: context?.requestId ?? null,
+    ipAddress: context?.ipAddress ?? null,
+    ...entry,
+  }));
+}
+
+// ============================================
+// PRISMA EXTENSION
+// ============================================
+
+function lowerFirst(model: string): string {
+  return model.charAt(0).toLowerCase() + model.slice(1);
+}
+
+/**
+ * Write entries, or buffer them while a transaction is open. Buffered entries are
+ * stamped after the commit, so resolving the actor never needs a second connection
+ * while the transaction holds one.
+ */
+async function writeAuditEntries(base: any, entries: object[]) {
+  if (entries.length === 0) return;
+
+  const pending = getAuditContext()?.pending;
+  if (pending) {
+    pending.push(...entries);
+    return;
+  }
+
+  try {
+    await base.auditLog.createMany({ data: await toAuditRows(entries) });
+  } catch (err) {
+    logError('[audit] Failed to write audit log:', err);
+  }
+}
+
+/**
+ * $allOperations handler of the audit extension. `base` is the un-extended client
+ * used to write the log and, outside transactions, to read the previous state.
+ */
+export function createAuditQueryHandler(base: any) {
+  return async ({ model, operation, args, query }: AuditQueryParams) => {
+    // Explicit AuditLog writes (e.g. PURGE entries) get the actor / request stamped in
+    if (model === 'AuditLog' && (operation === 'create' || operation === 'createMany')) {
+      const rows = await toAuditRows([args.data].flat());
+      const data = operation === 'create' ? rows[0] : rows;
+      return query({ ...args, data });
+    }
+
+    if (!model || !AUDITED_OPERATIONS.has(operation) || AUDIT_EXCLUDED_MODELS.includes(model)) {
+      return query(args);
+    }
+
+    // Inside an interactive transaction: same connection, sees its earlier writes
+    const reader: any = getAuditContext()?.tx ?? base;
+    const delegate = reader[lowerFirst(model)];
+    const entries: Array<AuditEntry | null> = [];
+    let result: any;
+
+    switch (operation) {
+      case 'create': {
+        result = await query(args);
+        entries.push(buildAuditEntry('CREATE', model, null, stripRelations(result, args)));
+        break;
+      }
+
+      case 'update':
+      case 'upsert':
+      case 'delete': {
+        const before = await delegate.findUnique({ where: args.where });
+        result = await query(args);
+        const record = stripRelations(result, args);
+
+        if (operation === 'delete') {
+          entries.push(buildAuditEntry('DELETE', model, before ?? record, null));
+        } else {
+          entries.push(buildAuditEntry(before ? 'UPDATE' : 'CREATE', model, before, record));
+        }
+        break;
+      }
+
+      case 'createMany':
+      case 'createManyAndReturn': {
+        result = await query(args);
+        const rows: AuditRecord[] = operation === 'createManyAndReturn' ? result : [args.data].flat();
+        const identified = rows.every(row => getEntityId(model, row) !== null);
+
+        if (rows.length <= BULK_DETAIL_LIMIT && identified) {
+          entries.push(...rows.map(row => buildAuditEntry('CREATE', model, null, row)));
+        } else {
+          entries.push(buildBulkAuditEntry('CREATE', model, result.count ?? rows.length));
+        }
+        break;
+      }
+
+      case 'updateMany':
+      case 'updateManyAndReturn':
+      case 'deleteMany': {
+        const before: AuditRecord[] = await delegate.findMany({ where: args.where, take: BULK_DETAIL_LIMIT + 1 });
+        result = await query(args);
+        const action: AuditAction = operation === 'deleteMany' ? 'DELETE' : 'UPDATE';
+
+        if (before.length > BULK_DETAIL_LIMIT) {
+          entries.push(buildBulkAuditEntry(action, model, result.count ?? result.length));
+        } else if (action === 'DELETE') {
+          entries.push(...before.map(row => buildAuditEntry('DELETE', model, row, null)));
+        } else {
+          entries.push(...before.map(row => buildAuditEntry('UPDATE', model, row, applyUpdateData(row, args.data))));
+        }
+        break;
+      }
+    }
+
+    const nested = getNestedWrites(args);
+    if (nested.length > 0 && entries[0]) {
+      entries[0].details = `Nested writes not itemised: ${nested.join(', ')}`;
+    }
+
+    await writeAuditEntries(base, entries.filter((entry): entry is AuditEntry => entry !== null));
+    return result;
+  };
+}
+
+/**
+ * Primary client with the audit extension. Interactive and batch transactions
+ * buffer their entries and write them only once the transaction has committed;
+ * interactive transactions also expose their client to the handler for reads.
+ */
+export function withAuditLog<T extends object>(base: T): T {
+  const extended = (base as any).$extends({
+    name: 'audit-log',
+    query: {
+      $allModels: {
+        $allOperations: createAuditQueryHandler(base),
+      },
+    },
+  });
+
+  const $transaction = async (input: unknown, options?: unknown) => {
+    const parent = getAuditContext();
+    if (parent?.pending) {
+      return extended.$transaction(input, options);
+    }
+
+    const context = { ...parent, pending: [] as object[] };
+    const transaction = typeof input === 'function'
+      ? (tx: unknown) => runWithAuditContext({ ...context, tx }, () => (input as (tx: unknown) => unknown)(tx))
+      : input;
+    const result = await runWithAuditContext(context, () => extended.$transaction(transaction, options));
+    await runWithAuditContext({ ...parent }, () => writeAuditEntries(base, context.pending));
+    return result;
+  };
+
+  return new Proxy(extended, {
+    get(target, prop) {
+      return prop === '$transaction' ? $transaction : target[prop];
+    },
+  });
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+export class AuditLogService {
+  constructor(private prisma: PrismaClient) {}
+
+  async list(input: ListAuditLogInput) {
+    const where: any = {};
+    if (input.entityType) where.entityType = input.entityType;
+    if (input.entityId) where.entityId = input.entityId;
+    if (input.action) where.action = input.action;
+    if (input.source) where.source = input.source;
+    if (input.actorId) where.actorId = input.actorId;
+    if (input.requestId) where.requestId = input.requestId;
+    if (input.from || input.to) {
+      where.timestamp = {};
+      if (input.from) where.timestamp.gte = input.from;
+      if (input.to) where.timestamp.lte = input.to;
+    }
+    if (input.search) {
+      where.OR = [
+        { entityId: { contains: input.search, mode: 'insensitive' } },
+        { actorName: { contains: input.search, mode: 'insensitive' } },
+        { details: { contains: input.search, mode: 'insensitive' } },
+      ];
+    }
+
+    const [entries, total] = await Promise.all([
+      this.prisma.auditLog.findMany({
+        where,
+        orderBy: { timestamp: 'desc' },
+        take: input.limit,
+        skip: input.offset,
+      }),
+      this.prisma.auditLog.count({ where }),
+    ]);
+
+    return { entries, total };
+  }
+
+  async getEntry(id: string) {
+    const entry = await this.prisma.auditLog.findUnique({ where: { id } });
+    if (!entry) {
+      throw new Error('Audit log entry not found');
+    }
+    return entry;
+  }
+
+  /**
+   * Entity types present in the log - for the admin page filter
+   */
+  async getEntityTypes(): Promise<string[]> {
+    const rows = await this.prisma.auditLog.groupBy({
+      by: ['entityType'],
+      orderBy: { entityType: 'asc' },
+    });
+    return rows.map((row: { entityType: string }) => row.entityType);
+  }
+
+  /**
+   * History of one record and, unless disabled, of the records that belong to it
+   * (a client's contacts, settings, contracts, ...)
+   */
+  async getEntityHistory(entityType: string, entityId: string, input: EntityHistoryInput) {
+    const where = input.includeRelated
+      ? { OR: [{ entityType, entityId }, { parentType: entityType, parentId: entityId }] }
+      : { entityType, entityId };
+
+    const [entries, total] = await Promise.all([
+      this.prisma.auditLog.findMany({
+        where,
+        orderBy: { timestamp: 'desc' },
+        take: input.limit,
+        skip: input.offset,
+      }),
+      this.prisma.auditLog.count({ where }),
+    ]);
+
+    return { entries, total };
+  }
+}
@@ -0,0 +1,561 @@
+/**
+ * @fileoverview Carrier Cost Service - Carrier cost import, cost-plus shipping and reconciliation
+ * @author Handled Platform Team
+ * @version 1.0.0
+ * @since 2026-10-18
+ *
+ * PURPOSE:
+ * Bring actual carrier label costs (UPS billing data, USPS postage reports) into
+ * billing: match each charge to the customer's shipping BillingActivity, store the
+ * cost on the activity and price it cost-plus (or by zone tier) through the rate
+ * engine, and report the charges that could not be matched.
+ *
+ * SCOPE:
+ * ✅ Grouping charge rows per shipment (tracking number, else reference)
+ * ✅ Matching to Shipping_* activities by tracking number (referenceId or
+ *    metadata.trackingNumber) or shipment reference
+ * ✅ Storing the cost on the activity (metadata.carrierCost) and re-pricing it
+ * ✅ Reconciliation report per import (matched, unmatched, locked, unpriced),
+ *    kept in carrier_cost_imports
+ * ✅ Dry run to review the reconciliation before anything is written
+ *
+ * OUT OF SCOPE:
+ * ❌ File parsing (integrations/billing/carrier-costs.ts)
+ * ❌ Cost-plus / zone pricing rules (RateEngine - mechanism carrierCost)
+ * ❌ Creating activities for unmatched charges - they are reported for follow-up
+ *
+ * BUSINESS RULES:
+ * 💰 Billed shipping = cost × (1 + markup / 100) + label fee × labels, unless the
+ *    activity's service prices by zone and the charge carries a zone
+ * 📦 All rows of a tracking number (freight, fuel, residential, adjustments) add
+ *    up to one shipment cost; each tracking number is one label
+ * 🔄 Re-importing an invoice replaces that invoice's charges on the activity, so
+ *    imports are idempotent while later adjustments on new invoices add up
+ * 🔒 Invoiced and isManualOverride activities are never changed (reported as locked)
+ * ❓ A shipment matching several activities is not applied (reported as ambiguous)
+ *
+ * @example
+ * const carrierCosts = new CarrierCostService(prisma);
+ * const result = await carrierCosts.importCharges(customerId, charges, { filenames: ['ups.csv'] });
+ * // result.report.unmatched → charges to follow up with the carrier / WMS
+ */
+
+import type { PrismaClient } from '@prisma/client-primary';
+import {
+  RateEngine,
+  priceActivity,
+  SHIPPING_LABEL_FEE_SERVICE,
+  SHIPPING_MARKUP_SERVICE,
+  type CarrierCost,
+  type PricingExplanation,
+} from './rateEngine.js';
+import type { CarrierCharge } from '../integrations/billing/carrier-costs.js';
+import type { ListCarrierCostImportsQuery } from '../validation/carrierCostSchema.js';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const SHIPPING_ACTIVITY_PREFIX = 'Shipping_';
+
+/** Extra days around the charge dates searched for activities matched by metadata */
+const MATCH_WINDOW_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Charge rows of one shipment (same tracking number, or same reference without one)
+ */
+export interface CarrierShipment {
+  key: string;
+  trackingNumber: string | null;
+  referenceId: string | null;
+  carrier: string | null;
+  chargeDate: string | null;
+  zone: string | null;
+  weight: number | null;
+  cost: number;
+  charges: CarrierCharge[];
+}
+
+/**
+ * Shipping activity as seen by matching
+ */
+export interface MatchableActivity {
+  id: string;
+  referenceId: string | null;
+  metadata?: any;
+}
+
+export interface ShipmentMatch {
+  matched: Map<string, CarrierShipment[]>;
+  unmatched: Array<{ shipment: CarrierShipment; reason: 'no_activity' | 'ambiguous'; candidates?: string[] }>;
+}
+
+/**
+ * Charge as stored on the activity (metadata.carrierCost.charges)
+ */
+export interface StoredCarrierCharge {
+  trackingNumber: string | null;
+  invoiceNumber: string | null;
+  carrier: string | null;
+  chargeDate: string | null;
+  service: string | null;
+  cost: number;
+}
+
+export interface CarrierCostReport {
+  matched: Array<{
+    activityId: string;
+    referenceId: string | null;
+    type: string;
+    trackingNumbers: string[];
+    cost: number;
+    amount: number | null;
+    mechanism: PricingExplanation['mechanism'] | null;
+  }>;
+  unmatched: Array<{
+    trackingNumber: string | null;
+    referenceId: string | null;
+    carrier: string | null;
+    chargeDate: string | null;
+    invoiceNumbers: string[];
+    cost: number;
+    rows: string[];
+    reason: 'no_activity' | 'ambiguous';
+    candidates?: string[];
+  }>;
+  locked: Array<{ activityId: string; reason: 'invoiced' | 'manual_override'; trackingNumbers: string[]; cost: number }>;
+  unpriced: Array<{ activityId: string; detail: string }>;
+}
+
+export interface CarrierCostImportResult {
+  importId: string | null;
+  dryRun: boolean;
+  carriers: string[];
+  chargeCount: number;
+  shipmentCount: number;
+  matchedCount: number;
+  unmatchedCount: number;
+  totalCost: number;
+  matchedCost: number;
+  unmatchedCost: number;
+  totalBilled: number;
+  report: CarrierCostReport;
+}
+
+export interface ImportChargesOptions {
+  filenames: string[];
+  importedBy?: string;
+  dryRun?: boolean;
+}
+
+// ============================================
+// PURE HELPERS
+// ============================================
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function normalizeKey(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const key = String(value).replace(/\s+/g, '').toUpperCase();
+  return key === '' ? null : key;
+}
+
+/**
+ * Group charge rows into shipments: rows of a tracking number add up (freight,
+ * fuel, accessorials, adjustments); rows without one are grouped by reference
+ */
+export function groupChargesByShipment(charges: CarrierCharge[]): CarrierShipment[] {
+  const shipments = new Map<string, CarrierShipment>();
+
+  for (const charge of charges) {
+    const tracking = normalizeKey(charge.trackingNumber);
+    const key = tracking ? `trk:${tracking}` : `ref:${normalizeKey(charge.referenceId)}`;
+    let shipment = shipments.get(key);
+
+    if (!shipment) {
+      shipment = {
+        key,
+        trackingNumber: tracking,
+        referenceId: charge.referenceId,
+        carrier: charge.carrier,
+        chargeDate: charge.chargeDate,
+        zone: charge.zone,
+        weight: charge.weight,
+        cost: 0,
+        charges: [],
+      };
+      shipments.set(key, shipment);
+    }
+
+    shipment.charges.push(charge);
+    shipment.cost = roundMoney(shipment.cost + charge.cost);
+    shipment.referenceId ??= charge.referenceId;
+    shipment.carrier ??= charge.carrier;
+    shipment.zone ??= charge.zone;
+    shipment.weight ??= charge.weight;
+    if (charge.chargeDate && (!shipment.chargeDate || charge.chargeDate < shipment.chargeDate)) {
+      shipment.chargeDate = charge.chargeDate;
+    }
+  }
+
+  return [...shipments.values()];
+}
+
+/**
+ * Tracking numbers an activity is known by (referenceId, metadata.trackingNumber(s))
+ */
+function getActivityTrackingKeys(activity: MatchableActivity): string[] {
+  const metadata = activity.metadata ?? {};
+  const values = [
+    activity.referenceId,
+    metadata.trackingNumber,
+    metadata.tracking_number,
+    ...(Array.isArray(metadata.trackingNumbers) ? metadata.trackingNumbers : []),
+  ];
+  return [...new Set(values.map(normalizeKey).filter((key): key is string => key !== null))];
+}
+
+/**
+ * Match shipments to activities: tracking number first (against the activity's
+ * referenceId or metadata tracking numbers), then the shipment reference against
+ * referenceId. Several activities for one shipment is ambiguous and not applied.
+ * Pure function - no database access
+ */
+export function matchShipments(shipments: CarrierShipment[], activities: MatchableActivity[]): ShipmentMatch {
+  const byTracking = new Map<string, Set<string>>();
+  const byReference = new Map<string, Set<string>>();
+
+  for (const activity of activities) {
+    for (const key of getActivityTrackingKeys(activity)) {
+      byTracking.set(key, (byTracking.get(key) ?? new Set()).add(activity.id));
+    }
+    const reference = normalizeKey(activity.referenceId);
+    if (reference) {
+      byReference.set(reference, (byReference.get(reference) ?? new Set()).add(activity.id));
+    }
+  }
+
+  const result: ShipmentMatch = { matched: new Map(), unmatched: [] };
+
+  for (const shipment of shipments) {
+    const reference = normalizeKey(shipment.referenceId);
+    const candidates =
+      (shipment.trackingNumber ? byTracking.get(shipment.trackingNumber) : undefined) ??
+      (reference ? byReference.get(reference) : undefined);
+
+    if (!candidates || candidates.size === 0) {
+      result.unmatched.push({ shipment, reason: 'no_activity' });
+    } else if (candidates.size > 1) {
+      result.unmatched.push({ shipment, reason: 'ambiguous', candidates: [...candidates] });
+    } else {
+      const [activityId] = candidates;
+      result.matched.set(activityId, [...(result.matched.get(activityId) ?? []), shipment]);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Merge newly imported shipments into an activity's carrier cost
+ * Charges from an invoice being re-imported (or, without invoice numbers, from the
+ * same tracking numbers) are replaced; charges from other invoices are kept.
+ */
+export function mergeCarrierCost(
+  existing: (CarrierCost & { charges?: StoredCarrierCharge[] }) | undefined,
+  shipments: CarrierShipment[],
+  importedAt: string
+): CarrierCost & { charges: StoredCarrierCharge[] } {
+  const incoming: StoredCarrierCharge[] = shipments.flatMap(shipment =>
+    shipment.charges.map(charge => ({
+      trackingNumber: shipment.trackingNumber,
+      invoiceNumber: charge.invoiceNumber,
+      carrier: charge.carrier,
+      chargeDate: charge.chargeDate,
+      service: charge.service,
+      cost: charge.cost,
+    }))
+  );
+
+  const replacedKeys = new Set(incoming.map(charge => `${charge.invoiceNumber ?? ''}|${charge.trackingNumber ?? ''}`));
+  const kept = (existing?.charges ?? []).filter(charge =>
+    !replacedKeys.has(`${charge.invoiceNumber ?? ''}|${charge.trackingNumber ?? ''}`)
+  );
+  const charges = [...kept, ...incoming];
+
+  const trackingNumbers = [...new Set(charges.map(c => c.trackingNumber).filter((t): t is string => !!t))];
+  const carriers = [...new Set(charges.map(c => c.carrier).filter((c): c is string => !!c))];
+
+  return {
+    cost: roundMoney(charges.reduce((sum, charge) => sum + charge.cost, 0)),
+    labels: Math.max(trackingNumbers.length, 1),
+    carriers,
+    trackingNumbers,
+    importedAt,
+    charges,
+  };
+}
+
+function describeUnmatched(entry: ShipmentMatch['unmatched'][number]): CarrierCostReport['unmatched'][number] {
+  const { shipment } = entry;
+  return {
+    trackingNumber: shipment.trackingNumber,
+    referenceId: shipment.referenceId,
+    carrier: shipment.carrier,
+    chargeDate: shipment.chargeDate,
+    invoiceNumbers: [...new Set(shipment.charges.map(c => c.invoiceNumber).filter((n): n is string => !!n))],
+    cost: shipment.cost,
+    rows: shipment.charges.map(c => `${c.filename}:${c.row}`),
+    reason: entry.reason,
+    ...(entry.candidates && { candidates: entry.candidates }),
+  };
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+export class CarrierCostService {
+  private rateEngine: RateEngine;
+
+  constructor(private prisma: PrismaClient) {
+    this.rateEngine = new RateEngine(prisma);
+  }
+
+  /**
+   * Match carrier charges to the customer's shipping activities, store the costs,
+   * re-price the matched activities and record the reconciliation
+   */
+  async importCharges(
+    customerId: string,
+    charges: CarrierCharge[],
+    options: ImportChargesOptions
+  ): Promise<CarrierCostImportResult> {
+    const customer = await this.prisma.customer.findUnique({
+      where: { id: customerId },
+      select: { id: true, deleted: true },
+    });
+
+    if (!customer || customer.deleted) {
+      throw new Error('Customer not found');
+    }
+
+    const shipments = groupChargesByShipment(charges);
+    const [activities, sources] = await Promise.all([
+      this.findCandidateActivities(customerId, shipments),
+      this.rateEngine.getRateSources(customerId),
+    ]);
+    const match = matchShipments(shipments, activities);
+    const activitiesById = new Map(activities.map(a => [a.id, a]));
+
+    const dryRun = options.dryRun ?? false;
+    const importedAt = new Date();
+
+    const report: CarrierCostReport = {
+      matched: [],
+      unmatched: match.unmatched.map(describeUnmatched),
+      locked: [],
+      unpriced: [],
+    };
+    const updates: Array<{ id: string; data: any }> = [];
+
+    for (const [activityId, matchedShipments] of match.matched) {
+      const activity = activitiesById.get(activityId)!;
+      const trackingNumbers = matchedShipments.map(s => s.trackingNumber ?? s.referenceId ?? s.key);
+      const cost = roundMoney(matchedShipments.reduce((sum, s) => sum + s.cost, 0));
+
+      if (activity.invoiced || activity.isManualOverride) {
+        report.locked.push({
+          activityId,
+          reason: activity.invoiced ? 'invoiced' : 'manual_override',
+          trackingNumbers,
+          cost,
+        });
+        continue;
+      }
+
+      const metadata: Record<string, any> = { ...((activity.metadata as Record<string, unknown>) ?? {}) };
+      metadata.carrierCost = mergeCarrierCost(metadata.carrierCost, matchedShipments, importedAt.toISOString());
+
+      // Zone and weight from the carrier fill gaps only - the WMS values win
+      const zone = matchedShipments.find(s => s.zone)?.zone;
+      const weight = matchedShipments.reduce((sum, s) => sum + (s.weight ?? 0), 0);
+      if (metadata.zone === undefined && zone) metadata.zone = zone;
+      if (metadata.weight === undefined && weight > 0) metadata.weight = weight;
+
+      const decision = priceActivity(
+        { activityDate: activity.activityDate, type: activity.type, quantity: Number(activity.quantity), metadata },
+        sources,
+        importedAt
+      );
+      metadata.pricing = decision.explanation;
+
+      if (!decision.priced) {
+        report.unpriced.push({ activityId, detail: decision.explanation.detail });
+      }
+
+      report.matched.push({
+        activityId,
+        referenceId: activity.referenceId,
+        type: activity.type,
+        trackingNumbers,
+        cost,
+        amount: decision.amount,
+        mechanism: decision.explanation.mechanism ?? null,
+      });
+
+      updates.push({
+        id: activityId,
+        data: {
+          rateApplied: decision.rateApplied,
+          amount: decision.amount,
+          rateCardId: decision.rateCardId,
+          metadata,
+        },
+      });
+    }
+
+    const matchedShipmentCount = [...match.matched.values()].reduce((sum, list) => sum + list.length, 0);
+    const totalCost = roundMoney(shipments.reduce((sum, s) => sum + s.cost, 0));
+    const unmatchedCost = roundMoney(report.unmatched.reduce((sum, u) => sum + u.cost, 0));
+
+    const result: CarrierCostImportResult = {
+      importId: null,
+      dryRun,
+      carriers: [...new Set(charges.map(c => c.carrier).filter((c): c is NonNullable<typeof c> => !!c))],
+      chargeCount: charges.length,
+      shipmentCount: shipments.length,
+      matchedCount: matchedShipmentCount,
+      unmatchedCount: report.unmatched.length,
+      totalCost,
+      matchedCost: roundMoney(totalCost - unmatchedCost),
+      unmatchedCost,
+      totalBilled: roundMoney(report.matched.reduce((sum, m) => sum + (m.amount ?? 0), 0)),
+      report,
+    };
+
+    if (!dryRun) {
+      result.importId = await this.prisma.$transaction(async (tx) => {
+        const record = await tx.carrierCostImport.create({
+          data: {
+            customerId,
+            filenames: options.filenames,
+            carriers: result.carriers,
+            chargeCount: result.chargeCount,
+            matchedCount: result.matchedCount,
+            unmatchedCount: result.unmatchedCount,
+            totalCost: result.totalCost,
+            totalBilled: result.totalBilled,
+            report: report as any,
+            importedBy: options.importedBy ?? null,
+          },
+          select: { id: true },
+        });
+
+        for (const update of updates) {
+          update.data.metadata.carrierCost.importId = record.id;
+          await tx.billingActivity.update({
+            where: { id: update.id },
+            data: update.data,
+          });
+        }
+
+        return record.id;
+      }, { timeout: 60000 });
+    }
+
+    return result;
+  }
+
+  /**
+   * Past imports for a customer, newest first (without the full report)
+   */
+  async listImports(customerId: string, query: ListCarrierCostImportsQuery) {
+    const where = { customerId };
+
+    const [imports, total] = await Promise.all([
+      this.prisma.carrierCostImport.findMany({
+        where,
+        orderBy: { importedAt: 'desc' },
+        take: query.limit,
+        skip: query.offset,
+        select: {
+          id: true,
+          filenames: true,
+          carriers: true,
+          chargeCount: true,
+          matchedCount: true,
+          unmatchedCount: true,
+          totalCost: true,
+          totalBilled: true,
+          importedAt: true,
+          importedBy: true,
+        },
+      }),
+      this.prisma.carrierCostImport.count({ where }),
+    ]);
+
+    return { imports, total, limit: query.limit, offset: query.offset };
+  }
+
+  /**
+   * One import with its reconciliation report
+   */
+  async getImport(customerId: string, importId: string) {
+    const record = await this.prisma.carrierCostImport.findFirst({
+      where: { id: importId, customerId },
+    });
+
+    if (!record) {
+      throw new Error('Carrier cost import not found');
+    }
+
+    return record;
+  }
+
+  /**
+   * Shipping activities a shipment could match: by referenceId, plus every shipping
+   * activity around the charge dates (for tracking numbers kept in metadata)
+   */
+  private async findCandidateActivities(customerId: string, shipments: CarrierShipment[]): Promise<any[]> {
+    const keys = new Set<string>();
+    for (const shipment of shipments) {
+      if (shipment.trackingNumber) keys.add(shipment.trackingNumber);
+      if (shipment.referenceId) keys.add(shipment.referenceId);
+    }
+
+    const dates = shipments
+      .map(s => s.chargeDate)
+      .filter((d): d is string => !!d)
+      .sort();
+
+    const or: any[] = [{ referenceId: { in: [...keys] } }];
+    if (dates.length > 0) {
+      or.push({
+        activityDate: {
+          gte: new Date(new Date(`${dates[0]}T00:00:00Z`).getTime() - MATCH_WINDOW_DAYS * DAY_MS),
+          lte: new Date(new Date(`${dates[dates.length - 1]}T00:00:00Z`).getTime() + MATCH_WINDOW_DAYS * DAY_MS),
+        },
+      });
+    }
+
+    return this.prisma.billingActivity.findMany({
+      where: {
+        customerId,
+        type: {
+          startsWith: SHIPPING_ACTIVITY_PREFIX,
+          notIn: [SHIPPING_MARKUP_SERVICE, SHIPPING_LABEL_FEE_SERVICE],
+        },
+        OR: or,
+      },
+    });
+  }
+}
@@ -0,0 +1,350 @@
+/**
+ * @fileoverview Contact Log Service - Customer communication history and timeline
+ * @author Handled Platform Team
+ * @version 1.0.0
+ * @since 2026-10-18
+ *
+ * PURPOSE:
+ * Record calls, emails, meetings and notes with a customer, and present them as one
+ * timeline together with the events the system already knows about - contracts
+ * signed, contract status changes, rate cards taking effect and termination.
+ *
+ * SCOPE:
+ * ✅ Contact log CRUD (entries belong to the customer, optionally to one of its contacts)
+ * ✅ Filtering by type, contact and date range
+ * ✅ Timeline merging log entries with derived system events, newest first
+ *
+ * OUT OF SCOPE:
+ * ❌ Email / calendar sync
+ * ❌ Storing system events (they are derived from the records they describe)
+ *
+ * BUSINESS RULES:
+ * 👤 Every entry records the user who logged it (loggedByUserId)
+ * 📇 The contact on an entry must belong to the same customer
+ * 🕒 Rate cards appear once they have taken effect; future cards are not history yet
+ * 🔍 A contact filter only matches log entries - system events have no contact
+ *
+ * @example
+ * const contactLog = new ContactLogService(prisma);
+ * await contactLog.createEntry(customerId, { contact_type: 'call', subject: 'QBR' }, userId);
+ * const { items } = await contactLog.getTimeline(customerId, { limit: 50 });
+ * // items → [{ kind: 'contact_log', type: 'call', ... }, { kind: 'system', type: 'contract_signed', ... }]
+ */
+
+import type { PrismaClient } from '@prisma/client-primary';
+import type {
+  ClientTimelineInput,
+  CreateContactLogInput,
+  ListContactLogInput,
+  SystemEventType,
+  UpdateContactLogInput,
+} from '../validation/contactLogSchema.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface TimelineItem {
+  id: string;
+  kind: 'contact_log' | 'system';
+  type: string;
+  occurredAt: Date;
+  title: string;
+  description: string | null;
+  contact: { id: string; name: string } | null;
+  user: { id: string; name: string } | null;
+  /** Record a system event was derived from */
+  reference: { entity: 'contract' | 'rate_card' | 'customer'; id: string } | null;
+}
+
+export interface SystemEventSources {
+  customer: { id: string; retiredAt: Date | null; retiredReason: string | null };
+  contracts: Array<{ id: string; name: string; contractNumber: string | null; executionDate: Date | null }>;
+  statusChanges: Array<{
+    id: string;
+    contractId: string;
+    fromStatus: string;
+    toStatus: string;
+    trigger: string;
+    reason: string | null;
+    changedAt: Date;
+    changedByUser: { id: string; name: string } | null;
+  }>;
+  rateCards: Array<{ id: string; name: string; version: number; rateCardType: string; effectiveDate: Date }>;
+}
+
+export interface TimelineFilter {
+  types?: string[];
+  contactId?: string;
+  from?: Date;
+  to?: Date;
+  limit: number;
+}
+
+// ============================================
+// PURE HELPERS
+// ============================================
+
+function contractLabel(contract: { name: string; contractNumber: string | null }): string {
+  return contract.contractNumber ? `${contract.name} (#${contract.contractNumber})` : contract.name;
+}
+
+/**
+ * Timeline item for a contact log entry
+ */
+export function toTimelineItem(entry: any): TimelineItem {
+  return {
+    id: entry.id,
+    kind: 'contact_log',
+    type: entry.contactType,
+    occurredAt: entry.occurredAt,
+    title: entry.subject ?? `${entry.contactType[0].toUpperCase()}${entry.contactType.slice(1)}`,
+    description: entry.notes ?? null,
+    contact: entry.contact
+      ? { id: entry.contact.id, name: `${entry.contact.firstName} ${entry.contact.lastName}` }
+      : null,
+    user: entry.user ? { id: entry.user.id, name: entry.user.name } : null,
+    reference: null,
+  };
+}
+
+/**
+ * Derive system events from contracts, status history, rate cards and termination
+ */
+export function buildSystemEvents(sources: SystemEventSources, now: Date = new Date()): TimelineItem[] {
+  const events: TimelineItem[] = [];
+  const contracts = new Map(sources.contracts.map(contract => [contract.id, contract]));
+  const event = (
+    id: string,
+    type: SystemEventType,
+    occurredAt: Date,
+    title: string,
+    description: string | null,
+    reference: TimelineItem['reference'],
+    user: TimelineItem['user'] = null
+  ): TimelineItem => ({ id, kind: 'system', type, occurredAt, title, description, contact: null, user, reference });
+
+  for (const contract of sources.contracts) {
+    if (contract.executionDate) {
+      events.push(event(
+        `contract_signed:${contract.id}`,
+        'contract_signed',
+        contract.executionDate,
+        `Contract signed: ${contractLabel(contract)}`,
+        null,
+        { entity: 'contract', id: contract.id }
+      ));
+    }
+  }
+
+  for (const change of sources.statusChanges) {
+    const contract = contracts.get(change.contractId);
+    events.push(event(
+      `contract_status:${change.id}`,
+      'contract_status_changed',
+      change.changedAt,
+      `${contract ? contractLabel(contract) : 'Contract'}: ${change.fromStatus} → ${change.toStatus}`,
+      change.reason,
+      { entity: 'contract', id: change.contractId },
+      change.changedByUser
+    ));
+  }
+
+  for (const card of sources.rateCards) {
+    if (card.effectiveDate > now) continue;
+    events.push(event(
+      `rate_card_activated:${card.id}`,
+      'rate_card_activated',
+      card.effectiveDate,
+      `Rate card in effect: ${card.name} v${card.version}`,
+      card.rateCardType === 'adjustment' ? 'Adjustment' : null,
+      { entity: 'rate_card', id: card.id }
+    ));
+  }
+
+  if (sources.customer.retiredAt) {
+    events.push(event(
+      `customer_terminated:${sources.customer.id}`,
+      'customer_terminated',
+      sources.customer.retiredAt,
+      'Customer relationship terminated',
+      sources.customer.retiredReason,
+      { entity: 'customer', id: sources.customer.id }
+    ));
+  }
+
+  return events;
+}
+
+/**
+ * Filter and order timeline items, newest first
+ */
+export function mergeTimeline(items: TimelineItem[], filter: TimelineFilter): TimelineItem[] {
+  return items
+    .filter(item => !filter.types || filter.types.includes(item.type))
+    .filter(item => !filter.contactId || item.contact?.id === filter.contactId)
+    .filter(item => !filter.from || item.occurredAt >= filter.from)
+    .filter(item => !filter.to || item.occurredAt <= filter.to)
+    .sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime() || a.id.localeCompare(b.id))
+    .slice(0, filter.limit);
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+const ENTRY_INCLUDE = {
+  contact: { select: { id: true, firstName: true, lastName: true } },
+  user: { select: { id: true, name: true } },
+};
+
+export class ContactLogService {
+  constructor(private prisma: PrismaClient) {}
+
+  private async assertCustomer(customerId: string) {
+    const customer = await this.prisma.customer.findUnique({
+      where: { id: customerId },
+      select: { id: true, retiredAt: true, retiredReason: true },
+    });
+
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+    return customer;
+  }
+
+  private async assertContact(customerId: string, contactId: string | null | undefined) {
+    if (!contactId) return;
+
+    const contact = await this.prisma.contact.findFirst({
+      where: { id: contactId, customerId },
+      select: { id: true },
+    });
+
+    if (!contact) {
+      throw new Error('Contact not found');
+    }
+  }
+
+  private async getEntry(customerId: string, entryId: string) {
+    const entry = await this.prisma.contactLog.findFirst({
+      where: { id: entryId, customerId },
+    });
+
+    if (!entry) {
+      throw new Error('Contact log entry not found');
+    }
+    return entry;
+  }
+
+  async listEntries(customerId: string, input: ListContactLogInput) {
+    await this.assertCustomer(customerId);
+
+    const entries = await this.prisma.contactLog.findMany({
+      where: {
+        customerId,
+        ...(input.type && { contactType: { in: input.type } }),
+        ...(input.contact_id && { contactId: input.contact_id }),
+        ...((input.from || input.to) && {
+          occurredAt: {
+            ...(input.from && { gte: input.from }),
+            ...(input.to && { lte: input.to }),
+          },
+        }),
+      },
+      include: ENTRY_INCLUDE,
+      orderBy: { occurredAt: 'desc' },
+      take: input.limit,
+    });
+
+    return { entries };
+  }
+
+  async createEntry(customerId: string, input: CreateContactLogInput, userId: string) {
+    await this.assertCustomer(customerId);
+    await this.assertContact(customerId, input.contact_id);
+
+    return this.prisma.contactLog.create({
+      data: {
+        customerId,
+        contactId: input.contact_id ?? null,
+        loggedByUserId: userId,
+        contactType: input.contact_type,
+        subject: input.subject ?? null,
+        notes: input.notes ?? null,
+        occurredAt: input.occurred_at ? new Date(input.occurred_at) : new Date(),
+      },
+      include: ENTRY_INCLUDE,
+    });
+  }
+
+  async updateEntry(customerId: string, entryId: string, input: UpdateContactLogInput) {
+    const entry = await this.getEntry(customerId, entryId);
+    await this.assertContact(customerId, input.contact_id);
+
+    const subject = input.subject !== undefined ? input.subject : entry.subject;
+    const notes = input.notes !== undefined ? input.notes : entry.notes;
+    if (!subject && !notes) {
+      throw new Error('A subject or notes are required');
+    }
+
+    return this.prisma.contactLog.update({
+      where: { id: entryId },
+      data: {
+        ...(input.contact_type && { contactType: input.contact_type }),
+        ...(input.contact_id !== undefined && { contactId: input.contact_id }),
+        subject,
+        notes,
+        ...(input.occurred_at && { occurredAt: new Date(input.occurred_at) }),
+      },
+      include: ENTRY_INCLUDE,
+    });
+  }
+
+  async deleteEntry(customerId: string, entryId: string) {
+    await this.getEntry(customerId, entryId);
+    await this.prisma.contactLog.delete({ where: { id: entryId } });
+  }
+
+  /**
+   * Contact log entries merged with system events
+   */
+  async getTimeline(customerId: string, input: ClientTimelineInput) {
+    const customer = await this.assertCustomer(customerId);
+
+    const [entries, contracts, statusChanges, rateCards] = await Promise.all([
+      this.prisma.contactLog.findMany({
+        where: { customerId },
+        include: ENTRY_INCLUDE,
+      }),
+      this.prisma.contract.findMany({
+        where: { customerId },
+        select: { id: true, name: true, contractNumber: true, executionDate: true },
+      }),
+      this.prisma.contractStatusChange.findMany({
+        where: { contract: { customerId } },
+        include: { changedByUser: { select: { id: true, name: true } } },
+      }),
+      this.prisma.rateCard.findMany({
+        where: { customerId, archivedAt: null },
+        select: { id: true, name: true, version: true, rateCardType: true, effectiveDate: true },
+      }),
+    ]);
+
+    const items = [
+      ...entries.map(toTimelineItem),
+      ...buildSystemEvents({ customer, contracts, statusChanges, rateCards }),
+    ];
+
+    return {
+      customerId,
+      items: mergeTimeline(items, {
+        types: input.type,
+        contactId: input.contact_id,
+        from: input.from,
+        to: input.to,
+        limit: input.limit,
+      }),
+    };
+  }
+}
@@ -0,0 +1,813 @@
+/**
+ * @fileoverview Contract Service - Amendments, supersession, status transitions and timelines
+ * @author Handled Platform Team
+ * @version 1.0.0
+ * @since 2026-10-18
+ *
+ * PURPOSE:
+ * Contracts change over their life: amendments and addendums modify a contract in
+ * place, a new agreement replaces it outright, and its status moves through a fixed
+ * lifecycle. This service records amendments and replacements on the existing contract
+ * columns (parentContractId / amendmentNumber, supersededByContractId), enforces the
+ * status transition table and builds the per-customer timeline tree.
+ *
+ * SCOPE:
+ * ✅ Amend: child contract with the next amendmentNumber under the base contract
+ * ✅ Supersede: replacement contract, supersession link, status / end date transitions
+ * ✅ Re-point RateCardContract links still in effect to the replacement
+ * ✅ Status transition table with structured errors (ContractTransitionError)
+ * ✅ Scheduled transitions: activate on startDate, expire after endDate, auto-renew
+ * ✅ Status history entry for every transition
+ * ✅ Timeline tree: base contracts → amendments, chained to their successors
+ *
+ * OUT OF SCOPE:
+ * ❌ Creating / archiving contracts (clients routes)
+ * ❌ Drafting renewals ahead of the end date (RenewalAlertService)
+ * ❌ Rate card versioning (RateCardService)
+ *
+ * BUSINESS RULES:
+ * 🔢 Amendments are numbered per base contract (amending an amendment amends its base)
+ * 🚫 Archived, terminated, expired and already superseded contracts cannot be amended
+ *    or superseded
+ * 🔗 The superseded contract points at its replacement (supersededByContractId) and
+ *    the replacement lists it through the inverse relation (supersedes); a drafted
+ *    renewal (renewalOfContractId) is only linked when it is executed
+ * 📅 The superseded contract (and its open amendments) end the day before the
+ *    replacement starts; statuses flip now when that date has arrived, otherwise the
+ *    replacement waits in draft
+ * 💳 Only rate card links whose card is still in effect on the replacement start move;
+ *    expired cards stay on the contract they were billed under
+ * 🚦 draft → active | terminated, active → expired | terminated; expired and
+ *    terminated are final
+ * ✍️ Only executed contracts (executionDate set) activate, and not before startDate;
+ *    only contracts past their endDate expire
+ * 🔁 An autoRenew contract past its endDate activates its drafted renewal, or a new
+ *    renewal with the same term when none was drafted, and then expires
+ *
+ * @example
+ * const contracts = new ContractService(prisma);
+ * const amendment = await contracts.amendContract(customerId, contractId, { contract_type: 'amendment', status: 'draft' });
+ * // amendment.amendmentNumber → 2, amendment.parentContractId → contractId
+ *
+ * await contracts.transitionContract(customerId, contractId, { status: 'active', execution_date: '2026-10-01' }, userId);
+ * // terminated → active throws ContractTransitionError { code: 'INVALID_TRANSITION', allowed: [] }
+ */
+
+import type { PrismaClient } from '@prisma/client-primary';
+import { RenewalAlertService, getRenewalTerm } from './renewalAlertService.js';
+import type {
+  AmendContractInput,
+  ContractStatus,
+  ContractStatusTransitionInput,
+  SupersedeContractInput,
+} from '../validation/contractSchema.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface TimelineContract {
+  id: string;
+  name: string;
+  contractNumber: string | null;
+  contractType: string | null;
+  status: string;
+  startDate: Date;
+  endDate: Date | null;
+  executionDate: Date | null;
+  amendmentNumber: number | null;
+  parentContractId: string | null;
+  supersededByContractId: string | null;
+  /** Contract a drafted renewal renews - shown as its successor until executed */
+  renewalOfContractId?: string | null;
+  archivedAt: Date | null;
+  /** Statuses the contract may move to next */
+  allowedTransitions?: ContractStatus[];
+}
+
+export interface ContractTimelineNode extends TimelineContract {
+  amendments: ContractTimelineNode[];
+  /** Contract that replaced this one */
+  successor: ContractTimelineNode | null;
+}
+
+export type ContractTransitionTrigger = 'manual' | 'scheduled' | 'supersede' | 'offboarding';
+
+export type ContractTransitionCode =
+  | 'INVALID_TRANSITION'
+  | 'ARCHIVED'
+  | 'NOT_EXECUTED'
+  | 'NOT_STARTED'
+  | 'ALREADY_ENDED'
+  | 'NOT_ENDED';
+
+/**
+ * Contract fields the transition rules look at
+ */
+export interface TransitionContract {
+  id: string;
+  status: string;
+  startDate: Date;
+  endDate: Date | null;
+  executionDate: Date | null;
+  archivedAt: Date | null;
+}
+
+export interface ScheduledContract extends TransitionContract {
+  autoRenew: boolean;
+  supersededBy: { id: string; status: string; contractType: string | null } | null;
+  /** Drafted renewals pointing back at the contract (not yet linked as supersededBy) */
+  renewals?: Array<{ id: string; status: string; contractType: string | null }>;
+}
+
+export type ScheduledTransition =
+  | { action: 'activate'; contractId: string }
+  | { action: 'expire'; contractId: string }
+  /** renewalContractId: drafted renewal to activate, null to create one */
+  | { action: 'renew'; contractId: string; renewalContractId: string | null };
+
+export interface SupersessionPlan {
+  /** End date for the superseded contract, null keeps the current one */
+  supersededEndDate: Date | null;
+  supersededStatus: string;
+  replacementStatus: string;
+}
+
+// ============================================
+// ERRORS
+// ============================================
+
+/**
+ * Rejected status change - routes return the code, both statuses and the allowed
+ * next statuses so clients can explain why
+ */
+export class ContractTransitionError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ContractTransitionCode,
+    public readonly from: string,
+    public readonly to: string,
+    public readonly allowed: ContractStatus[]
+  ) {
+    super(message);
+    this.name = 'ContractTransitionError';
+  }
+}
+
+// ============================================
+// PURE HELPERS
+// ============================================
+
+export const CONTRACT_STATUS_TRANSITIONS: Record<ContractStatus, ContractStatus[]> = {
+  draft: ['active', 'terminated'],
+  active: ['expired', 'terminated'],
+  expired: [],
+  terminated: [],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AMENDMENT_TYPES = ['amendment', 'addendum'];
+const CLOSED_STATUSES = ['terminated', 'expired'];
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+export function getAllowedTransitions(status: string): ContractStatus[] {
+  return CONTRACT_STATUS_TRANSITIONS[status as ContractStatus] ?? [];
+}
+
+/**
+ * Check a status change against the transition table and the contract's dates,
+ * null when allowed
+ */
+export function validateContractTransition(
+  contract: TransitionContract,
+  to: ContractStatus,
+  today: Date = new Date()
+): ContractTransitionError | null {
+  const allowed = getAllowedTransitions(contract.status);
+  const reject = (code: ContractTransitionCode, message: string) =>
+    new ContractTransitionError(message, code, contract.status, to, allowed);
+  const day = startOfUtcDay(today);
+
+  if (contract.archivedAt) {
+    return reject('ARCHIVED', 'Cannot change the status of an archived contract');
+  }
+  if (!allowed.includes(to)) {
+    return reject('INVALID_TRANSITION', `Cannot move a ${contract.status} contract to ${to}`);
+  }
+
+  if (to === 'active') {
+    if (!contract.executionDate) {
+      return reject('NOT_EXECUTED', 'Cannot activate a contract that has not been executed');
+    }
+    if (startOfUtcDay(contract.startDate) > day) {
+      return reject('NOT_STARTED', 'Cannot activate a contract before its start date');
+    }
+    if (contract.endDate && startOfUtcDay(contract.endDate) < day) {
+      return reject('ALREADY_ENDED', 'Cannot activate a contract after its end date');
+    }
+  }
+
+  if (to === 'expired' && (!contract.endDate || startOfUtcDay(contract.endDate) >= day)) {
+    return reject('NOT_ENDED', 'Cannot expire a contract before its end date');
+  }
+
+  return null;
+}
+
+/**
+ * Transitions the daily status job makes on asOf
+ * Drafted renewals activated by a renewal are not activated separately
+ */
+export function planScheduledTransitions(contracts: ScheduledContract[], asOf: Date): ScheduledTransition[] {
+  const day = startOfUtcDay(asOf);
+  const transitions: ScheduledTransition[] = [];
+  const renewing = new Set<string>();
+
+  for (const contract of contracts) {
+    if (contract.archivedAt || contract.status !== 'active' || !contract.endDate) continue;
+    if (startOfUtcDay(contract.endDate) >= day) continue;
+
+    const successor = contract.supersededBy ?? contract.renewals?.find(renewal => renewal.status === 'draft') ?? null;
+    const draftedRenewal = successor?.contractType === 'renewal' && successor.status === 'draft' ? successor : null;
+
+    if (contract.autoRenew && (!successor || draftedRenewal)) {
+      transitions.push({ action: 'renew', contractId: contract.id, renewalContractId: draftedRenewal?.id ?? null });
+      if (draftedRenewal) renewing.add(draftedRenewal.id);
+    } else {
+      transitions.push({ action: 'expire', contractId: contract.id });
+    }
+  }
+
+  for (const contract of contracts) {
+    if (contract.status !== 'draft' || renewing.has(contract.id)) continue;
+    if (!validateContractTransition(contract, 'active', asOf)) {
+      transitions.push({ action: 'activate', contractId: contract.id });
+    }
+  }
+
+  return transitions;
+}
+
+export function getNextAmendmentNumber(children: Array<{ contractType: string | null; amendmentNumber: number | null }>): number {
+  return children
+    .filter(child => child.contractType && AMENDMENT_TYPES.includes(child.contractType))
+    .reduce((max, child) => Math.max(max, child.amendmentNumber ?? 0), 0) + 1;
+}
+
+/**
+ * Status and end date changes when a contract is replaced from startDate
+ */
+export function planSupersession(
+  superseded: { status: string; endDate: Date | null },
+  startDate: Date,
+  today: Date = new Date()
+): SupersessionPlan {
+  const lastDay = new Date(startOfUtcDay(startDate).getTime() - DAY_MS);
+  const started = startOfUtcDay(startDate) <= startOfUtcDay(today);
+
+  let supersededStatus = superseded.status;
+  if (superseded.status === 'draft') {
+    // Replaced before it was ever executed
+    supersededStatus = 'terminated';
+  } else if (started) {
+    supersededStatus = 'expired';
+  }
+
+  return {
+    supersededEndDate: !superseded.endDate || superseded.endDate > lastDay ? lastDay : null,
+    supersededStatus,
+    replacementStatus: started && superseded.status === 'active' ? 'active' : 'draft',
+  };
+}
+
+/**
+ * Timeline tree: base contracts (oldest first) with their amendments, each chained
+ * to the contract that superseded it
+ */
+export function buildContractTimeline(contracts: TimelineContract[]): ContractTimelineNode[] {
+  const nodes = new Map<string, ContractTimelineNode>(
+    contracts.map(contract => [contract.id, { ...contract, amendments: [], successor: null }])
+  );
+  const attached = new Set<string>();
+
+  for (const node of nodes.values()) {
+    const parent = node.parentContractId ? nodes.get(node.parentContractId) : undefined;
+    if (parent && parent.id !== node.id) {
+      parent.amendments.push(node);
+      attached.add(node.id);
+    }
+  }
+
+  const draftedRenewals = new Map<string, string>();
+  for (const node of nodes.values()) {
+    if (node.renewalOfContractId && node.status === 'draft') {
+      draftedRenewals.set(node.renewalOfContractId, node.id);
+    }
+  }
+
+  for (const node of nodes.values()) {
+    const successorId = node.supersededByContractId ?? draftedRenewals.get(node.id);
+    const successor = successorId ? nodes.get(successorId) : undefined;
+    if (successor && successor.id !== node.id && !attached.has(successor.id)) {
+      node.successor = successor;
+      attached.add(successor.id);
+    }
+  }
+
+  // Break supersession cycles so every contract is reachable from a root
+  const reachable = new Set<string>();
+  const visit = (node: ContractTimelineNode) => {
+    if (reachable.has(node.id)) return;
+    reachable.add(node.id);
+    node.amendments.forEach(visit);
+    if (node.successor) {
+      if (reachable.has(node.successor.id)) {
+        node.successor = null;
+      } else {
+        visit(node.successor);
+      }
+    }
+  };
+
+  const byStart = (a: TimelineContract, b: TimelineContract) => a.startDate.getTime() - b.startDate.getTime();
+  const roots = [...nodes.values()].filter(node => !attached.has(node.id)).sort(byStart);
+  roots.forEach(visit);
+
+  for (const node of [...nodes.values()].sort(byStart)) {
+    if (!reachable.has(node.id)) {
+      attached.delete(node.id);
+      roots.push(node);
+      visit(node);
+    }
+  }
+
+  for (const node of nodes.values()) {
+    node.amendments.sort((a, b) => (a.amendmentNumber ?? 0) - (b.amendmentNumber ?? 0) || byStart(a, b));
+  }
+
+  return roots;
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+const TIMELINE_SELECT = {
+  id: true,
+  name: true,
+  contractNumber: true,
+  contractType: true,
+  status: true,
+  startDate: true,
+  endDate: true,
+  executionDate: true,
+  amendmentNumber: true,
+  parentContractId: true,
+  supersededByContractId: true,
+  renewalOfContractId: true,
+  archivedAt: true,
+};
+
+export class ContractService {
+  constructor(private prisma: PrismaClient) {}
+
+  async getTimeline(customerId: string) {
+    const customer = await this.prisma.customer.findUnique({
+      where: { id: customerId },
+      select: { id: true },
+    });
+
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+
+    const contracts = await this.prisma.contract.findMany({
+      where: { customerId },
+      select: TIMELINE_SELECT,
+      orderBy: { startDate: 'asc' },
+    });
+
+    return {
+      customerId,
+      timeline: buildContractTimeline(contracts.map(contract => ({
+        ...contract,
+        allowedTransitions: contract.archivedAt ? [] : getAllowedTransitions(contract.status),
+      }))),
+    };
+  }
+
+  private async getChangeableContract(customerId: string, contractId: string, action: 'amend' | 'supersede') {
+    const contract = await this.prisma.contract.findFirst({
+      where: { id: contractId, customerId },
+      include: { parentContract: true },
+    });
+
+    if (!contract) {
+      throw new Error('Contract not found');
+    }
+    if (contract.archivedAt) {
+      throw new Error(`Cannot ${action} an archived contract`);
+    }
+    if (CLOSED_STATUSES.includes(contract.status)) {
+      throw new Error(`Cannot ${action} a ${contract.status} contract`);
+    }
+    if (contract.supersededByContractId) {
+      throw new Error(`Cannot ${action} a contract that has already been superseded`);
+    }
+
+    return contract;
+  }
+
+  /**
+   * Create the next amendment / addendum of a contract
+   */
+  async amendContract(customerId: string, contractId: string, input: AmendContractInput) {
+    const contract = await this.getChangeableContract(customerId, contractId, 'amend');
+
+    if (input.status === 'active' && !input.execution_date) {
+      throw new Error('Cannot create an active amendment that has not been executed');
+    }
+
+    // Amending an amendment amends its base contract
+    const base = contract.parentContractId && contract.contractType && AMENDMENT_TYPES.includes(contract.contractType)
+      ? contract.parentContract!
+      : contract;
+
+    return this.prisma.$transaction(async (tx) => {
+      const children = await tx.contract.findMany({
+        where: { parentContractId: base.id },
+        select: { contractType: true, amendmentNumber: true },
+      });
+      const amendmentNumber = getNextAmendmentNumber(children);
+      const label = input.contract_type === 'addendum' ? 'Addendum' : 'Amendment';
+
+      return tx.contract.create({
+        data: {
+          customerId,
+          contractNumber: input.contract_number ??
+            (base.contractNumber ? `${base.contractNumber}-A${amendmentNumber}` : null),
+          name: input.name ?? `${base.name} - ${label} ${amendmentNumber}`,
+          startDate: input.start_date ? new Date(input.start_date) : startOfUtcDay(new Date()),
+          endDate: input.end_date !== undefined
+            ? (input.end_date ? new Date(input.end_date) : null)
+            : base.endDate,
+          autoRenew: base.autoRenew,
+          status: input.status,
+          contractType: input.contract_type,
+          parentContractId: base.id,
+          amendmentNumber,
+          executionDate: input.execution_date ? new Date(input.execution_date) : null,
+          billingCycle: input.billing_cycle ?? base.billingCycle,
+          paymentTerms: input.payment_terms ?? base.paymentTerms,
+          terms: input.terms as any,
+          notes: input.notes ?? null,
+        },
+      });
+    });
+  }
+
+  /**
+   * Replace a contract with a new one
+   */
+  async supersedeContract(customerId: string, contractId: string, input: SupersedeContractInput, userId?: string) {
+    const contract = await this.getChangeableContract(customerId, contractId, 'supersede');
+    const startDate = new Date(input.start_date);
+
+    if (startDate <= contract.startDate) {
+      throw new Error('Cannot supersede a contract from a date on or before its start date');
+    }
+    if (input.end_date && new Date(input.end_date) < startDate) {
+      throw new Error('Replacement end date must be on or after its start date');
+    }
+
+    const plan = planSupersession(contract, startDate);
+
+    return this.prisma.$transaction(async (tx) => {
+      const replacement = await tx.contract.create({
+        data: {
+          customerId,
+          contractNumber: input.contract_number ?? null,
+          name: input.name,
+          startDate,
+          endDate: input.end_date ? new Date(input.end_date) : null,
+          autoRenew: input.auto_renew ?? contract.autoRenew,
+          status: plan.replacementStatus,
+          contractType: 'original',
+          executionDate: input.execution_date ? new Date(input.execution_date) : null,
+          billingCycle: input.billing_cycle ?? contract.billingCycle,
+          paymentTerms: input.payment_terms ?? contract.paymentTerms,
+          terms: (input.terms ?? contract.terms ?? undefined) as any,
+          notes: input.notes ?? null,
+        },
+      });
+
+      const superseded = await tx.contract.update({
+        where: { id: contract.id },
+        data: {
+          supersededByContractId: replacement.id,
+          status: plan.supersededStatus,
+          ...(plan.supersededEndDate && { endDate: plan.supersededEndDate }),
+        },
+      });
+      const reason = `Superseded by ${replacement.contractNumber ?? replacement.name}`;
+      if (plan.supersededStatus !== contract.status) {
+        await tx.contractStatusChange.create({
+          data: {
+            contractId: contract.id,
+            fromStatus: contract.status,
+            toStatus: plan.supersededStatus,
+            trigger: 'supersede',
+            reason,
+            changedBy: userId,
+          },
+        });
+      }
+
+      // Open amendments end with the contract they amend
+      const amendments = await tx.contract.findMany({
+        where: { parentContractId: contract.id, archivedAt: null, status: { notIn: CLOSED_STATUSES } },
+        select: { id: true, status: true, endDate: true },
+      });
+      for (const amendment of amendments) {
+        const amendmentPlan = planSupersession(amendment, startDate);
+        await tx.contract.update({
+          where: { id: amendment.id },
+          data: {
+            status: amendmentPlan.supersededStatus,
+            ...(amendmentPlan.supersededEndDate && { endDate: amendmentPlan.supersededEndDate }),
+          },
+        });
+        if (amendmentPlan.supersededStatus !== amendment.status) {
+          await tx.contractStatusChange.create({
+            data: {
+              contractId: amendment.id,
+              fromStatus: amendment.status,
+              toStatus: amendmentPlan.supersededStatus,
+              trigger: 'supersede',
+              reason,
+              changedBy: userId,
+            },
+          });
+        }
+      }
+
+      let movedRateCardIds: string[] = [];
+      if (input.move_rate_cards) {
+        const links = await tx.rateCardContract.findMany({
+          where: {
+            contractId: contract.id,
+            rateCard: {
+              archivedAt: null,
+              OR: [{ expiresDate: null }, { expiresDate: { gt: startDate } }],
+            },
+          },
+        });
+
+        await tx.rateCardContract.deleteMany({
+          where: { contractId: contract.id, rateCardId: { in: links.map(link => link.rateCardId) } },
+        });
+        await tx.rateCardContract.createMany({
+          data: links.map(link => ({
+            rateCardId: link.rateCardId,
+            contractId: replacement.id,
+            linkType: link.linkType,
+            linkedBy: userId,
+            notes: `Re-pointed from superseded contract ${contract.contractNumber ?? contract.name}`,
+          })),
+          skipDuplicates: true,
+        });
+        movedRateCardIds = links.map(link => link.rateCardId);
+      }
+
+      return { contract: replacement, superseded, movedRateCardIds };
+    });
+  }
+
+  /**
+   * Change a contract's status through the transition table
+   * Throws ContractTransitionError for rejected changes
+   */
+  async transitionContract(
+    customerId: string,
+    contractId: string,
+    input: ContractStatusTransitionInput,
+    userId?: string
+  ) {
+    const contract = await this.prisma.contract.findFirst({
+      where: { id: contractId, customerId },
+    });
+
+    if (!contract) {
+      throw new Error('Contract not found');
+    }
+
+    const executionDate = input.execution_date ? new Date(input.execution_date) : contract.executionDate;
+    const rejection = validateContractTransition({ ...contract, executionDate }, input.status);
+    if (rejection) {
+      throw rejection;
+    }
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      await tx.contractStatusChange.create({
+        data: {
+          contractId,
+          fromStatus: contract.status,
+          toStatus: input.status,
+          trigger: 'manual',
+          reason: input.reason,
+          changedBy: userId,
+        },
+      });
+
+      // Executing a drafted renewal makes it the original's successor
+      if (input.status === 'active' && contract.renewalOfContractId) {
+        await tx.contract.updateMany({
+          where: { id: contract.renewalOfContractId, supersededByContractId: null },
+          data: { supersededByContractId: contractId },
+        });
+      }
+
+      return tx.contract.update({
+        where: { id: contractId },
+        data: { status: input.status, executionDate },
+      });
+    });
+
+    // A failed version leaves the card lapsing, which raises a rate_card_expiring alert
+    if (input.status === 'active' && contract.renewalOfContractId) {
+      await this.createPlannedRateCardVersions(contractId, userId);
+    }
+
+    return updated;
+  }
+
+  async getStatusHistory(customerId: string, contractId: string) {
+    const contract = await this.prisma.contract.findFirst({
+      where: { id: contractId, customerId },
+      select: { id: true, status: true, archivedAt: true },
+    });
+
+    if (!contract) {
+      throw new Error('Contract not found');
+    }
+
+    const history = await this.prisma.contractStatusChange.findMany({
+      where: { contractId },
+      include: { changedByUser: { select: { id: true, name: true } } },
+      orderBy: { changedAt: 'desc' },
+    });
+
+    return {
+      contractId,
+      status: contract.status,
+      allowedTransitions: contract.archivedAt ? [] : getAllowedTransitions(contract.status),
+      history,
+    };
+  }
+
+  /**
+   * Daily status job: activate executed contracts on their start date, expire
+   * contracts past their end date and renew autoRenew contracts
+   */
+  async runStatusTransitions(options: { asOf?: Date; dryRun?: boolean } = {}) {
+    const asOf = startOfUtcDay(options.asOf ?? new Date());
+
+    const contracts = await this.prisma.contract.findMany({
+      where: { archivedAt: null, status: { in: ['draft', 'active'] } },
+      include: {
+        supersededBy: { select: { id: true, status: true, contractType: true } },
+        renewals: {
+          where: { status: 'draft', archivedAt: null },
+          select: { id: true, status: true, contractType: true },
+        },
+      },
+    });
+    const byId = new Map<string, any>(contracts.map(contract => [contract.id, contract]));
+    const transitions = planScheduledTransitions(contracts, asOf);
+
+    const result = {
+      asOf: asOf.toISOString().slice(0, 10),
+      dryRun: options.dryRun ?? false,
+      activated: [] as string[],
+      expired: [] as string[],
+      renewed: [] as Array<{ contractId: string; renewalContractId: string }>,
+      failed: [] as Array<{ contractId: string; action: string; error: string }>,
+      transitions,
+    };
+
+    if (result.dryRun) {
+      return result;
+    }
+
+    for (const transition of transitions) {
+      const contract = byId.get(transition.contractId);
+
+      try {
+        if (transition.action === 'activate') {
+          await this.applyScheduledTransition(this.prisma, contract, 'active', 'Start date reached');
+          result.activated.push(contract.id);
+        } else if (transition.action === 'expire') {
+          await this.applyScheduledTransition(this.prisma, contract, 'expired', 'End date passed');
+          result.expired.push(contract.id);
+        } else {
+          const renewalContractId = await this.renewContract(contract, transition.renewalContractId);
+          result.renewed.push({ contractId: contract.id, renewalContractId });
+          result.failed.push(...await this.createPlannedRateCardVersions(renewalContractId));
+        }
+      } catch (error) {
+        result.failed.push({ contractId: contract.id, action: transition.action, error: (error as Error).message });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Rate card versions planned for a renewal (RenewalAlertService) are only created
+   * once it is executed. Returns the failures - the renewal itself stands.
+   */
+  private async createPlannedRateCardVersions(renewalContractId: string, userId?: string) {
+    const results = await new RenewalAlertService(this.prisma).createPlannedRateCardVersions(renewalContractId, userId);
+
+    return results
+      .filter(result => result.error)
+      .map(result => ({ contractId: renewalContractId, action: 'rate_card_version', error: `${result.rateCardId}: ${result.error}` }));
+  }
+
+  private async applyScheduledTransition(db: any, contract: any, to: ContractStatus, reason: string) {
+    await db.contractStatusChange.create({
+      data: { contractId: contract.id, fromStatus: contract.status, toStatus: to, trigger: 'scheduled', reason },
+    });
+    await db.contract.update({ where: { id: contract.id }, data: { status: to } });
+  }
+
+  /**
+   * Auto-renewal: activate the drafted renewal (or create one with the same term),
+   * carry over rate cards still in effect and expire the original
+   */
+  private async renewContract(contract: any, draftedRenewalId: string | null): Promise<string> {
+    return this.prisma.$transaction(async (tx) => {
+      const reason = `Auto-renewed from ${contract.contractNumber ?? contract.name}`;
+      let renewal = draftedRenewalId
+        ? await tx.contract.findUnique({ where: { id: draftedRenewalId } })
+        : null;
+
+      if (!renewal) {
+        const term = getRenewalTerm(contract.startDate, contract.endDate);
+        renewal = await tx.contract.create({
+          data: {
+            customerId: contract.customerId,
+            name: `${contract.name} (Renewal ${term.startDate.getUTCFullYear()})`,
+            startDate: term.startDate,
+            endDate: term.endDate,
+            autoRenew: true,
+            status: 'draft',
+            contractType: 'renewal',
+            billingCycle: contract.billingCycle,
+            paymentTerms: contract.paymentTerms,
+            terms: contract.terms ?? undefined,
+            notes: reason,
+          },
+        });
+      }
+
+      // A drafted renewal only becomes the successor now that it is executed
+      await tx.contract.update({
+        where: { id: contract.id },
+        data: { supersededByContractId: renewal.id },
+      });
+
+      // The auto-renew clause of the original contract executes the renewal
+      await tx.contract.update({
+        where: { id: renewal.id },
+        data: { executionDate: renewal.executionDate ?? renewal.startDate },
+      });
+      await this.applyScheduledTransition(tx, renewal, 'active', reason);
+      await this.applyScheduledTransition(tx, contract, 'expired', `Renewed by ${renewal.name}`);
+
+      const links = await tx.rateCardContract.findMany({
+        where: {
+          contractId: contract.id,
+          rateCard: {
+            archivedAt: null,
+            OR: [{ expiresDate: null }, { expiresDate: { gt: renewal.startDate } }],
+          },
+        },
+      });
+      await tx.rateCardContract.createMany({
+        data: links.map(link => ({
+          rateCardId: link.rateCardId,
+          contractId: renewal!.id,
+          linkType: link.linkType,
+          notes: reason,
+        })),
+        skipDuplicates: true,
+      });
+
+      return renewal.id;
+    });
+  }
+}
@@ -0,0 +1,418 @@
+/**
+ * @fileoverview Credit Note Service - Corrections to issued invoices
+ *
+ * Issued invoices are immutable; every correction is a credit note against the
+ * invoice (optionally against specific invoice lines) that is approved and then
+ * applied to the invoice balance or held as account credit.
+ *
+ * @author Handled Platform Team
+ * @version 1.0.0
+ * @since 2026-10-18
+ */
+
+/**
+ * Credit Note Service
+ * ===================
+ *
+ * PURPOSE:
+ * Manage the credit note workflow: request → approve/reject → apply. Credit notes
+ * carry their own number sequence and reason, and never modify the invoice they
+ * correct - only its balance changes when the credit is applied.
+ *
+ * SCOPE:
+ * ✅ Credit notes against issued invoices, with optional line-level detail
+ * ✅ Numbering: CN-YYYY-CUSTCODE-NNN (own sequence per customer and year)
+ * ✅ Approval / rejection by manage_billing holders
+ * ✅ Application to the invoice balance or as account credit (customer_credits)
+ *
+ * OUT OF SCOPE:
+ * ❌ Refunds (money back to the customer)
+ * ❌ Editing issued invoices - by design
+ *
+ * BUSINESS RULES:
+ * 🔒 Draft and void invoices cannot be credited (drafts are regenerated instead)
+ * 💰 A line cannot be credited beyond its line total across all credit notes;
+ *    an invoice cannot be credited beyond its total - the invoice row is locked
+ *    while a note is created, so concurrent notes cannot over-credit it
+ * 🧾 A credit note number taken by a concurrent request is retried with the next one
+ * 👥 Separation of duties: the creator of a credit note cannot approve it
+ * ⚖️ Approval and rejection only succeed while the note is still pending, so a
+ *    note is never both approved and rejected
+ * ✅ Only approved credit notes can be applied; applying is one-way and happens
+ *    once, even when two applications race
+ * 📈 Applying to the invoice reduces balanceDue; anything above the balance
+ *    (e.g. on a paid invoice) becomes account credit for the next invoice
+ *
+ * @example
+ * ```typescript
+ * const service = new CreditNoteService(prisma);
+ * const note = await service.createCreditNote({ invoiceId, reasonCode: 'pricing_correction', reason, lines }, userId);
+ * await service.approveCreditNote(note.id, approverId);
+ * await service.applyCreditNote(note.id, { target: 'invoice' }, approverId);
+ * ```
+ */
+
+import type { CustomerCredit, PrismaClient } from '@prisma/client-primary';
+import type {
+  ApplyCreditNoteInput,
+  CreateCreditNoteInput,
+  CreditNoteLineInput,
+  ListCreditNotesQuery,
+} from '../validation/creditNoteSchema.js';
+import { isPrismaUniqueConstraintError } from '../types/errors.js';
+import { lockInvoice, recalculateInvoiceBalance, PAYABLE_INVOICE_STATUSES } from './paymentService.js';
+
+/** Invoice statuses that can be credited */
+export const CREDITABLE_INVOICE_STATUSES = [...PAYABLE_INVOICE_STATUSES, 'paid', 'credited'];
+
+/** Attempts at a fresh credit note number when a concurrent request took the previous one */
+const CREDIT_NOTE_NUMBER_ATTEMPTS = 5;
+
+/** Credit note statuses that count against the creditable amount */
+const OPEN_CREDIT_NOTE_STATUSES = ['pending', 'approved', 'applied'];
+
+export interface CreditableInvoiceLine {
+  id: string;
+  description: string;
+  lineTotal: number;
+}
+
+export interface DraftCreditNoteLine {
+  invoiceLineId: string | null;
+  description: string;
+  quantity: number;
+  unitRate: number;
+  lineTotal: number;
+  lineOrder: number;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function getCreditNotePrefix(year: number, customerSlug: string): string {
+  return `CN-${year}-${customerSlug.toUpperCase().replace(/[^A-Z0-9]/g, '')}-`;
+}
+
+/**
+ * Credit note number in the CN-YYYY-CUSTCODE-NNN format
+ */
+export function formatCreditNoteNumber(year: number, customerSlug: string, sequence: number): string {
+  return `${getCreditNotePrefix(year, customerSlug)}${String(sequence).padStart(3, '0')}`;
+}
+
+/**
+ * Validate requested credit note lines against the invoice and earlier credit notes
+ * Pure function - throws when a line or the total cannot be credited
+ *
+ * @param alreadyCredited - credited amount per invoice line id, plus '' for the invoice total
+ */
+export function buildCreditNoteLines(
+  inputs: CreditNoteLineInput[],
+  invoice: { total: number; lines: CreditableInvoiceLine[] },
+  alreadyCredited: Map<string, number>
+): { lines: DraftCreditNoteLine[]; total: number } {
+  const invoiceLines = new Map(invoice.lines.map(line => [line.id, line]));
+  const requestedPerLine = new Map<string, number>();
+
+  const lines = inputs.map((input, index) => {
+    const exactTotal = input.quantity * input.unitRate;
+    const lineTotal = roundMoney(exactTotal);
+    if (Math.abs(exactTotal - lineTotal) > 1e-9) {
+      throw new Error(`Cannot credit line ${index + 1}: quantity × rate must come to whole cents`);
+    }
+
+    let description = input.description;
+    if (input.invoiceLineId) {
+      const invoiceLine = invoiceLines.get(input.invoiceLineId);
+      if (!invoiceLine) {
+        throw new Error(`Cannot credit line ${index + 1}: invoice line ${input.invoiceLineId} is not on this invoice`);
+      }
+
+      const requested = roundMoney((requestedPerLine.get(invoiceLine.id) ?? 0) + lineTotal);
+      const available = roundMoney(invoiceLine.lineTotal - (alreadyCredited.get(invoiceLine.id) ?? 0));
+      if (requested > available) {
+        throw new Error(`Cannot credit ${requested.toFixed(2)} on "${invoiceLine.description}": only ${available.toFixed(2)} is creditable`);
+      }
+      requestedPerLine.set(invoiceLine.id, requested);
+      description = description || `Credit: ${invoiceLine.description}`;
+    }
+
+    return {
+      invoiceLineId: input.invoiceLineId ?? null,
+      description: description as string,
+      quantity: input.quantity,
+      unitRate: input.unitRate,
+      lineTotal,
+      lineOrder: index + 1,
+    };
+  });
+
+  const total = roundMoney(lines.reduce((sum, line) => sum + line.lineTotal, 0));
+  const available = roundMoney(invoice.total - (alreadyCredited.get('') ?? 0));
+
+  if (total <= 0) {
+    throw new Error('Cannot create a credit note with a zero total');
+  }
+  if (total > available) {
+    throw new Error(`Cannot credit ${total.toFixed(2)}: only ${available.toFixed(2)} of the invoice is creditable`);
+  }
+
+  return { lines, total };
+}
+
+export class CreditNoteService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Request a credit note against an issued invoice (status pending)
+   */
+  async createCreditNote(input: CreateCreditNoteInput, createdBy?: string) {
+    const createInTransaction = () => this.prisma.$transaction(async (tx) => {
+      // Locked so concurrent notes on the invoice see each other's amounts
+      await lockInvoice(tx, input.invoiceId);
+
+      const invoice = await tx.invoice.findUnique({
+        where: { id: input.invoiceId },
+        include: {
+          customer: { select: { id: true, slug: true } },
+          lines: { select: { id: true, description: true, lineTotal: true } },
+        },
+      });
+
+      if (!invoice) {
+        throw new Error('Invoice not found');
+      }
+      if (!CREDITABLE_INVOICE_STATUSES.includes(invoice.status)) {
+        throw new Error(invoice.status === 'draft'
+          ? `Cannot credit draft invoice ${invoice.invoiceNumber}: regenerate the draft instead`
+          : `Cannot credit ${invoice.status} invoice ${invoice.invoiceNumber}`);
+      }
+
+      const existingLines = await tx.creditNoteLine.findMany({
+        where: {
+          creditNote: { invoiceId: invoice.id, status: { in: OPEN_CREDIT_NOTE_STATUSES } },
+        },
+        select: { invoiceLineId: true, lineTotal: true },
+      });
+
+      const alreadyCredited = new Map<string, number>();
+      for (const line of existingLines) {
+        const amount = Number(line.lineTotal);
+        alreadyCredited.set('', roundMoney((alreadyCredited.get('') ?? 0) + amount));
+        if (line.invoiceLineId) {
+          alreadyCredited.set(line.invoiceLineId, roundMoney((alreadyCredited.get(line.invoiceLineId) ?? 0) + amount));
+        }
+      }
+
+      const { lines, total } = buildCreditNoteLines(
+        input.lines,
+        {
+          total: Number(invoice.total),
+          lines: invoice.lines.map(line => ({ id: line.id, description: line.description, lineTotal: Number(line.lineTotal) })),
+        },
+        alreadyCredited
+      );
+
+      const year = new Date().getUTCFullYear();
+      const prefix = getCreditNotePrefix(year, invoice.customer.slug);
+      const existingNumbers = await tx.creditNote.findMany({
+        where: { creditNoteNumber: { startsWith: prefix } },
+        select: { creditNoteNumber: true },
+      });
+      const sequence = existingNumbers.reduce((max, note) => {
+        const value = parseInt(note.creditNoteNumber.slice(prefix.length), 10);
+        return Number.isNaN(value) ? max : Math.max(max, value);
+      }, 0);
+
+      return tx.creditNote.create({
+        data: {
+          creditNoteNumber: formatCreditNoteNumber(year, invoice.customer.slug, sequence + 1),
+          customerId: invoice.customerId,
+          invoiceId: invoice.id,
+          reasonCode: input.reasonCode,
+          reason: input.reason,
+          total,
+          status: 'pending',
+          createdBy,
+          lines: {
+            create: lines,
+          },
+        } as any,
+        include: { lines: { orderBy: { lineOrder: 'asc' } } },
+      });
+    }, { timeout: 60000 });
+
+    const createWithFreeNumber = async (attempt: number): ReturnType<typeof createInTransaction> => {
+      try {
+        return await createInTransaction();
+      } catch (error) {
+        // A note on another invoice of the customer took this number - read the sequence again
+        if (!isPrismaUniqueConstraintError(error) || attempt >= CREDIT_NOTE_NUMBER_ATTEMPTS) {
+          throw error;
+        }
+        return createWithFreeNumber(attempt + 1);
+      }
+    };
+
+    return createWithFreeNumber(1);
+  }
+
+  private async getCreditNoteForStatus(creditNoteId: string, expected: string) {
+    const creditNote = await this.prisma.creditNote.findUnique({ where: { id: creditNoteId } });
+
+    if (!creditNote) {
+      throw new Error('Credit note not found');
+    }
+    if (creditNote.status !== expected) {
+      throw new Error(`Cannot change credit note ${creditNote.creditNoteNumber}: it is ${creditNote.status}, expected ${expected}`);
+    }
+
+    return creditNote;
+  }
+
+  /**
+   * Approve a pending credit note (not by the user who created it)
+   */
+  async approveCreditNote(creditNoteId: string, approvedBy?: string) {
+    const creditNote = await this.getCreditNoteForStatus(creditNoteId, 'pending');
+
+    if (!approvedBy || approvedBy === creditNote.createdBy) {
+      throw new Error(`Cannot approve credit note ${creditNote.creditNoteNumber}: it must be approved by someone other than its creator`);
+    }
+
+    return this.decidePendingNote(creditNote, { status: 'approved', approvedAt: new Date(), approvedBy });
+  }
+
+  /**
+   * Reject a pending credit note (frees its amount for other credit notes)
+   */
+  async rejectCreditNote(creditNoteId: string, reason: string, rejectedBy?: string) {
+    const creditNote = await this.getCreditNoteForStatus(creditNoteId, 'pending');
+
+    return this.decidePendingNote(creditNote, {
+      status: 'rejected', rejectedReason: reason, approvedAt: new Date(), approvedBy: rejectedBy,
+    });
+  }
+
+  /**
+   * Approve or reject a note only if it is still pending - a concurrent decision wins
+   */
+  private async decidePendingNote(creditNote: { id: string; creditNoteNumber: string }, data: Record<string, unknown>) {
+    const decided = await this.prisma.creditNote.updateMany({
+      where: { id: creditNote.id, status: 'pending' },
+      data,
+    });
+    if (decided.count === 0) {
+      throw new Error(`Cannot change credit note ${creditNote.creditNoteNumber}: it is no longer pending`);
+    }
+
+    return this.prisma.creditNote.findUnique({ where: { id: creditNote.id } });
+  }
+
+  /**
+   * Apply an approved credit note to the invoice balance or as account credit
+   */
+  async applyCreditNote(creditNoteId: string, input: ApplyCreditNoteInput, appliedBy?: string) {
+    const creditNote = await this.getCreditNoteForStatus(creditNoteId, 'approved');
+
+    return this.prisma.$transaction(async (tx) => {
+      await lockInvoice(tx, creditNote.invoiceId);
+
+      // Claim the note - a concurrent application of the same note finds it applied
+      const claimed = await tx.creditNote.updateMany({
+        where: { id: creditNoteId, status: 'approved' },
+        data: { status: 'applied', appliedAt: new Date() },
+      });
+      if (claimed.count === 0) {
+        throw new Error(`Cannot apply credit note ${creditNote.creditNoteNumber}: it is no longer approved`);
+      }
+
+      const invoice = await tx.invoice.findUnique({ where: { id: creditNote.invoiceId } });
+      const total = Number(creditNote.total);
+
+      const toInvoice = input.target === 'invoice' && PAYABLE_INVOICE_STATUSES.includes(invoice!.status)
+        ? roundMoney(Math.min(total, Number(invoice!.balanceDue)))
+        : 0;
+      const toAccount = roundMoney(total - toInvoice);
+
+      const applied = await tx.creditNote.update({
+        where: { id: creditNoteId },
+        data: {
+          appliedToInvoice: toInvoice,
+          appliedToAccount: toAccount,
+        },
+      });
+
+      let credit: CustomerCredit | null = null;
+      if (toAccount > 0) {
+        credit = await tx.customerCredit.create({
+          data: {
+            customerId: creditNote.customerId,
+            source: 'credit_note',
+            creditNoteId,
+            amount: toAccount,
+            remaining: toAccount,
+            notes: `Credit note ${creditNote.creditNoteNumber} on ${invoice!.invoiceNumber}`,
+            createdBy: appliedBy,
+          },
+        });
+      }
+
+      const updatedInvoice = toInvoice > 0
+        ? await recalculateInvoiceBalance(tx, creditNote.invoiceId)
+        : invoice;
+
+      return { creditNote: applied, invoice: updatedInvoice, credit };
+    }, { timeout: 60000 });
+  }
+
+  /**
+   * List credit notes with optional filters
+   */
+  async listCreditNotes(query: ListCreditNotesQuery) {
+    const where: any = {
+      ...(query.customerId && { customerId: query.customerId }),
+      ...(query.invoiceId && { invoiceId: query.invoiceId }),
+      ...(query.status && { status: query.status }),
+    };
+
+    const [creditNotes, total] = await Promise.all([
+      this.prisma.creditNote.findMany({
+        where,
+        include: {
+          customer: { select: { id: true, name: true } },
+          invoice: { select: { id: true, invoiceNumber: true, status: true } },
+          createdByUser: { select: { id: true, name: true } },
+          approvedByUser: { select: { id: true, name: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: query.limit,
+        skip: query.offset,
+      }),
+      this.prisma.creditNote.count({ where }),
+    ]);
+
+    return { creditNotes, total, limit: query.limit, offset: query.offset };
+  }
+
+  /**
+   * Get credit note by ID with lines and the invoice lines they correct
+   */
+  async getCreditNoteById(creditNoteId: string) {
+    return this.prisma.creditNote.findUnique({
+      where: { id: creditNoteId },
+      include: {
+        customer: { select: { id: true, name: true } },
+        invoice: { select: { id: true, invoiceNumber: true, status: true, total: true, balanceDue: true } },
+        lines: {
+          orderBy: { lineOrder: 'asc' },
+          include: { invoiceLine: { select: { id: true, description: true, lineTotal: true } } },
+        },
+        accountCredits: true,
+        createdByUser: { select: { id: true, name: true } },
+        approvedByUser: { select: { id: true, name: true } },
+      },
+    });
+  }
+}
@@ -0,0 +1,706 @@
+/**
+ * @fileoverview Customer Lifecycle Service - Status transitions, pause/resume and offboarding
+ * @author Handled Platform Team
+ * @version 1.0.0
+ * @since 2026-10-18
+ *
+ * PURPOSE:
+ * Move customers through prospect → setup → active ⇄ paused → terminated with a
+ * history entry for every change, and turn termination into an offboarding that
+ * winds down contracts, rate cards and warehouse space around an effective date.
+ *
+ * SCOPE:
+ * ✅ Customer status transition table + status history
+ * ✅ Pause / resume (a paused customer cannot ingest new billing activities)
+ * ✅ Termination scheduled for an effective date:
+ *    - contracts still running on the effective date end the day before (no auto-renewal)
+ *    - final-bill checklist
+ *    - rate cards deactivated once the final invoice is issued
+ *    - warehouse allocations released (early on request, at the latest on the effective date)
+ * ✅ Cancelling an offboarding before the effective date undoes every step
+ * ✅ Daily offboarding job: terminate on the effective date, pick up final invoices
+ *
+ * OUT OF SCOPE:
+ * ❌ Generating the final invoice (invoicing)
+ * ❌ Deleting data (terminated customers are kept forever)
+ *
+ * BUSINESS RULES:
+ * 📅 Effective date = first day the customer is no longer served; it may be today but
+ *    not in the past
+ * ↩️ Every step records what it changed (previous end dates, allocation statuses,
+ *    rate card ids) so cancelling restores the exact previous state
+ * 🔒 Once the effective date is reached the offboarding can no longer be cancelled
+ * 🧾 The final invoice must be issued and cover the last day of service
+ * ✅ An offboarding completes when the customer is terminated and its rate cards are
+ *    deactivated
+ *
+ * @example
+ * const lifecycle = new CustomerLifecycleService(prisma);
+ * await lifecycle.scheduleTermination(customerId, { reason: 'Moving to in-house fulfillment', effective_date: '2026-12-01' }, userId);
+ * await lifecycle.cancelOffboarding(customerId, {}, userId); // before 2026-12-01: contracts, space and rate cards restored
+ */
+
+import type { PrismaClient } from '@prisma/client-primary';
+import type {
+  CancelOffboardingInput,
+  CustomerStatus,
+  FinalBillItemKey,
+  PauseCustomerInput,
+  ResumeCustomerInput,
+  TerminateCustomerInput,
+} from '../validation/customerLifecycleSchema.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type CustomerStatusTrigger = 'manual' | 'onboarding' | 'offboarding';
+
+export interface OffboardingContract {
+  id: string;
+  status: string;
+  startDate: Date;
+  endDate: Date | null;
+  autoRenew: boolean;
+}
+
+/**
+ * Contract change made when the termination is scheduled, with what it replaced
+ */
+export interface ContractEndDateChange {
+  contractId: string;
+  previousEndDate: string | null;
+  previousAutoRenew: boolean;
+  endDate: string;
+}
+
+export interface AllocationRelease {
+  allocationId: string;
+  previousStatus: string;
+}
+
+export interface FinalBillItem {
+  key: FinalBillItemKey;
+  label: string;
+  done: boolean;
+  doneAt: string | null;
+  doneBy: string | null;
+}
+
+// ============================================
+// PURE HELPERS
+// ============================================
+
+export const CUSTOMER_STATUS_TRANSITIONS: Record<CustomerStatus, CustomerStatus[]> = {
+  prospect: ['setup', 'active', 'terminated'],
+  setup: ['active', 'terminated'],
+  active: ['paused', 'terminated'],
+  paused: ['active', 'terminated'],
+  terminated: [],
+};
+
+/** Invoice statuses that count as an issued final invoice */
+const ISSUED_INVOICE_STATUSES = ['issued', 'sent', 'paid', 'partial', 'overdue'];
+const OPEN_OFFBOARDING_STATUSES = ['scheduled', 'terminated'];
+const RELEASED_ALLOCATION_STATUS = 'inactive';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function getAllowedCustomerTransitions(status: string): CustomerStatus[] {
+  return CUSTOMER_STATUS_TRANSITIONS[status as CustomerStatus] ?? [];
+}
+
+/**
+ * Check a status change against the transition table, null when allowed
+ */
+export function validateCustomerTransition(from: string, to: string): string | null {
+  if (from === to) {
+    return `Cannot move a ${from} customer to ${to} - it already is`;
+  }
+  if (!getAllowedCustomerTransitions(from).includes(to as CustomerStatus)) {
+    return `Cannot move a ${from} customer to ${to}`;
+  }
+  return null;
+}
+
+/**
+ * Contracts served up to the effective date end the day before and stop auto-renewing
+ * Contracts starting on or after the effective date are terminated on that date instead
+ */
+export function planContractEndDates(contracts: OffboardingContract[], effectiveDate: Date): ContractEndDateChange[] {
+  const effective = startOfUtcDay(effectiveDate);
+  const lastDay = new Date(effective.getTime() - DAY_MS);
+  const changes: ContractEndDateChange[] = [];
+
+  for (const contract of contracts) {
+    if (!['draft', 'active'].includes(contract.status)) continue;
+    if (startOfUtcDay(contract.startDate) >= effective) continue;
+
+    const endsAfter = !contract.endDate || startOfUtcDay(contract.endDate) > lastDay;
+    if (!endsAfter && !contract.autoRenew) continue;
+
+    changes.push({
+      contractId: contract.id,
+      previousEndDate: contract.endDate ? formatDate(contract.endDate) : null,
+      previousAutoRenew: contract.autoRenew,
+      endDate: endsAfter ? formatDate(lastDay) : formatDate(contract.endDate!),
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Contracts that never start because the customer is gone by then
+ */
+export function getUnservedContracts(contracts: OffboardingContract[], effectiveDate: Date): string[] {
+  const effective = startOfUtcDay(effectiveDate);
+  return contracts
+    .filter(contract => ['draft', 'active'].includes(contract.status))
+    .filter(contract => startOfUtcDay(contract.startDate) >= effective)
+    .map(contract => contract.id);
+}
+
+export function buildFinalBillChecklist(effectiveDate: Date): FinalBillItem[] {
+  const lastDay = formatDate(new Date(startOfUtcDay(effectiveDate).getTime() - DAY_MS));
+  const item = (key: FinalBillItemKey, label: string): FinalBillItem => ({
+    key, label, done: false, doneAt: null, doneBy: null,
+  });
+
+  return [
+    item('activities_invoiced', `Invoice all billing activities through ${lastDay}`),
+    item('storage_billed', `Bill storage through ${lastDay}`),
+    item('credits_settled', 'Apply or refund open credits'),
+    item('final_invoice', 'Issue the final invoice'),
+    item('balance_collected', 'Collect the outstanding balance'),
+    item('inventory_returned', 'Ship out or transfer remaining inventory'),
+  ];
+}
+
+export function setFinalBillItem(
+  checklist: FinalBillItem[],
+  key: FinalBillItemKey,
+  done: boolean,
+  userId: string | null,
+  now: Date = new Date()
+): FinalBillItem[] {
+  return checklist.map(item => item.key !== key ? item : {
+    ...item,
+    done,
+    doneAt: done ? now.toISOString() : null,
+    doneBy: done ? userId : null,
+  });
+}
+
+/**
+ * An issued invoice covering the last day of service
+ */
+export function isFinalInvoice(invoice: { status: string; periodEnd: Date }, effectiveDate: Date): boolean {
+  const lastDay = new Date(startOfUtcDay(effectiveDate).getTime() - DAY_MS);
+  return ISSUED_INVOICE_STATUSES.includes(invoice.status) && startOfUtcDay(invoice.periodEnd) >= lastDay;
+}
+
+/**
+ * Reason an offboarding cannot be cancelled, null when it can
+ */
+export function getCancelBlocker(offboarding: { status: string; effectiveDate: Date }, today: Date = new Date()): string | null {
+  if (offboarding.status !== 'scheduled') {
+    return `Cannot cancel an offboarding that is ${offboarding.status}`;
+  }
+  if (startOfUtcDay(today) >= startOfUtcDay(offboarding.effectiveDate)) {
+    return 'Cannot cancel an offboarding on or after its effective date';
+  }
+  return null;
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+const OFFBOARDING_INCLUDE = {
+  finalInvoice: { select: { id: true, invoiceNumber: true, periodEnd: true, status: true } },
+  requestedByUser: { select: { id: true, name: true } },
+  cancelledByUser: { select: { id: true, name: true } },
+};
+
+export class CustomerLifecycleService {
+  constructor(private prisma: PrismaClient) {}
+
+  private async getCustomer(customerId: string) {
+    const customer = await this.prisma.customer.findUnique({
+      where: { id: customerId },
+      select: { id: true, status: true, deleted: true },
+    });
+
+    if (!customer || customer.deleted) {
+      throw new Error('Customer not found');
+    }
+    return customer;
+  }
+
+  private async getOpenOffboarding(customerId: string) {
+    const offboarding = await this.prisma.customerOffboarding.findFirst({
+      where: { customerId, status: { in: OPEN_OFFBOARDING_STATUSES } },
+    });
+
+    if (!offboarding) {
+      throw new Error('Offboarding not found');
+    }
+    return offboarding;
+  }
+
+  /**
+   * Change status and record it - callers validate the transition first
+   */
+  async recordStatusChange(
+    db: any,
+    customer: { id: string; status: string },
+    to: CustomerStatus,
+    options: { trigger: CustomerStatusTrigger; reason?: string | null; userId?: string | null; data?: Record<string, unknown> }
+  ) {
+    await db.customerStatusChange.create({
+      data: {
+        customerId: customer.id,
+        fromStatus: customer.status,
+        toStatus: to,
+        trigger: options.trigger,
+        reason: options.reason ?? null,
+        changedBy: options.userId ?? null,
+      },
+    });
+
+    return db.customer.update({
+      where: { id: customer.id },
+      data: { status: to, ...options.data },
+    });
+  }
+
+  async getStatusHistory(customerId: string) {
+    const customer = await this.getCustomer(customerId);
+
+    const history = await this.prisma.customerStatusChange.findMany({
+      where: { customerId },
+      include: { changedByUser: { select: { id: true, name: true } } },
+      orderBy: { changedAt: 'desc' },
+    });
+
+    return {
+      customerId,
+      status: customer.status,
+      allowedTransitions: getAllowedCustomerTransitions(customer.status),
+      history,
+    };
+  }
+
+  /**
+   * Manual move between prospect, setup and active - pausing and terminating have
+   * their own flows
+   */
+  async setStatus(customerId: string, to: CustomerStatus, userId?: string | null) {
+    const customer = await this.getCustomer(customerId);
+    if (customer.status === to) return customer;
+
+    if (to === 'paused' || to === 'terminated') {
+      throw new Error(`Cannot set a customer to ${to} directly - use ${to === 'paused' ? 'pause' : 'terminate'}`);
+    }
+
+    const blocker = validateCustomerTransition(customer.status, to);
+    if (blocker) {
+      throw new Error(blocker);
+    }
+
+    return this.prisma.$transaction((tx) =>
+      this.recordStatusChange(tx, customer, to, { trigger: 'manual', userId })
+    );
+  }
+
+  async pause(customerId: string, input: PauseCustomerInput, userId?: string | null) {
+    const customer = await this.getCustomer(customerId);
+    if (customer.status !== 'active') {
+      throw new Error(`Cannot pause a ${customer.status} customer`);
+    }
+
+    return this.prisma.$transaction((tx) =>
+      this.recordStatusChange(tx, customer, 'paused', { trigger: 'manual', reason: input.reason, userId })
+    );
+  }
+
+  async resume(customerId: string, input: ResumeCustomerInput, userId?: string | null) {
+    const customer = await this.getCustomer(customerId);
+    if (customer.status !== 'paused') {
+      throw new Error(`Cannot resume a ${customer.status} customer`);
+    }
+
+    return this.prisma.$transaction((tx) =>
+      this.recordStatusChange(tx, customer, 'active', { trigger: 'manual', reason: input.reason ?? null, userId })
+    );
+  }
+
+  // ============================================
+  // OFFBOARDING
+  // ============================================
+
+  /**
+   * Latest offboarding for the customer (open, completed or cancelled), null if none
+   */
+  async getOffboarding(customerId: string) {
+    await this.getCustomer(customerId);
+
+    const offboarding = await this.prisma.customerOffboarding.findFirst({
+      where: { customerId },
+      include: OFFBOARDING_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return {
+      offboarding,
+      cancelBlocker: offboarding ? getCancelBlocker(offboarding) : null,
+    };
+  }
+
+  /**
+   * Schedule termination: end-date contracts, stop auto-renewal and generate the
+   * final-bill checklist. An effective date of today terminates right away.
+   */
+  async scheduleTermination(customerId: string, input: TerminateCustomerInput, userId?: string | null) {
+    const customer = await this.getCustomer(customerId);
+    const effectiveDate = new Date(`${input.effective_date}T00:00:00.000Z`);
+
+    if (customer.status === 'terminated') {
+      throw new Error('Cannot terminate a customer that is already terminated');
+    }
+    if (effectiveDate < startOfUtcDay(new Date())) {
+      throw new Error('Cannot terminate with an effective date in the past');
+    }
+
+    const open = await this.prisma.customerOffboarding.findFirst({
+      where: { customerId, status: { in: OPEN_OFFBOARDING_STATUSES } },
+      select: { id: true },
+    });
+    if (open) {
+      throw new Error('Cannot schedule a termination while another one is open');
+    }
+
+    const contracts = await this.prisma.contract.findMany({
+      // Superseded contracts too: an original with a drafted renewal must not auto-renew
+      where: { customerId, archivedAt: null, status: { in: ['draft', 'active'] } },
+      select: { id: true, status: true, startDate: true, endDate: true, autoRenew: true },
+    });
+    const contractChanges = planContractEndDates(contracts, effectiveDate);
+
+    const offboarding = await this.prisma.$transaction(async (tx) => {
+      for (const change of contractChanges) {
+        await tx.contract.update({
+          where: { id: change.contractId },
+          data: { endDate: new Date(`${change.endDate}T00:00:00.000Z`), autoRenew: false },
+        });
+      }
+
+      return tx.customerOffboarding.create({
+        data: {
+          customerId,
+          effectiveDate,
+          reason: input.reason.trim(),
+          contractChanges: contractChanges as any,
+          finalBillChecklist: buildFinalBillChecklist(effectiveDate) as any,
+          requestedBy: userId ?? null,
+        },
+      });
+    });
+
+    if (effectiveDate <= startOfUtcDay(new Date())) {
+      await this.completeTermination(offboarding.id);
+    }
+
+    return this.getOffboarding(customerId);
+  }
+
+  /**
+   * Undo every offboarding step - only before the effective date
+   */
+  async cancelOffboarding(customerId: string, input: CancelOffboardingInput, userId?: string | null) {
+    const offboarding = await this.getOpenOffboarding(customerId);
+    const blocker = getCancelBlocker(offboarding);
+    if (blocker) {
+      throw new Error(blocker);
+    }
+
+    const contractChanges = offboarding.contractChanges as unknown as ContractEndDateChange[];
+    const releasedAllocations = offboarding.releasedAllocations as unknown as AllocationRelease[];
+    const rateCardIds = offboarding.deactivatedRateCards as unknown as string[];
+
+    await this.prisma.$transaction(async (tx) => {
+      for (const change of contractChanges) {
+        await tx.contract.update({
+          where: { id: change.contractId },
+          data: {
+            endDate: change.previousEndDate ? new Date(`${change.previousEndDate}T00:00:00.000Z`) : null,
+            autoRenew: change.previousAutoRenew,
+          },
+        });
+      }
+
+      for (const release of releasedAllocations) {
+        await tx.warehouseAllocation.update({
+          where: { id: release.allocationId },
+          data: { status: release.previousStatus },
+        });
+      }
+
+      if (rateCardIds.length > 0) {
+        await tx.rateCard.updateMany({
+          where: { id: { in: rateCardIds } },
+          data: { isActive: true },
+        });
+      }
+
+      await tx.customerOffboarding.update({
+        where: { id: offboarding.id },
+        data: {
+          status: 'cancelled',
+          cancelledAt: new Date(),
+          cancelledBy: userId ?? null,
+          ...(input.reason && { reason: `${offboarding.reason}\n\nCancelled: ${input.reason}` }),
+        },
+      });
+    });
+
+    return this.getOffboarding(customerId);
+  }
+
+  /**
+   * Release warehouse space before the effective date (e.g. inventory already shipped out)
+   */
+  async releaseAllocations(customerId: string) {
+    const offboarding = await this.getOpenOffboarding(customerId);
+    if (offboarding.allocationsReleasedAt) {
+      throw new Error('Cannot release allocations twice');
+    }
+
+    await this.prisma.$transaction((tx) => this.releaseAllocationsTx(tx, offboarding));
+    return this.getOffboarding(customerId);
+  }
+
+  private async releaseAllocationsTx(tx: any, offboarding: { id: string; customerId: string }) {
+    const allocations = await tx.warehouseAllocation.findMany({
+      where: { customerId: offboarding.customerId, deleted: false, status: { not: RELEASED_ALLOCATION_STATUS } },
+      select: { id: true, status: true },
+    });
+    const released: AllocationRelease[] = allocations.map((allocation: { id: string; status: string }) => ({
+      allocationId: allocation.id,
+      previousStatus: allocation.status,
+    }));
+
+    if (released.length > 0) {
+      await tx.warehouseAllocation.updateMany({
+        where: { id: { in: released.map(release => release.allocationId) } },
+        data: { status: RELEASED_ALLOCATION_STATUS },
+      });
+    }
+
+    await tx.customerOffboarding.update({
+      where: { id: offboarding.id },
+      data: { releasedAllocations: released as any, allocationsReleasedAt: new Date() },
+    });
+  }
+
+  /**
+   * Link the final invoice and deactivate the customer's rate cards
+   */
+  async recordFinalInvoice(customerId: string, invoiceId: string, userId?: string | null) {
+    const offboarding = await this.getOpenOffboarding(customerId);
+    if (offboarding.finalInvoiceId) {
+      throw new Error('Cannot record a second final invoice');
+    }
+
+    const invoice = await this.prisma.invoice.findFirst({
+      where: { id: invoiceId, customerId },
+      select: { id: true, invoiceNumber: true, status: true, periodEnd: true },
+    });
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+    if (!isFinalInvoice(invoice, offboarding.effectiveDate)) {
+      throw new Error(
+        `Cannot use invoice ${invoice.invoiceNumber} as the final invoice - it must be issued and cover the last day of service`
+      );
+    }
+
+    await this.applyFinalInvoice(offboarding, invoice.id, userId ?? null);
+    return this.getOffboarding(customerId);
+  }
+
+  private async applyFinalInvoice(offboarding: any, invoiceId: string, userId: string | null) {
+    await this.prisma.$transaction(async (tx) => {
+      const rateCards = await tx.rateCard.findMany({
+        where: { customerId: offboarding.customerId, isActive: true, archivedAt: null },
+        select: { id: true },
+      });
+      const rateCardIds = rateCards.map((card: { id: string }) => card.id);
+
+      if (rateCardIds.length > 0) {
+        await tx.rateCard.updateMany({
+          where: { id: { in: rateCardIds } },
+          data: { isActive: false },
+        });
+      }
+
+      const checklist = setFinalBillItem(
+        offboarding.finalBillChecklist as FinalBillItem[],
+        'final_invoice',
+        true,
+        userId
+      );
+
+      await tx.customerOffboarding.update({
+        where: { id: offboarding.id },
+        data: {
+          finalInvoiceId: invoiceId,
+          deactivatedRateCards: rateCardIds,
+          rateCardsDeactivatedAt: new Date(),
+          finalBillChecklist: checklist as any,
+          ...(offboarding.status === 'terminated' && { status: 'completed', completedAt: new Date() }),
+        },
+      });
+    });
+  }
+
+  async updateFinalBillItem(customerId: string, key: FinalBillItemKey, done: boolean, userId?: string | null) {
+    const offboarding = await this.getOpenOffboarding(customerId);
+    if (key === 'final_invoice') {
+      throw new Error('Cannot tick off the final invoice by hand - record the final invoice instead');
+    }
+
+    await this.prisma.customerOffboarding.update({
+      where: { id: offboarding.id },
+      data: {
+        finalBillChecklist: setFinalBillItem(
+          offboarding.finalBillChecklist as unknown as FinalBillItem[],
+          key,
+          done,
+          userId ?? null
+        ) as any,
+      },
+    });
+
+    return this.getOffboarding(customerId);
+  }
+
+  /**
+   * Effective date reached: terminate the customer, release remaining space and
+   * terminate contracts that never started
+   */
+  private async completeTermination(offboardingId: string) {
+    const offboarding = await this.prisma.customerOffboarding.findUnique({
+      where: { id: offboardingId },
+      include: { customer: { select: { id: true, status: true } } },
+    });
+    if (!offboarding || offboarding.status !== 'scheduled') return;
+
+    const contracts = await this.prisma.contract.findMany({
+      where: { customerId: offboarding.customerId, archivedAt: null, status: { in: ['draft', 'active'] } },
+      select: { id: true, status: true, startDate: true, endDate: true, autoRenew: true },
+    });
+    const unserved = new Set(getUnservedContracts(contracts, offboarding.effectiveDate));
+
+    await this.prisma.$transaction(async (tx) => {
+      for (const contract of contracts.filter(c => unserved.has(c.id))) {
+        await tx.contractStatusChange.create({
+          data: {
+            contractId: contract.id,
+            fromStatus: contract.status,
+            toStatus: 'terminated',
+            trigger: 'offboarding',
+            reason: 'Customer terminated before the contract started',
+            changedBy: offboarding.requestedBy,
+          },
+        });
+        await tx.contract.update({ where: { id: contract.id }, data: { status: 'terminated' } });
+      }
+
+      if (!offboarding.allocationsReleasedAt) {
+        await this.releaseAllocationsTx(tx, offboarding);
+      }
+
+      await this.recordStatusChange(tx, offboarding.customer, 'terminated', {
+        trigger: 'offboarding',
+        reason: offboarding.reason,
+        userId: offboarding.requestedBy,
+        data: {
+          retiredAt: new Date(),
+          retiredBy: offboarding.requestedBy,
+          retiredReason: offboarding.reason,
+        },
+      });
+
+      const completed = !!offboarding.rateCardsDeactivatedAt;
+      await tx.customerOffboarding.update({
+        where: { id: offboarding.id },
+        data: {
+          status: completed ? 'completed' : 'terminated',
+          terminatedAt: new Date(),
+          ...(completed && { completedAt: new Date() }),
+        },
+      });
+    });
+  }
+
+  /**
+   * Daily offboarding job: terminate customers whose effective date has come and
+   * deactivate rate cards once a final invoice has been issued
+   */
+  async runOffboarding(options: { asOf?: Date; dryRun?: boolean } = {}) {
+    const asOf = startOfUtcDay(options.asOf ?? new Date());
+    const dryRun = options.dryRun ?? false;
+
+    const open = await this.prisma.customerOffboarding.findMany({
+      where: { status: { in: OPEN_OFFBOARDING_STATUSES } },
+    });
+
+    const result = {
+      asOf: formatDate(asOf),
+      dryRun,
+      terminated: [] as string[],
+      finalInvoices: [] as Array<{ customerId: string; invoiceId: string }>,
+      failed: [] as Array<{ customerId: string; error: string }>,
+    };
+
+    for (const offboarding of open) {
+      try {
+        if (offboarding.status === 'scheduled' && startOfUtcDay(offboarding.effectiveDate) <= asOf) {
+          if (!dryRun) await this.completeTermination(offboarding.id);
+          result.terminated.push(offboarding.customerId);
+        }
+
+        if (!offboarding.finalInvoiceId) {
+          const invoices = await this.prisma.invoice.findMany({
+            where: { customerId: offboarding.customerId, status: { in: ISSUED_INVOICE_STATUSES } },
+            select: { id: true, status: true, periodEnd: true },
+            orderBy: { periodEnd: 'desc' },
+            take: 1,
+          });
+          const finalInvoice = invoices.find(invoice => isFinalInvoice(invoice, offboarding.effectiveDate));
+
+          if (finalInvoice) {
+            if (!dryRun) {
+              const current = await this.prisma.customerOffboarding.findUnique({ where: { id: offboarding.id } });
+              await this.applyFinalInvoice(current, finalInvoice.id, null);
+            }
+            result.finalInvoices.push({ customerId: offboarding.customerId, invoiceId: finalInvoice.id });
+          }
+        }
+      } catch (error) {
+        result.failed.push({ customerId: offboarding.customerId, error: (error as Error).message });
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Document Store - storage for generated and uploaded documents
+ * @author Handled Platform Team
+ * @version 1.0.0
+ * @since 2026-10-18
+ *
+ * PURPOSE:
+ * Persist billing and contract documents (invoice PDFs, signed contract PDFs) behind
+ * a small storage interface so the backing store can be swapped without touching
+ * the services that produce or consume files.
+ *
+ * SCOPE:
+ * ✅ DocumentStore interface (put / get / exists / remove by key)
+ * ✅ Local disk implementation rooted at DOCUMENT_STORAGE_PATH
+ * ✅ Key ↔ URL mapping for Invoice.pdfUrl and Contract.documentUrl
+ *
+ * OUT OF SCOPE:
+ * ❌ Authorization (the /api/documents route decides who may read a key)
+ * ❌ Object storage drivers (S3/Spaces) - add an implementation and register it in getDocumentStore()
+ *
+ * BUSINESS RULES:
+ * 🔑 Keys are relative paths: <kind>/<customerId>/<file> (e.g. invoices/cust_x/INV-2026-ACME-M001.pdf)
+ * 🔒 Keys never escape the store root (no absolute paths, no '..' segments)
+ * 🔗 Stored URLs are app-relative (/api/documents/<key>), never direct file paths
+ *
+ * @example
+ * const store = getDocumentStore();
+ * await store.put('invoices/cust_1/INV-2026-ACME-M001.pdf', pdf);
+ * invoice.pdfUrl = documentUrl('invoices/cust_1/INV-2026-ACME-M001.pdf');
+ */
+
+import { mkdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+
+export const DOCUMENT_URL_PREFIX = '/api/documents/';
+
+export interface DocumentStore {
+  put(key: string, data: Buffer): Promise<{ key: string; size: number }>;
+  get(key: string): Promise<Buffer | null>;
+  exists(key: string): Promise<boolean>;
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Validate and normalize a document key
+ * Throws on empty keys, absolute paths and '..' segments
+ */
+export function normalizeDocumentKey(key: string): string {
+  const segments = key.replace(/\\/g, '/').split('/').filter(Boolean);
+
+  if (segments.length === 0 || key.startsWith('/')) {
+    throw new Error(`Invalid document key: ${key}`);
+  }
+  if (segments.some(segment => segment === '.' || segment === '..')) {
+    throw new Error(`Invalid document key: ${key}`);
+  }
+
+  return segments.join('/');
+}
+
+/**
+ * Make a string safe to use as a single key segment
+ */
+export function toKeySegment(value: string): string {
+  return value.replace(/[^A-Za-z0-9._-]/g, '_');
+}
+
+export function documentUrl(key: string): string {
+  return `${DOCUMENT_URL_PREFIX}${normalizeDocumentKey(key)}`;
+}
+
+/**
+ * Key of a stored document URL, or null for URLs that are not in the store
+ * (e.g. contract links entered before uploads existed)
+ */
+export function documentKeyFromUrl(url: string | null | undefined): string | null {
+  if (!url || !url.startsWith(DOCUMENT_URL_PREFIX)) {
+    return null;
+  }
+  return normalizeDocumentKey(url.slice(DOCUMENT_URL_PREFIX.length));
+}
+
+export class LocalDocumentStore implements DocumentStore {
+  constructor(private rootDir: string) {}
+
+  async put(key: string, data: Buffer) {
+    const path = this.pathFor(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, data);
+    return { key: normalizeDocumentKey(key), size: data.length };
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.pathFor(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      return (await stat(this.pathFor(key))).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  private pathFor(key: string): string {
+    const root = resolve(this.rootDir);
+    const path = resolve(root, normalizeDocumentKey(key));
+    if (!path.startsWith(`${root}/`)) {
+      throw new Error(`Invalid document key: ${key}`);
+    }
+    return path;
+  }
+}
+
+let store: DocumentStore | null = null;
+
+/**
+ * Configured document store (DOCUMENT_STORE, default 'local')
+ */
+export function getDocumentStore(): DocumentStore {
+  if (store) {
+    return store;
+  }
+
+  const driver = process.env.DOCUMENT_STORE || 'local';
+  if (driver !== 'local') {
+    throw new Error(`Unknown document store: ${driver}`);
+  }
+
+  const defaultRoot = join(dirname(fileURLToPath(import.meta.url)), '../../storage/documents');
+  store = new LocalDocumentStore(process.env.DOCUMENT_STORAGE_PATH || defaultRoot);
+  return store;
+}
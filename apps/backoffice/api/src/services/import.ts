@@ -2,8 +2,11 @@ import { prismaPrimary, prismaData } from '../db/index.js';
 import { safeTableName, quoteColumns } from '../db/sql-utils.js';
 import type { Integration, ParsedRecord, ValidationError } from '../integrations/types.js';
 import { getErrorMessage } from '../types/errors.js';
+import { NotificationService } from './notificationService.js';
 import type { Prisma } from '@prisma/client-primary';
 
+const notificationService = new NotificationService(prismaPrimary);
+
 class ImportService {
   async runImport(
     integration: Integration,
@@ -38,6 +41,7 @@ class ImportService {
             errors: validation.errors as unknown as Prisma.JsonArray,
           },
         });
+        void notificationService.notifyImportFailed(run, integration.name, validation.errors);
         
         return {
           success: false,
@@ -79,6 +83,7 @@ class ImportService {
           errors: [errorObj] as unknown as Prisma.JsonArray,
         },
       });
+      void notificationService.notifyImportFailed(run, integration.name, [errorObj]);
       
       throw error;
     }
@@ -0,0 +1,445 @@
+/**
+ * @fileoverview Invoice PDF Service - branded invoice documents
+ * @author Handled Platform Team
+ * @version 1.0.0
+ * @since 2026-10-18
+ *
+ * PURPOSE:
+ * Render an Invoice with its InvoiceLines and dataSnapshot as a branded PDF and keep
+ * the issued copy in the document store (Invoice.pdfUrl).
+ *
+ * SCOPE:
+ * ✅ Lines grouped by BillingCategory, sections in category sortOrder
+ * ✅ Header from the frozen dataSnapshot (customer, period, payment terms)
+ * ✅ DRAFT / VOID stamps
+ * ✅ Stored copy for issued invoices, on-the-fly previews for drafts
+ *
+ * OUT OF SCOPE:
+ * ❌ Emailing / delivery
+ * ❌ Payment status on the document (the PDF is the invoice as issued, not a statement)
+ *
+ * BUSINESS RULES:
+ * 🔒 The stored PDF is the issued document - it is only re-rendered on explicit
+ *    regeneration or when the invoice is voided (adds the VOID stamp)
+ * 📝 Drafts are never stored; they change on every generation run
+ * 📂 Category sections follow BillingCategory.sortOrder; minimum top-ups come last
+ *
+ * BRANDING (environment):
+ * - INVOICE_BRAND_NAME (default "Handled")
+ * - INVOICE_BRAND_ADDRESS ('|' separated lines)
+ * - INVOICE_REMIT_TO
+ *
+ * @example
+ * const pdfService = new InvoicePdfService(prisma);
+ * const { pdf } = await pdfService.getInvoicePdf('inv_123');
+ */
+
+import type { PrismaClient } from '@prisma/client-primary';
+import { PAGE_WIDTH, PdfDocument, fitText, type PdfColor } from '../lib/pdf.js';
+import { documentKeyFromUrl, documentUrl, getDocumentStore, toKeySegment, type DocumentStore } from './documentStore.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface PdfInvoiceLine {
+  description: string;
+  category: string | null;
+  quantity: number;
+  unit: string | null;
+  unitRate: number;
+  lineTotal: number;
+  lineOrder: number | null;
+}
+
+export interface PdfCategory {
+  code: string;
+  name: string;
+  sortOrder: number;
+}
+
+export interface InvoiceSection {
+  code: string;
+  name: string;
+  lines: PdfInvoiceLine[];
+  subtotal: number;
+}
+
+export interface InvoiceDocument {
+  invoiceNumber: string;
+  status: string;
+  billingCycle: string;
+  periodStart: string;
+  periodEnd: string;
+  issuedAt: string | null;
+  dueDate: string | null;
+  paymentTerms: string | null;
+  customerName: string;
+  customerAddress: string[];
+  sections: InvoiceSection[];
+  subtotal: number;
+  tax: number;
+  total: number;
+  notes: string | null;
+}
+
+export interface InvoiceBranding {
+  name: string;
+  address: string[];
+  remitTo: string | null;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const MINIMUM_CATEGORY: PdfCategory = { code: 'minimum', name: 'Minimum Charge', sortOrder: Number.MAX_SAFE_INTEGER };
+
+const ACCENT: PdfColor = [0.12, 0.23, 0.37];
+const MUTED: PdfColor = [0.42, 0.45, 0.5];
+const BAND: PdfColor = [0.93, 0.95, 0.97];
+
+const MARGIN = 48;
+const CONTENT_RIGHT = PAGE_WIDTH - MARGIN;
+const PAGE_BOTTOM = 730;
+
+const CYCLE_LABELS: Record<string, string> = {
+  immediate: 'Immediate',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  annually: 'Annual',
+};
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatMoney(value: number): string {
+  return value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+}
+
+function formatQuantity(value: number): string {
+  return value.toLocaleString('en-US', { maximumFractionDigits: 3 });
+}
+
+function formatDate(date: Date | string | null | undefined): string | null {
+  if (!date) return null;
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+function titleCase(code: string): string {
+  return code.replace(/[_-]+/g, ' ').replace(/\b\w/g, ch => ch.toUpperCase());
+}
+
+export function getInvoiceBranding(env: NodeJS.ProcessEnv = process.env): InvoiceBranding {
+  return {
+    name: env.INVOICE_BRAND_NAME || 'Handled',
+    address: (env.INVOICE_BRAND_ADDRESS || '').split('|').map(line => line.trim()).filter(Boolean),
+    remitTo: env.INVOICE_REMIT_TO || null,
+  };
+}
+
+/**
+ * Format a customer address JSON ({ street1, street2, city, state, zip, country }) as lines
+ */
+export function formatAddress(address: unknown): string[] {
+  if (!address || typeof address !== 'object') {
+    return [];
+  }
+  const a = address as Record<string, string | undefined>;
+  const cityLine = [a.city, [a.state, a.zip].filter(Boolean).join(' ')].filter(Boolean).join(', ');
+  return [a.street1, a.street2, cityLine, a.country && a.country !== 'US' ? a.country : undefined]
+    .filter((line): line is string => !!line && line.trim().length > 0);
+}
+
+/**
+ * Group invoice lines into sections by billing category
+ * - Sections ordered by category sortOrder, unknown categories after known ones,
+ *   minimum top-ups last
+ * - Lines keep their invoice lineOrder within a section
+ */
+export function groupInvoiceLines(lines: PdfInvoiceLine[], categories: PdfCategory[]): InvoiceSection[] {
+  const known = new Map(categories.map(c => [c.code, c]));
+  known.set(MINIMUM_CATEGORY.code, MINIMUM_CATEGORY);
+
+  const sections = new Map<string, InvoiceSection & { sortOrder: number }>();
+  for (const line of lines) {
+    const code = line.category || 'other';
+    const category = known.get(code) ?? { code, name: titleCase(code), sortOrder: Number.MAX_SAFE_INTEGER - 1 };
+
+    let section = sections.get(code);
+    if (!section) {
+      section = { code, name: category.name, sortOrder: category.sortOrder, lines: [], subtotal: 0 };
+      sections.set(code, section);
+    }
+    section.lines.push(line);
+    section.subtotal = roundMoney(section.subtotal + line.lineTotal);
+  }
+
+  return [...sections.values()]
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name))
+    .map(({ sortOrder: _sortOrder, ...section }) => ({
+      ...section,
+      lines: [...section.lines].sort((a, b) => (a.lineOrder ?? 0) - (b.lineOrder ?? 0)),
+    }));
+}
+
+/**
+ * Build the document model from an invoice row (with lines and customer) and categories
+ * Customer name, period and payment terms come from the frozen dataSnapshot when present
+ */
+export function buildInvoiceDocument(invoice: any, categories: PdfCategory[]): InvoiceDocument {
+  const snapshot = (invoice.dataSnapshot ?? {}) as Record<string, any>;
+  const lines: PdfInvoiceLine[] = (invoice.lines ?? []).map((line: any) => ({
+    description: line.description,
+    category: line.category ?? null,
+    quantity: Number(line.quantity),
+    unit: line.unit ?? null,
+    unitRate: Number(line.unitRate),
+    lineTotal: Number(line.lineTotal),
+    lineOrder: line.lineOrder ?? null,
+  }));
+
+  const terms = snapshot.paymentTerms;
+
+  return {
+    invoiceNumber: invoice.invoiceNumber,
+    status: invoice.status,
+    billingCycle: invoice.billingCycle,
+    periodStart: snapshot.period?.start ?? formatDate(invoice.periodStart),
+    periodEnd: snapshot.period?.end ?? formatDate(invoice.periodEnd),
+    issuedAt: formatDate(invoice.issuedAt),
+    dueDate: formatDate(invoice.dueDate),
+    paymentTerms: terms ? (terms.terms ?? `Net ${terms.days}`) : null,
+    customerName: snapshot.customer?.name ?? invoice.customer?.name ?? '',
+    customerAddress: formatAddress(invoice.customer?.address),
+    sections: groupInvoiceLines(lines, categories),
+    subtotal: Number(invoice.subtotal),
+    tax: Number(invoice.tax),
+    total: Number(invoice.total),
+    notes: invoice.notes ?? null,
+  };
+}
+
+/**
+ * Render the invoice document as a PDF
+ */
+export function renderInvoicePdf(doc: InvoiceDocument, branding: InvoiceBranding): Buffer {
+  const pdf = new PdfDocument({ title: `Invoice ${doc.invoiceNumber}`, author: branding.name });
+  pdf.addPage();
+
+  // Brand block
+  pdf.rect(0, 0, PAGE_WIDTH, 6, ACCENT);
+  pdf.text(branding.name, MARGIN, 56, { size: 20, bold: true, color: ACCENT });
+  branding.address.forEach((line, i) => pdf.text(line, MARGIN, 74 + i * 12, { size: 9, color: MUTED }));
+
+  pdf.text('INVOICE', CONTENT_RIGHT, 56, { size: 20, bold: true, align: 'right' });
+  const meta: Array<[string, string | null]> = [
+    ['Invoice #', doc.invoiceNumber],
+    ['Issued', doc.issuedAt],
+    ['Due', doc.dueDate],
+    ['Terms', doc.paymentTerms],
+    ['Period', `${doc.periodStart} to ${doc.periodEnd}`],
+    ['Billing', CYCLE_LABELS[doc.billingCycle] ?? titleCase(doc.billingCycle)],
+  ];
+  let y = 76;
+  for (const [label, value] of meta) {
+    if (!value) continue;
+    pdf.text(label, CONTENT_RIGHT - 150, y, { size: 9, color: MUTED });
+    pdf.text(value, CONTENT_RIGHT, y, { size: 9, align: 'right' });
+    y += 13;
+  }
+
+  // Bill to
+  let billY = Math.max(y, 74 + branding.address.length * 12) + 20;
+  pdf.text('BILL TO', MARGIN, billY, { size: 8, bold: true, color: MUTED });
+  billY += 14;
+  pdf.text(doc.customerName, MARGIN, billY, { size: 11, bold: true });
+  for (const line of doc.customerAddress) {
+    billY += 13;
+    pdf.text(line, MARGIN, billY, { size: 9 });
+  }
+
+  // Stamp
+  const stamp = doc.status === 'draft' ? 'DRAFT' : doc.status === 'void' ? 'VOID' : null;
+  if (stamp) {
+    pdf.text(stamp, PAGE_WIDTH / 2, billY, { size: 28, bold: true, align: 'center', color: [0.8, 0.15, 0.15] });
+  }
+
+  // Line table
+  const columns = { description: MARGIN + 6, quantity: 360, unit: 368, rate: 480, amount: CONTENT_RIGHT - 6 };
+  y = billY + 32;
+
+  const tableHeader = () => {
+    pdf.rect(MARGIN, y - 12, CONTENT_RIGHT - MARGIN, 18, ACCENT);
+    pdf.text('Description', columns.description, y, { size: 9, bold: true, color: [1, 1, 1] });
+    pdf.text('Qty', columns.quantity, y, { size: 9, bold: true, color: [1, 1, 1], align: 'right' });
+    pdf.text('Unit', columns.unit, y, { size: 9, bold: true, color: [1, 1, 1] });
+    pdf.text('Rate', columns.rate, y, { size: 9, bold: true, color: [1, 1, 1], align: 'right' });
+    pdf.text('Amount', columns.amount, y, { size: 9, bold: true, color: [1, 1, 1], align: 'right' });
+    y += 22;
+  };
+
+  const ensureSpace = (needed: number) => {
+    if (y + needed > PAGE_BOTTOM) {
+      pdf.addPage();
+      y = 60;
+      tableHeader();
+    }
+  };
+
+  tableHeader();
+  if (doc.sections.length === 0) {
+    pdf.text('No billable activity for this period.', columns.description, y, { size: 9, color: MUTED });
+    y += 18;
+  }
+
+  for (const section of doc.sections) {
+    ensureSpace(40);
+    pdf.rect(MARGIN, y - 11, CONTENT_RIGHT - MARGIN, 16, BAND);
+    pdf.text(section.name, columns.description, y, { size: 9, bold: true });
+    y += 18;
+
+    for (const line of section.lines) {
+      ensureSpace(16);
+      pdf.text(fitText(line.description, 290, 9), columns.description, y, { size: 9 });
+      pdf.text(formatQuantity(line.quantity), columns.quantity, y, { size: 9, align: 'right' });
+      pdf.text(fitText(line.unit ?? '', 60, 9), columns.unit, y, { size: 9, color: MUTED });
+      pdf.text(formatMoney(line.unitRate), columns.rate, y, { size: 9, align: 'right' });
+      pdf.text(formatMoney(line.lineTotal), columns.amount, y, { size: 9, align: 'right' });
+      y += 15;
+    }
+
+    pdf.line(columns.rate - 60, y - 9, CONTENT_RIGHT, y - 9, { color: MUTED });
+    pdf.text(`${section.name} subtotal`, columns.rate, y + 2, { size: 9, color: MUTED, align: 'right' });
+    pdf.text(formatMoney(section.subtotal), columns.amount, y + 2, { size: 9, bold: true, align: 'right' });
+    y += 24;
+  }
+
+  // Totals
+  ensureSpace(90);
+  const totals: Array<[string, number, boolean]> = [
+    ['Subtotal', doc.subtotal, false],
+    ['Tax', doc.tax, false],
+    ['Total Due', doc.total, true],
+  ];
+  pdf.line(columns.rate - 100, y - 8, CONTENT_RIGHT, y - 8, { width: 1, color: ACCENT });
+  for (const [label, value, strong] of totals) {
+    y += strong ? 6 : 0;
+    pdf.text(label, columns.rate, y, { size: strong ? 11 : 9, bold: strong, align: 'right' });
+    pdf.text(formatMoney(value), columns.amount, y, { size: strong ? 11 : 9, bold: strong, align: 'right' });
+    y += 16;
+  }
+
+  // Notes and remittance
+  if (doc.notes || branding.remitTo) {
+    ensureSpace(50);
+    y += 12;
+    if (doc.notes) {
+      pdf.text(fitText(doc.notes, CONTENT_RIGHT - MARGIN, 9), MARGIN, y, { size: 9 });
+      y += 14;
+    }
+    if (branding.remitTo) {
+      pdf.text(`Remit to: ${branding.remitTo}`, MARGIN, y, { size: 9, color: MUTED });
+    }
+  }
+
+  // Footers
+  for (let page = 0; page < pdf.pageCount; page++) {
+    pdf.goToPage(page);
+    pdf.text(`${doc.invoiceNumber}  ·  Page ${page + 1} of ${pdf.pageCount}`, PAGE_WIDTH / 2, 770, {
+      size: 8,
+      align: 'center',
+      color: MUTED,
+    });
+  }
+
+  return pdf.toBuffer();
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+export class InvoicePdfService {
+  constructor(
+    private prisma: PrismaClient,
+    private store: DocumentStore = getDocumentStore(),
+    private branding: InvoiceBranding = getInvoiceBranding()
+  ) {}
+
+  /**
+   * Render an invoice without storing it
+   */
+  async renderInvoice(invoiceId: string) {
+    const invoice = await this.prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      include: {
+        customer: { select: { id: true, name: true, address: true } },
+        lines: { orderBy: { lineOrder: 'asc' } },
+      },
+    });
+
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+
+    const categories = await this.prisma.billingCategory.findMany({
+      select: { code: true, name: true, sortOrder: true },
+    });
+
+    const pdf = renderInvoicePdf(buildInvoiceDocument(invoice, categories), this.branding);
+    return { invoice, pdf };
+  }
+
+  /**
+   * Render and store the invoice PDF, pointing Invoice.pdfUrl at it
+   * Drafts cannot be stored - use renderInvoice for previews
+   */
+  async storeInvoicePdf(invoiceId: string) {
+    const { invoice, pdf } = await this.renderInvoice(invoiceId);
+
+    if (invoice.status === 'draft') {
+      throw new Error(`Cannot store a PDF for draft invoice ${invoice.invoiceNumber}`);
+    }
+
+    const key = `invoices/${toKeySegment(invoice.customerId)}/${toKeySegment(invoice.invoiceNumber)}.pdf`;
+    await this.store.put(key, pdf);
+
+    const pdfUrl = documentUrl(key);
+    if (invoice.pdfUrl !== pdfUrl) {
+      await this.prisma.invoice.update({ where: { id: invoiceId }, data: { pdfUrl } });
+    }
+
+    return { invoiceNumber: invoice.invoiceNumber, pdfUrl, pdf };
+  }
+
+  /**
+   * The invoice PDF: a live preview for drafts, the stored copy otherwise
+   * (stored on first request for invoices issued before PDFs existed)
+   */
+  async getInvoicePdf(invoiceId: string) {
+    const invoice = await this.prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      select: { id: true, invoiceNumber: true, status: true, pdfUrl: true },
+    });
+
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+
+    if (invoice.status === 'draft') {
+      const { pdf } = await this.renderInvoice(invoiceId);
+      return { invoiceNumber: invoice.invoiceNumber, pdf };
+    }
+
+    const key = documentKeyFromUrl(invoice.pdfUrl);
+    const stored = key ? await this.store.get(key) : null;
+    if (stored) {
+      return { invoiceNumber: invoice.invoiceNumber, pdf: stored };
+    }
+
+    const { pdf } = await this.storeInvoicePdf(invoiceId);
+    return { invoiceNumber: invoice.invoiceNumber, pdf };
+  }
+}
@@ -0,0 +1,1052 @@
+/**
+ * @fileoverview Invoice Service - Invoice generation runs and invoice lifecycle
+ *
+ * Turns priced billing activities into invoices per customer and billing cycle,
+ * freezes the data used into a snapshot, and manages draft → issued → paid/void.
+ *
+ * @author Handled Platform Team
+ * @version 1.0.0
+ * @since 2026-10-18
+ */
+
+/**
+ * Invoice Service
+ * ===============
+ *
+ * PURPOSE:
+ * Generate invoices from priced BillingActivity rows for closed billing periods and
+ * manage their lifecycle. Invoices are first-class records: relational lines are the
+ * source of truth, dataSnapshot freezes the rate cards and activities used.
+ *
+ * SCOPE:
+ * ✅ Generation runs per customer, billing cycle and period (preview or write)
+ * ✅ Line aggregation by service and rate, ordered by billing category
+ * ✅ Tier breakdown lines for period volume tiers (all units / graduated)
+ * ✅ Surcharge lines from rate card surcharges (SurchargeEngine), one per surcharge type
+ * ✅ Monthly minimum top-up line (minimumMonthlyCharge)
+ * ✅ Sequential invoice numbers per customer, year and cycle
+ * ✅ Lifecycle: draft → issued (due date from contract payment terms), draft/issued → void
+ *
+ * OUT OF SCOPE:
+ * ❌ Pricing activities (RateEngine)
+ * ❌ Payment records and AR aging (PaymentService)
+ * ❌ PDF rendering (InvoicePdfService) and delivery
+ *
+ * BUSINESS RULES:
+ * 📅 Only closed periods are invoiced (period end before the run's asOf date)
+ * 💰 Only priced activities are invoiced; unpriced ones stay open and are reported
+ * 🔄 Drafts are regenerated on every run - re-running gives the same drafts
+ * 🔓 Activities on a draft stay open (invoiced = false) so repricing flows into the
+ *    next regeneration; issuing the invoice marks them invoiced
+ * 🚫 A draft whose activities were repriced, re-ingested or detached since it was
+ *    built cannot be issued - regenerate it first
+ * 🔐 Replacing a draft and issuing an invoice both lock the invoice row, so a
+ *    regeneration never deletes an invoice that was issued in the meantime
+ * 🔒 Issued invoices are immutable; late activities for an issued period go on a
+ *    supplemental invoice for the same period, corrections go on credit notes
+ * ➕ Surcharges are evaluated on the invoice's priced activities and count toward the
+ *    subtotal (and the monthly minimum)
+ * 📉 Monthly minimum is compared against non-draft, non-void invoices for the
+ *    month plus invoices from the current run; the shortfall becomes a top-up line
+ * 🧾 Invoice numbers: INV-YYYY-CUSTCODE-{I|W|M}NNN, never reused (voids keep theirs);
+ *    a number taken by a concurrent run is retried with the next free one
+ *
+ * @example
+ * ```typescript
+ * const service = new InvoiceService(prisma);
+ * const preview = await service.generateInvoices({ preview: true }, userId);
+ * const run = await service.generateInvoices({ customerId, cycles: ['monthly'], preview: false }, userId);
+ * await service.issueInvoice(run.invoices[0].invoiceId!, userId);
+ * ```
+ */
+
+import type { PrismaClient } from '@prisma/client-primary';
+import type { GenerateInvoicesInput, ListInvoicesQuery } from '../validation/invoiceSchema.js';
+import { isPrismaUniqueConstraintError } from '../types/errors.js';
+import { toActivityDate } from './billingActivityService.js';
+import { lockInvoice } from './paymentService.js';
+import { RateEngine, type TierMode, type TierSplit } from './rateEngine.js';
+import { calculateSurcharges, type AppliedSurcharge } from './surchargeEngine.js';
+
+type BillingCycle = 'immediate' | 'weekly' | 'monthly';
+
+const ALL_CYCLES: BillingCycle[] = ['immediate', 'weekly', 'monthly'];
+
+/** Attempts at a fresh invoice number when a concurrent run took the previous one */
+const INVOICE_NUMBER_ATTEMPTS = 5;
+
+/** Default payment terms applied when an invoice is issued */
+export const DEFAULT_PAYMENT_TERMS_DAYS = 30;
+
+/**
+ * Allowed invoice status transitions
+ * (payment-driven states - partial, paid, overdue - are derived from applied
+ * payments by PaymentService)
+ */
+export const INVOICE_STATUS_TRANSITIONS: Record<string, string[]> = {
+  draft: ['issued', 'void'],
+  issued: ['sent', 'paid', 'partial', 'overdue', 'void'],
+  sent: ['paid', 'partial', 'overdue', 'void'],
+  partial: ['paid', 'overdue'],
+  overdue: ['paid', 'partial'],
+  paid: [],
+  void: [],
+  credited: [],
+};
+
+export function canTransitionInvoice(from: string, to: string): boolean {
+  return INVOICE_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Activity is billed once its invoice has left draft - drafts are regenerated on
+ * every invoicing run, so their activities are still open
+ */
+export function isBilledActivity(activity: { invoice: { status: string } | null }): boolean {
+  return activity.invoice !== null && activity.invoice.status !== 'draft';
+}
+
+/**
+ * Activity as frozen in an invoice's dataSnapshot
+ */
+export interface SnapshotActivity {
+  id: string;
+  quantity: number;
+  rateApplied: number;
+  amount: number;
+}
+
+/**
+ * IDs of activities that no longer match the invoice snapshot: repriced or
+ * re-ingested since the draft was built, detached from it, or newly attached
+ */
+export function findDriftedActivities(
+  snapshot: SnapshotActivity[],
+  current: Array<{ id: string; quantity: unknown; rateApplied: unknown; amount: unknown }>
+): string[] {
+  const currentById = new Map(current.map(a => [a.id, a]));
+  const drifted = snapshot
+    .filter(frozen => {
+      const activity = currentById.get(frozen.id);
+      return !activity ||
+        Number(activity.quantity) !== frozen.quantity ||
+        Number(activity.rateApplied) !== frozen.rateApplied ||
+        Number(activity.amount) !== frozen.amount;
+    })
+    .map(frozen => frozen.id);
+
+  const frozenIds = new Set(snapshot.map(frozen => frozen.id));
+  return [...drifted, ...current.filter(a => !frozenIds.has(a.id)).map(a => a.id)];
+}
+
+export interface InvoiceActivity {
+  id: string;
+  type: string;
+  quantity: number;
+  unit: string | null;
+  rateApplied: number;
+  amount: number;
+  /** Daily share of a period rate (storage) - amount is not quantity × rate */
+  prorated?: boolean;
+  /** Carrier cost plus markup (shipping) - amount is not quantity × rate */
+  costPlus?: boolean;
+  /** Period volume tier pricing (metadata.pricing) - quantity split across tiers */
+  tierMode?: Exclude<TierMode, 'per_activity'>;
+  tierSplit?: TierSplit[];
+  periodVolume?: number;
+}
+
+export interface ServiceInfo {
+  name: string;
+  categoryCode: string;
+  categorySortOrder: number;
+  sortOrder: number;
+}
+
+export interface DraftInvoiceLine {
+  activityId: string | null;
+  description: string;
+  category: string;
+  quantity: number;
+  unit: string | null;
+  unitRate: number;
+  lineTotal: number;
+  lineOrder: number;
+  serviceType?: string;
+  /** Surcharge type the line was produced by (category 'surcharge') */
+  surchargeType?: string;
+  activityIds: string[];
+}
+
+/**
+ * Days until due for a contract paymentTerms string
+ * 'Net 30' → 30, 'Net15' → 15, 'Prepaid' / 'Due on receipt' → 0, unknown → null
+ */
+export function parsePaymentTermsDays(terms: string | null | undefined): number | null {
+  if (!terms) return null;
+
+  const normalized = terms.trim().toLowerCase();
+  const net = normalized.match(/^net\s*(\d+)$/);
+  if (net) return parseInt(net[1], 10);
+  if (normalized === 'prepaid' || normalized === 'due on receipt') return 0;
+
+  return null;
+}
+
+/**
+ * Due date (UTC date) a number of days after issue
+ */
+export function calculateDueDate(issuedAt: Date, days: number): Date {
+  const issued = toActivityDate(issuedAt);
+  return new Date(Date.UTC(issued.getUTCFullYear(), issued.getUTCMonth(), issued.getUTCDate() + days));
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Invoice line label for a tier portion, e.g. "graduated tier 1000+"
+ */
+export function describeTierPortion(
+  tierMode: Exclude<TierMode, 'per_activity'>,
+  tier: { minVolume: number; maxVolume: number | null },
+  periodVolume?: number
+): string {
+  const range = tier.maxVolume === null ? `${tier.minVolume}+` : `${tier.minVolume}-${tier.maxVolume}`;
+  return tierMode === 'all_units'
+    ? `all units at tier ${range}${periodVolume !== undefined ? ` (period volume ${periodVolume})` : ''}`
+    : `graduated tier ${range}`;
+}
+
+/**
+ * Last day of the billing period that starts on periodStart
+ */
+export function getPeriodEnd(periodStart: Date, cycle: string): Date {
+  const start = toActivityDate(periodStart);
+
+  if (cycle === 'weekly') {
+    return new Date(start.getTime() + 6 * 24 * 60 * 60 * 1000);
+  }
+  if (cycle === 'monthly') {
+    return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0));
+  }
+  return start;
+}
+
+/**
+ * Invoice number in the documented INV-YYYY-CUSTCODE-{I|W|M}NNN format
+ */
+export function formatInvoiceNumber(year: number, customerSlug: string, cycle: string, sequence: number): string {
+  return `${getInvoiceNumberPrefix(year, customerSlug, cycle)}${String(sequence).padStart(3, '0')}`;
+}
+
+export function getInvoiceNumberPrefix(year: number, customerSlug: string, cycle: string): string {
+  const code = customerSlug.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  const letter = cycle === 'weekly' ? 'W' : cycle === 'monthly' ? 'M' : cycle === 'ad-hoc' ? 'A' : 'I';
+  return `INV-${year}-${code}-${letter}`;
+}
+
+/**
+ * Aggregate priced activities into invoice lines
+ * - One line per service + rate + unit; single-activity lines keep their activityId
+ * - When quantity × rate is not exact to the cent, the line is billed as 1 × total
+ *   (invoice_lines requires line_total = quantity * unit_rate)
+ * - Prorated activities (daily storage against a monthly rate) total their amounts
+ *   and are always billed as 1 × total
+ * - Period tier pricing is shown as one line per tier (graduated) or a line naming
+ *   the tier all units reached (all units); an activity spanning tiers is split
+ * - Ordered by billing category sortOrder, then service sortOrder
+ */
+export function buildInvoiceLines(
+  activities: InvoiceActivity[],
+  services: Map<string, ServiceInfo>
+): DraftInvoiceLine[] {
+  type LinePortion = InvoiceActivity & { tier?: string; tierMin?: number };
+  const groups = new Map<string, LinePortion[]>();
+
+  // Tier-priced activities contribute one portion per tier they span
+  const portions = activities.flatMap((activity): LinePortion[] =>
+    activity.tierMode && activity.tierSplit?.length && !activity.prorated
+      ? activity.tierSplit.map(split => ({
+        ...activity,
+        quantity: split.quantity,
+        rateApplied: split.rate,
+        amount: roundMoney(split.quantity * split.rate),
+        tier: describeTierPortion(activity.tierMode!, split, activity.periodVolume),
+        tierMin: split.minVolume,
+      }))
+      : [activity]
+  );
+
+  for (const activity of portions) {
+    // Cost-plus shipments each have their own amount, so they share one line per service
+    const rateKey = activity.costPlus ? 'cost-plus' : activity.rateApplied;
+    const key = `${activity.type}|${rateKey}|${activity.unit ?? ''}|${activity.prorated ? 'prorated' : ''}|${activity.tier ?? ''}`;
+    const group = groups.get(key) ?? [];
+    group.push(activity);
+    groups.set(key, group);
+  }
+
+  const lines = [...groups.values()].map(group => {
+    const { type, rateApplied, unit, prorated, costPlus, tier, tierMin } = group[0];
+    const service = services.get(type);
+    const quantity = roundQuantity(group.reduce((sum, a) => sum + a.quantity, 0));
+    const summed = prorated || costPlus;
+    const exactTotal = summed ? group.reduce((sum, a) => sum + a.amount, 0) : quantity * rateApplied;
+    const lineTotal = roundMoney(exactTotal);
+    const name = tier ? `${service?.name ?? type} - ${tier}` : service?.name ?? type;
+    const category = service?.categoryCode ?? type.split('_')[0].toLowerCase();
+    const isExact = !summed && Math.abs(exactTotal - lineTotal) < 1e-9;
+    const detail = costPlus
+      ? `${group.length} shipment${group.length === 1 ? '' : 's'} at carrier cost + markup`
+      : prorated
+        ? `${quantity}${unit ? ` ${unit}` : ''} prorated daily @ ${rateApplied}`
+        : `${quantity}${unit ? ` ${unit}` : ''} @ ${rateApplied}`;
+
+    return {
+      sortKey: [service?.categorySortOrder ?? 999, service?.sortOrder ?? 999, type, tierMin ?? 0, rateApplied] as const,
+      line: {
+        activityId: group.length === 1 ? group[0].id : null,
+        description: isExact ? name : `${name} (${detail})`,
+        category,
+        quantity: isExact ? quantity : 1,
+        unit,
+        unitRate: isExact ? rateApplied : lineTotal,
+        lineTotal,
+        lineOrder: 0,
+        serviceType: type,
+        activityIds: group.map(a => a.id),
+      },
+    };
+  });
+
+  lines.sort((a, b) => {
+    for (let i = 0; i < a.sortKey.length; i++) {
+      if (a.sortKey[i] < b.sortKey[i]) return -1;
+      if (a.sortKey[i] > b.sortKey[i]) return 1;
+    }
+    return 0;
+  });
+
+  return lines.map((entry, index) => ({ ...entry.line, lineOrder: index + 1 }));
+}
+
+/**
+ * One line per applied surcharge, attributed to the surcharge type
+ * - Fixed per-unit surcharges bill units × amount when exact to the cent
+ * - Percentage and per-invoice surcharges bill 1 × total with the basis in the description
+ */
+export function buildSurchargeLines(applied: AppliedSurcharge[], firstLineOrder: number): DraftInvoiceLine[] {
+  return applied.map((surcharge, index) => {
+    const perUnit = surcharge.percentage === undefined && surcharge.basis === 'activity';
+    const isExact = perUnit && Math.abs(surcharge.base * (surcharge.fixedAmount ?? 0) - surcharge.amount) < 1e-9;
+    const detail = surcharge.percentage !== undefined
+      ? `${surcharge.percentage}% of ${surcharge.base.toFixed(2)}`
+      : perUnit
+        ? `${surcharge.base} @ ${surcharge.fixedAmount}`
+        : 'per invoice';
+
+    return {
+      activityId: null,
+      description: isExact ? surcharge.description : `${surcharge.description} (${detail})`,
+      category: 'surcharge',
+      quantity: isExact ? surcharge.base : 1,
+      unit: null,
+      unitRate: isExact ? surcharge.fixedAmount! : surcharge.amount,
+      lineTotal: surcharge.amount,
+      lineOrder: firstLineOrder + index,
+      surchargeType: surcharge.type,
+      activityIds: surcharge.activityIds,
+    };
+  });
+}
+
+/**
+ * Top-up line bringing the month up to the minimum charge, or null when met
+ */
+export function buildMinimumLine(
+  minimum: number | null | undefined,
+  alreadyBilled: number,
+  subtotal: number,
+  lineOrder: number
+): DraftInvoiceLine | null {
+  if (!minimum || minimum <= 0) return null;
+
+  const topUp = roundMoney(minimum - alreadyBilled - subtotal);
+  if (topUp <= 0) return null;
+
+  return {
+    activityId: null,
+    description: `Monthly minimum top-up (minimum ${minimum.toFixed(2)})`,
+    category: 'minimum',
+    quantity: 1,
+    unit: null,
+    unitRate: topUp,
+    lineTotal: topUp,
+    lineOrder,
+    activityIds: [],
+  };
+}
+
+export interface GeneratedInvoice {
+  invoiceId: string | null;
+  invoiceNumber: string;
+  customerId: string;
+  customerName: string;
+  billingCycle: string;
+  periodStart: string;
+  periodEnd: string;
+  subtotal: number;
+  total: number;
+  activityCount: number;
+  minimumTopUp: number;
+  replacedDraftId: string | null;
+  lines: DraftInvoiceLine[];
+  warnings: string[];
+}
+
+export interface GenerationResult {
+  asOf: string;
+  preview: boolean;
+  invoices: GeneratedInvoice[];
+  skipped: Array<{ customerId: string; billingCycle: string; periodStart: string; reason: string }>;
+  totals: { invoiceCount: number; amount: number };
+}
+
+interface PeriodGroup {
+  customerId: string;
+  billingCycle: BillingCycle;
+  periodStart: Date;
+  periodEnd: Date;
+  activities: any[];
+  unpricedCount: number;
+}
+
+export class InvoiceService {
+  private rateEngine: RateEngine;
+
+  constructor(private prisma: PrismaClient) {
+    this.rateEngine = new RateEngine(prisma);
+  }
+
+  /**
+   * Run invoice generation for closed periods
+   * Preview mode computes the same result without writing anything
+   */
+  async generateInvoices(input: GenerateInvoicesInput, createdBy?: string): Promise<GenerationResult> {
+    const asOf = toActivityDate(input.asOf ?? new Date());
+    const cycles = input.cycles ?? ALL_CYCLES;
+
+    const result: GenerationResult = {
+      asOf: formatDate(asOf),
+      preview: input.preview,
+      invoices: [],
+      skipped: [],
+      totals: { invoiceCount: 0, amount: 0 },
+    };
+
+    const customerScope = {
+      ...(input.customerId && { customerId: input.customerId }),
+      customer: { deleted: false },
+    };
+
+    // Open activities plus activities sitting on drafts (drafts get regenerated)
+    const activities = await this.prisma.billingActivity.findMany({
+      where: {
+        ...customerScope,
+        billingCycle: { in: cycles },
+        billingPeriodStart: { not: null },
+        OR: [
+          { invoiced: false },
+          { invoice: { status: 'draft' } },
+        ],
+      },
+      orderBy: { activityDate: 'asc' },
+    });
+
+    const groups = new Map<string, PeriodGroup>();
+    const groupFor = (customerId: string, billingCycle: BillingCycle, periodStart: Date) => {
+      const key = `${customerId}|${billingCycle}|${formatDate(periodStart)}`;
+      let group = groups.get(key);
+      if (!group) {
+        group = {
+          customerId,
+          billingCycle,
+          periodStart,
+          periodEnd: getPeriodEnd(periodStart, billingCycle),
+          activities: [],
+          unpricedCount: 0,
+        };
+        groups.set(key, group);
+      }
+      return group;
+    };
+
+    for (const activity of activities) {
+      const periodStart = toActivityDate(activity.billingPeriodStart as Date);
+      const cycle = activity.billingCycle as BillingCycle;
+      if (getPeriodEnd(periodStart, cycle) >= asOf) continue; // Period still open
+
+      const group = groupFor(activity.customerId, cycle, periodStart);
+      if (activity.amount === null || activity.rateApplied === null) {
+        group.unpricedCount++;
+      } else {
+        group.activities.push(activity);
+      }
+    }
+
+    // Customers with a monthly minimum owe it even in a month without activity
+    if (cycles.includes('monthly')) {
+      const lastMonthStart = new Date(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth() - 1, 1));
+      const lastMonthEnd = getPeriodEnd(lastMonthStart, 'monthly');
+      const minimumCards = await this.prisma.rateCard.findMany({
+        where: {
+          ...customerScope,
+          rateCardType: 'standard',
+          archivedAt: null,
+          effectiveDate: { lte: lastMonthEnd },
+          OR: [{ expiresDate: null }, { expiresDate: { gt: lastMonthEnd } }],
+        },
+        select: { customerId: true, minimumMonthlyCharge: true, rates: true },
+      });
+
+      for (const card of minimumCards) {
+        if (card.customerId && this.getMinimum(card) > 0) {
+          groupFor(card.customerId, 'monthly', lastMonthStart);
+        }
+      }
+    }
+
+    if (groups.size === 0) {
+      return result;
+    }
+
+    const services = await this.loadServiceInfo();
+    const customerIds = [...new Set([...groups.values()].map(g => g.customerId))];
+    const customers = await this.prisma.customer.findMany({
+      where: { id: { in: customerIds } },
+      select: { id: true, name: true, slug: true },
+    });
+    const customersById = new Map<string, { id: string; name: string; slug: string }>(customers.map(c => [c.id, c]));
+
+    // Invoices generated in this run, per customer-month, for minimum evaluation
+    const runTotals = new Map<string, number>();
+    const sequences = new Map<string, number>();
+
+    // Monthly last so weekly/immediate invoices of the same run count toward minimums
+    const ordered = [...groups.values()].sort((a, b) =>
+      ALL_CYCLES.indexOf(a.billingCycle) - ALL_CYCLES.indexOf(b.billingCycle) ||
+      a.customerId.localeCompare(b.customerId) ||
+      a.periodStart.getTime() - b.periodStart.getTime()
+    );
+
+    for (const group of ordered) {
+      const customer = customersById.get(group.customerId);
+      if (!customer) continue;
+
+      const generated = await this.buildInvoice(group, customer, services, runTotals, sequences, input.preview, createdBy);
+
+      if ('reason' in generated) {
+        result.skipped.push({
+          customerId: group.customerId,
+          billingCycle: group.billingCycle,
+          periodStart: formatDate(group.periodStart),
+          reason: generated.reason,
+        });
+        continue;
+      }
+
+      const monthKey = `${group.customerId}|${formatDate(group.periodStart).slice(0, 7)}`;
+      runTotals.set(monthKey, (runTotals.get(monthKey) ?? 0) + generated.subtotal);
+
+      result.invoices.push(generated);
+      result.totals.invoiceCount++;
+      result.totals.amount = roundMoney(result.totals.amount + generated.total);
+    }
+
+    return result;
+  }
+
+  /**
+   * Build (and unless previewing, persist) one invoice for a customer/cycle/period
+   */
+  private async buildInvoice(
+    group: PeriodGroup,
+    customer: { id: string; name: string; slug: string },
+    services: Map<string, ServiceInfo>,
+    runTotals: Map<string, number>,
+    sequences: Map<string, number>,
+    preview: boolean,
+    createdBy?: string
+  ): Promise<GeneratedInvoice | { reason: string }> {
+    const periodStart = formatDate(group.periodStart);
+    const periodEnd = formatDate(group.periodEnd);
+    const warnings: string[] = [];
+
+    if (group.unpricedCount > 0) {
+      warnings.push(`${group.unpricedCount} unpriced activit${group.unpricedCount === 1 ? 'y' : 'ies'} left open for this period`);
+    }
+
+    const existing = await this.prisma.invoice.findMany({
+      where: {
+        customerId: group.customerId,
+        billingCycle: group.billingCycle,
+        periodStart: group.periodStart,
+        periodEnd: group.periodEnd,
+        status: { not: 'void' },
+      },
+      select: { id: true, status: true, invoiceNumber: true },
+    });
+    const draft = existing.find(inv => inv.status === 'draft');
+    const hasFinalInvoice = existing.some(inv => inv.status !== 'draft');
+
+    const activities: InvoiceActivity[] = group.activities.map(a => ({
+      id: a.id,
+      type: a.type,
+      quantity: Number(a.quantity),
+      unit: a.unit,
+      rateApplied: Number(a.rateApplied),
+      amount: Number(a.amount),
+      prorated: !!(a.metadata as any)?.prorate,
+      // A manual override replaces the engine's amount with quantity × rate
+      costPlus: !a.isManualOverride && (a.metadata as any)?.pricing?.mechanism === 'carrierCost',
+      // A manual override replaces the engine's amount, so its tier split no longer applies
+      ...(!a.isManualOverride && (a.metadata as any)?.pricing?.tierSplit && {
+        tierMode: (a.metadata as any).pricing.tierMode,
+        tierSplit: (a.metadata as any).pricing.tierSplit,
+        periodVolume: (a.metadata as any).pricing.periodVolume,
+      }),
+    }));
+
+    const lines = buildInvoiceLines(activities, services);
+
+    const surcharges = activities.length > 0
+      ? calculateSurcharges(
+          group.activities.map(a => ({
+            id: a.id,
+            activityDate: a.activityDate,
+            type: a.type,
+            quantity: Number(a.quantity),
+            amount: Number(a.amount),
+            metadata: a.metadata,
+          })),
+          await this.rateEngine.getRateSources(group.customerId)
+        )
+      : [];
+    lines.push(...buildSurchargeLines(surcharges, lines.length + 1));
+
+    let subtotal = roundMoney(lines.reduce((sum, line) => sum + line.lineTotal, 0));
+    let minimumTopUp = 0;
+    let minimumCard: any = null;
+
+    if (group.billingCycle === 'monthly' && !hasFinalInvoice) {
+      minimumCard = await this.prisma.rateCard.findFirst({
+        where: {
+          customerId: group.customerId,
+          rateCardType: 'standard',
+          archivedAt: null,
+          effectiveDate: { lte: group.periodEnd },
+          OR: [{ expiresDate: null }, { expiresDate: { gt: group.periodEnd } }],
+        },
+        orderBy: { effectiveDate: 'desc' },
+      });
+
+      const minimum = minimumCard ? this.getMinimum(minimumCard) : 0;
+      if (minimum > 0) {
+        const alreadyBilled = await this.getBilledForMonth(group.customerId, group.periodStart) +
+          (runTotals.get(`${group.customerId}|${periodStart.slice(0, 7)}`) ?? 0);
+        const minimumLine = buildMinimumLine(minimum, alreadyBilled, subtotal, lines.length + 1);
+        if (minimumLine) {
+          lines.push(minimumLine);
+          minimumTopUp = minimumLine.lineTotal;
+          subtotal = roundMoney(subtotal + minimumTopUp);
+        }
+      }
+    }
+
+    if (lines.length === 0) {
+      return { reason: hasFinalInvoice ? 'Period already invoiced' : 'Nothing to invoice' };
+    }
+
+    const year = group.periodStart.getUTCFullYear();
+    const prefix = getInvoiceNumberPrefix(year, customer.slug, group.billingCycle);
+    const nextInvoiceNumber = async (reload: boolean) => {
+      const sequence = (reload ? undefined : sequences.get(prefix)) ?? await this.getLastSequence(prefix);
+      sequences.set(prefix, sequence + 1);
+      return formatInvoiceNumber(year, customer.slug, group.billingCycle, sequence + 1);
+    };
+
+    // A regenerated draft keeps its number
+    let invoiceNumber = draft?.invoiceNumber ?? await nextInvoiceNumber(false);
+
+    if (hasFinalInvoice) {
+      warnings.push(`Supplemental invoice: ${existing.filter(i => i.status !== 'draft').map(i => i.invoiceNumber).join(', ')} already issued for this period`);
+    }
+
+    const generated: GeneratedInvoice = {
+      invoiceId: null,
+      invoiceNumber,
+      customerId: customer.id,
+      customerName: customer.name,
+      billingCycle: group.billingCycle,
+      periodStart,
+      periodEnd,
+      subtotal,
+      total: subtotal,
+      activityCount: activities.length,
+      minimumTopUp,
+      replacedDraftId: draft?.id ?? null,
+      lines,
+      warnings,
+    };
+
+    if (preview) {
+      return generated;
+    }
+
+    // Rate cards used, frozen with the invoice
+    const rateCardIds = [...new Set([
+      ...group.activities.map(a => a.rateCardId),
+      ...surcharges.map(surcharge => surcharge.rateCardId),
+    ].filter(Boolean))] as string[];
+    const rateCards = rateCardIds.length > 0
+      ? await this.prisma.rateCard.findMany({
+          where: { id: { in: rateCardIds } },
+          select: {
+            id: true, name: true, version: true, rateCardType: true, effectiveDate: true,
+            expiresDate: true, rates: true, billingCycles: true, minimumMonthlyCharge: true,
+          },
+        })
+      : [];
+
+    const dataSnapshot = {
+      generatedAt: new Date().toISOString(),
+      generatedBy: createdBy ?? null,
+      customer,
+      billingCycle: group.billingCycle,
+      period: { start: periodStart, end: periodEnd },
+      rateCards,
+      minimum: minimumCard
+        ? { rateCardId: minimumCard.id, minimum: this.getMinimum(minimumCard), topUp: minimumTopUp }
+        : null,
+      surcharges,
+      activities: group.activities.map(a => ({
+        id: a.id,
+        activityDate: formatDate(a.activityDate),
+        type: a.type,
+        quantity: Number(a.quantity),
+        unit: a.unit,
+        referenceId: a.referenceId,
+        rateApplied: Number(a.rateApplied),
+        amount: Number(a.amount),
+        rateCardId: a.rateCardId,
+      })),
+      lines,
+      totals: { subtotal, tax: 0, total: subtotal },
+    };
+
+    const createInvoice = () => this.prisma.$transaction(async (tx) => {
+      if (draft) {
+        // Locked so a concurrent issue either finishes first or waits for the new draft
+        await lockInvoice(tx, draft.id);
+        await tx.billingActivity.updateMany({
+          where: { invoiceId: draft.id },
+          data: { invoiced: false, invoiceId: null },
+        });
+        const deleted = await tx.invoice.deleteMany({ where: { id: draft.id, status: 'draft' } });
+        if (deleted.count === 0) {
+          throw new Error(`Invoice ${draft.invoiceNumber} is no longer a draft - re-run generation for this period`);
+        }
+      }
+
+      const created = await tx.invoice.create({
+        data: {
+          customerId: customer.id,
+          invoiceNumber,
+          billingCycle: group.billingCycle,
+          periodStart: group.periodStart,
+          periodEnd: group.periodEnd,
+          status: 'draft',
+          subtotal,
+          tax: 0,
+          total: subtotal,
+          balanceDue: subtotal,
+          dataSnapshot: dataSnapshot as any,
+          createdBy,
+          lines: {
+            create: lines.map(line => ({
+              activityId: line.activityId,
+              description: line.description,
+              category: line.category,
+              quantity: line.quantity,
+              unit: line.unit,
+              unitRate: line.unitRate,
+              lineTotal: line.lineTotal,
+              lineOrder: line.lineOrder,
+            })),
+          },
+        } as any,
+      });
+
+      // Attached but still open until the invoice is issued
+      if (activities.length > 0) {
+        await tx.billingActivity.updateMany({
+          where: { id: { in: activities.map(a => a.id) } },
+          data: { invoiced: false, invoiceId: created.id },
+        });
+      }
+
+      return created;
+    }, { timeout: 60000 });
+
+    const createWithFreeNumber = async (attempt: number): ReturnType<typeof createInvoice> => {
+      try {
+        return await createInvoice();
+      } catch (error) {
+        // Another run took this number between reading the sequence and creating the invoice
+        if (draft || !isPrismaUniqueConstraintError(error) || attempt >= INVOICE_NUMBER_ATTEMPTS) {
+          throw error;
+        }
+        invoiceNumber = await nextInvoiceNumber(true);
+        return createWithFreeNumber(attempt + 1);
+      }
+    };
+
+    const invoice = await createWithFreeNumber(1);
+
+    generated.invoiceId = invoice.id;
+    generated.invoiceNumber = invoiceNumber;
+    return generated;
+  }
+
+  private getMinimum(card: { minimumMonthlyCharge: unknown; rates: unknown }): number {
+    const fromRates = (card.rates as any)?.minimums?.monthlyMinimum;
+    return Number(card.minimumMonthlyCharge ?? fromRates ?? 0);
+  }
+
+  /**
+   * Subtotal of finalized (non-draft, non-void) invoices whose period starts in the month
+   */
+  private async getBilledForMonth(customerId: string, monthStart: Date): Promise<number> {
+    const aggregate = await this.prisma.invoice.aggregate({
+      where: {
+        customerId,
+        status: { notIn: ['draft', 'void'] },
+        periodStart: {
+          gte: monthStart,
+          lte: getPeriodEnd(monthStart, 'monthly'),
+        },
+      },
+      _sum: { subtotal: true },
+    });
+
+    return Number(aggregate._sum.subtotal ?? 0);
+  }
+
+  private async getLastSequence(prefix: string): Promise<number> {
+    const invoices = await this.prisma.invoice.findMany({
+      where: { invoiceNumber: { startsWith: prefix } },
+      select: { invoiceNumber: true },
+    });
+
+    return invoices.reduce((max, inv) => {
+      const sequence = parseInt(inv.invoiceNumber.slice(prefix.length), 10);
+      return Number.isNaN(sequence) ? max : Math.max(max, sequence);
+    }, 0);
+  }
+
+  private async loadServiceInfo(): Promise<Map<string, ServiceInfo>> {
+    const billingServices = await this.prisma.billingService.findMany({
+      include: { category: true },
+    });
+
+    return new Map(billingServices.map(s => [s.code, {
+      name: s.name,
+      categoryCode: s.category.code,
+      categorySortOrder: s.category.sortOrder,
+      sortOrder: s.sortOrder,
+    }]));
+  }
+
+  /**
+   * List invoices with optional filters (period filters match on periodStart)
+   */
+  async listInvoices(query: ListInvoicesQuery) {
+    const where: any = {
+      ...(query.customerId && { customerId: query.customerId }),
+      ...(query.status && { status: query.status }),
+      ...(query.billingCycle && { billingCycle: query.billingCycle }),
+    };
+
+    if (query.from || query.to) {
+      where.periodStart = {
+        ...(query.from && { gte: query.from }),
+        ...(query.to && { lte: query.to }),
+      };
+    }
+
+    const [invoices, total] = await Promise.all([
+      this.prisma.invoice.findMany({
+        where,
+        include: {
+          customer: { select: { id: true, name: true, slug: true } },
+          _count: { select: { lines: true, billingActivities: true } },
+        },
+        orderBy: [{ periodStart: 'desc' }, { invoiceNumber: 'desc' }],
+        take: query.limit,
+        skip: query.offset,
+      }),
+      this.prisma.invoice.count({ where }),
+    ]);
+
+    return { invoices, total, limit: query.limit, offset: query.offset };
+  }
+
+  /**
+   * Get invoice by ID with lines, customer and payments
+   */
+  async getInvoiceById(invoiceId: string) {
+    return this.prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      include: {
+        customer: { select: { id: true, name: true, slug: true } },
+        lines: { orderBy: { lineOrder: 'asc' } },
+        payments: { orderBy: { paymentDate: 'asc' } },
+        createdByUser: { select: { id: true, name: true, email: true } },
+        issuedByUser: { select: { id: true, name: true, email: true } },
+      },
+    });
+  }
+
+  private async getInvoiceForTransition(invoiceId: string, to: string) {
+    const invoice = await this.prisma.invoice.findUnique({ where: { id: invoiceId } });
+
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+    if (!canTransitionInvoice(invoice.status, to)) {
+      throw new Error(`Cannot change invoice ${invoice.invoiceNumber} from ${invoice.status} to ${to}`);
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Issue a draft invoice (locks it and marks its activities invoiced)
+   * The due date follows the paymentTerms of the customer's active contract,
+   * falling back to DEFAULT_PAYMENT_TERMS_DAYS. Rejected when the activities no
+   * longer match the draft's snapshot.
+   */
+  async issueInvoice(invoiceId: string, issuedBy?: string) {
+    const invoice = await this.getInvoiceForTransition(invoiceId, 'issued');
+
+    const issuedAt = new Date();
+    const contract = await this.prisma.contract.findFirst({
+      where: {
+        customerId: invoice.customerId,
+        status: 'active',
+        archivedAt: null,
+        startDate: { lte: issuedAt },
+        OR: [{ endDate: null }, { endDate: { gte: toActivityDate(issuedAt) } }],
+      },
+      orderBy: { startDate: 'desc' },
+      select: { id: true, paymentTerms: true },
+    });
+
+    const termsDays = parsePaymentTermsDays(contract?.paymentTerms) ?? DEFAULT_PAYMENT_TERMS_DAYS;
+    const dueDate = calculateDueDate(issuedAt, termsDays);
+
+    return this.prisma.$transaction(async (tx) => {
+      await lockInvoice(tx, invoiceId);
+
+      const current = await tx.invoice.findUnique({ where: { id: invoiceId }, select: { status: true } });
+      if (!current || !canTransitionInvoice(current.status, 'issued')) {
+        throw new Error(`Cannot change invoice ${invoice.invoiceNumber} from ${current?.status ?? 'deleted'} to issued`);
+      }
+
+      const attached = await tx.billingActivity.findMany({
+        where: { invoiceId },
+        select: { id: true, quantity: true, rateApplied: true, amount: true },
+      });
+      const drifted = findDriftedActivities((invoice.dataSnapshot as any)?.activities ?? [], attached);
+      if (drifted.length > 0) {
+        throw new Error(
+          `Cannot issue invoice ${invoice.invoiceNumber}: ${drifted.length} activit${drifted.length === 1 ? 'y has' : 'ies have'} ` +
+          'changed since the draft was generated - regenerate it first'
+        );
+      }
+
+      await tx.billingActivity.updateMany({
+        where: { invoiceId },
+        data: { invoiced: true },
+      });
+
+      return tx.invoice.update({
+        where: { id: invoiceId },
+        data: {
+          status: 'issued',
+          issuedAt,
+          issuedBy,
+          dueDate,
+          dataSnapshot: {
+            ...((invoice.dataSnapshot as Record<string, unknown>) ?? {}),
+            paymentTerms: {
+              contractId: contract?.id ?? null,
+              terms: contract?.paymentTerms ?? null,
+              days: termsDays,
+            },
+          } as any,
+        },
+      });
+    });
+  }
+
+  /**
+   * Void an invoice - releases its activities so they can be invoiced again
+   * Invoices with applied payments or credit notes cannot be voided
+   */
+  async voidInvoice(invoiceId: string, reason: string, voidedBy?: string) {
+    const invoice = await this.getInvoiceForTransition(invoiceId, 'void');
+
+    const appliedPayments = await this.prisma.payment.count({
+      where: { invoiceId, status: 'applied' },
+    });
+    if (appliedPayments > 0) {
+      throw new Error(`Cannot void invoice ${invoice.invoiceNumber}: it has applied payments`);
+    }
+
+    const creditNotes = await this.prisma.creditNote.count({
+      where: { invoiceId, status: { in: ['pending', 'approved', 'applied'] } },
+    });
+    if (creditNotes > 0) {
+      throw new Error(`Cannot void invoice ${invoice.invoiceNumber}: it has credit notes`);
+    }
+
+    const note = `Voided ${new Date().toISOString()}${voidedBy ? ` by ${voidedBy}` : ''}: ${reason}`;
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.billingActivity.updateMany({
+        where: { invoiceId },
+        data: { invoiced: false, invoiceId: null },
+      });
+
+      return tx.invoice.update({
+        where: { id: invoiceId },
+        data: {
+          status: 'void',
+          balanceDue: 0,
+          internalNotes: invoice.internalNotes ? `${invoice.internalNotes}\n${note}` : note,
+        },
+      });
+    });
+  }
+}
@@ -0,0 +1,749 @@
+/**
+ * @fileoverview Notification Service - Event notifications with preferences and a delivery log
+ * @author Handled Platform Team
+ * @version 1.0.0
+ * @since 2026-10-18
+ *
+ * PURPOSE:
+ * Turn billing, contract and import events into templated emails for the customer's
+ * notification address and for staff who asked for them, record every delivery and
+ * retry the ones that fail.
+ *
+ * SCOPE:
+ * ✅ Event types: invoice_issued, payment_received, contract_expiring, import_failed
+ * ✅ Message templates with {{placeholder}} variables
+ * ✅ Preference evaluation:
+ *    - customer: CustomerSettings.notificationEmail + notificationPreferences (opt-out)
+ *    - staff: User.notificationPreferences (opt-in)
+ * ✅ Delivery log (one row per recipient) with retry + exponential backoff
+ * ✅ Staff preference read / update and a transport test message
+ *
+ * OUT OF SCOPE:
+ * ❌ Transports (notificationTransport.ts - outbox or SMTP)
+ * ❌ Portal / in-app notifications (renewal alerts cover the dashboard)
+ *
+ * BUSINESS RULES:
+ * 📬 Customer-facing events go to settings.notificationEmail unless the customer muted
+ *    the event ({ "invoice_issued": false }); import failures are staff-only
+ * 🙋 Staff only receive events they subscribed to ({ "contract_expiring": true }); the
+ *    user who ran a failed import is told unless they unsubscribed
+ * 🔁 Each event / subject / recipient is delivered once (dedupeKey) - re-publishing is safe
+ * ⏳ Failed sends retry after 5m, 10m, 20m, 40m; after MAX_DELIVERY_ATTEMPTS the
+ *    delivery is marked failed (it can still be retried by hand)
+ * 🛡️ Publishing never throws: a notification problem must not fail the action that raised it
+ *
+ * @example
+ * const notifications = new NotificationService(prisma);
+ * void notifications.notifyInvoiceIssued(invoiceId, userId); // fire and forget from a route
+ * await notifications.processDue(); // retry job
+ */
+
+import type { PrismaClient } from '@prisma/client-primary';
+import { getNotificationTransport, type NotificationTransport } from './notificationTransport.js';
+import { getInvoiceBranding } from './invoicePdfService.js';
+import type { AlertCandidate } from './renewalAlertService.js';
+import { error as logError } from '../lib/logger.js';
+import {
+  NOTIFICATION_EVENT_TYPES,
+  type ListNotificationsInput,
+  type NotificationEventType,
+  type NotificationPreferences,
+} from '../validation/notificationSchema.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type NotificationAudience = 'customer' | 'staff';
+export type NotificationSubjectType = 'invoice' | 'payment' | 'contract' | 'integration_run';
+
+export interface NotificationEvent {
+  eventType: NotificationEventType;
+  /** Null for events that do not belong to a customer (imports) */
+  customerId: string | null;
+  subjectType: NotificationSubjectType;
+  subjectId: string;
+  /** Distinguishes repeat events on one subject, e.g. the 60- and 30-day expiry windows */
+  variant?: string;
+  /** Staff user whose action raised the event */
+  actorUserId?: string | null;
+  variables: Record<string, string>;
+}
+
+export interface NotificationRecipient {
+  audience: NotificationAudience;
+  email: string;
+  userId: string | null;
+}
+
+export interface StaffRecipientCandidate {
+  id: string;
+  email: string;
+  notificationPreferences: unknown;
+}
+
+export interface PublishResult {
+  queued: number;
+  duplicates: number;
+  sent: number;
+  failed: number;
+}
+
+export interface ContractExpiringInput {
+  customerId: string;
+  subjectId: string;
+  subjectDate: Date;
+  windowDays: number | null;
+  details: Record<string, unknown>;
+}
+
+export interface NotificationEventDefinition {
+  label: string;
+  description: string;
+  /** Sent to the customer's notification email */
+  customerFacing: boolean;
+  /** Sent to the staff user who raised the event unless they opted out */
+  notifyActor: boolean;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const NOTIFICATION_EVENTS: Record<NotificationEventType, NotificationEventDefinition> = {
+  invoice_issued: {
+    label: 'Invoice issued',
+    description: 'An invoice was issued to the customer',
+    customerFacing: true,
+    notifyActor: false,
+  },
+  payment_received: {
+    label: 'Payment received',
+    description: 'A payment was recorded against one of the customer\'s invoices',
+    customerFacing: true,
+    notifyActor: false,
+  },
+  contract_expiring: {
+    label: 'Contract expiring',
+    description: 'An active contract reached one of its expiry alert windows',
+    customerFacing: true,
+    notifyActor: false,
+  },
+  import_failed: {
+    label: 'Import failed',
+    description: 'A data import could not be validated or loaded',
+    customerFacing: false,
+    notifyActor: true,
+  },
+};
+
+export const NOTIFICATION_TEMPLATES: Record<NotificationEventType, { subject: string; body: string }> = {
+  invoice_issued: {
+    subject: 'Invoice {{invoiceNumber}} from {{brandName}}',
+    body: [
+      'Hello {{customerName}},',
+      '',
+      'Invoice {{invoiceNumber}} for {{periodStart}} to {{periodEnd}} has been issued.',
+      '',
+      'Amount due: {{total}}',
+      'Due date: {{dueDate}}',
+      '',
+      'Thank you for your business,',
+      '{{brandName}}',
+    ].join('\n'),
+  },
+  payment_received: {
+    subject: 'Payment received for invoice {{invoiceNumber}}',
+    body: [
+      'Hello {{customerName}},',
+      '',
+      'We received your {{method}} payment of {{amount}} on {{paymentDate}} for invoice {{invoiceNumber}}.',
+      'Remaining balance on the invoice: {{balanceDue}}',
+      '',
+      'Thank you,',
+      '{{brandName}}',
+    ].join('\n'),
+  },
+  contract_expiring: {
+    subject: 'Your contract {{contractName}} ends on {{endDate}}',
+    body: [
+      'Hello {{customerName}},',
+      '',
+      'Your contract {{contractName}} ends on {{endDate}} ({{daysUntil}} days from now).',
+      'Please contact your account manager to discuss a renewal.',
+      '',
+      '{{brandName}}',
+    ].join('\n'),
+  },
+  import_failed: {
+    subject: 'Import failed: {{integrationName}} ({{filename}})',
+    body: [
+      'The {{integrationName}} import of {{filename}} failed at {{failedAt}}.',
+      '',
+      '{{errors}}',
+      '',
+      'Run ID: {{runId}}',
+    ].join('\n'),
+  },
+};
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+export const RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+export const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+/** A delivery being sent is hidden from other senders for this long */
+const SEND_LEASE_MS = 10 * 60 * 1000;
+const MAX_IMPORT_ERRORS_LISTED = 10;
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  ach: 'ACH',
+  card: 'card',
+  wire: 'wire transfer',
+  check: 'check',
+  cash: 'cash',
+};
+
+const DELIVERY_INCLUDE = {
+  customer: { select: { id: true, name: true } },
+  user: { select: { id: true, name: true, email: true } },
+};
+
+// ============================================
+// PURE HELPERS
+// ============================================
+
+function formatMoney(value: number): string {
+  return value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+}
+
+function formatDate(date: Date | string | null | undefined): string {
+  return date ? new Date(date).toISOString().slice(0, 10) : 'n/a';
+}
+
+/**
+ * Replace {{name}} placeholders; unknown placeholders render empty
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (_match, name: string) => variables[name] ?? '');
+}
+
+export function renderNotification(eventType: NotificationEventType, variables: Record<string, string>) {
+  const template = NOTIFICATION_TEMPLATES[eventType];
+  return {
+    subject: renderTemplate(template.subject, variables),
+    body: renderTemplate(template.body, variables),
+  };
+}
+
+/**
+ * Event switches from a stored preferences JSON - unknown keys and non-boolean values are ignored
+ */
+export function readNotificationPreferences(value: unknown): NotificationPreferences {
+  const preferences: NotificationPreferences = {};
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return preferences;
+  }
+  for (const eventType of NOTIFICATION_EVENT_TYPES) {
+    const choice = (value as Record<string, unknown>)[eventType];
+    if (typeof choice === 'boolean') {
+      preferences[eventType] = choice;
+    }
+  }
+  return preferences;
+}
+
+/**
+ * Customers receive customer-facing events unless they muted them
+ */
+export function isCustomerSubscribed(eventType: NotificationEventType, preferences: unknown): boolean {
+  if (!NOTIFICATION_EVENTS[eventType].customerFacing) {
+    return false;
+  }
+  return readNotificationPreferences(preferences)[eventType] !== false;
+}
+
+/**
+ * Staff receive events they subscribed to; the actor of a notifyActor event is
+ * subscribed unless they explicitly opted out
+ */
+export function isStaffSubscribed(eventType: NotificationEventType, preferences: unknown, isActor: boolean): boolean {
+  const choice = readNotificationPreferences(preferences)[eventType];
+  if (choice !== undefined) {
+    return choice;
+  }
+  return isActor && NOTIFICATION_EVENTS[eventType].notifyActor;
+}
+
+/**
+ * Recipients of an event - the customer address first, then subscribed staff,
+ * one delivery per email address
+ */
+export function resolveRecipients(
+  event: Pick<NotificationEvent, 'eventType' | 'actorUserId'>,
+  customer: { notificationEmail: string | null; notificationPreferences: unknown } | null,
+  staff: StaffRecipientCandidate[]
+): NotificationRecipient[] {
+  const recipients: NotificationRecipient[] = [];
+  const seen = new Set<string>();
+
+  const add = (recipient: NotificationRecipient) => {
+    const key = recipient.email.trim().toLowerCase();
+    if (!key || seen.has(key)) return;
+    seen.add(key);
+    recipients.push({ ...recipient, email: recipient.email.trim() });
+  };
+
+  if (customer?.notificationEmail && isCustomerSubscribed(event.eventType, customer.notificationPreferences)) {
+    add({ audience: 'customer', email: customer.notificationEmail, userId: null });
+  }
+
+  for (const user of staff) {
+    if (isStaffSubscribed(event.eventType, user.notificationPreferences, user.id === event.actorUserId)) {
+      add({ audience: 'staff', email: user.email, userId: user.id });
+    }
+  }
+
+  return recipients;
+}
+
+export function buildDedupeKey(event: Pick<NotificationEvent, 'eventType' | 'subjectId' | 'variant'>, email: string): string {
+  return [event.eventType, event.subjectId, event.variant, email.trim().toLowerCase()]
+    .filter(Boolean)
+    .join(':');
+}
+
+/**
+ * Backoff before the next attempt: 5m, 10m, 20m, ... capped at 6h
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Delivery fields after a failed attempt - retry later or give up
+ */
+export function getFailedDeliveryUpdate(attempts: number, message: string, now: Date) {
+  const exhausted = attempts >= MAX_DELIVERY_ATTEMPTS;
+  return {
+    status: exhausted ? 'failed' : 'pending',
+    attempts,
+    lastError: message,
+    nextAttemptAt: exhausted ? null : new Date(now.getTime() + getRetryDelayMs(attempts)),
+  };
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+export class NotificationService {
+  constructor(private prisma: PrismaClient, private transport?: NotificationTransport) {}
+
+  private getTransport(): NotificationTransport {
+    return this.transport ?? getNotificationTransport();
+  }
+
+  /**
+   * Run a publisher without letting its errors escape
+   */
+  private async safely(label: string, publish: () => Promise<PublishResult | null>): Promise<PublishResult | null> {
+    try {
+      return await publish();
+    } catch (err) {
+      logError(`[notifications] ${label} failed:`, err);
+      return null;
+    }
+  }
+
+  // ------------------------------------------
+  // Event publishers
+  // ------------------------------------------
+
+  async notifyInvoiceIssued(invoiceId: string, actorUserId?: string) {
+    return this.safely(`invoice_issued ${invoiceId}`, async () => {
+      const invoice = await this.prisma.invoice.findUnique({
+        where: { id: invoiceId },
+        include: { customer: { select: { name: true } } },
+      });
+      if (!invoice || invoice.status === 'draft') return null;
+
+      return this.publish({
+        eventType: 'invoice_issued',
+        customerId: invoice.customerId,
+        subjectType: 'invoice',
+        subjectId: invoice.id,
+        actorUserId,
+        variables: {
+          brandName: getInvoiceBranding().name,
+          customerName: invoice.customer.name,
+          invoiceNumber: invoice.invoiceNumber,
+          periodStart: formatDate(invoice.periodStart),
+          periodEnd: formatDate(invoice.periodEnd),
+          total: formatMoney(Number(invoice.total)),
+          dueDate: formatDate(invoice.dueDate),
+        },
+      });
+    });
+  }
+
+  async notifyPaymentReceived(paymentId: string, actorUserId?: string) {
+    return this.safely(`payment_received ${paymentId}`, async () => {
+      const payment = await this.prisma.payment.findUnique({
+        where: { id: paymentId },
+        include: { invoice: { include: { customer: { select: { name: true } } } } },
+      });
+      if (!payment) return null;
+
+      return this.publish({
+        eventType: 'payment_received',
+        customerId: payment.invoice.customerId,
+        subjectType: 'payment',
+        subjectId: payment.id,
+        actorUserId,
+        variables: {
+          brandName: getInvoiceBranding().name,
+          customerName: payment.invoice.customer.name,
+          invoiceNumber: payment.invoice.invoiceNumber,
+          method: PAYMENT_METHOD_LABELS[payment.method] ?? payment.method,
+          amount: formatMoney(Number(payment.amount)),
+          paymentDate: formatDate(payment.paymentDate),
+          balanceDue: formatMoney(Number(payment.invoice.balanceDue)),
+        },
+      });
+    });
+  }
+
+  /**
+   * One notification per contract and alert window (renewal check candidates)
+   */
+  async notifyContractExpiring(alert: ContractExpiringInput, now: Date = new Date()) {
+    return this.safely(`contract_expiring ${alert.subjectId}`, async () => {
+      const customerName = String(alert.details.customerName ?? '');
+      const contractName = String(alert.details.contractName ?? '');
+      const daysUntil = typeof alert.details.daysUntil === 'number'
+        ? alert.details.daysUntil
+        : Math.max(Math.round((alert.subjectDate.getTime() - now.getTime()) / 86_400_000), 0);
+
+      return this.publish({
+        eventType: 'contract_expiring',
+        customerId: alert.customerId,
+        subjectType: 'contract',
+        subjectId: alert.subjectId,
+        variant: alert.windowDays ? `${alert.windowDays}d` : undefined,
+        variables: {
+          brandName: getInvoiceBranding().name,
+          customerName,
+          contractName: alert.details.contractNumber ? `${contractName} (${alert.details.contractNumber})` : contractName,
+          endDate: formatDate(alert.subjectDate),
+          daysUntil: String(daysUntil),
+        },
+      });
+    });
+  }
+
+  /**
+   * Contract expiry notifications for the candidates of a renewal check
+   */
+  async notifyRenewalCandidates(candidates: AlertCandidate[]) {
+    let published = 0;
+    for (const candidate of candidates) {
+      if (candidate.alertType !== 'contract_expiring') continue;
+      if (await this.notifyContractExpiring(candidate)) published++;
+    }
+    return published;
+  }
+
+  async notifyImportFailed(
+    run: { id: number; filename: string | null; runBy?: string | null },
+    integrationName: string,
+    errors: Array<{ message: string; row?: number; field?: string }>
+  ) {
+    return this.safely(`import_failed ${run.id}`, async () => {
+      const listed = errors.slice(0, MAX_IMPORT_ERRORS_LISTED).map(err => {
+        const location = [err.row !== undefined ? `Row ${err.row}` : null, err.field].filter(Boolean).join(' ');
+        return `- ${location ? `${location}: ` : ''}${err.message}`;
+      });
+      if (errors.length > MAX_IMPORT_ERRORS_LISTED) {
+        listed.push(`- ...and ${errors.length - MAX_IMPORT_ERRORS_LISTED} more`);
+      }
+
+      return this.publish({
+        eventType: 'import_failed',
+        customerId: null,
+        subjectType: 'integration_run',
+        subjectId: String(run.id),
+        actorUserId: run.runBy ?? null,
+        variables: {
+          integrationName,
+          filename: run.filename ?? 'upload',
+          failedAt: new Date().toISOString(),
+          errors: listed.length > 0 ? `Errors:\n${listed.join('\n')}` : 'No error details were recorded.',
+          runId: String(run.id),
+        },
+      });
+    });
+  }
+
+  // ------------------------------------------
+  // Publishing & delivery
+  // ------------------------------------------
+
+  /**
+   * Log one delivery per recipient and send the new ones right away
+   */
+  async publish(event: NotificationEvent): Promise<PublishResult> {
+    const result: PublishResult = { queued: 0, duplicates: 0, sent: 0, failed: 0 };
+
+    const customer = event.customerId
+      ? await this.prisma.customerSettings.findUnique({
+        where: { customerId: event.customerId },
+        select: { notificationEmail: true, notificationPreferences: true },
+      })
+      : null;
+    const staff = await this.prisma.user.findMany({
+      where: { disabled: false, deleted: false },
+      select: { id: true, email: true, notificationPreferences: true },
+    });
+
+    const recipients = resolveRecipients(event, customer, staff);
+    if (recipients.length === 0) {
+      return result;
+    }
+
+    const { subject, body } = renderNotification(event.eventType, event.variables);
+    const keys = recipients.map(recipient => buildDedupeKey(event, recipient.email));
+    const existing = await this.prisma.notificationDelivery.findMany({
+      where: { dedupeKey: { in: keys } },
+      select: { dedupeKey: true },
+    });
+    const existingKeys = new Set(existing.map(row => row.dedupeKey));
+
+    const created: string[] = [];
+    for (const [index, recipient] of recipients.entries()) {
+      if (existingKeys.has(keys[index])) {
+        result.duplicates++;
+        continue;
+      }
+
+      const delivery = await this.prisma.notificationDelivery.create({
+        data: {
+          eventType: event.eventType,
+          customerId: event.customerId,
+          subjectType: event.subjectType,
+          subjectId: event.subjectId,
+          audience: recipient.audience,
+          userId: recipient.userId,
+          recipient: recipient.email,
+          subject,
+          body,
+          dedupeKey: keys[index],
+          nextAttemptAt: new Date(),
+        },
+        select: { id: true },
+      });
+      created.push(delivery.id);
+    }
+    result.queued = created.length;
+
+    for (const id of created) {
+      const delivery = await this.deliver(id);
+      if (delivery?.status === 'sent') result.sent++;
+      else result.failed++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Send one pending delivery through the transport and record the outcome
+   * A delivery that is already sent, failed for good, or being sent elsewhere is returned untouched
+   */
+  async deliver(deliveryId: string, now: Date = new Date()) {
+    const claimed = await this.prisma.notificationDelivery.updateMany({
+      where: {
+        id: deliveryId,
+        status: 'pending',
+        OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }],
+      },
+      data: { nextAttemptAt: new Date(now.getTime() + SEND_LEASE_MS) },
+    });
+
+    const delivery = await this.prisma.notificationDelivery.findUnique({ where: { id: deliveryId } });
+    if (!delivery || claimed.count === 0) {
+      return delivery;
+    }
+
+    const transport = this.getTransport();
+    const attempts = delivery.attempts + 1;
+
+    try {
+      const { messageId } = await transport.send({
+        to: delivery.recipient,
+        subject: delivery.subject,
+        text: delivery.body,
+      });
+
+      return await this.prisma.notificationDelivery.update({
+        where: { id: deliveryId },
+        data: {
+          status: 'sent',
+          attempts,
+          sentAt: new Date(),
+          nextAttemptAt: null,
+          lastError: null,
+          transport: transport.name,
+          messageId,
+        },
+      });
+    } catch (err) {
+      return this.prisma.notificationDelivery.update({
+        where: { id: deliveryId },
+        data: {
+          ...getFailedDeliveryUpdate(attempts, (err as Error).message || 'Unknown error', new Date()),
+          transport: transport.name,
+        },
+      });
+    }
+  }
+
+  /**
+   * Retry job: send every pending delivery whose next attempt is due
+   */
+  async processDue(now: Date = new Date(), limit = 100) {
+    const due = await this.prisma.notificationDelivery.findMany({
+      where: { status: 'pending', nextAttemptAt: { lte: now } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit,
+      select: { id: true },
+    });
+
+    const counts = { processed: 0, sent: 0, retrying: 0, failed: 0 };
+    for (const { id } of due) {
+      const delivery = await this.deliver(id, now);
+      counts.processed++;
+      if (delivery?.status === 'sent') counts.sent++;
+      else if (delivery?.status === 'failed') counts.failed++;
+      else counts.retrying++;
+    }
+    return counts;
+  }
+
+  /**
+   * Send a pending or failed delivery again now
+   */
+  async retryDelivery(deliveryId: string) {
+    const delivery = await this.prisma.notificationDelivery.findUnique({ where: { id: deliveryId } });
+    if (!delivery) {
+      throw new Error('Notification not found');
+    }
+    if (delivery.status === 'sent') {
+      throw new Error('Cannot retry a notification that was already sent');
+    }
+
+    await this.prisma.notificationDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'pending', nextAttemptAt: new Date() },
+    });
+    await this.deliver(deliveryId);
+    return this.getDelivery(deliveryId);
+  }
+
+  // ------------------------------------------
+  // Delivery log
+  // ------------------------------------------
+
+  async listDeliveries(input: ListNotificationsInput) {
+    const where: any = {};
+    if (input.status) where.status = input.status;
+    if (input.eventType) where.eventType = input.eventType;
+    if (input.customerId) where.customerId = input.customerId;
+    if (input.search) {
+      where.OR = [
+        { recipient: { contains: input.search, mode: 'insensitive' } },
+        { subject: { contains: input.search, mode: 'insensitive' } },
+      ];
+    }
+
+    const [deliveries, total, byStatus] = await Promise.all([
+      this.prisma.notificationDelivery.findMany({
+        where,
+        include: DELIVERY_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        take: input.limit,
+        skip: input.offset,
+      }),
+      this.prisma.notificationDelivery.count({ where }),
+      this.prisma.notificationDelivery.groupBy({ by: ['status'], _count: { _all: true } }),
+    ]);
+
+    const counts = { pending: 0, sent: 0, failed: 0 };
+    for (const row of byStatus as Array<{ status: keyof typeof counts; _count: { _all: number } }>) {
+      counts[row.status] = row._count._all;
+    }
+
+    return { deliveries, total, counts };
+  }
+
+  async getDelivery(deliveryId: string) {
+    const delivery = await this.prisma.notificationDelivery.findUnique({
+      where: { id: deliveryId },
+      include: DELIVERY_INCLUDE,
+    });
+    if (!delivery) {
+      throw new Error('Notification not found');
+    }
+    return delivery;
+  }
+
+  /**
+   * Event catalog with the raw templates - for the admin page and preference forms
+   */
+  getEvents() {
+    return NOTIFICATION_EVENT_TYPES.map(eventType => ({
+      eventType,
+      ...NOTIFICATION_EVENTS[eventType],
+      template: NOTIFICATION_TEMPLATES[eventType],
+    }));
+  }
+
+  /**
+   * Send a one-off message straight through the transport (not logged)
+   */
+  async sendTest(to: string) {
+    const transport = this.getTransport();
+    const { messageId } = await transport.send({
+      to,
+      subject: `${getInvoiceBranding().name} notification test`,
+      text: `This is a test message from the ${getInvoiceBranding().name} backoffice.\nNotifications are delivered through the "${transport.name}" transport.`,
+    });
+    return { transport: transport.name, messageId };
+  }
+
+  // ------------------------------------------
+  // Staff preferences
+  // ------------------------------------------
+
+  async getUserPreferences(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { notificationPreferences: true },
+    });
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return readNotificationPreferences(user.notificationPreferences);
+  }
+
+  /**
+   * Merge the given switches into the user's preferences
+   */
+  async updateUserPreferences(userId: string, changes: NotificationPreferences) {
+    const current = await this.getUserPreferences(userId);
+    const preferences = { ...current, ...changes };
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { notificationPreferences: preferences },
+    });
+    return preferences;
+  }
+}
@@ -0,0 +1,356 @@
+/**
+ * @fileoverview Notification Transport - pluggable email delivery for notifications
+ * @author Handled Platform Team
+ * @version 1.0.0
+ * @since 2026-10-18
+ *
+ * PURPOSE:
+ * Send rendered notification emails behind a small transport interface so local
+ * development and tests never need a mail server: the default "outbox" transport
+ * writes each message as an .eml file, and the SMTP transport talks to a real relay.
+ *
+ * SCOPE:
+ * ✅ NotificationTransport interface (send one plain-text email)
+ * ✅ Outbox implementation rooted at NOTIFICATION_OUTBOX_PATH
+ * ✅ SMTP implementation (implicit TLS or STARTTLS, AUTH PLAIN) on node:net / node:tls
+ * ✅ RFC 5322 message formatting shared by both transports
+ *
+ * OUT OF SCOPE:
+ * ❌ Retries and the delivery log (NotificationService)
+ * ❌ HTML bodies and attachments
+ * ❌ Provider APIs (SES/SendGrid) - add an implementation and register it in getNotificationTransport()
+ *
+ * BUSINESS RULES:
+ * 📧 Every message is sent from NOTIFICATION_FROM
+ * 🧪 NOTIFICATION_TRANSPORT defaults to 'outbox' - nothing leaves the machine unless SMTP is configured
+ * ❗ A rejected SMTP command throws with the server's reply so the delivery log shows why
+ *
+ * @example
+ * const transport = getNotificationTransport();
+ * const { messageId } = await transport.send({ to: 'ap@acme.com', subject: 'Invoice issued', text: '...' });
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { hostname } from 'os';
+import net from 'net';
+import tls from 'tls';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface SentEmail {
+  messageId: string;
+}
+
+export interface NotificationTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<SentEmail>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Implicit TLS (port 465); otherwise STARTTLS is used when the server offers it */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const DEFAULT_FROM = 'Handled <notifications@localhost>';
+const DEFAULT_SMTP_TIMEOUT_MS = 30_000;
+
+// ============================================
+// PURE HELPERS
+// ============================================
+
+/**
+ * Bare address of a mailbox ("Handled <billing@handled.app>" → billing@handled.app)
+ */
+export function extractAddress(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+/**
+ * RFC 2047 encoded-word for non-ASCII header values
+ */
+export function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+export function createMessageId(from: string): string {
+  const domain = extractAddress(from).split('@')[1] || 'localhost';
+  return `<${randomUUID()}@${domain}>`;
+}
+
+/**
+ * Full RFC 5322 message (headers + CRLF-normalized plain-text body)
+ */
+export function formatEmailMessage(
+  message: EmailMessage,
+  options: { from: string; messageId: string; date?: Date }
+): string {
+  const headers = [
+    `From: ${options.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${(options.date ?? new Date()).toUTCString()}`,
+    `Message-ID: ${options.messageId}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  const body = message.text.replace(/\r?\n/g, '\r\n');
+  return `${headers.join('\r\n')}\r\n\r\n${body}`;
+}
+
+/**
+ * SMTP DATA payload: lines starting with '.' are doubled (RFC 5321 4.5.2)
+ */
+export function dotStuff(message: string): string {
+  return message.replace(/(^|\r\n)\./g, '$1..');
+}
+
+// ============================================
+// OUTBOX TRANSPORT
+// ============================================
+
+/**
+ * Writes each message to <dir>/<timestamp>-<uuid>.eml - for local development and tests
+ */
+export class OutboxTransport implements NotificationTransport {
+  readonly name = 'outbox';
+
+  constructor(private dir: string, private from: string = DEFAULT_FROM) {}
+
+  async send(message: EmailMessage): Promise<SentEmail> {
+    const messageId = createMessageId(this.from);
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const path = join(this.dir, `${stamp}-${messageId.slice(1, 9)}.eml`);
+
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(path, formatEmailMessage(message, { from: this.from, messageId }), 'utf8');
+    return { messageId };
+  }
+}
+
+// ============================================
+// SMTP TRANSPORT
+// ============================================
+
+/**
+ * One SMTP conversation - buffers server replies and hands them out one at a time
+ */
+class SmtpConnection {
+  private buffer = '';
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket, private timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.timeoutMs);
+    socket.on('data', (chunk: string) => this.onData(chunk));
+    socket.on('timeout', () => this.fail(new Error('SMTP connection timed out')));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk;
+    let lines: string[] = [];
+
+    // A reply is complete at a line with a space after the code ("250 OK"), not a dash ("250-SIZE")
+    while (this.buffer.includes('\r\n')) {
+      const index = this.buffer.indexOf('\r\n');
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      lines.push(line);
+
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.push({ code: parseInt(line.slice(0, 3), 10), lines: lines.map(l => l.slice(4)) });
+        lines = [];
+      }
+    }
+    if (lines.length > 0) {
+      this.buffer = `${lines.join('\r\n')}\r\n${this.buffer}`;
+    }
+  }
+
+  private push(reply: SmtpReply) {
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error) {
+    if (this.failure) return;
+    this.failure = error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(error);
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  /**
+   * Send a command and require one of the expected reply codes
+   */
+  async command(line: string, expected: number[], label = line.split(' ')[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${label} rejected: ${reply.code} ${reply.lines.join(' ')}`.trim());
+    }
+    return reply;
+  }
+
+  /**
+   * Replace the plain socket with a TLS socket after STARTTLS
+   */
+  async upgrade(host: string) {
+    this.socket.removeAllListeners();
+    const secured = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secured.once('secureConnect', () => resolve());
+      secured.once('error', reject);
+    });
+    this.socket = secured;
+    this.attach(secured);
+  }
+
+  close() {
+    this.socket.removeAllListeners();
+    this.socket.on('error', () => {});
+    this.socket.end();
+  }
+}
+
+export class SmtpTransport implements NotificationTransport {
+  readonly name = 'smtp';
+
+  constructor(private options: SmtpOptions) {}
+
+  async send(message: EmailMessage): Promise<SentEmail> {
+    const { host, secure, user, password, from } = this.options;
+    const messageId = createMessageId(from);
+    const connection = new SmtpConnection(await this.connect(), this.options.timeoutMs ?? DEFAULT_SMTP_TIMEOUT_MS);
+    const clientName = hostname() || 'localhost';
+
+    try {
+      const greeting = await connection.read();
+      if (greeting.code !== 220) {
+        throw new Error(`SMTP greeting rejected: ${greeting.code} ${greeting.lines.join(' ')}`);
+      }
+
+      let capabilities = (await connection.command(`EHLO ${clientName}`, [250])).lines;
+      if (!secure && capabilities.some(line => line.toUpperCase() === 'STARTTLS')) {
+        await connection.command('STARTTLS', [220]);
+        await connection.upgrade(host);
+        capabilities = (await connection.command(`EHLO ${clientName}`, [250])).lines;
+      }
+
+      if (user) {
+        const credentials = Buffer.from(`\0${user}\0${password ?? ''}`, 'utf8').toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+      }
+
+      await connection.command(`MAIL FROM:<${extractAddress(from)}>`, [250], 'MAIL FROM');
+      await connection.command(`RCPT TO:<${extractAddress(message.to)}>`, [250, 251], 'RCPT TO');
+      await connection.command('DATA', [354]);
+      await connection.command(`${dotStuff(formatEmailMessage(message, { from, messageId }))}\r\n.`, [250], 'message');
+      await connection.command('QUIT', [221]).catch(() => undefined);
+
+      return { messageId };
+    } finally {
+      connection.close();
+    }
+  }
+
+  private connect(): Promise<net.Socket> {
+    const { host, port, secure } = this.options;
+
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+        : net.connect({ host, port }, () => resolve(socket));
+      socket.once('error', reject);
+    });
+  }
+}
+
+// ============================================
+// CONFIGURED TRANSPORT
+// ============================================
+
+let transport: NotificationTransport | null = null;
+
+/**
+ * Configured transport (NOTIFICATION_TRANSPORT, default 'outbox')
+ */
+export function getNotificationTransport(): NotificationTransport {
+  if (transport) {
+    return transport;
+  }
+
+  const driver = process.env.NOTIFICATION_TRANSPORT || 'outbox';
+  const from = process.env.NOTIFICATION_FROM || DEFAULT_FROM;
+
+  if (driver === 'outbox') {
+    const defaultRoot = join(dirname(fileURLToPath(import.meta.url)), '../../storage/outbox');
+    transport = new OutboxTransport(process.env.NOTIFICATION_OUTBOX_PATH || defaultRoot, from);
+  } else if (driver === 'smtp') {
+    if (!process.env.SMTP_HOST) {
+      throw new Error('SMTP_HOST is required when NOTIFICATION_TRANSPORT=smtp');
+    }
+    const secure = process.env.SMTP_SECURE === 'true';
+    transport = new SmtpTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || (secure ? '465' : '587'), 10),
+      secure,
+      user: process.env.SMTP_USER || undefined,
+      password: process.env.SMTP_PASSWORD || undefined,
+      from,
+    });
+  } else {
+    throw new Error(`Unknown notification transport: ${driver}`);
+  }
+
+  return transport;
+}
@@ -0,0 +1,419 @@
+/**
+ * @fileoverview Onboarding Service - Customer onboarding checklist and status advancement
+ * @author Handled Platform Team
+ * @version 1.0.0
+ * @since 2026-10-18
+ *
+ * PURPOSE:
+ * Track a new customer from prospect to go-live. Each checklist step is detected
+ * from the customer's real data (a signed contract, an active rate card, ...) and can
+ * also be signed off by hand, with an owner and a due date. Once the required steps
+ * are complete the customer moves prospect → setup → active.
+ *
+ * SCOPE:
+ * ✅ Steps: contract signed, rate card active, warehouse allocated, facilities added,
+ *    primary contact, portal enabled
+ * ✅ Required steps configurable (ONBOARDING_REQUIRED_STEPS) and per customer
+ * ✅ Manual sign-off, owner, due date and notes per step (kept in Customer.setupProgress)
+ * ✅ Status sync after checklist changes, on request and from the daily onboarding job
+ *
+ * OUT OF SCOPE:
+ * ❌ Reminders for overdue steps
+ * ❌ Moving customers back (paused / terminated are handled elsewhere)
+ *
+ * BUSINESS RULES:
+ * ✅ A step is complete when detected from data OR signed off
+ * 🚦 prospect → setup once any step is complete; prospect/setup → active once every
+ *    required step is complete
+ * 🔒 Status only moves forward, and only from prospect or setup
+ * 🗂️ Checklist state lives under setupProgress.checklist - other wizard keys are kept
+ * 📜 Status changes are recorded in the customer status history (trigger onboarding)
+ *
+ * @example
+ * const onboarding = new OnboardingService(prisma);
+ * await onboarding.updateStep(customerId, 'portal_enabled', { required: false });
+ * const { checklist, statusChange } = await onboarding.signOffStep(customerId, 'contract_signed', {}, userId);
+ * // statusChange → { from: 'setup', to: 'active' } when the last required step was signed off
+ */
+
+import type { PrismaClient } from '@prisma/client-primary';
+import { CustomerLifecycleService } from './customerLifecycleService.js';
+import {
+  ONBOARDING_STEP_KEYS,
+  type OnboardingStepKey,
+  type SignOffOnboardingStepInput,
+  type UpdateOnboardingStepInput,
+} from '../validation/onboardingSchema.js';
+import type { CustomerStatus } from '../validation/customerLifecycleSchema.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface OnboardingStepDefinition {
+  key: OnboardingStepKey;
+  label: string;
+  description: string;
+}
+
+/**
+ * Manual state for one step, stored in setupProgress.checklist[key]
+ */
+export interface OnboardingStepState {
+  required?: boolean;
+  ownerUserId?: string | null;
+  dueDate?: string | null;
+  notes?: string | null;
+  signedOffAt?: string | null;
+  signedOffBy?: string | null;
+}
+
+export type OnboardingDetection = Record<OnboardingStepKey, boolean>;
+
+export interface OnboardingStep extends OnboardingStepDefinition {
+  required: boolean;
+  detected: boolean;
+  signedOff: boolean;
+  complete: boolean;
+  overdue: boolean;
+  ownerUserId: string | null;
+  dueDate: string | null;
+  notes: string | null;
+  signedOffAt: string | null;
+  signedOffBy: string | null;
+}
+
+export interface OnboardingChecklist {
+  customerId: string;
+  status: string;
+  steps: OnboardingStep[];
+  completedSteps: number;
+  requiredSteps: number;
+  requiredComplete: boolean;
+}
+
+export interface OnboardingStatusChange {
+  from: string;
+  to: string;
+}
+
+// ============================================
+// STEP DEFINITIONS
+// ============================================
+
+export const ONBOARDING_STEPS: OnboardingStepDefinition[] = [
+  { key: 'contract_signed', label: 'Contract signed', description: 'A contract with an execution date' },
+  { key: 'rate_card_active', label: 'Rate card active', description: 'A standard rate card in effect today' },
+  { key: 'warehouse_allocated', label: 'Warehouse allocated', description: 'Space allocated at one of our warehouses' },
+  { key: 'facilities_added', label: 'Facilities added', description: 'Ship-from / ship-to facilities on file' },
+  { key: 'primary_contact', label: 'Primary contact', description: 'An active primary contact' },
+  { key: 'portal_enabled', label: 'Portal enabled', description: 'Customer portal access switched on' },
+];
+
+export const DEFAULT_REQUIRED_STEPS: OnboardingStepKey[] = [
+  'contract_signed',
+  'rate_card_active',
+  'warehouse_allocated',
+  'primary_contact',
+];
+
+/** Statuses the checklist may move a customer out of */
+const ONBOARDING_STATUSES = ['prospect', 'setup'];
+
+// ============================================
+// PURE HELPERS
+// ============================================
+
+/**
+ * Parse ONBOARDING_REQUIRED_STEPS ("contract_signed,rate_card_active"), ignoring unknown keys
+ */
+export function parseRequiredSteps(value: string | undefined): OnboardingStepKey[] {
+  if (!value) return DEFAULT_REQUIRED_STEPS;
+
+  const keys = value
+    .split(',')
+    .map((key) => key.trim())
+    .filter((key): key is OnboardingStepKey => (ONBOARDING_STEP_KEYS as readonly string[]).includes(key));
+
+  return keys.length > 0 ? [...new Set(keys)] : DEFAULT_REQUIRED_STEPS;
+}
+
+/**
+ * Checklist state from setupProgress - anything that is not an object reads as empty
+ */
+export function readChecklistState(setupProgress: unknown): Partial<Record<OnboardingStepKey, OnboardingStepState>> {
+  const checklist = (setupProgress as any)?.checklist;
+  return checklist && typeof checklist === 'object' && !Array.isArray(checklist) ? checklist : {};
+}
+
+/**
+ * Combine step definitions, detected completion and manual state
+ */
+export function buildChecklist(
+  customer: { id: string; status: string; setupProgress: unknown },
+  detection: OnboardingDetection,
+  requiredSteps: OnboardingStepKey[],
+  today: string
+): OnboardingChecklist {
+  const state = readChecklistState(customer.setupProgress);
+
+  const steps = ONBOARDING_STEPS.map((definition): OnboardingStep => {
+    const stepState = state[definition.key] ?? {};
+    const detected = detection[definition.key];
+    const signedOff = !!stepState.signedOffAt;
+    const complete = detected || signedOff;
+    const dueDate = stepState.dueDate ?? null;
+
+    return {
+      ...definition,
+      required: stepState.required ?? requiredSteps.includes(definition.key),
+      detected,
+      signedOff,
+      complete,
+      overdue: !complete && !!dueDate && dueDate < today,
+      ownerUserId: stepState.ownerUserId ?? null,
+      dueDate,
+      notes: stepState.notes ?? null,
+      signedOffAt: stepState.signedOffAt ?? null,
+      signedOffBy: stepState.signedOffBy ?? null,
+    };
+  });
+
+  const required = steps.filter((step) => step.required);
+
+  return {
+    customerId: customer.id,
+    status: customer.status,
+    steps,
+    completedSteps: steps.filter((step) => step.complete).length,
+    requiredSteps: required.length,
+    requiredComplete: required.every((step) => step.complete),
+  };
+}
+
+/**
+ * Status the checklist calls for - never moves backwards or out of paused / terminated
+ */
+export function getNextOnboardingStatus(checklist: OnboardingChecklist): string {
+  if (!ONBOARDING_STATUSES.includes(checklist.status)) return checklist.status;
+
+  if (checklist.requiredComplete) return 'active';
+  if (checklist.status === 'prospect' && checklist.completedSteps > 0) return 'setup';
+  return checklist.status;
+}
+
+/**
+ * setupProgress with one step's state replaced
+ */
+export function withStepState(
+  setupProgress: unknown,
+  key: OnboardingStepKey,
+  stepState: OnboardingStepState
+): Record<string, unknown> {
+  const base = setupProgress && typeof setupProgress === 'object' && !Array.isArray(setupProgress)
+    ? setupProgress as Record<string, unknown>
+    : {};
+
+  return {
+    ...base,
+    checklist: { ...readChecklistState(setupProgress), [key]: stepState },
+  };
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+export class OnboardingService {
+  private lifecycleService: CustomerLifecycleService;
+
+  constructor(private prisma: PrismaClient) {
+    this.lifecycleService = new CustomerLifecycleService(prisma);
+  }
+
+  private async getCustomer(customerId: string) {
+    const customer = await this.prisma.customer.findUnique({
+      where: { id: customerId },
+      select: { id: true, status: true, setupProgress: true, deleted: true },
+    });
+
+    if (!customer || customer.deleted) {
+      throw new Error('Customer not found');
+    }
+    return customer;
+  }
+
+  /**
+   * Detect step completion from the customer's records
+   */
+  async detectSteps(customerId: string, asOf: Date = new Date()): Promise<OnboardingDetection> {
+    const [contracts, rateCards, allocations, facilities, contacts, settings] = await Promise.all([
+      this.prisma.contract.count({
+        where: { customerId, archivedAt: null, executionDate: { not: null }, status: { in: ['draft', 'active'] } },
+      }),
+      this.prisma.rateCard.count({
+        where: {
+          customerId,
+          rateCardType: 'standard',
+          isActive: true,
+          archivedAt: null,
+          effectiveDate: { lte: asOf },
+          OR: [{ expiresDate: null }, { expiresDate: { gte: asOf } }],
+        },
+      }),
+      this.prisma.warehouseAllocation.count({
+        where: { customerId, status: 'active', deleted: false },
+      }),
+      this.prisma.customerFacility.count({
+        where: { customerId, deleted: false },
+      }),
+      this.prisma.contact.count({
+        where: { customerId, isPrimary: true, active: true, deleted: false },
+      }),
+      this.prisma.customerSettings.findUnique({
+        where: { customerId },
+        select: { portalEnabled: true },
+      }),
+    ]);
+
+    return {
+      contract_signed: contracts > 0,
+      rate_card_active: rateCards > 0,
+      warehouse_allocated: allocations > 0,
+      facilities_added: facilities > 0,
+      primary_contact: contacts > 0,
+      portal_enabled: settings?.portalEnabled ?? false,
+    };
+  }
+
+  private async evaluate(customer: { id: string; status: string; setupProgress: unknown }, asOf: Date) {
+    const detection = await this.detectSteps(customer.id, asOf);
+    return buildChecklist(
+      customer,
+      detection,
+      parseRequiredSteps(process.env.ONBOARDING_REQUIRED_STEPS),
+      asOf.toISOString().slice(0, 10)
+    );
+  }
+
+  /**
+   * Move the customer to the status the checklist calls for
+   */
+  private async applyStatus(checklist: OnboardingChecklist, dryRun = false) {
+    const next = getNextOnboardingStatus(checklist);
+    if (next === checklist.status) {
+      return { checklist, statusChange: null as OnboardingStatusChange | null };
+    }
+
+    if (!dryRun) {
+      await this.prisma.$transaction((tx) =>
+        this.lifecycleService.recordStatusChange(tx, { id: checklist.customerId, status: checklist.status }, next as CustomerStatus, {
+          trigger: 'onboarding',
+          reason: next === 'active' ? 'Required onboarding steps complete' : 'Onboarding started',
+        })
+      );
+    }
+
+    return {
+      checklist: { ...checklist, status: next },
+      statusChange: { from: checklist.status, to: next } as OnboardingStatusChange | null,
+    };
+  }
+
+  /**
+   * Current checklist and the status it calls for (read-only)
+   */
+  async getChecklist(customerId: string) {
+    const customer = await this.getCustomer(customerId);
+    const checklist = await this.evaluate(customer, new Date());
+    return { checklist, nextStatus: getNextOnboardingStatus(checklist) };
+  }
+
+  /**
+   * Re-evaluate one customer and advance its status
+   */
+  async syncCustomer(customerId: string) {
+    const customer = await this.getCustomer(customerId);
+    return this.applyStatus(await this.evaluate(customer, new Date()));
+  }
+
+  private async saveStepState(customerId: string, key: OnboardingStepKey, update: (state: OnboardingStepState) => OnboardingStepState) {
+    const customer = await this.getCustomer(customerId);
+    const current = readChecklistState(customer.setupProgress)[key] ?? {};
+    const setupProgress = withStepState(customer.setupProgress, key, update(current));
+
+    await this.prisma.customer.update({
+      where: { id: customerId },
+      data: { setupProgress: setupProgress as any },
+    });
+
+    return this.applyStatus(await this.evaluate({ ...customer, setupProgress }, new Date()));
+  }
+
+  async updateStep(customerId: string, key: OnboardingStepKey, input: UpdateOnboardingStepInput) {
+    if (input.owner_user_id) {
+      const owner = await this.prisma.user.findUnique({
+        where: { id: input.owner_user_id },
+        select: { id: true },
+      });
+      if (!owner) {
+        throw new Error('Owner not found');
+      }
+    }
+
+    return this.saveStepState(customerId, key, (state) => ({
+      ...state,
+      ...(input.owner_user_id !== undefined && { ownerUserId: input.owner_user_id }),
+      ...(input.due_date !== undefined && { dueDate: input.due_date }),
+      ...(input.required !== undefined && { required: input.required }),
+      ...(input.notes !== undefined && { notes: input.notes }),
+    }));
+  }
+
+  async signOffStep(customerId: string, key: OnboardingStepKey, input: SignOffOnboardingStepInput, userId: string) {
+    return this.saveStepState(customerId, key, (state) => {
+      if (state.signedOffAt) {
+        throw new Error('Cannot sign off a step twice');
+      }
+      return {
+        ...state,
+        signedOffAt: new Date().toISOString(),
+        signedOffBy: userId,
+        ...(input.notes !== undefined && { notes: input.notes }),
+      };
+    });
+  }
+
+  /**
+   * Withdraw a sign-off - the step goes back to detection, the status stays where it is
+   */
+  async revokeSignOff(customerId: string, key: OnboardingStepKey) {
+    return this.saveStepState(customerId, key, (state) => {
+      if (!state.signedOffAt) {
+        throw new Error('Cannot revoke a step that was not signed off');
+      }
+      return { ...state, signedOffAt: null, signedOffBy: null };
+    });
+  }
+
+  /**
+   * Re-evaluate every prospect / setup customer (daily job)
+   */
+  async syncStatuses(options: { asOf?: Date; dryRun?: boolean } = {}) {
+    const asOf = options.asOf ?? new Date();
+    const customers = await this.prisma.customer.findMany({
+      where: { status: { in: ONBOARDING_STATUSES }, deleted: false },
+      select: { id: true, status: true, setupProgress: true },
+    });
+
+    const changes: Array<OnboardingStatusChange & { customerId: string }> = [];
+    for (const customer of customers) {
+      const { statusChange } = await this.applyStatus(await this.evaluate(customer, asOf), options.dryRun);
+      if (statusChange) {
+        changes.push({ customerId: customer.id, ...statusChange });
+      }
+    }
+
+    return { evaluated: customers.length, changes, dryRun: options.dryRun ?? false };
+  }
+}
@@ -0,0 +1,641 @@
+/**
+ * @fileoverview Payment Service - Payments, unapplied credit and AR aging
+ *
+ * Records payments against issued invoices, keeps Invoice.balanceDue and status
+ * in step with applied payments, and reports accounts receivable aging.
+ *
+ * @author Handled Platform Team
+ * @version 1.0.0
+ * @since 2026-10-18
+ */
+
+/**
+ * Payment Service
+ * ===============
+ *
+ * PURPOSE:
+ * The accounts receivable ledger. Every change to an invoice's paid amount goes
+ * through this service so balanceDue and status are recalculated in the same
+ * transaction as the payment that changed them.
+ *
+ * SCOPE:
+ * ✅ Record payments (full, partial, overpayment, pending)
+ * ✅ Clear pending payments
+ * ✅ Reverse applied payments (reversal or NSF)
+ * ✅ Unapplied credit from overpayments, applied later to other invoices
+ * ✅ AR aging per customer (current / 1-30 / 31-60 / 61-90 / 90+ days past due)
+ *
+ * OUT OF SCOPE:
+ * ❌ Invoice generation and issuing (InvoiceService)
+ * ❌ Payment processor integrations
+ *
+ * BUSINESS RULES:
+ * 💰 balanceDue = total - applied payments - applied credit notes; status is
+ *    derived from it (paid when fully covered, overdue past dueDate, partial
+ *    when some is paid or credited)
+ * 📈 A payment never applies more than the invoice balance; the excess becomes
+ *    unapplied credit linked to the payment
+ * 🔐 The invoice row is locked (SELECT ... FOR UPDATE) before its balance is read,
+ *    so concurrent payments and credits are applied one after the other
+ * ⏳ Pending payments do not reduce the balance until cleared; one that clears after
+ *    its invoice was paid, credited or voided becomes unapplied credit in full
+ * 🔄 Reversing a payment reopens the invoice; NSF reversals are recorded as failed
+ * 🔒 A payment whose overpayment credit was already used cannot be reversed until
+ *    those credit applications are reversed
+ * 📅 Aging is driven by dueDate; invoices without a due date count as current
+ *
+ * @example
+ * ```typescript
+ * const service = new PaymentService(prisma);
+ * await service.recordPayment({ invoiceId, amount: 250, paymentDate, method: 'ach', status: 'applied' }, userId);
+ * const aging = await service.getAgingReport({ asOf: new Date() });
+ * ```
+ */
+
+import type { CustomerCredit, PrismaClient } from '@prisma/client-primary';
+import type {
+  AgingReportQuery,
+  ApplyCreditInput,
+  ListPaymentsQuery,
+  RecordPaymentInput,
+  ReversePaymentInput,
+} from '../validation/paymentSchema.js';
+import { toActivityDate } from './billingActivityService.js';
+
+/** Invoice statuses that can receive payments */
+export const PAYABLE_INVOICE_STATUSES = ['issued', 'sent', 'partial', 'overdue'];
+
+export type AgingBucket = 'current' | 'days1to30' | 'days31to60' | 'days61to90' | 'days90plus';
+
+export const AGING_BUCKETS: AgingBucket[] = ['current', 'days1to30', 'days31to60', 'days61to90', 'days90plus'];
+
+export interface CustomerAging {
+  customerId: string;
+  customerName: string;
+  buckets: Record<AgingBucket, number>;
+  totalOutstanding: number;
+  unappliedCredit: number;
+  netOutstanding: number;
+  invoices: Array<{
+    id: string;
+    invoiceNumber: string;
+    dueDate: string | null;
+    daysPastDue: number;
+    bucket: AgingBucket;
+    balanceDue: number;
+  }>;
+}
+
+export interface AgingReport {
+  asOf: string;
+  customers: CustomerAging[];
+  totals: Record<AgingBucket, number> & { totalOutstanding: number; unappliedCredit: number; netOutstanding: number };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function emptyBuckets(): Record<AgingBucket, number> {
+  return { current: 0, days1to30: 0, days31to60: 0, days61to90: 0, days90plus: 0 };
+}
+
+/**
+ * Split a payment into the part applied to the invoice and the excess kept as credit
+ */
+export function splitPayment(amount: number, balanceDue: number): { applied: number; excess: number } {
+  const applied = roundMoney(Math.min(amount, Math.max(balanceDue, 0)));
+  return { applied, excess: roundMoney(amount - applied) };
+}
+
+/**
+ * Balance and status of an issued invoice from its applied payments and the
+ * credit notes applied against it (fully credited without payment → 'credited')
+ */
+export function deriveInvoiceStatus(
+  invoice: { total: number; status: string; dueDate: Date | null },
+  appliedTotal: number,
+  asOf: Date = new Date(),
+  creditedTotal = 0
+): { balanceDue: number; status: string } {
+  const balanceDue = roundMoney(Math.max(invoice.total - appliedTotal - creditedTotal, 0));
+
+  if (balanceDue === 0) {
+    return { balanceDue, status: appliedTotal > 0 ? 'paid' : 'credited' };
+  }
+  if (invoice.dueDate && toActivityDate(invoice.dueDate) < toActivityDate(asOf)) {
+    return { balanceDue, status: 'overdue' };
+  }
+  if (appliedTotal > 0 || creditedTotal > 0) {
+    return { balanceDue, status: 'partial' };
+  }
+  // Nothing applied: back to the pre-payment state
+  return { balanceDue, status: invoice.status === 'sent' ? 'sent' : 'issued' };
+}
+
+/**
+ * Days past due on a date (0 when not yet due or no due date)
+ */
+export function getDaysPastDue(dueDate: Date | null, asOf: Date): number {
+  if (!dueDate) return 0;
+  const days = Math.floor((toActivityDate(asOf).getTime() - toActivityDate(dueDate).getTime()) / DAY_MS);
+  return Math.max(days, 0);
+}
+
+export function getAgingBucket(daysPastDue: number): AgingBucket {
+  if (daysPastDue <= 0) return 'current';
+  if (daysPastDue <= 30) return 'days1to30';
+  if (daysPastDue <= 60) return 'days31to60';
+  if (daysPastDue <= 90) return 'days61to90';
+  return 'days90plus';
+}
+
+/**
+ * Build the aging report from open invoices and open credits
+ * Pure function - no database access
+ */
+export function buildAgingReport(
+  invoices: Array<{ id: string; invoiceNumber: string; customerId: string; customerName: string; dueDate: Date | null; balanceDue: number }>,
+  credits: Array<{ customerId: string; customerName: string; remaining: number }>,
+  asOf: Date
+): AgingReport {
+  const customers = new Map<string, CustomerAging>();
+  const customerFor = (customerId: string, customerName: string) => {
+    let entry = customers.get(customerId);
+    if (!entry) {
+      entry = {
+        customerId,
+        customerName,
+        buckets: emptyBuckets(),
+        totalOutstanding: 0,
+        unappliedCredit: 0,
+        netOutstanding: 0,
+        invoices: [],
+      };
+      customers.set(customerId, entry);
+    }
+    return entry;
+  };
+
+  for (const invoice of invoices) {
+    if (invoice.balanceDue <= 0) continue;
+
+    const entry = customerFor(invoice.customerId, invoice.customerName);
+    const daysPastDue = getDaysPastDue(invoice.dueDate, asOf);
+    const bucket = getAgingBucket(daysPastDue);
+
+    entry.buckets[bucket] = roundMoney(entry.buckets[bucket] + invoice.balanceDue);
+    entry.totalOutstanding = roundMoney(entry.totalOutstanding + invoice.balanceDue);
+    entry.invoices.push({
+      id: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      dueDate: invoice.dueDate ? invoice.dueDate.toISOString().slice(0, 10) : null,
+      daysPastDue,
+      bucket,
+      balanceDue: invoice.balanceDue,
+    });
+  }
+
+  for (const credit of credits) {
+    const entry = customerFor(credit.customerId, credit.customerName);
+    entry.unappliedCredit = roundMoney(entry.unappliedCredit + credit.remaining);
+  }
+
+  const totals = { ...emptyBuckets(), totalOutstanding: 0, unappliedCredit: 0, netOutstanding: 0 };
+
+  for (const entry of customers.values()) {
+    entry.netOutstanding = roundMoney(entry.totalOutstanding - entry.unappliedCredit);
+    entry.invoices.sort((a, b) => b.daysPastDue - a.daysPastDue);
+
+    for (const bucket of AGING_BUCKETS) {
+      totals[bucket] = roundMoney(totals[bucket] + entry.buckets[bucket]);
+    }
+    totals.totalOutstanding = roundMoney(totals.totalOutstanding + entry.totalOutstanding);
+    totals.unappliedCredit = roundMoney(totals.unappliedCredit + entry.unappliedCredit);
+    totals.netOutstanding = roundMoney(totals.netOutstanding + entry.netOutstanding);
+  }
+
+  return {
+    asOf: asOf.toISOString().slice(0, 10),
+    customers: [...customers.values()].sort((a, b) => b.totalOutstanding - a.totalOutstanding),
+    totals,
+  };
+}
+
+/**
+ * Lock an invoice row until the transaction ends so concurrent payments and
+ * credits see each other's balance changes. Read the invoice after locking it.
+ */
+export async function lockInvoice(tx: any, invoiceId: string): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM customer.invoices WHERE id = ${invoiceId} FOR UPDATE`;
+}
+
+/**
+ * Recalculate balanceDue and status of an invoice from its applied payments and
+ * applied credit notes. Must run inside the transaction that changed them.
+ */
+export async function recalculateInvoiceBalance(tx: any, invoiceId: string) {
+  const invoice = await tx.invoice.findUnique({ where: { id: invoiceId } });
+  const [applied, credited] = await Promise.all([
+    tx.payment.aggregate({
+      where: { invoiceId, status: 'applied' },
+      _sum: { amount: true },
+    }),
+    tx.creditNote.aggregate({
+      where: { invoiceId, status: 'applied' },
+      _sum: { appliedToInvoice: true },
+    }),
+  ]);
+
+  const next = deriveInvoiceStatus(
+    { total: Number(invoice.total), status: invoice.status, dueDate: invoice.dueDate },
+    Number(applied._sum.amount ?? 0),
+    new Date(),
+    Number(credited._sum.appliedToInvoice ?? 0)
+  );
+
+  return tx.invoice.update({
+    where: { id: invoiceId },
+    data: next,
+  });
+}
+
+function appendNote(existing: string | null, note: string): string {
+  return existing ? `${existing}\n${note}` : note;
+}
+
+export class PaymentService {
+  constructor(private prisma: PrismaClient) {}
+
+  private async getPayableInvoice(tx: any, invoiceId: string) {
+    await lockInvoice(tx, invoiceId);
+    const invoice = await tx.invoice.findUnique({ where: { id: invoiceId } });
+
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+    if (!PAYABLE_INVOICE_STATUSES.includes(invoice.status)) {
+      throw new Error(`Cannot record a payment on ${invoice.status} invoice ${invoice.invoiceNumber}`);
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Apply a payment amount to an invoice, keeping any excess as unapplied credit
+   */
+  private async applyToInvoice(tx: any, invoice: any, paymentId: string, amount: number, createdBy?: string) {
+    const { applied, excess } = splitPayment(amount, Number(invoice.balanceDue));
+
+    if (applied !== amount) {
+      await tx.payment.update({
+        where: { id: paymentId },
+        data: { amount: applied },
+      });
+    }
+
+    let credit: CustomerCredit | null = null;
+    if (excess > 0) {
+      credit = await tx.customerCredit.create({
+        data: {
+          customerId: invoice.customerId,
+          source: 'overpayment',
+          sourcePaymentId: paymentId,
+          amount: excess,
+          remaining: excess,
+          notes: `Overpayment on ${invoice.invoiceNumber}`,
+          createdBy,
+        },
+      });
+    }
+
+    return credit;
+  }
+
+  /**
+   * Record a payment against an issued invoice
+   * Applied payments update balanceDue/status atomically; an overpayment is split
+   * into the applied payment and an unapplied credit for the excess
+   */
+  async recordPayment(input: RecordPaymentInput, recordedBy?: string) {
+    return this.prisma.$transaction(async (tx) => {
+      const invoice = await this.getPayableInvoice(tx, input.invoiceId);
+
+      if (input.status === 'applied' && Number(invoice.balanceDue) <= 0) {
+        throw new Error(`Cannot record a payment on ${invoice.invoiceNumber}: nothing is due`);
+      }
+
+      const payment = await tx.payment.create({
+        data: {
+          invoiceId: invoice.id,
+          amount: input.amount,
+          paymentDate: input.paymentDate,
+          method: input.method,
+          reference: input.reference,
+          status: input.status,
+          notes: input.notes,
+          recordedBy,
+        } as any,
+      });
+
+      let credit: CustomerCredit | null = null;
+      if (input.status === 'applied') {
+        credit = await this.applyToInvoice(tx, invoice, payment.id, input.amount, recordedBy);
+      }
+
+      const updatedInvoice = await recalculateInvoiceBalance(tx, invoice.id);
+      const savedPayment = await tx.payment.findUnique({ where: { id: payment.id } });
+
+      return { payment: savedPayment, invoice: updatedInvoice, credit };
+    }, { timeout: 60000 });
+  }
+
+  /**
+   * Clear a pending payment (e.g. a check that has cleared) and apply it
+   * When the invoice was settled or voided in the meantime nothing is due, so the
+   * whole amount becomes unapplied credit
+   */
+  async clearPayment(paymentId: string, clearedBy?: string) {
+    return this.prisma.$transaction(async (tx) => {
+      const payment = await tx.payment.findUnique({ where: { id: paymentId } });
+
+      if (!payment) {
+        throw new Error('Payment not found');
+      }
+      if (payment.status !== 'pending') {
+        throw new Error(`Cannot clear a payment that is ${payment.status}`);
+      }
+
+      await lockInvoice(tx, payment.invoiceId);
+      const invoice = await tx.invoice.findUnique({ where: { id: payment.invoiceId } });
+      if (!invoice) {
+        throw new Error('Invoice not found');
+      }
+      const payable = PAYABLE_INVOICE_STATUSES.includes(invoice.status);
+
+      // Only one of two concurrent clears gets to apply the payment
+      const cleared = await tx.payment.updateMany({
+        where: { id: paymentId, status: 'pending' },
+        data: { status: 'applied' },
+      });
+      if (cleared.count === 0) {
+        throw new Error('Cannot clear a payment that is no longer pending');
+      }
+
+      const credit = await this.applyToInvoice(
+        tx,
+        payable ? invoice : { ...invoice, balanceDue: 0 },
+        paymentId,
+        Number(payment.amount),
+        clearedBy
+      );
+      const updatedInvoice = payable ? await recalculateInvoiceBalance(tx, invoice.id) : invoice;
+
+      return { payment: await tx.payment.findUnique({ where: { id: paymentId } }), invoice: updatedInvoice, credit };
+    }, { timeout: 60000 });
+  }
+
+  /**
+   * Reverse an applied or pending payment
+   * - nsf: status 'failed' (returned for insufficient funds), otherwise 'reversed'
+   * - a credit application returns the amount to its credit
+   * - an overpayment credit is voided with the payment (refused once it has been used)
+   */
+  async reversePayment(paymentId: string, input: ReversePaymentInput, reversedBy?: string) {
+    return this.prisma.$transaction(async (tx) => {
+      const payment = await tx.payment.findUnique({
+        where: { id: paymentId },
+        include: { credits: true },
+      });
+
+      if (!payment) {
+        throw new Error('Payment not found');
+      }
+      if (payment.status !== 'applied' && payment.status !== 'pending') {
+        throw new Error(`Cannot reverse a payment that is ${payment.status}`);
+      }
+
+      await lockInvoice(tx, payment.invoiceId);
+
+      for (const credit of payment.credits) {
+        if (credit.status === 'void') continue;
+        if (Number(credit.remaining) !== Number(credit.amount)) {
+          throw new Error('Cannot reverse this payment: its overpayment credit has already been applied to other invoices');
+        }
+        await tx.customerCredit.update({
+          where: { id: credit.id },
+          data: { status: 'void', remaining: 0, notes: appendNote(credit.notes, `Voided with payment reversal: ${input.reason}`) },
+        });
+      }
+
+      // Credit applications give the amount back to the credit
+      if (payment.method === 'credit' && payment.status === 'applied' && payment.reference) {
+        const credit = await tx.customerCredit.findUnique({ where: { id: payment.reference } });
+        if (credit && credit.status !== 'void') {
+          await tx.customerCredit.update({
+            where: { id: credit.id },
+            data: {
+              remaining: roundMoney(Number(credit.remaining) + Number(payment.amount)),
+              status: 'open',
+            },
+          });
+        }
+      }
+
+      const note = `${input.nsf ? 'NSF' : 'Reversed'} ${new Date().toISOString()}${reversedBy ? ` by ${reversedBy}` : ''}: ${input.reason}`;
+      // A concurrent reversal or clear changed the status - roll all of this back
+      const updated = await tx.payment.updateMany({
+        where: { id: paymentId, status: payment.status },
+        data: {
+          status: input.nsf ? 'failed' : 'reversed',
+          notes: appendNote(payment.notes, note),
+        },
+      });
+      if (updated.count === 0) {
+        throw new Error('Cannot reverse this payment: it was changed by another request');
+      }
+      const reversed = await tx.payment.findUnique({ where: { id: paymentId } });
+
+      const invoice = await recalculateInvoiceBalance(tx, payment.invoiceId);
+
+      return { payment: reversed, invoice };
+    }, { timeout: 60000 });
+  }
+
+  /**
+   * List payments with optional filters (customer via invoice)
+   */
+  async listPayments(query: ListPaymentsQuery) {
+    const where: any = {
+      ...(query.invoiceId && { invoiceId: query.invoiceId }),
+      ...(query.customerId && { invoice: { customerId: query.customerId } }),
+      ...(query.status && { status: query.status }),
+      ...(query.method && { method: query.method }),
+    };
+
+    if (query.from || query.to) {
+      where.paymentDate = {
+        ...(query.from && { gte: query.from }),
+        ...(query.to && { lte: query.to }),
+      };
+    }
+
+    const [payments, total] = await Promise.all([
+      this.prisma.payment.findMany({
+        where,
+        include: {
+          invoice: {
+            select: {
+              id: true,
+              invoiceNumber: true,
+              status: true,
+              balanceDue: true,
+              customer: { select: { id: true, name: true } },
+            },
+          },
+          recordedByUser: { select: { id: true, name: true } },
+        },
+        orderBy: [{ paymentDate: 'desc' }, { recordedAt: 'desc' }],
+        take: query.limit,
+        skip: query.offset,
+      }),
+      this.prisma.payment.count({ where }),
+    ]);
+
+    return { payments, total, limit: query.limit, offset: query.offset };
+  }
+
+  /**
+   * Open (unapplied) credit, optionally for one customer
+   */
+  async listCredits(customerId?: string) {
+    const credits = await this.prisma.customerCredit.findMany({
+      where: {
+        status: 'open',
+        ...(customerId && { customerId }),
+      },
+      include: {
+        customer: { select: { id: true, name: true } },
+        sourcePayment: { select: { id: true, reference: true, paymentDate: true, invoiceId: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return { credits };
+  }
+
+  /**
+   * Apply unapplied credit to an open invoice of the same customer
+   * Recorded as a payment with method 'credit' and the credit id as reference
+   */
+  async applyCredit(creditId: string, input: ApplyCreditInput, appliedBy?: string) {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM customer.customer_credits WHERE id = ${creditId} FOR UPDATE`;
+      const credit = await tx.customerCredit.findUnique({ where: { id: creditId } });
+
+      if (!credit) {
+        throw new Error('Credit not found');
+      }
+      if (credit.status !== 'open') {
+        throw new Error(`Cannot apply a credit that is ${credit.status}`);
+      }
+
+      const invoice = await this.getPayableInvoice(tx, input.invoiceId);
+      if (invoice.customerId !== credit.customerId) {
+        throw new Error('Cannot apply credit to another customer\'s invoice');
+      }
+
+      const remaining = Number(credit.remaining);
+      const balanceDue = Number(invoice.balanceDue);
+      const amount = roundMoney(input.amount ?? Math.min(remaining, balanceDue));
+
+      if (amount <= 0) {
+        throw new Error(`Cannot apply credit to ${invoice.invoiceNumber}: nothing is due`);
+      }
+      if (amount > remaining) {
+        throw new Error(`Cannot apply ${amount.toFixed(2)}: only ${remaining.toFixed(2)} credit remains`);
+      }
+      if (amount > balanceDue) {
+        throw new Error(`Cannot apply ${amount.toFixed(2)}: ${invoice.invoiceNumber} has ${balanceDue.toFixed(2)} due`);
+      }
+
+      const payment = await tx.payment.create({
+        data: {
+          invoiceId: invoice.id,
+          amount,
+          paymentDate: toActivityDate(new Date()),
+          method: 'credit',
+          reference: credit.id,
+          status: 'applied',
+          notes: `Applied from unapplied credit ${credit.id}`,
+          recordedBy: appliedBy,
+        } as any,
+      });
+
+      const newRemaining = roundMoney(remaining - amount);
+      const updatedCredit = await tx.customerCredit.update({
+        where: { id: credit.id },
+        data: { remaining: newRemaining, status: newRemaining === 0 ? 'applied' : 'open' },
+      });
+
+      const updatedInvoice = await recalculateInvoiceBalance(tx, invoice.id);
+
+      return { payment, invoice: updatedInvoice, credit: updatedCredit };
+    }, { timeout: 60000 });
+  }
+
+  /**
+   * Accounts receivable aging by customer, driven by invoice dueDate
+   */
+  async getAgingReport(query: AgingReportQuery): Promise<AgingReport> {
+    const asOf = toActivityDate(query.asOf ?? new Date());
+
+    const [invoices, credits] = await Promise.all([
+      this.prisma.invoice.findMany({
+        where: {
+          status: { in: PAYABLE_INVOICE_STATUSES },
+          balanceDue: { gt: 0 },
+          ...(query.customerId && { customerId: query.customerId }),
+        },
+        select: {
+          id: true,
+          invoiceNumber: true,
+          customerId: true,
+          dueDate: true,
+          balanceDue: true,
+          customer: { select: { name: true } },
+        },
+      }),
+      this.prisma.customerCredit.findMany({
+        where: {
+          status: 'open',
+          ...(query.customerId && { customerId: query.customerId }),
+        },
+        select: {
+          customerId: true,
+          remaining: true,
+          customer: { select: { name: true } },
+        },
+      }),
+    ]);
+
+    return buildAgingReport(
+      invoices.map(inv => ({
+        id: inv.id,
+        invoiceNumber: inv.invoiceNumber,
+        customerId: inv.customerId,
+        customerName: inv.customer.name,
+        dueDate: inv.dueDate,
+        balanceDue: Number(inv.balanceDue),
+      })),
+      credits.map(credit => ({
+        customerId: credit.customerId,
+        customerName: credit.customer.name,
+        remaining: Number(credit.remaining),
+      })),
+      asOf
+    );
+  }
+}
@@ -0,0 +1,360 @@
+/**
+ * @fileoverview Portal Service - Read-only customer portal data, hard-scoped to one customer
+ * @author Handled Platform Team
+ * @version 1.0.0
+ * @since 2026-10-18
+ *
+ * PURPOSE:
+ * Everything a customer sees in the self-service portal: invoices, payments, the
+ * rates in effect, contracts, warehouse allocations and open issues. The service is
+ * constructed for exactly one customer (taken from the portal session) and every
+ * query it runs is filtered by that customer.
+ *
+ * SCOPE:
+ * ✅ Issued invoices with lines and payments (drafts are never shown)
+ * ✅ Payments on the customer's invoices
+ * ✅ Effective rates today (services, surcharges, minimums) without internal provenance
+ * ✅ Contracts (drafts and archived contracts excluded)
+ * ✅ Active warehouse allocations
+ * ✅ Open issues derived from invoices, contracts and offboarding
+ *
+ * OUT OF SCOPE:
+ * ❌ Any write (the portal is read-only)
+ * ❌ Portal logins and portal user management (PortalUserService)
+ * ❌ Invoice PDFs / document downloads
+ *
+ * BUSINESS RULES:
+ * 🔒 The customer id is fixed at construction - no method takes a customer id, and
+ *    records of another customer resolve to "not found"
+ * 🙈 Internal fields are never selected (internal notes, created-by users, rate provenance)
+ * ⚠️ Open issues: overdue invoices, contracts ending within PORTAL_CONTRACT_EXPIRY_DAYS
+ *    without auto-renewal or a successor, and a scheduled termination
+ *
+ * @example
+ * const portal = new PortalService(prisma, request.portalUser!.customerId);
+ * const { invoices } = await portal.listInvoices({ status: 'open', limit: 50 });
+ * const { issues } = await portal.listIssues();
+ * // issues → [{ type: 'invoice_overdue', severity: 'critical', title: 'Invoice INV-2026-10-0042 is overdue', ... }]
+ */
+
+import type { PrismaClient } from '@prisma/client-primary';
+import { EffectiveRatesService } from './effectiveRatesService.js';
+import { PAYABLE_INVOICE_STATUSES } from './paymentService.js';
+import type { PortalInvoiceListInput, PortalListInput } from '../validation/portalSchema.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type PortalIssueType = 'invoice_overdue' | 'contract_expiring' | 'termination_scheduled';
+
+export interface PortalIssue {
+  id: string;
+  type: PortalIssueType;
+  severity: 'info' | 'warning' | 'critical';
+  title: string;
+  message: string;
+  date: Date;
+  reference: { entity: 'invoice' | 'contract' | 'customer'; id: string };
+}
+
+export interface PortalIssueSources {
+  invoices: Array<{
+    id: string;
+    invoiceNumber: string;
+    status: string;
+    dueDate: Date | null;
+    balanceDue: number;
+  }>;
+  contracts: Array<{
+    id: string;
+    name: string;
+    status: string;
+    endDate: Date | null;
+    autoRenew: boolean;
+    supersededByContractId: string | null;
+  }>;
+  offboarding: { id: string; effectiveDate: Date } | null;
+}
+
+// ============================================
+// PURE HELPERS
+// ============================================
+
+/** Invoices a customer can see - everything but drafts */
+export const PORTAL_INVOICE_STATUSES = ['issued', 'sent', 'paid', 'partial', 'overdue', 'credited', 'void'];
+/** Contracts a customer can see */
+export const PORTAL_CONTRACT_STATUSES = ['active', 'expired', 'terminated'];
+export const PORTAL_CONTRACT_EXPIRY_DAYS = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SEVERITY_ORDER = { critical: 0, warning: 1, info: 2 };
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Portal subdomain from the request host, null when the host is not a portal host
+ * e.g. 'acme.portal.handled.app:443' with base 'portal.handled.app' → 'acme'
+ */
+export function resolvePortalSubdomain(host: string | undefined, baseDomain: string | undefined): string | null {
+  if (!host || !baseDomain) return null;
+
+  const hostname = host.split(':')[0].toLowerCase();
+  const suffix = `.${baseDomain.toLowerCase()}`;
+  if (!hostname.endsWith(suffix)) return null;
+
+  const label = hostname.slice(0, -suffix.length);
+  return label && !label.includes('.') ? label : null;
+}
+
+/**
+ * Invoice status filter for the portal invoice list
+ */
+export function getPortalInvoiceStatuses(status: PortalInvoiceListInput['status']): string[] {
+  if (status === 'open') return PAYABLE_INVOICE_STATUSES;
+  if (status === 'paid') return ['paid'];
+  return PORTAL_INVOICE_STATUSES;
+}
+
+/**
+ * Open issues a customer should act on or know about, most severe first
+ */
+export function buildOpenIssues(sources: PortalIssueSources, now: Date = new Date()): PortalIssue[] {
+  const issues: PortalIssue[] = [];
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const expiryCutoff = new Date(today.getTime() + PORTAL_CONTRACT_EXPIRY_DAYS * DAY_MS);
+
+  for (const invoice of sources.invoices) {
+    const pastDue = !!invoice.dueDate && invoice.dueDate < today && PAYABLE_INVOICE_STATUSES.includes(invoice.status);
+    if (invoice.balanceDue <= 0 || (invoice.status !== 'overdue' && !pastDue)) continue;
+
+    issues.push({
+      id: `invoice_overdue:${invoice.id}`,
+      type: 'invoice_overdue',
+      severity: 'critical',
+      title: `Invoice ${invoice.invoiceNumber} is overdue`,
+      message: `${invoice.balanceDue.toFixed(2)} is due${invoice.dueDate ? ` since ${formatDate(invoice.dueDate)}` : ''}`,
+      date: invoice.dueDate ?? today,
+      reference: { entity: 'invoice', id: invoice.id },
+    });
+  }
+
+  for (const contract of sources.contracts) {
+    if (contract.status !== 'active' || !contract.endDate || contract.autoRenew || contract.supersededByContractId) continue;
+    if (contract.endDate < today || contract.endDate > expiryCutoff) continue;
+
+    issues.push({
+      id: `contract_expiring:${contract.id}`,
+      type: 'contract_expiring',
+      severity: 'warning',
+      title: `${contract.name} ends on ${formatDate(contract.endDate)}`,
+      message: 'This contract does not renew automatically - contact your account manager to renew it',
+      date: contract.endDate,
+      reference: { entity: 'contract', id: contract.id },
+    });
+  }
+
+  if (sources.offboarding) {
+    issues.push({
+      id: `termination_scheduled:${sources.offboarding.id}`,
+      type: 'termination_scheduled',
+      severity: 'info',
+      title: `Service ends on ${formatDate(sources.offboarding.effectiveDate)}`,
+      message: 'Your account is scheduled to close - your final invoice follows the last day of service',
+      date: sources.offboarding.effectiveDate,
+      reference: { entity: 'customer', id: sources.offboarding.id },
+    });
+  }
+
+  return issues.sort((a, b) =>
+    SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || a.date.getTime() - b.date.getTime()
+  );
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+const INVOICE_SELECT = {
+  id: true,
+  invoiceNumber: true,
+  billingCycle: true,
+  periodStart: true,
+  periodEnd: true,
+  issuedAt: true,
+  dueDate: true,
+  status: true,
+  subtotal: true,
+  tax: true,
+  total: true,
+  balanceDue: true,
+  notes: true,
+};
+
+const PAYMENT_SELECT = {
+  id: true,
+  amount: true,
+  paymentDate: true,
+  method: true,
+  reference: true,
+  status: true,
+};
+
+export class PortalService {
+  constructor(private prisma: PrismaClient, private customerId: string) {}
+
+  /**
+   * Customer name and settings the portal header needs
+   */
+  async getProfile() {
+    const customer = await this.prisma.customer.findFirst({
+      where: { id: this.customerId, deleted: false },
+      select: { id: true, name: true, status: true, settings: { select: { timezone: true } } },
+    });
+
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+    return customer;
+  }
+
+  async listInvoices(input: PortalInvoiceListInput) {
+    const where = { customerId: this.customerId, status: { in: getPortalInvoiceStatuses(input.status) } };
+
+    const [invoices, total] = await Promise.all([
+      this.prisma.invoice.findMany({
+        where,
+        select: INVOICE_SELECT,
+        orderBy: [{ periodStart: 'desc' }, { invoiceNumber: 'desc' }],
+        take: input.limit,
+      }),
+      this.prisma.invoice.count({ where }),
+    ]);
+
+    return { invoices, total };
+  }
+
+  async getInvoice(invoiceId: string) {
+    const invoice = await this.prisma.invoice.findFirst({
+      where: { id: invoiceId, customerId: this.customerId, status: { in: PORTAL_INVOICE_STATUSES } },
+      select: {
+        ...INVOICE_SELECT,
+        lines: {
+          select: { id: true, description: true, category: true, quantity: true, unit: true, unitRate: true, lineTotal: true },
+          orderBy: { lineOrder: 'asc' },
+        },
+        payments: { select: PAYMENT_SELECT, orderBy: { paymentDate: 'asc' } },
+      },
+    });
+
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+    return invoice;
+  }
+
+  async listPayments(input: PortalListInput) {
+    const payments = await this.prisma.payment.findMany({
+      where: { invoice: { customerId: this.customerId } },
+      select: {
+        ...PAYMENT_SELECT,
+        invoice: { select: { id: true, invoiceNumber: true } },
+      },
+      orderBy: [{ paymentDate: 'desc' }, { recordedAt: 'desc' }],
+      take: input.limit,
+    });
+
+    return { payments };
+  }
+
+  /**
+   * Rates in effect today, as the customer is charged them
+   */
+  async getRateCard() {
+    const rates = await new EffectiveRatesService(this.prisma).getEffectiveRates(this.customerId);
+
+    return {
+      date: rates.date,
+      rateCards: rates.sources.map(source => ({
+        name: source.name,
+        version: source.version,
+        rateCardType: source.rateCardType,
+        effectiveDate: source.effectiveDate,
+        expiresDate: source.expiresDate,
+      })),
+      services: rates.services.map(service => ({
+        serviceType: service.serviceType,
+        name: service.catalog?.name ?? service.serviceType,
+        unit: service.catalog?.unit ?? null,
+        category: service.catalog?.category ?? null,
+        rate: service.rate,
+      })),
+      surcharges: rates.surcharges.map(({ type, surcharge }) => ({ type, surcharge })),
+      minimums: rates.minimums.map(({ field, value }) => ({ field, value })),
+    };
+  }
+
+  async listContracts() {
+    const contracts = await this.prisma.contract.findMany({
+      where: { customerId: this.customerId, archivedAt: null, status: { in: PORTAL_CONTRACT_STATUSES } },
+      select: {
+        id: true,
+        contractNumber: true,
+        name: true,
+        contractType: true,
+        status: true,
+        startDate: true,
+        endDate: true,
+        autoRenew: true,
+        billingCycle: true,
+        paymentTerms: true,
+      },
+      orderBy: { startDate: 'desc' },
+    });
+
+    return { contracts };
+  }
+
+  async listAllocations() {
+    const allocations = await this.prisma.warehouseAllocation.findMany({
+      where: { customerId: this.customerId, deleted: false, status: 'active' },
+      select: {
+        id: true,
+        isPrimary: true,
+        spaceAllocated: true,
+        zoneAssignment: true,
+        warehouse: { select: { id: true, code: true, name: true, address: true, timezone: true } },
+      },
+      orderBy: { isPrimary: 'desc' },
+    });
+
+    return { allocations };
+  }
+
+  async listIssues(now: Date = new Date()) {
+    const [invoices, contracts, offboarding] = await Promise.all([
+      this.prisma.invoice.findMany({
+        where: { customerId: this.customerId, status: { in: PAYABLE_INVOICE_STATUSES }, balanceDue: { gt: 0 } },
+        select: { id: true, invoiceNumber: true, status: true, dueDate: true, balanceDue: true },
+      }),
+      this.prisma.contract.findMany({
+        where: { customerId: this.customerId, archivedAt: null, status: 'active', endDate: { not: null } },
+        select: { id: true, name: true, status: true, endDate: true, autoRenew: true, supersededByContractId: true },
+      }),
+      this.prisma.customerOffboarding.findFirst({
+        where: { customerId: this.customerId, status: 'scheduled' },
+        select: { id: true, effectiveDate: true },
+      }),
+    ]);
+
+    return {
+      issues: buildOpenIssues({
+        invoices: invoices.map(invoice => ({ ...invoice, balanceDue: Number(invoice.balanceDue) })),
+        contracts,
+        offboarding,
+      }, now),
+    };
+  }
+}
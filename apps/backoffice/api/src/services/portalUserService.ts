@@ -0,0 +1,176 @@
+/**
+ * @fileoverview Portal User Service - Customer portal logins
+ * @author Handled Platform Team
+ * @version 1.0.0
+ * @since 2026-10-18
+ *
+ * PURPOSE:
+ * Customer-scoped portal accounts, kept apart from staff users in config.users.
+ * Staff invite portal users per customer; portal users sign in through their
+ * customer's portal, found by CustomerSettings.portalSubdomain.
+ *
+ * SCOPE:
+ * ✅ Portal lookup by subdomain (login page branding)
+ * ✅ Credential check for a portal login
+ * ✅ Staff list / create / update (rename, disable, reset password) per customer
+ *
+ * OUT OF SCOPE:
+ * ❌ Sessions and cookies (portalLucia in the portal routes)
+ * ❌ Self-service sign-up and password reset emails
+ * ❌ Portal data (PortalService)
+ *
+ * BUSINESS RULES:
+ * 🔑 A portal user can only sign in through their own customer's portal
+ * 🚪 Only portals with portalEnabled accept logins
+ * 📧 Emails are stored lowercase and are unique within a customer
+ * 🚫 Disabling a user or resetting the password ends all of their sessions
+ *
+ * @example
+ * const portalUsers = new PortalUserService(prisma);
+ * await portalUsers.createUser(customerId, { email: 'ap@acme.com', name: 'Acme AP', password: '••••••••' }, staffUserId);
+ * const user = await portalUsers.authenticate({ email: 'ap@acme.com', password: '••••••••' }, 'acme');
+ */
+
+import type { PrismaClient } from '@prisma/client-primary';
+import { generateId } from 'lucia';
+import { hashPassword, verifyPassword } from '../auth/password.js';
+import type {
+  CreatePortalUserInput,
+  PortalLoginInput,
+  UpdatePortalUserInput,
+} from '../validation/portalSchema.js';
+
+// ============================================
+// SERVICE
+// ============================================
+
+const USER_SELECT = {
+  id: true,
+  customerId: true,
+  email: true,
+  name: true,
+  disabled: true,
+  lastLoginAt: true,
+  createdAt: true,
+  createdByUser: { select: { id: true, name: true } },
+};
+
+export class PortalUserService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Enabled portal for a subdomain
+   */
+  async getPortal(subdomain: string) {
+    const settings = await this.prisma.customerSettings.findFirst({
+      where: { portalSubdomain: subdomain, portalEnabled: true, customer: { deleted: false } },
+      select: { customer: { select: { id: true, name: true } } },
+    });
+
+    if (!settings) {
+      throw new Error('Portal not found');
+    }
+    return { subdomain, customerId: settings.customer.id, customerName: settings.customer.name };
+  }
+
+  /**
+   * Check portal credentials against the portal's customer
+   */
+  async authenticate(input: PortalLoginInput, subdomain: string) {
+    const portal = await this.getPortal(subdomain);
+
+    const user = await this.prisma.portalUser.findUnique({
+      where: { customerId_email: { customerId: portal.customerId, email: input.email } },
+    });
+
+    if (!user || !(await verifyPassword(user.hashedPassword, input.password))) {
+      throw new Error('Invalid email or password');
+    }
+    if (user.disabled) {
+      throw new Error('Account is disabled');
+    }
+
+    await this.prisma.portalUser.update({
+      where: { id: user.id },
+      data: { lastLoginAt: new Date() },
+    });
+
+    return { id: user.id, email: user.email, name: user.name, customer: { id: portal.customerId, name: portal.customerName } };
+  }
+
+  private async assertCustomer(customerId: string) {
+    const customer = await this.prisma.customer.findUnique({
+      where: { id: customerId },
+      select: { id: true },
+    });
+
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+  }
+
+  async listUsers(customerId: string) {
+    await this.assertCustomer(customerId);
+
+    const users = await this.prisma.portalUser.findMany({
+      where: { customerId },
+      select: USER_SELECT,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return { users };
+  }
+
+  async createUser(customerId: string, input: CreatePortalUserInput, createdBy: string) {
+    await this.assertCustomer(customerId);
+
+    const existing = await this.prisma.portalUser.findUnique({
+      where: { customerId_email: { customerId, email: input.email } },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new Error(`Cannot invite ${input.email}: a portal user with this email already exists`);
+    }
+
+    return this.prisma.portalUser.create({
+      data: {
+        id: generateId(15),
+        customerId,
+        email: input.email,
+        name: input.name,
+        hashedPassword: await hashPassword(input.password),
+        createdBy,
+      },
+      select: USER_SELECT,
+    });
+  }
+
+  async updateUser(customerId: string, userId: string, input: UpdatePortalUserInput) {
+    const user = await this.prisma.portalUser.findFirst({
+      where: { id: userId, customerId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      throw new Error('Portal user not found');
+    }
+
+    return this.prisma.$transaction(async (tx: any) => {
+      const updated = await tx.portalUser.update({
+        where: { id: userId },
+        data: {
+          ...(input.name !== undefined && { name: input.name }),
+          ...(input.disabled !== undefined && { disabled: input.disabled }),
+          ...(input.password && { hashedPassword: await hashPassword(input.password) }),
+        },
+        select: USER_SELECT,
+      });
+
+      if (input.disabled || input.password) {
+        await tx.portalSession.deleteMany({ where: { userId } });
+      }
+
+      return updated;
+    });
+  }
+}
@@ -0,0 +1,418 @@
+/**
+ * @fileoverview Purge Service - Hard-delete soft-deleted records after retention
+ * @author Handled Platform Team
+ * @version 1.0.0
+ * @since 2026-10-18
+ *
+ * PURPOSE:
+ * Implements docs/PURGE_JOB_SPEC.md: customers, warehouses, contacts, facilities and
+ * users marked `deleted` are hard-deleted once they have been deleted for longer than
+ * their retention period, together with the child records they orphaned.
+ *
+ * SCOPE:
+ * ✅ Eligibility: deleted, deleted before the retention threshold, never retired
+ * ✅ Per-entity retention (PURGE_RETENTION_DAYS, PURGE_RETENTION_DAYS_<ENTITY>)
+ * ✅ Evidentiary value re-checked right before deleting (usage-detection), and again
+ *    inside the purge transaction with the record locked
+ * ✅ Cascade to orphaned children, one transaction per purged record
+ * ✅ PURGE entry in the audit log for every purged record
+ * ✅ Dry run: report what would be purged without deleting
+ *
+ * OUT OF SCOPE:
+ * ❌ Contracts and roles (never purged - no `deleted` column)
+ * ❌ Scheduling (jobs/purge-cron.ts) and the admin trigger (routes/purge.ts)
+ *
+ * BUSINESS RULES:
+ * 🔒 Retired != deleted: anything with retired_at set is never purged
+ * ⏳ Retention defaults to 180 days and can never be set below 30
+ * 🧾 A record that gained evidentiary value since it was deleted is skipped, not purged
+ * 📜 A customer with contracts or rate cards is never purged, test data or not - the
+ *    foreign keys would cascade the delete to them
+ * 🔐 The record's row is locked before the re-check, so child rows created concurrently
+ *    wait for the purge and then fail their foreign key instead of being deleted
+ * ⚛️ Children, parent and audit entry are deleted/written atomically - an error rolls
+ *    the whole record back and the run continues with the next one
+ * 🚦 At most `limit` records per run (default 1000); the rest wait for the next run
+ *
+ * @example
+ * const purge = new PurgeService(prisma, checkEvidentaryValue);
+ * const preview = await purge.run({ dryRun: true });
+ * const result = await purge.run({ dryRun: false, entityTypes: ['contact'] });
+ */
+
+import type { PrismaClient } from '@prisma/client-primary';
+import type { EvidentaryCheck, EvidentaryClient } from './usage-detection.js';
+import { toEntityType } from './auditLog.js';
+import { PURGE_ENTITIES, type PurgeEntity } from '../validation/purgeSchema.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type PurgeRetention = Record<PurgeEntity, number>;
+
+/** checkEvidentaryValue from usage-detection - injected so the service has no global client */
+export type EvidentaryChecker = (entity: PurgeEntity, entityId: string, db?: EvidentaryClient) => Promise<EvidentaryCheck>;
+
+export interface PurgeCandidate {
+  id: string;
+  deleted: boolean;
+  deletedAt: Date | null;
+  retiredAt?: Date | null;
+  customerId?: string;
+}
+
+export interface PurgeResult {
+  entityType: PurgeEntity;
+  entityId: string;
+  deletedAt: string;
+  childrenPurged: Record<string, number>;
+}
+
+export interface PurgeSkip {
+  entityType: PurgeEntity;
+  entityId: string;
+  reason: string;
+}
+
+export interface PurgeFailure {
+  entityType: PurgeEntity;
+  entityId: string;
+  error: string;
+}
+
+export interface PurgeRunResult {
+  dryRun: boolean;
+  ranAt: string;
+  retention: PurgeRetention;
+  /** Purged records - or, in a dry run, the records that would be purged */
+  purged: PurgeResult[];
+  skipped: PurgeSkip[];
+  failed: PurgeFailure[];
+  /** More records were eligible than the run limit allowed */
+  limitReached: boolean;
+}
+
+export interface PurgeRunOptions {
+  dryRun?: boolean;
+  entityTypes?: PurgeEntity[];
+  limit?: number;
+  retention?: PurgeRetention;
+  now?: Date;
+}
+
+interface PurgeChild {
+  /** Key in childrenPurged */
+  name: string;
+  model: string;
+  foreignKey: string;
+}
+
+interface PurgeTarget {
+  model: string;
+  /** Schema-qualified table, for the row lock */
+  table: string;
+  /** Whether the table has retired_at (retired records are never purged) */
+  retirable: boolean;
+  /** Orphaned children deleted before the record itself, in this order */
+  children: PurgeChild[];
+  /** Children that are never purged - while any exist the record is not purged either */
+  keptChildren: PurgeChild[];
+  /** Children of a customer - skipped when their customer is purged in the same run */
+  customerOwned: boolean;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const DEFAULT_RETENTION_DAYS = 180;
+export const MIN_RETENTION_DAYS = 30;
+export const DEFAULT_PURGE_LIMIT = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PURGE_TARGETS: Record<PurgeEntity, PurgeTarget> = {
+  customer: {
+    model: 'customer',
+    table: 'customer.customers',
+    retirable: true,
+    children: [
+      { name: 'contacts', model: 'contact', foreignKey: 'customerId' },
+      { name: 'facilities', model: 'customerFacility', foreignKey: 'customerId' },
+      { name: 'warehouseAllocations', model: 'warehouseAllocation', foreignKey: 'customerId' },
+    ],
+    keptChildren: [
+      { name: 'contracts', model: 'contract', foreignKey: 'customerId' },
+      { name: 'rate cards', model: 'rateCard', foreignKey: 'customerId' },
+    ],
+    customerOwned: false,
+  },
+  warehouse: {
+    model: 'warehouse',
+    table: 'company.warehouses',
+    retirable: true,
+    children: [
+      { name: 'zones', model: 'warehouseZone', foreignKey: 'warehouseId' },
+    ],
+    keptChildren: [],
+    customerOwned: false,
+  },
+  contact: { model: 'contact', table: 'customer.contacts', retirable: false, children: [], keptChildren: [], customerOwned: true },
+  facility: { model: 'customerFacility', table: 'customer.facilities', retirable: false, children: [], keptChildren: [], customerOwned: true },
+  user: {
+    model: 'user',
+    table: 'config.users',
+    retirable: false,
+    children: [
+      { name: 'userRoles', model: 'userRole', foreignKey: 'userId' },
+    ],
+    keptChildren: [],
+    customerOwned: false,
+  },
+};
+
+// ============================================
+// PURE HELPERS
+// ============================================
+
+function parseRetentionDays(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') return null;
+  const days = Number(value);
+  if (!Number.isInteger(days)) return null;
+  return Math.max(days, MIN_RETENTION_DAYS);
+}
+
+/**
+ * Retention per entity type from PURGE_RETENTION_DAYS (all types) and
+ * PURGE_RETENTION_DAYS_<ENTITY> overrides. Invalid values are ignored; values
+ * below MIN_RETENTION_DAYS are raised to it.
+ */
+export function getPurgeRetention(env: Record<string, string | undefined> = process.env): PurgeRetention {
+  const fallback = parseRetentionDays(env.PURGE_RETENTION_DAYS) ?? DEFAULT_RETENTION_DAYS;
+
+  return Object.fromEntries(
+    PURGE_ENTITIES.map(entity => [
+      entity,
+      parseRetentionDays(env[`PURGE_RETENTION_DAYS_${entity.toUpperCase()}`]) ?? fallback,
+    ])
+  ) as PurgeRetention;
+}
+
+/**
+ * Records deleted before this moment are past their retention
+ */
+export function getPurgeThreshold(retentionDays: number, now: Date = new Date()): Date {
+  return new Date(now.getTime() - retentionDays * DAY_MS);
+}
+
+/**
+ * Why a record may not be purged (null = eligible)
+ */
+export function getPurgeBlocker(record: PurgeCandidate, threshold: Date): string | null {
+  if (!record.deleted) return 'Not marked deleted';
+  if (record.retiredAt) return 'Retired records are never purged';
+  if (!record.deletedAt) return 'No deletion date recorded';
+  if (record.deletedAt >= threshold) return 'Still inside the retention period';
+  return null;
+}
+
+/**
+ * Audit log details for a purged record, e.g.
+ * "Hard deleted after 180 day retention (deleted 2026-03-02); children: contacts 2, facilities 1"
+ */
+export function describePurge(retentionDays: number, deletedAt: Date, childrenPurged: Record<string, number>): string {
+  const children = Object.entries(childrenPurged)
+    .filter(([, count]) => count > 0)
+    .map(([name, count]) => `${name} ${count}`);
+
+  return `Hard deleted after ${retentionDays} day retention (deleted ${deletedAt.toISOString().slice(0, 10)})` +
+    (children.length > 0 ? `; children: ${children.join(', ')}` : '');
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+export class PurgeService {
+  constructor(private prisma: PrismaClient, private checkValue: EvidentaryChecker) {}
+
+  /**
+   * Purge every eligible record of the selected entity types. Customers go first so
+   * their contacts and facilities are removed with them rather than one by one.
+   */
+  async run(options: PurgeRunOptions = {}): Promise<PurgeRunResult> {
+    const now = options.now ?? new Date();
+    const dryRun = options.dryRun ?? false;
+    const retention = options.retention ?? getPurgeRetention();
+    const limit = options.limit ?? DEFAULT_PURGE_LIMIT;
+    const entityTypes = PURGE_ENTITIES.filter(entity => !options.entityTypes || options.entityTypes.includes(entity));
+
+    const result: PurgeRunResult = {
+      dryRun,
+      ranAt: now.toISOString(),
+      retention,
+      purged: [],
+      skipped: [],
+      failed: [],
+      limitReached: false,
+    };
+    const purgedCustomers = new Set<string>();
+
+    for (const entityType of entityTypes) {
+      const target = PURGE_TARGETS[entityType];
+      const threshold = getPurgeThreshold(retention[entityType], now);
+      if (result.purged.length >= limit) {
+        result.limitReached = true;
+        break;
+      }
+
+      const candidates = (await this.findCandidates(target, threshold))
+        .filter(candidate => !(target.customerOwned && candidate.customerId && purgedCustomers.has(candidate.customerId)));
+
+      for (const candidate of candidates) {
+        if (result.purged.length >= limit) {
+          result.limitReached = true;
+          break;
+        }
+
+        try {
+          const blocker = getPurgeBlocker(candidate, threshold);
+          if (blocker) {
+            result.skipped.push({ entityType, entityId: candidate.id, reason: blocker });
+            continue;
+          }
+
+          const keptBy = await this.findKeepReason(entityType, candidate.id, this.prisma);
+          if (keptBy) {
+            result.skipped.push({ entityType, entityId: candidate.id, reason: keptBy });
+            continue;
+          }
+
+          const outcome = dryRun
+            ? { childrenPurged: await this.countChildren(target, candidate.id) }
+            : await this.purgeRecord(entityType, candidate, retention[entityType], threshold);
+          if ('keptBy' in outcome) {
+            result.skipped.push({ entityType, entityId: candidate.id, reason: outcome.keptBy });
+            continue;
+          }
+          const { childrenPurged } = outcome;
+
+          result.purged.push({
+            entityType,
+            entityId: candidate.id,
+            deletedAt: candidate.deletedAt!.toISOString(),
+            childrenPurged,
+          });
+          if (entityType === 'customer') purgedCustomers.add(candidate.id);
+        } catch (error) {
+          result.failed.push({ entityType, entityId: candidate.id, error: (error as Error).message });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  private async findCandidates(target: PurgeTarget, threshold: Date): Promise<PurgeCandidate[]> {
+    return (this.prisma as any)[target.model].findMany({
+      where: {
+        deleted: true,
+        deletedAt: { lt: threshold },
+        ...(target.retirable ? { retiredAt: null } : {}),
+      },
+      select: {
+        id: true,
+        deleted: true,
+        deletedAt: true,
+        ...(target.retirable ? { retiredAt: true } : {}),
+        ...(target.customerOwned ? { customerId: true } : {}),
+      },
+      orderBy: { deletedAt: 'asc' },
+    });
+  }
+
+  /**
+   * Why a record that is otherwise eligible must be kept (null = purge it). Runs before
+   * the purge and again inside its transaction, through `db`.
+   */
+  private async findKeepReason(entityType: PurgeEntity, id: string, db: any): Promise<string | null> {
+    const valueCheck = await this.checkValue(entityType, id, db);
+    if (valueCheck.hasValue) return `Has evidentiary value: ${valueCheck.reason}`;
+
+    for (const child of PURGE_TARGETS[entityType].keptChildren) {
+      const count = await db[child.model].count({ where: { [child.foreignKey]: id } });
+      if (count > 0) return `Still has ${child.name} (never purged)`;
+    }
+    return null;
+  }
+
+  private async countChildren(target: PurgeTarget, id: string): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {};
+    for (const child of target.children) {
+      counts[child.name] = await (this.prisma as any)[child.model].count({ where: { [child.foreignKey]: id } });
+    }
+    return counts;
+  }
+
+  /**
+   * Hard-delete one record with its children and log the purge, atomically. The record
+   * is locked and re-read inside the transaction, then re-checked for evidentiary value,
+   * in case it was restored or gained history since it was selected.
+   */
+  private async purgeRecord(
+    entityType: PurgeEntity,
+    candidate: PurgeCandidate,
+    retentionDays: number,
+    threshold: Date
+  ): Promise<{ childrenPurged: Record<string, number> } | { keptBy: string }> {
+    const target = PURGE_TARGETS[entityType];
+
+    return this.prisma.$transaction(async (tx: any) => {
+      // Inserting a child takes a key-share lock on this row, so new children wait for the purge
+      await tx.$queryRawUnsafe(`SELECT id FROM ${target.table} WHERE id = $1 FOR UPDATE`, candidate.id);
+
+      const current = await tx[target.model].findUnique({
+        where: { id: candidate.id },
+        select: {
+          id: true,
+          deleted: true,
+          deletedAt: true,
+          ...(target.retirable ? { retiredAt: true } : {}),
+        },
+      });
+      if (!current) {
+        throw new Error(`${entityType} ${candidate.id} no longer exists`);
+      }
+      const blocker = getPurgeBlocker(current, threshold);
+      if (blocker) {
+        throw new Error(`Cannot purge ${entityType} ${candidate.id}: ${blocker}`);
+      }
+      const keptBy = await this.findKeepReason(entityType, candidate.id, tx);
+      if (keptBy) {
+        return { keptBy };
+      }
+
+      const childrenPurged: Record<string, number> = {};
+      for (const child of target.children) {
+        const { count } = await tx[child.model].deleteMany({ where: { [child.foreignKey]: candidate.id } });
+        childrenPurged[child.name] = count;
+      }
+
+      await tx[target.model].delete({ where: { id: candidate.id } });
+
+      await tx.auditLog.create({
+        data: {
+          action: 'PURGE',
+          entityType: toEntityType(target.model),
+          entityId: candidate.id,
+          parentType: candidate.customerId ? 'customer' : null,
+          parentId: candidate.customerId ?? null,
+          details: describePurge(retentionDays, current.deletedAt, childrenPurged),
+        },
+      });
+
+      return { childrenPurged };
+    });
+  }
+}
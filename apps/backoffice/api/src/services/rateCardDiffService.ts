@@ -0,0 +1,491 @@
+/**
+ * @fileoverview Rate Card Diff Service - Structured comparison of rate cards
+ * @author Handled Platform Team
+ * @version 1.0.0
+ * @since 2026-10-18
+ *
+ * PURPOSE:
+ * Show account managers exactly what changes between two rate cards (e.g. v2 → v3
+ * of a customer's card) or between a card and its effective result once its
+ * adjustments are layered on, so price increases can be reviewed before signing.
+ *
+ * SCOPE:
+ * ✅ Service-by-service diff: added / removed / changed / unchanged
+ * ✅ Base rates, tiers, zone tiers and item rates with absolute and percentage deltas
+ * ✅ Tier mode, unit and description changes
+ * ✅ Surcharge changes (rate, basis, window, conditions) by surcharge type
+ * ✅ Minimums (rates.minimums and the card's minimumMonthlyCharge)
+ * ✅ Legacy flat subtypes (rates.fulfillment.baseOrder...) compared as category.subtype
+ * ✅ Effective card = standard card merged with its adjustments in effect on a date
+ *
+ * OUT OF SCOPE:
+ * ❌ Billing impact in money terms (RateSimulationService)
+ * ❌ Billing cycles and contract links
+ *
+ * BUSINESS RULES:
+ * 🔀 Adjustments merge like the rate engine resolves them: the most recent
+ *    adjustment defining a service, surcharge type or minimum wins over the card
+ * 🎯 Tiers are matched by their volume range - a moved boundary shows as a removed
+ *    and an added tier
+ * 📊 deltaPercent is relative to the "from" rate, null when there is none
+ *
+ * @example
+ * const diffs = new RateCardDiffService(prisma);
+ * const diff = await diffs.diffCards(previousVersionId, currentVersionId);
+ * // diff.services → [{ serviceType: 'Fulfillment_Order', status: 'changed', baseRate: { from: 3, to: 3.25, ... } }]
+ */
+
+import type { PrismaClient } from '@prisma/client-primary';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+/**
+ * Card fields the diff reads
+ */
+export interface DiffableCard {
+  id: string;
+  name: string;
+  version: number;
+  rateCardType: string;
+  effectiveDate: Date;
+  expiresDate: Date | null;
+  rates: any;
+  minimumMonthlyCharge: number | null;
+}
+
+export interface RateDelta {
+  from: number | null;
+  to: number | null;
+  delta: number | null;
+  deltaPercent: number | null;
+}
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface TierDiff extends RateDelta {
+  range: string;
+  status: DiffStatus;
+}
+
+export interface ServiceDiff {
+  serviceType: string;
+  description: string;
+  status: DiffStatus;
+  baseRate: RateDelta | null;
+  fieldChanges: FieldChange[];
+  /** Changed tiers only */
+  tiers: TierDiff[];
+  /** Zones with changed tiers only */
+  zones: Array<{ zone: string; status: DiffStatus; tiers: TierDiff[] }>;
+  /** Changed item rates only */
+  items: Array<RateDelta & { item: string; status: DiffStatus }>;
+}
+
+export interface SurchargeDiff {
+  type: string;
+  description: string;
+  status: DiffStatus;
+  percentage: RateDelta | null;
+  amount: RateDelta | null;
+  fieldChanges: FieldChange[];
+}
+
+export interface MinimumDiff extends RateDelta {
+  field: 'monthlyMinimum' | 'orderMinimum' | 'minimumMonthlyCharge';
+  status: DiffStatus;
+}
+
+export interface DiffCardSummary {
+  id: string;
+  name: string;
+  version: number;
+  rateCardType: string;
+  effectiveDate: Date;
+  expiresDate: Date | null;
+  /** Adjustments merged into an effective card */
+  adjustmentIds?: string[];
+}
+
+export interface RateCardDiff {
+  from: DiffCardSummary;
+  to: DiffCardSummary;
+  services: ServiceDiff[];
+  surcharges: SurchargeDiff[];
+  minimums: MinimumDiff[];
+  summary: {
+    added: number;
+    removed: number;
+    changed: number;
+    unchanged: number;
+    /** Rate deltas (base, tier, zone, item, surcharge, minimum) that went up / down */
+    increases: number;
+    decreases: number;
+  };
+}
+
+// ============================================
+// PURE HELPERS
+// ============================================
+
+function roundRate(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const number = Number(value);
+  return Number.isNaN(number) ? null : number;
+}
+
+/**
+ * Change between two rates; percentage relative to the from rate
+ */
+export function rateDelta(from: unknown, to: unknown): RateDelta {
+  const fromRate = toNumber(from);
+  const toRate = toNumber(to);
+  const delta = fromRate !== null && toRate !== null ? roundRate(toRate - fromRate) : null;
+
+  return {
+    from: fromRate,
+    to: toRate,
+    delta,
+    deltaPercent: delta !== null && fromRate ? Math.round((delta / fromRate) * 10000) / 100 : null,
+  };
+}
+
+function deltaStatus(delta: RateDelta): DiffStatus {
+  if (delta.from === null && delta.to === null) return 'unchanged';
+  if (delta.from === null) return 'added';
+  if (delta.to === null) return 'removed';
+  return delta.delta === 0 ? 'unchanged' : 'changed';
+}
+
+function keyedStatus(from: unknown, to: unknown): DiffStatus {
+  if (from === undefined) return 'added';
+  if (to === undefined) return 'removed';
+  return 'unchanged';
+}
+
+function tierRange(tier: { minVolume: number; maxVolume: number | null }): string {
+  return `${tier.minVolume}-${tier.maxVolume ?? '∞'}`;
+}
+
+function byKey<T>(entries: T[] | undefined, key: (entry: T) => string): Map<string, T> {
+  return new Map((entries ?? []).map(entry => [key(entry), entry]));
+}
+
+function unionKeys(a: Map<string, unknown>, b: Map<string, unknown>): string[] {
+  return [...new Set([...a.keys(), ...b.keys()])];
+}
+
+/**
+ * Changed tiers between two tier lists, matched by volume range
+ */
+export function diffTiers(from: any[] | undefined, to: any[] | undefined): TierDiff[] {
+  const fromTiers = byKey<any>(from, tierRange);
+  const toTiers = byKey<any>(to, tierRange);
+
+  return unionKeys(fromTiers, toTiers)
+    .map(range => {
+      const delta = rateDelta(fromTiers.get(range)?.rate, toTiers.get(range)?.rate);
+      return { range, ...delta, status: deltaStatus(delta) };
+    })
+    .filter(tier => tier.status !== 'unchanged')
+    .sort((a, b) => parseFloat(a.range) - parseFloat(b.range));
+}
+
+function fieldChanges(from: any, to: any, fields: string[]): FieldChange[] {
+  return fields
+    .filter(field => JSON.stringify(from?.[field] ?? null) !== JSON.stringify(to?.[field] ?? null))
+    .map(field => ({ field, from: from?.[field] ?? null, to: to?.[field] ?? null }));
+}
+
+/**
+ * Legacy flat subtypes ({ fulfillment: { baseOrder: 3 } }) as baseRate services
+ */
+export function flattenLegacyRates(rates: any): any[] {
+  const services: any[] = [];
+
+  for (const [category, subtypes] of Object.entries(rates ?? {})) {
+    if (['services', 'surcharges', 'minimums'].includes(category)) continue;
+    if (!subtypes || typeof subtypes !== 'object' || Array.isArray(subtypes)) continue;
+
+    for (const [subtype, value] of Object.entries(subtypes as Record<string, unknown>)) {
+      if (toNumber(value) === null) continue;
+      services.push({ serviceType: `${category}.${subtype}`, description: `${category} ${subtype}`, unit: 'legacy', baseRate: value });
+    }
+  }
+
+  return services;
+}
+
+/**
+ * Compare one service definition across two cards
+ */
+export function diffService(from: any | undefined, to: any | undefined): ServiceDiff {
+  const service = to ?? from;
+  const baseRate = rateDelta(from?.baseRate, to?.baseRate);
+  const tiers = diffTiers(from?.tiers, to?.tiers);
+
+  const fromZones = byKey<any>(from?.zones, zone => String(zone.zone));
+  const toZones = byKey<any>(to?.zones, zone => String(zone.zone));
+  const zones = unionKeys(fromZones, toZones)
+    .map(zone => {
+      const zoneTiers = diffTiers(fromZones.get(zone)?.tiers, toZones.get(zone)?.tiers);
+      const status = keyedStatus(fromZones.get(zone), toZones.get(zone));
+      return { zone, status: status === 'unchanged' && zoneTiers.length > 0 ? 'changed' as const : status, tiers: zoneTiers };
+    })
+    .filter(zone => zone.status !== 'unchanged');
+
+  const fromItems = byKey<any>(from?.items, item => item.item);
+  const toItems = byKey<any>(to?.items, item => item.item);
+  const items = unionKeys(fromItems, toItems)
+    .map(item => {
+      const delta = rateDelta(fromItems.get(item)?.rate, toItems.get(item)?.rate);
+      return { item, ...delta, status: deltaStatus(delta) };
+    })
+    .filter(item => item.status !== 'unchanged');
+
+  const changes = from && to ? fieldChanges(from, to, ['description', 'unit', 'tierMode']) : [];
+  let status: DiffStatus = keyedStatus(from, to);
+  if (status === 'unchanged' && (
+    deltaStatus(baseRate) !== 'unchanged' || tiers.length > 0 || zones.length > 0 || items.length > 0 || changes.length > 0
+  )) {
+    status = 'changed';
+  }
+
+  return {
+    serviceType: service.serviceType,
+    description: service.description ?? service.serviceType,
+    status,
+    baseRate: baseRate.from === null && baseRate.to === null ? null : baseRate,
+    fieldChanges: changes,
+    tiers,
+    zones,
+    items,
+  };
+}
+
+/**
+ * Compare one surcharge type across two cards
+ */
+export function diffSurcharge(from: any | undefined, to: any | undefined): SurchargeDiff {
+  const surcharge = to ?? from;
+  const percentage = rateDelta(from?.percentage, to?.percentage);
+  const amount = rateDelta(from?.amount, to?.amount);
+  const changes = from && to ? fieldChanges(from, to, ['description', 'basis', 'appliesFrom', 'appliesTo', 'conditions']) : [];
+
+  let status: DiffStatus = keyedStatus(from, to);
+  if (status === 'unchanged' && (
+    deltaStatus(percentage) !== 'unchanged' || deltaStatus(amount) !== 'unchanged' || changes.length > 0
+  )) {
+    status = 'changed';
+  }
+
+  return {
+    type: surcharge.type,
+    description: surcharge.description ?? surcharge.type,
+    status,
+    percentage: percentage.from === null && percentage.to === null ? null : percentage,
+    amount: amount.from === null && amount.to === null ? null : amount,
+    fieldChanges: changes,
+  };
+}
+
+function summarizeCard(card: DiffableCard): DiffCardSummary {
+  return {
+    id: card.id,
+    name: card.name,
+    version: card.version,
+    rateCardType: card.rateCardType,
+    effectiveDate: card.effectiveDate,
+    expiresDate: card.expiresDate,
+  };
+}
+
+/**
+ * Structured diff from one card to another
+ * Pure function - no database access
+ */
+export function diffRateCards(from: DiffableCard, to: DiffableCard): RateCardDiff {
+  const services = (card: DiffableCard) => byKey<any>(
+    [...(card.rates?.services ?? []), ...flattenLegacyRates(card.rates)],
+    service => service.serviceType
+  );
+  const fromServices = services(from);
+  const toServices = services(to);
+
+  const fromSurcharges = byKey<any>(from.rates?.surcharges, surcharge => surcharge.type);
+  const toSurcharges = byKey<any>(to.rates?.surcharges, surcharge => surcharge.type);
+
+  const serviceDiffs = unionKeys(fromServices, toServices)
+    .map(type => diffService(fromServices.get(type), toServices.get(type)))
+    .sort((a, b) => a.serviceType.localeCompare(b.serviceType));
+  const surchargeDiffs = unionKeys(fromSurcharges, toSurcharges)
+    .map(type => diffSurcharge(fromSurcharges.get(type), toSurcharges.get(type)));
+
+  const minimums: MinimumDiff[] = [
+    { field: 'monthlyMinimum' as const, ...rateDelta(from.rates?.minimums?.monthlyMinimum, to.rates?.minimums?.monthlyMinimum) },
+    { field: 'orderMinimum' as const, ...rateDelta(from.rates?.minimums?.orderMinimum, to.rates?.minimums?.orderMinimum) },
+    { field: 'minimumMonthlyCharge' as const, ...rateDelta(from.minimumMonthlyCharge, to.minimumMonthlyCharge) },
+  ]
+    .map(minimum => ({ ...minimum, status: deltaStatus(minimum) }))
+    .filter(minimum => minimum.from !== null || minimum.to !== null);
+
+  const deltas: RateDelta[] = [
+    ...serviceDiffs.flatMap(service => [
+      ...(service.baseRate ? [service.baseRate] : []),
+      ...service.tiers,
+      ...service.zones.flatMap(zone => zone.tiers),
+      ...service.items,
+    ]),
+    ...surchargeDiffs.flatMap(surcharge => [surcharge.percentage, surcharge.amount].filter((d): d is RateDelta => d !== null)),
+    ...minimums,
+  ];
+  const count = (status: DiffStatus) =>
+    serviceDiffs.filter(s => s.status === status).length + surchargeDiffs.filter(s => s.status === status).length;
+
+  return {
+    from: summarizeCard(from),
+    to: summarizeCard(to),
+    services: serviceDiffs,
+    surcharges: surchargeDiffs,
+    minimums,
+    summary: {
+      added: count('added'),
+      removed: count('removed'),
+      changed: count('changed'),
+      unchanged: count('unchanged'),
+      increases: deltas.filter(d => d.delta !== null && d.delta > 0).length,
+      decreases: deltas.filter(d => d.delta !== null && d.delta < 0).length,
+    },
+  };
+}
+
+/**
+ * Card with its adjustments layered on, in rate engine precedence
+ * (later effective date wins per service, surcharge type and minimum)
+ * Pure function - no database access
+ */
+export function mergeAdjustments(card: DiffableCard, adjustments: DiffableCard[]): DiffableCard {
+  const ordered = [...adjustments].sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime());
+  const services = byKey<any>(card.rates?.services, service => service.serviceType);
+  const surcharges = byKey<any>(card.rates?.surcharges, surcharge => surcharge.type);
+  const minimums = { ...(card.rates?.minimums ?? {}) };
+  const legacy: Record<string, any> = {};
+  let minimumMonthlyCharge = card.minimumMonthlyCharge;
+
+  for (const adjustment of ordered) {
+    for (const service of adjustment.rates?.services ?? []) services.set(service.serviceType, service);
+    for (const surcharge of adjustment.rates?.surcharges ?? []) surcharges.set(surcharge.type, surcharge);
+    Object.assign(minimums, adjustment.rates?.minimums ?? {});
+    minimumMonthlyCharge = adjustment.minimumMonthlyCharge ?? minimumMonthlyCharge;
+
+    // Legacy flat subtypes resolve per subtype (RateCardService.resolveEffectiveRates)
+    for (const [category, subtypes] of Object.entries(adjustment.rates ?? {})) {
+      if (['services', 'surcharges', 'minimums'].includes(category) || !subtypes || typeof subtypes !== 'object') continue;
+      legacy[category] = { ...(legacy[category] ?? card.rates?.[category]), ...subtypes };
+    }
+  }
+
+  return {
+    ...card,
+    name: `${card.name} + ${ordered.length} adjustment${ordered.length === 1 ? '' : 's'}`,
+    rates: {
+      ...card.rates,
+      ...legacy,
+      services: [...services.values()],
+      surcharges: [...surcharges.values()],
+      ...(Object.keys(minimums).length > 0 && { minimums }),
+    },
+    minimumMonthlyCharge,
+  };
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+const cardSelect = {
+  id: true,
+  customerId: true,
+  name: true,
+  version: true,
+  rateCardType: true,
+  effectiveDate: true,
+  expiresDate: true,
+  rates: true,
+  minimumMonthlyCharge: true,
+} as const;
+
+function toDiffableCard(card: any): DiffableCard {
+  return {
+    ...card,
+    rateCardType: card.rateCardType ?? 'standard',
+    minimumMonthlyCharge: card.minimumMonthlyCharge === null ? null : Number(card.minimumMonthlyCharge),
+  };
+}
+
+export class RateCardDiffService {
+  constructor(private prisma: PrismaClient) {}
+
+  private async getCard(rateCardId: string): Promise<DiffableCard> {
+    const card = await this.prisma.rateCard.findUnique({
+      where: { id: rateCardId },
+      select: cardSelect,
+    });
+
+    if (!card) {
+      throw new Error('Rate card not found');
+    }
+
+    return toDiffableCard(card);
+  }
+
+  /**
+   * Diff between two rate cards (any versions, standard or adjustment)
+   */
+  async diffCards(fromId: string, toId: string): Promise<RateCardDiff> {
+    const [from, to] = await Promise.all([this.getCard(fromId), this.getCard(toId)]);
+    return diffRateCards(from, to);
+  }
+
+  /**
+   * Diff between a standard card and its effective result with the adjustments
+   * in effect on asOf (all active, non-archived adjustments when omitted)
+   */
+  async diffWithAdjustments(rateCardId: string, asOf?: Date): Promise<RateCardDiff> {
+    const card = await this.getCard(rateCardId);
+
+    if (card.rateCardType === 'adjustment') {
+      throw new Error('Cannot merge adjustments into an adjustment rate card');
+    }
+
+    const adjustments = (await this.prisma.rateCard.findMany({
+      where: {
+        parentRateCardId: rateCardId,
+        rateCardType: 'adjustment',
+        isActive: true,
+        archivedAt: null,
+        ...(asOf && {
+          effectiveDate: { lte: asOf },
+          OR: [{ expiresDate: null }, { expiresDate: { gt: asOf } }],
+        }),
+      },
+      select: cardSelect,
+      orderBy: { effectiveDate: 'asc' },
+    })).map(toDiffableCard);
+
+    const diff = diffRateCards(card, mergeAdjustments(card, adjustments));
+    diff.to.adjustmentIds = adjustments.map(adjustment => adjustment.id);
+    return diff;
+  }
+}
@@ -72,9 +72,7 @@
  * // Create new rate card
  * const card = await service.createStandardRateCard(customerId, input);
  *
- * // Resolve rates for billing
- * const sources = await service.getActiveRateSources(customerId, activityDate);
- * const rates = service.resolveEffectiveRates(sources, 'fulfillment');
+ * // Resolve rates for a date: EffectiveRatesService.getEffectiveRates(customerId, date)
  * ```
  */
 
@@ -156,6 +154,17 @@ export class RateCardService {
         );
       }
 
+      // Cards started from a template keep the template version they came from
+      if (input.basedOnTemplate) {
+        const template = await tx.rateCardTemplate.findUnique({
+          where: { id: input.basedOnTemplate },
+          select: { id: true },
+        });
+        if (!template) {
+          throw new Error('Rate card template not found');
+        }
+      }
+
       // Create v1 with no parent
       const rateCard = await tx.rateCard.create({
         data: {
@@ -298,6 +307,7 @@ export class RateCardService {
   /**
    * Get all active rate sources (standard + adjustments) for a customer on a specific date
    * Returns ordered by precedence (most recent effective date first)
+   * @deprecated Use EffectiveRatesService.getEffectiveRates - resolves services[] by billing service code
    */
   async getActiveRateSources(customerId: string, activityDate: Date) {
     const rateSources = await this.prisma.rateCard.findMany({
@@ -329,6 +339,7 @@ export class RateCardService {
   /**
    * Resolve effective rates for a service using multiple rate sources
    * Service-by-service precedence: most recent source that defines the rate wins
+   * @deprecated Legacy flat subtypes only - use EffectiveRatesService.getEffectiveRates
    */
   resolveEffectiveRates(rateSources: any[], serviceType: string) {
     const rates: any = {};
@@ -727,6 +738,16 @@ export class RateCardService {
     });
   }
 
+  /**
+   * Hard delete a rate card that was never used (see checkEvidentaryValue) -
+   * anything with history is archived instead
+   */
+  async deleteRateCard(rateCardId: string) {
+    return this.prisma.rateCard.delete({
+      where: { id: rateCardId },
+    });
+  }
+
   /**
    * Restore an archived rate card
    */
@@ -0,0 +1,486 @@
+/**
+ * @fileoverview Rate Card Template Service - Company template catalog and bulk rate increases
+ * @author Handled Platform Team
+ * @version 1.0.0
+ * @since 2026-10-18
+ *
+ * PURPOSE:
+ * Keep the company's list-price rate cards as versioned templates, let customer cards
+ * start from them (RateCard.basedOnTemplate) and roll a general rate increase out to
+ * every active customer card derived from a template in one action.
+ *
+ * SCOPE:
+ * ✅ Template CRUD - editing creates version N+1 (same templateKey), like rate cards
+ * ✅ Service codes validated against the BillingService catalog
+ * ✅ Bulk increase: percentage with rounding rules and per-service exclusions
+ * ✅ Preview (dryRun) of affected customers and every rate that changes
+ * ✅ New customer card versions via RateCardService.createRateCardVersion
+ *
+ * OUT OF SCOPE:
+ * ❌ Legacy flat subtypes (rates.fulfillment.baseOrder...) - only rates.services change
+ * ❌ Adjustment cards - they keep their negotiated override rates
+ * ❌ Raising the template itself (edit the template to change list prices)
+ *
+ * BUSINESS RULES:
+ * 🧩 A card is derived from a template when basedOnTemplate is any version of it;
+ *    new versions inherit basedOnTemplate, so the link survives versioning
+ * 📈 Base rates, tier rates, zone tier rates and item rates all move by the percentage
+ * 🚫 Percentage-unit services (e.g. carrier cost markup) never change, nor do
+ *    percentage surcharges; fixed surcharges and minimums only when asked
+ * 🎯 Rounding per rate: nearest / up / down to an increment (0.01, 0.05...)
+ * 📅 Cards already effective on or after the new date are skipped, not versioned
+ * 🔁 Each card is versioned in its own transaction - one failure doesn't block the rest
+ *
+ * @example
+ * const templates = new RateCardTemplateService(prisma);
+ * const preview = await templates.bulkIncrease(templateId, {
+ *   percentage: 4.5, effectiveDate: new Date('2027-01-01'), rounding: { increment: 0.01, mode: 'up' },
+ *   excludeServices: ['Storage_Pallet'], includeSurcharges: false, includeMinimums: false, dryRun: true,
+ * }, userId);
+ */
+
+import type { PrismaClient } from '@prisma/client-primary';
+import { RateCardService } from './rateCardService.js';
+import type {
+  BulkRateIncreaseInput,
+  CreateRateCardTemplateInput,
+  RateRounding,
+  UpdateRateCardTemplateInput,
+} from '../validation/rateCardTemplateSchema.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface RateChange {
+  serviceType: string;
+  /** 'baseRate', 'tier 0-100', 'zone 5 tier 0-∞', 'item Gift wrap', 'surcharge', 'minimumMonthlyCharge'... */
+  field: string;
+  from: number;
+  to: number;
+}
+
+export interface RateIncreaseResult {
+  rates: any;
+  minimumMonthlyCharge: number | null;
+  changes: RateChange[];
+  /** Service codes left unchanged (excluded or percentage-unit) */
+  excluded: string[];
+}
+
+export interface BulkIncreaseEntry {
+  customerId: string;
+  customerName: string;
+  rateCardId: string;
+  rateCardName: string;
+  version: number;
+  status: 'preview' | 'updated' | 'skipped' | 'failed';
+  reason?: string;
+  newRateCardId?: string;
+  changes: RateChange[];
+  excluded: string[];
+}
+
+export interface BulkIncreaseResult {
+  template: { id: string; templateKey: string; name: string; version: number };
+  percentage: number;
+  effectiveDate: string;
+  dryRun: boolean;
+  cards: BulkIncreaseEntry[];
+  totals: { cards: number; updated: number; skipped: number; failed: number };
+}
+
+// ============================================
+// PURE HELPERS
+// ============================================
+
+/**
+ * Round a rate to a multiple of the increment
+ */
+export function roundToIncrement(value: number, rounding: RateRounding): number {
+  const steps = value / rounding.increment;
+  // Strip float noise (4.05 / 0.05 = 80.99999...) before rounding up or down
+  const cleanSteps = Math.round(steps * 1e6) / 1e6;
+  const rounded = rounding.mode === 'up'
+    ? Math.ceil(cleanSteps)
+    : rounding.mode === 'down'
+      ? Math.floor(cleanSteps)
+      : Math.round(cleanSteps);
+  return Math.round(rounded * rounding.increment * 10000) / 10000;
+}
+
+/**
+ * Service codes on a rates payload that are not in the billing service catalog
+ */
+export function findUnknownServiceCodes(rates: any, catalogCodes: Set<string>): string[] {
+  return (rates?.services ?? [])
+    .map((service: any) => service.serviceType as string)
+    .filter((code: string) => !catalogCodes.has(code));
+}
+
+/**
+ * Apply a percentage increase to a card's rates
+ * Pure function - no database access
+ */
+export function applyRateIncrease(
+  rates: any,
+  minimumMonthlyCharge: number | null,
+  options: Pick<BulkRateIncreaseInput, 'percentage' | 'rounding' | 'excludeServices' | 'includeSurcharges' | 'includeMinimums'>
+): RateIncreaseResult {
+  const changes: RateChange[] = [];
+  const excluded: string[] = [];
+  const factor = 1 + options.percentage / 100;
+  const excludedCodes = new Set(options.excludeServices);
+
+  const raise = (serviceType: string, field: string, value: number): number => {
+    const next = roundToIncrement(Number(value) * factor, options.rounding);
+    if (next !== Number(value)) {
+      changes.push({ serviceType, field, from: Number(value), to: next });
+    }
+    return next;
+  };
+  const raiseTiers = (serviceType: string, prefix: string, tiers: any[]) =>
+    tiers.map(tier => ({
+      ...tier,
+      rate: raise(serviceType, `${prefix}tier ${tier.minVolume}-${tier.maxVolume ?? '∞'}`, tier.rate),
+    }));
+
+  const services = (rates?.services ?? []).map((service: any) => {
+    if (excludedCodes.has(service.serviceType) || service.unit === 'percentage') {
+      excluded.push(service.serviceType);
+      return service;
+    }
+
+    return {
+      ...service,
+      ...(service.baseRate !== undefined && { baseRate: raise(service.serviceType, 'baseRate', service.baseRate) }),
+      ...(service.tiers && { tiers: raiseTiers(service.serviceType, '', service.tiers) }),
+      ...(service.zones && {
+        zones: service.zones.map((zone: any) => ({
+          ...zone,
+          tiers: raiseTiers(service.serviceType, `zone ${zone.zone} `, zone.tiers),
+        })),
+      }),
+      ...(service.items && {
+        items: service.items.map((item: any) => ({
+          ...item,
+          rate: raise(service.serviceType, `item ${item.item}`, item.rate),
+        })),
+      }),
+    };
+  });
+
+  const surcharges = rates?.surcharges && options.includeSurcharges
+    ? rates.surcharges.map((surcharge: any) => surcharge.amount !== undefined
+      ? { ...surcharge, amount: raise(surcharge.type, 'surcharge', surcharge.amount) }
+      : surcharge)
+    : rates?.surcharges;
+
+  let minimums = rates?.minimums;
+  let minimum = minimumMonthlyCharge;
+  if (options.includeMinimums) {
+    if (minimums?.monthlyMinimum !== undefined) {
+      minimums = { ...minimums, monthlyMinimum: raise('minimums', 'monthlyMinimum', minimums.monthlyMinimum) };
+    }
+    if (minimum !== null) {
+      minimum = raise('minimums', 'minimumMonthlyCharge', minimum);
+    }
+  }
+
+  return {
+    rates: {
+      ...rates,
+      services,
+      ...(surcharges !== undefined && { surcharges }),
+      ...(minimums !== undefined && { minimums }),
+    },
+    minimumMonthlyCharge: minimum,
+    changes,
+    excluded,
+  };
+}
+
+function formatPercentage(percentage: number): string {
+  return `${percentage > 0 ? '+' : ''}${percentage}%`;
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+export class RateCardTemplateService {
+  private rateCardService: RateCardService;
+
+  constructor(private prisma: PrismaClient) {
+    this.rateCardService = new RateCardService(prisma);
+  }
+
+  /**
+   * Reject service codes missing from the active billing service catalog
+   */
+  private async validateServiceCodes(rates: any) {
+    const codes: string[] = (rates?.services ?? []).map((service: any) => service.serviceType);
+    const catalog = await this.prisma.billingService.findMany({
+      where: { code: { in: codes }, isActive: true },
+      select: { code: true },
+    });
+
+    const unknown = findUnknownServiceCodes(rates, new Set(catalog.map(service => service.code)));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown billing service codes: ${unknown.join(', ')}`);
+    }
+  }
+
+  /**
+   * Ids of every version of a template - what derived cards store in basedOnTemplate
+   */
+  private async getVersionIds(templateKey: string): Promise<string[]> {
+    const versions = await this.prisma.rateCardTemplate.findMany({
+      where: { templateKey },
+      select: { id: true },
+    });
+    return versions.map(version => version.id);
+  }
+
+  /**
+   * Latest version of each template, with the number of active customer cards using it
+   */
+  async listTemplates(options: { includeInactive: boolean }) {
+    const templates = await this.prisma.rateCardTemplate.findMany({
+      where: {
+        archivedAt: null,
+        ...(!options.includeInactive && { isActive: true }),
+      },
+      orderBy: [{ name: 'asc' }, { version: 'desc' }],
+    });
+
+    const versions = await this.prisma.rateCardTemplate.findMany({
+      where: { templateKey: { in: [...new Set(templates.map(t => t.templateKey))] } },
+      select: { id: true, templateKey: true },
+    });
+    const keyById = new Map<string, string>(versions.map(version => [version.id, version.templateKey]));
+
+    const cards = await this.prisma.rateCard.findMany({
+      where: {
+        basedOnTemplate: { in: [...keyById.keys()] },
+        rateCardType: 'standard',
+        isActive: true,
+        archivedAt: null,
+      },
+      select: { basedOnTemplate: true },
+    });
+
+    const cardCounts = new Map<string, number>();
+    for (const card of cards) {
+      const key = keyById.get(card.basedOnTemplate!)!;
+      cardCounts.set(key, (cardCounts.get(key) ?? 0) + 1);
+    }
+
+    return templates.map(template => ({
+      ...template,
+      activeCardCount: cardCounts.get(template.templateKey) ?? 0,
+    }));
+  }
+
+  /**
+   * Template version with the full version history of its key
+   */
+  async getTemplate(templateId: string) {
+    const template = await this.prisma.rateCardTemplate.findUnique({
+      where: { id: templateId },
+    });
+
+    if (!template) {
+      throw new Error('Rate card template not found');
+    }
+
+    const versions = await this.prisma.rateCardTemplate.findMany({
+      where: { templateKey: template.templateKey },
+      select: { id: true, version: true, name: true, isActive: true, createdAt: true, archivedAt: true },
+      orderBy: { version: 'asc' },
+    });
+
+    return { ...template, versions };
+  }
+
+  async createTemplate(input: CreateRateCardTemplateInput, createdBy?: string) {
+    const existing = await this.prisma.rateCardTemplate.findFirst({
+      where: { templateKey: input.templateKey },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new Error(`Cannot create template: key "${input.templateKey}" is already used`);
+    }
+
+    await this.validateServiceCodes(input.rates);
+
+    return this.prisma.rateCardTemplate.create({
+      data: {
+        templateKey: input.templateKey,
+        version: 1,
+        name: input.name,
+        description: input.description,
+        rates: input.rates as any,
+        billingCycles: (input.billingCycles || {}) as any,
+        minimumMonthlyCharge: input.minimumMonthlyCharge,
+        notes: input.notes,
+        createdBy,
+      },
+    });
+  }
+
+  /**
+   * Edit a template - creates version N+1 and deactivates the current one
+   */
+  async updateTemplate(templateId: string, input: UpdateRateCardTemplateInput, createdBy?: string) {
+    if (input.rates) {
+      await this.validateServiceCodes(input.rates);
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const current = await tx.rateCardTemplate.findUnique({ where: { id: templateId } });
+
+      if (!current) {
+        throw new Error('Rate card template not found');
+      }
+      if (current.archivedAt || !current.isActive) {
+        throw new Error('Cannot edit a superseded or archived template version');
+      }
+
+      await tx.rateCardTemplate.update({
+        where: { id: templateId },
+        data: { isActive: false },
+      });
+
+      return tx.rateCardTemplate.create({
+        data: {
+          templateKey: current.templateKey,
+          version: current.version + 1,
+          supersedesId: current.id,
+          name: input.name ?? current.name,
+          description: input.description === undefined ? current.description : input.description,
+          rates: (input.rates ?? current.rates) as any,
+          billingCycles: (input.billingCycles
+            ? { ...(current.billingCycles as any), ...input.billingCycles }
+            : current.billingCycles) as any,
+          minimumMonthlyCharge: input.minimumMonthlyCharge === undefined
+            ? current.minimumMonthlyCharge
+            : input.minimumMonthlyCharge,
+          notes: input.notes ?? current.notes,
+          createdBy,
+        },
+      });
+    });
+  }
+
+  /**
+   * Archive a template (all versions) - existing customer cards are not touched
+   */
+  async archiveTemplate(templateId: string) {
+    const template = await this.prisma.rateCardTemplate.findUnique({
+      where: { id: templateId },
+      select: { templateKey: true },
+    });
+
+    if (!template) {
+      throw new Error('Rate card template not found');
+    }
+
+    await this.prisma.rateCardTemplate.updateMany({
+      where: { templateKey: template.templateKey, archivedAt: null },
+      data: { archivedAt: new Date(), isActive: false },
+    });
+
+    return this.getTemplate(templateId);
+  }
+
+  /**
+   * Apply a general rate increase to every active customer card derived from a template
+   * dryRun previews the affected customers and rate changes without writing
+   */
+  async bulkIncrease(templateId: string, input: BulkRateIncreaseInput, createdBy?: string): Promise<BulkIncreaseResult> {
+    const template = await this.prisma.rateCardTemplate.findUnique({
+      where: { id: templateId },
+      select: { id: true, templateKey: true, name: true, version: true },
+    });
+
+    if (!template) {
+      throw new Error('Rate card template not found');
+    }
+
+    const cards = await this.prisma.rateCard.findMany({
+      where: {
+        basedOnTemplate: { in: await this.getVersionIds(template.templateKey) },
+        rateCardType: 'standard',
+        isActive: true,
+        archivedAt: null,
+        customer: { deleted: false },
+        ...(input.customerIds && { customerId: { in: input.customerIds } }),
+      },
+      include: { customer: { select: { id: true, name: true } } },
+      orderBy: { effectiveDate: 'asc' },
+    });
+
+    const note = `General rate increase ${formatPercentage(input.percentage)} from template "${template.name}"`;
+    const entries: BulkIncreaseEntry[] = [];
+
+    for (const card of cards) {
+      const increase = applyRateIncrease(
+        card.rates,
+        card.minimumMonthlyCharge === null ? null : Number(card.minimumMonthlyCharge),
+        input
+      );
+      const entry: BulkIncreaseEntry = {
+        customerId: card.customerId!,
+        customerName: card.customer?.name ?? card.customerId!,
+        rateCardId: card.id,
+        rateCardName: card.name,
+        version: card.version,
+        status: input.dryRun ? 'preview' : 'updated',
+        changes: increase.changes,
+        excluded: increase.excluded,
+      };
+      entries.push(entry);
+
+      if (card.effectiveDate >= input.effectiveDate) {
+        entry.status = 'skipped';
+        entry.reason = `Card is already effective from ${card.effectiveDate.toISOString().slice(0, 10)}`;
+        continue;
+      }
+      if (increase.changes.length === 0) {
+        entry.status = 'skipped';
+        entry.reason = 'No rates change';
+        continue;
+      }
+      if (input.dryRun) continue;
+
+      try {
+        const version = await this.rateCardService.createRateCardVersion(card.id, {
+          effectiveDate: input.effectiveDate,
+          rates: increase.rates,
+          minimumMonthlyCharge: increase.minimumMonthlyCharge,
+          notes: note,
+        }, createdBy);
+        entry.newRateCardId = version?.id;
+      } catch (error) {
+        entry.status = 'failed';
+        entry.reason = (error as Error).message;
+      }
+    }
+
+    return {
+      template,
+      percentage: input.percentage,
+      effectiveDate: input.effectiveDate.toISOString().slice(0, 10),
+      dryRun: input.dryRun,
+      cards: entries,
+      totals: {
+        cards: entries.length,
+        updated: entries.filter(e => e.status === 'updated' || e.status === 'preview').length,
+        skipped: entries.filter(e => e.status === 'skipped').length,
+        failed: entries.filter(e => e.status === 'failed').length,
+      },
+    };
+  }
+}
@@ -0,0 +1,784 @@
+/**
+ * @fileoverview Rate Engine - Prices billing activities against the effective rate card
+ *
+ * Applies the service rates defined on rate cards (serviceRateSchema entries) to
+ * BillingActivity rows, recording the rate, amount, winning card and the reasoning.
+ *
+ * @author Handled Platform Team
+ * @version 1.0.0
+ * @since 2026-10-18
+ */
+
+/**
+ * Rate Engine
+ * ===========
+ *
+ * PURPOSE:
+ * Turn unpriced billable events into priced ones. For each activity the engine finds
+ * the rate sources in effect on the activity date, picks the source that defines the
+ * activity's service, selects the pricing mechanism and computes rateApplied/amount.
+ *
+ * SCOPE:
+ * ✅ Rate source selection (standard card + adjustments, by activity date)
+ * ✅ Pricing mechanisms: baseRate, tiers, zones, items
+ * ✅ Carrier cost-plus shipping (imported carrier cost × markup + label fee)
+ * ✅ Period volume tiers (all units / graduated) evaluated on billing-cycle volume
+ * ✅ Decision explanations stored with the activity (metadata.pricing)
+ * ✅ Idempotent re-pricing of a period after a rate card correction
+ *
+ * OUT OF SCOPE:
+ * ❌ Activity ingestion (BillingActivityService)
+ * ❌ Invoice aggregation and minimums
+ *
+ * BUSINESS RULES:
+ * 💰 Service-level precedence: the most recent source defining the service wins,
+ *    adjustments win ties with the standard card they adjust
+ * 📅 Sources are matched by date (effectiveDate <= activityDate < expiresDate),
+ *    so superseded versions still price their own period
+ * 🔒 Invoiced and isManualOverride activities are never re-priced
+ * 🔄 Re-pricing recomputes from scratch - running it twice gives the same result
+ *
+ * PRORATION:
+ * Activities carrying metadata.prorate.daysInPeriod (daily storage snapshots against
+ * a monthly rate) are charged rate × quantity / daysInPeriod; rateApplied stays the
+ * period rate.
+ *
+ * VOLUME TIERS (service.tierMode):
+ * - per_activity (default): tier matched on the activity's own quantity
+ * - all_units: every unit in the period is charged at the tier reached by the
+ *   period's total volume
+ * - graduated: units are charged marginally - each unit at the rate of the tier its
+ *   running position in the period falls in (chronological order)
+ * The period is the activity's billing cycle period (monthly for immediate-cycle
+ * activities). When an activity is priced, every non-invoiced, non-override activity
+ * of the same service and period is re-priced with it, so crossing a threshold
+ * updates activities priced earlier in the period. Invoiced and override rows still
+ * count toward the volume.
+ *
+ * CARRIER COST (metadata.carrierCost, set by the carrier cost import):
+ * Shipping activities with an imported carrier cost are billed
+ * cost × (1 + markup / 100) + label fee × labels. The markup is the baseRate of
+ * Shipping_CarrierCostMarkup (or rates.shipping.markupPercent) and the label fee
+ * the baseRate of Shipping_LabelFee (or rates.shipping.labelFee), each from the
+ * most recent source defining it. When the activity's own service prices by zone
+ * and the activity carries a zone, the zone tier wins instead.
+ *
+ * MECHANISM SELECTION:
+ * 0. carrierCost - when the metadata carries an imported carrier cost (unless a zone applies)
+ * 1. zones  - when the activity metadata carries a zone
+ * 2. items  - when the activity metadata carries an item
+ * 3. tiers  - per activity quantity, or period volume (tierMode)
+ * 4. baseRate
+ *
+ * @example
+ * ```typescript
+ * const engine = new RateEngine(prisma);
+ * const summary = await engine.priceActivities(customerId, { from, to, mode: 'unpriced', dryRun: false });
+ * ```
+ */
+
+import type { PrismaClient } from '@prisma/client-primary';
+import type { PriceActivitiesInput } from '../validation/billingActivitySchema.js';
+
+export interface RateSource {
+  id: string;
+  name: string;
+  version: number;
+  rateCardType: string;
+  effectiveDate: Date;
+  expiresDate: Date | null;
+  rates: any;
+}
+
+export type TierMode = 'per_activity' | 'all_units' | 'graduated';
+
+export interface Tier {
+  minVolume: number;
+  maxVolume: number | null;
+  rate: number;
+}
+
+/**
+ * Portion of an activity's quantity charged at one tier
+ */
+export interface TierSplit {
+  minVolume: number;
+  maxVolume: number | null;
+  quantity: number;
+  rate: number;
+}
+
+/**
+ * Where an activity sits in its service's period volume
+ */
+export interface PeriodVolume {
+  /** Units of the service earlier in the period */
+  volumeBefore: number;
+  /** Total units of the service in the period */
+  periodVolume: number;
+}
+
+export const SHIPPING_MARKUP_SERVICE = 'Shipping_CarrierCostMarkup';
+export const SHIPPING_LABEL_FEE_SERVICE = 'Shipping_LabelFee';
+
+/**
+ * Carrier cost imported for a shipping activity (metadata.carrierCost)
+ */
+export interface CarrierCost {
+  /** Total carrier cost of the matched charges */
+  cost: number;
+  /** Labels (tracking numbers) the cost covers - the label fee is charged per label */
+  labels: number;
+  carriers: string[];
+  trackingNumbers: string[];
+  importId?: string;
+  importedAt?: string;
+}
+
+export interface PricingExplanation {
+  rateCardId: string | null;
+  rateCardName?: string;
+  rateCardType?: string;
+  version?: number;
+  mechanism?: 'baseRate' | 'tiers' | 'zones' | 'items' | 'carrierCost';
+  tierMode?: Exclude<TierMode, 'per_activity'>;
+  periodVolume?: number;
+  tierSplit?: TierSplit[];
+  /** Cost-plus inputs (mechanism carrierCost) */
+  carrierCost?: { cost: number; markupPercent: number; labelFee: number; labels: number };
+  detail: string;
+  sourcesConsidered: string[];
+  pricedAt: string;
+}
+
+export interface PricingDecision {
+  priced: boolean;
+  rateApplied: number | null;
+  amount: number | null;
+  rateCardId: string | null;
+  explanation: PricingExplanation;
+}
+
+export interface PricingSummary {
+  considered: number;
+  priced: number;
+  unpriced: number;
+  changed: number;
+  /** Activities outside the request re-priced because they share a tiered period */
+  tierRepriced: number;
+  dryRun: boolean;
+  results: Array<{
+    activityId: string;
+    activityDate: string;
+    type: string;
+    quantity: number;
+    previousAmount: number | null;
+    rateApplied: number | null;
+    amount: number | null;
+    explanation: PricingExplanation;
+  }>;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function describeSource(source: RateSource): string {
+  return `${source.name} (${source.rateCardType} v${source.version}, ${source.id})`;
+}
+
+/**
+ * Rate sources in effect on a date, in precedence order
+ * (most recent effective date first, adjustments before standard on ties)
+ */
+export function selectRateSources(sources: RateSource[], activityDate: Date): RateSource[] {
+  return sources
+    .filter(source =>
+      source.effectiveDate <= activityDate &&
+      (!source.expiresDate || source.expiresDate > activityDate)
+    )
+    .sort((a, b) => {
+      const byDate = b.effectiveDate.getTime() - a.effectiveDate.getTime();
+      if (byDate !== 0) return byDate;
+      if (a.rateCardType === b.rateCardType) return 0;
+      return a.rateCardType === 'adjustment' ? -1 : 1;
+    });
+}
+
+function findTier(tiers: Tier[], volume: number) {
+  return tiers.find(tier =>
+    volume >= tier.minVolume && (tier.maxVolume === null || volume <= tier.maxVolume)
+  );
+}
+
+function formatTier(tier: { minVolume: number; maxVolume: number | null }): string {
+  return `${tier.minVolume}-${tier.maxVolume ?? '∞'}`;
+}
+
+export function getTierMode(service: { tiers?: unknown; tierMode?: string } | null | undefined): TierMode {
+  if (!service?.tiers) return 'per_activity';
+  return service.tierMode === 'all_units' || service.tierMode === 'graduated' ? service.tierMode : 'per_activity';
+}
+
+/**
+ * Split units (volumeBefore, volumeBefore + quantity] of a period across tiers
+ * Tier i covers the units above the previous tier's maxVolume up to its own maxVolume
+ * (the first tier starts at the first unit, the last tier takes everything above it),
+ * so fractional volumes never fall in a gap.
+ * mode 'all_units' charges the whole quantity at the tier reached by periodVolume.
+ */
+export function splitTierVolume(
+  tiers: Tier[],
+  mode: Exclude<TierMode, 'per_activity'>,
+  volume: PeriodVolume & { quantity: number }
+): TierSplit[] {
+  const sorted = [...tiers].sort((a, b) => a.minVolume - b.minVolume);
+  const upper = (tier: Tier) => (tier.maxVolume === null ? Infinity : tier.maxVolume);
+
+  if (mode === 'all_units') {
+    const reached = sorted.find(tier => volume.periodVolume <= upper(tier)) ?? sorted[sorted.length - 1];
+    return [{ minVolume: reached.minVolume, maxVolume: reached.maxVolume, quantity: volume.quantity, rate: reached.rate }];
+  }
+
+  const splits: TierSplit[] = [];
+  const start = volume.volumeBefore;
+  const end = volume.volumeBefore + volume.quantity;
+  let lower = 0;
+
+  sorted.forEach((tier, index) => {
+    const isLast = index === sorted.length - 1;
+    const tierUpper = isLast ? Infinity : upper(tier);
+    const quantity = roundQuantity(Math.min(end, tierUpper) - Math.max(start, lower));
+    if (quantity > 0) {
+      splits.push({ minVolume: tier.minVolume, maxVolume: tier.maxVolume, quantity, rate: tier.rate });
+    }
+    lower = tierUpper;
+  });
+
+  return splits;
+}
+
+/**
+ * Start of the period whose volume drives period tiers
+ * Weekly/monthly activities use their billing period; everything else the calendar month
+ */
+export function getTierPeriodStart(activity: {
+  activityDate: Date;
+  billingCycle?: string | null;
+  billingPeriodStart?: Date | null;
+}): Date {
+  if ((activity.billingCycle === 'weekly' || activity.billingCycle === 'monthly') && activity.billingPeriodStart) {
+    const start = activity.billingPeriodStart;
+    return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate()));
+  }
+  return new Date(Date.UTC(activity.activityDate.getUTCFullYear(), activity.activityDate.getUTCMonth(), 1));
+}
+
+/**
+ * Source and service definition pricing an activity (most recent source defining it)
+ */
+function resolveService(
+  activity: { activityDate: Date; type: string },
+  sources: RateSource[]
+): { applicable: RateSource[]; winner?: RateSource; service?: any } {
+  const applicable = selectRateSources(sources, activity.activityDate);
+  for (const source of applicable) {
+    const service = source.rates?.services?.find((s: any) => s.serviceType === activity.type);
+    if (service) {
+      return { applicable, winner: source, service };
+    }
+  }
+  return { applicable };
+}
+
+/**
+ * Shipping cost-plus rate (markup percent or label fee) from the most recent source
+ * defining it - a service baseRate, or the flat rates.shipping subtype
+ */
+export function findShippingRate(
+  sources: RateSource[],
+  serviceType: string,
+  subtype: 'markupPercent' | 'labelFee'
+): { source: RateSource; rate: number } | undefined {
+  for (const source of sources) {
+    const service = source.rates?.services?.find((s: any) => s.serviceType === serviceType);
+    if (service?.baseRate !== undefined) {
+      return { source, rate: Number(service.baseRate) };
+    }
+    const flat = source.rates?.shipping?.[subtype];
+    if (flat !== undefined && flat !== null && Number.isFinite(Number(flat))) {
+      return { source, rate: Number(flat) };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Billed shipping for a carrier cost: cost × (1 + markup / 100) + label fee × labels
+ */
+export function calculateCostPlus(cost: number, markupPercent: number, labelFee: number, labels: number): number {
+  return roundMoney(cost * (1 + markupPercent / 100) + labelFee * labels);
+}
+
+/**
+ * Whether an activity is priced cost-plus from an imported carrier cost
+ * (a zone on a zone-priced service takes precedence)
+ */
+function usesCarrierCost(activity: { metadata?: any }, service: any): boolean {
+  const cost = Number(activity.metadata?.carrierCost?.cost);
+  if (!Number.isFinite(cost)) return false;
+  return !(service?.zones && activity.metadata?.zone !== undefined);
+}
+
+/**
+ * Whether an activity is priced on period volume (tierMode all_units/graduated and
+ * no zone/item on the activity that would select another mechanism)
+ */
+export function usesPeriodTiers(
+  activity: { activityDate: Date; type: string; metadata?: any },
+  sources: RateSource[]
+): boolean {
+  const { service } = resolveService(activity, sources);
+  if (!service || getTierMode(service) === 'per_activity') return false;
+  if (usesCarrierCost(activity, service)) return false;
+  if (service.zones && activity.metadata?.zone !== undefined) return false;
+  if (service.items && activity.metadata?.item !== undefined) return false;
+  return true;
+}
+
+/**
+ * Price a single activity against the rate sources in effect on its date
+ * Pure function - no database access
+ */
+export function priceActivity(
+  activity: { activityDate: Date; type: string; quantity: number; metadata?: any },
+  sources: RateSource[],
+  pricedAt: Date = new Date(),
+  volume?: PeriodVolume
+): PricingDecision {
+  const { applicable, winner, service } = resolveService(activity, sources);
+  const sourcesConsidered = applicable.map(describeSource);
+
+  const unpriced = (detail: string): PricingDecision => ({
+    priced: false,
+    rateApplied: null,
+    amount: null,
+    rateCardId: null,
+    explanation: { rateCardId: null, detail, sourcesConsidered, pricedAt: pricedAt.toISOString() },
+  });
+
+  if (applicable.length === 0) {
+    return unpriced(`No rate card in effect on ${activity.activityDate.toISOString().slice(0, 10)}`);
+  }
+
+  if (usesCarrierCost(activity, service)) {
+    return priceCarrierCost(activity, applicable, pricedAt);
+  }
+
+  // Most recent source that defines this service wins
+  if (!winner || !service) {
+    return unpriced(`Service ${activity.type} is not defined on any rate card in effect`);
+  }
+
+  const quantity = Number(activity.quantity);
+  const zone = activity.metadata?.zone !== undefined ? String(activity.metadata.zone) : undefined;
+  const item = activity.metadata?.item !== undefined ? String(activity.metadata.item) : undefined;
+  const card = {
+    rateCardId: winner.id,
+    rateCardName: winner.name,
+    rateCardType: winner.rateCardType,
+    version: winner.version,
+  };
+
+  let rate: number | undefined;
+  let mechanism: PricingExplanation['mechanism'];
+  let detail = '';
+  let tiering: Pick<PricingExplanation, 'tierMode' | 'periodVolume' | 'tierSplit'> = {};
+
+  if (service.zones && zone !== undefined) {
+    const zoneRates = service.zones.find((z: any) => String(z.zone) === zone);
+    const tier = zoneRates && findTier(zoneRates.tiers, quantity);
+    if (!tier) {
+      return unpriced(`No zone ${zone} rate for ${activity.type} on ${describeSource(winner)}`);
+    }
+    rate = tier.rate;
+    mechanism = 'zones';
+    detail = `Zone ${zone}, tier ${tier.minVolume}-${tier.maxVolume ?? '∞'} @ ${tier.rate}`;
+  } else if (service.items && item !== undefined) {
+    const itemRate = service.items.find((i: any) => i.item === item);
+    if (!itemRate) {
+      return unpriced(`No item rate for "${item}" on ${activity.type} (${describeSource(winner)})`);
+    }
+    rate = itemRate.rate;
+    mechanism = 'items';
+    detail = `Item "${item}" @ ${itemRate.rate} per ${itemRate.unit}`;
+  } else if (service.tiers && getTierMode(service) !== 'per_activity') {
+    const tierMode = getTierMode(service) as Exclude<TierMode, 'per_activity'>;
+    const position = volume ?? { volumeBefore: 0, periodVolume: quantity };
+    const tierSplit = splitTierVolume(service.tiers, tierMode, { ...position, quantity });
+    const periodVolume = roundQuantity(position.periodVolume);
+
+    // rateApplied is the marginal rate (tier of the activity's last unit); the split carries the amount
+    rate = tierSplit.length > 0 ? tierSplit[tierSplit.length - 1].rate : undefined;
+    if (rate !== undefined) {
+      mechanism = 'tiers';
+      tiering = { tierMode, periodVolume, tierSplit };
+      detail = tierMode === 'all_units'
+        ? `All units at tier ${formatTier(tierSplit[0])} reached by period volume ${periodVolume} @ ${rate}`
+        : `Graduated on period volume ${periodVolume}: ${tierSplit.map(split => `${split.quantity} @ ${split.rate} (tier ${formatTier(split)})`).join(' + ')}`;
+    }
+  } else if (service.tiers) {
+    const tier = findTier(service.tiers, quantity);
+    if (tier) {
+      rate = tier.rate;
+      mechanism = 'tiers';
+      detail = `Tier ${tier.minVolume}-${tier.maxVolume ?? '∞'} matched on quantity ${quantity} @ ${tier.rate}`;
+    }
+  }
+
+  if (rate === undefined && service.baseRate !== undefined) {
+    rate = service.baseRate;
+    mechanism = 'baseRate';
+    detail = `Base rate ${service.baseRate} per ${service.unit}`;
+  }
+
+  if (rate === undefined) {
+    const needs = service.zones ? 'a zone' : service.items ? 'an item' : 'a matching tier';
+    return unpriced(`${activity.type} on ${describeSource(winner)} requires ${needs} to price this activity`);
+  }
+
+  const daysInPeriod = Number(activity.metadata?.prorate?.daysInPeriod);
+  const prorated = Number.isInteger(daysInPeriod) && daysInPeriod > 1;
+  if (prorated) {
+    detail = `${detail}, prorated 1/${daysInPeriod}`;
+  }
+
+  const gross = tiering.tierSplit
+    ? tiering.tierSplit.reduce((sum, split) => sum + split.quantity * split.rate, 0)
+    : rate * quantity;
+
+  return {
+    priced: true,
+    rateApplied: rate,
+    amount: roundMoney(prorated ? gross / daysInPeriod : gross),
+    rateCardId: winner.id,
+    explanation: {
+      ...card,
+      mechanism,
+      ...tiering,
+      detail: `${detail} (from ${describeSource(winner)})`,
+      sourcesConsidered,
+      pricedAt: pricedAt.toISOString(),
+    },
+  };
+}
+
+/**
+ * Price a shipping activity cost-plus from its imported carrier cost
+ */
+function priceCarrierCost(
+  activity: { type: string; quantity: number; metadata?: any },
+  applicable: RateSource[],
+  pricedAt: Date
+): PricingDecision {
+  const sourcesConsidered = applicable.map(describeSource);
+  const carrierCost = activity.metadata.carrierCost as CarrierCost;
+  const cost = Number(carrierCost.cost);
+  const labels = Number(carrierCost.labels ?? 1);
+
+  const markup = findShippingRate(applicable, SHIPPING_MARKUP_SERVICE, 'markupPercent');
+  const labelFee = findShippingRate(applicable, SHIPPING_LABEL_FEE_SERVICE, 'labelFee');
+  const winner = markup?.source ?? labelFee?.source;
+
+  if (!winner) {
+    return {
+      priced: false,
+      rateApplied: null,
+      amount: null,
+      rateCardId: null,
+      explanation: {
+        rateCardId: null,
+        detail: `No carrier cost markup (${SHIPPING_MARKUP_SERVICE}) or label fee (${SHIPPING_LABEL_FEE_SERVICE}) on any rate card in effect`,
+        sourcesConsidered,
+        pricedAt: pricedAt.toISOString(),
+      },
+    };
+  }
+
+  const markupPercent = markup?.rate ?? 0;
+  const fee = labelFee?.rate ?? 0;
+  const amount = calculateCostPlus(cost, markupPercent, fee, labels);
+  const quantity = Number(activity.quantity);
+  const parts = [`Carrier cost ${cost.toFixed(2)}`];
+  if (markup) parts.push(`${markupPercent}% markup (${describeSource(markup.source)})`);
+  if (labelFee) parts.push(`${labels} label${labels === 1 ? '' : 's'} @ ${fee} (${describeSource(labelFee.source)})`);
+
+  return {
+    priced: true,
+    // Cost-plus has no unit rate; rateApplied is the amount per unit for reference
+    rateApplied: roundMoney(amount / quantity),
+    amount,
+    rateCardId: winner.id,
+    explanation: {
+      rateCardId: winner.id,
+      rateCardName: winner.name,
+      rateCardType: winner.rateCardType,
+      version: winner.version,
+      mechanism: 'carrierCost',
+      carrierCost: { cost, markupPercent, labelFee: fee, labels },
+      detail: parts.join(' + '),
+      sourcesConsidered,
+      pricedAt: pricedAt.toISOString(),
+    },
+  };
+}
+
+/**
+ * Activity as seen by batch pricing (billing period fields drive period tiers)
+ */
+export interface BatchActivity {
+  id: string;
+  activityDate: Date;
+  type: string;
+  quantity: number;
+  metadata?: any;
+  billingCycle?: string | null;
+  billingPeriodStart?: Date | null;
+}
+
+function toBatchActivity(activity: any): BatchActivity {
+  return {
+    id: activity.id,
+    activityDate: activity.activityDate,
+    type: activity.type,
+    quantity: Number(activity.quantity),
+    metadata: activity.metadata,
+    billingCycle: activity.billingCycle,
+    billingPeriodStart: activity.billingPeriodStart,
+  };
+}
+
+function tierPeriodKey(activity: BatchActivity): string {
+  return `${activity.type}|${getTierPeriodStart(activity).toISOString().slice(0, 10)}`;
+}
+
+/**
+ * Price activities together so period tiers see the whole period
+ * volumeOnly activities (invoiced, manual overrides) count toward period volume but
+ * are not priced. Within a period, units are positioned by activity date, then id.
+ * Pure function - no database access
+ */
+export function priceActivityBatch(
+  activities: BatchActivity[],
+  sources: RateSource[],
+  pricedAt: Date = new Date(),
+  volumeOnly: BatchActivity[] = []
+): Map<string, PricingDecision> {
+  const decisions = new Map<string, PricingDecision>();
+  const periods = new Map<string, Array<{ activity: BatchActivity; price: boolean }>>();
+
+  for (const activity of activities) {
+    if (usesPeriodTiers(activity, sources)) {
+      const key = tierPeriodKey(activity);
+      const period = periods.get(key) ?? [];
+      period.push({ activity, price: true });
+      periods.set(key, period);
+    } else {
+      decisions.set(activity.id, priceActivity(activity, sources, pricedAt));
+    }
+  }
+
+  for (const activity of volumeOnly) {
+    periods.get(tierPeriodKey(activity))?.push({ activity, price: false });
+  }
+
+  for (const period of periods.values()) {
+    period.sort((a, b) =>
+      a.activity.activityDate.getTime() - b.activity.activityDate.getTime() ||
+      a.activity.id.localeCompare(b.activity.id)
+    );
+    const periodVolume = period.reduce((sum, entry) => sum + Number(entry.activity.quantity), 0);
+
+    let volumeBefore = 0;
+    for (const entry of period) {
+      if (entry.price) {
+        decisions.set(entry.activity.id, priceActivity(entry.activity, sources, pricedAt, { volumeBefore, periodVolume }));
+      }
+      volumeBefore += Number(entry.activity.quantity);
+    }
+  }
+
+  return decisions;
+}
+
+export class RateEngine {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Load every non-archived rate card for a customer as rate sources
+   * Superseded versions are kept so historical periods price against their own card
+   */
+  async getRateSources(customerId: string): Promise<RateSource[]> {
+    const cards = await this.prisma.rateCard.findMany({
+      where: { customerId, archivedAt: null },
+      select: {
+        id: true,
+        name: true,
+        version: true,
+        rateCardType: true,
+        effectiveDate: true,
+        expiresDate: true,
+        rates: true,
+      },
+    });
+
+    return cards as RateSource[];
+  }
+
+  /**
+   * Price (mode 'unpriced') or re-price (mode 'reprice') a customer's activities
+   * - unpriced: only rows without an amount
+   * - reprice: every non-invoiced row in the range, from scratch
+   * Manual overrides and invoiced rows are always left alone.
+   */
+  async priceActivities(customerId: string, input: PriceActivitiesInput): Promise<PricingSummary> {
+    const where: any = {
+      customerId,
+      invoiced: false,
+      isManualOverride: false,
+      ...(input.mode === 'unpriced' && { amount: null }),
+      ...(input.type && { type: input.type }),
+    };
+
+    if (input.from || input.to) {
+      where.activityDate = {
+        ...(input.from && { gte: input.from }),
+        ...(input.to && { lte: input.to }),
+      };
+    }
+
+    const [requested, sources] = await Promise.all([
+      this.prisma.billingActivity.findMany({
+        where,
+        orderBy: { activityDate: 'asc' },
+      }),
+      this.getRateSources(customerId),
+    ]);
+
+    // Period tiers: everything else of the same service and period is priced along
+    const peers = await this.getTierPeriodPeers(customerId, requested, sources);
+    const requestedIds = new Set(requested.map(a => a.id));
+    const repriced = peers.filter(a => !requestedIds.has(a.id) && !a.invoiced && !a.isManualOverride);
+    const volumeOnly = peers.filter(a => a.invoiced || a.isManualOverride);
+
+    const activities = [...requested, ...repriced].sort((a, b) =>
+      a.activityDate.getTime() - b.activityDate.getTime()
+    );
+
+    const pricedAt = new Date();
+    const decisions = priceActivityBatch(activities.map(toBatchActivity), sources, pricedAt, volumeOnly.map(toBatchActivity));
+    const summary: PricingSummary = {
+      considered: activities.length,
+      priced: 0,
+      unpriced: 0,
+      changed: 0,
+      tierRepriced: repriced.length,
+      dryRun: input.dryRun,
+      results: [],
+    };
+
+    const updates: Array<{ id: string; data: any }> = [];
+
+    for (const activity of activities) {
+      const decision = decisions.get(activity.id)!;
+
+      const previousAmount = activity.amount === null ? null : Number(activity.amount);
+      const previousRate = activity.rateApplied === null ? null : Number(activity.rateApplied);
+
+      if (decision.priced) summary.priced++;
+      else summary.unpriced++;
+
+      const changed = previousAmount !== decision.amount ||
+        previousRate !== decision.rateApplied ||
+        activity.rateCardId !== decision.rateCardId;
+      if (changed) summary.changed++;
+
+      summary.results.push({
+        activityId: activity.id,
+        activityDate: activity.activityDate.toISOString().slice(0, 10),
+        type: activity.type,
+        quantity: Number(activity.quantity),
+        previousAmount,
+        rateApplied: decision.rateApplied,
+        amount: decision.amount,
+        explanation: decision.explanation,
+      });
+
+      updates.push({
+        id: activity.id,
+        data: {
+          rateApplied: decision.rateApplied,
+          amount: decision.amount,
+          rateCardId: decision.rateCardId,
+          metadata: {
+            ...((activity.metadata as Record<string, unknown>) ?? {}),
+            pricing: decision.explanation,
+          },
+        },
+      });
+    }
+
+    if (!input.dryRun && updates.length > 0) {
+      await this.prisma.$transaction(async (tx) => {
+        for (const update of updates) {
+          await tx.billingActivity.update({
+            where: { id: update.id },
+            data: update.data,
+          });
+        }
+      }, { timeout: 60000 });
+    }
+
+    return summary;
+  }
+
+  /**
+   * All activities (any status) sharing a service and tier period with activities
+   * priced on period volume
+   */
+  private async getTierPeriodPeers(customerId: string, activities: any[], sources: RateSource[]): Promise<any[]> {
+    const periods = new Map<string, { type: string; from: Date; to: Date }>();
+
+    for (const activity of activities) {
+      const batchActivity = toBatchActivity(activity);
+      if (!usesPeriodTiers(batchActivity, sources)) continue;
+
+      const from = getTierPeriodStart(batchActivity);
+      const to = activity.billingCycle === 'weekly' && activity.billingPeriodStart
+        ? new Date(from.getTime() + 6 * 24 * 60 * 60 * 1000)
+        : new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + 1, 0));
+      periods.set(tierPeriodKey(batchActivity), { type: activity.type, from, to });
+    }
+
+    if (periods.size === 0) {
+      return [];
+    }
+
+    const candidates = await this.prisma.billingActivity.findMany({
+      where: {
+        customerId,
+        OR: [...periods.values()].map(period => ({
+          type: period.type,
+          activityDate: { gte: period.from, lte: period.to },
+        })),
+      },
+      orderBy: { activityDate: 'asc' },
+    });
+
+    return candidates.filter(activity => periods.has(tierPeriodKey(toBatchActivity(activity))));
+  }
+}
@@ -0,0 +1,406 @@
+/**
+ * @fileoverview Rate Simulation Service - Price a customer's history against a draft rate card
+ * @author Handled Platform Team
+ * @version 1.0.0
+ * @since 2026-10-18
+ *
+ * PURPOSE:
+ * Answer "what would this customer have paid over this period under these rates?"
+ * by re-pricing the customer's BillingActivity history against a draft rates payload
+ * (or an existing card) in memory, and comparing the result with what was actually
+ * charged - per category, including surcharges and monthly minimums.
+ *
+ * SCOPE:
+ * ✅ Draft rates (rateCardRatesSchema) or an existing rate card as the only rate source
+ * ✅ Same pricing as billing: RateEngine (period tiers, zones, carrier cost-plus),
+ *    SurchargeEngine and the monthly minimum top-up
+ * ✅ Per-category totals, difference vs actual, unpriced activities
+ * ✅ Monthly minimum effect per calendar month (simulated vs actual top-up)
+ *
+ * OUT OF SCOPE:
+ * ❌ Persisting anything - activities, invoices and cards are never written
+ * ❌ Adjustment cards on top of the simulated card (the card applies to the whole range)
+ *
+ * BUSINESS RULES:
+ * 💰 Actual = the amounts the activities are priced at today, plus surcharge and
+ *    minimum lines of issued (non-draft, non-void) invoices for periods in the range
+ * ✋ Manual overrides keep their amount in the simulation (negotiated, not rated)
+ *    but still count toward period volume
+ * 🧾 Surcharges are evaluated per billing cycle period, like invoices
+ * 📉 Minimums are only evaluated for calendar months fully inside the range
+ * 📊 Period volume tiers only see activities inside the range - simulate whole
+ *    billing periods for exact tier results
+ *
+ * @example
+ * const simulation = new RateSimulationService(prisma);
+ * const result = await simulation.simulate({ customerId, from, to, rates: draftRates });
+ * // result.totals → { actual: 12450.1, simulated: 13120.75, difference: 670.65, ... }
+ */
+
+import type { PrismaClient } from '@prisma/client-primary';
+import { priceActivityBatch, type BatchActivity, type RateSource } from './rateEngine.js';
+import { calculateSurcharges, getActivityCategory } from './surchargeEngine.js';
+import type { SimulateRateCardInput } from '../validation/rateCardSchema.js';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Rate source id used for draft rates */
+export const DRAFT_RATE_CARD_ID = 'draft';
+
+const MAX_UNPRICED_LISTED = 50;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SimulationActivity extends BatchActivity {
+  amount: number | null;
+  isManualOverride: boolean;
+}
+
+export interface SimulationCategory {
+  category: string;
+  activityCount: number;
+  actual: number;
+  simulated: number;
+  difference: number;
+  /** Relative change vs actual, null when nothing was charged */
+  differencePercent: number | null;
+}
+
+export interface SimulationMonth {
+  month: string;
+  /** Month only partly inside the range - minimum not evaluated */
+  partial: boolean;
+  actualSubtotal: number;
+  simulatedSubtotal: number;
+  minimum: number;
+  actualTopUp: number;
+  simulatedTopUp: number;
+}
+
+export interface SimulationResult {
+  customerId: string;
+  from: string;
+  to: string;
+  rateCard: { id: string; name: string; draft: boolean };
+  activityCount: number;
+  priced: number;
+  unpriced: number;
+  overrides: number;
+  categories: SimulationCategory[];
+  months: SimulationMonth[];
+  totals: { actual: number; simulated: number; difference: number; differencePercent: number | null };
+  unpricedActivities: Array<{ activityId: string; type: string; activityDate: string; detail: string }>;
+}
+
+/**
+ * Surcharge or minimum line of an issued invoice in the range
+ */
+export interface ActualInvoiceLine {
+  category: 'surcharge' | 'minimum';
+  lineTotal: number;
+  periodStart: Date;
+}
+
+// ============================================
+// PURE HELPERS
+// ============================================
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function percentChange(actual: number, simulated: number): number | null {
+  if (actual === 0) return null;
+  return Math.round(((simulated - actual) / actual) * 10000) / 100;
+}
+
+/**
+ * Calendar months touched by a date range, flagged when only partly covered
+ */
+export function getSimulationMonths(from: Date, to: Date): Array<{ month: string; partial: boolean }> {
+  const months: Array<{ month: string; partial: boolean }> = [];
+  let cursor = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), 1));
+
+  while (cursor <= to) {
+    const monthEnd = new Date(Date.UTC(cursor.getUTCFullYear(), cursor.getUTCMonth() + 1, 0));
+    months.push({
+      month: formatDate(cursor).slice(0, 7),
+      partial: cursor < from || monthEnd > to,
+    });
+    cursor = new Date(Date.UTC(cursor.getUTCFullYear(), cursor.getUTCMonth() + 1, 1));
+  }
+
+  return months;
+}
+
+/**
+ * Re-price activities against a single rate source and compare with actual charges
+ * Pure function - no database access
+ */
+export function simulateActivities(
+  activities: SimulationActivity[],
+  source: RateSource,
+  options: {
+    from: Date;
+    to: Date;
+    minimum: number;
+    actualLines?: ActualInvoiceLine[];
+    pricedAt?: Date;
+  }
+): Omit<SimulationResult, 'customerId' | 'from' | 'to' | 'rateCard'> {
+  const pricedAt = options.pricedAt ?? new Date();
+  const rated = activities.filter(a => !a.isManualOverride);
+  const overrides = activities.filter(a => a.isManualOverride);
+  const decisions = priceActivityBatch(rated, [source], pricedAt, overrides);
+
+  const categories = new Map<string, SimulationCategory>();
+  const months = new Map(getSimulationMonths(options.from, options.to).map(m => [m.month, {
+    ...m,
+    actualSubtotal: 0,
+    simulatedSubtotal: 0,
+    minimum: m.partial ? 0 : options.minimum,
+    actualTopUp: 0,
+    simulatedTopUp: 0,
+  } as SimulationMonth]));
+
+  const addToCategory = (category: string, actual: number, simulated: number, count: number) => {
+    const entry = categories.get(category) ?? {
+      category, activityCount: 0, actual: 0, simulated: 0, difference: 0, differencePercent: null,
+    };
+    entry.activityCount += count;
+    entry.actual = roundMoney(entry.actual + actual);
+    entry.simulated = roundMoney(entry.simulated + simulated);
+    categories.set(category, entry);
+  };
+  const addToMonth = (date: Date, actual: number, simulated: number) => {
+    const month = months.get(formatDate(date).slice(0, 7));
+    if (!month) return;
+    month.actualSubtotal = roundMoney(month.actualSubtotal + actual);
+    month.simulatedSubtotal = roundMoney(month.simulatedSubtotal + simulated);
+  };
+
+  const result: Omit<SimulationResult, 'customerId' | 'from' | 'to' | 'rateCard'> = {
+    activityCount: activities.length,
+    priced: 0,
+    unpriced: 0,
+    overrides: overrides.length,
+    categories: [],
+    months: [],
+    totals: { actual: 0, simulated: 0, difference: 0, differencePercent: null },
+    unpricedActivities: [],
+  };
+
+  // Simulated amounts per activity (overrides keep theirs), grouped per billing period for surcharges
+  const periods = new Map<string, Array<{ activity: SimulationActivity; amount: number }>>();
+
+  for (const activity of activities) {
+    const actual = Number(activity.amount ?? 0);
+    let simulated = actual;
+
+    if (!activity.isManualOverride) {
+      const decision = decisions.get(activity.id)!;
+      if (decision.priced) {
+        result.priced++;
+        simulated = decision.amount!;
+      } else {
+        result.unpriced++;
+        simulated = 0;
+        if (result.unpricedActivities.length < MAX_UNPRICED_LISTED) {
+          result.unpricedActivities.push({
+            activityId: activity.id,
+            type: activity.type,
+            activityDate: formatDate(activity.activityDate),
+            detail: decision.explanation.detail,
+          });
+        }
+      }
+    }
+
+    addToCategory(getActivityCategory(activity.type), actual, simulated, 1);
+    addToMonth(activity.activityDate, actual, simulated);
+
+    const periodStart = activity.billingPeriodStart ?? new Date(Date.UTC(
+      activity.activityDate.getUTCFullYear(), activity.activityDate.getUTCMonth(), 1
+    ));
+    const periodKey = `${activity.billingCycle ?? 'monthly'}|${formatDate(periodStart)}`;
+    const period = periods.get(periodKey) ?? [];
+    period.push({ activity, amount: simulated });
+    periods.set(periodKey, period);
+  }
+
+  // Surcharges on the simulated amounts, one evaluation per invoice-sized period
+  for (const period of periods.values()) {
+    const applied = calculateSurcharges(
+      period.map(({ activity, amount }) => ({
+        id: activity.id,
+        activityDate: activity.activityDate,
+        type: activity.type,
+        quantity: Number(activity.quantity),
+        amount,
+        metadata: activity.metadata,
+      })),
+      [source]
+    );
+    const total = roundMoney(applied.reduce((sum, s) => sum + s.amount, 0));
+    if (total !== 0) {
+      addToCategory('surcharge', 0, total, 0);
+      addToMonth(period[0].activity.activityDate, 0, total);
+    }
+  }
+
+  for (const line of options.actualLines ?? []) {
+    addToCategory(line.category, line.lineTotal, 0, 0);
+    if (line.category === 'surcharge') {
+      addToMonth(line.periodStart, line.lineTotal, 0);
+    } else {
+      const month = months.get(formatDate(line.periodStart).slice(0, 7));
+      if (month) month.actualTopUp = roundMoney(month.actualTopUp + line.lineTotal);
+    }
+  }
+
+  // Monthly minimum top-up on the simulated month
+  for (const month of months.values()) {
+    if (month.partial || month.minimum <= 0) continue;
+    month.simulatedTopUp = roundMoney(Math.max(0, month.minimum - month.simulatedSubtotal));
+    if (month.simulatedTopUp > 0) {
+      addToCategory('minimum', 0, month.simulatedTopUp, 0);
+    }
+  }
+
+  result.categories = [...categories.values()]
+    .map(entry => ({
+      ...entry,
+      difference: roundMoney(entry.simulated - entry.actual),
+      differencePercent: percentChange(entry.actual, entry.simulated),
+    }))
+    .sort((a, b) => a.category.localeCompare(b.category));
+  result.months = [...months.values()];
+
+  const actual = roundMoney(result.categories.reduce((sum, c) => sum + c.actual, 0));
+  const simulated = roundMoney(result.categories.reduce((sum, c) => sum + c.simulated, 0));
+  result.totals = {
+    actual,
+    simulated,
+    difference: roundMoney(simulated - actual),
+    differencePercent: percentChange(actual, simulated),
+  };
+
+  return result;
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+export class RateSimulationService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Simulate a customer's activity history over a range against draft rates or a card
+   * Read-only - nothing is written
+   */
+  async simulate(input: SimulateRateCardInput): Promise<SimulationResult> {
+    const customer = await this.prisma.customer.findUnique({
+      where: { id: input.customerId },
+      select: { id: true, deleted: true },
+    });
+
+    if (!customer || customer.deleted) {
+      throw new Error('Customer not found');
+    }
+
+    let rateCard: SimulationResult['rateCard'];
+    let rates: any;
+    let minimum = input.minimumMonthlyCharge ?? undefined;
+
+    if (input.rateCardId) {
+      const card = await this.prisma.rateCard.findUnique({
+        where: { id: input.rateCardId },
+        select: { id: true, name: true, rates: true, minimumMonthlyCharge: true },
+      });
+      if (!card) {
+        throw new Error('Rate card not found');
+      }
+      rateCard = { id: card.id, name: card.name, draft: false };
+      rates = card.rates;
+      minimum ??= card.minimumMonthlyCharge === null ? undefined : Number(card.minimumMonthlyCharge);
+    } else {
+      rateCard = { id: DRAFT_RATE_CARD_ID, name: 'Draft rate card', draft: true };
+      rates = input.rates;
+    }
+
+    // The simulated card is the only source and covers the whole range
+    const source: RateSource = {
+      id: rateCard.id,
+      name: rateCard.name,
+      version: 1,
+      rateCardType: 'standard',
+      effectiveDate: input.from,
+      expiresDate: null,
+      rates,
+    };
+
+    const [activities, actualLines] = await Promise.all([
+      this.prisma.billingActivity.findMany({
+        where: {
+          customerId: input.customerId,
+          activityDate: { gte: input.from, lte: input.to },
+        },
+        orderBy: { activityDate: 'asc' },
+      }),
+      this.prisma.invoiceLine.findMany({
+        where: {
+          category: { in: ['surcharge', 'minimum'] },
+          invoice: {
+            customerId: input.customerId,
+            status: { notIn: ['draft', 'void'] },
+            periodStart: { gte: input.from },
+            periodEnd: { lte: input.to },
+          },
+        },
+        select: { category: true, lineTotal: true, invoice: { select: { periodStart: true } } },
+      }),
+    ]);
+
+    const simulation = simulateActivities(
+      activities.map(activity => ({
+        id: activity.id,
+        activityDate: activity.activityDate,
+        type: activity.type,
+        quantity: Number(activity.quantity),
+        metadata: activity.metadata,
+        billingCycle: activity.billingCycle,
+        billingPeriodStart: activity.billingPeriodStart,
+        amount: activity.amount === null ? null : Number(activity.amount),
+        isManualOverride: activity.isManualOverride,
+      })),
+      source,
+      {
+        from: input.from,
+        to: input.to,
+        minimum: minimum ?? Number(rates?.minimums?.monthlyMinimum ?? 0),
+        actualLines: actualLines.map(line => ({
+          category: line.category as ActualInvoiceLine['category'],
+          lineTotal: Number(line.lineTotal),
+          periodStart: line.invoice.periodStart,
+        })),
+      }
+    );
+
+    return {
+      customerId: input.customerId,
+      from: formatDate(input.from),
+      to: formatDate(input.to),
+      rateCard,
+      ...simulation,
+    };
+  }
+}
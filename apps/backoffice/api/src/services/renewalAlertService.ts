@@ -0,0 +1,644 @@
+/**
+ * @fileoverview Renewal Alert Service - Rate card and contract expiry warnings
+ * @author Handled Platform Team
+ * @version 1.0.0
+ * @since 2026-10-18
+ *
+ * PURPOSE:
+ * Warn account managers before pricing or contracts lapse. A daily check finds
+ * standard rate cards and contracts expiring within the alert windows and customers
+ * with no rate card for an upcoming date, stores them as alerts (dashboard tasks and
+ * header notifications) and drafts renewal contracts for autoRenew contracts.
+ *
+ * SCOPE:
+ * ✅ Configurable alert windows (RENEWAL_ALERT_WINDOWS, default 90,60,30 days)
+ * ✅ Rate card coverage per active customer: a standard card lapsing without a
+ *    successor, or a date with no card at all
+ * ✅ Active contracts reaching their end date
+ * ✅ autoRenew contracts: draft renewal contract (same term) + optional next rate card version
+ * ✅ Idempotent runs: one alert per subject and window, resolved when the condition clears
+ * ✅ Acknowledge (the alert stays until resolved, but stops counting as new)
+ *
+ * OUT OF SCOPE:
+ * ❌ Activating drafted renewals (contract status transitions)
+ * ❌ Email delivery
+ * ❌ Adjustment rate cards (temporary by design)
+ *
+ * BUSINESS RULES:
+ * 📅 A subject is alerted in the smallest window its date falls in, so moving from
+ *    the 90 to the 60 day window opens a new alert and resolves the previous one
+ * 🚦 Severity: smallest window critical, largest info, the ones between warning
+ * 🔗 Drafted renewals start the day after the contract ends, keep its term length and
+ *    point back at the original through renewalOfContractId; the original is left
+ *    untouched until the renewal is executed (ContractService links supersession then)
+ * 💳 Rate card versions are only planned when enabled, for the card linked to the
+ *    contract: an expiring card is recorded as the renewal's plannedRateCardId and its
+ *    next version is created when the renewal is executed (pricing and contract links
+ *    are untouched until then), an open-ended card is linked to the renewal straight away
+ * ✅ Alerts resolve automatically once the card has a successor, the contract is
+ *    renewed / ended, or a drafted renewal leaves draft
+ *
+ * @example
+ * const renewals = new RenewalAlertService(prisma);
+ * const result = await renewals.runCheck({ asOf: new Date('2026-10-18') });
+ * // result.alerts → { created: 3, resolved: 1, open: 7 }, result.renewals → [{ contractId, renewalContractId }]
+ */
+
+import type { PrismaClient } from '@prisma/client-primary';
+import { RateCardService } from './rateCardService.js';
+import type { ListRenewalAlertsInput, RenewalAlertType } from '../validation/renewalAlertSchema.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+/**
+ * Alert the check wants open - matched to stored alerts by dedupeKey
+ */
+export interface AlertCandidate {
+  customerId: string;
+  alertType: RenewalAlertType;
+  subjectType: 'rate_card' | 'contract' | 'customer';
+  subjectId: string;
+  subjectDate: Date;
+  windowDays: number | null;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  details: Record<string, unknown>;
+  dedupeKey: string;
+}
+
+export interface CoverageCard {
+  id: string;
+  name: string;
+  version: number;
+  effectiveDate: Date;
+  expiresDate: Date | null;
+}
+
+export interface RenewalCheckOptions {
+  asOf?: Date;
+  windows?: number[];
+  draftRenewals?: boolean;
+  draftRateCardVersions?: boolean;
+  dryRun?: boolean;
+  runBy?: string;
+}
+
+export interface RenewalCheckResult {
+  asOf: string;
+  windows: number[];
+  dryRun: boolean;
+  alerts: { created: number; reopened: number; resolved: number; open: number };
+  renewals: Array<{
+    contractId: string;
+    contractName: string;
+    renewalContractId: string | null;
+    startDate: string;
+    endDate: string | null;
+    rateCard?: { action: 'planned' | 'linked'; rateCardId: string } | { action: 'failed'; reason: string };
+  }>;
+  candidates: AlertCandidate[];
+}
+
+// ============================================
+// PURE HELPERS
+// ============================================
+
+export const DEFAULT_ALERT_WINDOWS = [90, 60, 30];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * "90,60,30" → [90, 60, 30] (largest first), defaults when unset or invalid
+ */
+export function parseAlertWindows(value: string | undefined): number[] {
+  const windows = (value ?? '')
+    .split(',')
+    .map(part => parseInt(part.trim(), 10))
+    .filter(days => Number.isInteger(days) && days > 0);
+
+  return windows.length > 0
+    ? [...new Set(windows)].sort((a, b) => b - a)
+    : DEFAULT_ALERT_WINDOWS;
+}
+
+/**
+ * Smallest window the date falls in, null when it is further out than every window
+ * (or already past)
+ */
+export function getAlertWindow(daysUntil: number, windows: number[]): number | null {
+  if (daysUntil < 0) return null;
+  const matching = windows.filter(window => daysUntil <= window);
+  return matching.length > 0 ? Math.min(...matching) : null;
+}
+
+export function getAlertSeverity(window: number, windows: number[]): AlertSeverity {
+  const sorted = [...windows].sort((a, b) => a - b);
+  if (window === sorted[0]) return 'critical';
+  if (window === sorted[sorted.length - 1]) return 'info';
+  return 'warning';
+}
+
+/**
+ * Renewal term: starts the day after the contract ends and keeps its length -
+ * whole months when the contract ran whole months, otherwise the same number of days
+ */
+export function getRenewalTerm(startDate: Date, endDate: Date): { startDate: Date; endDate: Date } {
+  const renewalStart = addDays(startOfUtcDay(endDate), 1);
+  const months = (renewalStart.getUTCFullYear() - startDate.getUTCFullYear()) * 12 +
+    (renewalStart.getUTCMonth() - startDate.getUTCMonth());
+
+  if (months > 0 && renewalStart.getUTCDate() === startDate.getUTCDate()) {
+    const renewalEnd = new Date(Date.UTC(
+      renewalStart.getUTCFullYear(), renewalStart.getUTCMonth() + months, renewalStart.getUTCDate()
+    ));
+    return { startDate: renewalStart, endDate: addDays(renewalEnd, -1) };
+  }
+
+  const days = Math.round((startOfUtcDay(endDate).getTime() - startOfUtcDay(startDate).getTime()) / DAY_MS);
+  return { startDate: renewalStart, endDate: addDays(renewalStart, days) };
+}
+
+/**
+ * First date in [from, to] not covered by any card (expiresDate is exclusive,
+ * like rate source selection), null when fully covered
+ */
+export function findCoverageGap(cards: CoverageCard[], from: Date, to: Date): Date | null {
+  let cursor = from;
+
+  while (cursor <= to) {
+    const covering = cards
+      .filter(card => card.effectiveDate <= cursor && (!card.expiresDate || card.expiresDate > cursor))
+      .sort((a, b) => (b.expiresDate?.getTime() ?? Infinity) - (a.expiresDate?.getTime() ?? Infinity))[0];
+
+    if (!covering) return cursor;
+    if (!covering.expiresDate) return null;
+    cursor = covering.expiresDate;
+  }
+
+  return null;
+}
+
+/**
+ * Rate card alert for one customer: the card lapsing into a gap, or the gap itself
+ */
+export function buildRateCardAlert(
+  customer: { id: string; name: string },
+  cards: CoverageCard[],
+  asOf: Date,
+  windows: number[]
+): AlertCandidate | null {
+  const horizon = addDays(asOf, Math.max(...windows));
+  const gap = findCoverageGap(cards, asOf, horizon);
+  if (!gap) return null;
+
+  const daysUntil = Math.max(0, Math.round((startOfUtcDay(gap).getTime() - asOf.getTime()) / DAY_MS));
+  const window = getAlertWindow(daysUntil, windows)!;
+  const severity = getAlertSeverity(window, windows);
+  const lapsing = cards.find(card => card.expiresDate?.getTime() === gap.getTime());
+
+  if (lapsing) {
+    return {
+      customerId: customer.id,
+      alertType: 'rate_card_expiring',
+      subjectType: 'rate_card',
+      subjectId: lapsing.id,
+      subjectDate: gap,
+      windowDays: window,
+      severity,
+      title: `${customer.name}: rate card expires in ${daysUntil} days`,
+      message: `${lapsing.name} v${lapsing.version} expires on ${formatDate(gap)} and no new version follows it.`,
+      details: { customerName: customer.name, rateCardName: lapsing.name, version: lapsing.version, daysUntil },
+      dedupeKey: `rate_card_expiring:${lapsing.id}:${window}`,
+    };
+  }
+
+  return {
+    customerId: customer.id,
+    alertType: 'no_active_rate_card',
+    subjectType: 'customer',
+    subjectId: customer.id,
+    subjectDate: gap,
+    windowDays: window,
+    severity,
+    title: daysUntil === 0
+      ? `${customer.name}: no active rate card`
+      : `${customer.name}: no rate card from ${formatDate(gap)}`,
+    message: `${customer.name} has no standard rate card in effect on ${formatDate(gap)} - activity from that date cannot be priced.`,
+    details: { customerName: customer.name, daysUntil },
+    dedupeKey: `no_active_rate_card:${customer.id}:${formatDate(gap)}:${window}`,
+  };
+}
+
+/**
+ * Contract end alert, null outside every window
+ */
+export function buildContractAlert(
+  contract: { id: string; customerId: string; name: string; contractNumber: string | null; endDate: Date; autoRenew: boolean },
+  customerName: string,
+  asOf: Date,
+  windows: number[]
+): AlertCandidate | null {
+  const daysUntil = Math.round((startOfUtcDay(contract.endDate).getTime() - asOf.getTime()) / DAY_MS);
+  const window = getAlertWindow(daysUntil, windows);
+  if (window === null) return null;
+
+  const label = contract.contractNumber ? `${contract.name} (${contract.contractNumber})` : contract.name;
+
+  return {
+    customerId: contract.customerId,
+    alertType: 'contract_expiring',
+    subjectType: 'contract',
+    subjectId: contract.id,
+    subjectDate: startOfUtcDay(contract.endDate),
+    windowDays: window,
+    severity: getAlertSeverity(window, windows),
+    title: `${customerName}: contract ends in ${daysUntil} days`,
+    message: `${label} ends on ${formatDate(contract.endDate)}${contract.autoRenew ? '' : ' and does not auto-renew'}.`,
+    details: { customerName, contractName: contract.name, contractNumber: contract.contractNumber, daysUntil },
+    dedupeKey: `contract_expiring:${contract.id}:${window}`,
+  };
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+const MANAGED_STATUSES = ['open', 'acknowledged'];
+
+export class RenewalAlertService {
+  private rateCardService: RateCardService;
+
+  constructor(private prisma: PrismaClient) {
+    this.rateCardService = new RateCardService(prisma);
+  }
+
+  /**
+   * Run the expiry / renewal check for every active customer
+   */
+  async runCheck(options: RenewalCheckOptions = {}): Promise<RenewalCheckResult> {
+    const asOf = startOfUtcDay(options.asOf ?? new Date());
+    const windows = options.windows
+      ? [...options.windows].sort((a, b) => b - a)
+      : parseAlertWindows(process.env.RENEWAL_ALERT_WINDOWS);
+    const horizon = addDays(asOf, Math.max(...windows));
+    const dryRun = options.dryRun ?? false;
+    const draftRenewals = options.draftRenewals ?? true;
+    const draftRateCardVersions = options.draftRateCardVersions ?? process.env.RENEWAL_DRAFT_RATE_CARDS === 'true';
+
+    const candidates: AlertCandidate[] = [];
+    const renewals: RenewalCheckResult['renewals'] = [];
+
+    // Rate card coverage per active customer
+    const customers = await this.prisma.customer.findMany({
+      where: { status: 'active', deleted: false },
+      select: {
+        id: true,
+        name: true,
+        rateCards: {
+          where: { rateCardType: 'standard', archivedAt: null },
+          select: { id: true, name: true, version: true, effectiveDate: true, expiresDate: true },
+        },
+      },
+    });
+
+    for (const customer of customers) {
+      const alert = buildRateCardAlert(customer, customer.rateCards, asOf, windows);
+      if (alert) candidates.push(alert);
+    }
+
+    // Active contracts ending within the windows and not yet renewed
+    const contracts = await this.prisma.contract.findMany({
+      where: {
+        status: 'active',
+        archivedAt: null,
+        supersededByContractId: null,
+        renewals: { none: { status: 'draft', archivedAt: null } },
+        endDate: { gte: asOf, lte: horizon },
+        customer: { deleted: false },
+      },
+      include: { customer: { select: { name: true } } },
+    });
+
+    for (const contract of contracts) {
+      if (contract.autoRenew && draftRenewals) {
+        renewals.push(await this.draftRenewal(contract, { dryRun, draftRateCardVersions, runBy: options.runBy }));
+        continue;
+      }
+
+      const alert = buildContractAlert(contract as typeof contract & { endDate: Date }, contract.customer.name, asOf, windows);
+      if (alert) candidates.push(alert);
+    }
+
+    // Drafted renewals waiting to be executed
+    const drafts = await this.prisma.contract.findMany({
+      where: { contractType: 'renewal', status: 'draft', archivedAt: null, renewalOfContractId: { not: null } },
+      include: {
+        customer: { select: { name: true } },
+        renewalOf: { select: { id: true, name: true, endDate: true } },
+      },
+    });
+
+    for (const draft of drafts) {
+      const original = draft.renewalOf!;
+      candidates.push({
+        customerId: draft.customerId,
+        alertType: 'contract_renewal_drafted',
+        subjectType: 'contract',
+        subjectId: draft.id,
+        subjectDate: draft.startDate,
+        windowDays: null,
+        severity: 'warning',
+        title: `${draft.customer.name}: renewal drafted`,
+        message: `${draft.name} was drafted to renew ${original.name} from ${formatDate(draft.startDate)}. Review and execute it before ${original.endDate ? formatDate(original.endDate) : 'the current contract ends'}.`,
+        details: { customerName: draft.customer.name, originalContractId: original.id },
+        dedupeKey: `contract_renewal_drafted:${draft.id}`,
+      });
+    }
+
+    const alerts = dryRun
+      ? { created: 0, reopened: 0, resolved: 0, open: candidates.length }
+      : await this.syncAlerts(candidates);
+
+    return { asOf: formatDate(asOf), windows, dryRun, alerts, renewals, candidates };
+  }
+
+  /**
+   * Draft the renewal contract for an autoRenew contract (and optionally its rate card)
+   */
+  private async draftRenewal(
+    contract: any,
+    options: { dryRun: boolean; draftRateCardVersions: boolean; runBy?: string }
+  ): Promise<RenewalCheckResult['renewals'][number]> {
+    const term = getRenewalTerm(contract.startDate, contract.endDate);
+    const entry: RenewalCheckResult['renewals'][number] = {
+      contractId: contract.id,
+      contractName: contract.name,
+      renewalContractId: null,
+      startDate: formatDate(term.startDate),
+      endDate: formatDate(term.endDate),
+    };
+
+    if (options.dryRun) {
+      return entry;
+    }
+
+    const renewal = await this.prisma.contract.create({
+      data: {
+        customerId: contract.customerId,
+        name: `${contract.name} (Renewal ${term.startDate.getUTCFullYear()})`,
+        startDate: term.startDate,
+        endDate: term.endDate,
+        autoRenew: true,
+        status: 'draft',
+        contractType: 'renewal',
+        renewalOfContractId: contract.id,
+        billingCycle: contract.billingCycle,
+        paymentTerms: contract.paymentTerms,
+        terms: contract.terms ?? undefined,
+        notes: `Drafted automatically to renew ${contract.contractNumber ?? contract.name} (auto-renew)`,
+      },
+    });
+    entry.renewalContractId = renewal.id;
+
+    if (options.draftRateCardVersions) {
+      entry.rateCard = await this.draftRenewalRateCard(contract, renewal, options.runBy);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Plan the next rate card version for a renewal, or link the open-ended card
+   * A failure here leaves the drafted contract in place and is reported
+   */
+  private async draftRenewalRateCard(contract: any, renewal: any, runBy?: string) {
+    const card = await this.prisma.rateCard.findFirst({
+      where: {
+        rateCardType: 'standard',
+        archivedAt: null,
+        contractLinks: { some: { contractId: contract.id } },
+        effectiveDate: { lte: contract.endDate },
+        OR: [{ expiresDate: null }, { expiresDate: { gt: contract.endDate } }],
+      },
+      include: { childVersions: { where: { archivedAt: null }, select: { id: true } } },
+      orderBy: { effectiveDate: 'desc' },
+    });
+
+    if (!card) {
+      return { action: 'failed' as const, reason: 'No standard rate card linked to the contract covers its end date' };
+    }
+
+    try {
+      if (!card.expiresDate) {
+        await this.prisma.rateCardContract.create({
+          data: { rateCardId: card.id, contractId: renewal.id, linkType: 'addendum', linkedBy: runBy },
+        });
+        return { action: 'linked' as const, rateCardId: card.id };
+      }
+
+      if (card.childVersions.length > 0) {
+        return { action: 'failed' as const, reason: `${card.name} v${card.version} already has a newer version` };
+      }
+
+      // A version now would expire the current card even if the renewal is never executed
+      await this.prisma.contract.update({
+        where: { id: renewal.id },
+        data: { plannedRateCardId: card.id },
+      });
+      return { action: 'planned' as const, rateCardId: card.id };
+    } catch (error) {
+      return { action: 'failed' as const, reason: (error as Error).message };
+    }
+  }
+
+  /**
+   * Create the rate card version planned for an executed renewal
+   * (ContractService calls this once the renewal is active). A card that gained a
+   * newer version in the meantime is left alone; a card left without a successor is
+   * picked up by the rate_card_expiring alert.
+   */
+  async createPlannedRateCardVersions(renewalContractId: string, runBy?: string) {
+    const renewal = await this.prisma.contract.findUnique({
+      where: { id: renewalContractId },
+      select: {
+        name: true,
+        startDate: true,
+        endDate: true,
+        plannedRateCard: { include: { childVersions: { where: { archivedAt: null }, select: { id: true } } } },
+      },
+    });
+
+    const results: Array<{ rateCardId: string; versionId: string | null; skipped?: string; error?: string }> = [];
+    const card = renewal?.plannedRateCard;
+    if (!renewal || !card) {
+      return results;
+    }
+
+    // Claim the plan - a concurrent execution of the same renewal finds it cleared
+    const claimed = await this.prisma.contract.updateMany({
+      where: { id: renewalContractId, plannedRateCardId: card.id },
+      data: { plannedRateCardId: null },
+    });
+    if (claimed.count === 0) {
+      return results;
+    }
+
+    if (card.archivedAt || card.childVersions.length > 0) {
+      results.push({ rateCardId: card.id, versionId: null, skipped: 'Card was archived or already has a newer version' });
+      return results;
+    }
+
+    try {
+      const version = await this.rateCardService.createRateCardVersion(card.id, {
+        effectiveDate: renewal.startDate,
+        expiresDate: renewal.endDate ? addDays(renewal.endDate, 1) : null,
+        contractIds: [renewalContractId],
+        notes: `Created for renewal ${renewal.name}`,
+      }, runBy);
+      results.push({ rateCardId: card.id, versionId: version!.id });
+    } catch (error) {
+      results.push({ rateCardId: card.id, versionId: null, error: (error as Error).message });
+    }
+
+    return results;
+  }
+
+  /**
+   * Create / reopen alerts for the candidates and resolve open alerts that no longer apply
+   */
+  private async syncAlerts(candidates: AlertCandidate[]) {
+    const counts = { created: 0, reopened: 0, resolved: 0, open: 0 };
+    const keys = new Set(candidates.map(candidate => candidate.dedupeKey));
+
+    const existing = await this.prisma.renewalAlert.findMany({
+      where: {
+        OR: [
+          { dedupeKey: { in: [...keys] } },
+          { status: { in: MANAGED_STATUSES } },
+        ],
+      },
+      select: { id: true, dedupeKey: true, status: true },
+    });
+    const byKey = new Map<string, { id: string; status: string }>(existing.map(alert => [alert.dedupeKey, alert]));
+
+    for (const candidate of candidates) {
+      const { dedupeKey, ...data } = candidate;
+      const stored = byKey.get(dedupeKey);
+
+      if (!stored) {
+        await this.prisma.renewalAlert.create({ data: { ...data, details: data.details as any, dedupeKey } });
+        counts.created++;
+      } else if (stored.status === 'resolved') {
+        await this.prisma.renewalAlert.update({
+          where: { id: stored.id },
+          data: {
+            ...data,
+            details: data.details as any,
+            status: 'open',
+            resolvedAt: null,
+            acknowledgedAt: null,
+            acknowledgedBy: null,
+          },
+        });
+        counts.reopened++;
+      } else {
+        await this.prisma.renewalAlert.update({
+          where: { id: stored.id },
+          data: { title: data.title, message: data.message, severity: data.severity, details: data.details as any },
+        });
+      }
+    }
+
+    const stale = existing.filter(alert => MANAGED_STATUSES.includes(alert.status) && !keys.has(alert.dedupeKey));
+    if (stale.length > 0) {
+      const resolved = await this.prisma.renewalAlert.updateMany({
+        where: { id: { in: stale.map(alert => alert.id) } },
+        data: { status: 'resolved', resolvedAt: new Date() },
+      });
+      counts.resolved = resolved.count;
+    }
+
+    counts.open = candidates.length;
+    return counts;
+  }
+
+  /**
+   * Alerts for the dashboard / notifications, most urgent first
+   */
+  async listAlerts(input: ListRenewalAlertsInput) {
+    const where: any = {
+      status: input.status === 'active' ? { in: MANAGED_STATUSES } : input.status,
+      ...(input.customerId && { customerId: input.customerId }),
+      ...(input.alertType && { alertType: input.alertType }),
+    };
+
+    const [alerts, bySeverity, byStatus] = await Promise.all([
+      this.prisma.renewalAlert.findMany({
+        where,
+        include: { customer: { select: { id: true, name: true } } },
+        orderBy: [{ subjectDate: 'asc' }, { createdAt: 'asc' }],
+        take: input.limit,
+      }),
+      this.prisma.renewalAlert.groupBy({
+        by: ['severity'],
+        where: { ...where, status: 'open' },
+        _count: { _all: true },
+      }),
+      this.prisma.renewalAlert.groupBy({
+        by: ['status'],
+        where: { ...where, status: { in: MANAGED_STATUSES } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const count = (groups: any[], key: string, value: string) =>
+      groups.find(group => group[key] === value)?._count._all ?? 0;
+
+    return {
+      alerts,
+      counts: {
+        open: count(byStatus, 'status', 'open'),
+        acknowledged: count(byStatus, 'status', 'acknowledged'),
+        critical: count(bySeverity, 'severity', 'critical'),
+        warning: count(bySeverity, 'severity', 'warning'),
+        info: count(bySeverity, 'severity', 'info'),
+      },
+    };
+  }
+
+  async acknowledgeAlert(alertId: string, acknowledgedBy?: string) {
+    const alert = await this.prisma.renewalAlert.findUnique({
+      where: { id: alertId },
+      select: { status: true },
+    });
+
+    if (!alert) {
+      throw new Error('Renewal alert not found');
+    }
+    if (alert.status === 'resolved') {
+      throw new Error('Cannot acknowledge a resolved alert');
+    }
+
+    return this.prisma.renewalAlert.update({
+      where: { id: alertId },
+      data: { status: 'acknowledged', acknowledgedAt: new Date(), acknowledgedBy },
+    });
+  }
+}
@@ -0,0 +1,514 @@
+/**
+ * @fileoverview Storage Billing Service - Daily storage snapshots and prorated charges
+ * @author Handled Platform Team
+ * @version 1.0.0
+ * @since 2026-10-18
+ *
+ * PURPOSE:
+ * Record each customer's on-hand storage per warehouse allocation and day, and turn
+ * every snapshot into Storage_* BillingActivity rows so storage is billed
+ * "prorated daily" through the normal rate engine → invoice pipeline.
+ *
+ * SCOPE:
+ * ✅ Manual storage levels (effective-dated, with pallet aging)
+ * ✅ Fallback to the allocation's spaceAllocated.pallets until inventory exists
+ * ✅ Daily snapshot run per date (all customers or one), safe to re-run
+ * ✅ Pallet, cubic-foot and long-term penalty activities
+ * ✅ Long-term penalty thresholds per customer (settings.storage.longTermThresholdDays)
+ *
+ * OUT OF SCOPE:
+ * ❌ Inventory-derived on-hand quantities (no inventory model yet)
+ * ❌ Pricing (RateEngine - prorated via metadata.prorate.daysInPeriod)
+ * ❌ Scheduling (jobs/storage-snapshot-cron.ts)
+ *
+ * BUSINESS RULES:
+ * 📅 One snapshot per allocation and day; the latest manual level on or before the
+ *    date wins over spaceAllocated
+ * 💰 Daily pallet rates bill the day's pallets as-is; monthly rates are prorated
+ *    (rate × quantity / days in month) so a full month adds up to the monthly rate
+ * ⏳ Long-term penalty: aged pallets are bucketed by threshold (e.g. 180+, 365+ days);
+ *    each bucket is its own activity with metadata.item = "<days>+ days" so rate
+ *    cards can price buckets differently (items) or flat (baseRate)
+ * 🔄 Re-running a date upserts snapshots and activities by natural key and removes
+ *    that date's uninvoiced storage activities that are no longer produced
+ * 🔒 Invoiced storage activities are never changed (BillingActivityService skips them)
+ * ⏸️ Paused customers are skipped - they cannot ingest billing activities
+ *
+ * @example
+ * const storage = new StorageBillingService(prisma);
+ * await storage.runSnapshot(new Date('2026-05-03'));
+ */
+
+import type { PrismaClient } from '@prisma/client-primary';
+import { BillingActivityService, toActivityDate } from './billingActivityService.js';
+import { RateEngine, selectRateSources } from './rateEngine.js';
+import type { BillingActivityInput } from '../validation/billingActivitySchema.js';
+import type {
+  CreateStorageLevelInput,
+  ListStorageSnapshotsQuery,
+  StorageConfig,
+} from '../validation/storageSchema.js';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const STORAGE_SERVICE_TYPES = {
+  palletDaily: 'Storage_PalletDaily',
+  palletMonthly: 'Storage_PalletMonthly',
+  cubicFootMonthly: 'Storage_CubicFootMonthly',
+  longTermPenalty: 'Storage_LongTermPenalty',
+} as const;
+
+/** Default long-term penalty threshold: inventory stored more than a year */
+export const DEFAULT_LONG_TERM_THRESHOLD_DAYS = [365];
+
+export const STORAGE_ACTIVITY_SOURCE = 'storage_snapshot';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AgingEntry {
+  storedSince: string;
+  pallets: number;
+}
+
+export interface StorageUnits {
+  source: 'manual' | 'allocation';
+  storageLevelId: string | null;
+  pallets: number;
+  cubicFeet: number;
+  aging: AgingEntry[];
+}
+
+export interface StorageRunResult {
+  date: string;
+  allocations: number;
+  snapshots: number;
+  activities: { created: number; updated: number; skipped: number; removed: number };
+  skippedAllocations: Array<{ allocationId: string; customerId: string; reason: string }>;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function getDaysInMonth(date: Date): number {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+}
+
+/**
+ * Penalty thresholds from customer settings, falling back to the default
+ */
+export function getLongTermThresholds(settings: unknown): number[] {
+  const days = (settings as any)?.storage?.longTermThresholdDays;
+  if (Array.isArray(days) && days.length > 0 && days.every(d => Number.isInteger(d) && d > 0)) {
+    return [...days].sort((a, b) => a - b);
+  }
+  return DEFAULT_LONG_TERM_THRESHOLD_DAYS;
+}
+
+/**
+ * Split aged pallets into threshold buckets as of a date
+ * Bucket i holds pallets stored at least thresholds[i] days and less than thresholds[i + 1]
+ */
+export function bucketAgedPallets(
+  aging: AgingEntry[],
+  date: Date,
+  thresholds: number[]
+): Array<{ thresholdDays: number; pallets: number }> {
+  const sorted = [...thresholds].sort((a, b) => a - b);
+  const buckets = sorted.map(thresholdDays => ({ thresholdDays, pallets: 0 }));
+
+  for (const entry of aging) {
+    const age = Math.floor((toActivityDate(date).getTime() - toActivityDate(new Date(entry.storedSince)).getTime()) / DAY_MS);
+    for (let i = buckets.length - 1; i >= 0; i--) {
+      if (age >= buckets[i].thresholdDays) {
+        buckets[i].pallets = roundQuantity(buckets[i].pallets + entry.pallets);
+        break;
+      }
+    }
+  }
+
+  return buckets.filter(bucket => bucket.pallets > 0);
+}
+
+/**
+ * On-hand units for an allocation: the manual level when there is one, else spaceAllocated
+ */
+export function resolveStorageUnits(
+  level: { id: string; pallets: unknown; cubicFeet: unknown; aging: unknown } | null | undefined,
+  spaceAllocated: unknown
+): StorageUnits | null {
+  if (level) {
+    return {
+      source: 'manual',
+      storageLevelId: level.id,
+      pallets: Number(level.pallets),
+      cubicFeet: Number(level.cubicFeet),
+      aging: Array.isArray(level.aging) ? (level.aging as AgingEntry[]) : [],
+    };
+  }
+
+  const pallets = Number((spaceAllocated as any)?.pallets ?? 0);
+  if (!(pallets > 0)) {
+    return null;
+  }
+
+  return { source: 'allocation', storageLevelId: null, pallets, cubicFeet: 0, aging: [] };
+}
+
+/**
+ * Billing activities for one allocation-day
+ * - Pallets: Storage_PalletDaily when the rate card defines it, else Storage_PalletMonthly
+ *   prorated (also the fallback when no storage service is defined, so the charge shows
+ *   up as unpriced instead of disappearing)
+ * - Cubic feet: Storage_CubicFootMonthly prorated
+ * - Long-term penalty: one Storage_LongTermPenalty activity per threshold bucket, only
+ *   when the rate card defines the penalty
+ */
+export function buildStorageActivities(
+  allocationId: string,
+  date: Date,
+  units: StorageUnits,
+  definedServices: Set<string>,
+  thresholds: number[],
+  warehouseId?: string
+): BillingActivityInput[] {
+  const activityDate = toActivityDate(date);
+  const prorate = { daysInPeriod: getDaysInMonth(activityDate) };
+  const snapshot = { allocationId, source: units.source, storageLevelId: units.storageLevelId };
+  const location = warehouseId ? { warehouseId } : {};
+  const activities: BillingActivityInput[] = [];
+
+  if (units.pallets > 0) {
+    const daily = definedServices.has(STORAGE_SERVICE_TYPES.palletDaily) ||
+      !definedServices.has(STORAGE_SERVICE_TYPES.palletMonthly);
+
+    activities.push({
+      activityDate,
+      type: daily ? STORAGE_SERVICE_TYPES.palletDaily : STORAGE_SERVICE_TYPES.palletMonthly,
+      quantity: units.pallets,
+      unit: daily ? 'pallet' : 'pallet-day',
+      description: `Pallet storage ${formatDate(activityDate)}`,
+      referenceId: `storage:${allocationId}`,
+      metadata: daily ? { ...location, storageSnapshot: snapshot } : { ...location, storageSnapshot: snapshot, prorate },
+    });
+  }
+
+  if (units.cubicFeet > 0) {
+    activities.push({
+      activityDate,
+      type: STORAGE_SERVICE_TYPES.cubicFootMonthly,
+      quantity: units.cubicFeet,
+      unit: 'cubic-foot-day',
+      description: `Cubic foot storage ${formatDate(activityDate)}`,
+      referenceId: `storage:${allocationId}:cubic`,
+      metadata: { ...location, storageSnapshot: snapshot, prorate },
+    });
+  }
+
+  if (definedServices.has(STORAGE_SERVICE_TYPES.longTermPenalty)) {
+    for (const bucket of bucketAgedPallets(units.aging, activityDate, thresholds)) {
+      activities.push({
+        activityDate,
+        type: STORAGE_SERVICE_TYPES.longTermPenalty,
+        quantity: bucket.pallets,
+        unit: 'pallet-day',
+        description: `Long-term storage (${bucket.thresholdDays}+ days) ${formatDate(activityDate)}`,
+        referenceId: `storage:${allocationId}:aged-${bucket.thresholdDays}`,
+        metadata: {
+          ...location,
+          storageSnapshot: snapshot,
+          prorate,
+          item: `${bucket.thresholdDays}+ days`,
+          thresholdDays: bucket.thresholdDays,
+        },
+      });
+    }
+  }
+
+  return activities;
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+export class StorageBillingService {
+  private activityService: BillingActivityService;
+  private rateEngine: RateEngine;
+
+  constructor(private prisma: PrismaClient) {
+    this.activityService = new BillingActivityService(prisma);
+    this.rateEngine = new RateEngine(prisma);
+  }
+
+  /**
+   * Record on-hand storage for an allocation from a date (replaces a level on the same date)
+   */
+  async createStorageLevel(input: CreateStorageLevelInput, createdBy?: string) {
+    const allocation = await this.prisma.warehouseAllocation.findUnique({
+      where: { id: input.warehouseAllocationId },
+      select: { id: true, customerId: true, deleted: true },
+    });
+
+    if (!allocation || allocation.deleted) {
+      throw new Error('Warehouse allocation not found');
+    }
+
+    const effectiveDate = toActivityDate(input.effectiveDate);
+    const data = {
+      pallets: input.pallets,
+      cubicFeet: input.cubicFeet,
+      aging: input.aging.map(entry => ({ storedSince: formatDate(entry.storedSince), pallets: entry.pallets })),
+      notes: input.notes ?? null,
+      createdBy: createdBy ?? null,
+    };
+
+    return this.prisma.storageLevel.upsert({
+      where: {
+        warehouseAllocationId_effectiveDate: {
+          warehouseAllocationId: allocation.id,
+          effectiveDate,
+        },
+      },
+      create: {
+        customerId: allocation.customerId,
+        warehouseAllocationId: allocation.id,
+        effectiveDate,
+        ...data,
+      } as any,
+      update: data as any,
+    });
+  }
+
+  /**
+   * Storage levels for a customer, newest first
+   */
+  async listStorageLevels(customerId: string) {
+    const levels = await this.prisma.storageLevel.findMany({
+      where: { customerId },
+      include: {
+        allocation: { select: { id: true, warehouse: { select: { id: true, name: true } } } },
+        createdByUser: { select: { id: true, name: true } },
+      },
+      orderBy: [{ effectiveDate: 'desc' }, { createdAt: 'desc' }],
+    });
+
+    return { levels };
+  }
+
+  async listSnapshots(query: ListStorageSnapshotsQuery) {
+    const where: any = {
+      ...(query.customerId && { customerId: query.customerId }),
+    };
+    if (query.from || query.to) {
+      where.snapshotDate = {
+        ...(query.from && { gte: toActivityDate(query.from) }),
+        ...(query.to && { lte: toActivityDate(query.to) }),
+      };
+    }
+
+    const [snapshots, total] = await Promise.all([
+      this.prisma.storageSnapshot.findMany({
+        where,
+        include: {
+          customer: { select: { id: true, name: true } },
+          allocation: { select: { id: true, warehouse: { select: { id: true, name: true } } } },
+        },
+        orderBy: [{ snapshotDate: 'desc' }, { customerId: 'asc' }],
+        take: query.limit,
+        skip: query.offset,
+      }),
+      this.prisma.storageSnapshot.count({ where }),
+    ]);
+
+    return { snapshots, total, limit: query.limit, offset: query.offset };
+  }
+
+  async getStorageConfig(customerId: string): Promise<StorageConfig> {
+    const settings = await this.prisma.customerSettings.findUnique({
+      where: { customerId },
+      select: { settings: true },
+    });
+    return { longTermThresholdDays: getLongTermThresholds(settings?.settings) };
+  }
+
+  async updateStorageConfig(customerId: string, config: StorageConfig): Promise<StorageConfig> {
+    const customer = await this.prisma.customer.findUnique({
+      where: { id: customerId },
+      select: { id: true, deleted: true, settings: { select: { settings: true } } },
+    });
+
+    if (!customer || customer.deleted) {
+      throw new Error('Customer not found');
+    }
+
+    const current = (customer.settings?.settings as Record<string, any>) ?? {};
+    const settings = { ...current, storage: { ...(current.storage ?? {}), ...config } };
+
+    await this.prisma.customerSettings.upsert({
+      where: { customerId },
+      create: { customerId, settings } as any,
+      update: { settings } as any,
+    });
+
+    return this.getStorageConfig(customerId);
+  }
+
+  /**
+   * Snapshot on-hand storage for a date and emit its billing activities
+   * Safe to re-run: snapshots and activities are upserted by natural key
+   */
+  async runSnapshot(date: Date, options: { customerId?: string; runBy?: string } = {}): Promise<StorageRunResult> {
+    const snapshotDate = toActivityDate(date);
+    if (snapshotDate > toActivityDate(new Date())) {
+      throw new Error(`Cannot snapshot storage for a future date (${formatDate(snapshotDate)})`);
+    }
+
+    const allocations = await this.prisma.warehouseAllocation.findMany({
+      where: {
+        deleted: false,
+        status: 'active',
+        customer: {
+          deleted: false,
+          // Paused customers cannot ingest billing activities
+          status: { notIn: ['prospect', 'paused'] },
+          ...(options.customerId && { id: options.customerId }),
+        },
+      },
+      select: {
+        id: true,
+        customerId: true,
+        companyWarehouseId: true,
+        spaceAllocated: true,
+        customer: { select: { settings: { select: { settings: true } } } },
+      },
+    });
+
+    const result: StorageRunResult = {
+      date: formatDate(snapshotDate),
+      allocations: allocations.length,
+      snapshots: 0,
+      activities: { created: 0, updated: 0, skipped: 0, removed: 0 },
+      skippedAllocations: [],
+    };
+
+    if (allocations.length === 0) {
+      return result;
+    }
+
+    // Latest manual level on or before the date, per allocation
+    const levels = await this.prisma.storageLevel.findMany({
+      where: {
+        warehouseAllocationId: { in: allocations.map(a => a.id) },
+        effectiveDate: { lte: snapshotDate },
+      },
+      orderBy: { effectiveDate: 'desc' },
+    });
+    const levelByAllocation = new Map<string, any>();
+    for (const level of levels) {
+      if (!levelByAllocation.has(level.warehouseAllocationId)) {
+        levelByAllocation.set(level.warehouseAllocationId, level);
+      }
+    }
+
+    const byCustomer = new Map<string, typeof allocations>();
+    for (const allocation of allocations) {
+      const group = byCustomer.get(allocation.customerId) ?? [];
+      group.push(allocation);
+      byCustomer.set(allocation.customerId, group);
+    }
+
+    for (const [customerId, customerAllocations] of byCustomer) {
+      const sources = selectRateSources(await this.rateEngine.getRateSources(customerId), snapshotDate);
+      const definedServices = new Set<string>(
+        sources.flatMap(source => (source.rates?.services ?? []).map((s: any) => s.serviceType as string))
+      );
+      const thresholds = getLongTermThresholds(customerAllocations[0].customer.settings?.settings);
+
+      const activities: BillingActivityInput[] = [];
+
+      for (const allocation of customerAllocations) {
+        const units = resolveStorageUnits(levelByAllocation.get(allocation.id), allocation.spaceAllocated);
+
+        if (!units) {
+          result.skippedAllocations.push({
+            allocationId: allocation.id,
+            customerId,
+            reason: 'No storage level and no allocated pallets',
+          });
+          // A level removed since the last run leaves nothing to bill for the day
+          await this.prisma.storageSnapshot.deleteMany({
+            where: { warehouseAllocationId: allocation.id, snapshotDate },
+          });
+          continue;
+        }
+
+        const allocationActivities = buildStorageActivities(
+          allocation.id, snapshotDate, units, definedServices, thresholds, allocation.companyWarehouseId
+        );
+        activities.push(...allocationActivities);
+
+        const data = {
+          source: units.source,
+          storageLevelId: units.storageLevelId,
+          pallets: units.pallets,
+          cubicFeet: units.cubicFeet,
+          aging: units.aging,
+          activityTypes: [...new Set(allocationActivities.map(a => a.type))],
+        };
+
+        await this.prisma.storageSnapshot.upsert({
+          where: {
+            warehouseAllocationId_snapshotDate: {
+              warehouseAllocationId: allocation.id,
+              snapshotDate,
+            },
+          },
+          create: { customerId, warehouseAllocationId: allocation.id, snapshotDate, ...data } as any,
+          update: data as any,
+        });
+        result.snapshots++;
+      }
+
+      // Drop this date's open storage activities that the run no longer produces
+      // (activities on a draft have invoice lines pointing at them - the draft's
+      // regeneration picks up the change instead)
+      const keep = new Set(activities.map(a => `${a.referenceId}|${a.type}`));
+      const existing = await this.prisma.billingActivity.findMany({
+        where: { customerId, activityDate: snapshotDate, source: STORAGE_ACTIVITY_SOURCE, invoiced: false, invoiceId: null },
+        select: { id: true, referenceId: true, type: true },
+      });
+      const stale = existing.filter(a => !keep.has(`${a.referenceId}|${a.type}`)).map(a => a.id);
+      if (stale.length > 0) {
+        const removed = await this.prisma.billingActivity.deleteMany({ where: { id: { in: stale } } });
+        result.activities.removed += removed.count;
+      }
+
+      if (activities.length > 0) {
+        const ingest = await this.activityService.ingestActivities(customerId, activities, {
+          importedBy: options.runBy,
+          source: STORAGE_ACTIVITY_SOURCE,
+        });
+        result.activities.created += ingest.created;
+        result.activities.updated += ingest.updated;
+        result.activities.skipped += ingest.skipped;
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * @fileoverview Surcharge Engine - Applies rate card surcharges to priced activities
+ * @author Handled Platform Team
+ * @version 1.0.0
+ * @since 2026-10-18
+ *
+ * PURPOSE:
+ * Evaluate the surcharges defined on rate cards (surchargeSchema entries) against
+ * priced billing activities and produce surcharge amounts attributed to the surcharge
+ * type, ready to become invoice lines.
+ *
+ * SCOPE:
+ * ✅ Surcharge selection per activity date (standard card + adjustments)
+ * ✅ Date window (appliesFrom / appliesTo, inclusive days)
+ * ✅ Declarative conditions: service type, category, quantity, weight, warehouse,
+ *    peak season
+ * ✅ Activity basis (per matching activity) and invoice basis (on the subtotal of
+ *    matching activities)
+ *
+ * OUT OF SCOPE:
+ * ❌ Condition validation (surchargeConditionsSchema, at rate card save time)
+ * ❌ Invoice line layout (InvoiceService.buildSurchargeLines)
+ *
+ * BUSINESS RULES:
+ * 💰 Activity basis: percentage of each matching activity's amount, or amount per unit
+ * 🧾 Invoice basis: percentage of the matching activities' subtotal, or amount once
+ *    per invoice when at least one activity matches
+ * 📅 Precedence per surcharge type follows rate sources: the most recent source
+ *    defining the type wins, adjustments win ties (same as services)
+ * 🔍 Every condition present must hold; a surcharge without conditions matches all
+ *    priced activities in its window
+ * ⚖️ Weight and warehouse come from activity metadata (weight; warehouseId,
+ *    warehouseCode or warehouse) - activities without them never match those conditions
+ *
+ * @example
+ * const applied = calculateSurcharges(activities, await rateEngine.getRateSources(customerId));
+ * // [{ type: 'FuelSurcharge', basis: 'activity', amount: 42.5, ... }]
+ */
+
+import { selectRateSources, type RateSource } from './rateEngine.js';
+import type { Surcharge, SurchargeConditions } from '../validation/rateCardSchema.js';
+
+export type SurchargeBasis = 'activity' | 'invoice';
+
+export interface SurchargeActivity {
+  id: string;
+  activityDate: Date;
+  type: string;
+  quantity: number;
+  amount: number;
+  metadata?: any;
+}
+
+export interface AppliedSurcharge {
+  type: string;
+  description: string;
+  basis: SurchargeBasis;
+  rateCardId: string;
+  percentage?: number;
+  /** Fixed amount (per unit for activity basis, per invoice for invoice basis) */
+  fixedAmount?: number;
+  /** Units (activity basis, fixed amount) or subtotal (percentage) the surcharge applies to */
+  base: number;
+  amount: number;
+  activityIds: string[];
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function getActivityCategory(type: string): string {
+  return type.split('_')[0].toLowerCase();
+}
+
+/**
+ * Whether a date falls in a recurring MM-DD window (may wrap the year end)
+ */
+export function isInPeakSeason(date: Date, season: { start: string; end: string }): boolean {
+  const monthDay = formatDate(date).slice(5);
+  return season.start <= season.end
+    ? monthDay >= season.start && monthDay <= season.end
+    : monthDay >= season.start || monthDay <= season.end;
+}
+
+/**
+ * Whether a date falls in the surcharge's appliesFrom / appliesTo window (inclusive days)
+ */
+export function isInSurchargeWindow(surcharge: Pick<Surcharge, 'appliesFrom' | 'appliesTo'>, date: Date): boolean {
+  const day = formatDate(date);
+  if (surcharge.appliesFrom && day < surcharge.appliesFrom.slice(0, 10)) return false;
+  if (surcharge.appliesTo && day > surcharge.appliesTo.slice(0, 10)) return false;
+  return true;
+}
+
+/**
+ * Whether an activity satisfies every condition present
+ */
+export function matchesSurchargeConditions(
+  conditions: SurchargeConditions | undefined,
+  activity: Pick<SurchargeActivity, 'activityDate' | 'type' | 'quantity' | 'metadata'>
+): boolean {
+  if (!conditions) return true;
+
+  if (conditions.serviceTypes && !conditions.serviceTypes.includes(activity.type)) return false;
+  if (conditions.categories && !conditions.categories.includes(getActivityCategory(activity.type))) return false;
+
+  const quantity = Number(activity.quantity);
+  if (conditions.minQuantity !== undefined && quantity < conditions.minQuantity) return false;
+  if (conditions.maxQuantity !== undefined && quantity > conditions.maxQuantity) return false;
+
+  if (conditions.minWeight !== undefined || conditions.maxWeight !== undefined) {
+    const weight = Number(activity.metadata?.weight);
+    if (!Number.isFinite(weight)) return false;
+    if (conditions.minWeight !== undefined && weight < conditions.minWeight) return false;
+    if (conditions.maxWeight !== undefined && weight > conditions.maxWeight) return false;
+  }
+
+  if (conditions.warehouses) {
+    const metadata = activity.metadata ?? {};
+    const warehouse = metadata.warehouseId ?? metadata.warehouseCode ?? metadata.warehouse;
+    if (warehouse === undefined || warehouse === null) return false;
+    const wanted = conditions.warehouses.map(w => w.toLowerCase());
+    if (!wanted.includes(String(warehouse).toLowerCase())) return false;
+  }
+
+  if (conditions.peakSeason && !isInPeakSeason(activity.activityDate, conditions.peakSeason)) return false;
+
+  return true;
+}
+
+/**
+ * Surcharges in effect on a date, one per type (most recent defining source wins)
+ */
+export function selectSurcharges(sources: RateSource[], date: Date): Array<{ surcharge: Surcharge; source: RateSource }> {
+  const selected = new Map<string, { surcharge: Surcharge; source: RateSource }>();
+
+  for (const source of selectRateSources(sources, date)) {
+    for (const surcharge of (source.rates?.surcharges ?? []) as Surcharge[]) {
+      if (!selected.has(surcharge.type)) {
+        selected.set(surcharge.type, { surcharge, source });
+      }
+    }
+  }
+
+  return [...selected.values()].filter(({ surcharge }) => isInSurchargeWindow(surcharge, date));
+}
+
+/**
+ * Surcharges owed on a set of priced activities (e.g. one invoice's activities)
+ * One entry per surcharge type, basis and rate - so each becomes an exact invoice line
+ * Pure function - no database access
+ */
+export function calculateSurcharges(activities: SurchargeActivity[], sources: RateSource[]): AppliedSurcharge[] {
+  const applied = new Map<string, AppliedSurcharge & { exact: number }>();
+
+  for (const activity of activities) {
+    for (const { surcharge, source } of selectSurcharges(sources, activity.activityDate)) {
+      if (!matchesSurchargeConditions(surcharge.conditions, activity)) continue;
+
+      const basis: SurchargeBasis = surcharge.basis ?? 'activity';
+      const key = `${surcharge.type}|${basis}|${surcharge.percentage ?? ''}|${surcharge.amount ?? ''}`;
+      let entry = applied.get(key);
+      if (!entry) {
+        entry = {
+          type: surcharge.type,
+          description: surcharge.description ?? surcharge.type,
+          basis,
+          rateCardId: source.id,
+          ...(surcharge.percentage !== undefined ? { percentage: surcharge.percentage } : { fixedAmount: surcharge.amount }),
+          base: 0,
+          amount: 0,
+          exact: 0,
+          activityIds: [],
+        };
+        applied.set(key, entry);
+      }
+
+      entry.activityIds.push(activity.id);
+
+      if (entry.percentage !== undefined) {
+        entry.base = roundMoney(entry.base + Number(activity.amount));
+        entry.exact += (Number(activity.amount) * entry.percentage) / 100;
+      } else if (basis === 'activity') {
+        entry.base = roundQuantity(entry.base + Number(activity.quantity));
+        entry.exact += Number(activity.quantity) * (entry.fixedAmount ?? 0);
+      } else {
+        entry.base = 1;
+        entry.exact = entry.fixedAmount ?? 0;
+      }
+    }
+  }
+
+  return [...applied.values()]
+    .map(({ exact, ...entry }) => ({ ...entry, amount: roundMoney(exact) }))
+    .filter(entry => entry.amount > 0);
+}
@@ -1,39 +1,107 @@
+import type { Prisma } from '@prisma/client-primary';
 import { prismaPrimary } from '../db/index.js';
+import { isBilledActivity } from './invoiceService.js';
+
+export type EvidentaryEntity =
+  | 'customer'
+  | 'warehouse'
+  | 'contact'
+  | 'facility'
+  | 'warehouse_allocation'
+  | 'user'
+  | 'contract'
+  | 'rate_card'
+  | 'billing_activity'
+  | 'invoice'
+  | 'payment'
+  | 'role';
+
+/**
+ * What to do with a record instead of deleting it. 'keep' = nothing to do, the
+ * record stays as it is (e.g. already archived, system role).
+ */
+export type LifecycleAction =
+  | 'terminate'
+  | 'retire'
+  | 'archive'
+  | 'disable'
+  | 'deactivate'
+  | 'void'
+  | 'reverse'
+  | 'keep';
 
 export interface EvidentaryCheck {
   hasValue: boolean;
   reason: string;
   details?: Record<string, number>;
-  suggestion?: string;
+  /** Set whenever hasValue is true */
+  suggestion?: LifecycleAction;
+}
+
+export interface DeleteConflictSuggestion {
+  message: string;
+  endpoint?: string;
+  payload?: Record<string, unknown>;
 }
 
+/**
+ * 409 body for a smart DELETE refused because the record has evidentiary value
+ */
+export function buildDeleteConflict(error: string, check: EvidentaryCheck, suggestion: DeleteConflictSuggestion) {
+  return {
+    error,
+    reason: check.reason,
+    details: check.details,
+    suggestion: {
+      action: check.suggestion ?? 'keep',
+      ...suggestion,
+    },
+  };
+}
+
+/** The primary client, or a transaction on it when the check must see its writes and locks */
+export type EvidentaryClient = Prisma.TransactionClient;
+
 /**
  * Determines if an entity has evidentiary value (participated in real business)
  * According to three-tier lifecycle philosophy
  */
 export async function checkEvidentaryValue(
-  entity: 'customer' | 'warehouse' | 'contact' | 'facility' | 'user' | 'contract',
-  entityId: string
+  entity: EvidentaryEntity,
+  entityId: string,
+  db: EvidentaryClient = prismaPrimary
 ): Promise<EvidentaryCheck> {
   
   switch (entity) {
     case 'customer':
-      return checkCustomerValue(entityId);
+      return checkCustomerValue(entityId, db);
     case 'warehouse':
-      return checkWarehouseValue(entityId);
+      return checkWarehouseValue(entityId, db);
     case 'contact':
-      return checkContactValue(entityId);
+      return checkContactValue(entityId, db);
     case 'facility':
-      return checkFacilityValue(entityId);
+      return checkFacilityValue(entityId, db);
+    case 'warehouse_allocation':
+      return checkWarehouseAllocationValue(entityId, db);
     case 'user':
-      return checkUserValue(entityId);
+      return checkUserValue(entityId, db);
     case 'contract':
-      return checkContractValue(entityId);
+      return checkContractValue(entityId, db);
+    case 'rate_card':
+      return checkRateCardValue(entityId, db);
+    case 'billing_activity':
+      return checkBillingActivityValue(entityId, db);
+    case 'invoice':
+      return checkInvoiceValue(entityId, db);
+    case 'payment':
+      return checkPaymentValue(entityId, db);
+    case 'role':
+      return checkRoleValue(entityId, db);
   }
 }
 
-async function checkCustomerValue(customerId: string): Promise<EvidentaryCheck> {
-  const customer = await prismaPrimary.customer.findUnique({
+async function checkCustomerValue(customerId: string, db: EvidentaryClient): Promise<EvidentaryCheck> {
+  const customer = await db.customer.findUnique({
     where: { id: customerId },
     select: {
       isTestData: true,
@@ -43,6 +111,11 @@ async function checkCustomerValue(customerId: string): Promise<EvidentaryCheck>
           contracts: true,
           contactLog: true,
           facilities: true,
+          invoices: true,
+          billingActivities: true,
+          rateCards: true,
+          credits: true,
+          creditNotes: true,
         }
       }
     }
@@ -57,12 +130,33 @@ async function checkCustomerValue(customerId: string): Promise<EvidentaryCheck>
     return { hasValue: false, reason: 'Marked as test data', details: customer._count };
   }
 
+  // Invoices, credits or credit notes = financial truth (even voided ones)
+  if (customer._count.invoices > 0 || customer._count.credits > 0 || customer._count.creditNotes > 0) {
+    return { 
+      hasValue: true, 
+      reason: 'Has invoices or credits (financial evidence)',
+      details: customer._count,
+      suggestion: 'terminate'
+    };
+  }
+
+  // Billing activities = work was performed, billed or not
+  if (customer._count.billingActivities > 0) {
+    return { 
+      hasValue: true, 
+      reason: 'Has billing activities (operational evidence)',
+      details: customer._count,
+      suggestion: 'terminate'
+    };
+  }
+
   // Any warehouse allocation = operational truth
   if (customer._count.warehouseAllocations > 0) {
     return { 
       hasValue: true, 
       reason: 'Has warehouse allocations (operational footprint)',
-      details: customer._count
+      details: customer._count,
+      suggestion: 'terminate'
     };
   }
 
@@ -71,7 +165,18 @@ async function checkCustomerValue(customerId: string): Promise<EvidentaryCheck>
     return { 
       hasValue: true, 
       reason: 'Has contracts (legal evidence)',
-      details: customer._count
+      details: customer._count,
+      suggestion: 'terminate'
+    };
+  }
+
+  // Negotiated pricing = commercial truth
+  if (customer._count.rateCards > 0) {
+    return { 
+      hasValue: true, 
+      reason: 'Has rate cards (pricing evidence)',
+      details: customer._count,
+      suggestion: 'terminate'
     };
   }
 
@@ -80,7 +185,8 @@ async function checkCustomerValue(customerId: string): Promise<EvidentaryCheck>
     return { 
       hasValue: true, 
       reason: 'Has communication history (relationship evidence)',
-      details: customer._count
+      details: customer._count,
+      suggestion: 'terminate'
     };
   }
 
@@ -89,7 +195,8 @@ async function checkCustomerValue(customerId: string): Promise<EvidentaryCheck>
     return { 
       hasValue: true, 
       reason: 'Has facilities configured (planning evidence)',
-      details: customer._count
+      details: customer._count,
+      suggestion: 'terminate'
     };
   }
 
@@ -100,8 +207,8 @@ async function checkCustomerValue(customerId: string): Promise<EvidentaryCheck>
   };
 }
 
-async function checkWarehouseValue(warehouseId: string): Promise<EvidentaryCheck> {
-  const warehouse = await prismaPrimary.warehouse.findUnique({
+async function checkWarehouseValue(warehouseId: string, db: EvidentaryClient): Promise<EvidentaryCheck> {
+  const warehouse = await db.warehouse.findUnique({
     where: { id: warehouseId },
     select: {
       _count: {
@@ -122,7 +229,8 @@ async function checkWarehouseValue(warehouseId: string): Promise<EvidentaryCheck
     return { 
       hasValue: true, 
       reason: 'Has allocation history (operational evidence - must retire)',
-      details: warehouse._count
+      details: warehouse._count,
+      suggestion: 'retire'
     };
   }
 
@@ -131,7 +239,8 @@ async function checkWarehouseValue(warehouseId: string): Promise<EvidentaryCheck
     return { 
       hasValue: true, 
       reason: 'Has zones configured (planning evidence)',
-      details: warehouse._count
+      details: warehouse._count,
+      suggestion: 'retire'
     };
   }
 
@@ -142,8 +251,8 @@ async function checkWarehouseValue(warehouseId: string): Promise<EvidentaryCheck
   };
 }
 
-async function checkContactValue(contactId: string): Promise<EvidentaryCheck> {
-  const contact = await prismaPrimary.contact.findUnique({
+async function checkContactValue(contactId: string, db: EvidentaryClient): Promise<EvidentaryCheck> {
+  const contact = await db.contact.findUnique({
     where: { id: contactId },
     select: {
       customer: { select: { isTestData: true, deleted: true } },
@@ -169,15 +278,16 @@ async function checkContactValue(contactId: string): Promise<EvidentaryCheck> {
     return { 
       hasValue: true, 
       reason: 'Has communication history',
-      details: contact._count
+      details: contact._count,
+      suggestion: 'deactivate'
     };
   }
 
   return { hasValue: false, reason: 'No communication history' };
 }
 
-async function checkFacilityValue(facilityId: string): Promise<EvidentaryCheck> {
-  const facility = await prismaPrimary.customerFacility.findUnique({
+async function checkFacilityValue(facilityId: string, db: EvidentaryClient): Promise<EvidentaryCheck> {
+  const facility = await db.customerFacility.findUnique({
     where: { id: facilityId },
     select: {
       customer: { select: { isTestData: true, deleted: true } },
@@ -196,12 +306,53 @@ async function checkFacilityValue(facilityId: string): Promise<EvidentaryCheck>
   // If parent customer is active/retired, facility has value
   return { 
     hasValue: true, 
-    reason: 'Belongs to active/retired customer (preserve as history)'
+    reason: 'Belongs to active/retired customer (preserve as history)',
+    suggestion: 'keep'
+  };
+}
+
+async function checkWarehouseAllocationValue(allocationId: string, db: EvidentaryClient): Promise<EvidentaryCheck> {
+  const allocation = await db.warehouseAllocation.findUnique({
+    where: { id: allocationId },
+    select: {
+      customer: { select: { isTestData: true, deleted: true } },
+      _count: {
+        select: {
+          storageLevels: true,
+          storageSnapshots: true,
+        }
+      }
+    }
+  });
+
+  if (!allocation) {
+    return { hasValue: false, reason: 'Warehouse allocation not found' };
+  }
+
+  // Belongs to test/deleted customer = safe to delete
+  if (allocation.customer.deleted || allocation.customer.isTestData) {
+    return { hasValue: false, reason: 'Belongs to test/deleted customer' };
+  }
+
+  // Storage recorded against it = billing evidence (storage is invoiced from these)
+  if (allocation._count.storageLevels > 0 || allocation._count.storageSnapshots > 0) {
+    return {
+      hasValue: true,
+      reason: 'Has storage history (billing evidence - must deactivate)',
+      details: allocation._count,
+      suggestion: 'deactivate'
+    };
+  }
+
+  return {
+    hasValue: false,
+    reason: 'No storage history - safe to delete',
+    details: allocation._count
   };
 }
 
-async function checkUserValue(userId: string): Promise<EvidentaryCheck> {
-  const user = await prismaPrimary.user.findUnique({
+async function checkUserValue(userId: string, db: EvidentaryClient): Promise<EvidentaryCheck> {
+  const user = await db.user.findUnique({
     where: { id: userId },
     select: {
       disabled: true,
@@ -215,6 +366,14 @@ async function checkUserValue(userId: string): Promise<EvidentaryCheck> {
           retiredCustomers: true,
           deletedWarehouses: true,
           retiredWarehouses: true,
+          createdRateCards: true,
+          importedBillingActivities: true,
+          createdInvoices: true,
+          issuedInvoices: true,
+          recordedPayments: true,
+          createdCustomerCredits: true,
+          createdCreditNotes: true,
+          approvedCreditNotes: true,
         }
       }
     }
@@ -229,7 +388,8 @@ async function checkUserValue(userId: string): Promise<EvidentaryCheck> {
     return { 
       hasValue: true, 
       reason: 'User is disabled (preserved for audit trail)',
-      details: user._count
+      details: user._count,
+      suggestion: 'keep'
     };
   }
 
@@ -240,7 +400,8 @@ async function checkUserValue(userId: string): Promise<EvidentaryCheck> {
     return { 
       hasValue: true, 
       reason: 'User has activity - must disable, not delete',
-      details: user._count
+      details: user._count,
+      suggestion: 'disable'
     };
   }
 
@@ -251,8 +412,8 @@ async function checkUserValue(userId: string): Promise<EvidentaryCheck> {
   };
 }
 
-async function checkContractValue(contractId: string): Promise<EvidentaryCheck> {
-  const contract = await prismaPrimary.contract.findUnique({
+async function checkContractValue(contractId: string, db: EvidentaryClient): Promise<EvidentaryCheck> {
+  const contract = await db.contract.findUnique({
     where: { id: contractId },
     select: {
       status: true,
@@ -269,14 +430,16 @@ async function checkContractValue(contractId: string): Promise<EvidentaryCheck>
   if (contract.status === 'active') {
     return { 
       hasValue: true, 
-      reason: 'Active contract - cannot delete or archive (legal document)'
+      reason: 'Active contract - cannot delete or archive (legal document)',
+      suggestion: 'keep'
     };
   }
 
   if (contract.archivedAt) {
     return { 
       hasValue: true, 
-      reason: 'Contract already archived (preserved forever)'
+      reason: 'Contract already archived (preserved forever)',
+      suggestion: 'keep'
     };
   }
 
@@ -288,3 +451,269 @@ async function checkContractValue(contractId: string): Promise<EvidentaryCheck>
   };
 }
 
+
+async function checkRateCardValue(rateCardId: string, db: EvidentaryClient): Promise<EvidentaryCheck> {
+  const rateCard = await db.rateCard.findUnique({
+    where: { id: rateCardId },
+    select: {
+      isActive: true,
+      effectiveDate: true,
+      archivedAt: true,
+      customer: { select: { isTestData: true, deleted: true } },
+      _count: {
+        select: {
+          billingActivities: true,
+          contractLinks: true,
+          childVersions: true,
+          adjustmentChildren: true,
+        }
+      }
+    }
+  });
+
+  if (!rateCard) {
+    return { hasValue: false, reason: 'Rate card not found' };
+  }
+
+  if (rateCard.archivedAt) {
+    return { 
+      hasValue: true, 
+      reason: 'Rate card already archived (preserved as pricing history)',
+      suggestion: 'keep'
+    };
+  }
+
+  // Belongs to deleted/test customer = safe to delete
+  if (rateCard.customer && (rateCard.customer.deleted || rateCard.customer.isTestData)) {
+    return { hasValue: false, reason: 'Belongs to test/deleted customer', details: rateCard._count };
+  }
+
+  // Priced activities = financial truth (invoices were calculated from these rates)
+  if (rateCard._count.billingActivities > 0) {
+    return { 
+      hasValue: true, 
+      reason: 'Has priced billing activities (financial evidence)',
+      details: rateCard._count,
+      suggestion: 'archive'
+    };
+  }
+
+  // Referenced by a contract = legal truth
+  if (rateCard._count.contractLinks > 0) {
+    return { 
+      hasValue: true, 
+      reason: 'Linked to contracts (legal evidence)',
+      details: rateCard._count,
+      suggestion: 'archive'
+    };
+  }
+
+  // Superseded by a newer version or adjusted = part of a pricing history
+  if (rateCard._count.childVersions > 0 || rateCard._count.adjustmentChildren > 0) {
+    return { 
+      hasValue: true, 
+      reason: 'Has later versions or adjustments (pricing history)',
+      details: rateCard._count,
+      suggestion: 'archive'
+    };
+  }
+
+  // In effect = the customer is being priced with it right now
+  if (rateCard.isActive && rateCard.effectiveDate <= new Date()) {
+    return { 
+      hasValue: true, 
+      reason: 'Rate card is in effect',
+      details: rateCard._count,
+      suggestion: 'archive'
+    };
+  }
+
+  return { 
+    hasValue: false, 
+    reason: 'Never used for billing - safe to delete',
+    details: rateCard._count
+  };
+}
+
+async function checkBillingActivityValue(activityId: string, db: EvidentaryClient): Promise<EvidentaryCheck> {
+  const activity = await db.billingActivity.findUnique({
+    where: { id: activityId },
+    select: {
+      customer: { select: { isTestData: true, deleted: true } },
+      invoice: { select: { status: true } },
+    }
+  });
+
+  if (!activity) {
+    return { hasValue: false, reason: 'Billing activity not found' };
+  }
+
+  // Belongs to deleted/test customer = safe to delete
+  if (activity.customer.deleted || activity.customer.isTestData) {
+    return { hasValue: false, reason: 'Belongs to test/deleted customer' };
+  }
+
+  // On a finalized invoice = financial truth (correct it with a credit note)
+  if (isBilledActivity(activity)) {
+    return { 
+      hasValue: true, 
+      reason: 'Billed on an invoice (financial evidence - correct with a credit note)',
+      suggestion: 'keep'
+    };
+  }
+
+  // Drafts are regenerated on every invoicing run, so an activity on one is still open
+  return { 
+    hasValue: false, 
+    reason: 'Not invoiced yet - safe to delete'
+  };
+}
+
+async function checkInvoiceValue(invoiceId: string, db: EvidentaryClient): Promise<EvidentaryCheck> {
+  const invoice = await db.invoice.findUnique({
+    where: { id: invoiceId },
+    select: {
+      status: true,
+      _count: {
+        select: {
+          payments: true,
+          creditNotes: true,
+        }
+      }
+    }
+  });
+
+  if (!invoice) {
+    return { hasValue: false, reason: 'Invoice not found' };
+  }
+
+  // Drafts are regenerated on every invoicing run - never sent to anyone
+  if (invoice.status === 'draft') {
+    return { 
+      hasValue: false, 
+      reason: 'Draft invoice - never issued',
+      details: invoice._count
+    };
+  }
+
+  // Void invoices keep their number - the sequence must have no gaps
+  if (invoice.status === 'void') {
+    return { 
+      hasValue: true, 
+      reason: 'Voided invoice (preserved - invoice numbers are never reused)',
+      details: invoice._count,
+      suggestion: 'keep'
+    };
+  }
+
+  // Money moved against it = can no longer be voided, only credited
+  if (invoice._count.payments > 0 || invoice._count.creditNotes > 0) {
+    return { 
+      hasValue: true, 
+      reason: 'Has payments or credit notes (financial evidence - issue a credit note)',
+      details: invoice._count,
+      suggestion: 'keep'
+    };
+  }
+
+  return { 
+    hasValue: true, 
+    reason: 'Issued invoice (financial evidence - void it instead)',
+    details: invoice._count,
+    suggestion: 'void'
+  };
+}
+
+async function checkPaymentValue(paymentId: string, db: EvidentaryClient): Promise<EvidentaryCheck> {
+  const payment = await db.payment.findUnique({
+    where: { id: paymentId },
+    select: {
+      status: true,
+      _count: {
+        select: {
+          credits: true,
+        }
+      }
+    }
+  });
+
+  if (!payment) {
+    return { hasValue: false, reason: 'Payment not found' };
+  }
+
+  // Payments are NEVER deletable - money moved (or was attempted)
+  if (payment.status === 'reversed' || payment.status === 'failed') {
+    return { 
+      hasValue: true, 
+      reason: `Payment already ${payment.status} (preserved forever)`,
+      details: payment._count,
+      suggestion: 'keep'
+    };
+  }
+
+  return { 
+    hasValue: true, 
+    reason: 'Recorded payment (financial evidence - reverse it instead)',
+    details: payment._count,
+    suggestion: 'reverse'
+  };
+}
+
+async function checkRoleValue(roleId: string, db: EvidentaryClient): Promise<EvidentaryCheck> {
+  const id = parseInt(roleId, 10);
+  if (isNaN(id)) {
+    return { hasValue: false, reason: 'Role not found' };
+  }
+
+  const role = await db.role.findUnique({
+    where: { id },
+    select: {
+      isSystem: true,
+      retired: true,
+      _count: {
+        select: {
+          userRoles: true,
+        }
+      }
+    }
+  });
+
+  if (!role) {
+    return { hasValue: false, reason: 'Role not found' };
+  }
+
+  // System roles define the built-in access model
+  if (role.isSystem) {
+    return { 
+      hasValue: true, 
+      reason: 'System role (preserved forever)',
+      details: role._count,
+      suggestion: 'keep'
+    };
+  }
+
+  if (role.retired) {
+    return { 
+      hasValue: true, 
+      reason: 'Role already retired (preserved forever)',
+      details: role._count,
+      suggestion: 'keep'
+    };
+  }
+
+  // Assigned = currently grants access to real users
+  if (role._count.userRoles > 0) {
+    return { 
+      hasValue: true, 
+      reason: `Assigned to ${role._count.userRoles} user${role._count.userRoles === 1 ? '' : 's'} - remove it from all users first`,
+      details: role._count,
+      suggestion: 'keep'
+    };
+  }
+
+  return { 
+    hasValue: false, 
+    reason: 'Not assigned to any user - safe to delete',
+    details: role._count
+  };
+}
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+
+export const AUDIT_ACTIONS = ['CREATE', 'UPDATE', 'DELETE', 'PURGE'] as const;
+
+export const AUDIT_SOURCES = ['user', 'portal', 'job', 'system'] as const;
+
+const queryBoolean = z.preprocess(
+  (val) => (val === 'true' ? true : val === 'false' ? false : val),
+  z.boolean()
+);
+
+// ============================================
+// AUDIT LOG
+// ============================================
+
+export const listAuditLogSchema = z.object({
+  entityType: z.string().trim().min(1).optional(),
+  entityId: z.string().trim().min(1).optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  source: z.enum(AUDIT_SOURCES).optional(),
+  actorId: z.string().optional(),
+  requestId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  search: z.string().trim().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/**
+ * History tab of one client / warehouse / user. includeRelated adds the records
+ * that belong to it (contacts, settings, allocations, role assignments, ...).
+ */
+export const entityHistorySchema = z.object({
+  includeRelated: queryBoolean.default(true),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// ============================================
+// TYPE EXPORTS
+// ============================================
+
+export type AuditActionType = typeof AUDIT_ACTIONS[number];
+export type AuditSourceType = typeof AUDIT_SOURCES[number];
+export type ListAuditLogInput = z.infer<typeof listAuditLogSchema>;
+export type EntityHistoryInput = z.infer<typeof entityHistorySchema>;
@@ -0,0 +1,85 @@
+import { z } from 'zod';
+
+// ============================================
+// BILLING ACTIVITY INGESTION
+// ============================================
+
+/**
+ * Billing cycles allowed on a billing activity row
+ * (matches billing_activities_billing_cycle_check)
+ */
+export const activityBillingCycleSchema = z.enum(['immediate', 'weekly', 'monthly']);
+
+/**
+ * Single billable event as received from a WMS/OMS feed
+ * - type is a BillingService code (Category_Service format)
+ * - referenceId is required: it is part of the natural key used for upserts
+ */
+export const billingActivityInputSchema = z.object({
+  activityDate: z.coerce.date(),
+  type: z.string().regex(/^[A-Za-z]+_[A-Za-z]+$/, 'Activity type must be a service code in Category_Service format'),
+  quantity: z.coerce.number().positive('Quantity must be greater than 0'),
+  unit: z.string().min(1).optional(),
+  description: z.string().optional(),
+  referenceId: z.string().min(1, 'Reference ID is required'),
+  billingCycle: activityBillingCycleSchema.optional(),
+  metadata: z.record(z.any()).optional(),
+});
+
+/**
+ * JSON ingestion body
+ */
+export const ingestBillingActivitiesSchema = z.object({
+  source: z.string().min(1).optional(),
+  activities: z.array(billingActivityInputSchema).min(1, 'At least one activity is required'),
+});
+
+// ============================================
+// LIST / FILTER
+// ============================================
+
+// Query strings arrive as text, so booleans are parsed explicitly
+const queryBoolean = z.preprocess(
+  (val) => (val === 'true' ? true : val === 'false' ? false : val),
+  z.boolean().optional()
+);
+
+export const listBillingActivitiesSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  type: z.string().optional(),
+  invoiced: queryBoolean,
+  importBatchId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// ============================================
+// PRICING
+// ============================================
+
+/**
+ * Price/re-price request
+ * - unpriced: rate only activities without an amount
+ * - reprice: recompute every non-invoiced, non-override activity in range
+ */
+export const priceActivitiesSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  type: z.string().optional(),
+  mode: z.enum(['unpriced', 'reprice']).default('unpriced'),
+  dryRun: z.boolean().default(false),
+}).refine(
+  (input) => input.mode !== 'reprice' || (input.from && input.to),
+  { message: 'Re-pricing requires a from/to period' }
+);
+
+// ============================================
+// TYPE EXPORTS
+// ============================================
+
+export type ActivityBillingCycle = z.infer<typeof activityBillingCycleSchema>;
+export type BillingActivityInput = z.infer<typeof billingActivityInputSchema>;
+export type IngestBillingActivitiesInput = z.infer<typeof ingestBillingActivitiesSchema>;
+export type ListBillingActivitiesQuery = z.infer<typeof listBillingActivitiesSchema>;
+export type PriceActivitiesInput = z.infer<typeof priceActivitiesSchema>;
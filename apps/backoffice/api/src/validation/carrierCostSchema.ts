@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+// ============================================
+// CARRIER COST IMPORT
+// ============================================
+
+// Query strings arrive as text, so booleans are parsed explicitly
+const queryBoolean = z.preprocess(
+  (val) => (val === 'true' ? true : val === 'false' ? false : val),
+  z.boolean().optional()
+);
+
+/**
+ * Import options (multipart upload, so they travel in the query string)
+ * - dryRun: match and price without writing, to review the reconciliation first
+ */
+export const importCarrierCostsQuerySchema = z.object({
+  dryRun: queryBoolean.transform((val) => val ?? false),
+});
+
+// ============================================
+// LIST
+// ============================================
+
+export const listCarrierCostImportsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// ============================================
+// TYPE EXPORTS
+// ============================================
+
+export type ImportCarrierCostsQuery = z.infer<typeof importCarrierCostsQuerySchema>;
+export type ListCarrierCostImportsQuery = z.infer<typeof listCarrierCostImportsSchema>;
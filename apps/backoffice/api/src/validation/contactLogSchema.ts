@@ -0,0 +1,75 @@
+import { z } from 'zod';
+
+// Contact log routes live under /api/clients and take snake_case bodies like the
+// other client sub-resources
+
+export const CONTACT_LOG_TYPES = ['call', 'email', 'meeting', 'note', 'other'] as const;
+
+/** Events the timeline derives from contracts, rate cards and status changes */
+export const SYSTEM_EVENT_TYPES = [
+  'contract_signed',
+  'contract_status_changed',
+  'rate_card_activated',
+  'customer_terminated',
+] as const;
+
+// ============================================
+// CREATE / UPDATE ENTRY
+// ============================================
+
+export const createContactLogSchema = z.object({
+  contact_type: z.enum(CONTACT_LOG_TYPES),
+  contact_id: z.string().nullable().optional(),
+  subject: z.string().max(255).optional(),
+  notes: z.string().optional(),
+  /** Defaults to now */
+  occurred_at: z.string().datetime({ offset: true }).optional(),
+}).refine((entry) => entry.subject || entry.notes, {
+  message: 'A subject or notes are required',
+});
+
+export const updateContactLogSchema = z.object({
+  contact_type: z.enum(CONTACT_LOG_TYPES).optional(),
+  contact_id: z.string().nullable().optional(),
+  subject: z.string().max(255).nullable().optional(),
+  notes: z.string().nullable().optional(),
+  occurred_at: z.string().datetime({ offset: true }).optional(),
+});
+
+// ============================================
+// LIST / TIMELINE
+// ============================================
+
+/** Comma separated list in query strings: ?type=call,meeting */
+const typeListSchema = <T extends readonly [string, ...string[]]>(values: T) =>
+  z.preprocess(
+    (val) => (typeof val === 'string' ? val.split(',').map((part) => part.trim()).filter(Boolean) : val),
+    z.array(z.enum(values)).optional()
+  );
+
+export const listContactLogSchema = z.object({
+  type: typeListSchema(CONTACT_LOG_TYPES),
+  contact_id: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export const clientTimelineSchema = z.object({
+  type: typeListSchema([...CONTACT_LOG_TYPES, ...SYSTEM_EVENT_TYPES] as [string, ...string[]]),
+  contact_id: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+// ============================================
+// TYPE EXPORTS
+// ============================================
+
+export type ContactLogType = typeof CONTACT_LOG_TYPES[number];
+export type SystemEventType = typeof SYSTEM_EVENT_TYPES[number];
+export type CreateContactLogInput = z.infer<typeof createContactLogSchema>;
+export type UpdateContactLogInput = z.infer<typeof updateContactLogSchema>;
+export type ListContactLogInput = z.infer<typeof listContactLogSchema>;
+export type ClientTimelineInput = z.infer<typeof clientTimelineSchema>;
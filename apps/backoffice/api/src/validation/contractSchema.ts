@@ -0,0 +1,77 @@
+import { z } from 'zod';
+
+// Contract routes live under /api/clients and take snake_case bodies like the
+// existing create contract endpoint
+
+export const CONTRACT_STATUSES = ['draft', 'active', 'expired', 'terminated'] as const;
+
+const billingCycleSchema = z.enum(['monthly', 'weekly', 'per_order', 'custom']);
+
+// ============================================
+// AMEND CONTRACT
+// ============================================
+
+export const amendContractSchema = z.object({
+  /** amendment changes terms of the contract, addendum adds to them */
+  contract_type: z.enum(['amendment', 'addendum']).default('amendment'),
+  name: z.string().min(1).optional(),
+  contract_number: z.string().optional(),
+  /** Date the amendment takes effect (defaults to today) */
+  start_date: z.string().optional(),
+  /** Defaults to the amended contract's end date */
+  end_date: z.string().nullable().optional(),
+  execution_date: z.string().optional(),
+  status: z.enum(['draft', 'active']).default('draft'),
+  billing_cycle: billingCycleSchema.optional(),
+  payment_terms: z.string().optional(),
+  terms: z.record(z.unknown()).optional(),
+  notes: z.string().optional(),
+});
+
+// ============================================
+// SUPERSEDE CONTRACT
+// ============================================
+
+export const supersedeContractSchema = z.object({
+  name: z.string().min(1),
+  contract_number: z.string().optional(),
+  /** Replacement start date - the superseded contract ends the day before */
+  start_date: z.string(),
+  end_date: z.string().optional(),
+  execution_date: z.string().optional(),
+  auto_renew: z.boolean().optional(),
+  billing_cycle: billingCycleSchema.optional(),
+  payment_terms: z.string().optional(),
+  terms: z.record(z.unknown()).optional(),
+  notes: z.string().optional(),
+  /** Re-point rate cards still in effect at start_date to the replacement (default true) */
+  move_rate_cards: z.boolean().default(true),
+});
+
+// ============================================
+// STATUS TRANSITIONS
+// ============================================
+
+export const contractStatusTransitionSchema = z.object({
+  status: z.enum(CONTRACT_STATUSES),
+  reason: z.string().optional(),
+  /** Signed date - required to activate a contract that has not been executed */
+  execution_date: z.string().optional(),
+});
+
+export const runContractTransitionsSchema = z.object({
+  /** Date to evaluate start / end dates against (defaults to today) */
+  as_of: z.string().optional(),
+  dry_run: z.boolean().default(false),
+});
+
+// ============================================
+// TYPE EXPORTS
+// ============================================
+
+export type ContractStatus = typeof CONTRACT_STATUSES[number];
+
+export type AmendContractInput = z.infer<typeof amendContractSchema>;
+export type SupersedeContractInput = z.infer<typeof supersedeContractSchema>;
+export type ContractStatusTransitionInput = z.infer<typeof contractStatusTransitionSchema>;
+export type RunContractTransitionsInput = z.infer<typeof runContractTransitionsSchema>;
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+
+// ============================================
+// CREDIT NOTES
+// ============================================
+
+export const creditNoteReasonCodeSchema = z.enum([
+  'billing_error',
+  'pricing_correction',
+  'duplicate_charge',
+  'service_issue',
+  'goodwill',
+  'other',
+]);
+
+export const creditNoteStatusSchema = z.enum(['pending', 'approved', 'rejected', 'applied']);
+
+/**
+ * Credit note line
+ * - invoiceLineId: the invoice line being corrected (omit for a general credit)
+ * - description defaults to the invoice line description
+ */
+export const creditNoteLineInputSchema = z.object({
+  invoiceLineId: z.string().optional(),
+  description: z.string().optional(),
+  quantity: z.coerce.number().positive('Quantity must be positive'),
+  unitRate: z.coerce.number().min(0, 'Rate cannot be negative').multipleOf(0.01, 'Rate must be in cents'),
+}).refine(
+  (line) => line.invoiceLineId || line.description,
+  { message: 'A description is required for lines not tied to an invoice line', path: ['description'] }
+);
+
+export const createCreditNoteSchema = z.object({
+  invoiceId: z.string().min(1, 'Invoice is required'),
+  reasonCode: creditNoteReasonCodeSchema,
+  reason: z.string().min(1, 'A reason is required'),
+  lines: z.array(creditNoteLineInputSchema).min(1, 'At least one line is required'),
+});
+
+export const rejectCreditNoteSchema = z.object({
+  reason: z.string().min(1, 'A reason is required to reject a credit note'),
+});
+
+/**
+ * Apply an approved credit note
+ * - invoice: reduce the invoice balance; any amount above the balance becomes account credit
+ * - account: hold the full amount as account credit for a later invoice
+ */
+export const applyCreditNoteSchema = z.object({
+  target: z.enum(['invoice', 'account']).default('invoice'),
+});
+
+export const listCreditNotesSchema = z.object({
+  customerId: z.string().optional(),
+  invoiceId: z.string().optional(),
+  status: creditNoteStatusSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// ============================================
+// TYPE EXPORTS
+// ============================================
+
+export type CreditNoteReasonCode = z.infer<typeof creditNoteReasonCodeSchema>;
+export type CreditNoteStatus = z.infer<typeof creditNoteStatusSchema>;
+export type CreditNoteLineInput = z.infer<typeof creditNoteLineInputSchema>;
+export type CreateCreditNoteInput = z.infer<typeof createCreditNoteSchema>;
+export type RejectCreditNoteInput = z.infer<typeof rejectCreditNoteSchema>;
+export type ApplyCreditNoteInput = z.infer<typeof applyCreditNoteSchema>;
+export type ListCreditNotesQuery = z.infer<typeof listCreditNotesSchema>;
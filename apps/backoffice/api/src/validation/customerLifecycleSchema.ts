@@ -0,0 +1,68 @@
+import { z } from 'zod';
+
+// Lifecycle routes live under /api/clients and take snake_case bodies like the
+// other client sub-resources
+
+export const CUSTOMER_STATUSES = ['prospect', 'setup', 'active', 'paused', 'terminated'] as const;
+
+export const FINAL_BILL_ITEM_KEYS = [
+  'activities_invoiced',
+  'storage_billed',
+  'credits_settled',
+  'final_invoice',
+  'balance_collected',
+  'inventory_returned',
+] as const;
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+// ============================================
+// PAUSE / RESUME
+// ============================================
+
+export const pauseCustomerSchema = z.object({
+  reason: z.string().min(1).max(1000),
+});
+
+export const resumeCustomerSchema = z.object({
+  reason: z.string().max(1000).optional(),
+});
+
+// ============================================
+// TERMINATION / OFFBOARDING
+// ============================================
+
+export const terminateCustomerSchema = z.object({
+  reason: z.string().trim().min(10, 'Please provide a detailed reason for termination (minimum 10 characters)'),
+  /** First day the customer is no longer served - contracts end the day before */
+  effective_date: isoDate,
+});
+
+export const cancelOffboardingSchema = z.object({
+  reason: z.string().max(1000).optional(),
+});
+
+export const recordFinalInvoiceSchema = z.object({
+  invoice_id: z.string().min(1),
+});
+
+export const updateFinalBillItemSchema = z.object({
+  done: z.boolean(),
+});
+
+export const runOffboardingSchema = z.object({
+  as_of: isoDate.optional(),
+  dry_run: z.boolean().default(false),
+});
+
+// ============================================
+// TYPE EXPORTS
+// ============================================
+
+export type CustomerStatus = typeof CUSTOMER_STATUSES[number];
+export type FinalBillItemKey = typeof FINAL_BILL_ITEM_KEYS[number];
+export type PauseCustomerInput = z.infer<typeof pauseCustomerSchema>;
+export type ResumeCustomerInput = z.infer<typeof resumeCustomerSchema>;
+export type TerminateCustomerInput = z.infer<typeof terminateCustomerSchema>;
+export type CancelOffboardingInput = z.infer<typeof cancelOffboardingSchema>;
+export type RunOffboardingInput = z.infer<typeof runOffboardingSchema>;
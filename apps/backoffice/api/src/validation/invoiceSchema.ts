@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { activityBillingCycleSchema } from './billingActivitySchema.js';
+
+// ============================================
+// INVOICE GENERATION
+// ============================================
+
+/**
+ * Generate (or preview) invoices for closed billing periods
+ * - customerId: limit the run to one customer (default: all customers)
+ * - asOf: periods ending before this date are considered closed (default: today)
+ * - cycles: limit the run to specific billing cycles
+ * - preview: compute everything, write nothing
+ */
+export const generateInvoicesSchema = z.object({
+  customerId: z.string().optional(),
+  asOf: z.coerce.date().optional(),
+  cycles: z.array(activityBillingCycleSchema).min(1).optional(),
+  preview: z.boolean().default(false),
+});
+
+// ============================================
+// LIFECYCLE
+// ============================================
+
+export const invoiceStatusSchema = z.enum([
+  'draft', 'issued', 'sent', 'paid', 'partial', 'overdue', 'void', 'credited',
+]);
+
+export const voidInvoiceSchema = z.object({
+  reason: z.string().min(1, 'A reason is required to void an invoice'),
+});
+
+export const listInvoicesSchema = z.object({
+  customerId: z.string().optional(),
+  status: invoiceStatusSchema.optional(),
+  billingCycle: z.enum(['immediate', 'weekly', 'monthly', 'ad-hoc']).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// ============================================
+// TYPE EXPORTS
+// ============================================
+
+export type GenerateInvoicesInput = z.infer<typeof generateInvoicesSchema>;
+export type InvoiceStatus = z.infer<typeof invoiceStatusSchema>;
+export type VoidInvoiceInput = z.infer<typeof voidInvoiceSchema>;
+export type ListInvoicesQuery = z.infer<typeof listInvoicesSchema>;
@@ -0,0 +1,52 @@
+import { z } from 'zod';
+
+export const NOTIFICATION_EVENT_TYPES = [
+  'invoice_issued',
+  'payment_received',
+  'contract_expiring',
+  'import_failed',
+] as const;
+
+export const NOTIFICATION_STATUSES = ['pending', 'sent', 'failed'] as const;
+
+// ============================================
+// PREFERENCES
+// ============================================
+
+/**
+ * Per-event switches - stored in CustomerSettings.notificationPreferences
+ * (false mutes an event) and User.notificationPreferences (true subscribes)
+ */
+export const notificationPreferencesSchema = z.object({
+  invoice_issued: z.boolean().optional(),
+  payment_received: z.boolean().optional(),
+  contract_expiring: z.boolean().optional(),
+  import_failed: z.boolean().optional(),
+}).strict();
+
+// ============================================
+// DELIVERY LOG
+// ============================================
+
+export const listNotificationsSchema = z.object({
+  status: z.enum(NOTIFICATION_STATUSES).optional(),
+  eventType: z.enum(NOTIFICATION_EVENT_TYPES).optional(),
+  customerId: z.string().optional(),
+  search: z.string().trim().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const sendTestNotificationSchema = z.object({
+  to: z.string().trim().email('Invalid email address'),
+});
+
+// ============================================
+// TYPE EXPORTS
+// ============================================
+
+export type NotificationEventType = typeof NOTIFICATION_EVENT_TYPES[number];
+export type NotificationStatus = typeof NOTIFICATION_STATUSES[number];
+export type NotificationPreferences = z.infer<typeof notificationPreferencesSchema>;
+export type ListNotificationsInput = z.infer<typeof listNotificationsSchema>;
+export type SendTestNotificationInput = z.infer<typeof sendTestNotificationSchema>;
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+
+// Onboarding routes live under /api/clients and take snake_case bodies like the
+// other client sub-resources
+
+export const ONBOARDING_STEP_KEYS = [
+  'contract_signed',
+  'rate_card_active',
+  'warehouse_allocated',
+  'facilities_added',
+  'primary_contact',
+  'portal_enabled',
+] as const;
+
+export const onboardingStepKeySchema = z.enum(ONBOARDING_STEP_KEYS);
+
+// ============================================
+// STEP SETTINGS / SIGN-OFF
+// ============================================
+
+export const updateOnboardingStepSchema = z.object({
+  owner_user_id: z.string().nullable().optional(),
+  due_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD').nullable().optional(),
+  /** Override whether the step blocks activation for this customer */
+  required: z.boolean().optional(),
+  notes: z.string().max(1000).nullable().optional(),
+}).refine((input) => Object.keys(input).length > 0, {
+  message: 'Nothing to update',
+});
+
+export const signOffOnboardingStepSchema = z.object({
+  notes: z.string().max(1000).optional(),
+});
+
+// ============================================
+// STATUS SYNC
+// ============================================
+
+export const runOnboardingSyncSchema = z.object({
+  dry_run: z.boolean().default(false),
+});
+
+// ============================================
+// TYPE EXPORTS
+// ============================================
+
+export type OnboardingStepKey = typeof ONBOARDING_STEP_KEYS[number];
+export type UpdateOnboardingStepInput = z.infer<typeof updateOnboardingStepSchema>;
+export type SignOffOnboardingStepInput = z.infer<typeof signOffOnboardingStepSchema>;
+export type RunOnboardingSyncInput = z.infer<typeof runOnboardingSyncSchema>;
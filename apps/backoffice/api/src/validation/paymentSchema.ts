@@ -0,0 +1,79 @@
+import { z } from 'zod';
+
+// ============================================
+// PAYMENTS
+// ============================================
+
+/**
+ * Methods accepted by customer.payments
+ * ('credit' is reserved for applying unapplied credit - see applyCreditSchema)
+ */
+export const paymentMethodSchema = z.enum(['ach', 'card', 'wire', 'check', 'cash']);
+
+/**
+ * Record a payment against an invoice
+ * - amount above the invoice balance is kept as unapplied credit
+ * - status 'pending' records the payment without reducing the balance (e.g. uncleared check)
+ */
+export const recordPaymentSchema = z.object({
+  invoiceId: z.string().min(1, 'Invoice is required'),
+  amount: z.coerce.number().positive('Amount must be positive').multipleOf(0.01, 'Amount must be in cents'),
+  paymentDate: z.coerce.date(),
+  method: paymentMethodSchema,
+  reference: z.string().optional(),
+  status: z.enum(['applied', 'pending']).default('applied'),
+  notes: z.string().optional(),
+});
+
+/**
+ * Reverse an applied payment
+ * - nsf: returned for insufficient funds (payment status 'failed' instead of 'reversed')
+ */
+export const reversePaymentSchema = z.object({
+  reason: z.string().min(1, 'A reason is required to reverse a payment'),
+  nsf: z.boolean().default(false),
+});
+
+export const listPaymentsSchema = z.object({
+  customerId: z.string().optional(),
+  invoiceId: z.string().optional(),
+  status: z.enum(['applied', 'pending', 'failed', 'reversed']).optional(),
+  method: z.enum(['ach', 'card', 'wire', 'check', 'cash', 'credit']).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// ============================================
+// UNAPPLIED CREDIT
+// ============================================
+
+/**
+ * Apply unapplied credit to an open invoice (amount defaults to the lesser of
+ * the credit remaining and the invoice balance)
+ */
+export const applyCreditSchema = z.object({
+  invoiceId: z.string().min(1, 'Invoice is required'),
+  amount: z.coerce.number().positive().multipleOf(0.01, 'Amount must be in cents').optional(),
+});
+
+// ============================================
+// AGING
+// ============================================
+
+export const agingReportSchema = z.object({
+  asOf: z.coerce.date().optional(),
+  customerId: z.string().optional(),
+});
+
+// ============================================
+// TYPE EXPORTS
+// ============================================
+
+export type PaymentMethod = z.infer<typeof paymentMethodSchema>;
+export type RecordPaymentInput = z.infer<typeof recordPaymentSchema>;
+export type ReversePaymentInput = z.infer<typeof reversePaymentSchema>;
+export type ListPaymentsQuery = z.infer<typeof listPaymentsSchema>;
+export type ApplyCreditInput = z.infer<typeof applyCreditSchema>;
+export type AgingReportQuery = z.infer<typeof agingReportSchema>;
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+
+// Portal login and portal reads live under /api/portal; staff management of portal
+// users lives under /api/clients/:id/portal-users with snake_case bodies
+
+const subdomain = z.string().trim().toLowerCase().regex(/^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/, 'Invalid portal subdomain');
+
+// ============================================
+// PORTAL AUTH
+// ============================================
+
+export const portalLoginSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(8),
+  /** Path-prefix routing (/portal/:subdomain); ignored when the host is a portal subdomain */
+  subdomain: subdomain.optional(),
+});
+
+export const portalLookupSchema = z.object({
+  subdomain: subdomain.optional(),
+});
+
+// ============================================
+// PORTAL READS
+// ============================================
+
+export const portalListSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const portalInvoiceListSchema = portalListSchema.extend({
+  status: z.enum(['open', 'paid', 'all']).default('all'),
+});
+
+// ============================================
+// STAFF MANAGEMENT OF PORTAL USERS
+// ============================================
+
+export const createPortalUserSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  name: z.string().trim().min(1).max(200),
+  password: z.string().min(8),
+});
+
+export const updatePortalUserSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  disabled: z.boolean().optional(),
+  password: z.string().min(8).optional(),
+});
+
+// ============================================
+// TYPE EXPORTS
+// ============================================
+
+export type PortalLoginInput = z.infer<typeof portalLoginSchema>;
+export type PortalListInput = z.infer<typeof portalListSchema>;
+export type PortalInvoiceListInput = z.infer<typeof portalInvoiceListSchema>;
+export type CreatePortalUserInput = z.infer<typeof createPortalUserSchema>;
+export type UpdatePortalUserInput = z.infer<typeof updatePortalUserSchema>;
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+/** Soft-deleted entity types the purge job hard-deletes (see docs/PURGE_JOB_SPEC.md) */
+export const PURGE_ENTITIES = ['customer', 'warehouse', 'contact', 'facility', 'user'] as const;
+
+// ============================================
+// RUN
+// ============================================
+
+export const runPurgeSchema = z.object({
+  /** Defaults to a dry run - deleting has to be asked for explicitly */
+  dryRun: z.boolean().default(true),
+  entityTypes: z.array(z.enum(PURGE_ENTITIES)).min(1).optional(),
+  limit: z.number().int().min(1).max(1000).optional(),
+});
+
+// ============================================
+// TYPE EXPORTS
+// ============================================
+
+export type PurgeEntity = typeof PURGE_ENTITIES[number];
+export type RunPurgeInput = z.infer<typeof runPurgeSchema>;
@@ -42,26 +42,86 @@ export const serviceRateSchema = z.object({
   unit: z.string().min(1),
   baseRate: z.number().positive().optional(),
   tiers: z.array(serviceTierSchema).optional(),
+  /**
+   * How tiers are evaluated:
+   * - per_activity (default): on each activity's own quantity
+   * - all_units: all units in the billing period at the tier the period volume reaches
+   * - graduated: each unit at the tier its position in the period volume falls in
+   */
+  tierMode: z.enum(['per_activity', 'all_units', 'graduated']).optional(),
   zones: z.array(serviceZoneSchema).optional(),
   items: z.array(serviceItemSchema).optional(),
 }).strict().refine(
   (service) => service.baseRate || service.tiers || service.zones || service.items,
   'Service must have at least one pricing mechanism (baseRate, tiers, zones, or items)'
+).refine(
+  (service) => !service.tierMode || service.tierMode === 'per_activity' || service.tiers,
+  { message: 'tierMode requires tiers', path: ['tierMode'] }
+);
+
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+/**
+ * Recurring calendar day (MM-DD)
+ */
+const monthDaySchema = z.string()
+  .regex(/^\d{2}-\d{2}$/, 'Must be a MM-DD date')
+  .refine((value) => {
+    const [month, day] = value.split('-').map(Number);
+    return month >= 1 && month <= 12 && day >= 1 && day <= DAYS_IN_MONTH[month - 1];
+  }, 'Must be a valid MM-DD date');
+
+/**
+ * Surcharge conditions - every condition present must hold for an activity to match
+ */
+export const surchargeConditionsSchema = z.object({
+  serviceTypes: z.array(z.string().regex(/^[A-Za-z]+_[A-Za-z]+$/, 'Service type must be in Category_Service format')).min(1).optional(),
+  categories: z.array(z.string().regex(/^[a-z]+$/, 'Category must be a lowercase category code')).min(1).optional(),
+  minQuantity: z.number().min(0).optional(),
+  maxQuantity: z.number().positive().optional(),
+  /** Activity metadata.weight */
+  minWeight: z.number().min(0).optional(),
+  maxWeight: z.number().positive().optional(),
+  /** Warehouse ids or codes, matched against activity metadata */
+  warehouses: z.array(z.string().min(1)).min(1).optional(),
+  /** Recurring window each year, may wrap the year end (e.g. 11-15 to 01-15) */
+  peakSeason: z.object({
+    start: monthDaySchema,
+    end: monthDaySchema,
+  }).strict().optional(),
+}).strict().refine(
+  (conditions) => conditions.minQuantity === undefined || conditions.maxQuantity === undefined ||
+    conditions.minQuantity <= conditions.maxQuantity,
+  { message: 'minQuantity cannot exceed maxQuantity', path: ['minQuantity'] }
+).refine(
+  (conditions) => conditions.minWeight === undefined || conditions.maxWeight === undefined ||
+    conditions.minWeight <= conditions.maxWeight,
+  { message: 'minWeight cannot exceed maxWeight', path: ['minWeight'] }
 );
 
 /**
  * Surcharge validation
+ * basis 'activity' (default): percentage of each matching activity, or amount per unit
+ * basis 'invoice': percentage of the matching subtotal, or amount once per invoice
  */
 export const surchargeSchema = z.object({
   type: z.string().min(1),
+  description: z.string().optional(),
+  basis: z.enum(['activity', 'invoice']).optional(),
   amount: z.number().positive().optional(),
   percentage: z.number().min(0).max(100).optional(),
   appliesFrom: z.string().datetime().optional(),
   appliesTo: z.string().datetime().optional(),
-  conditions: z.record(z.any()).optional(),
+  conditions: surchargeConditionsSchema.optional(),
 }).strict().refine(
   (surcharge) => surcharge.amount || surcharge.percentage,
   'Surcharge must have either amount or percentage'
+).refine(
+  (surcharge) => !(surcharge.amount && surcharge.percentage),
+  'Surcharge cannot have both amount and percentage'
+).refine(
+  (surcharge) => !surcharge.appliesFrom || !surcharge.appliesTo || surcharge.appliesFrom <= surcharge.appliesTo,
+  { message: 'appliesFrom must be before appliesTo', path: ['appliesTo'] }
 );
 
 /**
@@ -82,6 +142,12 @@ export const rateCardRatesSchema = z.object({
     );
   },
   { message: 'Service tiers must be contiguous with no overlaps or gaps' }
+).refine(
+  (rates) => {
+    const types = (rates.surcharges ?? []).map(surcharge => surcharge.type);
+    return new Set(types).size === types.length;
+  },
+  { message: 'Surcharge types must be unique on a rate card', path: ['surcharges'] }
 );
 
 // Helper function for tier validation
@@ -183,6 +249,54 @@ export const addContractLinkSchema = z.object({
   notes: z.string().optional(),
 });
 
+// ============================================
+// SIMULATE RATE CARD
+// ============================================
+
+const MAX_SIMULATION_DAYS = 366;
+
+export const simulateRateCardSchema = z.object({
+  customerId: z.string(),
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  rateCardId: z.string().optional(), // Existing card...
+  rates: rateCardRatesSchema.optional(), // ...or a draft rates payload
+  minimumMonthlyCharge: z.number().nonnegative().nullable().optional(),
+})
+  .refine(
+    (data) => !!data.rateCardId !== !!data.rates,
+    { message: 'Provide either rateCardId or rates', path: ['rates'] }
+  )
+  .refine(
+    (data) => data.from <= data.to,
+    { message: 'from must be on or before to', path: ['to'] }
+  )
+  .refine(
+    (data) => data.to.getTime() - data.from.getTime() <= MAX_SIMULATION_DAYS * 24 * 60 * 60 * 1000,
+    { message: `Simulation range cannot exceed ${MAX_SIMULATION_DAYS} days`, path: ['to'] }
+  );
+
+// ============================================
+// DIFF RATE CARDS
+// ============================================
+
+export const rateCardDiffQuerySchema = z.object({
+  from: z.string().min(1), // Rate card the changes are measured from
+  to: z.string().min(1),
+});
+
+export const effectiveRateCardDiffQuerySchema = z.object({
+  asOf: z.coerce.date().optional(), // Adjustments in effect on this date (all active when omitted)
+});
+
+// ============================================
+// EFFECTIVE RATES
+// ============================================
+
+export const effectiveRatesQuerySchema = z.object({
+  date: z.coerce.date().optional(), // Defaults to today
+});
+
 // ============================================
 // TYPE EXPORTS
 // ============================================
@@ -190,7 +304,11 @@ export const addContractLinkSchema = z.object({
 export type CreateRateCardInput = z.infer<typeof createRateCardSchema>;
 export type UpdateRateCardInput = z.infer<typeof updateRateCardSchema>;
 export type AddContractLinkInput = z.infer<typeof addContractLinkSchema>;
+export type SimulateRateCardInput = z.infer<typeof simulateRateCardSchema>;
+export type RateCardDiffQuery = z.infer<typeof rateCardDiffQuerySchema>;
 export type RateCardRates = z.infer<typeof rateCardRatesSchema>;
+export type Surcharge = z.infer<typeof surchargeSchema>;
+export type SurchargeConditions = z.infer<typeof surchargeConditionsSchema>;
 export type BillingCycles = z.infer<typeof billingCyclesSchema>;
 export type ReceivingRates = z.infer<typeof receivingRatesSchema>;
 export type StorageRates = z.infer<typeof storageRatesSchema>;
@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import { rateCardRatesSchema, billingCyclesSchema } from './rateCardSchema.js';
+
+// Query strings arrive as text, so booleans are parsed explicitly
+const queryBoolean = z.preprocess(
+  (val) => (val === 'true' ? true : val === 'false' ? false : val),
+  z.boolean().optional()
+);
+
+// ============================================
+// CREATE / UPDATE TEMPLATE
+// ============================================
+
+export const createRateCardTemplateSchema = z.object({
+  templateKey: z.string()
+    .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Template key must be lowercase words separated by hyphens'),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  rates: rateCardRatesSchema,
+  billingCycles: billingCyclesSchema.optional(),
+  minimumMonthlyCharge: z.number().positive().optional(),
+  notes: z.string().optional(),
+});
+
+/**
+ * Editing a template creates the next version
+ */
+export const updateRateCardTemplateSchema = z.object({
+  name: z.string().min(1).optional(),
+  description: z.string().nullable().optional(),
+  rates: rateCardRatesSchema.optional(),
+  billingCycles: billingCyclesSchema.optional(),
+  minimumMonthlyCharge: z.number().positive().nullable().optional(),
+  notes: z.string().optional(),
+});
+
+export const listRateCardTemplatesSchema = z.object({
+  includeInactive: queryBoolean.transform((val) => val ?? false),
+});
+
+// ============================================
+// BULK RATE INCREASE
+// ============================================
+
+export const rateRoundingSchema = z.object({
+  /** Round to a multiple of this (0.01 = cents, 0.05 = nickels) */
+  increment: z.number().positive().max(10).default(0.01),
+  mode: z.enum(['nearest', 'up', 'down']).default('nearest'),
+});
+
+export const bulkRateIncreaseSchema = z.object({
+  /** Percentage change, e.g. 4.5 for +4.5% */
+  percentage: z.number().min(-50).max(100).refine((val) => val !== 0, 'Percentage cannot be 0'),
+  effectiveDate: z.coerce.date(),
+  rounding: rateRoundingSchema.default({}),
+  /** Service codes left at their current rate */
+  excludeServices: z.array(z.string()).default([]),
+  /** Also raise fixed-amount surcharges (percentage surcharges never change) */
+  includeSurcharges: z.boolean().default(false),
+  /** Also raise the monthly minimum */
+  includeMinimums: z.boolean().default(false),
+  /** Limit to these customers (all derived cards when omitted) */
+  customerIds: z.array(z.string()).min(1).optional(),
+  dryRun: z.boolean().default(true),
+});
+
+// ============================================
+// TYPE EXPORTS
+// ============================================
+
+export type CreateRateCardTemplateInput = z.infer<typeof createRateCardTemplateSchema>;
+export type UpdateRateCardTemplateInput = z.infer<typeof updateRateCardTemplateSchema>;
+export type RateRounding = z.infer<typeof rateRoundingSchema>;
+export type BulkRateIncreaseInput = z.infer<typeof bulkRateIncreaseSchema>;
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+export const RENEWAL_ALERT_TYPES = [
+  'rate_card_expiring',
+  'contract_expiring',
+  'no_active_rate_card',
+  'contract_renewal_drafted',
+] as const;
+
+// ============================================
+// LIST / ACKNOWLEDGE
+// ============================================
+
+export const listRenewalAlertsSchema = z.object({
+  /** 'active' = open + acknowledged */
+  status: z.enum(['active', 'open', 'acknowledged', 'resolved']).default('active'),
+  customerId: z.string().optional(),
+  alertType: z.enum(RENEWAL_ALERT_TYPES).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+// ============================================
+// RUN CHECK
+// ============================================
+
+/**
+ * Alert windows in days before the expiry / end date, e.g. [90, 60, 30]
+ */
+export const alertWindowsSchema = z.array(z.number().int().positive().max(730)).min(1).max(6)
+  .refine((windows) => new Set(windows).size === windows.length, 'Alert windows must be unique');
+
+export const runRenewalCheckSchema = z.object({
+  asOf: z.coerce.date().optional(),
+  windows: alertWindowsSchema.optional(),
+  /** Draft renewal contracts for autoRenew contracts (default true) */
+  draftRenewals: z.boolean().optional(),
+  /** Also plan the next rate card version for each drafted renewal (RENEWAL_DRAFT_RATE_CARDS) */
+  draftRateCardVersions: z.boolean().optional(),
+  dryRun: z.boolean().default(false),
+});
+
+// ============================================
+// TYPE EXPORTS
+// ============================================
+
+export type RenewalAlertType = typeof RENEWAL_ALERT_TYPES[number];
+export type ListRenewalAlertsInput = z.infer<typeof listRenewalAlertsSchema>;
+export type RunRenewalCheckInput = z.infer<typeof runRenewalCheckSchema>;
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+
+// ============================================
+// STORAGE LEVELS (manual on-hand input)
+// ============================================
+
+/**
+ * Pallets stored since a date (drives long-term storage penalties)
+ */
+export const storageAgingEntrySchema = z.object({
+  storedSince: z.coerce.date(),
+  pallets: z.coerce.number().positive('Aged pallets must be positive'),
+});
+
+/**
+ * On-hand storage for an allocation, effective from a date until the next level
+ */
+export const createStorageLevelSchema = z.object({
+  warehouseAllocationId: z.string().min(1, 'Warehouse allocation is required'),
+  effectiveDate: z.coerce.date(),
+  pallets: z.coerce.number().min(0, 'Pallets cannot be negative').default(0),
+  cubicFeet: z.coerce.number().min(0, 'Cubic feet cannot be negative').default(0),
+  aging: z.array(storageAgingEntrySchema).default([]),
+  notes: z.string().optional(),
+}).refine(
+  (level) => level.aging.reduce((sum, entry) => sum + entry.pallets, 0) <= level.pallets + 1e-9,
+  { message: 'Aged pallets cannot exceed pallets on hand', path: ['aging'] }
+).refine(
+  (level) => level.aging.every(entry => entry.storedSince <= level.effectiveDate),
+  { message: 'Stored-since dates cannot be after the effective date', path: ['aging'] }
+);
+
+// ============================================
+// SNAPSHOTS
+// ============================================
+
+export const runStorageSnapshotSchema = z.object({
+  date: z.coerce.date(),
+  customerId: z.string().optional(),
+});
+
+export const listStorageSnapshotsSchema = z.object({
+  customerId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+/**
+ * Long-term storage penalty thresholds (days in storage), stored in customer settings
+ */
+export const storageConfigSchema = z.object({
+  longTermThresholdDays: z.array(z.number().int().positive()).max(5)
+    .refine(
+      (days) => days.every((d, i) => i === 0 || d > days[i - 1]),
+      'Thresholds must be in ascending order without duplicates'
+    ),
+});
+
+// ============================================
+// TYPE EXPORTS
+// ============================================
+
+export type StorageAgingEntry = z.infer<typeof storageAgingEntrySchema>;
+export type CreateStorageLevelInput = z.infer<typeof createStorageLevelSchema>;
+export type RunStorageSnapshotInput = z.infer<typeof runStorageSnapshotSchema>;
+export type ListStorageSnapshotsQuery = z.infer<typeof listStorageSnapshotsSchema>;
+export type StorageConfig = z.infer<typeof storageConfigSchema>;
@@ -0,0 +1,346 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert';
+import {
+  BULK_DETAIL_LIMIT,
+  applyUpdateData,
+  buildAuditEntry,
+  createAuditQueryHandler,
+  diffRecords,
+  getEntityId,
+  getNestedWrites,
+  getParent,
+  toEntityType,
+  withAuditLog,
+} from '../src/services/auditLog.js';
+import {
+  createJobAuditContext,
+  createRequestAuditContext,
+  runWithAuditContext,
+  type AuditContext,
+} from '../src/lib/auditContext.js';
+
+const requestContext: AuditContext = {
+  requestId: 'req-123',
+  ipAddress: '203.0.113.7',
+  getActor: async () => ({ source: 'user', actorId: 'user_ops', actorName: 'Ops Lead' }),
+};
+
+// ============================================
+// PURE HELPERS
+// ============================================
+
+describe('Audit entries', () => {
+  test('entity types are snake_case model names', () => {
+    assert.strictEqual(toEntityType('Customer'), 'customer');
+    assert.strictEqual(toEntityType('CustomerSettings'), 'customer_settings');
+    assert.strictEqual(toEntityType('UserRole'), 'user_role');
+  });
+
+  test('entity IDs use id, or the key columns for composite-key models', () => {
+    assert.strictEqual(getEntityId('Customer', { id: 'cust_1' }), 'cust_1');
+    assert.strictEqual(getEntityId('UserRole', { userId: 'user_1', roleId: 3 }), 'user_1:3');
+    assert.strictEqual(getEntityId('CustomerSettings', { customerId: 'cust_1' }), 'cust_1');
+    assert.strictEqual(getEntityId('BillingActivity', { quantity: 2 }), null);
+  });
+
+  test('child records point at their customer, warehouse or user', () => {
+    assert.deepStrictEqual(getParent('contact', { id: 'ct_1', customerId: 'cust_1' }), { parentType: 'customer', parentId: 'cust_1' });
+    assert.deepStrictEqual(
+      getParent('warehouse_allocation', { customerId: 'cust_1', companyWarehouseId: 'wh_1' }),
+      { parentType: 'customer', parentId: 'cust_1' }
+    );
+    assert.deepStrictEqual(getParent('user_role', { userId: 'user_1', roleId: 2 }), { parentType: 'user', parentId: 'user_1' });
+    assert.strictEqual(getParent('customer', { id: 'cust_1' }), null);
+  });
+
+  test('diff keeps changed columns only and ignores updatedAt', () => {
+    const diff = diffRecords(
+      { id: 'c1', name: 'Old', status: 'active', updatedAt: '2026-01-01' },
+      { id: 'c1', name: 'New', status: 'active', updatedAt: '2026-10-18' }
+    );
+    assert.deepStrictEqual(diff, { before: { name: 'Old' }, after: { name: 'New' } });
+    assert.strictEqual(diffRecords({ id: 'c1', updatedAt: 'a' }, { id: 'c1', updatedAt: 'b' }), null);
+  });
+
+  test('updates that change nothing produce no entry', () => {
+    assert.strictEqual(buildAuditEntry('UPDATE', 'Customer', { id: 'c1', name: 'A' }, { id: 'c1', name: 'A' }), null);
+  });
+
+  test('secrets are redacted but still show up as changed', () => {
+    const entry = buildAuditEntry(
+      'UPDATE',
+      'User',
+      { id: 'user_1', hashedPassword: 'old-hash', name: 'Sam' },
+      { id: 'user_1', hashedPassword: 'new-hash', name: 'Sam' }
+    );
+    assert.deepStrictEqual(entry?.before, { hashedPassword: '[redacted]' });
+    assert.deepStrictEqual(entry?.after, { hashedPassword: '[redacted]' });
+  });
+
+  test('dates and decimals are stored as JSON strings', () => {
+    const entry = buildAuditEntry('CREATE', 'Payment', null, {
+      id: 'pay_1',
+      invoiceId: 'inv_1',
+      amount: { toJSON: () => '125.50' },
+      paymentDate: new Date('2026-10-18T00:00:00.000Z'),
+    });
+    assert.deepStrictEqual(entry?.after, {
+      id: 'pay_1',
+      invoiceId: 'inv_1',
+      amount: '125.50',
+      paymentDate: '2026-10-18T00:00:00.000Z',
+    });
+    assert.strictEqual(entry?.parentType, null);
+  });
+
+  test('updateMany data is applied to the previous row, including numeric operations', () => {
+    assert.deepStrictEqual(
+      applyUpdateData({ id: 'a', attempts: 2, status: 'pending', note: 'x' }, {
+        attempts: { increment: 1 },
+        status: 'failed',
+        note: { set: null },
+      }),
+      { id: 'a', attempts: 3, status: 'failed', note: null }
+    );
+  });
+
+  test('relations written through nested operations are named, plain JSON values are not', () => {
+    assert.deepStrictEqual(
+      getNestedWrites({ data: { total: 10, lines: { create: [{ amount: 10 }] }, meta: { source: 'csv' } } }),
+      ['lines']
+    );
+    assert.deepStrictEqual(getNestedWrites({ create: { settings: { create: {} } }, update: { name: 'A' } }), ['settings']);
+    assert.deepStrictEqual(getNestedWrites({ where: { id: 'a' } }), []);
+  });
+
+  test('request ID and IP come from the server, not from client headers', () => {
+    const request: any = {
+      id: 'server-generated-id',
+      ip: '10.0.0.2',
+      headers: { 'x-forwarded-for': '198.51.100.4', 'x-request-id': 'spoofed' },
+    };
+    const context = createRequestAuditContext(request);
+    assert.strictEqual(context.requestId, 'server-generated-id');
+    assert.strictEqual(context.ipAddress, '10.0.0.2');
+  });
+});
+
+// ============================================
+// PRISMA EXTENSION
+// ============================================
+
+/**
+ * In-memory stand-in for the un-extended client: one model table plus the audit log
+ */
+function memoryBase(rows: Array<Record<string, any>>) {
+  const auditRows: Array<Record<string, any>> = [];
+
+  const matches = (row: Record<string, any>, where: Record<string, any> = {}) =>
+    Object.entries(where).every(([key, value]) => row[key] === value);
+
+  const base: any = {
+    customer: {
+      findUnique: async ({ where }: any) => {
+        const row = rows.find(r => matches(r, where));
+        return row ? { ...row } : null;
+      },
+      findMany: async ({ where, take }: any) => rows.filter(row => matches(row, where)).slice(0, take).map(row => ({ ...row })),
+    },
+    auditLog: {
+      createMany: async ({ data }: any) => {
+        auditRows.push(...data);
+        return { count: data.length };
+      },
+    },
+  };
+
+  const update = async ({ where, data }: any) => {
+    const row = rows.find(r => matches(r, where))!;
+    Object.assign(row, data);
+    return { ...row };
+  };
+
+  return { base, rows, auditRows, update };
+}
+
+describe('Audit extension', () => {
+  test('an update is logged with its diff, actor, request ID and IP', async () => {
+    const { base, auditRows, update } = memoryBase([{ id: 'cust_1', name: 'Acme', status: 'active' }]);
+    const handler = createAuditQueryHandler(base);
+
+    const result = await runWithAuditContext(requestContext, () =>
+      handler({
+        model: 'Customer',
+        operation: 'update',
+        args: { where: { id: 'cust_1' }, data: { name: 'Acme Corp' } },
+        query: update,
+      })
+    );
+
+    assert.strictEqual(result.name, 'Acme Corp');
+    assert.strictEqual(auditRows.length, 1);
+    assert.deepStrictEqual(auditRows[0], {
+      source: 'user',
+      actorId: 'user_ops',
+      actorName: 'Ops Lead',
+      requestId: 'req-123',
+      ipAddress: '203.0.113.7',
+      action: 'UPDATE',
+      entityType: 'customer',
+      entityId: 'cust_1',
+      parentType: null,
+      parentId: null,
+      before: { name: 'Acme' },
+      after: { name: 'Acme Corp' },
+      details: null,
+    });
+  });
+
+  test('relations requested with include are not part of the logged record', async () => {
+    const { base, auditRows } = memoryBase([]);
+    const handler = createAuditQueryHandler(base);
+
+    await handler({
+      model: 'Customer',
+      operation: 'create',
+      args: { data: { name: 'Acme' }, include: { settings: true } },
+      query: async () => ({ id: 'cust_2', name: 'Acme', settings: { customerId: 'cust_2' } }),
+    });
+
+    assert.deepStrictEqual(auditRows[0].after, { id: 'cust_2', name: 'Acme' });
+    assert.strictEqual(auditRows[0].source, 'system');
+  });
+
+  test('changes made by a job are attributed to it', async () => {
+    const { base, auditRows } = memoryBase([{ id: 'cust_1', status: 'active' }]);
+    const handler = createAuditQueryHandler(base);
+
+    await runWithAuditContext(createJobAuditContext('customer-offboarding'), () =>
+      handler({
+        model: 'Customer',
+        operation: 'delete',
+        args: { where: { id: 'cust_1' } },
+        query: async () => ({ id: 'cust_1', status: 'active' }),
+      })
+    );
+
+    assert.strictEqual(auditRows[0].action, 'DELETE');
+    assert.deepStrictEqual(auditRows[0].before, { id: 'cust_1', status: 'active' });
+    assert.strictEqual(auditRows[0].after, null);
+    assert.strictEqual(auditRows[0].source, 'job');
+    assert.strictEqual(auditRows[0].actorName, 'customer-offboarding');
+  });
+
+  test('large bulk updates are logged as one summary entry', async () => {
+    const rows = Array.from({ length: BULK_DETAIL_LIMIT + 5 }, (_, i) => ({ id: `cust_${i}`, status: 'active' }));
+    const { base, auditRows } = memoryBase(rows);
+    const handler = createAuditQueryHandler(base);
+
+    await handler({
+      model: 'Customer',
+      operation: 'updateMany',
+      args: { where: { status: 'active' }, data: { status: 'paused' } },
+      query: async () => ({ count: rows.length }),
+    });
+
+    assert.strictEqual(auditRows.length, 1);
+    assert.strictEqual(auditRows[0].entityId, '*');
+    assert.strictEqual(auditRows[0].details, `Updated ${rows.length} customer records`);
+  });
+
+  test('explicit audit log writes are stamped with the current context', async () => {
+    const { base } = memoryBase([]);
+    const handler = createAuditQueryHandler(base);
+    let written: any;
+
+    await runWithAuditContext(requestContext, () =>
+      handler({
+        model: 'AuditLog',
+        operation: 'create',
+        args: { data: { action: 'PURGE', entityType: 'customer', entityId: 'cust_9', details: 'Purged' } },
+        query: async (args) => (written = args.data),
+      })
+    );
+
+    assert.strictEqual(written.action, 'PURGE');
+    assert.strictEqual(written.actorId, 'user_ops');
+    assert.strictEqual(written.requestId, 'req-123');
+  });
+
+  test('entries made in a transaction are written after commit and dropped on rollback', async () => {
+    const { base, auditRows, update } = memoryBase([{ id: 'cust_1', name: 'Acme' }]);
+    base.$extends = (extension: any) => {
+      const handler = extension.query.$allModels.$allOperations;
+      const client: any = {
+        customer: {
+          findUnique: base.customer.findUnique,
+          update: (args: any) => handler({ model: 'Customer', operation: 'update', args, query: update }),
+        },
+        $transaction: (fn: (tx: any) => Promise<unknown>) => fn(client),
+      };
+      return client;
+    };
+    const client: any = withAuditLog(base);
+
+    await client.$transaction(async (tx: any) => {
+      await tx.customer.update({ where: { id: 'cust_1' }, data: { name: 'Acme Corp' } });
+      assert.strictEqual(auditRows.length, 0);
+    });
+    assert.strictEqual(auditRows.length, 1);
+
+    await assert.rejects(client.$transaction(async (tx: any) => {
+      await tx.customer.update({ where: { id: 'cust_1' }, data: { name: 'Rolled Back' } });
+      throw new Error('boom');
+    }));
+    assert.strictEqual(auditRows.length, 1);
+  });
+
+  test('inside a transaction the previous state is read through the transaction client', async () => {
+    const { base, auditRows } = memoryBase([]);
+    const uncommitted: Array<Record<string, any>> = [];
+    base.$extends = (extension: any) => {
+      const handler = extension.query.$allModels.$allOperations;
+      const client: any = {
+        customer: {
+          findUnique: async ({ where }: any) => {
+            const row = uncommitted.find(r => r.id === where.id);
+            return row ? { ...row } : null;
+          },
+          create: (args: any) => handler({
+            model: 'Customer', operation: 'create', args,
+            query: async ({ data }: any) => (uncommitted.push({ ...data }), { ...data }),
+          }),
+          upsert: (args: any) => handler({
+            model: 'Customer', operation: 'upsert', args,
+            query: async ({ where, update }: any) => ({ ...Object.assign(uncommitted.find(row => row.id === where.id)!, update) }),
+          }),
+        },
+        $transaction: (fn: (tx: any) => Promise<unknown>) => fn(client),
+      };
+      return client;
+    };
+    const client: any = withAuditLog(base);
+
+    await client.$transaction(async (tx: any) => {
+      await tx.customer.create({ data: { id: 'cust_3', name: 'Acme' } });
+      await tx.customer.upsert({ where: { id: 'cust_3' }, create: { id: 'cust_3', name: 'Acme' }, update: { name: 'Acme Corp' } });
+    });
+
+    assert.deepStrictEqual(auditRows.map(row => row.action), ['CREATE', 'UPDATE']);
+    assert.deepStrictEqual(auditRows[1].before, { name: 'Acme' });
+  });
+
+  test('nested writes are named on the parent entry', async () => {
+    const { base, auditRows } = memoryBase([]);
+    const handler = createAuditQueryHandler(base);
+
+    await handler({
+      model: 'Customer',
+      operation: 'create',
+      args: { data: { name: 'Acme', contacts: { create: [{ name: 'Sam' }] } } },
+      query: async () => ({ id: 'cust_4', name: 'Acme' }),
+    });
+
+    assert.strictEqual(auditRows[0].details, 'Nested writes not itemised: contacts');
+  });
+});
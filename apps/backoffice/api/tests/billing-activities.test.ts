@@ -0,0 +1,152 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert';
+import * as XLSX from 'xlsx';
+import {
+  billingActivities,
+  toBillingActivityInput,
+} from '../src/integrations/billing/billing-activities.js';
+import {
+  resolveBillingCycle,
+  getBillingPeriodStart,
+  toActivityDate,
+} from '../src/services/billingActivityService.js';
+import { ingestBillingActivitiesSchema } from '../src/validation/billingActivitySchema.js';
+
+describe('Billing Activities Integration', () => {
+  describe('parse', () => {
+    test('parses CSV with header aliases and keeps unknown columns as metadata', async () => {
+      const csv = [
+        'Date,Service Code,Qty,Order ID,Warehouse',
+        '2026-01-05,Fulfillment_BaseOrder,3,SO-1001,DAL',
+        '2026-01-06,Receiving_StandardPallet,5,"PO-2001",DAL',
+      ].join('\n');
+
+      const records = await billingActivities.parse(Buffer.from(csv), 'activity.csv');
+
+      assert.strictEqual(records.length, 2);
+      assert.deepStrictEqual(records[0], {
+        customer_id: null,
+        activity_date: '2026-01-05',
+        type: 'Fulfillment_BaseOrder',
+        quantity: 3,
+        unit: null,
+        description: null,
+        reference_id: 'SO-1001',
+        billing_cycle: null,
+        metadata: { Warehouse: 'DAL' },
+      });
+      assert.strictEqual(records[1].reference_id, 'PO-2001');
+    });
+
+    test('handles quoted commas and escaped quotes in CSV', async () => {
+      const csv = [
+        'activity_date,type,quantity,reference_id,description',
+        '2026-01-05,Vas_Kitting,1,K-1,"Kit, ""deluxe"""',
+      ].join('\r\n');
+
+      const records = await billingActivities.parse(Buffer.from(csv), 'activity.csv');
+
+      assert.strictEqual(records[0].description, 'Kit, "deluxe"');
+    });
+
+    test('parses JSON arrays and { activities } objects', async () => {
+      const rows = [{ activityDate: '2026-02-01', type: 'Storage_PalletMonthly', quantity: 12, referenceId: 'ST-1' }];
+
+      const fromArray = await billingActivities.parse(Buffer.from(JSON.stringify(rows)), 'feed.json');
+      const fromObject = await billingActivities.parse(
+        Buffer.from(JSON.stringify({ activities: rows })),
+        'feed.json'
+      );
+
+      assert.strictEqual(fromArray[0].type, 'Storage_PalletMonthly');
+      assert.deepStrictEqual(fromArray, fromObject);
+    });
+
+    test('rejects JSON without an activities array', async () => {
+      await assert.rejects(
+        billingActivities.parse(Buffer.from('{"rows": []}'), 'feed.json'),
+        /activities/
+      );
+    });
+
+    test('parses XLSX with date cells', async () => {
+      const sheet = XLSX.utils.aoa_to_sheet([
+        ['activity_date', 'type', 'quantity', 'reference_id'],
+        [new Date(Date.UTC(2026, 0, 15)), 'Shipping_LabelFee', 2, 'SH-9'],
+      ], { cellDates: true });
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, sheet, 'Activities');
+      const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+
+      const records = await billingActivities.parse(buffer, 'activity.xlsx');
+
+      assert.strictEqual(records[0].activity_date, '2026-01-15');
+      assert.strictEqual(records[0].quantity, 2);
+    });
+  });
+
+  describe('validate', () => {
+    test('accepts well-formed records', async () => {
+      const records = await billingActivities.parse(
+        Buffer.from('activity_date,type,quantity,reference_id\n2026-01-05,Fulfillment_BaseOrder,1,SO-1'),
+        'a.csv'
+      );
+      assert.strictEqual(billingActivities.validate(records).valid, true);
+    });
+
+    test('reports missing reference, bad type and non-positive quantity per row', async () => {
+      const records = await billingActivities.parse(
+        Buffer.from('activity_date,type,quantity,reference_id\n2026-01-05,base order,0,'),
+        'a.csv'
+      );
+      const result = billingActivities.validate(records);
+
+      assert.strictEqual(result.valid, false);
+      const fields = result.errors.map(e => e.field).sort();
+      assert.deepStrictEqual(fields, ['quantity', 'reference_id', 'type']);
+      assert.ok(result.errors.every(e => e.row === 1));
+    });
+
+    test('rejects empty files', () => {
+      assert.strictEqual(billingActivities.validate([]).valid, false);
+    });
+  });
+
+  test('toBillingActivityInput maps to a UTC activity date', async () => {
+    const [record] = await billingActivities.parse(
+      Buffer.from('activity_date,type,quantity,reference_id,billing_cycle\n2026-03-31,Fulfillment_BaseOrder,4,SO-7,Weekly'),
+      'a.csv'
+    );
+    const input = toBillingActivityInput(record);
+
+    assert.strictEqual(input.activityDate.toISOString(), '2026-03-31T00:00:00.000Z');
+    assert.strictEqual(input.billingCycle, 'weekly');
+    assert.ok(ingestBillingActivitiesSchema.safeParse({ activities: [input] }).success);
+  });
+});
+
+describe('Billing Activity Service helpers', () => {
+  test('resolveBillingCycle uses the category prefix of the service code', () => {
+    const cycles = { shipping: 'immediate', fulfillment: 'weekly' };
+
+    assert.strictEqual(resolveBillingCycle('Shipping_LabelFee', cycles), 'immediate');
+    assert.strictEqual(resolveBillingCycle('Fulfillment_BaseOrder', cycles), 'weekly');
+    assert.strictEqual(resolveBillingCycle('Storage_PalletMonthly', cycles), 'monthly');
+    assert.strictEqual(resolveBillingCycle('Receiving_StandardPallet', undefined), 'monthly');
+  });
+
+  test('getBillingPeriodStart aligns to day, Monday or first of month', () => {
+    const sunday = new Date('2026-01-11T15:30:00Z');
+
+    assert.strictEqual(getBillingPeriodStart(sunday, 'immediate').toISOString(), '2026-01-11T00:00:00.000Z');
+    assert.strictEqual(getBillingPeriodStart(sunday, 'weekly').toISOString(), '2026-01-05T00:00:00.000Z');
+    assert.strictEqual(getBillingPeriodStart(sunday, 'monthly').toISOString(), '2026-01-01T00:00:00.000Z');
+  });
+
+  test('toActivityDate truncates to UTC midnight', () => {
+    assert.strictEqual(
+      toActivityDate(new Date('2026-05-20T23:59:59Z')).toISOString(),
+      '2026-05-20T00:00:00.000Z'
+    );
+  });
+});
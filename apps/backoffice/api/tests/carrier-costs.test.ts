@@ -0,0 +1,234 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert';
+import {
+  carrierCosts,
+  detectCarrier,
+  parseMoney,
+  toCarrierCharge,
+  type CarrierCharge,
+} from '../src/integrations/billing/carrier-costs.js';
+import {
+  groupChargesByShipment,
+  matchShipments,
+  mergeCarrierCost,
+} from '../src/services/carrierCostService.js';
+import { calculateCostPlus, findShippingRate, priceActivity, type RateSource } from '../src/services/rateEngine.js';
+import { buildInvoiceLines, type InvoiceActivity, type ServiceInfo } from '../src/services/invoiceService.js';
+
+const UPS_TRACKING = '1Z999AA10123456784';
+const USPS_TRACKING = '9400111899223334445566';
+
+function charge(overrides: Partial<CarrierCharge>): CarrierCharge {
+  return {
+    filename: 'ups.csv',
+    row: 1,
+    carrier: 'UPS',
+    trackingNumber: UPS_TRACKING,
+    referenceId: null,
+    chargeDate: '2026-05-04',
+    invoiceNumber: 'INV-1',
+    service: 'Ground',
+    zone: null,
+    weight: null,
+    cost: 10,
+    ...overrides,
+  };
+}
+
+const shippingCard: RateSource = {
+  id: 'rate_shipping',
+  name: 'Shipping Rates',
+  version: 1,
+  rateCardType: 'standard',
+  effectiveDate: new Date('2026-01-01T00:00:00Z'),
+  expiresDate: null,
+  rates: {
+    services: [
+      { serviceType: 'Shipping_CarrierCostMarkup', description: 'Markup', unit: 'percentage', baseRate: 15 },
+      { serviceType: 'Shipping_LabelFee', description: 'Label fee', unit: 'per label', baseRate: 0.25 },
+      {
+        serviceType: 'Shipping_Parcel',
+        description: 'Parcel',
+        unit: 'per package',
+        zones: [
+          { zone: '5', tiers: [{ minVolume: 0, maxVolume: null, rate: 9.5 }] },
+        ],
+      },
+    ],
+  },
+};
+
+const shipDate = new Date('2026-05-04T00:00:00Z');
+
+describe('Carrier cost files', () => {
+  test('parses UPS billing data with punctuated headers', async () => {
+    const csv = [
+      'Invoice Number,Invoice Date,Tracking Number,Shipment Reference Number 1,Charge Description,Zone,Billed Weight,Net Amount',
+      `INV-1,2026-05-09,${UPS_TRACKING},ORD-1001,Ground,5,3,"$1,012.40"`,
+      `INV-1,2026-05-09,${UPS_TRACKING},ORD-1001,Fuel Surcharge,5,3,(1.10)`,
+    ].join('\n');
+
+    const records = await carrierCosts.parse(Buffer.from(csv), 'ups.csv');
+
+    assert.strictEqual(carrierCosts.validate(records).valid, true);
+    assert.strictEqual(records[0].carrier, 'UPS');
+    assert.strictEqual(records[0].tracking_number, UPS_TRACKING);
+    assert.strictEqual(records[0].reference_id, 'ORD-1001');
+    assert.strictEqual(records[0].charge_date, '2026-05-09');
+    assert.strictEqual(records[0].zone, '5');
+    assert.strictEqual(records[0].cost, 1012.4);
+    assert.strictEqual(records[1].cost, -1.1);
+    assert.deepStrictEqual(records[1].metadata, { 'Charge Description': 'Fuel Surcharge' });
+  });
+
+  test('parses USPS postage reports and converts ounces to pounds', async () => {
+    const csv = [
+      'Date Printed,Tracking #,Mail Class,Zone,Weight (oz),Postage,Reference',
+      `2026-05-04,${USPS_TRACKING},Ground Advantage,4,8,5.35,ORD-2001`,
+    ].join('\n');
+
+    const [record] = await carrierCosts.parse(Buffer.from(csv), 'usps.csv');
+
+    assert.strictEqual(record.carrier, 'USPS');
+    assert.strictEqual(record.service, 'Ground Advantage');
+    assert.strictEqual(record.weight, 0.5);
+    assert.strictEqual(record.cost, 5.35);
+    assert.strictEqual(toCarrierCharge(record, 1, 'usps.csv').referenceId, 'ORD-2001');
+  });
+
+  test('rejects rows without a cost or any identifier', async () => {
+    const csv = ['Tracking Number,Net Amount', ',4.00', `${UPS_TRACKING},n/a`].join('\n');
+    const records = await carrierCosts.parse(Buffer.from(csv), 'ups.csv');
+    const result = carrierCosts.validate(records);
+
+    assert.strictEqual(result.valid, false);
+    assert.deepStrictEqual(result.errors.map(e => [e.row, e.field]), [[1, 'tracking_number'], [2, 'cost']]);
+  });
+
+  test('detects carriers from tracking numbers and parses money', () => {
+    assert.strictEqual(detectCarrier(UPS_TRACKING), 'UPS');
+    assert.strictEqual(detectCarrier(USPS_TRACKING), 'USPS');
+    assert.strictEqual(detectCarrier('EA123456789US'), 'USPS');
+    assert.strictEqual(detectCarrier('123'), null);
+    assert.strictEqual(parseMoney('$2.50'), 2.5);
+    assert.strictEqual(parseMoney('(2.50)'), -2.5);
+    assert.ok(Number.isNaN(parseMoney('abc')));
+  });
+});
+
+describe('Charge matching', () => {
+  test('sums charge rows of a tracking number into one shipment', () => {
+    const shipments = groupChargesByShipment([
+      charge({ cost: 8.2 }),
+      charge({ row: 2, cost: 1.1, zone: '5' }),
+      charge({ row: 3, trackingNumber: null, referenceId: 'ORD-9', cost: 4 }),
+    ]);
+
+    assert.strictEqual(shipments.length, 2);
+    assert.strictEqual(shipments[0].cost, 9.3);
+    assert.strictEqual(shipments[0].zone, '5');
+    assert.strictEqual(shipments[1].key, 'ref:ORD-9');
+  });
+
+  test('matches by tracking number, then by reference, and flags ambiguity', () => {
+    const shipments = groupChargesByShipment([
+      charge({}),
+      charge({ trackingNumber: USPS_TRACKING, referenceId: 'ORD-2001', carrier: 'USPS' }),
+      charge({ trackingNumber: '1Z999AA10000000001', referenceId: 'ORD-DUP' }),
+      charge({ trackingNumber: '1Z999AA10000000002' }),
+    ]);
+
+    const match = matchShipments(shipments, [
+      { id: 'act_1', referenceId: 'ORD-1001', metadata: { trackingNumber: UPS_TRACKING.toLowerCase() } },
+      { id: 'act_2', referenceId: 'ORD-2001' },
+      { id: 'act_3', referenceId: 'ORD-DUP' },
+      { id: 'act_4', referenceId: 'ord-dup' },
+    ]);
+
+    assert.deepStrictEqual([...match.matched.keys()], ['act_1', 'act_2']);
+    assert.deepStrictEqual(match.unmatched.map(u => u.reason), ['ambiguous', 'no_activity']);
+    assert.deepStrictEqual(match.unmatched[0].candidates, ['act_3', 'act_4']);
+  });
+
+  test('re-importing an invoice replaces its charges, other invoices add up', () => {
+    const [first] = groupChargesByShipment([charge({ cost: 10 })]);
+    const [adjustment] = groupChargesByShipment([charge({ invoiceNumber: 'INV-2', cost: 2.5 })]);
+
+    const initial = mergeCarrierCost(undefined, [first], '2026-05-10T00:00:00.000Z');
+    const reimported = mergeCarrierCost(initial, [first], '2026-05-11T00:00:00.000Z');
+    const adjusted = mergeCarrierCost(reimported, [adjustment], '2026-05-18T00:00:00.000Z');
+
+    assert.strictEqual(reimported.cost, 10);
+    assert.strictEqual(adjusted.cost, 12.5);
+    assert.strictEqual(adjusted.labels, 1);
+    assert.deepStrictEqual(adjusted.trackingNumbers, [UPS_TRACKING]);
+  });
+});
+
+describe('Cost-plus shipping pricing', () => {
+  test('bills cost × (1 + markup) + label fee', () => {
+    const decision = priceActivity(
+      { activityDate: shipDate, type: 'Shipping_Parcel', quantity: 1, metadata: { carrierCost: { cost: 10, labels: 1 } } },
+      [shippingCard]
+    );
+
+    assert.strictEqual(decision.priced, true);
+    assert.strictEqual(decision.amount, 11.75);
+    assert.strictEqual(decision.explanation.mechanism, 'carrierCost');
+    assert.deepStrictEqual(decision.explanation.carrierCost, { cost: 10, markupPercent: 15, labelFee: 0.25, labels: 1 });
+    assert.strictEqual(calculateCostPlus(10, 15, 0.25, 2), 12);
+  });
+
+  test('zone tier wins when the service prices by zone and a zone is known', () => {
+    const decision = priceActivity(
+      { activityDate: shipDate, type: 'Shipping_Parcel', quantity: 1, metadata: { zone: '5', carrierCost: { cost: 10, labels: 1 } } },
+      [shippingCard]
+    );
+
+    assert.strictEqual(decision.explanation.mechanism, 'zones');
+    assert.strictEqual(decision.amount, 9.5);
+  });
+
+  test('falls back to the flat shipping subtypes of older rate cards', () => {
+    const legacy: RateSource = {
+      ...shippingCard,
+      id: 'rate_legacy',
+      rates: { shipping: { markupPercent: 12, labelFee: 0.2 } },
+    };
+
+    assert.strictEqual(findShippingRate([legacy], 'Shipping_CarrierCostMarkup', 'markupPercent')?.rate, 12);
+
+    const decision = priceActivity(
+      { activityDate: shipDate, type: 'Shipping_Parcel', quantity: 1, metadata: { carrierCost: { cost: 5, labels: 1 } } },
+      [legacy]
+    );
+    assert.strictEqual(decision.amount, 5.8);
+  });
+
+  test('is unpriced without a markup or label fee', () => {
+    const decision = priceActivity(
+      { activityDate: shipDate, type: 'Shipping_Parcel', quantity: 1, metadata: { carrierCost: { cost: 5, labels: 1 } } },
+      [{ ...shippingCard, rates: { services: [] } }]
+    );
+
+    assert.strictEqual(decision.priced, false);
+    assert.match(decision.explanation.detail, /Shipping_CarrierCostMarkup/);
+  });
+
+  test('cost-plus shipments share one invoice line per service', () => {
+    const services = new Map<string, ServiceInfo>([
+      ['Shipping_Parcel', { name: 'Parcel Shipping', categoryCode: 'shipping', categorySortOrder: 4, sortOrder: 1 }],
+    ]);
+    const activities: InvoiceActivity[] = [
+      { id: 'act_1', type: 'Shipping_Parcel', quantity: 1, unit: 'package', rateApplied: 11.75, amount: 11.75, costPlus: true },
+      { id: 'act_2', type: 'Shipping_Parcel', quantity: 1, unit: 'package', rateApplied: 6.4, amount: 6.4, costPlus: true },
+    ];
+
+    const [line, ...rest] = buildInvoiceLines(activities, services);
+
+    assert.strictEqual(rest.length, 0);
+    assert.strictEqual(line.lineTotal, 18.15);
+    assert.strictEqual(line.description, 'Parcel Shipping (2 shipments at carrier cost + markup)');
+    assert.deepStrictEqual(line.activityIds, ['act_1', 'act_2']);
+  });
+});
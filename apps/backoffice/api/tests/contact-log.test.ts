@@ -0,0 +1,97 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert';
+import {
+  buildSystemEvents,
+  mergeTimeline,
+  toTimelineItem,
+  type SystemEventSources,
+} from '../src/services/contactLogService.js';
+import { clientTimelineSchema, createContactLogSchema } from '../src/validation/contactLogSchema.js';
+
+const sources: SystemEventSources = {
+  customer: { id: 'cust_1', retiredAt: null, retiredReason: null },
+  contracts: [
+    { id: 'contract_1', name: 'MSA', contractNumber: 'C-100', executionDate: new Date('2026-01-10') },
+    { id: 'contract_2', name: 'Draft renewal', contractNumber: null, executionDate: null },
+  ],
+  statusChanges: [{
+    id: 'cstatus_1',
+    contractId: 'contract_1',
+    fromStatus: 'draft',
+    toStatus: 'active',
+    trigger: 'scheduled',
+    reason: 'Start date reached',
+    changedAt: new Date('2026-02-01T00:05:00Z'),
+    changedByUser: null,
+  }],
+  rateCards: [
+    { id: 'rc_1', name: 'Acme 2026', version: 1, rateCardType: 'standard', effectiveDate: new Date('2026-02-01') },
+    { id: 'rc_2', name: 'Acme 2027', version: 2, rateCardType: 'standard', effectiveDate: new Date('2027-01-01') },
+  ],
+};
+
+const call = toTimelineItem({
+  id: 'log_1',
+  contactType: 'call',
+  subject: null,
+  notes: 'Discussed peak season volumes',
+  occurredAt: new Date('2026-03-05T15:00:00Z'),
+  contact: { id: 'contact_1', firstName: 'Dana', lastName: 'Lee' },
+  user: { id: 'user_1', name: 'Sam' },
+});
+
+describe('Contact log timeline', () => {
+  test('derives system events, skipping unsigned contracts and future rate cards', () => {
+    const events = buildSystemEvents(sources, new Date('2026-10-18'));
+
+    assert.deepStrictEqual(events.map(event => event.type), [
+      'contract_signed',
+      'contract_status_changed',
+      'rate_card_activated',
+    ]);
+    assert.strictEqual(events[0].title, 'Contract signed: MSA (#C-100)');
+    assert.strictEqual(events[1].title, 'MSA (#C-100): draft → active');
+    assert.deepStrictEqual(events[2].reference, { entity: 'rate_card', id: 'rc_1' });
+  });
+
+  test('adds termination as a customer event', () => {
+    const events = buildSystemEvents({
+      ...sources,
+      customer: { id: 'cust_1', retiredAt: new Date('2026-09-30'), retiredReason: 'Moved to in-house fulfillment' },
+    }, new Date('2026-10-18'));
+
+    const terminated = events.find(event => event.type === 'customer_terminated')!;
+    assert.strictEqual(terminated.description, 'Moved to in-house fulfillment');
+  });
+
+  test('titles untitled entries by type and names the contact', () => {
+    assert.strictEqual(call.title, 'Call');
+    assert.deepStrictEqual(call.contact, { id: 'contact_1', name: 'Dana Lee' });
+  });
+
+  test('merges newest first and filters by type, contact and date', () => {
+    const items = [call, ...buildSystemEvents(sources, new Date('2026-10-18'))];
+
+    assert.deepStrictEqual(
+      mergeTimeline(items, { limit: 10 }).map(item => item.id),
+      ['log_1', 'contract_status:cstatus_1', 'rate_card_activated:rc_1', 'contract_signed:contract_1']
+    );
+    assert.deepStrictEqual(
+      mergeTimeline(items, { types: ['call', 'contract_signed'], limit: 10 }).map(item => item.id),
+      ['log_1', 'contract_signed:contract_1']
+    );
+    assert.deepStrictEqual(mergeTimeline(items, { contactId: 'contact_1', limit: 10 }).map(item => item.id), ['log_1']);
+    assert.deepStrictEqual(
+      mergeTimeline(items, { from: new Date('2026-02-01'), to: new Date('2026-02-28'), limit: 10 }).map(item => item.id),
+      ['contract_status:cstatus_1', 'rate_card_activated:rc_1']
+    );
+    assert.strictEqual(mergeTimeline(items, { limit: 2 }).length, 2);
+  });
+
+  test('validates entries and parses comma separated type filters', () => {
+    assert.throws(() => createContactLogSchema.parse({ contact_type: 'call' }));
+    assert.throws(() => createContactLogSchema.parse({ contact_type: 'fax', subject: 'Hi' }));
+    assert.deepStrictEqual(clientTimelineSchema.parse({ type: 'call, contract_signed' }).type, ['call', 'contract_signed']);
+    assert.throws(() => clientTimelineSchema.parse({ type: 'call,unknown' }));
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert';
+import {
+  buildContractTimeline,
+  getNextAmendmentNumber,
+  planSupersession,
+  type TimelineContract,
+} from '../src/services/contractService.js';
+import { amendContractSchema, supersedeContractSchema } from '../src/validation/contractSchema.js';
+
+function contract(overrides: Partial<TimelineContract>): TimelineContract {
+  return {
+    id: 'contract_1',
+    name: 'MSA',
+    contractNumber: null,
+    contractType: 'original',
+    status: 'active',
+    startDate: new Date('2025-01-01'),
+    endDate: new Date('2025-12-31'),
+    executionDate: null,
+    amendmentNumber: null,
+    parentContractId: null,
+    supersededByContractId: null,
+    archivedAt: null,
+    ...overrides,
+  };
+}
+
+describe('Contract amendments', () => {
+  test('numbers amendments and addendums together per base contract', () => {
+    assert.strictEqual(getNextAmendmentNumber([]), 1);
+    assert.strictEqual(getNextAmendmentNumber([
+      { contractType: 'amendment', amendmentNumber: 1 },
+      { contractType: 'addendum', amendmentNumber: 3 },
+      { contractType: 'original', amendmentNumber: 9 },
+    ]), 4);
+  });
+
+  test('superseding from a past date expires the contract and activates the replacement', () => {
+    const plan = planSupersession(
+      { status: 'active', endDate: new Date('2026-12-31') },
+      new Date('2026-07-01'),
+      new Date('2026-10-18')
+    );
+
+    assert.strictEqual(plan.supersededStatus, 'expired');
+    assert.strictEqual(plan.replacementStatus, 'active');
+    assert.strictEqual(plan.supersededEndDate?.toISOString().slice(0, 10), '2026-06-30');
+  });
+
+  test('superseding from a future date keeps the contract active until then', () => {
+    const plan = planSupersession(
+      { status: 'active', endDate: new Date('2027-01-31') },
+      new Date('2027-02-01'),
+      new Date('2026-10-18')
+    );
+
+    assert.strictEqual(plan.supersededStatus, 'active');
+    assert.strictEqual(plan.replacementStatus, 'draft');
+    assert.strictEqual(plan.supersededEndDate, null);
+  });
+
+  test('a superseded draft is terminated', () => {
+    const plan = planSupersession({ status: 'draft', endDate: null }, new Date('2026-07-01'), new Date('2026-10-18'));
+
+    assert.strictEqual(plan.supersededStatus, 'terminated');
+    assert.strictEqual(plan.replacementStatus, 'draft');
+    assert.strictEqual(plan.supersededEndDate?.toISOString().slice(0, 10), '2026-06-30');
+  });
+
+  test('builds the timeline tree with amendments and successors', () => {
+    const timeline = buildContractTimeline([
+      contract({ id: 'c2', name: 'MSA 2026', startDate: new Date('2026-01-01'), supersededByContractId: null }),
+      contract({ id: 'c1', supersededByContractId: 'c2' }),
+      contract({ id: 'a2', contractType: 'addendum', parentContractId: 'c1', amendmentNumber: 2, startDate: new Date('2025-09-01') }),
+      contract({ id: 'a1', contractType: 'amendment', parentContractId: 'c1', amendmentNumber: 1, startDate: new Date('2025-06-01') }),
+      contract({ id: 'other', name: 'Storage addendum', startDate: new Date('2025-03-01') }),
+    ]);
+
+    assert.deepStrictEqual(timeline.map(node => node.id), ['c1', 'other']);
+    assert.deepStrictEqual(timeline[0].amendments.map(node => node.id), ['a1', 'a2']);
+    assert.strictEqual(timeline[0].successor?.id, 'c2');
+    assert.strictEqual(timeline[0].successor?.successor, null);
+  });
+
+  test('shows a drafted renewal as the successor of the contract it renews', () => {
+    const timeline = buildContractTimeline([
+      contract({ id: 'c1' }),
+      contract({ id: 'r1', contractType: 'renewal', status: 'draft', startDate: new Date('2026-01-01'), renewalOfContractId: 'c1' }),
+    ]);
+
+    assert.deepStrictEqual(timeline.map(node => node.id), ['c1']);
+    assert.strictEqual(timeline[0].supersededByContractId, null);
+    assert.strictEqual(timeline[0].successor?.id, 'r1');
+  });
+
+  test('keeps every contract reachable when supersession links form a cycle', () => {
+    const timeline = buildContractTimeline([
+      contract({ id: 'c1', supersededByContractId: 'c2' }),
+      contract({ id: 'c2', startDate: new Date('2026-01-01'), supersededByContractId: 'c1' }),
+    ]);
+
+    assert.strictEqual(timeline.length, 1);
+    assert.strictEqual(timeline[0].successor?.id, timeline[0].id === 'c1' ? 'c2' : 'c1');
+    assert.strictEqual(timeline[0].successor?.successor, null);
+  });
+
+  test('request bodies default to a draft amendment and moving rate cards', () => {
+    assert.deepStrictEqual(amendContractSchema.parse({}), { contract_type: 'amendment', status: 'draft' });
+    assert.strictEqual(supersedeContractSchema.parse({ name: 'MSA 2027', start_date: '2027-01-01' }).move_rate_cards, true);
+  });
+});
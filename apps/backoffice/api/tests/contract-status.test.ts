@@ -0,0 +1,97 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert';
+import {
+  ContractTransitionError,
+  getAllowedTransitions,
+  planScheduledTransitions,
+  validateContractTransition,
+  type ScheduledContract,
+} from '../src/services/contractService.js';
+
+const today = new Date('2026-10-18');
+
+function contract(overrides: Partial<ScheduledContract>): ScheduledContract {
+  return {
+    id: 'contract_1',
+    status: 'draft',
+    startDate: new Date('2026-10-01'),
+    endDate: new Date('2027-09-30'),
+    executionDate: new Date('2026-09-15'),
+    archivedAt: null,
+    autoRenew: false,
+    supersededBy: null,
+    ...overrides,
+  };
+}
+
+describe('Contract status transitions', () => {
+  test('terminal statuses allow no further transitions', () => {
+    assert.deepStrictEqual(getAllowedTransitions('draft'), ['active', 'terminated']);
+    assert.deepStrictEqual(getAllowedTransitions('active'), ['expired', 'terminated']);
+    assert.deepStrictEqual(getAllowedTransitions('terminated'), []);
+    assert.deepStrictEqual(getAllowedTransitions('unknown'), []);
+  });
+
+  test('rejects reactivating a terminated contract with a structured error', () => {
+    const error = validateContractTransition(contract({ status: 'terminated' }), 'active', today);
+
+    assert.ok(error instanceof ContractTransitionError);
+    assert.strictEqual(error.code, 'INVALID_TRANSITION');
+    assert.strictEqual(error.from, 'terminated');
+    assert.strictEqual(error.to, 'active');
+    assert.deepStrictEqual(error.allowed, []);
+    assert.strictEqual(error.message, 'Cannot move a terminated contract to active');
+  });
+
+  test('activation needs an executed contract that has started', () => {
+    assert.strictEqual(validateContractTransition(contract({}), 'active', today), null);
+    assert.strictEqual(validateContractTransition(contract({ executionDate: null }), 'active', today)?.code, 'NOT_EXECUTED');
+    assert.strictEqual(validateContractTransition(contract({ startDate: new Date('2026-11-01') }), 'active', today)?.code, 'NOT_STARTED');
+    assert.strictEqual(validateContractTransition(contract({ endDate: new Date('2026-10-17') }), 'active', today)?.code, 'ALREADY_ENDED');
+    assert.strictEqual(validateContractTransition(contract({ archivedAt: new Date() }), 'active', today)?.code, 'ARCHIVED');
+  });
+
+  test('only contracts past their end date expire', () => {
+    assert.strictEqual(validateContractTransition(contract({ status: 'active' }), 'expired', today)?.code, 'NOT_ENDED');
+    assert.strictEqual(
+      validateContractTransition(contract({ status: 'active', endDate: new Date('2026-10-17') }), 'expired', today),
+      null
+    );
+    assert.strictEqual(validateContractTransition(contract({ status: 'active' }), 'terminated', today), null);
+  });
+
+  test('plans activations, expiries and renewals for the daily job', () => {
+    const transitions = planScheduledTransitions([
+      contract({ id: 'starting' }),
+      contract({ id: 'unsigned', executionDate: null }),
+      contract({ id: 'future', startDate: new Date('2026-12-01') }),
+      contract({ id: 'ended', status: 'active', endDate: new Date('2026-10-17') }),
+      contract({ id: 'ends-today', status: 'active', endDate: new Date('2026-10-18') }),
+      contract({ id: 'evergreen', status: 'active', autoRenew: true, endDate: new Date('2026-10-17') }),
+      contract({
+        id: 'drafted',
+        status: 'active',
+        autoRenew: true,
+        endDate: new Date('2026-10-17'),
+        // Drafted renewals point back at the original until they are executed
+        renewals: [{ id: 'renewal', status: 'draft', contractType: 'renewal' }],
+      }),
+      contract({ id: 'renewal', executionDate: null, startDate: new Date('2026-10-18') }),
+      contract({
+        id: 'replaced',
+        status: 'active',
+        autoRenew: true,
+        endDate: new Date('2026-10-17'),
+        supersededBy: { id: 'replacement', status: 'active', contractType: 'original' },
+      }),
+    ], today);
+
+    assert.deepStrictEqual(transitions, [
+      { action: 'expire', contractId: 'ended' },
+      { action: 'renew', contractId: 'evergreen', renewalContractId: null },
+      { action: 'renew', contractId: 'drafted', renewalContractId: 'renewal' },
+      { action: 'expire', contractId: 'replaced' },
+      { action: 'activate', contractId: 'starting' },
+    ]);
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert';
+import {
+  CreditNoteService,
+  buildCreditNoteLines,
+  formatCreditNoteNumber,
+} from '../src/services/creditNoteService.js';
+import { deriveInvoiceStatus } from '../src/services/paymentService.js';
+
+const invoice = {
+  total: 350,
+  lines: [
+    { id: 'line_a', description: 'Pick & pack', lineTotal: 250 },
+    { id: 'line_b', description: 'Storage', lineTotal: 100 },
+  ],
+};
+
+describe('Credit Note Service', () => {
+  describe('formatCreditNoteNumber', () => {
+    test('uses its own CN sequence per customer and year', () => {
+      assert.strictEqual(formatCreditNoteNumber(2026, 'acme-co', 7), 'CN-2026-ACMECO-007');
+    });
+  });
+
+  describe('buildCreditNoteLines', () => {
+    test('defaults the description from the invoice line and totals the lines', () => {
+      const result = buildCreditNoteLines(
+        [
+          { invoiceLineId: 'line_a', quantity: 10, unitRate: 2.5 },
+          { description: 'Goodwill', quantity: 1, unitRate: 5 },
+        ],
+        invoice,
+        new Map()
+      );
+
+      assert.strictEqual(result.total, 30);
+      assert.strictEqual(result.lines[0].description, 'Credit: Pick & pack');
+      assert.strictEqual(result.lines[1].invoiceLineId, null);
+      assert.deepStrictEqual(result.lines.map(line => line.lineOrder), [1, 2]);
+    });
+
+    test('cannot credit more than remains on an invoice line', () => {
+      assert.throws(
+        () => buildCreditNoteLines([{ invoiceLineId: 'line_b', quantity: 1, unitRate: 60 }], invoice, new Map([['line_b', 50]])),
+        /only 50\.00 is creditable/
+      );
+    });
+
+    test('cannot credit more than remains on the invoice', () => {
+      assert.throws(
+        () => buildCreditNoteLines([{ description: 'Refund', quantity: 1, unitRate: 100 }], invoice, new Map([['', 300]])),
+        /only 50\.00 of the invoice is creditable/
+      );
+    });
+
+    test('rejects lines that are not whole cents or not on the invoice', () => {
+      assert.throws(
+        () => buildCreditNoteLines([{ description: 'Odd', quantity: 0.333, unitRate: 1 }], invoice, new Map()),
+        /whole cents/
+      );
+      assert.throws(
+        () => buildCreditNoteLines([{ invoiceLineId: 'line_x', quantity: 1, unitRate: 1 }], invoice, new Map()),
+        /is not on this invoice/
+      );
+    });
+  });
+
+  describe('workflow', () => {
+    const note = { id: 'cn_1', creditNoteNumber: 'CN-2026-ACME-001', invoiceId: 'inv_1', customerId: 'cust_1', total: 50, createdBy: 'user_ann' };
+
+    test('the creator cannot approve their own credit note', async () => {
+      let stored: any = { ...note, status: 'pending' };
+      const prisma: any = {
+        creditNote: {
+          findUnique: async () => ({ ...stored }),
+          updateMany: async ({ where, data }: any) => {
+            if (stored.status !== where.status) return { count: 0 };
+            stored = { ...stored, ...data };
+            return { count: 1 };
+          },
+        },
+      };
+      const service = new CreditNoteService(prisma);
+
+      await assert.rejects(service.approveCreditNote('cn_1', 'user_ann'), /someone other than its creator/);
+      const approved = await service.approveCreditNote('cn_1', 'user_bob');
+      assert.strictEqual(approved?.status, 'approved');
+    });
+
+    test('a note approved by a concurrent request cannot also be rejected', async () => {
+      const prisma: any = {
+        creditNote: {
+          findUnique: async () => ({ ...note, status: 'pending' }),
+          // The other request approved it after this one read it
+          updateMany: async () => ({ count: 0 }),
+        },
+      };
+
+      await assert.rejects(
+        new CreditNoteService(prisma).rejectCreditNote('cn_1', 'Duplicate', 'user_bob'),
+        /no longer pending/
+      );
+    });
+
+    test('creating a note locks the invoice and retries a number taken concurrently', async () => {
+      const calls: string[] = [];
+      let attempts = 0;
+      const tx = {
+        $queryRaw: async (_sql: TemplateStringsArray, id: string) => { calls.push(`lock ${id}`); },
+        invoice: {
+          findUnique: async () => {
+            calls.push('read invoice');
+            return {
+              id: 'inv_1', invoiceNumber: 'INV-2026-ACME-M001', customerId: 'cust_1', status: 'paid', total: 100,
+              customer: { id: 'cust_1', slug: 'acme' },
+              lines: [{ id: 'line_1', description: 'Storage', lineTotal: 100 }],
+            };
+          },
+        },
+        creditNoteLine: { findMany: async () => [{ invoiceLineId: 'line_1', lineTotal: 30 }] },
+        creditNote: {
+          findMany: async () => (attempts === 0 ? [] : [{ creditNoteNumber: 'CN-2026-ACME-001' }]),
+          create: async ({ data }: any) => {
+            if (attempts++ === 0) {
+              throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+            }
+            return data;
+          },
+        },
+      };
+      const prisma: any = { $transaction: (fn: (tx: any) => Promise<unknown>) => fn(tx) };
+
+      const created: any = await new CreditNoteService(prisma).createCreditNote({
+        invoiceId: 'inv_1', reasonCode: 'pricing_correction', reason: 'Overcharged',
+        lines: [{ invoiceLineId: 'line_1', quantity: 1, unitRate: 70 }],
+      } as any, 'user_ann');
+
+      assert.deepStrictEqual(calls.slice(0, 2), ['lock inv_1', 'read invoice']);
+      assert.strictEqual(created.creditNoteNumber, 'CN-2026-ACME-002');
+      assert.strictEqual(created.total, 70);
+    });
+
+    test('a note applied by a concurrent request is not applied again', async () => {
+      const prisma: any = {
+        creditNote: { findUnique: async () => ({ ...note, status: 'approved' }) },
+        $transaction: (fn: (tx: any) => Promise<unknown>) => fn({
+          $queryRaw: async () => [],
+          // The other request already moved it to applied
+          creditNote: { updateMany: async () => ({ count: 0 }) },
+        }),
+      };
+
+      await assert.rejects(
+        new CreditNoteService(prisma).applyCreditNote('cn_1', { target: 'invoice' } as any, 'user_bob'),
+        /no longer approved/
+      );
+    });
+  });
+
+  describe('deriveInvoiceStatus with credits', () => {
+    const issued = { total: 500, status: 'issued', dueDate: new Date('2026-07-15T00:00:00Z') };
+    const asOf = new Date('2026-06-30T00:00:00Z');
+
+    test('credited when credit notes alone clear the balance', () => {
+      assert.deepStrictEqual(deriveInvoiceStatus(issued, 0, asOf, 500), { balanceDue: 0, status: 'credited' });
+      assert.deepStrictEqual(deriveInvoiceStatus(issued, 200, asOf, 300), { balanceDue: 0, status: 'paid' });
+    });
+
+    test('partial when a credit note covers part of the balance', () => {
+      assert.deepStrictEqual(deriveInvoiceStatus(issued, 0, asOf, 125), { balanceDue: 375, status: 'partial' });
+    });
+  });
+});
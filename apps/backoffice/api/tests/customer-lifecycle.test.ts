@@ -0,0 +1,91 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert';
+import {
+  buildFinalBillChecklist,
+  getCancelBlocker,
+  getUnservedContracts,
+  isFinalInvoice,
+  planContractEndDates,
+  setFinalBillItem,
+  validateCustomerTransition,
+  type OffboardingContract,
+} from '../src/services/customerLifecycleService.js';
+
+const d = (value: string) => new Date(`${value}T00:00:00.000Z`);
+const effectiveDate = d('2026-12-01');
+
+const contract = (overrides: Partial<OffboardingContract>): OffboardingContract => ({
+  id: 'contract_1',
+  status: 'active',
+  startDate: d('2026-01-01'),
+  endDate: null,
+  autoRenew: false,
+  ...overrides,
+});
+
+describe('Customer lifecycle', () => {
+  test('follows the customer status transition table', () => {
+    assert.strictEqual(validateCustomerTransition('active', 'paused'), null);
+    assert.strictEqual(validateCustomerTransition('paused', 'active'), null);
+    assert.strictEqual(validateCustomerTransition('prospect', 'setup'), null);
+    assert.strictEqual(validateCustomerTransition('setup', 'paused'), 'Cannot move a setup customer to paused');
+    assert.strictEqual(validateCustomerTransition('terminated', 'active'), 'Cannot move a terminated customer to active');
+    assert.match(validateCustomerTransition('active', 'active')!, /already is/);
+  });
+
+  test('ends running contracts the day before the effective date and stops auto-renewal', () => {
+    const changes = planContractEndDates([
+      contract({ id: 'open_ended' }),
+      contract({ id: 'ends_later', endDate: d('2027-06-30'), autoRenew: true }),
+      contract({ id: 'ends_before', endDate: d('2026-10-31') }),
+      contract({ id: 'renews_before', endDate: d('2026-10-31'), autoRenew: true }),
+      contract({ id: 'starts_after', status: 'draft', startDate: d('2027-01-01') }),
+      contract({ id: 'expired', status: 'expired', endDate: d('2026-06-30') }),
+    ], effectiveDate);
+
+    assert.deepStrictEqual(changes, [
+      { contractId: 'open_ended', previousEndDate: null, previousAutoRenew: false, endDate: '2026-11-30' },
+      { contractId: 'ends_later', previousEndDate: '2027-06-30', previousAutoRenew: true, endDate: '2026-11-30' },
+      { contractId: 'renews_before', previousEndDate: '2026-10-31', previousAutoRenew: true, endDate: '2026-10-31' },
+    ]);
+  });
+
+  test('terminates contracts that start on or after the effective date', () => {
+    assert.deepStrictEqual(getUnservedContracts([
+      contract({ id: 'running' }),
+      contract({ id: 'renewal', status: 'draft', startDate: d('2026-12-01') }),
+      contract({ id: 'closed', status: 'terminated', startDate: d('2027-01-01') }),
+    ], effectiveDate), ['renewal']);
+  });
+
+  test('builds the final-bill checklist for the last day of service', () => {
+    const checklist = buildFinalBillChecklist(effectiveDate);
+
+    assert.strictEqual(checklist.length, 6);
+    assert.strictEqual(checklist[0].label, 'Invoice all billing activities through 2026-11-30');
+    assert.ok(checklist.every(item => !item.done));
+
+    const ticked = setFinalBillItem(checklist, 'storage_billed', true, 'user_1', new Date('2026-12-02T10:00:00Z'));
+    assert.deepStrictEqual(ticked[1], {
+      key: 'storage_billed',
+      label: 'Bill storage through 2026-11-30',
+      done: true,
+      doneAt: '2026-12-02T10:00:00.000Z',
+      doneBy: 'user_1',
+    });
+    assert.strictEqual(setFinalBillItem(ticked, 'storage_billed', false, 'user_1')[1].doneBy, null);
+  });
+
+  test('accepts only issued invoices covering the last day of service as final', () => {
+    assert.strictEqual(isFinalInvoice({ status: 'issued', periodEnd: d('2026-11-30') }, effectiveDate), true);
+    assert.strictEqual(isFinalInvoice({ status: 'paid', periodEnd: d('2026-12-31') }, effectiveDate), true);
+    assert.strictEqual(isFinalInvoice({ status: 'issued', periodEnd: d('2026-10-31') }, effectiveDate), false);
+    assert.strictEqual(isFinalInvoice({ status: 'draft', periodEnd: d('2026-11-30') }, effectiveDate), false);
+  });
+
+  test('allows cancelling only scheduled offboardings before the effective date', () => {
+    assert.strictEqual(getCancelBlocker({ status: 'scheduled', effectiveDate }, new Date('2026-11-30T23:00:00Z')), null);
+    assert.match(getCancelBlocker({ status: 'scheduled', effectiveDate }, new Date('2026-12-01T08:00:00Z'))!, /effective date/);
+    assert.match(getCancelBlocker({ status: 'terminated', effectiveDate }, new Date('2026-11-01'))!, /terminated/);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fitText, measureText, PdfDocument } from '../src/lib/pdf.js';
+import {
+  documentKeyFromUrl,
+  documentUrl,
+  LocalDocumentStore,
+  normalizeDocumentKey,
+} from '../src/services/documentStore.js';
+import {
+  buildInvoiceDocument,
+  formatAddress,
+  groupInvoiceLines,
+  renderInvoicePdf,
+  type PdfInvoiceLine,
+} from '../src/services/invoicePdfService.js';
+
+const categories = [
+  { code: 'fulfillment', name: 'Fulfillment Services', sortOrder: 1 },
+  { code: 'storage', name: 'Storage', sortOrder: 2 },
+];
+
+function line(description: string, category: string | null, lineTotal: number, lineOrder: number): PdfInvoiceLine {
+  return { description, category, quantity: 1, unit: 'each', unitRate: lineTotal, lineTotal, lineOrder };
+}
+
+describe('Invoice documents', () => {
+  describe('PdfDocument', () => {
+    test('writes a PDF with one page object per page and a valid xref offset', () => {
+      const pdf = new PdfDocument({ title: 'Test (1)' });
+      pdf.addPage();
+      pdf.text('Hello (world)', 50, 50);
+      pdf.addPage();
+      const output = pdf.toBuffer().toString('latin1');
+
+      assert.ok(output.startsWith('%PDF-1.4'));
+      assert.ok(output.includes('/Count 2'));
+      assert.ok(output.includes('(Hello \\(world\\)) Tj'));
+
+      const startxref = Number(output.match(/startxref\n(\d+)/)![1]);
+      assert.strictEqual(output.slice(startxref, startxref + 4), 'xref');
+    });
+
+    test('measures and truncates Helvetica text', () => {
+      assert.strictEqual(measureText('AAAA', 10), 26.68);
+      assert.strictEqual(fitText('Short', 100, 10), 'Short');
+      const fitted = fitText('A very long description that does not fit', 80, 10);
+      assert.ok(fitted.endsWith('...'));
+      assert.ok(measureText(fitted, 10) <= 80);
+    });
+  });
+
+  describe('groupInvoiceLines', () => {
+    test('orders sections by category sortOrder with minimum last and subtotals each', () => {
+      const sections = groupInvoiceLines(
+        [
+          line('Monthly minimum top-up', 'minimum', 50, 4),
+          line('Pallet storage', 'storage', 120, 3),
+          line('Pick & pack', 'fulfillment', 80.1, 2),
+          line('Base order fee', 'fulfillment', 20.2, 1),
+          line('Kitting', 'special_projects', 10, 5),
+        ],
+        categories
+      );
+
+      assert.deepStrictEqual(sections.map(s => s.name), ['Fulfillment Services', 'Storage', 'Special Projects', 'Minimum Charge']);
+      assert.deepStrictEqual(sections[0].lines.map(l => l.description), ['Base order fee', 'Pick & pack']);
+      assert.strictEqual(sections[0].subtotal, 100.3);
+    });
+  });
+
+  describe('buildInvoiceDocument', () => {
+    test('uses the frozen snapshot for customer, period and payment terms', () => {
+      const doc = buildInvoiceDocument(
+        {
+          invoiceNumber: 'INV-2026-ACME-M001',
+          status: 'issued',
+          billingCycle: 'monthly',
+          periodStart: new Date('2026-05-01T00:00:00Z'),
+          periodEnd: new Date('2026-05-31T00:00:00Z'),
+          issuedAt: new Date('2026-06-02T15:00:00Z'),
+          dueDate: new Date('2026-07-02T00:00:00Z'),
+          subtotal: '100.00',
+          tax: '0',
+          total: '100.00',
+          customer: { name: 'Acme Renamed', address: { street1: '1 Main St', city: 'Austin', state: 'TX', zip: '78701', country: 'US' } },
+          dataSnapshot: {
+            customer: { id: 'cust_1', name: 'Acme Co', slug: 'acme' },
+            period: { start: '2026-05-01', end: '2026-05-31' },
+            paymentTerms: { contractId: null, terms: null, days: 30 },
+          },
+          lines: [{ description: 'Pick & pack', category: 'fulfillment', quantity: '10', unit: 'order', unitRate: '10.00', lineTotal: '100.00', lineOrder: 1 }],
+        },
+        categories
+      );
+
+      assert.strictEqual(doc.customerName, 'Acme Co');
+      assert.deepStrictEqual(doc.customerAddress, ['1 Main St', 'Austin, TX 78701']);
+      assert.strictEqual(doc.paymentTerms, 'Net 30');
+      assert.strictEqual(doc.issuedAt, '2026-06-02');
+
+      const pdf = renderInvoicePdf(doc, { name: 'Handled', address: [], remitTo: null }).toString('latin1');
+      assert.ok(pdf.includes('(INV-2026-ACME-M001) Tj'));
+      assert.ok(pdf.includes('(Fulfillment Services) Tj'));
+    });
+
+    test('formatAddress ignores missing address data', () => {
+      assert.deepStrictEqual(formatAddress(null), []);
+    });
+  });
+
+  describe('document store', () => {
+    test('rejects keys that escape the store root', () => {
+      assert.throws(() => normalizeDocumentKey('../etc/passwd'), /Invalid document key/);
+      assert.throws(() => normalizeDocumentKey('/etc/passwd'), /Invalid document key/);
+      assert.strictEqual(normalizeDocumentKey('invoices//cust_1/a.pdf'), 'invoices/cust_1/a.pdf');
+    });
+
+    test('maps keys to app URLs and back', () => {
+      const url = documentUrl('contracts/cust_1/contract_1/1.pdf');
+      assert.strictEqual(url, '/api/documents/contracts/cust_1/contract_1/1.pdf');
+      assert.strictEqual(documentKeyFromUrl(url), 'contracts/cust_1/contract_1/1.pdf');
+      assert.strictEqual(documentKeyFromUrl('https://example.com/signed.pdf'), null);
+    });
+
+    test('local store round-trips files', async () => {
+      const root = await mkdtemp(join(tmpdir(), 'documents-'));
+      try {
+        const store = new LocalDocumentStore(root);
+        await store.put('invoices/cust_1/INV-1.pdf', Buffer.from('%PDF-1.4'));
+
+        assert.strictEqual(await store.exists('invoices/cust_1/INV-1.pdf'), true);
+        assert.strictEqual((await store.get('invoices/cust_1/INV-1.pdf'))?.toString(), '%PDF-1.4');
+        assert.strictEqual(await store.get('invoices/cust_1/missing.pdf'), null);
+
+        await store.remove('invoices/cust_1/INV-1.pdf');
+        assert.strictEqual(await store.exists('invoices/cust_1/INV-1.pdf'), false);
+      } finally {
+        await rm(root, { recursive: true, force: true });
+      }
+    });
+  });
+});
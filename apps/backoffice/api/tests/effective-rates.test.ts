@@ -0,0 +1,149 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert';
+import {
+  getCardServices,
+  resolveEffectiveRates,
+  type CatalogEntry,
+  type EffectiveRateSource,
+} from '../src/services/effectiveRatesService.js';
+
+function card(overrides: Partial<EffectiveRateSource>): EffectiveRateSource {
+  return {
+    id: 'rc_v1',
+    name: 'Acme 2026',
+    version: 1,
+    rateCardType: 'standard',
+    effectiveDate: new Date('2026-01-01'),
+    expiresDate: null,
+    rates: { services: [] },
+    minimumMonthlyCharge: null,
+    ...overrides,
+  };
+}
+
+const catalog = new Map<string, CatalogEntry>([
+  ['Fulfillment_BaseOrder', { code: 'Fulfillment_BaseOrder', name: 'Order Processing Fee', unit: 'per order', category: 'fulfillment', isActive: true }],
+  ['Storage_PalletMonthly', { code: 'Storage_PalletMonthly', name: 'Monthly Pallet Storage', unit: 'per pallet/month', category: 'storage', isActive: true }],
+  ['Shipping_LabelFee', { code: 'Shipping_LabelFee', name: 'Shipping Label Fee', unit: 'per label', category: 'shipping', isActive: true }],
+]);
+
+const standard = card({
+  rates: {
+    services: [
+      { serviceType: 'Fulfillment_BaseOrder', description: 'Order', unit: 'per order', baseRate: 3 },
+      { serviceType: 'Storage_PalletMonthly', description: 'Pallet', unit: 'per pallet', baseRate: 20 },
+    ],
+    surcharges: [
+      { type: 'FuelSurcharge', percentage: 8 },
+      { type: 'PeakSurcharge', amount: 0.5, appliesFrom: '2026-11-01', appliesTo: '2026-12-31' },
+    ],
+    minimums: { monthlyMinimum: 500 },
+  },
+  minimumMonthlyCharge: 750,
+});
+
+const adjustment = card({
+  id: 'rc_adj',
+  name: 'Holiday promo',
+  rateCardType: 'adjustment',
+  effectiveDate: new Date('2026-06-01'),
+  expiresDate: new Date('2026-09-01'),
+  rates: {
+    services: [{ serviceType: 'Fulfillment_BaseOrder', description: 'Order', unit: 'per order', baseRate: 2.5 }],
+    surcharges: [{ type: 'FuelSurcharge', percentage: 5 }],
+    minimums: { orderMinimum: 1 },
+  },
+});
+
+describe('Effective rates', () => {
+  test('maps legacy flat subtypes to billing service codes, services[] winning on the same card', () => {
+    const services = getCardServices({
+      fulfillment: { baseOrder: 2.75, pickPerLine: 0.2 },
+      shipping: { labelFee: 0.35 },
+      services: [{ serviceType: 'Fulfillment_BaseOrder', baseRate: 3 }],
+    });
+
+    assert.deepStrictEqual(services.get('Fulfillment_BaseOrder'), {
+      rate: { serviceType: 'Fulfillment_BaseOrder', baseRate: 3 },
+      field: 'rates.services[Fulfillment_BaseOrder]',
+    });
+    assert.deepStrictEqual(services.get('Fulfillment_PickPerLine')?.field, 'rates.fulfillment.pickPerLine');
+    assert.deepStrictEqual(services.get('Shipping_LabelFee')?.rate, { serviceType: 'Shipping_LabelFee', baseRate: 0.35 });
+  });
+
+  test('adjustments in effect override the standard card with provenance', () => {
+    const result = resolveEffectiveRates([standard, adjustment], new Date('2026-07-15'), catalog);
+
+    assert.deepStrictEqual(result.sources.map(source => source.id), ['rc_adj', 'rc_v1']);
+
+    const order = result.services.find(service => service.serviceType === 'Fulfillment_BaseOrder')!;
+    assert.strictEqual(order.rate.baseRate, 2.5);
+    assert.strictEqual(order.source.rateCardId, 'rc_adj');
+    assert.strictEqual(order.source.field, 'rates.services[Fulfillment_BaseOrder]');
+    assert.deepStrictEqual(order.overrides.map(source => source.rateCardId), ['rc_v1']);
+    assert.strictEqual(order.catalog?.category, 'fulfillment');
+
+    const pallet = result.services.find(service => service.serviceType === 'Storage_PalletMonthly')!;
+    assert.strictEqual(pallet.source.rateCardId, 'rc_v1');
+    assert.deepStrictEqual(pallet.overrides, []);
+
+    const fuel = result.surcharges.find(surcharge => surcharge.type === 'FuelSurcharge')!;
+    assert.strictEqual(fuel.surcharge.percentage, 5);
+    assert.strictEqual(fuel.source.rateCardId, 'rc_adj');
+
+    assert.deepStrictEqual(
+      result.minimums.map(minimum => [minimum.field, minimum.value, minimum.source.rateCardId]),
+      [['orderMinimum', 1, 'rc_adj'], ['monthlyMinimum', 500, 'rc_v1'], ['minimumMonthlyCharge', 750, 'rc_v1']]
+    );
+  });
+
+  test('only surcharges inside their window are in effect', () => {
+    const summer = resolveEffectiveRates([standard], new Date('2026-07-15'), catalog);
+    const peak = resolveEffectiveRates([standard], new Date('2026-11-20'), catalog);
+
+    assert.deepStrictEqual(summer.surcharges.map(surcharge => surcharge.type), ['FuelSurcharge']);
+    assert.deepStrictEqual(peak.surcharges.map(surcharge => surcharge.type), ['FuelSurcharge', 'PeakSurcharge']);
+  });
+
+  test('past dates resolve against the version in effect then', () => {
+    const v1 = { ...standard, expiresDate: new Date('2026-04-01') };
+    const v2 = card({
+      id: 'rc_v2',
+      version: 2,
+      effectiveDate: new Date('2026-04-01'),
+      rates: { services: [{ serviceType: 'Fulfillment_BaseOrder', description: 'Order', unit: 'per order', baseRate: 3.25 }] },
+    });
+
+    const march = resolveEffectiveRates([v1, v2], new Date('2026-03-15'), catalog);
+    const april = resolveEffectiveRates([v1, v2], new Date('2026-04-01'), catalog);
+
+    assert.strictEqual(march.services.find(service => service.serviceType === 'Fulfillment_BaseOrder')!.rate.baseRate, 3);
+    assert.strictEqual(april.services.find(service => service.serviceType === 'Fulfillment_BaseOrder')!.rate.baseRate, 3.25);
+    assert.deepStrictEqual(april.sources.map(source => source.id), ['rc_v2']);
+  });
+
+  test('fills legacy descriptions from the catalog and reports unknown codes', () => {
+    const legacy = card({
+      rates: {
+        shipping: { labelFee: 0.35 },
+        services: [{ serviceType: 'Vas_GiftWrap', description: 'Gift wrap', unit: 'per item', baseRate: 1 }],
+      },
+    });
+
+    const result = resolveEffectiveRates([legacy], new Date('2026-02-01'), catalog);
+    const label = result.services.find(service => service.serviceType === 'Shipping_LabelFee')!;
+
+    assert.strictEqual(label.rate.description, 'Shipping Label Fee');
+    assert.strictEqual(label.rate.unit, 'per label');
+    assert.strictEqual(label.source.field, 'rates.shipping.labelFee');
+    assert.deepStrictEqual(result.unknownServiceCodes, ['Vas_GiftWrap']);
+  });
+
+  test('returns nothing before the first card takes effect', () => {
+    const result = resolveEffectiveRates([standard], new Date('2025-12-31'), catalog);
+
+    assert.deepStrictEqual(result.sources, []);
+    assert.deepStrictEqual(result.services, []);
+    assert.deepStrictEqual(result.minimums, []);
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert';
+import {
+  buildInvoiceLines,
+  buildMinimumLine,
+  InvoiceService,
+  canTransitionInvoice,
+  findDriftedActivities,
+  formatInvoiceNumber,
+  isBilledActivity,
+  getPeriodEnd,
+  type ServiceInfo,
+} from '../src/services/invoiceService.js';
+
+const services = new Map<string, ServiceInfo>([
+  ['Receiving_StandardPallet', { name: 'Standard Pallet Receiving', categoryCode: 'receiving', categorySortOrder: 2, sortOrder: 1 }],
+  ['Fulfillment_BaseOrder', { name: 'Order Processing Fee', categoryCode: 'fulfillment', categorySortOrder: 1, sortOrder: 1 }],
+  ['Fulfillment_PickPerLine', { name: 'Pick Per Line', categoryCode: 'fulfillment', categorySortOrder: 1, sortOrder: 3 }],
+]);
+
+describe('Invoice Service', () => {
+  describe('getPeriodEnd', () => {
+    test('returns the last day of each cycle', () => {
+      const start = new Date('2026-02-01T00:00:00Z');
+
+      assert.strictEqual(getPeriodEnd(start, 'monthly').toISOString().slice(0, 10), '2026-02-28');
+      assert.strictEqual(getPeriodEnd(new Date('2026-02-23T00:00:00Z'), 'weekly').toISOString().slice(0, 10), '2026-03-01');
+      assert.strictEqual(getPeriodEnd(start, 'immediate').toISOString().slice(0, 10), '2026-02-01');
+    });
+  });
+
+  describe('formatInvoiceNumber', () => {
+    test('follows INV-YYYY-CUSTCODE-{I|W|M}NNN', () => {
+      assert.strictEqual(formatInvoiceNumber(2026, 'acme-corp', 'monthly', 1), 'INV-2026-ACMECORP-M001');
+      assert.strictEqual(formatInvoiceNumber(2026, 'acme', 'weekly', 12), 'INV-2026-ACME-W012');
+      assert.strictEqual(formatInvoiceNumber(2026, 'acme', 'immediate', 1000), 'INV-2026-ACME-I1000');
+    });
+  });
+
+  describe('buildInvoiceLines', () => {
+    test('aggregates by service and rate, ordered by category', () => {
+      const lines = buildInvoiceLines([
+        { id: 'a1', type: 'Receiving_StandardPallet', quantity: 2, unit: 'pallet', rateApplied: 12, amount: 24 },
+        { id: 'a2', type: 'Fulfillment_BaseOrder', quantity: 10, unit: 'order', rateApplied: 3.25, amount: 32.5 },
+        { id: 'a3', type: 'Fulfillment_BaseOrder', quantity: 5, unit: 'order', rateApplied: 3.25, amount: 16.25 },
+        { id: 'a4', type: 'Fulfillment_BaseOrder', quantity: 1, unit: 'order', rateApplied: 2.99, amount: 2.99 },
+      ], services);
+
+      assert.deepStrictEqual(lines.map(l => [l.serviceType, l.quantity, l.unitRate, l.lineTotal, l.lineOrder]), [
+        ['Fulfillment_BaseOrder', 1, 2.99, 2.99, 1],
+        ['Fulfillment_BaseOrder', 15, 3.25, 48.75, 2],
+        ['Receiving_StandardPallet', 2, 12, 24, 3],
+      ]);
+      assert.strictEqual(lines[1].activityId, null);
+      assert.deepStrictEqual(lines[1].activityIds, ['a2', 'a3']);
+      assert.strictEqual(lines[2].activityId, 'a1');
+      assert.strictEqual(lines[2].category, 'receiving');
+      assert.strictEqual(lines[2].description, 'Standard Pallet Receiving');
+    });
+
+    test('bills fractional quantities as one unit when quantity x rate is not exact', () => {
+      const [line] = buildInvoiceLines([
+        { id: 'a1', type: 'Fulfillment_PickPerLine', quantity: 2.333, unit: 'line', rateApplied: 0.35, amount: 0.82 },
+      ], services);
+
+      assert.strictEqual(line.quantity, 1);
+      assert.strictEqual(line.unitRate, 0.82);
+      assert.strictEqual(line.lineTotal, 0.82);
+      assert.match(line.description, /2\.333 line @ 0\.35/);
+    });
+
+    test('shows period tier pricing as one line per tier', () => {
+      const tiers = {
+        low: { minVolume: 0, maxVolume: 999, rate: 0.4 },
+        high: { minVolume: 1000, maxVolume: null, rate: 0.3 },
+      };
+      const lines = buildInvoiceLines([
+        {
+          id: 'a1', type: 'Fulfillment_PickPerLine', quantity: 600, unit: 'line', rateApplied: 0.4, amount: 240,
+          tierMode: 'graduated', periodVolume: 1200, tierSplit: [{ ...tiers.low, quantity: 600 }],
+        },
+        {
+          id: 'a2', type: 'Fulfillment_PickPerLine', quantity: 600, unit: 'line', rateApplied: 0.3, amount: 219.9,
+          tierMode: 'graduated', periodVolume: 1200, tierSplit: [{ ...tiers.low, quantity: 399 }, { ...tiers.high, quantity: 201 }],
+        },
+      ], services);
+
+      assert.deepStrictEqual(lines.map(l => [l.description, l.quantity, l.unitRate, l.lineTotal]), [
+        ['Pick Per Line - graduated tier 0-999', 999, 0.4, 399.6],
+        ['Pick Per Line - graduated tier 1000+', 201, 0.3, 60.3],
+      ]);
+      assert.deepStrictEqual(lines[1].activityIds, ['a2']);
+    });
+
+    test('names the reached tier for all-units pricing', () => {
+      const [line] = buildInvoiceLines([
+        {
+          id: 'a1', type: 'Fulfillment_PickPerLine', quantity: 1200, unit: 'line', rateApplied: 0.3, amount: 360,
+          tierMode: 'all_units', periodVolume: 1200,
+          tierSplit: [{ minVolume: 1000, maxVolume: null, quantity: 1200, rate: 0.3 }],
+        },
+      ], services);
+
+      assert.strictEqual(line.description, 'Pick Per Line - all units at tier 1000+ (period volume 1200)');
+      assert.strictEqual(line.lineTotal, 360);
+    });
+
+    test('falls back to the type prefix for unknown services', () => {
+      const [line] = buildInvoiceLines([
+        { id: 'a1', type: 'Vas_Kitting', quantity: 2, unit: null, rateApplied: 1.5, amount: 3 },
+      ], services);
+
+      assert.strictEqual(line.category, 'vas');
+      assert.strictEqual(line.description, 'Vas_Kitting');
+    });
+  });
+
+  describe('buildMinimumLine', () => {
+    test('tops up to the minimum after amounts already billed', () => {
+      const line = buildMinimumLine(500, 150, 200.5, 4);
+
+      assert.ok(line);
+      assert.strictEqual(line.lineTotal, 149.5);
+      assert.strictEqual(line.category, 'minimum');
+      assert.strictEqual(line.lineOrder, 4);
+    });
+
+    test('returns null when the minimum is met or not configured', () => {
+      assert.strictEqual(buildMinimumLine(500, 300, 200, 1), null);
+      assert.strictEqual(buildMinimumLine(null, 0, 0, 1), null);
+    });
+  });
+
+  describe('canTransitionInvoice', () => {
+    test('enforces draft → issued → paid/void', () => {
+      assert.strictEqual(canTransitionInvoice('draft', 'issued'), true);
+      assert.strictEqual(canTransitionInvoice('draft', 'paid'), false);
+      assert.strictEqual(canTransitionInvoice('issued', 'paid'), true);
+      assert.strictEqual(canTransitionInvoice('issued', 'void'), true);
+      assert.strictEqual(canTransitionInvoice('paid', 'void'), false);
+      assert.strictEqual(canTransitionInvoice('void', 'issued'), false);
+    });
+  });
+
+  describe('findDriftedActivities', () => {
+    const snapshot = [
+      { id: 'act_1', quantity: 10, rateApplied: 1.5, amount: 15 },
+      { id: 'act_2', quantity: 4, rateApplied: 2, amount: 8 },
+    ];
+
+    test('matching activities do not drift', () => {
+      assert.deepStrictEqual(findDriftedActivities(snapshot, [
+        { id: 'act_1', quantity: '10', rateApplied: '1.5', amount: '15.00' },
+        { id: 'act_2', quantity: 4, rateApplied: 2, amount: 8 },
+      ]), []);
+    });
+
+    test('repriced, detached and newly attached activities drift', () => {
+      assert.deepStrictEqual(findDriftedActivities(snapshot, [
+        { id: 'act_1', quantity: 10, rateApplied: 1.75, amount: 17.5 },
+        { id: 'act_3', quantity: 1, rateApplied: 5, amount: 5 },
+      ]), ['act_1', 'act_2', 'act_3']);
+    });
+  });
+
+  describe('issueInvoice', () => {
+    test('locks the invoice and refuses a draft whose activities were repriced', async () => {
+      const calls: string[] = [];
+      const invoice = {
+        id: 'inv_1', customerId: 'cust_1', invoiceNumber: 'INV-2026-ACME-M001', status: 'draft',
+        dataSnapshot: { activities: [{ id: 'act_1', quantity: 10, rateApplied: 1.5, amount: 15 }] },
+      };
+      const tx = {
+        $queryRaw: async (_sql: TemplateStringsArray, id: string) => { calls.push(`lock ${id}`); },
+        invoice: {
+          findUnique: async () => ({ status: 'draft' }),
+          update: async () => { calls.push('issue'); },
+        },
+        billingActivity: {
+          findMany: async () => [{ id: 'act_1', quantity: 10, rateApplied: 1.75, amount: 17.5 }],
+          updateMany: async () => { calls.push('mark invoiced'); },
+        },
+      };
+      const prisma: any = {
+        invoice: { findUnique: async () => ({ ...invoice }) },
+        contract: { findFirst: async () => null },
+        $transaction: (fn: (tx: any) => Promise<unknown>) => fn(tx),
+      };
+
+      await assert.rejects(
+        new InvoiceService(prisma).issueInvoice('inv_1', 'user_1'),
+        /1 activity has changed since the draft was generated/
+      );
+      assert.deepStrictEqual(calls, ['lock inv_1']);
+    });
+  });
+
+  describe('isBilledActivity', () => {
+    test('activities on a draft invoice are still open', () => {
+      assert.strictEqual(isBilledActivity({ invoice: null }), false);
+      assert.strictEqual(isBilledActivity({ invoice: { status: 'draft' } }), false);
+      assert.strictEqual(isBilledActivity({ invoice: { status: 'issued' } }), true);
+      assert.strictEqual(isBilledActivity({ invoice: { status: 'void' } }), true);
+    });
+  });
+});
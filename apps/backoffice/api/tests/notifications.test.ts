@@ -0,0 +1,435 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert';
+import net from 'node:net';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  NotificationService,
+  buildDedupeKey,
+  getFailedDeliveryUpdate,
+  getRetryDelayMs,
+  isCustomerSubscribed,
+  isStaffSubscribed,
+  readNotificationPreferences,
+  renderNotification,
+  renderTemplate,
+  resolveRecipients,
+} from '../src/services/notificationService.js';
+import {
+  OutboxTransport,
+  SmtpTransport,
+  dotStuff,
+  encodeHeader,
+  extractAddress,
+  formatEmailMessage,
+  type EmailMessage,
+  type NotificationTransport,
+} from '../src/services/notificationTransport.js';
+
+const now = new Date('2026-10-18T12:00:00.000Z');
+
+const staff = [
+  { id: 'user_ops', email: 'ops@handled.app', notificationPreferences: { contract_expiring: true } },
+  { id: 'user_runner', email: 'runner@handled.app', notificationPreferences: {} },
+  { id: 'user_muted', email: 'muted@handled.app', notificationPreferences: { import_failed: false } },
+];
+
+// ============================================
+// TEMPLATES
+// ============================================
+
+describe('Notification templates', () => {
+  test('placeholders are replaced and unknown ones render empty', () => {
+    assert.strictEqual(renderTemplate('Hi {{name}}{{missing}}!', { name: 'Acme' }), 'Hi Acme!');
+  });
+
+  test('invoice issued renders subject and body from the event variables', () => {
+    const rendered = renderNotification('invoice_issued', {
+      brandName: 'Handled',
+      customerName: 'Acme',
+      invoiceNumber: 'INV-2026-ACME-M010',
+      periodStart: '2026-09-01',
+      periodEnd: '2026-09-30',
+      total: '$1,250.00',
+      dueDate: '2026-11-17',
+    });
+
+    assert.strictEqual(rendered.subject, 'Invoice INV-2026-ACME-M010 from Handled');
+    assert.match(rendered.body, /Hello Acme,/);
+    assert.match(rendered.body, /Amount due: \$1,250\.00/);
+    assert.doesNotMatch(rendered.body, /\{\{/);
+  });
+});
+
+// ============================================
+// PREFERENCES
+// ============================================
+
+describe('Notification preferences', () => {
+  test('stored preferences ignore unknown keys and non-boolean values', () => {
+    assert.deepStrictEqual(
+      readNotificationPreferences({ invoice_issued: false, payment_received: 'yes', marketing: true }),
+      { invoice_issued: false }
+    );
+    assert.deepStrictEqual(readNotificationPreferences(null), {});
+    assert.deepStrictEqual(readNotificationPreferences(['invoice_issued']), {});
+  });
+
+  test('customers receive customer-facing events unless muted', () => {
+    assert.strictEqual(isCustomerSubscribed('invoice_issued', {}), true);
+    assert.strictEqual(isCustomerSubscribed('invoice_issued', { invoice_issued: false }), false);
+    assert.strictEqual(isCustomerSubscribed('payment_received', { invoice_issued: false }), true);
+  });
+
+  test('import failures never go to customers', () => {
+    assert.strictEqual(isCustomerSubscribed('import_failed', { import_failed: true }), false);
+  });
+
+  test('staff are opted out by default, except the actor of an import failure', () => {
+    assert.strictEqual(isStaffSubscribed('invoice_issued', {}, true), false);
+    assert.strictEqual(isStaffSubscribed('contract_expiring', { contract_expiring: true }, false), true);
+    assert.strictEqual(isStaffSubscribed('import_failed', {}, true), true);
+    assert.strictEqual(isStaffSubscribed('import_failed', {}, false), false);
+    assert.strictEqual(isStaffSubscribed('import_failed', { import_failed: false }, true), false);
+  });
+
+  test('recipients: customer address plus subscribed staff', () => {
+    const recipients = resolveRecipients(
+      { eventType: 'contract_expiring' },
+      { notificationEmail: 'ap@acme.com', notificationPreferences: {} },
+      staff
+    );
+
+    assert.deepStrictEqual(recipients, [
+      { audience: 'customer', email: 'ap@acme.com', userId: null },
+      { audience: 'staff', email: 'ops@handled.app', userId: 'user_ops' },
+    ]);
+  });
+
+  test('recipients: import failure goes to the runner only, not a muted actor', () => {
+    const toRunner = resolveRecipients({ eventType: 'import_failed', actorUserId: 'user_runner' }, null, staff);
+    assert.deepStrictEqual(toRunner.map(r => r.userId), ['user_runner']);
+
+    const toMuted = resolveRecipients({ eventType: 'import_failed', actorUserId: 'user_muted' }, null, staff);
+    assert.deepStrictEqual(toMuted, []);
+  });
+
+  test('recipients: no notification email or a muted event means no customer delivery', () => {
+    assert.deepStrictEqual(
+      resolveRecipients({ eventType: 'invoice_issued' }, { notificationEmail: null, notificationPreferences: {} }, []),
+      []
+    );
+    assert.deepStrictEqual(
+      resolveRecipients(
+        { eventType: 'invoice_issued' },
+        { notificationEmail: 'ap@acme.com', notificationPreferences: { invoice_issued: false } },
+        []
+      ),
+      []
+    );
+  });
+
+  test('recipients: one delivery per address (case-insensitive)', () => {
+    const recipients = resolveRecipients(
+      { eventType: 'contract_expiring' },
+      { notificationEmail: 'OPS@handled.app', notificationPreferences: {} },
+      staff
+    );
+    assert.strictEqual(recipients.length, 1);
+    assert.strictEqual(recipients[0].audience, 'customer');
+  });
+
+  test('dedupe key covers event, subject, variant and lowercased recipient', () => {
+    assert.strictEqual(
+      buildDedupeKey({ eventType: 'contract_expiring', subjectId: 'contract_1', variant: '30d' }, 'AP@Acme.com'),
+      'contract_expiring:contract_1:30d:ap@acme.com'
+    );
+    assert.strictEqual(
+      buildDedupeKey({ eventType: 'invoice_issued', subjectId: 'inv_1' }, 'ap@acme.com'),
+      'invoice_issued:inv_1:ap@acme.com'
+    );
+  });
+});
+
+// ============================================
+// RETRY POLICY
+// ============================================
+
+describe('Notification retries', () => {
+  test('backoff doubles from 5 minutes and is capped at 6 hours', () => {
+    assert.strictEqual(getRetryDelayMs(1), 5 * 60 * 1000);
+    assert.strictEqual(getRetryDelayMs(2), 10 * 60 * 1000);
+    assert.strictEqual(getRetryDelayMs(4), 40 * 60 * 1000);
+    assert.strictEqual(getRetryDelayMs(20), 6 * 60 * 60 * 1000);
+  });
+
+  test('failed attempts stay pending until the attempt limit', () => {
+    const retry = getFailedDeliveryUpdate(1, 'Connection refused', now);
+    assert.strictEqual(retry.status, 'pending');
+    assert.strictEqual(retry.nextAttemptAt?.toISOString(), '2026-10-18T12:05:00.000Z');
+
+    const final = getFailedDeliveryUpdate(MAX_DELIVERY_ATTEMPTS, 'Connection refused', now);
+    assert.strictEqual(final.status, 'failed');
+    assert.strictEqual(final.nextAttemptAt, null);
+    assert.strictEqual(final.lastError, 'Connection refused');
+  });
+});
+
+// ============================================
+// TRANSPORTS
+// ============================================
+
+describe('Notification transports', () => {
+  const message: EmailMessage = {
+    to: 'ap@acme.com',
+    subject: 'Invoice INV-1 from Handled',
+    text: 'Hello\n.hidden line\nBye',
+  };
+
+  test('message formatting: headers, CRLF body, encoded non-ASCII subjects', () => {
+    const formatted = formatEmailMessage(message, {
+      from: 'Handled <billing@handled.app>',
+      messageId: '<id@handled.app>',
+      date: now,
+    });
+
+    assert.match(formatted, /^From: Handled <billing@handled.app>\r\nTo: ap@acme.com\r\n/);
+    assert.match(formatted, /\r\nMessage-ID: <id@handled.app>\r\n/);
+    assert.ok(formatted.endsWith('\r\n\r\nHello\r\n.hidden line\r\nBye'));
+    assert.strictEqual(encodeHeader('Café'), `=?UTF-8?B?${Buffer.from('Café').toString('base64')}?=`);
+    assert.strictEqual(extractAddress('Handled <billing@handled.app>'), 'billing@handled.app');
+    assert.strictEqual(dotStuff('.a\r\nb\r\n.c'), '..a\r\nb\r\n..c');
+  });
+
+  test('outbox transport writes one .eml per message', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'handled-outbox-'));
+    try {
+      const transport = new OutboxTransport(dir, 'Handled <billing@handled.app>');
+      const { messageId } = await transport.send(message);
+
+      const files = await readdir(dir);
+      assert.strictEqual(files.length, 1);
+      assert.ok(files[0].endsWith('.eml'));
+
+      const contents = await readFile(join(dir, files[0]), 'utf8');
+      assert.ok(contents.includes(`Message-ID: ${messageId}`));
+      assert.ok(contents.includes('Subject: Invoice INV-1 from Handled'));
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  /**
+   * Minimal SMTP server: records the conversation and the DATA payload
+   */
+  async function fakeSmtpServer(options: { rejectRecipient?: boolean } = {}) {
+    const commands: string[] = [];
+    let data = '';
+
+    const server = net.createServer((socket) => {
+      let buffer = '';
+      let inData = false;
+      socket.write('220 fake.smtp ready\r\n');
+
+      socket.on('data', (chunk) => {
+        buffer += chunk.toString('utf8');
+
+        while (true) {
+          if (inData) {
+            const end = buffer.indexOf('\r\n.\r\n');
+            if (end === -1) return;
+            data = buffer.slice(0, end);
+            buffer = buffer.slice(end + 5);
+            inData = false;
+            socket.write('250 2.0.0 queued as ABC123\r\n');
+            continue;
+          }
+
+          const index = buffer.indexOf('\r\n');
+          if (index === -1) return;
+          const line = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+          commands.push(line);
+
+          if (line.startsWith('EHLO')) socket.write('250-fake.smtp\r\n250-AUTH PLAIN\r\n250 SIZE 1000000\r\n');
+          else if (line.startsWith('AUTH PLAIN')) socket.write('235 2.7.0 Authentication successful\r\n');
+          else if (line.startsWith('MAIL FROM')) socket.write('250 OK\r\n');
+          else if (line.startsWith('RCPT TO')) socket.write(options.rejectRecipient ? '550 5.1.1 No such user\r\n' : '250 OK\r\n');
+          else if (line === 'DATA') { inData = true; socket.write('354 End data with <CR><LF>.<CR><LF>\r\n'); }
+          else if (line === 'QUIT') { socket.end('221 Bye\r\n'); return; }
+          else socket.write('500 Unknown command\r\n');
+        }
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    const port = (server.address() as net.AddressInfo).port;
+
+    return {
+      port,
+      commands,
+      getData: () => data,
+      close: () => new Promise<void>(resolve => server.close(() => resolve())),
+    };
+  }
+
+  test('SMTP transport authenticates, sends the envelope and dot-stuffs the message', async () => {
+    const server = await fakeSmtpServer();
+    try {
+      const transport = new SmtpTransport({
+        host: '127.0.0.1',
+        port: server.port,
+        secure: false,
+        user: 'mailer',
+        password: 'secret',
+        from: 'Handled <billing@handled.app>',
+        timeoutMs: 5000,
+      });
+      const { messageId } = await transport.send(message);
+
+      assert.ok(server.commands[0].startsWith('EHLO '));
+      assert.strictEqual(server.commands[1], `AUTH PLAIN ${Buffer.from('\0mailer\0secret').toString('base64')}`);
+      assert.deepStrictEqual(server.commands.slice(2), [
+        'MAIL FROM:<billing@handled.app>',
+        'RCPT TO:<ap@acme.com>',
+        'DATA',
+        'QUIT',
+      ]);
+      assert.ok(server.getData().includes(`Message-ID: ${messageId}`));
+      assert.ok(server.getData().includes('\r\n..hidden line\r\n'));
+    } finally {
+      await server.close();
+    }
+  });
+
+  test('SMTP transport surfaces the server reply when a command is rejected', async () => {
+    const server = await fakeSmtpServer({ rejectRecipient: true });
+    try {
+      const transport = new SmtpTransport({
+        host: '127.0.0.1',
+        port: server.port,
+        secure: false,
+        from: 'billing@handled.app',
+        timeoutMs: 5000,
+      });
+
+      await assert.rejects(transport.send(message), /SMTP RCPT TO rejected: 550 5\.1\.1 No such user/);
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+// ============================================
+// PUBLISH & DELIVER
+// ============================================
+
+/**
+ * In-memory stand-in for the models publish() / deliver() touch
+ */
+function memoryPrisma() {
+  const deliveries: any[] = [];
+  let sequence = 0;
+
+  const matches = (row: any, where: any = {}) =>
+    (where.id === undefined || row.id === where.id) &&
+    (where.status === undefined || row.status === where.status) &&
+    (where.dedupeKey?.in === undefined || where.dedupeKey.in.includes(row.dedupeKey)) &&
+    (where.OR === undefined || row.nextAttemptAt === null || row.nextAttemptAt <= where.OR[1].nextAttemptAt.lte);
+
+  const prisma = {
+    customerSettings: {
+      findUnique: async () => ({ notificationEmail: 'ap@acme.com', notificationPreferences: {} }),
+    },
+    user: {
+      findMany: async () => staff,
+    },
+    notificationDelivery: {
+      findMany: async ({ where }: any) => deliveries.filter(row => matches(row, where)),
+      findUnique: async ({ where }: any) => deliveries.find(row => row.id === where.id) ?? null,
+      create: async ({ data }: any) => {
+        const row = { id: `notif_${++sequence}`, status: 'pending', attempts: 0, ...data };
+        deliveries.push(row);
+        return row;
+      },
+      update: async ({ where, data }: any) => {
+        const row = deliveries.find(r => r.id === where.id);
+        Object.assign(row, data);
+        return row;
+      },
+      updateMany: async ({ where, data }: any) => {
+        const rows = deliveries.filter(row => matches(row, where));
+        rows.forEach(row => Object.assign(row, data));
+        return { count: rows.length };
+      },
+    },
+  };
+
+  return { prisma: prisma as any, deliveries };
+}
+
+function recordingTransport(fail = false): NotificationTransport & { sent: EmailMessage[] } {
+  const sent: EmailMessage[] = [];
+  return {
+    name: 'memory',
+    sent,
+    async send(message) {
+      if (fail) throw new Error('Connection refused');
+      sent.push(message);
+      return { messageId: `<${sent.length}@test>` };
+    },
+  };
+}
+
+const expiringEvent = {
+  eventType: 'contract_expiring' as const,
+  customerId: 'cust_acme',
+  subjectType: 'contract' as const,
+  subjectId: 'contract_1',
+  variant: '30d',
+  variables: { customerName: 'Acme', contractName: 'MSA', endDate: '2026-11-17', daysUntil: '30', brandName: 'Handled' },
+};
+
+describe('NotificationService publish', () => {
+  test('logs and sends one delivery per recipient; re-publishing is a no-op', async () => {
+    const { prisma, deliveries } = memoryPrisma();
+    const transport = recordingTransport();
+    const service = new NotificationService(prisma, transport);
+
+    const first = await service.publish(expiringEvent);
+    assert.deepStrictEqual(first, { queued: 2, duplicates: 0, sent: 2, failed: 0 });
+    assert.deepStrictEqual(transport.sent.map(m => m.to), ['ap@acme.com', 'ops@handled.app']);
+    assert.ok(deliveries.every(row => row.status === 'sent' && row.attempts === 1 && row.transport === 'memory'));
+    assert.strictEqual(transport.sent[0].subject, 'Your contract MSA ends on 2026-11-17');
+
+    const second = await service.publish(expiringEvent);
+    assert.deepStrictEqual(second, { queued: 0, duplicates: 2, sent: 0, failed: 0 });
+    assert.strictEqual(transport.sent.length, 2);
+  });
+
+  test('a failed send stays pending with a backoff and is not sent twice while leased', async () => {
+    const { prisma, deliveries } = memoryPrisma();
+    const service = new NotificationService(prisma, recordingTransport(true));
+
+    const result = await service.publish({ ...expiringEvent, variant: '60d' });
+    assert.strictEqual(result.failed, 2);
+    assert.ok(deliveries.every(row => row.status === 'pending' && row.attempts === 1 && row.lastError === 'Connection refused'));
+    assert.ok(deliveries.every(row => row.nextAttemptAt > new Date()));
+
+    // Not due yet: deliver() leaves it alone
+    const untouched = await service.deliver(deliveries[0].id);
+    assert.ok(untouched);
+    assert.strictEqual(untouched.attempts, 1);
+  });
+
+  test('a sent delivery cannot be retried', async () => {
+    const { prisma, deliveries } = memoryPrisma();
+    const service = new NotificationService(prisma, recordingTransport());
+    await service.publish(expiringEvent);
+
+    await assert.rejects(service.retryDelivery(deliveries[0].id), /Cannot retry a notification that was already sent/);
+    await assert.rejects(service.retryDelivery('notif_missing'), /Notification not found/);
+  });
+});
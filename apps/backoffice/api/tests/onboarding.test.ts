@@ -0,0 +1,106 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert';
+import {
+  DEFAULT_REQUIRED_STEPS,
+  buildChecklist,
+  getNextOnboardingStatus,
+  parseRequiredSteps,
+  withStepState,
+  type OnboardingDetection,
+} from '../src/services/onboardingService.js';
+
+const nothingDone: OnboardingDetection = {
+  contract_signed: false,
+  rate_card_active: false,
+  warehouse_allocated: false,
+  facilities_added: false,
+  primary_contact: false,
+  portal_enabled: false,
+};
+
+const requiredDone: OnboardingDetection = {
+  ...nothingDone,
+  contract_signed: true,
+  rate_card_active: true,
+  warehouse_allocated: true,
+  primary_contact: true,
+};
+
+const customer = (status: string, setupProgress: unknown = {}) => ({ id: 'cust_1', status, setupProgress });
+
+describe('Onboarding checklist', () => {
+  test('parses required steps, falling back to the defaults', () => {
+    assert.deepStrictEqual(parseRequiredSteps(undefined), DEFAULT_REQUIRED_STEPS);
+    assert.deepStrictEqual(parseRequiredSteps('portal_enabled, contract_signed,bogus'), ['portal_enabled', 'contract_signed']);
+    assert.deepStrictEqual(parseRequiredSteps('bogus'), DEFAULT_REQUIRED_STEPS);
+  });
+
+  test('completes steps from detection or sign-off and flags overdue steps', () => {
+    const setupProgress = {
+      step: 3,
+      checklist: {
+        facilities_added: { signedOffAt: '2026-10-01T12:00:00.000Z', signedOffBy: 'user_1' },
+        portal_enabled: { dueDate: '2026-10-10', ownerUserId: 'user_2' },
+      },
+    };
+    const checklist = buildChecklist(
+      customer('setup', setupProgress),
+      { ...nothingDone, contract_signed: true },
+      DEFAULT_REQUIRED_STEPS,
+      '2026-10-18'
+    );
+    const step = (key: string) => checklist.steps.find(s => s.key === key)!;
+
+    assert.strictEqual(step('contract_signed').complete, true);
+    assert.strictEqual(step('facilities_added').complete, true);
+    assert.strictEqual(step('facilities_added').signedOff, true);
+    assert.strictEqual(step('portal_enabled').overdue, true);
+    assert.strictEqual(step('portal_enabled').ownerUserId, 'user_2');
+    assert.strictEqual(checklist.completedSteps, 2);
+    assert.strictEqual(checklist.requiredSteps, 4);
+    assert.strictEqual(checklist.requiredComplete, false);
+  });
+
+  test('per-customer required flags override the configured steps', () => {
+    const checklist = buildChecklist(
+      customer('setup', { checklist: { portal_enabled: { required: true }, rate_card_active: { required: false } } }),
+      { ...requiredDone, rate_card_active: false },
+      DEFAULT_REQUIRED_STEPS,
+      '2026-10-18'
+    );
+
+    assert.strictEqual(checklist.requiredSteps, 4);
+    assert.strictEqual(checklist.requiredComplete, false);
+  });
+
+  test('advances prospect → setup → active and never moves other statuses', () => {
+    const next = (status: string, detection: OnboardingDetection) =>
+      getNextOnboardingStatus(buildChecklist(customer(status), detection, DEFAULT_REQUIRED_STEPS, '2026-10-18'));
+
+    assert.strictEqual(next('prospect', nothingDone), 'prospect');
+    assert.strictEqual(next('prospect', { ...nothingDone, primary_contact: true }), 'setup');
+    assert.strictEqual(next('setup', { ...nothingDone, primary_contact: true }), 'setup');
+    assert.strictEqual(next('prospect', requiredDone), 'active');
+    assert.strictEqual(next('setup', requiredDone), 'active');
+    assert.strictEqual(next('paused', requiredDone), 'paused');
+    assert.strictEqual(next('active', nothingDone), 'active');
+  });
+
+  test('writes step state under setupProgress.checklist, keeping other keys', () => {
+    const updated = withStepState(
+      { completed: false, step: 3, checklist: { contract_signed: { notes: 'Sent for signature' } } },
+      'primary_contact',
+      { ownerUserId: 'user_1' }
+    );
+
+    assert.deepStrictEqual(updated, {
+      completed: false,
+      step: 3,
+      checklist: {
+        contract_signed: { notes: 'Sent for signature' },
+        primary_contact: { ownerUserId: 'user_1' },
+      },
+    });
+    assert.deepStrictEqual(withStepState(null, 'portal_enabled', {}), { checklist: { portal_enabled: {} } });
+  });
+});
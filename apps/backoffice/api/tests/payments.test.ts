@@ -0,0 +1,158 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert';
+import {
+  PaymentService,
+  buildAgingReport,
+  deriveInvoiceStatus,
+  getAgingBucket,
+  getDaysPastDue,
+  splitPayment,
+} from '../src/services/paymentService.js';
+import { calculateDueDate, parsePaymentTermsDays } from '../src/services/invoiceService.js';
+
+const asOf = new Date('2026-06-30T00:00:00Z');
+
+describe('Payment Service', () => {
+  describe('splitPayment', () => {
+    test('applies up to the balance and keeps the excess as credit', () => {
+      assert.deepStrictEqual(splitPayment(100, 250), { applied: 100, excess: 0 });
+      assert.deepStrictEqual(splitPayment(300.1, 250), { applied: 250, excess: 50.1 });
+    });
+  });
+
+  describe('deriveInvoiceStatus', () => {
+    const invoice = { total: 500, status: 'issued', dueDate: new Date('2026-07-15T00:00:00Z') };
+
+    test('paid when fully covered, partial when some is applied', () => {
+      assert.deepStrictEqual(deriveInvoiceStatus(invoice, 500, asOf), { balanceDue: 0, status: 'paid' });
+      assert.deepStrictEqual(deriveInvoiceStatus(invoice, 120.5, asOf), { balanceDue: 379.5, status: 'partial' });
+    });
+
+    test('overdue past the due date, back to issued when payments are reversed', () => {
+      const pastDue = { ...invoice, dueDate: new Date('2026-06-01T00:00:00Z') };
+
+      assert.strictEqual(deriveInvoiceStatus(pastDue, 100, asOf).status, 'overdue');
+      assert.deepStrictEqual(deriveInvoiceStatus({ ...invoice, status: 'paid' }, 0, asOf), { balanceDue: 500, status: 'issued' });
+    });
+  });
+
+  describe('aging', () => {
+    test('buckets days past due', () => {
+      assert.strictEqual(getDaysPastDue(null, asOf), 0);
+      assert.strictEqual(getDaysPastDue(new Date('2026-07-10T00:00:00Z'), asOf), 0);
+      assert.strictEqual(getDaysPastDue(new Date('2026-05-31T00:00:00Z'), asOf), 30);
+      assert.deepStrictEqual(
+        [0, 1, 30, 31, 60, 61, 90, 91].map(getAgingBucket),
+        ['current', 'days1to30', 'days1to30', 'days31to60', 'days31to60', 'days61to90', 'days61to90', 'days90plus']
+      );
+    });
+
+    test('groups balances by customer net of unapplied credit', () => {
+      const report = buildAgingReport(
+        [
+          { id: 'inv_1', invoiceNumber: 'INV-1', customerId: 'c1', customerName: 'Acme', dueDate: new Date('2026-07-01T00:00:00Z'), balanceDue: 100 },
+          { id: 'inv_2', invoiceNumber: 'INV-2', customerId: 'c1', customerName: 'Acme', dueDate: new Date('2026-03-01T00:00:00Z'), balanceDue: 250 },
+          { id: 'inv_3', invoiceNumber: 'INV-3', customerId: 'c2', customerName: 'Globex', dueDate: new Date('2026-05-15T00:00:00Z'), balanceDue: 75.25 },
+        ],
+        [{ customerId: 'c1', customerName: 'Acme', remaining: 20 }],
+        asOf
+      );
+
+      const acme = report.customers[0];
+      assert.strictEqual(acme.customerId, 'c1');
+      assert.strictEqual(acme.buckets.current, 100);
+      assert.strictEqual(acme.buckets.days90plus, 250);
+      assert.strictEqual(acme.netOutstanding, 330);
+      assert.strictEqual(acme.invoices[0].invoiceNumber, 'INV-2');
+      assert.strictEqual(report.totals.days31to60, 75.25);
+      assert.strictEqual(report.totals.totalOutstanding, 425.25);
+      assert.strictEqual(report.totals.netOutstanding, 405.25);
+    });
+  });
+
+  describe('recordPayment', () => {
+    test('locks the invoice before reading its balance and keeps the excess as credit', async () => {
+      const calls: string[] = [];
+      const invoice = { id: 'inv_1', customerId: 'cust_1', invoiceNumber: 'INV-2026-ACME-M001', status: 'issued', total: 100, balanceDue: 40, dueDate: null };
+      let payment: any = null;
+
+      const tx = {
+        $queryRaw: async (_sql: TemplateStringsArray, id: string) => { calls.push(`lock ${id}`); },
+        invoice: {
+          findUnique: async () => { calls.push('read invoice'); return { ...invoice }; },
+          update: async ({ data }: any) => ({ ...invoice, ...data }),
+        },
+        payment: {
+          create: async ({ data }: any) => (payment = { id: 'pay_1', ...data }),
+          update: async ({ data }: any) => Object.assign(payment, data),
+          findUnique: async () => ({ ...payment }),
+          // 60 already applied by an earlier payment
+          aggregate: async () => ({ _sum: { amount: 60 + payment.amount } }),
+        },
+        creditNote: { aggregate: async () => ({ _sum: { appliedToInvoice: null } }) },
+        customerCredit: { create: async ({ data }: any) => data },
+      };
+      const prisma: any = { $transaction: (fn: (tx: any) => Promise<unknown>) => fn(tx) };
+
+      const result = await new PaymentService(prisma).recordPayment({
+        invoiceId: 'inv_1', amount: 100, paymentDate: asOf, method: 'ach', status: 'applied',
+      } as any);
+
+      assert.deepStrictEqual(calls.slice(0, 2), ['lock inv_1', 'read invoice']);
+      assert.ok(result.payment);
+      assert.ok(result.credit);
+      assert.strictEqual(result.payment.amount, 40);
+      assert.strictEqual(result.credit.amount, 60);
+      assert.strictEqual(result.invoice.status, 'paid');
+    });
+  });
+
+  describe('clearPayment', () => {
+    test('a payment clearing after its invoice was paid becomes unapplied credit', async () => {
+      const invoice = { id: 'inv_1', customerId: 'cust_1', invoiceNumber: 'INV-2026-ACME-M001', status: 'paid', total: 100, balanceDue: 0, dueDate: null };
+      let payment: any = { id: 'pay_2', invoiceId: 'inv_1', amount: 75, status: 'pending', method: 'check' };
+      let recalculated = false;
+
+      const tx = {
+        $queryRaw: async () => undefined,
+        invoice: {
+          findUnique: async () => ({ ...invoice }),
+          update: async () => { recalculated = true; },
+        },
+        payment: {
+          findUnique: async () => ({ ...payment }),
+          updateMany: async ({ data }: any) => { payment = { ...payment, ...data }; return { count: 1 }; },
+          update: async ({ data }: any) => (payment = { ...payment, ...data }),
+        },
+        customerCredit: { create: async ({ data }: any) => data },
+      };
+      const prisma: any = { $transaction: (fn: (tx: any) => Promise<unknown>) => fn(tx) };
+
+      const result = await new PaymentService(prisma).clearPayment('pay_2', 'user_1');
+
+      assert.ok(result.payment);
+      assert.ok(result.credit);
+      assert.strictEqual(result.payment.status, 'applied');
+      assert.strictEqual(result.payment.amount, 0);
+      assert.strictEqual(result.credit.amount, 75);
+      assert.strictEqual(result.credit.sourcePaymentId, 'pay_2');
+      assert.strictEqual(result.invoice.status, 'paid');
+      assert.strictEqual(recalculated, false);
+    });
+  });
+
+  describe('payment terms', () => {
+    test('parses contract payment terms', () => {
+      assert.strictEqual(parsePaymentTermsDays('Net 30'), 30);
+      assert.strictEqual(parsePaymentTermsDays('net15'), 15);
+      assert.strictEqual(parsePaymentTermsDays('Prepaid'), 0);
+      assert.strictEqual(parsePaymentTermsDays('2/10 Net 30'), null);
+      assert.strictEqual(parsePaymentTermsDays(null), null);
+    });
+
+    test('due date counts calendar days from the issue date', () => {
+      const due = calculateDueDate(new Date('2026-01-20T15:30:00Z'), 15);
+      assert.strictEqual(due.toISOString(), '2026-02-04T00:00:00.000Z');
+    });
+  });
+});
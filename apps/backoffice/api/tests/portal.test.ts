@@ -0,0 +1,172 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert';
+import { portalSessionCache, sessionCache } from '../src/db/session-cache.js';
+import {
+  PortalService,
+  buildOpenIssues,
+  getPortalInvoiceStatuses,
+  resolvePortalSubdomain,
+} from '../src/services/portalService.js';
+
+const d = (value: string) => new Date(`${value}T00:00:00.000Z`);
+const now = d('2026-10-18');
+
+const CUSTOMER_ID = 'cust_acme';
+const OTHER_CUSTOMER_ID = 'cust_globex';
+
+interface RecordedQuery {
+  model: string;
+  method: string;
+  args: any;
+}
+
+/**
+ * Prisma stand-in that records every query and answers from a tiny in-memory table
+ * of rows owned by either customer, honouring only the customerId / id filters
+ */
+function recordingPrisma() {
+  const queries: RecordedQuery[] = [];
+  const rows: Record<string, any[]> = {
+    customer: [{ id: CUSTOMER_ID, deleted: false }, { id: OTHER_CUSTOMER_ID, deleted: false }],
+    invoice: [
+      { id: 'inv_acme', customerId: CUSTOMER_ID },
+      { id: 'inv_globex', customerId: OTHER_CUSTOMER_ID },
+    ],
+  };
+  const matches = (row: any, where: any = {}) =>
+    (where.id === undefined || row.id === where.id) &&
+    (where.customerId === undefined || row.customerId === where.customerId);
+
+  const prisma = new Proxy({}, {
+    get: (_target, model: string) => new Proxy({}, {
+      get: (_modelTarget, method: string) => async (args: any) => {
+        queries.push({ model, method, args });
+        const table = (rows[model] ?? []).filter(row => matches(row, args?.where));
+        if (method === 'count') return table.length;
+        if (method === 'findMany') return table;
+        return table[0] ?? null;
+      },
+    }),
+  });
+
+  return { prisma: prisma as any, queries };
+}
+
+/**
+ * Customer a query is filtered by - directly, through its invoice, or by id on customer
+ */
+function scopedCustomerId(query: RecordedQuery): string | undefined {
+  const where = query.args?.where ?? {};
+  if (query.model === 'customer') return where.id;
+  if (query.model === 'payment') return where.invoice?.customerId;
+  return where.customerId;
+}
+
+describe('Customer portal', () => {
+  test('scopes every portal query to the session customer', async () => {
+    const { prisma, queries } = recordingPrisma();
+    const portal = new PortalService(prisma, CUSTOMER_ID);
+
+    await portal.getProfile();
+    await portal.listInvoices({ status: 'all', limit: 50 });
+    await portal.getInvoice('inv_acme');
+    await portal.listPayments({ limit: 50 });
+    await portal.getRateCard();
+    await portal.listContracts();
+    await portal.listAllocations();
+    await portal.listIssues(now);
+
+    // The billing service catalog is shared reference data, not customer data
+    const customerQueries = queries.filter(query => query.model !== 'billingService');
+
+    assert.ok(customerQueries.length >= 10);
+    for (const query of customerQueries) {
+      assert.strictEqual(scopedCustomerId(query), CUSTOMER_ID, `${query.model}.${query.method} is not scoped`);
+    }
+  });
+
+  test("treats another customer's records as not found", async () => {
+    const { prisma } = recordingPrisma();
+    const portal = new PortalService(prisma, CUSTOMER_ID);
+
+    assert.strictEqual((await portal.getInvoice('inv_acme')).id, 'inv_acme');
+    await assert.rejects(portal.getInvoice('inv_globex'), /Invoice not found/);
+
+    const { invoices } = await portal.listInvoices({ status: 'all', limit: 50 });
+    assert.deepStrictEqual(invoices.map((invoice: any) => invoice.id), ['inv_acme']);
+  });
+
+  test('never selects internal invoice and payment fields', async () => {
+    const { prisma, queries } = recordingPrisma();
+    const portal = new PortalService(prisma, CUSTOMER_ID);
+
+    await portal.getInvoice('inv_acme');
+    await portal.listPayments({ limit: 50 });
+
+    const invoiceSelect = queries.find(query => query.model === 'invoice')!.args.select;
+    assert.strictEqual(invoiceSelect.internalNotes, undefined);
+    assert.strictEqual(invoiceSelect.createdByUser, undefined);
+    assert.strictEqual(invoiceSelect.dataSnapshot, undefined);
+    assert.strictEqual(invoiceSelect.payments.select.notes, undefined);
+
+    const paymentSelect = queries.find(query => query.model === 'payment')!.args.select;
+    assert.strictEqual(paymentSelect.notes, undefined);
+    assert.strictEqual(paymentSelect.recordedByUser, undefined);
+  });
+
+  test('hides draft invoices', () => {
+    assert.ok(!getPortalInvoiceStatuses('all').includes('draft'));
+    assert.ok(getPortalInvoiceStatuses('all').includes('credited'));
+    assert.deepStrictEqual(getPortalInvoiceStatuses('paid'), ['paid']);
+    assert.deepStrictEqual(getPortalInvoiceStatuses('open'), ['issued', 'sent', 'partial', 'overdue']);
+  });
+
+  test('resolves the portal subdomain from the host', () => {
+    assert.strictEqual(resolvePortalSubdomain('acme.portal.handled.app', 'portal.handled.app'), 'acme');
+    assert.strictEqual(resolvePortalSubdomain('ACME.portal.handled.app:443', 'portal.handled.app'), 'acme');
+    assert.strictEqual(resolvePortalSubdomain('a.b.portal.handled.app', 'portal.handled.app'), null);
+    assert.strictEqual(resolvePortalSubdomain('portal.handled.app', 'portal.handled.app'), null);
+    assert.strictEqual(resolvePortalSubdomain('ops.handledcommerce.com', 'portal.handled.app'), null);
+    assert.strictEqual(resolvePortalSubdomain('acme.portal.handled.app', undefined), null);
+  });
+
+  test('lists overdue invoices, expiring contracts and a scheduled termination as open issues', () => {
+    const issues = buildOpenIssues({
+      invoices: [
+        { id: 'inv_overdue', invoiceNumber: 'INV-1', status: 'overdue', dueDate: d('2026-10-01'), balanceDue: 120 },
+        { id: 'inv_past_due', invoiceNumber: 'INV-2', status: 'sent', dueDate: d('2026-10-10'), balanceDue: 50 },
+        { id: 'inv_not_due', invoiceNumber: 'INV-3', status: 'sent', dueDate: d('2026-11-01'), balanceDue: 80 },
+      ],
+      contracts: [
+        { id: 'ending', name: 'MSA', status: 'active', endDate: d('2026-11-30'), autoRenew: false, supersededByContractId: null },
+        { id: 'renews', name: 'SOW', status: 'active', endDate: d('2026-11-30'), autoRenew: true, supersededByContractId: null },
+        { id: 'renewed', name: 'Old MSA', status: 'active', endDate: d('2026-11-30'), autoRenew: false, supersededByContractId: 'contract_new' },
+        { id: 'far', name: 'Lease', status: 'active', endDate: d('2027-06-30'), autoRenew: false, supersededByContractId: null },
+      ],
+      offboarding: { id: 'offb_1', effectiveDate: d('2026-12-01') },
+    }, now);
+
+    assert.deepStrictEqual(issues.map(issue => [issue.type, issue.reference.id]), [
+      ['invoice_overdue', 'inv_overdue'],
+      ['invoice_overdue', 'inv_past_due'],
+      ['contract_expiring', 'ending'],
+      ['termination_scheduled', 'offb_1'],
+    ]);
+    assert.strictEqual(issues[0].message, '120.00 is due since 2026-10-01');
+  });
+
+  after(() => {
+    sessionCache.stopCleanup();
+    portalSessionCache.stopCleanup();
+  });
+
+  test('portal sessions never resolve through the staff session cache', async () => {
+    const sessionId = 'session_shared_id';
+    await portalSessionCache.get(sessionId, async () => ({ user: { id: 'portal_user_1' } }));
+    const staff = await sessionCache.get(sessionId, async () => null);
+
+    assert.strictEqual(staff, null);
+    assert.deepStrictEqual(await portalSessionCache.get(sessionId, async () => null), { user: { id: 'portal_user_1' } });
+    portalSessionCache.invalidate(sessionId);
+  });
+});
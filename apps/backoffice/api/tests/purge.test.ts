@@ -0,0 +1,242 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert';
+import {
+  DEFAULT_RETENTION_DAYS,
+  MIN_RETENTION_DAYS,
+  PurgeService,
+  describePurge,
+  getPurgeBlocker,
+  getPurgeRetention,
+  getPurgeThreshold,
+  type EvidentaryChecker,
+} from '../src/services/purgeService.js';
+
+const now = new Date('2026-10-18T02:00:00.000Z');
+const d = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+// ============================================
+// PURE HELPERS
+// ============================================
+
+describe('Purge eligibility', () => {
+  test('retention defaults to 180 days with per-entity overrides and a 30 day floor', () => {
+    assert.strictEqual(getPurgeRetention({}).customer, DEFAULT_RETENTION_DAYS);
+
+    const retention = getPurgeRetention({
+      PURGE_RETENTION_DAYS: '365',
+      PURGE_RETENTION_DAYS_CONTACT: '90',
+      PURGE_RETENTION_DAYS_USER: '7',
+      PURGE_RETENTION_DAYS_WAREHOUSE: 'forever',
+    });
+    assert.deepStrictEqual(retention, {
+      customer: 365,
+      warehouse: 365,
+      contact: 90,
+      facility: 365,
+      user: MIN_RETENTION_DAYS,
+    });
+  });
+
+  test('only deleted, unretired records past the threshold are eligible', () => {
+    const threshold = getPurgeThreshold(180, now);
+    assert.strictEqual(threshold.toISOString(), '2026-04-21T02:00:00.000Z');
+
+    const record = { id: 'cust_1', deleted: true, deletedAt: d('2026-03-01'), retiredAt: null };
+    assert.strictEqual(getPurgeBlocker(record, threshold), null);
+    assert.strictEqual(getPurgeBlocker({ ...record, deleted: false }, threshold), 'Not marked deleted');
+    assert.strictEqual(getPurgeBlocker({ ...record, retiredAt: d('2026-02-01') }, threshold), 'Retired records are never purged');
+    assert.strictEqual(getPurgeBlocker({ ...record, deletedAt: d('2026-09-01') }, threshold), 'Still inside the retention period');
+    assert.strictEqual(getPurgeBlocker({ ...record, deletedAt: null }, threshold), 'No deletion date recorded');
+  });
+
+  test('purge details name the retention and the purged children', () => {
+    assert.strictEqual(
+      describePurge(180, d('2026-03-02'), { contacts: 2, facilities: 0, warehouseAllocations: 1 }),
+      'Hard deleted after 180 day retention (deleted 2026-03-02); children: contacts 2, warehouseAllocations 1'
+    );
+    assert.strictEqual(describePurge(90, d('2026-03-02'), {}), 'Hard deleted after 90 day retention (deleted 2026-03-02)');
+  });
+});
+
+// ============================================
+// SERVICE
+// ============================================
+
+/**
+ * In-memory tables with just the queries the purge service makes
+ */
+function memoryPrisma(tables: Record<string, Array<Record<string, any>>>) {
+  const auditLog: Array<Record<string, any>> = [];
+  const locks: string[] = [];
+
+  const matches = (row: Record<string, any>, where: Record<string, any> = {}) =>
+    Object.entries(where).every(([key, value]) =>
+      value && typeof value === 'object' && 'lt' in value ? row[key] < value.lt : row[key] === value
+    );
+
+  const model = (name: string) => {
+    tables[name] ??= [];
+    return {
+      findMany: async ({ where }: any) => tables[name].filter(row => matches(row, where)).map(row => ({ ...row })),
+      findUnique: async ({ where }: any) => {
+        const row = tables[name].find(r => matches(r, where));
+        return row ? { ...row } : null;
+      },
+      count: async ({ where }: any) => tables[name].filter(row => matches(row, where)).length,
+      deleteMany: async ({ where }: any) => {
+        const before = tables[name].length;
+        tables[name] = tables[name].filter(row => !matches(row, where));
+        return { count: before - tables[name].length };
+      },
+      delete: async ({ where }: any) => {
+        const row = tables[name].find(r => matches(r, where));
+        if (!row) throw new Error('Record to delete does not exist');
+        tables[name] = tables[name].filter(r => r !== row);
+        return row;
+      },
+    };
+  };
+
+  const prisma: any = new Proxy({}, {
+    get(_target, prop: string) {
+      if (prop === 'auditLog') return { create: async ({ data }: any) => auditLog.push(data) };
+      if (prop === '$queryRawUnsafe') return async (_sql: string, id: string) => { locks.push(id); return []; };
+      if (prop === '$transaction') return (fn: (tx: any) => Promise<unknown>) => fn(prisma);
+      return model(prop);
+    },
+  });
+
+  return { prisma, tables, auditLog, locks };
+}
+
+const noValue: EvidentaryChecker = async () => ({ hasValue: false, reason: 'No transactional footprint - safe to delete' });
+
+describe('Purge run', () => {
+  const seed = () => ({
+    customer: [
+      { id: 'cust_old', deleted: true, deletedAt: d('2026-01-10'), retiredAt: null },
+      { id: 'cust_recent', deleted: true, deletedAt: d('2026-09-01'), retiredAt: null },
+      { id: 'cust_retired', deleted: true, deletedAt: d('2026-01-10'), retiredAt: d('2026-01-05') },
+      { id: 'cust_live', deleted: false, deletedAt: null, retiredAt: null },
+    ],
+    contact: [
+      { id: 'ct_1', customerId: 'cust_old', deleted: true, deletedAt: d('2026-01-10') },
+      { id: 'ct_2', customerId: 'cust_old', deleted: false, deletedAt: null },
+      { id: 'ct_3', customerId: 'cust_live', deleted: true, deletedAt: d('2026-02-01') },
+    ],
+    customerFacility: [],
+    warehouseAllocation: [],
+  });
+
+  test('a dry run reports what would be purged and deletes nothing', async () => {
+    const { prisma, tables, auditLog } = memoryPrisma(seed());
+    const result = await new PurgeService(prisma, noValue).run({ dryRun: true, now });
+
+    assert.deepStrictEqual(result.purged.map(p => p.entityId), ['cust_old', 'ct_3']);
+    assert.deepStrictEqual(result.purged[0].childrenPurged, { contacts: 2, facilities: 0, warehouseAllocations: 0 });
+    assert.strictEqual(tables.customer.length, 4);
+    assert.strictEqual(auditLog.length, 0);
+  });
+
+  test('purges cascade to children and write a PURGE audit entry', async () => {
+    const { prisma, tables, auditLog } = memoryPrisma(seed());
+    const result = await new PurgeService(prisma, noValue).run({ dryRun: false, entityTypes: ['customer', 'contact'], now });
+
+    assert.deepStrictEqual(result.purged.map(p => p.entityId), ['cust_old', 'ct_3']);
+    assert.deepStrictEqual(tables.customer.map(c => c.id), ['cust_recent', 'cust_retired', 'cust_live']);
+    assert.deepStrictEqual(tables.contact, []);
+    assert.deepStrictEqual(auditLog.map(e => [e.action, e.entityType, e.entityId, e.parentId]), [
+      ['PURGE', 'customer', 'cust_old', null],
+      ['PURGE', 'contact', 'ct_3', 'cust_live'],
+    ]);
+    assert.match(auditLog[0].details, /children: contacts 2$/);
+  });
+
+  test('records that gained evidentiary value are skipped', async () => {
+    const { prisma, tables } = memoryPrisma(seed());
+    const checkValue: EvidentaryChecker = async (entity) =>
+      entity === 'customer'
+        ? { hasValue: true, reason: 'Has contracts (legal evidence)' }
+        : { hasValue: false, reason: 'No communication history' };
+
+    const result = await new PurgeService(prisma, checkValue).run({ dryRun: false, entityTypes: ['customer'], now });
+
+    assert.deepStrictEqual(result.purged, []);
+    assert.deepStrictEqual(result.skipped, [
+      { entityType: 'customer', entityId: 'cust_old', reason: 'Has evidentiary value: Has contracts (legal evidence)' },
+    ]);
+    assert.strictEqual(tables.customer.length, 4);
+  });
+
+  test('a customer with contracts or rate cards is never purged, even as test data', async () => {
+    const { prisma, tables } = memoryPrisma({
+      ...seed(),
+      contract: [{ id: 'con_1', customerId: 'cust_old' }],
+      rateCard: [],
+    });
+    // usage-detection reports test customers as having no value
+    const testData: EvidentaryChecker = async () => ({ hasValue: false, reason: 'Marked as test data' });
+
+    const result = await new PurgeService(prisma, testData).run({ dryRun: false, entityTypes: ['customer'], now });
+
+    assert.deepStrictEqual(result.purged, []);
+    assert.deepStrictEqual(result.skipped, [
+      { entityType: 'customer', entityId: 'cust_old', reason: 'Still has contracts (never purged)' },
+    ]);
+    assert.strictEqual(tables.contract.length, 1);
+    assert.strictEqual(tables.contact.length, 3);
+  });
+
+  test('evidentiary value is re-checked inside the purge transaction, after the row lock', async () => {
+    const { prisma, tables, auditLog, locks } = memoryPrisma(seed());
+    const checked: string[] = [];
+    // An invoice is created between the first check and the purge transaction
+    const checkValue: EvidentaryChecker = async (_entity, id) => {
+      checked.push(`${id} after ${locks.length} lock(s)`);
+      return checked.length === 1
+        ? { hasValue: false, reason: 'No transactional footprint - safe to delete' }
+        : { hasValue: true, reason: 'Has invoices or credits (financial evidence)' };
+    };
+
+    const result = await new PurgeService(prisma, checkValue).run({ dryRun: false, entityTypes: ['customer'], now });
+
+    assert.deepStrictEqual(checked, ['cust_old after 0 lock(s)', 'cust_old after 1 lock(s)']);
+    assert.deepStrictEqual(result.purged, []);
+    assert.deepStrictEqual(result.skipped, [
+      { entityType: 'customer', entityId: 'cust_old', reason: 'Has evidentiary value: Has invoices or credits (financial evidence)' },
+    ]);
+    assert.strictEqual(tables.customer.length, 4);
+    assert.strictEqual(tables.contact.length, 3);
+    assert.strictEqual(auditLog.length, 0);
+  });
+
+  test('a failed purge is reported and the run continues; the limit stops it', async () => {
+    const tables = seed();
+    const { prisma } = memoryPrisma(tables);
+    // Cascading the customer's contacts fails inside its transaction
+    const failing: any = new Proxy(prisma, {
+      get(target, prop: string) {
+        if (prop === '$transaction') {
+          return async (fn: (tx: any) => Promise<unknown>) => {
+            const tx = new Proxy(target, {
+              get(inner, model: string) {
+                if (model !== 'contact') return inner[model];
+                return { ...inner.contact, deleteMany: async () => { throw new Error('FK violation'); } };
+              },
+            });
+            return fn(tx);
+          };
+        }
+        return target[prop];
+      },
+    });
+
+    const result = await new PurgeService(failing, noValue).run({ dryRun: false, entityTypes: ['customer', 'contact'], now });
+    assert.deepStrictEqual(result.failed, [{ entityType: 'customer', entityId: 'cust_old', error: 'FK violation' }]);
+    assert.deepStrictEqual(result.purged.map(p => p.entityId), ['ct_1', 'ct_3']);
+
+    const limited = await new PurgeService(memoryPrisma(seed()).prisma, noValue).run({ dryRun: true, limit: 1, now });
+    assert.strictEqual(limited.purged.length, 1);
+    assert.strictEqual(limited.limitReached, true);
+  });
+});
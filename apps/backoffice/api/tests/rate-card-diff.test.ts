@@ -0,0 +1,159 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert';
+import {
+  diffRateCards,
+  diffTiers,
+  mergeAdjustments,
+  rateDelta,
+  type DiffableCard,
+} from '../src/services/rateCardDiffService.js';
+
+function card(overrides: Partial<DiffableCard>): DiffableCard {
+  return {
+    id: 'rate_v1',
+    name: 'Standard Rates',
+    version: 1,
+    rateCardType: 'standard',
+    effectiveDate: new Date('2026-01-01T00:00:00Z'),
+    expiresDate: null,
+    minimumMonthlyCharge: null,
+    rates: { services: [] },
+    ...overrides,
+  };
+}
+
+const v1 = card({
+  minimumMonthlyCharge: 500,
+  rates: {
+    services: [
+      { serviceType: 'Fulfillment_Order', description: 'Order', unit: 'per order', baseRate: 3 },
+      {
+        serviceType: 'Storage_Pallet',
+        description: 'Pallet',
+        unit: 'per pallet',
+        tiers: [
+          { minVolume: 0, maxVolume: 100, rate: 20 },
+          { minVolume: 101, maxVolume: null, rate: 18 },
+        ],
+      },
+      { serviceType: 'Receiving_Carton', description: 'Carton', unit: 'per carton', baseRate: 1.5 },
+    ],
+    surcharges: [{ type: 'FuelSurcharge', percentage: 8 }],
+  },
+});
+
+const v2 = card({
+  id: 'rate_v2',
+  version: 2,
+  minimumMonthlyCharge: 600,
+  rates: {
+    services: [
+      { serviceType: 'Fulfillment_Order', description: 'Order', unit: 'per order', baseRate: 3.3 },
+      {
+        serviceType: 'Storage_Pallet',
+        description: 'Pallet',
+        unit: 'per pallet',
+        tierMode: 'graduated',
+        tiers: [
+          { minVolume: 0, maxVolume: 100, rate: 20 },
+          { minVolume: 101, maxVolume: null, rate: 17 },
+        ],
+      },
+      { serviceType: 'Vas_Kitting', description: 'Kitting', unit: 'per kit', baseRate: 0.75 },
+    ],
+    surcharges: [
+      { type: 'FuelSurcharge', percentage: 9.5, conditions: { categories: ['shipping'] } },
+      { type: 'PeakSurcharge', amount: 0.5 },
+    ],
+  },
+});
+
+describe('Rate card diff', () => {
+  test('reports added, removed and changed services with deltas', () => {
+    const diff = diffRateCards(v1, v2);
+    const byType = Object.fromEntries(diff.services.map(s => [s.serviceType, s]));
+
+    assert.strictEqual(byType.Fulfillment_Order.status, 'changed');
+    assert.deepStrictEqual(byType.Fulfillment_Order.baseRate, { from: 3, to: 3.3, delta: 0.3, deltaPercent: 10 });
+    assert.strictEqual(byType.Receiving_Carton.status, 'removed');
+    assert.strictEqual(byType.Vas_Kitting.status, 'added');
+    assert.deepStrictEqual(byType.Storage_Pallet.fieldChanges, [{ field: 'tierMode', from: null, to: 'graduated' }]);
+    assert.deepStrictEqual(byType.Storage_Pallet.tiers.map(t => [t.range, t.from, t.to, t.deltaPercent]), [['101-∞', 18, 17, -5.56]]);
+  });
+
+  test('compares surcharges by type and minimums', () => {
+    const diff = diffRateCards(v1, v2);
+    const [fuel, peak] = diff.surcharges;
+
+    assert.strictEqual(fuel.status, 'changed');
+    assert.strictEqual(fuel.percentage?.delta, 1.5);
+    assert.deepStrictEqual(fuel.fieldChanges.map(c => c.field), ['conditions']);
+    assert.strictEqual(peak.status, 'added');
+    assert.deepStrictEqual(diff.minimums, [
+      { field: 'minimumMonthlyCharge', from: 500, to: 600, delta: 100, deltaPercent: 20, status: 'changed' },
+    ]);
+    assert.deepStrictEqual(diff.summary, { added: 2, removed: 1, changed: 3, unchanged: 0, increases: 3, decreases: 1 });
+  });
+
+  test('identical cards have no changes', () => {
+    const diff = diffRateCards(v1, { ...v1, id: 'rate_copy' });
+
+    assert.ok(diff.services.every(s => s.status === 'unchanged'));
+    assert.strictEqual(diff.summary.changed + diff.summary.added + diff.summary.removed, 0);
+  });
+
+  test('compares legacy flat subtypes and zone tiers', () => {
+    const diff = diffRateCards(
+      card({ rates: {
+        fulfillment: { baseOrder: 2.5 },
+        services: [{ serviceType: 'Shipping_Parcel', description: 'Parcel', unit: 'pkg', zones: [{ zone: '5', tiers: [{ minVolume: 0, maxVolume: null, rate: 9 }] }] }],
+      } }),
+      card({ rates: {
+        fulfillment: { baseOrder: 2.75 },
+        services: [{ serviceType: 'Shipping_Parcel', description: 'Parcel', unit: 'pkg', zones: [
+          { zone: '5', tiers: [{ minVolume: 0, maxVolume: null, rate: 9.9 }] },
+          { zone: '6', tiers: [{ minVolume: 0, maxVolume: null, rate: 11 }] },
+        ] }],
+      } })
+    );
+    const parcel = diff.services.find(s => s.serviceType === 'Shipping_Parcel')!;
+    const legacy = diff.services.find(s => s.serviceType === 'fulfillment.baseOrder')!;
+
+    assert.deepStrictEqual(parcel.zones.map(z => [z.zone, z.status]), [['5', 'changed'], ['6', 'added']]);
+    assert.strictEqual(legacy.status, 'changed');
+    assert.strictEqual(legacy.baseRate?.deltaPercent, 10);
+  });
+
+  test('merges adjustments with the most recent definition winning', () => {
+    const earlier = card({
+      id: 'adj_1',
+      rateCardType: 'adjustment',
+      effectiveDate: new Date('2026-03-01T00:00:00Z'),
+      rates: { services: [{ serviceType: 'Fulfillment_Order', description: 'Order', unit: 'per order', baseRate: 2.8 }] },
+    });
+    const later = card({
+      id: 'adj_2',
+      rateCardType: 'adjustment',
+      effectiveDate: new Date('2026-06-01T00:00:00Z'),
+      minimumMonthlyCharge: 400,
+      rates: {
+        services: [{ serviceType: 'Fulfillment_Order', description: 'Order', unit: 'per order', baseRate: 2.5 }],
+        surcharges: [{ type: 'FuelSurcharge', percentage: 0.01 }],
+      },
+    });
+
+    const merged = mergeAdjustments(v1, [later, earlier]);
+    const diff = diffRateCards(v1, merged);
+
+    assert.strictEqual(merged.name, 'Standard Rates + 2 adjustments');
+    assert.strictEqual(merged.minimumMonthlyCharge, 400);
+    assert.strictEqual(diff.services.find(s => s.serviceType === 'Fulfillment_Order')?.baseRate?.to, 2.5);
+    assert.strictEqual(diff.services.find(s => s.serviceType === 'Storage_Pallet')?.status, 'unchanged');
+    assert.strictEqual(diff.surcharges[0].percentage?.to, 0.01);
+  });
+
+  test('helpers handle missing rates', () => {
+    assert.deepStrictEqual(rateDelta(undefined, 4), { from: null, to: 4, delta: null, deltaPercent: null });
+    assert.deepStrictEqual(diffTiers(undefined, undefined), []);
+  });
+});
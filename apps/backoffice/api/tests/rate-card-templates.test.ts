@@ -0,0 +1,115 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert';
+import {
+  applyRateIncrease,
+  findUnknownServiceCodes,
+  roundToIncrement,
+} from '../src/services/rateCardTemplateService.js';
+import { bulkRateIncreaseSchema, createRateCardTemplateSchema } from '../src/validation/rateCardTemplateSchema.js';
+
+const rates = {
+  services: [
+    { serviceType: 'Fulfillment_Order', description: 'Order', unit: 'per order', baseRate: 3 },
+    {
+      serviceType: 'Storage_Pallet',
+      description: 'Pallet',
+      unit: 'per pallet',
+      tiers: [
+        { minVolume: 0, maxVolume: 100, rate: 20 },
+        { minVolume: 101, maxVolume: null, rate: 18 },
+      ],
+    },
+    {
+      serviceType: 'Shipping_Parcel',
+      description: 'Parcel',
+      unit: 'per package',
+      zones: [{ zone: '5', tiers: [{ minVolume: 0, maxVolume: null, rate: 9.5 }] }],
+    },
+    { serviceType: 'Vas_Kitting', description: 'Kitting', unit: 'per kit', items: [{ item: 'Gift box', unit: 'box', rate: 1.2 }] },
+    { serviceType: 'Shipping_CarrierCostMarkup', description: 'Markup', unit: 'percentage', baseRate: 15 },
+  ],
+  surcharges: [
+    { type: 'FuelSurcharge', percentage: 8 },
+    { type: 'PeakSurcharge', amount: 0.5 },
+  ],
+  minimums: { monthlyMinimum: 500 },
+};
+
+const options = {
+  percentage: 4.5,
+  rounding: { increment: 0.01, mode: 'nearest' as const },
+  excludeServices: [],
+  includeSurcharges: false,
+  includeMinimums: false,
+};
+
+describe('Rate card templates', () => {
+  test('rounds to increments in each mode', () => {
+    assert.strictEqual(roundToIncrement(3.135, { increment: 0.01, mode: 'nearest' }), 3.14);
+    assert.strictEqual(roundToIncrement(3.131, { increment: 0.05, mode: 'up' }), 3.15);
+    assert.strictEqual(roundToIncrement(4.05, { increment: 0.05, mode: 'up' }), 4.05);
+    assert.strictEqual(roundToIncrement(3.19, { increment: 0.1, mode: 'down' }), 3.1);
+  });
+
+  test('raises base, tier, zone and item rates but not percentage services', () => {
+    const result = applyRateIncrease(rates, 750, options);
+
+    assert.strictEqual(result.rates.services[0].baseRate, 3.14);
+    assert.deepStrictEqual(result.rates.services[1].tiers.map((t: any) => t.rate), [20.9, 18.81]);
+    assert.strictEqual(result.rates.services[2].zones[0].tiers[0].rate, 9.93);
+    assert.strictEqual(result.rates.services[3].items[0].rate, 1.25);
+    assert.strictEqual(result.rates.services[4].baseRate, 15);
+    assert.deepStrictEqual(result.excluded, ['Shipping_CarrierCostMarkup']);
+    assert.deepStrictEqual(result.changes.map(c => c.field), [
+      'baseRate', 'tier 0-100', 'tier 101-∞', 'zone 5 tier 0-∞', 'item Gift box',
+    ]);
+    // Surcharges and minimums untouched unless asked
+    assert.strictEqual(result.rates.surcharges[1].amount, 0.5);
+    assert.strictEqual(result.rates.minimums.monthlyMinimum, 500);
+    assert.strictEqual(result.minimumMonthlyCharge, 750);
+  });
+
+  test('honours exclusions and optionally raises fixed surcharges and minimums', () => {
+    const result = applyRateIncrease(rates, 750, {
+      ...options,
+      percentage: 10,
+      excludeServices: ['Storage_Pallet'],
+      includeSurcharges: true,
+      includeMinimums: true,
+    });
+
+    assert.strictEqual(result.rates.services[1].tiers[0].rate, 20);
+    assert.deepStrictEqual(result.excluded, ['Storage_Pallet', 'Shipping_CarrierCostMarkup']);
+    assert.strictEqual(result.rates.surcharges[0].percentage, 8);
+    assert.strictEqual(result.rates.surcharges[1].amount, 0.55);
+    assert.strictEqual(result.rates.minimums.monthlyMinimum, 550);
+    assert.strictEqual(result.minimumMonthlyCharge, 825);
+  });
+
+  test('does not record rates that round back to the same value', () => {
+    const result = applyRateIncrease(
+      { services: [{ serviceType: 'Receiving_Carton', description: 'Carton', unit: 'per carton', baseRate: 0.1 }] },
+      null,
+      { ...options, percentage: 1 }
+    );
+
+    assert.deepStrictEqual(result.changes, []);
+  });
+
+  test('flags service codes missing from the catalog', () => {
+    assert.deepStrictEqual(
+      findUnknownServiceCodes(rates, new Set(['Fulfillment_Order', 'Storage_Pallet', 'Shipping_Parcel', 'Vas_Kitting'])),
+      ['Shipping_CarrierCostMarkup']
+    );
+  });
+
+  test('validates template keys and increase options', () => {
+    assert.strictEqual(createRateCardTemplateSchema.safeParse({ templateKey: 'ecommerce-standard', name: 'E-commerce', rates }).success, true);
+    assert.strictEqual(createRateCardTemplateSchema.safeParse({ templateKey: 'E-commerce', name: 'E-commerce', rates }).success, false);
+
+    const parsed = bulkRateIncreaseSchema.parse({ percentage: 4.5, effectiveDate: '2027-01-01' });
+    assert.strictEqual(parsed.dryRun, true);
+    assert.deepStrictEqual(parsed.rounding, { increment: 0.01, mode: 'nearest' });
+    assert.strictEqual(bulkRateIncreaseSchema.safeParse({ percentage: 0, effectiveDate: '2027-01-01' }).success, false);
+  });
+});
@@ -0,0 +1,263 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert';
+import {
+  priceActivity,
+  priceActivityBatch,
+  selectRateSources,
+  splitTierVolume,
+  type BatchActivity,
+  type RateSource,
+} from '../src/services/rateEngine.js';
+
+const standardV1: RateSource = {
+  id: 'rate_v1',
+  name: 'Acme Rates',
+  version: 1,
+  rateCardType: 'standard',
+  effectiveDate: new Date('2026-01-01T00:00:00Z'),
+  expiresDate: new Date('2026-03-01T00:00:00Z'),
+  rates: {
+    services: [
+      { serviceType: 'Fulfillment_BaseOrder', description: 'Order', unit: 'per order', baseRate: 3.25 },
+      {
+        serviceType: 'Receiving_StandardPallet',
+        description: 'Pallet',
+        unit: 'per pallet',
+        baseRate: 12,
+        tiers: [
+          { minVolume: 0, maxVolume: 9, rate: 10 },
+          { minVolume: 10, maxVolume: null, rate: 8 },
+        ],
+      },
+      {
+        serviceType: 'Shipping_LabelFee',
+        description: 'Label',
+        unit: 'per label',
+        zones: [{ zone: '5', tiers: [{ minVolume: 0, maxVolume: null, rate: 0.75 }] }],
+      },
+      {
+        serviceType: 'Vas_Kitting',
+        description: 'Kitting',
+        unit: 'per kit',
+        items: [{ item: 'gift-box', unit: 'per kit', rate: 1.5 }],
+      },
+    ],
+  },
+};
+
+const standardV2: RateSource = {
+  ...standardV1,
+  id: 'rate_v2',
+  version: 2,
+  effectiveDate: new Date('2026-03-01T00:00:00Z'),
+  expiresDate: null,
+  rates: {
+    services: [
+      { serviceType: 'Fulfillment_BaseOrder', description: 'Order', unit: 'per order', baseRate: 3.5 },
+    ],
+  },
+};
+
+const adjustment: RateSource = {
+  id: 'rate_adj',
+  name: 'Acme Rates - Adjustment',
+  version: 1,
+  rateCardType: 'adjustment',
+  effectiveDate: new Date('2026-03-01T00:00:00Z'),
+  expiresDate: new Date('2026-04-01T00:00:00Z'),
+  rates: {
+    services: [
+      { serviceType: 'Fulfillment_BaseOrder', description: 'Promo', unit: 'per order', baseRate: 2.99 },
+    ],
+  },
+};
+
+const sources = [standardV1, standardV2, adjustment];
+
+describe('Rate Engine', () => {
+  describe('selectRateSources', () => {
+    test('superseded versions still cover their own period', () => {
+      const selected = selectRateSources(sources, new Date('2026-02-15T00:00:00Z'));
+      assert.deepStrictEqual(selected.map(s => s.id), ['rate_v1']);
+    });
+
+    test('expiresDate is exclusive and adjustments win ties', () => {
+      const selected = selectRateSources(sources, new Date('2026-03-01T00:00:00Z'));
+      assert.deepStrictEqual(selected.map(s => s.id), ['rate_adj', 'rate_v2']);
+    });
+  });
+
+  describe('priceActivity', () => {
+    test('applies base rate and records the winning card', () => {
+      const decision = priceActivity(
+        { activityDate: new Date('2026-01-10T00:00:00Z'), type: 'Fulfillment_BaseOrder', quantity: 3 },
+        sources
+      );
+
+      assert.strictEqual(decision.priced, true);
+      assert.strictEqual(decision.rateApplied, 3.25);
+      assert.strictEqual(decision.amount, 9.75);
+      assert.strictEqual(decision.rateCardId, 'rate_v1');
+      assert.strictEqual(decision.explanation.mechanism, 'baseRate');
+    });
+
+    test('adjustment overrides the standard card for the service it defines', () => {
+      const decision = priceActivity(
+        { activityDate: new Date('2026-03-15T00:00:00Z'), type: 'Fulfillment_BaseOrder', quantity: 10 },
+        sources
+      );
+
+      assert.strictEqual(decision.rateCardId, 'rate_adj');
+      assert.strictEqual(decision.amount, 29.9);
+      assert.deepStrictEqual(decision.explanation.sourcesConsidered.length, 2);
+    });
+
+    test('tiers take precedence over baseRate and match on quantity', () => {
+      const small = priceActivity(
+        { activityDate: new Date('2026-01-10T00:00:00Z'), type: 'Receiving_StandardPallet', quantity: 4 },
+        sources
+      );
+      const large = priceActivity(
+        { activityDate: new Date('2026-01-10T00:00:00Z'), type: 'Receiving_StandardPallet', quantity: 12 },
+        sources
+      );
+
+      assert.strictEqual(small.rateApplied, 10);
+      assert.strictEqual(large.rateApplied, 8);
+      assert.strictEqual(large.explanation.mechanism, 'tiers');
+    });
+
+    test('zones and items are selected from activity metadata', () => {
+      const zoned = priceActivity(
+        { activityDate: new Date('2026-01-10T00:00:00Z'), type: 'Shipping_LabelFee', quantity: 4, metadata: { zone: 5 } },
+        sources
+      );
+      const kit = priceActivity(
+        { activityDate: new Date('2026-01-10T00:00:00Z'), type: 'Vas_Kitting', quantity: 2, metadata: { item: 'gift-box' } },
+        sources
+      );
+
+      assert.strictEqual(zoned.amount, 3);
+      assert.strictEqual(zoned.explanation.mechanism, 'zones');
+      assert.strictEqual(kit.amount, 3);
+      assert.strictEqual(kit.explanation.mechanism, 'items');
+    });
+
+    test('zone-only service without a zone stays unpriced with a reason', () => {
+      const decision = priceActivity(
+        { activityDate: new Date('2026-01-10T00:00:00Z'), type: 'Shipping_LabelFee', quantity: 1 },
+        sources
+      );
+
+      assert.strictEqual(decision.priced, false);
+      assert.strictEqual(decision.amount, null);
+      assert.match(decision.explanation.detail, /requires a zone/);
+    });
+
+    test('unknown service and missing card are unpriced', () => {
+      const unknown = priceActivity(
+        { activityDate: new Date('2026-01-10T00:00:00Z'), type: 'Storage_PalletMonthly', quantity: 1 },
+        sources
+      );
+      const noCard = priceActivity(
+        { activityDate: new Date('2025-12-31T00:00:00Z'), type: 'Fulfillment_BaseOrder', quantity: 1 },
+        sources
+      );
+
+      assert.match(unknown.explanation.detail, /not defined/);
+      assert.match(noCard.explanation.detail, /No rate card in effect/);
+    });
+
+    test('pricing is deterministic for the same inputs', () => {
+      const at = new Date('2026-05-01T00:00:00Z');
+      const activity = { activityDate: new Date('2026-02-02T00:00:00Z'), type: 'Fulfillment_BaseOrder', quantity: 7 };
+
+      assert.deepStrictEqual(priceActivity(activity, sources, at), priceActivity(activity, sources, at));
+    });
+  });
+
+  describe('period volume tiers', () => {
+    const pickTiers = [
+      { minVolume: 0, maxVolume: 999, rate: 0.4 },
+      { minVolume: 1000, maxVolume: 4999, rate: 0.3 },
+      { minVolume: 5000, maxVolume: null, rate: 0.2 },
+    ];
+
+    const tieredCard = (tierMode: 'all_units' | 'graduated'): RateSource => ({
+      ...standardV2,
+      id: `rate_${tierMode}`,
+      rates: {
+        services: [
+          { serviceType: 'Fulfillment_PickPerLine', description: 'Pick', unit: 'per line', tiers: pickTiers, tierMode },
+        ],
+      },
+    });
+
+    const picks = (quantities: number[]): BatchActivity[] => quantities.map((quantity, index) => ({
+      id: `act_${index + 1}`,
+      activityDate: new Date(Date.UTC(2026, 3, index + 1)),
+      type: 'Fulfillment_PickPerLine',
+      quantity,
+      billingCycle: 'monthly',
+      billingPeriodStart: new Date('2026-04-01T00:00:00Z'),
+    }));
+
+    test('graduated splits units across tiers by position in the period', () => {
+      assert.deepStrictEqual(
+        splitTierVolume(pickTiers, 'graduated', { volumeBefore: 900, periodVolume: 1200, quantity: 300 }),
+        [
+          { minVolume: 0, maxVolume: 999, quantity: 99, rate: 0.4 },
+          { minVolume: 1000, maxVolume: 4999, quantity: 201, rate: 0.3 },
+        ]
+      );
+    });
+
+    test('all units are charged at the tier the period volume reaches', () => {
+      const decisions = priceActivityBatch(picks([600, 600]), [tieredCard('all_units')]);
+
+      assert.deepStrictEqual([...decisions.values()].map(d => [d.rateApplied, d.amount]), [[0.3, 180], [0.3, 180]]);
+      assert.strictEqual(decisions.get('act_1')!.explanation.periodVolume, 1200);
+      assert.strictEqual(decisions.get('act_1')!.explanation.tierMode, 'all_units');
+    });
+
+    test('graduated charges earlier activities at the lower tiers', () => {
+      const decisions = priceActivityBatch(picks([600, 600]), [tieredCard('graduated')]);
+
+      assert.strictEqual(decisions.get('act_1')!.amount, 240);
+      assert.strictEqual(decisions.get('act_2')!.amount, 219.9);
+      assert.deepStrictEqual(decisions.get('act_2')!.explanation.tierSplit!.map(split => split.quantity), [399, 201]);
+    });
+
+    test('volume-only activities count toward the period but are not priced', () => {
+      const [invoiced, open] = picks([4800, 400]);
+      const decisions = priceActivityBatch([open], [tieredCard('all_units')], new Date(), [invoiced]);
+
+      assert.strictEqual(decisions.has(invoiced.id), false);
+      assert.strictEqual(decisions.get(open.id)!.rateApplied, 0.2);
+    });
+
+    test('weekly periods are counted separately', () => {
+      const weekly = picks([800, 800]).map((activity, index) => ({
+        ...activity,
+        activityDate: new Date(Date.UTC(2026, 3, 6 + index * 7)),
+        billingCycle: 'weekly',
+        billingPeriodStart: new Date(Date.UTC(2026, 3, 6 + index * 7)),
+      }));
+      const decisions = priceActivityBatch(weekly, [tieredCard('all_units')]);
+
+      assert.deepStrictEqual([...decisions.values()].map(d => d.rateApplied), [0.4, 0.4]);
+    });
+
+    test('per-activity tiers are unchanged by batch pricing', () => {
+      const activities: BatchActivity[] = [8, 8].map((quantity, index) => ({
+        id: `rcv_${index}`,
+        activityDate: new Date('2026-01-10T00:00:00Z'),
+        type: 'Receiving_StandardPallet',
+        quantity,
+      }));
+      const decisions = priceActivityBatch(activities, sources);
+
+      assert.deepStrictEqual([...decisions.values()].map(d => d.rateApplied), [10, 10]);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert';
+import {
+  getSimulationMonths,
+  simulateActivities,
+  type SimulationActivity,
+} from '../src/services/rateSimulationService.js';
+import { simulateRateCardSchema } from '../src/validation/rateCardSchema.js';
+import type { RateSource } from '../src/services/rateEngine.js';
+
+const draft: RateSource = {
+  id: 'draft',
+  name: 'Draft rate card',
+  version: 1,
+  rateCardType: 'standard',
+  effectiveDate: new Date('2026-04-01T00:00:00Z'),
+  expiresDate: null,
+  rates: {
+    services: [
+      { serviceType: 'Fulfillment_Order', description: 'Order', unit: 'per order', baseRate: 3 },
+      { serviceType: 'Receiving_Pallet', description: 'Pallet', unit: 'per pallet', baseRate: 20 },
+    ],
+    surcharges: [{ type: 'FuelSurcharge', percentage: 10, conditions: { categories: ['fulfillment'] } }],
+  },
+};
+
+function activity(overrides: Partial<SimulationActivity>): SimulationActivity {
+  return {
+    id: 'act_1',
+    activityDate: new Date('2026-04-10T00:00:00Z'),
+    type: 'Fulfillment_Order',
+    quantity: 10,
+    amount: 25,
+    isManualOverride: false,
+    ...overrides,
+  };
+}
+
+const quarter = { from: new Date('2026-04-01T00:00:00Z'), to: new Date('2026-06-30T00:00:00Z') };
+
+describe('Rate card simulation', () => {
+  test('re-prices activities per category and diffs against actual amounts', () => {
+    const result = simulateActivities([
+      activity({}),
+      activity({ id: 'act_2', type: 'Receiving_Pallet', quantity: 2, amount: 36 }),
+    ], draft, { ...quarter, minimum: 0 });
+
+    const byCategory = Object.fromEntries(result.categories.map(c => [c.category, c]));
+    assert.strictEqual(result.priced, 2);
+    assert.strictEqual(byCategory.fulfillment.simulated, 30);
+    assert.strictEqual(byCategory.fulfillment.difference, 5);
+    assert.strictEqual(byCategory.fulfillment.differencePercent, 20);
+    assert.strictEqual(byCategory.receiving.simulated, 40);
+    assert.strictEqual(byCategory.surcharge.simulated, 3);
+    assert.strictEqual(byCategory.surcharge.differencePercent, null);
+    assert.deepStrictEqual(result.totals, { actual: 61, simulated: 73, difference: 12, differencePercent: 19.67 });
+  });
+
+  test('keeps manual override amounts and lists unpriced activities', () => {
+    const result = simulateActivities([
+      activity({ isManualOverride: true, amount: 12 }),
+      activity({ id: 'act_2', type: 'Storage_Pallet', amount: 8 }),
+    ], draft, { ...quarter, minimum: 0 });
+
+    assert.strictEqual(result.overrides, 1);
+    assert.strictEqual(result.unpriced, 1);
+    assert.strictEqual(result.unpricedActivities[0].activityId, 'act_2');
+    assert.strictEqual(result.categories.find(c => c.category === 'fulfillment')?.simulated, 12);
+    assert.strictEqual(result.categories.find(c => c.category === 'storage')?.simulated, 0);
+  });
+
+  test('applies the monthly minimum to full months only and compares actual top-ups', () => {
+    const result = simulateActivities([
+      activity({ amount: 25 }),
+      activity({ id: 'act_2', activityDate: new Date('2026-05-12T00:00:00Z'), quantity: 100, amount: 250 }),
+    ], draft, {
+      from: new Date('2026-04-01T00:00:00Z'),
+      to: new Date('2026-05-20T00:00:00Z'),
+      minimum: 100,
+      actualLines: [{ category: 'minimum', lineTotal: 75, periodStart: new Date('2026-04-01T00:00:00Z') }],
+    });
+
+    const [april, may] = result.months;
+    assert.deepStrictEqual([april.month, april.partial, may.partial], ['2026-04', false, true]);
+    assert.strictEqual(april.simulatedSubtotal, 33);
+    assert.strictEqual(april.simulatedTopUp, 67);
+    assert.strictEqual(april.actualTopUp, 75);
+    assert.strictEqual(may.simulatedTopUp, 0);
+
+    const minimum = result.categories.find(c => c.category === 'minimum')!;
+    assert.deepStrictEqual([minimum.actual, minimum.simulated, minimum.difference], [75, 67, -8]);
+  });
+
+  test('lists the months a range touches', () => {
+    assert.deepStrictEqual(
+      getSimulationMonths(new Date('2026-11-15T00:00:00Z'), new Date('2027-01-31T00:00:00Z')),
+      [
+        { month: '2026-11', partial: true },
+        { month: '2026-12', partial: false },
+        { month: '2027-01', partial: false },
+      ]
+    );
+  });
+
+  test('requires exactly one of a rate card or draft rates', () => {
+    const base = { customerId: 'cust_1', from: '2026-04-01', to: '2026-06-30' };
+
+    assert.strictEqual(simulateRateCardSchema.safeParse({ ...base, rateCardId: 'rate_1' }).success, true);
+    assert.strictEqual(simulateRateCardSchema.safeParse(base).success, false);
+    assert.strictEqual(simulateRateCardSchema.safeParse({ ...base, rateCardId: 'rate_1', rates: draft.rates }).success, false);
+    assert.strictEqual(simulateRateCardSchema.safeParse({ ...base, rateCardId: 'rate_1', to: '2026-03-01' }).success, false);
+    assert.strictEqual(simulateRateCardSchema.safeParse({ ...base, rateCardId: 'rate_1', to: '2027-06-30' }).success, false);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert';
+import {
+  RenewalAlertService,
+  buildContractAlert,
+  buildRateCardAlert,
+  findCoverageGap,
+  getAlertSeverity,
+  getAlertWindow,
+  getRenewalTerm,
+  parseAlertWindows,
+  type CoverageCard,
+} from '../src/services/renewalAlertService.js';
+import { runRenewalCheckSchema } from '../src/validation/renewalAlertSchema.js';
+
+const windows = [90, 60, 30];
+const asOf = new Date('2026-10-18');
+const customer = { id: 'cust_1', name: 'Acme' };
+
+function card(overrides: Partial<CoverageCard>): CoverageCard {
+  return {
+    id: 'rc_v1',
+    name: 'Acme 2026',
+    version: 1,
+    effectiveDate: new Date('2026-01-01'),
+    expiresDate: null,
+    ...overrides,
+  };
+}
+
+describe('Renewal alerts', () => {
+  test('parses alert windows largest first, falling back to the defaults', () => {
+    assert.deepStrictEqual(parseAlertWindows('30, 90,60'), [90, 60, 30]);
+    assert.deepStrictEqual(parseAlertWindows('14,14,abc'), [14]);
+    assert.deepStrictEqual(parseAlertWindows(undefined), [90, 60, 30]);
+    assert.deepStrictEqual(parseAlertWindows('0,-5'), [90, 60, 30]);
+  });
+
+  test('alerts in the smallest window the date falls in', () => {
+    assert.strictEqual(getAlertWindow(75, windows), 90);
+    assert.strictEqual(getAlertWindow(60, windows), 60);
+    assert.strictEqual(getAlertWindow(0, windows), 30);
+    assert.strictEqual(getAlertWindow(91, windows), null);
+    assert.strictEqual(getAlertWindow(-1, windows), null);
+
+    assert.strictEqual(getAlertSeverity(90, windows), 'info');
+    assert.strictEqual(getAlertSeverity(60, windows), 'warning');
+    assert.strictEqual(getAlertSeverity(30, windows), 'critical');
+  });
+
+  test('renewal term starts the day after the end and keeps the term length', () => {
+    const yearly = getRenewalTerm(new Date('2026-01-01'), new Date('2026-12-31'));
+    assert.deepStrictEqual(
+      [yearly.startDate.toISOString().slice(0, 10), yearly.endDate.toISOString().slice(0, 10)],
+      ['2027-01-01', '2027-12-31']
+    );
+
+    const odd = getRenewalTerm(new Date('2026-01-15'), new Date('2026-03-01'));
+    assert.deepStrictEqual(
+      [odd.startDate.toISOString().slice(0, 10), odd.endDate.toISOString().slice(0, 10)],
+      ['2026-03-02', '2026-04-16']
+    );
+  });
+
+  test('finds the first uncovered date across versions', () => {
+    const v1 = card({ expiresDate: new Date('2026-12-01') });
+    const v2 = card({ id: 'rc_v2', version: 2, effectiveDate: new Date('2026-12-01'), expiresDate: new Date('2027-01-01') });
+
+    assert.strictEqual(findCoverageGap([v1, v2], asOf, new Date('2027-01-16'))?.toISOString().slice(0, 10), '2027-01-01');
+    assert.strictEqual(findCoverageGap([v1, card({ id: 'rc_v2', effectiveDate: new Date('2026-12-01') })], asOf, new Date('2027-01-16')), null);
+    assert.strictEqual(findCoverageGap([], asOf, new Date('2027-01-16'))?.getTime(), asOf.getTime());
+  });
+
+  test('raises rate_card_expiring for a card lapsing without a successor', () => {
+    const alert = buildRateCardAlert(customer, [card({ expiresDate: new Date('2026-12-01') })], asOf, windows)!;
+
+    assert.strictEqual(alert.alertType, 'rate_card_expiring');
+    assert.strictEqual(alert.subjectId, 'rc_v1');
+    assert.strictEqual(alert.windowDays, 60);
+    assert.strictEqual(alert.severity, 'warning');
+    assert.strictEqual(alert.dedupeKey, 'rate_card_expiring:rc_v1:60');
+
+    assert.strictEqual(buildRateCardAlert(customer, [card({ expiresDate: new Date('2027-06-01') })], asOf, windows), null);
+  });
+
+  test('raises no_active_rate_card when a date has no card at all', () => {
+    const alert = buildRateCardAlert(customer, [card({ effectiveDate: new Date('2026-11-01') })], asOf, windows)!;
+
+    assert.strictEqual(alert.alertType, 'no_active_rate_card');
+    assert.strictEqual(alert.subjectType, 'customer');
+    assert.strictEqual(alert.severity, 'critical');
+    assert.strictEqual(alert.title, 'Acme: no active rate card');
+  });
+
+  test('raises contract_expiring inside the windows only', () => {
+    const contract = {
+      id: 'contract_1',
+      customerId: 'cust_1',
+      name: 'MSA',
+      contractNumber: 'C-100',
+      endDate: new Date('2026-11-10'),
+      autoRenew: false,
+    };
+
+    const alert = buildContractAlert(contract, 'Acme', asOf, windows)!;
+    assert.strictEqual(alert.windowDays, 30);
+    assert.strictEqual(alert.dedupeKey, 'contract_expiring:contract_1:30');
+    assert.match(alert.message, /does not auto-renew/);
+
+    assert.strictEqual(buildContractAlert({ ...contract, endDate: new Date('2027-03-01') }, 'Acme', asOf, windows), null);
+  });
+
+  test('run check body defaults to a real run', () => {
+    assert.deepStrictEqual(runRenewalCheckSchema.parse({}), { dryRun: false });
+    assert.throws(() => runRenewalCheckSchema.parse({ windows: [30, 30] }));
+  });
+
+  test('a planned rate card version is claimed once and skipped when the card already moved on', async () => {
+    let plannedRateCardId: string | null = 'rc_v1';
+    const prisma: any = {
+      contract: {
+        findUnique: async () => ({
+          name: 'Acme 2026 (Renewal 2027)',
+          startDate: new Date('2027-01-01'),
+          endDate: new Date('2027-12-31'),
+          plannedRateCard: plannedRateCardId
+            ? { id: 'rc_v1', archivedAt: null, childVersions: [{ id: 'rc_v2' }] }
+            : null,
+        }),
+        updateMany: async ({ where }: any) => {
+          if (plannedRateCardId !== where.plannedRateCardId) return { count: 0 };
+          plannedRateCardId = null;
+          return { count: 1 };
+        },
+      },
+    };
+    const service = new RenewalAlertService(prisma);
+
+    assert.deepStrictEqual(await service.createPlannedRateCardVersions('contract_2'), [
+      { rateCardId: 'rc_v1', versionId: null, skipped: 'Card was archived or already has a newer version' },
+    ]);
+    assert.strictEqual(plannedRateCardId, null);
+    assert.deepStrictEqual(await service.createPlannedRateCardVersions('contract_2'), []);
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert';
+import {
+  STORAGE_SERVICE_TYPES,
+  bucketAgedPallets,
+  buildStorageActivities,
+  getDaysInMonth,
+  getLongTermThresholds,
+  resolveStorageUnits,
+  type StorageUnits,
+} from '../src/services/storageBillingService.js';
+import { priceActivity, type RateSource } from '../src/services/rateEngine.js';
+import { buildInvoiceLines, type InvoiceActivity, type ServiceInfo } from '../src/services/invoiceService.js';
+import { msUntilNextRun } from '../src/jobs/scheduler.js';
+
+const day = new Date('2026-04-15T00:00:00Z');
+
+const manual: StorageUnits = {
+  source: 'manual',
+  storageLevelId: 'stlevel_1',
+  pallets: 40,
+  cubicFeet: 120,
+  aging: [
+    { storedSince: '2025-01-01', pallets: 5 },
+    { storedSince: '2025-10-01', pallets: 3 },
+    { storedSince: '2026-04-01', pallets: 10 },
+  ],
+};
+
+const storageCard: RateSource = {
+  id: 'rate_storage',
+  name: 'Storage Rates',
+  version: 1,
+  rateCardType: 'standard',
+  effectiveDate: new Date('2026-01-01T00:00:00Z'),
+  expiresDate: null,
+  rates: {
+    services: [
+      { serviceType: 'Storage_PalletMonthly', description: 'Pallet', unit: 'per pallet / month', baseRate: 15 },
+      {
+        serviceType: 'Storage_LongTermPenalty',
+        description: 'Long-term',
+        unit: 'per pallet / month',
+        items: [
+          { item: '180+ days', unit: 'per pallet / month', rate: 6 },
+          { item: '365+ days', unit: 'per pallet / month', rate: 12 },
+        ],
+      },
+    ],
+  },
+};
+
+describe('Storage Billing', () => {
+  describe('getDaysInMonth', () => {
+    test('handles month lengths and leap years', () => {
+      assert.strictEqual(getDaysInMonth(new Date('2026-04-15T00:00:00Z')), 30);
+      assert.strictEqual(getDaysInMonth(new Date('2026-02-01T00:00:00Z')), 28);
+      assert.strictEqual(getDaysInMonth(new Date('2028-02-29T00:00:00Z')), 29);
+    });
+  });
+
+  describe('getLongTermThresholds', () => {
+    test('reads customer settings and falls back to the default', () => {
+      assert.deepStrictEqual(getLongTermThresholds({ storage: { longTermThresholdDays: [365, 180] } }), [180, 365]);
+      assert.deepStrictEqual(getLongTermThresholds({}), [365]);
+      assert.deepStrictEqual(getLongTermThresholds({ storage: { longTermThresholdDays: [] } }), [365]);
+      assert.deepStrictEqual(getLongTermThresholds(null), [365]);
+    });
+  });
+
+  describe('bucketAgedPallets', () => {
+    test('puts each pallet in the highest threshold it has reached', () => {
+      assert.deepStrictEqual(bucketAgedPallets(manual.aging, day, [180, 365]), [
+        { thresholdDays: 180, pallets: 3 },
+        { thresholdDays: 365, pallets: 5 },
+      ]);
+    });
+
+    test('counts a pallet on the exact threshold day', () => {
+      const aging = [{ storedSince: '2025-04-15', pallets: 2 }];
+      assert.deepStrictEqual(bucketAgedPallets(aging, day, [365]), [{ thresholdDays: 365, pallets: 2 }]);
+      assert.deepStrictEqual(bucketAgedPallets(aging, new Date('2026-04-14T00:00:00Z'), [365]), []);
+    });
+  });
+
+  describe('resolveStorageUnits', () => {
+    test('prefers a manual level over spaceAllocated', () => {
+      const units = resolveStorageUnits(
+        { id: 'stlevel_1', pallets: '12', cubicFeet: '0', aging: [] },
+        { pallets: 50, sqft: 2000 }
+      );
+      assert.strictEqual(units?.source, 'manual');
+      assert.strictEqual(units?.pallets, 12);
+    });
+
+    test('falls back to allocated pallets, or nothing when none are allocated', () => {
+      assert.deepStrictEqual(resolveStorageUnits(null, { pallets: 50, sqft: 2000 }), {
+        source: 'allocation',
+        storageLevelId: null,
+        pallets: 50,
+        cubicFeet: 0,
+        aging: [],
+      });
+      assert.strictEqual(resolveStorageUnits(null, { sqft: 2000 }), null);
+      assert.strictEqual(resolveStorageUnits(undefined, null), null);
+    });
+  });
+
+  describe('buildStorageActivities', () => {
+    test('prorates a monthly pallet rate when no daily rate is defined', () => {
+      const activities = buildStorageActivities('alloc_1', day, manual, new Set(['Storage_PalletMonthly']), [365]);
+      const pallet = activities.find(a => a.type === STORAGE_SERVICE_TYPES.palletMonthly)!;
+
+      assert.strictEqual(pallet.quantity, 40);
+      assert.strictEqual(pallet.referenceId, 'storage:alloc_1');
+      assert.deepStrictEqual(pallet.metadata?.prorate, { daysInPeriod: 30 });
+      assert.ok(!activities.some(a => a.type === STORAGE_SERVICE_TYPES.longTermPenalty));
+    });
+
+    test('uses the daily pallet rate unprorated when defined', () => {
+      const activities = buildStorageActivities(
+        'alloc_1', day, manual, new Set(['Storage_PalletDaily', 'Storage_PalletMonthly']), [365]
+      );
+      const pallet = activities.find(a => a.type.startsWith('Storage_Pallet'))!;
+
+      assert.strictEqual(pallet.type, STORAGE_SERVICE_TYPES.palletDaily);
+      assert.strictEqual(pallet.metadata?.prorate, undefined);
+    });
+
+    test('emits one penalty activity per threshold bucket with stable reference ids', () => {
+      const activities = buildStorageActivities(
+        'alloc_1', day, manual, new Set(['Storage_PalletMonthly', 'Storage_LongTermPenalty']), [180, 365]
+      );
+      const penalties = activities.filter(a => a.type === STORAGE_SERVICE_TYPES.longTermPenalty);
+
+      assert.deepStrictEqual(penalties.map(p => [p.referenceId, p.quantity, p.metadata?.item]), [
+        ['storage:alloc_1:aged-180', 3, '180+ days'],
+        ['storage:alloc_1:aged-365', 5, '365+ days'],
+      ]);
+      assert.ok(activities.some(a => a.type === STORAGE_SERVICE_TYPES.cubicFootMonthly && a.quantity === 120));
+    });
+  });
+
+  describe('pricing and invoicing', () => {
+    test('a month of daily snapshots adds up to the monthly rate', () => {
+      const amounts: number[] = [];
+      const activities: InvoiceActivity[] = [];
+      for (let d = 1; d <= 30; d++) {
+        const date = new Date(Date.UTC(2026, 3, d));
+        const [pallet] = buildStorageActivities('alloc_1', date, { ...manual, aging: [], cubicFeet: 0 }, new Set(['Storage_PalletMonthly']), [365]);
+        const decision = priceActivity(pallet, [storageCard]);
+        assert.strictEqual(decision.rateApplied, 15);
+        assert.match(decision.explanation!.detail, /prorated 1\/30/);
+        amounts.push(decision.amount!);
+        activities.push({
+          id: `a${d}`,
+          type: pallet.type,
+          quantity: pallet.quantity,
+          unit: pallet.unit ?? null,
+          rateApplied: decision.rateApplied!,
+          amount: decision.amount!,
+          prorated: true,
+        });
+      }
+
+      const services = new Map<string, ServiceInfo>([
+        ['Storage_PalletMonthly', { name: 'Pallet Storage', categoryCode: 'storage', categorySortOrder: 3, sortOrder: 1 }],
+      ]);
+      const [line] = buildInvoiceLines(activities, services);
+
+      assert.strictEqual(line.quantity, 1);
+      assert.strictEqual(line.lineTotal, 600);
+      assert.strictEqual(Math.round(amounts.reduce((sum, a) => sum + a, 0) * 100) / 100, 600);
+    });
+
+    test('prices penalty buckets by item', () => {
+      const penalties = buildStorageActivities(
+        'alloc_1', day, manual, new Set(['Storage_PalletMonthly', 'Storage_LongTermPenalty']), [180, 365]
+      ).filter(a => a.type === STORAGE_SERVICE_TYPES.longTermPenalty);
+
+      assert.deepStrictEqual(penalties.map(p => priceActivity(p, [storageCard]).amount), [0.6, 2]);
+    });
+  });
+
+  describe('msUntilNextRun', () => {
+    test('schedules later today or tomorrow', () => {
+      const now = new Date('2026-04-15T00:30:00Z');
+      assert.strictEqual(msUntilNextRun({ hour: 1 }, now), 30 * 60 * 1000);
+      assert.strictEqual(msUntilNextRun({ hour: 0, minute: 30 }, now), 24 * 60 * 60 * 1000);
+    });
+  });
+});
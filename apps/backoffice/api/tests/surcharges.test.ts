@@ -0,0 +1,143 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert';
+import {
+  calculateSurcharges,
+  isInPeakSeason,
+  matchesSurchargeConditions,
+  selectSurcharges,
+  type SurchargeActivity,
+} from '../src/services/surchargeEngine.js';
+import { buildSurchargeLines } from '../src/services/invoiceService.js';
+import { surchargeSchema } from '../src/validation/rateCardSchema.js';
+import type { RateSource } from '../src/services/rateEngine.js';
+
+const standard: RateSource = {
+  id: 'rate_std',
+  name: 'Acme Rates',
+  version: 1,
+  rateCardType: 'standard',
+  effectiveDate: new Date('2026-01-01T00:00:00Z'),
+  expiresDate: null,
+  rates: {
+    services: [],
+    surcharges: [
+      { type: 'FuelSurcharge', description: 'Fuel surcharge', percentage: 5, conditions: { categories: ['shipping'] } },
+      { type: 'Oversize', amount: 2.5, conditions: { serviceTypes: ['Shipping_LabelFee'], minWeight: 50 } },
+      { type: 'PeakSeason', percentage: 10, basis: 'invoice', conditions: { peakSeason: { start: '11-15', end: '01-15' } } },
+      { type: 'HandlingFee', amount: 25, basis: 'invoice', conditions: { warehouses: ['WH-EAST'] } },
+    ],
+  },
+};
+
+const adjustment: RateSource = {
+  id: 'rate_adj',
+  name: 'Acme Rates - Fuel',
+  version: 1,
+  rateCardType: 'adjustment',
+  effectiveDate: new Date('2026-06-01T00:00:00Z'),
+  expiresDate: null,
+  rates: {
+    services: [],
+    surcharges: [{ type: 'FuelSurcharge', percentage: 8, appliesTo: '2026-06-30T00:00:00Z' }],
+  },
+};
+
+const activity = (overrides: Partial<SurchargeActivity>): SurchargeActivity => ({
+  id: 'act_1',
+  activityDate: new Date('2026-03-10T00:00:00Z'),
+  type: 'Shipping_LabelFee',
+  quantity: 4,
+  amount: 100,
+  ...overrides,
+});
+
+describe('Surcharge Engine', () => {
+  describe('matchesSurchargeConditions', () => {
+    test('requires every condition present to hold', () => {
+      const conditions = { categories: ['shipping'], minQuantity: 2, maxQuantity: 10 };
+
+      assert.strictEqual(matchesSurchargeConditions(conditions, activity({})), true);
+      assert.strictEqual(matchesSurchargeConditions(conditions, activity({ quantity: 12 })), false);
+      assert.strictEqual(matchesSurchargeConditions(conditions, activity({ type: 'Receiving_StandardPallet' })), false);
+      assert.strictEqual(matchesSurchargeConditions(undefined, activity({})), true);
+    });
+
+    test('weight and warehouse come from metadata and fail when missing', () => {
+      assert.strictEqual(matchesSurchargeConditions({ minWeight: 50 }, activity({ metadata: { weight: 70 } })), true);
+      assert.strictEqual(matchesSurchargeConditions({ minWeight: 50 }, activity({})), false);
+      assert.strictEqual(matchesSurchargeConditions({ warehouses: ['WH-EAST'] }, activity({ metadata: { warehouseCode: 'wh-east' } })), true);
+      assert.strictEqual(matchesSurchargeConditions({ warehouses: ['WH-EAST'] }, activity({})), false);
+    });
+  });
+
+  describe('isInPeakSeason', () => {
+    test('handles windows that wrap the year end', () => {
+      const season = { start: '11-15', end: '01-15' };
+
+      assert.strictEqual(isInPeakSeason(new Date('2026-12-01T00:00:00Z'), season), true);
+      assert.strictEqual(isInPeakSeason(new Date('2027-01-15T00:00:00Z'), season), true);
+      assert.strictEqual(isInPeakSeason(new Date('2026-02-01T00:00:00Z'), season), false);
+    });
+  });
+
+  describe('selectSurcharges', () => {
+    test('adjustments override a surcharge type within their window', () => {
+      const june = selectSurcharges([standard, adjustment], new Date('2026-06-10T00:00:00Z'));
+      const july = selectSurcharges([standard, adjustment], new Date('2026-07-10T00:00:00Z'));
+
+      assert.strictEqual(june.find(s => s.surcharge.type === 'FuelSurcharge')!.source.id, 'rate_adj');
+      assert.strictEqual(july.some(s => s.surcharge.type === 'FuelSurcharge'), false);
+    });
+  });
+
+  describe('calculateSurcharges', () => {
+    test('applies activity and invoice basis surcharges to matching activities', () => {
+      const applied = calculateSurcharges([
+        activity({ id: 'a1', metadata: { weight: 60, warehouseId: 'WH-EAST' } }),
+        activity({ id: 'a2', activityDate: new Date('2026-12-01T00:00:00Z'), amount: 50, quantity: 2 }),
+        activity({ id: 'a3', type: 'Receiving_StandardPallet', amount: 30 }),
+      ], [standard]);
+
+      assert.deepStrictEqual(applied.map(s => [s.type, s.basis, s.base, s.amount, s.activityIds]), [
+        ['FuelSurcharge', 'activity', 150, 7.5, ['a1', 'a2']],
+        ['Oversize', 'activity', 4, 10, ['a1']],
+        ['HandlingFee', 'invoice', 1, 25, ['a1']],
+        ['PeakSeason', 'invoice', 50, 5, ['a2']],
+      ]);
+    });
+  });
+
+  describe('buildSurchargeLines', () => {
+    test('attributes lines to the surcharge type', () => {
+      const lines = buildSurchargeLines(calculateSurcharges([
+        activity({ id: 'a1', metadata: { weight: 60 } }),
+      ], [standard]), 3);
+
+      assert.deepStrictEqual(lines.map(l => [l.description, l.category, l.quantity, l.unitRate, l.lineTotal, l.surchargeType, l.lineOrder]), [
+        ['Fuel surcharge (5% of 100.00)', 'surcharge', 1, 5, 5, 'FuelSurcharge', 3],
+        ['Oversize', 'surcharge', 4, 2.5, 10, 'Oversize', 4],
+      ]);
+    });
+  });
+
+  describe('surchargeSchema', () => {
+    test('accepts the documented condition language', () => {
+      const result = surchargeSchema.safeParse(standard.rates.surcharges[2]);
+      assert.strictEqual(result.success, true);
+    });
+
+    test('rejects unknown conditions and invalid values', () => {
+      const invalid = [
+        { type: 'X', percentage: 5, conditions: { customerTier: 'gold' } },
+        { type: 'X', percentage: 5, conditions: { peakSeason: { start: '02-30', end: '03-01' } } },
+        { type: 'X', percentage: 5, conditions: { minWeight: 80, maxWeight: 50 } },
+        { type: 'X', percentage: 5, conditions: { serviceTypes: ['shipping'] } },
+        { type: 'X', percentage: 5, amount: 2 },
+      ];
+
+      for (const surcharge of invalid) {
+        assert.strictEqual(surchargeSchema.safeParse(surcharge).success, false, JSON.stringify(surcharge));
+      }
+    });
+  });
+});
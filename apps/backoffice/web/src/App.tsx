@@ -1,5 +1,6 @@
-import { Routes, Route, Navigate } from 'react-router-dom';
+import { Routes, Route, Navigate, useParams } from 'react-router-dom';
 import { useAuth } from './hooks/useAuth';
+import { getPortalHostSubdomain } from './hooks/usePortalAuth';
 import { AppLayout } from './components/layout/AppLayout';
 import { LoginPage } from './pages/LoginPage';
 import { DashboardPage } from './pages/DashboardPage';
@@ -19,6 +20,14 @@ import { ClientsPage } from './pages/clients/ClientsPage';
 import { ClientDetailPage } from './pages/clients/ClientDetailPage';
 import { ClientOnboardingWizard } from './pages/clients/ClientOnboardingWizard';
 
+// Billing
+import { InvoicesPage } from './pages/billing/InvoicesPage';
+import { PaymentsPage } from './pages/billing/PaymentsPage';
+import { CreditNotesPage } from './pages/billing/CreditNotesPage';
+import { StorageBillingPage } from './pages/billing/StorageBillingPage';
+import { CarrierCostsPage } from './pages/billing/CarrierCostsPage';
+import { RateCardTemplatesPage } from './pages/billing/RateCardTemplatesPage';
+
 // Profile
 import { ProfilePage } from './pages/profile/ProfilePage';
 import { AccountSettingsPage } from './pages/profile/AccountSettingsPage';
@@ -30,6 +39,11 @@ import { RolesPage } from './pages/admin/RolesPage';
 import { ApiDocsPage } from './pages/admin/ApiDocsPage';
 import { DocumentationPage } from './pages/admin/DocumentationPage';
 import { StyleGuidePage } from './pages/admin/StyleGuidePage';
+import { NotificationsPage } from './pages/admin/NotificationsPage';
+import { AuditLogPage } from './pages/admin/AuditLogPage';
+
+// Customer Portal
+import { PortalApp } from './pages/portal/PortalApp';
 
 // Placeholders
 import { ComingSoonPage } from './pages/placeholders/ComingSoonPage';
@@ -52,10 +66,22 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
   return <>{children}</>;
 }
 
+function PortalRoute() {
+  const { subdomain = '' } = useParams();
+  return <PortalApp subdomain={subdomain} basePath={`/portal/${subdomain}`} />;
+}
+
 export default function App() {
+  // Served from <subdomain>.<VITE_PORTAL_BASE_DOMAIN> - the whole app is that customer's portal
+  const portalHostSubdomain = getPortalHostSubdomain();
+  if (portalHostSubdomain) {
+    return <PortalApp subdomain={portalHostSubdomain} basePath="" />;
+  }
+
   return (
     <Routes>
       <Route path="/login" element={<LoginPage />} />
+      <Route path="/portal/:subdomain/*" element={<PortalRoute />} />
       <Route
         path="/*"
         element={
@@ -95,8 +121,16 @@ export default function App() {
         {/* Returns - Coming Soon */}
         <Route path="returns/*" element={<ComingSoonPage />} />
 
-        {/* Billing - Coming Soon */}
-        <Route path="billing/*" element={<ComingSoonPage />} />
+        {/* Billing */}
+        <Route path="billing">
+          <Route index element={<InvoicesPage />} />
+          <Route path="payments" element={<PaymentsPage />} />
+          <Route path="credits" element={<CreditNotesPage />} />
+          <Route path="storage" element={<StorageBillingPage />} />
+          <Route path="carrier-costs" element={<CarrierCostsPage />} />
+          <Route path="rate-card-templates" element={<RateCardTemplatesPage />} />
+          <Route path="*" element={<ComingSoonPage />} />
+        </Route>
 
         {/* Operations - Coming Soon */}
         <Route path="operations/*" element={<ComingSoonPage />} />
@@ -140,8 +174,8 @@ export default function App() {
           <Route path="company" element={<ComingSoonPage />} />
           <Route path="warehouse" element={<ComingSoonPage />} />
           <Route path="billing-rules" element={<ComingSoonPage />} />
-          <Route path="notifications" element={<ComingSoonPage />} />
-          <Route path="audit-log" element={<ComingSoonPage />} />
+          <Route path="notifications" element={<NotificationsPage />} />
+          <Route path="audit-log" element={<AuditLogPage />} />
         </Route>
 
         {/* Redirect old settings URLs to admin */}
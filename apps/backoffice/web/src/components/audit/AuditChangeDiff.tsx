@@ -0,0 +1,42 @@
+import type { AuditLogEntry } from '../../types/auditLog';
+import { formatAuditValue, formatFieldName, getChangedFields } from './auditFormat';
+
+export interface AuditChangeDiffProps {
+  entry: AuditLogEntry;
+}
+
+/**
+ * Field-by-field before/after table of one audit entry
+ */
+export function AuditChangeDiff({ entry }: AuditChangeDiffProps) {
+  const fields = getChangedFields(entry);
+
+  if (fields.length === 0) {
+    return <p className="text-sm text-muted-foreground">{entry.details || 'No field changes recorded'}</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead className="bg-muted/50">
+        <tr className="border-b">
+          <th className="px-3 py-2 text-left font-medium">Field</th>
+          <th className="px-3 py-2 text-left font-medium">Before</th>
+          <th className="px-3 py-2 text-left font-medium">After</th>
+        </tr>
+      </thead>
+      <tbody>
+        {fields.map((field) => (
+          <tr key={field} className="border-b align-top">
+            <td className="px-3 py-2 whitespace-nowrap text-muted-foreground">{formatFieldName(field)}</td>
+            <td className="px-3 py-2 break-all">
+              {entry.before ? formatAuditValue(entry.before[field]) : ''}
+            </td>
+            <td className="px-3 py-2 break-all">
+              {entry.after ? formatAuditValue(entry.after[field]) : ''}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
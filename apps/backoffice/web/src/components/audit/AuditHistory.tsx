@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { api } from '../../lib/api';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Checkbox } from '../ui/checkbox';
+import { Label } from '../ui/label';
+import { ChevronDown, ChevronRight, History } from 'lucide-react';
+import type { AuditLogList } from '../../types/auditLog';
+import { AuditChangeDiff } from './AuditChangeDiff';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ACTION_VARIANTS,
+  formatAuditActor,
+  formatEntityType,
+  formatFieldName,
+  getChangedFields,
+} from './auditFormat';
+
+const PAGE_SIZE = 50;
+/** API maximum for one history request */
+const MAX_LIMIT = 500;
+
+export interface AuditHistoryProps {
+  /** History endpoint, e.g. /api/clients/:id/audit-log */
+  endpoint: string;
+  /** Entity type of the page's record - entries for other types are its child records */
+  entityType: string;
+  description?: string;
+}
+
+/**
+ * Change history of one record from the audit log, newest first. Child records
+ * (contacts, settings, role assignments, ...) are included unless turned off.
+ */
+export function AuditHistory({ endpoint, entityType, description }: AuditHistoryProps) {
+  const [includeRelated, setIncludeRelated] = useState(true);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['audit-history', endpoint, { includeRelated, limit }],
+    queryFn: () => api.get<AuditLogList>(`${endpoint}?includeRelated=${includeRelated}&limit=${limit}`),
+  });
+
+  const entries = data?.entries || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-4 w-4" />
+              History
+            </CardTitle>
+            <CardDescription>{description || 'Every change recorded in the audit log'}</CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`audit-related-${entityType}`}
+              checked={includeRelated}
+              onCheckedChange={(checked) => setIncludeRelated(checked === true)}
+            />
+            <Label htmlFor={`audit-related-${entityType}`} className="text-sm font-normal whitespace-nowrap">
+              Include related records
+            </Label>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No changes recorded yet</p>
+        ) : (
+          <div className="space-y-2">
+            {entries.map((entry) => {
+              const isOpen = expanded === entry.id;
+              const fields = getChangedFields(entry);
+              const isChild = entry.entityType !== entityType;
+
+              return (
+                <div key={entry.id} className="rounded-md border">
+                  <button
+                    type="button"
+                    className="flex w-full items-start gap-3 px-3 py-2 text-left hover:bg-muted/30"
+                    onClick={() => setExpanded(isOpen ? null : entry.id)}
+                  >
+                    {isOpen ? (
+                      <ChevronDown className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                    ) : (
+                      <ChevronRight className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <Badge variant={AUDIT_ACTION_VARIANTS[entry.action]}>{AUDIT_ACTION_LABELS[entry.action]}</Badge>
+                        <span className="font-medium">{formatEntityType(entry.entityType)}</span>
+                        {isChild && entry.entityId !== '*' && (
+                          <span className="text-xs text-muted-foreground">{entry.entityId}</span>
+                        )}
+                        {entry.action === 'UPDATE' && fields.length > 0 && (
+                          <span className="truncate text-muted-foreground">
+                            {fields.map(formatFieldName).join(', ')}
+                          </span>
+                        )}
+                      </div>
+                      <div className="mt-0.5 text-xs text-muted-foreground">
+                        {new Date(entry.timestamp).toLocaleString()} · {formatAuditActor(entry)}
+                      </div>
+                    </div>
+                  </button>
+                  {isOpen && (
+                    <div className="border-t px-3 py-2">
+                      <AuditChangeDiff entry={entry} />
+                      {(entry.requestId || entry.ipAddress) && (
+                        <p className="mt-2 text-xs text-muted-foreground">
+                          {entry.ipAddress && <>IP {entry.ipAddress}</>}
+                          {entry.ipAddress && entry.requestId && ' · '}
+                          {entry.requestId && <>Request {entry.requestId}</>}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            {data && data.total > entries.length && limit < MAX_LIMIT && (
+              <div className="pt-2 text-center">
+                <Button type="button" variant="outline" size="sm" onClick={() => setLimit(Math.min(limit + PAGE_SIZE, MAX_LIMIT))}>
+                  Load more ({data.total - entries.length} older)
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
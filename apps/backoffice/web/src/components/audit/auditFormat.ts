@@ -0,0 +1,44 @@
+import type { AuditAction, AuditLogEntry } from '../../types/auditLog';
+
+export const AUDIT_ACTION_VARIANTS: Record<AuditAction, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  CREATE: 'default',
+  UPDATE: 'secondary',
+  DELETE: 'destructive',
+  PURGE: 'destructive',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  CREATE: 'Created',
+  UPDATE: 'Updated',
+  DELETE: 'Deleted',
+  PURGE: 'Purged',
+};
+
+/** customer_settings → Customer settings */
+export function formatEntityType(entityType: string): string {
+  const words = entityType.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/** notificationEmail → Notification email */
+export function formatFieldName(field: string): string {
+  const words = field.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function formatAuditActor(entry: AuditLogEntry): string {
+  if (entry.source === 'job') return `Job: ${entry.actorName}`;
+  if (entry.source === 'portal') return `Portal: ${entry.actorName}`;
+  return entry.actorName || 'System';
+}
+
+/** Field names of an entry's before/after, in first-seen order */
+export function getChangedFields(entry: AuditLogEntry): string[] {
+  return Array.from(new Set([...Object.keys(entry.before ?? {}), ...Object.keys(entry.after ?? {})]));
+}
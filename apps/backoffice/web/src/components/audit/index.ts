@@ -0,0 +1,20 @@
+/**
+ * @fileoverview Audit Log Components Barrel Export
+ *
+ * Change history views shared by the admin audit log page and the entity history tabs.
+ */
+
+export { AuditHistory } from './AuditHistory';
+export { AuditChangeDiff } from './AuditChangeDiff';
+export {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ACTION_VARIANTS,
+  formatAuditActor,
+  formatAuditValue,
+  formatEntityType,
+  formatFieldName,
+  getChangedFields,
+} from './auditFormat';
+
+export type { AuditHistoryProps } from './AuditHistory';
+export type { AuditChangeDiffProps } from './AuditChangeDiff';
@@ -0,0 +1,224 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { api } from '../../lib/api';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../ui/dialog';
+import { Label } from '../ui/label';
+import { Badge } from '../ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { ArrowRight } from 'lucide-react';
+import { formatCurrency } from '../../utils/currency';
+import type { DiffStatus, RateCardDiff, RateCardDiffDialogProps, RateDelta } from './types';
+
+const EFFECTIVE = 'effective';
+
+const STATUS_STYLES: Record<DiffStatus, string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  changed: 'bg-amber-100 text-amber-800',
+  unchanged: 'bg-muted text-muted-foreground',
+};
+
+const MINIMUM_LABELS: Record<string, string> = {
+  monthlyMinimum: 'Monthly minimum (rates)',
+  orderMinimum: 'Order minimum',
+  minimumMonthlyCharge: 'Minimum monthly charge',
+};
+
+function cardLabel(card: { name: string; version?: number; rateCardType?: string }) {
+  return `${card.name} v${card.version ?? 1}${card.rateCardType === 'adjustment' ? ' (adjustment)' : ''}`;
+}
+
+function StatusBadge({ status }: { status: DiffStatus }) {
+  return <Badge variant="outline" className={`capitalize ${STATUS_STYLES[status]}`}>{status}</Badge>;
+}
+
+/**
+ * "$3.00 → $3.30 (+10%)", or just the side that exists
+ */
+function DeltaText({ delta, percent = false }: { delta: RateDelta; percent?: boolean }) {
+  const format = (value: number | null) => (value === null ? '—' : percent ? `${value}%` : formatCurrency(value));
+  const tone = delta.delta === null || delta.delta === 0 ? '' : delta.delta > 0 ? 'text-red-600' : 'text-green-600';
+
+  return (
+    <span>
+      {format(delta.from)} → {format(delta.to)}
+      {delta.deltaPercent !== null && delta.deltaPercent !== 0 && (
+        <span className={`ml-1 font-medium ${tone}`}>
+          ({delta.deltaPercent > 0 ? '+' : ''}{delta.deltaPercent}%)
+        </span>
+      )}
+    </span>
+  );
+}
+
+/**
+ * Service-by-service comparison of a rate card with another version or with its adjustments
+ */
+export function RateCardDiffDialog({ rateCard, rateCards, isOpen, onClose }: RateCardDiffDialogProps) {
+  const canMergeAdjustments = rateCard.rateCardType !== 'adjustment';
+  const others = rateCards.filter((card) => card.id !== rateCard.id);
+  const [compareTo, setCompareTo] = useState<string>(
+    rateCard.supersedesId ?? (canMergeAdjustments ? EFFECTIVE : others[0]?.id ?? '')
+  );
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const other = others.find((card) => card.id === compareTo);
+  // Changes always read older → newer
+  const [fromId, toId] = other && new Date(other.effectiveDate) > new Date(rateCard.effectiveDate)
+    ? [rateCard.id, other.id]
+    : [other?.id, rateCard.id];
+
+  const { data: diff, isLoading, error } = useQuery<RateCardDiff>({
+    queryKey: ['rate-card-diff', compareTo === EFFECTIVE ? `${rateCard.id}:effective` : `${fromId}:${toId}`],
+    queryFn: () => compareTo === EFFECTIVE
+      ? api.get<RateCardDiff>(`/api/rate-cards/${rateCard.id}/diff/effective`)
+      : api.get<RateCardDiff>(`/api/rate-cards/diff?from=${fromId}&to=${toId}`),
+    enabled: isOpen && !!compareTo,
+  });
+
+  const services = diff?.services.filter((service) => showUnchanged || service.status !== 'unchanged') ?? [];
+  const surcharges = diff?.surcharges.filter((surcharge) => showUnchanged || surcharge.status !== 'unchanged') ?? [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Compare {cardLabel(rateCard)}</DialogTitle>
+          <DialogDescription>
+            Review what changes between rate card versions, or what the adjustments change on this card.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-4">
+          <div className="flex-1">
+            <Label>Compare with</Label>
+            <Select value={compareTo} onValueChange={setCompareTo}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a rate card" />
+              </SelectTrigger>
+              <SelectContent>
+                {canMergeAdjustments && (
+                  <SelectItem value={EFFECTIVE}>Effective rates with adjustments</SelectItem>
+                )}
+                {others.map((card) => (
+                  <SelectItem key={card.id} value={card.id}>{cardLabel(card)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <label className="flex items-center gap-2 text-sm pb-2">
+            <input
+              type="checkbox"
+              checked={showUnchanged}
+              onChange={(e) => setShowUnchanged(e.target.checked)}
+            />
+            Show unchanged
+          </label>
+        </div>
+
+        {isLoading && <p className="text-sm text-muted-foreground">Comparing...</p>}
+        {error && <p className="text-sm text-red-600">{(error as Error).message}</p>}
+
+        {diff && (
+          <div className="space-y-6">
+            <div className="flex items-center gap-2 text-sm">
+              <span className="font-medium">{cardLabel(diff.from)}</span>
+              <ArrowRight className="h-4 w-4 text-muted-foreground" />
+              <span className="font-medium">{diff.to.adjustmentIds ? diff.to.name : cardLabel(diff.to)}</span>
+            </div>
+
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="outline" className={STATUS_STYLES.added}>{diff.summary.added} added</Badge>
+              <Badge variant="outline" className={STATUS_STYLES.removed}>{diff.summary.removed} removed</Badge>
+              <Badge variant="outline" className={STATUS_STYLES.changed}>{diff.summary.changed} changed</Badge>
+              <Badge variant="secondary">{diff.summary.increases} increases</Badge>
+              <Badge variant="secondary">{diff.summary.decreases} decreases</Badge>
+            </div>
+
+            {/* Services */}
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Services</h4>
+              {services.length === 0 && <p className="text-sm text-muted-foreground">No service changes</p>}
+              {services.map((service) => (
+                <div key={service.serviceType} className="border rounded-lg p-3 space-y-1 text-sm">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <span className="font-medium">{service.description}</span>
+                      <span className="text-muted-foreground ml-2">{service.serviceType}</span>
+                    </div>
+                    <StatusBadge status={service.status} />
+                  </div>
+                  {service.baseRate && (
+                    <div><span className="text-muted-foreground">Base rate:</span> <DeltaText delta={service.baseRate} /></div>
+                  )}
+                  {service.fieldChanges.map((change) => (
+                    <div key={change.field}>
+                      <span className="text-muted-foreground">{change.field}:</span>{' '}
+                      {String(change.from ?? '—')} → {String(change.to ?? '—')}
+                    </div>
+                  ))}
+                  {service.tiers.map((tier) => (
+                    <div key={tier.range}>
+                      <span className="text-muted-foreground">Tier {tier.range}:</span> <DeltaText delta={tier} />
+                    </div>
+                  ))}
+                  {service.zones.map((zone) => (
+                    <div key={zone.zone}>
+                      <span className="text-muted-foreground">Zone {zone.zone} ({zone.status}):</span>{' '}
+                      {zone.tiers.map((tier) => (
+                        <span key={tier.range} className="mr-3">{tier.range}: <DeltaText delta={tier} /></span>
+                      ))}
+                    </div>
+                  ))}
+                  {service.items.map((item) => (
+                    <div key={item.item}>
+                      <span className="text-muted-foreground">Item {item.item}:</span> <DeltaText delta={item} />
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+
+            {/* Surcharges */}
+            {surcharges.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Surcharges</h4>
+                {surcharges.map((surcharge) => (
+                  <div key={surcharge.type} className="border rounded-lg p-3 space-y-1 text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{surcharge.description}</span>
+                      <StatusBadge status={surcharge.status} />
+                    </div>
+                    {surcharge.percentage && <div><DeltaText delta={surcharge.percentage} percent /></div>}
+                    {surcharge.amount && <div><DeltaText delta={surcharge.amount} /></div>}
+                    {surcharge.fieldChanges.map((change) => (
+                      <div key={change.field}>
+                        <span className="text-muted-foreground">{change.field}:</span>{' '}
+                        {JSON.stringify(change.from)} → {JSON.stringify(change.to)}
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Minimums */}
+            {diff.minimums.some((minimum) => showUnchanged || minimum.status !== 'unchanged') && (
+              <div className="space-y-1 text-sm">
+                <h4 className="font-medium">Minimums</h4>
+                {diff.minimums
+                  .filter((minimum) => showUnchanged || minimum.status !== 'unchanged')
+                  .map((minimum) => (
+                    <div key={minimum.field}>
+                      <span className="text-muted-foreground">{MINIMUM_LABELS[minimum.field]}:</span>{' '}
+                      <DeltaText delta={minimum} />
+                    </div>
+                  ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
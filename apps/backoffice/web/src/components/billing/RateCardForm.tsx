@@ -11,7 +11,8 @@ import { Checkbox } from '../ui/checkbox';
 import { Badge } from '../ui/badge';
 import { AlertCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import type { RateCard, RateCardFormProps } from './types';
+import { RateCardSimulation } from './RateCardSimulation';
+import type { RateCard, RateCardFormProps, RateCardTemplate } from './types';
 
 export function RateCardForm({ customerId, rateCard, isOpen, onClose }: RateCardFormProps) {
   const { toast } = useToast();
@@ -34,6 +35,13 @@ export function RateCardForm({ customerId, rateCard, isOpen, onClose }: RateCard
 
   const contracts = customerData?.contracts || [];
 
+  // Company templates a new standard card can start from
+  const { data: templates = [] } = useQuery({
+    queryKey: ['rate-card-templates'],
+    queryFn: () => api.get<RateCardTemplate[]>('/api/rate-card-templates'),
+    enabled: isOpen && !rateCard,
+  });
+
   // Initialize form based on context
   useEffect(() => {
     if (isOpen) {
@@ -114,6 +122,7 @@ export function RateCardForm({ customerId, rateCard, isOpen, onClose }: RateCard
         setMinimumMonthlyCharge('');
         setNotes('');
         setBillingCycles({});
+        setTemplateId('');
         setRates({
           receiving: { standardPallet: '', oversizePallet: '', containerDevanning20ft: '', containerDevanning40ft: '', perItem: '', perHour: '' },
           storage: { palletMonthly: '', palletDaily: '', cubicFootMonthly: '', longTermPenaltyMonthly: '' },
@@ -134,6 +143,20 @@ export function RateCardForm({ customerId, rateCard, isOpen, onClose }: RateCard
   const [selectedContracts, setSelectedContracts] = useState<string[]>([]);
   const [minimumMonthlyCharge, setMinimumMonthlyCharge] = useState('');
   const [notes, setNotes] = useState('');
+  const [templateId, setTemplateId] = useState('');
+
+  const selectedTemplate = templates.find((template) => template.id === templateId);
+
+  // Prefill from the template; its service rates are sent as-is underneath the form rates
+  const handleTemplateChange = (id: string) => {
+    const template = templates.find((t) => t.id === id);
+    setTemplateId(id);
+    if (!template) return;
+
+    if (!name) setName(template.name);
+    setMinimumMonthlyCharge(template.minimumMonthlyCharge != null ? String(template.minimumMonthlyCharge) : '');
+    setBillingCycles(template.billingCycles || {});
+  };
 
   // Format date for display in input (YYYY-MM-DD to MM/DD/YYYY)
   const formatDateForInput = (dateString: string): string => {
@@ -338,19 +361,8 @@ export function RateCardForm({ customerId, rateCard, isOpen, onClose }: RateCard
     },
   });
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-
-    if (selectedContracts.length === 0) {
-      toast({
-        title: 'Validation Error',
-        description: 'Please select at least one contract',
-        variant: 'destructive',
-      });
-      return;
-    }
-
-    // Build rates object
+  // Build rates object from the form fields
+  const buildRatesPayload = () => {
     const ratesPayload: any = {};
     
     const receivingRates: any = {};
@@ -381,6 +393,23 @@ export function RateCardForm({ customerId, rateCard, isOpen, onClose }: RateCard
     if (rates.shipping.labelFee) shippingRates.labelFee = parseFloat(rates.shipping.labelFee);
     if (Object.keys(shippingRates).length > 0) ratesPayload.shipping = shippingRates;
 
+    return ratesPayload;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (selectedContracts.length === 0) {
+      toast({
+        title: 'Validation Error',
+        description: 'Please select at least one contract',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const ratesPayload = buildRatesPayload();
+
     if (!effectiveDate) {
       toast({
         title: 'Validation Error',
@@ -394,11 +423,12 @@ export function RateCardForm({ customerId, rateCard, isOpen, onClose }: RateCard
       effectiveDate: new Date(effectiveDate).toISOString(),
       expiresDate: expiresDate ? new Date(expiresDate).toISOString() : undefined,
       name: name || undefined,
-      rates: ratesPayload,
+      rates: selectedTemplate ? { ...selectedTemplate.rates, ...ratesPayload } : ratesPayload,
       billingCycles,
       minimumMonthlyCharge: minimumMonthlyCharge ? parseFloat(minimumMonthlyCharge) : undefined,
       notes: notes || undefined,
       contractIds: selectedContracts,
+      basedOnTemplate: selectedTemplate?.id,
     };
 
     if (isCreatingAdjustment && rateCard) {
@@ -454,6 +484,32 @@ export function RateCardForm({ customerId, rateCard, isOpen, onClose }: RateCard
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Start from template (new cards only) */}
+          {!rateCard && templates.length > 0 && (
+            <div>
+              <Label>Start from template</Label>
+              <Select value={templateId || 'none'} onValueChange={(value) => handleTemplateChange(value === 'none' ? '' : value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Blank rate card" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Blank rate card</SelectItem>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={template.id}>
+                      {template.name} v{template.version}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedTemplate && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  {selectedTemplate.rates.services.length} services and {selectedTemplate.rates.surcharges?.length ?? 0} surcharges
+                  are copied from the template. Rates entered below override it.
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Name and Dates */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div>
@@ -977,6 +1033,13 @@ export function RateCardForm({ customerId, rateCard, isOpen, onClose }: RateCard
             </p>
           </div>
 
+          {/* Simulation */}
+          <RateCardSimulation
+            customerId={customerId}
+            rates={{ ...(rateCard?.rates ?? selectedTemplate?.rates ?? {}), ...buildRatesPayload() }}
+            minimumMonthlyCharge={minimumMonthlyCharge ? parseFloat(minimumMonthlyCharge) : undefined}
+          />
+
           {/* Notes */}
           <div>
             <Label htmlFor="notes">Notes</Label>
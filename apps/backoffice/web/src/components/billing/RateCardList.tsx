@@ -6,11 +6,13 @@ import { Card, CardContent } from '../ui/card';
 import { Plus, AlertCircle } from 'lucide-react';
 import { RateCardForm } from './RateCardForm';
 import { RateCardViewer } from './RateCardViewer';
+import { RateCardDiffDialog } from './RateCardDiffDialog';
 import type { RateCard, RateCardListProps } from './types';
 
 export function RateCardList({ customerId, canEdit = false }: RateCardListProps) {
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [selectedRateCard, setSelectedRateCard] = useState<RateCard | null>(null);
+  const [comparedRateCard, setComparedRateCard] = useState<RateCard | null>(null);
 
   // Fetch all rate cards for customer
   const { data: rateCards = [], isLoading } = useQuery<RateCard[]>({
@@ -158,6 +160,7 @@ export function RateCardList({ customerId, canEdit = false }: RateCardListProps)
                 adjustments={cardAdjustments}
                 onEdit={handleEdit}
                 onCreateAdjustment={handleCreateAdjustment}
+                onCompare={setComparedRateCard}
               />
             );
           })}
@@ -193,6 +196,16 @@ export function RateCardList({ customerId, canEdit = false }: RateCardListProps)
           onClose={handleFormClose}
         />
       )}
+
+      {/* Rate Card Diff Dialog */}
+      {comparedRateCard && (
+        <RateCardDiffDialog
+          rateCard={comparedRateCard}
+          rateCards={rateCards}
+          isOpen={!!comparedRateCard}
+          onClose={() => setComparedRateCard(null)}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { api } from '../../lib/api';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Badge } from '../ui/badge';
+import { AlertCircle, Calculator } from 'lucide-react';
+import { formatCurrency, formatPercent } from '../../utils/currency';
+import type { RateCardSimulationProps, RateCardSimulationResult } from './types';
+
+const CATEGORY_LABELS: Record<string, string> = {
+  surcharge: 'Surcharges',
+  minimum: 'Minimum top-ups',
+};
+
+/**
+ * Last full calendar quarter, as yyyy-mm-dd dates
+ */
+function lastFullQuarter(): { from: string; to: string } {
+  const now = new Date();
+  const quarterStartMonth = Math.floor(now.getMonth() / 3) * 3;
+  const from = new Date(Date.UTC(now.getFullYear(), quarterStartMonth - 3, 1));
+  const to = new Date(Date.UTC(now.getFullYear(), quarterStartMonth, 0));
+  return { from: from.toISOString().split('T')[0], to: to.toISOString().split('T')[0] };
+}
+
+function differenceClass(value: number) {
+  if (value > 0) return 'text-green-600';
+  if (value < 0) return 'text-red-600';
+  return 'text-muted-foreground';
+}
+
+/**
+ * Inline "what would this customer have paid" simulation of draft rates
+ */
+export function RateCardSimulation({ customerId, rates, minimumMonthlyCharge }: RateCardSimulationProps) {
+  const [range, setRange] = useState(lastFullQuarter);
+  const [result, setResult] = useState<RateCardSimulationResult | null>(null);
+  const [error, setError] = useState('');
+
+  const hasServices = (rates.services?.length ?? 0) > 0;
+
+  const simulateMutation = useMutation({
+    mutationFn: () => api.post<RateCardSimulationResult>('/api/rate-cards/simulate', {
+      customerId,
+      from: range.from,
+      to: range.to,
+      rates,
+      minimumMonthlyCharge,
+    }),
+    onSuccess: (data) => {
+      setResult(data);
+      setError('');
+    },
+    onError: (err: Error) => {
+      setResult(null);
+      setError(err.message || 'Simulation failed');
+    },
+  });
+
+  const fullMonths = result?.months.filter((month) => !month.partial && month.minimum > 0) ?? [];
+
+  return (
+    <div className="space-y-4 border rounded-lg p-4">
+      <div>
+        <h3 className="text-lg font-semibold">Simulate</h3>
+        <p className="text-sm text-muted-foreground">
+          Price this customer's billing history against these rates. Nothing is saved.
+        </p>
+      </div>
+
+      <div className="flex items-end gap-3">
+        <div>
+          <Label htmlFor="simulationFrom">From</Label>
+          <Input
+            id="simulationFrom"
+            type="date"
+            value={range.from}
+            onChange={(e) => setRange({ ...range, from: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="simulationTo">To</Label>
+          <Input
+            id="simulationTo"
+            type="date"
+            value={range.to}
+            onChange={(e) => setRange({ ...range, to: e.target.value })}
+          />
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => simulateMutation.mutate()}
+          disabled={!hasServices || !range.from || !range.to || simulateMutation.isPending}
+        >
+          <Calculator className="h-4 w-4 mr-2" />
+          {simulateMutation.isPending ? 'Simulating...' : 'Simulate'}
+        </Button>
+      </div>
+
+      {!hasServices && (
+        <p className="text-sm text-muted-foreground">
+          This rate card has no service rates to simulate yet.
+        </p>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-red-600">
+          <AlertCircle className="h-4 w-4" />
+          {error}
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2 text-sm">
+            <Badge variant="secondary">{result.activityCount} activities</Badge>
+            {result.overrides > 0 && <Badge variant="outline">{result.overrides} manual overrides kept</Badge>}
+            {result.unpriced > 0 && <Badge variant="destructive">{result.unpriced} unpriced</Badge>}
+          </div>
+
+          <div className="border rounded-lg overflow-hidden">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr className="border-b">
+                  <th className="px-4 py-2 text-left text-sm font-medium">Category</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium">Actual</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium">Simulated</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium">Difference</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.categories.map((category) => (
+                  <tr key={category.category} className="border-b">
+                    <td className="px-4 py-2 text-sm capitalize">
+                      {CATEGORY_LABELS[category.category] ?? category.category}
+                      {category.activityCount > 0 && (
+                        <span className="text-muted-foreground"> ({category.activityCount})</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right">{formatCurrency(category.actual)}</td>
+                    <td className="px-4 py-2 text-sm text-right">{formatCurrency(category.simulated)}</td>
+                    <td className={`px-4 py-2 text-sm text-right ${differenceClass(category.difference)}`}>
+                      {formatCurrency(category.difference)}
+                      {category.differencePercent !== null && ` (${formatPercent(category.differencePercent)})`}
+                    </td>
+                  </tr>
+                ))}
+                <tr className="font-medium">
+                  <td className="px-4 py-2 text-sm">Total</td>
+                  <td className="px-4 py-2 text-sm text-right">{formatCurrency(result.totals.actual)}</td>
+                  <td className="px-4 py-2 text-sm text-right">{formatCurrency(result.totals.simulated)}</td>
+                  <td className={`px-4 py-2 text-sm text-right ${differenceClass(result.totals.difference)}`}>
+                    {formatCurrency(result.totals.difference)}
+                    {result.totals.differencePercent !== null && ` (${formatPercent(result.totals.differencePercent)})`}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          {fullMonths.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium mb-1">Monthly minimum</h4>
+              <ul className="text-sm text-muted-foreground space-y-1">
+                {fullMonths.map((month) => (
+                  <li key={month.month}>
+                    {month.month}: subtotal {formatCurrency(month.simulatedSubtotal)} vs minimum {formatCurrency(month.minimum)}
+                    {' → '}top-up {formatCurrency(month.simulatedTopUp)} (actual {formatCurrency(month.actualTopUp)})
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {result.months.some((month) => month.partial) && (
+            <p className="text-xs text-muted-foreground">
+              Minimums are only evaluated for calendar months fully inside the range.
+            </p>
+          )}
+
+          {result.unpricedActivities.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium mb-1">Unpriced activities</h4>
+              <ul className="text-sm text-muted-foreground space-y-1">
+                {result.unpricedActivities.map((activity) => (
+                  <li key={activity.activityId}>
+                    {activity.activityDate} {activity.type}: {activity.detail}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
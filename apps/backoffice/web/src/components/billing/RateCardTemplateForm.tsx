@@ -0,0 +1,200 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../../lib/api';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/dialog';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import { Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { ServiceSelector } from './ServiceSelector';
+import type { RateCardTemplateFormProps, ServiceRate } from './types';
+
+/**
+ * Create a template (v1) or save an edited template as its next version.
+ * Only base rates are edited here; tiers, zones, items and surcharges are kept as they are.
+ */
+export function RateCardTemplateForm({ template, isOpen, onClose }: RateCardTemplateFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isEdit = !!template;
+
+  const [templateKey, setTemplateKey] = useState('');
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [minimumMonthlyCharge, setMinimumMonthlyCharge] = useState('');
+  const [notes, setNotes] = useState('');
+  const [services, setServices] = useState<ServiceRate[]>([]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setTemplateKey(template?.templateKey ?? '');
+      setName(template?.name ?? '');
+      setDescription(template?.description ?? '');
+      setMinimumMonthlyCharge(template?.minimumMonthlyCharge != null ? String(template.minimumMonthlyCharge) : '');
+      setNotes('');
+      setServices(template?.rates.services ?? []);
+    }
+  }, [isOpen, template]);
+
+  const saveMutation = useMutation({
+    mutationFn: (payload: any) => isEdit
+      ? api.put(`/api/rate-card-templates/${template!.id}`, payload)
+      : api.post('/api/rate-card-templates', payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['rate-card-templates'] });
+      toast({
+        title: isEdit ? 'New Template Version Created' : 'Template Created',
+        description: isEdit
+          ? `${name} v${template!.version + 1} is now the current version. Existing customer cards are unchanged.`
+          : `${name} is available when creating rate cards`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error Saving Template',
+        description: error.message || 'Failed to save template',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const setBaseRate = (serviceType: string, value: string) => {
+    setServices(services.map((service) =>
+      service.serviceType === serviceType
+        ? { ...service, baseRate: value === '' ? undefined : parseFloat(value) }
+        : service
+    ));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const rates = { ...(template?.rates ?? {}), services };
+    const payload = {
+      ...(!isEdit && { templateKey }),
+      name,
+      description: description || (isEdit ? null : undefined),
+      rates,
+      billingCycles: template?.billingCycles,
+      minimumMonthlyCharge: minimumMonthlyCharge ? parseFloat(minimumMonthlyCharge) : (isEdit ? null : undefined),
+      notes: notes || undefined,
+    };
+
+    saveMutation.mutate(payload);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEdit ? `Edit ${template!.name} v${template!.version}` : 'New Rate Card Template'}</DialogTitle>
+          <DialogDescription>
+            {isEdit
+              ? 'Saving creates the next template version. Customer cards keep their rates until a bulk increase is applied.'
+              : 'Templates are built from billing service codes and can be used as the starting point for customer rate cards.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="templateKey">Key *</Label>
+              <Input
+                id="templateKey"
+                value={templateKey}
+                onChange={(e) => setTemplateKey(e.target.value)}
+                placeholder="ecommerce-standard"
+                disabled={isEdit}
+                required
+              />
+              <p className="text-xs text-muted-foreground mt-1">Lowercase words separated by hyphens</p>
+            </div>
+            <div>
+              <Label htmlFor="templateName">Name *</Label>
+              <Input id="templateName" value={name} onChange={(e) => setName(e.target.value)} required />
+            </div>
+            <div>
+              <Label htmlFor="templateDescription">Description</Label>
+              <Input id="templateDescription" value={description} onChange={(e) => setDescription(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="templateMinimum">Minimum Monthly Charge</Label>
+              <Input
+                id="templateMinimum"
+                type="number"
+                step="0.01"
+                min="0"
+                value={minimumMonthlyCharge}
+                onChange={(e) => setMinimumMonthlyCharge(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Services ({services.length})</h4>
+              {services.length === 0 && (
+                <p className="text-sm text-muted-foreground">Add services from the billing catalog.</p>
+              )}
+              {services.map((service) => (
+                <div key={service.serviceType} className="flex items-center gap-2 border rounded p-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium truncate">{service.description}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {service.serviceType} · {service.unit}
+                      {(service.tiers?.length || service.zones?.length || service.items?.length) ? ' · tiered' : ''}
+                    </div>
+                  </div>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    className="w-28"
+                    placeholder="Base rate"
+                    value={service.baseRate ?? ''}
+                    onChange={(e) => setBaseRate(service.serviceType, e.target.value)}
+                  />
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setServices(services.filter((s) => s.serviceType !== service.serviceType))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <ServiceSelector
+              selectedServices={services}
+              onServiceAdd={(service) => setServices([...services, service])}
+              onServiceRemove={(serviceType) => setServices(services.filter((s) => s.serviceType !== serviceType))}
+            />
+          </div>
+
+          {isEdit && (
+            <div>
+              <Label htmlFor="templateNotes">Version Notes</Label>
+              <Textarea
+                id="templateNotes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="What changed in this version"
+              />
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+            <Button type="submit" disabled={saveMutation.isPending || services.length === 0}>
+              {saveMutation.isPending ? 'Saving...' : isEdit ? 'Save New Version' : 'Create Template'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -13,15 +13,24 @@
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Badge } from '../ui/badge';
 import { Button } from '../ui/button';
-import type { RateCard, RateCardViewerProps, ServiceRate, ServiceTier } from './types';
+import type { RateCard, RateCardViewerProps, ServiceRate, ServiceTier, Surcharge, TierMode } from './types';
 import { formatCurrency } from '../../utils/currency';
 
-function TieredPricingDisplay({ tiers }: { tiers: ServiceTier[] }) {
+const TIER_MODE_LABELS: Record<TierMode, string> = {
+  per_activity: 'Per activity',
+  all_units: 'All units at period volume tier',
+  graduated: 'Graduated on period volume',
+};
+
+function TieredPricingDisplay({ tiers, tierMode = 'per_activity' }: { tiers: ServiceTier[]; tierMode?: TierMode }) {
   if (!tiers || tiers.length === 0) return null;
 
   return (
     <div className="border rounded p-3 bg-muted/20 mt-2">
-      <h5 className="font-medium text-sm mb-3">Volume-Based Pricing</h5>
+      <div className="flex items-center justify-between mb-3">
+        <h5 className="font-medium text-sm">Volume-Based Pricing</h5>
+        <span className="text-xs text-muted-foreground">{TIER_MODE_LABELS[tierMode]}</span>
+      </div>
       <div className="space-y-2">
         {tiers.map((tier, index) => (
           <div key={index} className="flex items-center gap-4 text-sm">
@@ -39,6 +48,27 @@ function TieredPricingDisplay({ tiers }: { tiers: ServiceTier[] }) {
   );
 }
 
+function describeSurchargeConditions(surcharge: Surcharge): string {
+  const conditions = surcharge.conditions || {};
+  const parts: string[] = [];
+
+  if (conditions.serviceTypes) parts.push(`services: ${conditions.serviceTypes.join(', ')}`);
+  if (conditions.categories) parts.push(`categories: ${conditions.categories.join(', ')}`);
+  if (conditions.minQuantity !== undefined || conditions.maxQuantity !== undefined) {
+    parts.push(`quantity ${conditions.minQuantity ?? 0}-${conditions.maxQuantity ?? '∞'}`);
+  }
+  if (conditions.minWeight !== undefined || conditions.maxWeight !== undefined) {
+    parts.push(`weight ${conditions.minWeight ?? 0}-${conditions.maxWeight ?? '∞'}`);
+  }
+  if (conditions.warehouses) parts.push(`warehouses: ${conditions.warehouses.join(', ')}`);
+  if (conditions.peakSeason) parts.push(`peak season ${conditions.peakSeason.start} to ${conditions.peakSeason.end}`);
+  if (surcharge.appliesFrom || surcharge.appliesTo) {
+    parts.push(`${surcharge.appliesFrom?.slice(0, 10) ?? '…'} to ${surcharge.appliesTo?.slice(0, 10) ?? '…'}`);
+  }
+
+  return parts.join(' · ');
+}
+
 function ServiceDisplay({ service }: { service: ServiceRate }) {
   return (
     <div className="service-item border rounded p-4">
@@ -50,7 +80,7 @@ function ServiceDisplay({ service }: { service: ServiceRate }) {
       </div>
 
       {service.tiers ? (
-        <TieredPricingDisplay tiers={service.tiers} />
+        <TieredPricingDisplay tiers={service.tiers} tierMode={service.tierMode} />
       ) : service.baseRate ? (
         <div className="base-rate font-mono text-lg">
           {service.serviceType.includes('Percent') ? `${service.baseRate}%` : formatCurrency(service.baseRate)}
@@ -68,7 +98,8 @@ export function RateCardViewer({
   canEdit = false,
   adjustments = [],
   onEdit,
-  onCreateAdjustment
+  onCreateAdjustment,
+  onCompare
 }: RateCardViewerProps) {
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
@@ -118,20 +149,23 @@ export function RateCardViewer({
               </span>
             </div>
           </div>
-          {canEdit && (
-            <div className="flex gap-2">
-              {rateCard.rateCardType !== 'adjustment' && onCreateAdjustment && (
-                <Button variant="outline" size="sm" onClick={() => onCreateAdjustment(rateCard)}>
-                  Create Adjustment
-                </Button>
-              )}
-              {onEdit && (
-                <Button variant="outline" size="sm" onClick={() => onEdit(rateCard)}>
-                  Edit
-                </Button>
-              )}
-            </div>
-          )}
+          <div className="flex gap-2">
+            {onCompare && (
+              <Button variant="outline" size="sm" onClick={() => onCompare(rateCard)}>
+                Compare
+              </Button>
+            )}
+            {canEdit && rateCard.rateCardType !== 'adjustment' && onCreateAdjustment && (
+              <Button variant="outline" size="sm" onClick={() => onCreateAdjustment(rateCard)}>
+                Create Adjustment
+              </Button>
+            )}
+            {canEdit && onEdit && (
+              <Button variant="outline" size="sm" onClick={() => onEdit(rateCard)}>
+                Edit
+              </Button>
+            )}
+          </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -168,10 +202,16 @@ export function RateCardViewer({
             <h4 className="text-sm font-medium">Surcharges</h4>
             {rateCard.rates.surcharges.map((surcharge, index) => (
               <div key={index} className="text-sm">
-                <span className="text-muted-foreground">{surcharge.type}:</span>{' '}
+                <span className="text-muted-foreground">{surcharge.description || surcharge.type}:</span>{' '}
                 <span className="font-medium">
                   {surcharge.percentage ? `${surcharge.percentage}%` : surcharge.amount ? formatCurrency(surcharge.amount) : 'Contact for pricing'}
                 </span>
+                <span className="text-muted-foreground">
+                  {' '}{surcharge.basis === 'invoice' ? 'per invoice' : surcharge.amount ? 'per unit' : 'per activity'}
+                </span>
+                {describeSurchargeConditions(surcharge) && (
+                  <div className="text-xs text-muted-foreground">{describeSurchargeConditions(surcharge)}</div>
+                )}
               </div>
             ))}
           </div>
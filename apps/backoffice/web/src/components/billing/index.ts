@@ -8,6 +8,9 @@
 export { RateCardList } from './RateCardList';
 export { RateCardForm } from './RateCardForm';
 export { RateCardViewer } from './RateCardViewer';
+export { RateCardSimulation } from './RateCardSimulation';
+export { RateCardDiffDialog } from './RateCardDiffDialog';
+export { RateCardTemplateForm } from './RateCardTemplateForm';
 export { ServiceSelector } from './ServiceSelector';
 
 // Re-export all shared types
@@ -16,6 +19,13 @@ export type {
   RateCardListProps,
   RateCardFormProps,
   RateCardViewerProps,
+  RateCardSimulationProps,
+  RateCardSimulationResult,
+  RateCardDiff,
+  RateCardDiffDialogProps,
+  RateCardTemplate,
+  RateCardTemplateFormProps,
+  BulkRateIncreaseResult,
   BillingCategory,
   BillingService,
   Contract,
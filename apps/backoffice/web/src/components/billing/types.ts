@@ -38,6 +38,9 @@ export interface ServiceRate {
   /** Volume-based tiered pricing */
   tiers?: ServiceTier[];
 
+  /** How tiers are evaluated: per activity (default), or on billing-period volume */
+  tierMode?: TierMode;
+
   /** Zone-based pricing (for shipping) */
   zones?: ServiceZone[];
 
@@ -45,6 +48,14 @@ export interface ServiceRate {
   items?: ServiceItem[];
 }
 
+/**
+ * Tier evaluation mode
+ * - per_activity: tier matched on each activity's quantity
+ * - all_units: all units in the period at the tier the period volume reaches
+ * - graduated: each unit at the tier its position in the period volume falls in
+ */
+export type TierMode = 'per_activity' | 'all_units' | 'graduated';
+
 /**
  * Volume-based pricing tier
  */
@@ -112,6 +123,12 @@ export interface Surcharge {
   /** Surcharge type identifier */
   type: string;
 
+  /** Invoice line label (defaults to type) */
+  description?: string;
+
+  /** Per matching activity (default) or on the invoice subtotal */
+  basis?: 'activity' | 'invoice';
+
   /** Fixed amount OR percentage */
   amount?: number;
   percentage?: number;
@@ -120,8 +137,24 @@ export interface Surcharge {
   appliesFrom?: string;
   appliesTo?: string;
 
-  /** Conditions for application */
-  conditions?: Record<string, any>;
+  /** Conditions for application - every condition present must hold */
+  conditions?: SurchargeConditions;
+}
+
+/**
+ * Declarative surcharge conditions
+ */
+export interface SurchargeConditions {
+  serviceTypes?: string[];
+  categories?: string[];
+  minQuantity?: number;
+  maxQuantity?: number;
+  minWeight?: number;
+  maxWeight?: number;
+  /** Warehouse ids or codes */
+  warehouses?: string[];
+  /** Recurring MM-DD window, may wrap the year end */
+  peakSeason?: { start: string; end: string };
 }
 
 // ============================================
@@ -174,6 +207,8 @@ export interface RateCard {
   rateCardType?: 'standard' | 'adjustment';
   parentRateCardId?: string;
   supersedesId?: string;
+  /** Template version this card was started from */
+  basedOnTemplate?: string | null;
 
   // Relationships
   parent?: {
@@ -260,6 +295,205 @@ export interface RateCardViewerProps {
   adjustments?: RateCard[];
   onEdit?: (rateCard: RateCard) => void;
   onCreateAdjustment?: (rateCard: RateCard) => void;
+  onCompare?: (rateCard: RateCard) => void;
+}
+
+/**
+ * Props for the RateCardSimulation component
+ */
+export interface RateCardSimulationProps {
+  customerId: string;
+  /** Draft rates to simulate (services, surcharges, minimums) */
+  rates: Partial<RateCardRates>;
+  minimumMonthlyCharge?: number;
+}
+
+// ============================================
+// RATE CARD SIMULATION
+// ============================================
+
+/**
+ * Actual vs simulated totals for one billing category
+ */
+export interface SimulationCategory {
+  category: string;
+  activityCount: number;
+  actual: number;
+  simulated: number;
+  difference: number;
+  differencePercent: number | null;
+}
+
+/**
+ * Monthly minimum effect for one calendar month of the simulated range
+ */
+export interface SimulationMonth {
+  month: string;
+  partial: boolean;
+  actualSubtotal: number;
+  simulatedSubtotal: number;
+  minimum: number;
+  actualTopUp: number;
+  simulatedTopUp: number;
+}
+
+/**
+ * Result of POST /api/rate-cards/simulate
+ */
+export interface RateCardSimulationResult {
+  customerId: string;
+  from: string;
+  to: string;
+  rateCard: { id: string; name: string; draft: boolean };
+  activityCount: number;
+  priced: number;
+  unpriced: number;
+  overrides: number;
+  categories: SimulationCategory[];
+  months: SimulationMonth[];
+  totals: { actual: number; simulated: number; difference: number; differencePercent: number | null };
+  unpricedActivities: Array<{ activityId: string; type: string; activityDate: string; detail: string }>;
+}
+
+// ============================================
+// RATE CARD DIFF
+// ============================================
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+/**
+ * Change between two rates; deltaPercent is relative to the from rate
+ */
+export interface RateDelta {
+  from: number | null;
+  to: number | null;
+  delta: number | null;
+  deltaPercent: number | null;
+}
+
+export interface TierDiff extends RateDelta {
+  range: string;
+  status: DiffStatus;
+}
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface ServiceDiff {
+  serviceType: string;
+  description: string;
+  status: DiffStatus;
+  baseRate: RateDelta | null;
+  fieldChanges: FieldChange[];
+  tiers: TierDiff[];
+  zones: Array<{ zone: string; status: DiffStatus; tiers: TierDiff[] }>;
+  items: Array<RateDelta & { item: string; status: DiffStatus }>;
+}
+
+export interface SurchargeDiff {
+  type: string;
+  description: string;
+  status: DiffStatus;
+  percentage: RateDelta | null;
+  amount: RateDelta | null;
+  fieldChanges: FieldChange[];
+}
+
+/**
+ * Result of GET /api/rate-cards/diff and /api/rate-cards/:id/diff/effective
+ */
+export interface RateCardDiff {
+  from: { id: string; name: string; version: number; rateCardType: string; effectiveDate: string; expiresDate: string | null };
+  to: { id: string; name: string; version: number; rateCardType: string; effectiveDate: string; expiresDate: string | null; adjustmentIds?: string[] };
+  services: ServiceDiff[];
+  surcharges: SurchargeDiff[];
+  minimums: Array<RateDelta & { field: 'monthlyMinimum' | 'orderMinimum' | 'minimumMonthlyCharge'; status: DiffStatus }>;
+  summary: { added: number; removed: number; changed: number; unchanged: number; increases: number; decreases: number };
+}
+
+/**
+ * Props for the RateCardDiffDialog component
+ */
+export interface RateCardDiffDialogProps {
+  rateCard: RateCard;
+  /** Customer's rate cards to compare against */
+  rateCards: RateCard[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// ============================================
+// RATE CARD TEMPLATES
+// ============================================
+
+/**
+ * Company list-price template that customer rate cards can start from
+ */
+export interface RateCardTemplate {
+  id: string;
+  templateKey: string;
+  version: number;
+  supersedesId?: string | null;
+  name: string;
+  description?: string | null;
+  rates: RateCardRates;
+  billingCycles?: BillingCycles;
+  minimumMonthlyCharge?: number | string | null;
+  isActive: boolean;
+  notes?: string | null;
+  createdAt: string;
+  archivedAt?: string | null;
+
+  /** Active customer cards derived from any version (list endpoint) */
+  activeCardCount?: number;
+  /** Version history of the template key (detail endpoint) */
+  versions?: Array<{ id: string; version: number; name: string; isActive: boolean; createdAt: string; archivedAt: string | null }>;
+}
+
+/**
+ * One rate that a bulk increase changes
+ */
+export interface RateChange {
+  serviceType: string;
+  field: string;
+  from: number;
+  to: number;
+}
+
+/**
+ * Result of POST /api/rate-card-templates/:id/bulk-increase
+ */
+export interface BulkRateIncreaseResult {
+  template: { id: string; templateKey: string; name: string; version: number };
+  percentage: number;
+  effectiveDate: string;
+  dryRun: boolean;
+  cards: Array<{
+    customerId: string;
+    customerName: string;
+    rateCardId: string;
+    rateCardName: string;
+    version: number;
+    status: 'preview' | 'updated' | 'skipped' | 'failed';
+    reason?: string;
+    newRateCardId?: string;
+    changes: RateChange[];
+    excluded: string[];
+  }>;
+  totals: { cards: number; updated: number; skipped: number; failed: number };
+}
+
+/**
+ * Props for the RateCardTemplateForm component
+ */
+export interface RateCardTemplateFormProps {
+  /** Template version to edit (omit to create) */
+  template?: RateCardTemplate | null;
+  isOpen: boolean;
+  onClose: () => void;
 }
 
 /**
@@ -0,0 +1,228 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api } from '../../lib/api';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '../ui/alert-dialog';
+import { Ban, CircleDot, DollarSign, Edit, FileSignature, Mail, MessageSquare, Phone, Plus, StickyNote, Trash2, Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { ContactLogDialog, CONTACT_LOG_TYPE_LABELS } from './ContactLogDialog';
+import type { ClientTimelineItem, ClientTimelineProps } from './types';
+
+const TYPE_ICONS: Record<ClientTimelineItem['type'], typeof Phone> = {
+  call: Phone,
+  email: Mail,
+  meeting: Users,
+  note: StickyNote,
+  other: MessageSquare,
+  contract_signed: FileSignature,
+  contract_status_changed: CircleDot,
+  rate_card_activated: DollarSign,
+  customer_terminated: Ban,
+};
+
+/** Type filter options - groups expand to the API's comma separated type list */
+const TYPE_FILTERS: Array<{ value: string; label: string; types?: string }> = [
+  { value: 'all', label: 'All activity' },
+  { value: 'contact_log', label: 'Contact log', types: 'call,email,meeting,note,other' },
+  { value: 'system', label: 'System events', types: 'contract_signed,contract_status_changed,rate_card_activated,customer_terminated' },
+  ...Object.entries(CONTACT_LOG_TYPE_LABELS).map(([value, label]) => ({ value, label, types: value })),
+  { value: 'contract_signed', label: 'Contracts signed', types: 'contract_signed' },
+  { value: 'contract_status_changed', label: 'Contract status changes', types: 'contract_status_changed' },
+  { value: 'rate_card_activated', label: 'Rate cards activated', types: 'rate_card_activated' },
+];
+
+const ALL_CONTACTS = 'all';
+
+/**
+ * Client activity: logged calls, emails, meetings and notes merged with contract and
+ * rate card events, newest first. Only contact log entries can be edited.
+ */
+export function ClientTimeline({ customerId, contacts, canEdit }: ClientTimelineProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [typeFilter, setTypeFilter] = useState('all');
+  const [contactFilter, setContactFilter] = useState(ALL_CONTACTS);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [isLogOpen, setIsLogOpen] = useState(false);
+  const [editing, setEditing] = useState<ClientTimelineItem | null>(null);
+  const [deleting, setDeleting] = useState<ClientTimelineItem | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['client-timeline', customerId, { typeFilter, contactFilter, from, to }],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      const types = TYPE_FILTERS.find((option) => option.value === typeFilter)?.types;
+      if (types) params.set('type', types);
+      if (contactFilter !== ALL_CONTACTS) params.set('contact_id', contactFilter);
+      if (from) params.set('from', from);
+      // Include the whole "to" day
+      if (to) params.set('to', `${to}T23:59:59.999Z`);
+      const query = params.toString();
+      const response = await api.get(`/api/clients/${customerId}/timeline${query ? `?${query}` : ''}`);
+      return response as { customerId: string; items: ClientTimelineItem[] };
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (entryId: string) => api.delete(`/api/clients/${customerId}/contact-log/${entryId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['client-timeline', customerId] });
+      toast({
+        title: 'Entry Deleted',
+        description: 'The entry was removed from the timeline',
+      });
+      setDeleting(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const openLog = (entry: ClientTimelineItem | null) => {
+    setEditing(entry);
+    setIsLogOpen(true);
+  };
+
+  const items = data?.items ?? [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Timeline</CardTitle>
+          <CardDescription>Conversations with the client alongside contract and rate card events</CardDescription>
+        </div>
+        {canEdit && (
+          <Button onClick={() => openLog(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Log Contact
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+          <div>
+            <Label>Type</Label>
+            <Select value={typeFilter} onValueChange={setTypeFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TYPE_FILTERS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Contact</Label>
+            <Select value={contactFilter} onValueChange={setContactFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CONTACTS}>All contacts</SelectItem>
+                {contacts.map((contact) => (
+                  <SelectItem key={contact.id} value={contact.id}>
+                    {contact.firstName} {contact.lastName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="timelineFrom">From</Label>
+            <Input id="timelineFrom" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="timelineTo">To</Label>
+            <Input id="timelineTo" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No activity for these filters</p>
+        ) : (
+          <div className="space-y-2">
+            {items.map((item) => {
+              const Icon = TYPE_ICONS[item.type] ?? MessageSquare;
+              return (
+                <div key={item.id} className="flex items-start justify-between gap-3 rounded-lg bg-muted/50 p-3">
+                  <div className="flex min-w-0 items-start gap-3">
+                    <Icon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p className="text-sm font-medium">{item.title}</p>
+                        {item.kind === 'system' && <Badge variant="secondary">system</Badge>}
+                      </div>
+                      {item.description && (
+                        <p className="whitespace-pre-wrap text-sm text-muted-foreground">{item.description}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(item.occurredAt).toLocaleString()}
+                        {item.contact && ` • with ${item.contact.name}`}
+                        {item.user && ` • by ${item.user.name}`}
+                      </p>
+                    </div>
+                  </div>
+                  {canEdit && item.kind === 'contact_log' && (
+                    <div className="flex shrink-0 gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => openLog(item)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setDeleting(item)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <ContactLogDialog
+        customerId={customerId}
+        contacts={contacts}
+        entry={editing}
+        isOpen={isLogOpen}
+        onClose={() => setIsLogOpen(false)}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Entry</AlertDialogTitle>
+            <AlertDialogDescription>
+              Remove "{deleting?.title}" from the timeline? This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+              disabled={deleteMutation.isPending}
+              className="bg-destructive hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
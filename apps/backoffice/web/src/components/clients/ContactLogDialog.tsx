@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../../lib/api';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/dialog';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { useToast } from '@/hooks/use-toast';
+import type { ContactLogDialogProps, ContactLogType } from './types';
+
+export const CONTACT_LOG_TYPE_LABELS: Record<ContactLogType, string> = {
+  call: 'Call',
+  email: 'Email',
+  meeting: 'Meeting',
+  note: 'Note',
+  other: 'Other',
+};
+
+const NO_CONTACT = 'none';
+
+/** yyyy-MM-ddTHH:mm in local time for datetime-local inputs */
+function toLocalInput(value: Date) {
+  const local = new Date(value.getTime() - value.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+/**
+ * Log a call, email, meeting or note with a customer, or edit an existing entry.
+ */
+export function ContactLogDialog({ customerId, contacts, entry, isOpen, onClose }: ContactLogDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [contactType, setContactType] = useState<ContactLogType>('call');
+  const [contactId, setContactId] = useState(NO_CONTACT);
+  const [subject, setSubject] = useState('');
+  const [notes, setNotes] = useState('');
+  const [occurredAt, setOccurredAt] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const type = (entry?.type ?? 'call') as ContactLogType;
+    setContactType(type);
+    setContactId(entry?.contact?.id ?? NO_CONTACT);
+    // Untitled entries are shown under their type label
+    setSubject(entry && entry.title !== CONTACT_LOG_TYPE_LABELS[type] ? entry.title : '');
+    setNotes(entry?.description ?? '');
+    setOccurredAt(toLocalInput(entry ? new Date(entry.occurredAt) : new Date()));
+  }, [isOpen, entry]);
+
+  const saveMutation = useMutation({
+    mutationFn: (payload: Record<string, unknown>) =>
+      entry
+        ? api.put(`/api/clients/${customerId}/contact-log/${entry.id}`, payload)
+        : api.post(`/api/clients/${customerId}/contact-log`, payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['client-timeline', customerId] });
+      toast({
+        title: entry ? 'Entry Updated' : 'Contact Logged',
+        description: `${CONTACT_LOG_TYPE_LABELS[contactType]} saved to the timeline`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    saveMutation.mutate({
+      contact_type: contactType,
+      contact_id: contactId === NO_CONTACT ? null : contactId,
+      subject: subject || (entry ? null : undefined),
+      notes: notes || (entry ? null : undefined),
+      occurred_at: occurredAt ? new Date(occurredAt).toISOString() : undefined,
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{entry ? 'Edit Entry' : 'Log Contact'}</DialogTitle>
+          <DialogDescription>Record a conversation or note with this client</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Type</Label>
+              <Select value={contactType} onValueChange={(value) => setContactType(value as ContactLogType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CONTACT_LOG_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="logOccurredAt">When</Label>
+              <Input
+                id="logOccurredAt"
+                type="datetime-local"
+                value={occurredAt}
+                onChange={(e) => setOccurredAt(e.target.value)}
+              />
+            </div>
+          </div>
+          <div>
+            <Label>Contact</Label>
+            <Select value={contactId} onValueChange={setContactId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CONTACT}>No specific contact</SelectItem>
+                {contacts.map((contact) => (
+                  <SelectItem key={contact.id} value={contact.id}>
+                    {contact.firstName} {contact.lastName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="logSubject">Subject</Label>
+            <Input id="logSubject" value={subject} onChange={(e) => setSubject(e.target.value)} maxLength={255} />
+          </div>
+          <div>
+            <Label htmlFor="logNotes">Notes</Label>
+            <Textarea id="logNotes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={4} />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+            <Button type="submit" disabled={(!subject && !notes) || saveMutation.isPending}>
+              {entry ? 'Save' : 'Log Contact'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
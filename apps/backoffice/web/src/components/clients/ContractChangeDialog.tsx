@@ -0,0 +1,175 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../../lib/api';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/dialog';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import { Checkbox } from '../ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { useToast } from '@/hooks/use-toast';
+import type { ContractChangeDialogProps } from './types';
+
+/**
+ * Amend a contract (child amendment / addendum) or supersede it with a replacement.
+ */
+export function ContractChangeDialog({ customerId, contract, mode, isOpen, onClose }: ContractChangeDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isAmend = mode === 'amend';
+
+  const [contractType, setContractType] = useState<'amendment' | 'addendum'>('amendment');
+  const [name, setName] = useState('');
+  const [contractNumber, setContractNumber] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [executionDate, setExecutionDate] = useState('');
+  const [moveRateCards, setMoveRateCards] = useState(true);
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setContractType('amendment');
+      setName('');
+      setContractNumber('');
+      setStartDate('');
+      setEndDate('');
+      setExecutionDate('');
+      setMoveRateCards(true);
+      setNotes('');
+    }
+  }, [isOpen]);
+
+  const changeMutation = useMutation({
+    mutationFn: (payload: Record<string, unknown>) =>
+      api.post(`/api/clients/${customerId}/contracts/${contract!.id}/${mode}`, payload),
+    onSuccess: (result: any) => {
+      queryClient.invalidateQueries({ queryKey: ['contract-timeline', customerId] });
+      queryClient.invalidateQueries({ queryKey: ['client', customerId] });
+      queryClient.invalidateQueries({ queryKey: ['rate-cards', customerId] });
+      toast({
+        title: isAmend ? 'Amendment Created' : 'Contract Superseded',
+        description: isAmend
+          ? `${result.contract.name} was added as a draft`
+          : `${contract!.name} is replaced by ${result.contract.name}` +
+            (result.movedRateCardIds.length > 0 ? ` (${result.movedRateCardIds.length} rate card(s) moved)` : ''),
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: isAmend ? 'Error Amending Contract' : 'Error Superseding Contract',
+        description: error.message || 'Failed to update contract',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    changeMutation.mutate({
+      ...(isAmend ? { contract_type: contractType } : { move_rate_cards: moveRateCards }),
+      name: name || undefined,
+      contract_number: contractNumber || undefined,
+      start_date: startDate || undefined,
+      end_date: endDate || undefined,
+      execution_date: executionDate || undefined,
+      notes: notes || undefined,
+    });
+  };
+
+  if (!contract) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{isAmend ? `Amend ${contract.name}` : `Supersede ${contract.name}`}</DialogTitle>
+          <DialogDescription>
+            {isAmend
+              ? 'Creates a draft amendment numbered after the existing amendments of this contract.'
+              : 'Creates the replacement contract. This contract ends the day before it starts, and rate cards still in effect can move to the replacement.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {isAmend && (
+              <div>
+                <Label>Type</Label>
+                <Select value={contractType} onValueChange={(value) => setContractType(value as 'amendment' | 'addendum')}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="amendment">Amendment</SelectItem>
+                    <SelectItem value="addendum">Addendum</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <Label htmlFor="changeName">{isAmend ? 'Name' : 'Name *'}</Label>
+              <Input
+                id="changeName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={isAmend ? 'Defaults to "<contract> - Amendment N"' : undefined}
+                required={!isAmend}
+              />
+            </div>
+            <div>
+              <Label htmlFor="changeNumber">Contract Number</Label>
+              <Input id="changeNumber" value={contractNumber} onChange={(e) => setContractNumber(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="changeStart">{isAmend ? 'Effective Date' : 'Start Date *'}</Label>
+              <Input
+                id="changeStart"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                required={!isAmend}
+              />
+            </div>
+            <div>
+              <Label htmlFor="changeEnd">End Date</Label>
+              <Input id="changeEnd" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="changeExecution">Signed On</Label>
+              <Input id="changeExecution" type="date" value={executionDate} onChange={(e) => setExecutionDate(e.target.value)} />
+            </div>
+          </div>
+
+          {!isAmend && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="moveRateCards"
+                checked={moveRateCards}
+                onCheckedChange={(checked) => setMoveRateCards(checked === true)}
+              />
+              <Label htmlFor="moveRateCards" className="font-normal">
+                Move rate cards still in effect to the replacement contract
+              </Label>
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="changeNotes">Notes</Label>
+            <Textarea id="changeNotes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+            <Button type="submit" disabled={changeMutation.isPending}>
+              {isAmend ? 'Create Amendment' : 'Supersede Contract'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api } from '../../lib/api';
+import { isApiError } from '../../types/errors';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/dialog';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { useToast } from '@/hooks/use-toast';
+import type { ContractStatus, ContractStatusDialogProps, ContractStatusHistory } from './types';
+
+/**
+ * Move a contract to one of its allowed next statuses and show its status history.
+ */
+export function ContractStatusDialog({ customerId, contract, isOpen, onClose }: ContractStatusDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [status, setStatus] = useState<ContractStatus | ''>('');
+  const [reason, setReason] = useState('');
+  const [executionDate, setExecutionDate] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setStatus('');
+      setReason('');
+      setExecutionDate('');
+    }
+  }, [isOpen]);
+
+  const { data: history } = useQuery({
+    queryKey: ['contract-status-history', contract?.id],
+    queryFn: async () => {
+      const response = await api.get(`/api/clients/${customerId}/contracts/${contract!.id}/status-history`);
+      return response as ContractStatusHistory;
+    },
+    enabled: isOpen && !!contract,
+  });
+
+  const transitionMutation = useMutation({
+    mutationFn: (payload: Record<string, unknown>) =>
+      api.post(`/api/clients/${customerId}/contracts/${contract!.id}/status`, payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['contract-timeline', customerId] });
+      queryClient.invalidateQueries({ queryKey: ['contract-status-history', contract!.id] });
+      queryClient.invalidateQueries({ queryKey: ['client', customerId] });
+      toast({
+        title: 'Contract Status Updated',
+        description: `${contract!.name} is now ${status}`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      // Rejected transitions explain themselves in `reason`
+      const reason = isApiError(error) ? error.response?.data?.reason : undefined;
+      toast({
+        title: 'Status Change Not Allowed',
+        description: typeof reason === 'string' ? reason : error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (!contract) return null;
+
+  const allowed = history?.allowedTransitions ?? contract.allowedTransitions ?? [];
+  const needsExecution = status === 'active' && !contract.executionDate;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    transitionMutation.mutate({
+      status,
+      reason: reason || undefined,
+      execution_date: executionDate || undefined,
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Contract Status</DialogTitle>
+          <DialogDescription>
+            {contract.name} is <span className="font-medium">{contract.status}</span>.
+            {allowed.length === 0 && ' It cannot change status any more.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {allowed.length > 0 && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label>New Status</Label>
+              <Select value={status} onValueChange={(value) => setStatus(value as ContractStatus)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select status" />
+                </SelectTrigger>
+                <SelectContent>
+                  {allowed.map((next) => (
+                    <SelectItem key={next} value={next} className="capitalize">{next}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {needsExecution && (
+              <div>
+                <Label htmlFor="statusExecution">Signed On *</Label>
+                <Input
+                  id="statusExecution"
+                  type="date"
+                  value={executionDate}
+                  onChange={(e) => setExecutionDate(e.target.value)}
+                  required
+                />
+              </div>
+            )}
+            <div>
+              <Label htmlFor="statusReason">Reason</Label>
+              <Textarea id="statusReason" value={reason} onChange={(e) => setReason(e.target.value)} rows={2} />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+              <Button type="submit" disabled={!status || transitionMutation.isPending}>Update Status</Button>
+            </DialogFooter>
+          </form>
+        )}
+
+        {history && history.history.length > 0 && (
+          <div className="space-y-2 border-t pt-4">
+            <p className="text-sm font-medium">History</p>
+            {history.history.map((entry) => (
+              <div key={entry.id} className="text-xs text-muted-foreground">
+                <span className="font-medium text-foreground">{entry.fromStatus} → {entry.toStatus}</span>
+                {' • '}{new Date(entry.changedAt).toLocaleString()}
+                {' • '}{entry.changedByUser?.name ?? (entry.trigger === 'scheduled' ? 'Daily status job' : 'System')}
+                {entry.reason && <p>{entry.reason}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { api } from '../../lib/api';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { ArrowDown, CircleDot, FilePlus, FileText, GitBranch, Replace } from 'lucide-react';
+import { ContractChangeDialog } from './ContractChangeDialog';
+import { ContractStatusDialog } from './ContractStatusDialog';
+import type { ContractChangeMode, ContractTimelineNode, ContractTimelineProps } from './types';
+
+const CLOSED_STATUSES = ['terminated', 'expired'];
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleDateString(undefined, { timeZone: 'UTC' }) : 'open-ended';
+}
+
+function isChangeable(contract: ContractTimelineNode) {
+  return !contract.archivedAt && !contract.supersededByContractId && !CLOSED_STATUSES.includes(contract.status);
+}
+
+/**
+ * Contract history for a customer: each base contract with its amendments, followed
+ * by the contracts that superseded it. Status changes go through the transition table.
+ */
+export function ContractTimeline({ customerId, canEdit }: ContractTimelineProps) {
+  const [selected, setSelected] = useState<ContractTimelineNode | null>(null);
+  const [mode, setMode] = useState<ContractChangeMode>('amend');
+  const [statusContract, setStatusContract] = useState<ContractTimelineNode | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['contract-timeline', customerId],
+    queryFn: async () => {
+      const response = await api.get(`/api/clients/${customerId}/contracts/timeline`);
+      return response as { timeline: ContractTimelineNode[] };
+    },
+  });
+
+  const openChange = (contract: ContractTimelineNode, changeMode: ContractChangeMode) => {
+    setSelected(contract);
+    setMode(changeMode);
+  };
+
+  const renderContract = (contract: ContractTimelineNode, isAmendment = false) => (
+    <div className="flex items-start justify-between gap-3 rounded-lg bg-muted/50 p-3">
+      <div className="flex min-w-0 items-start gap-3">
+        {isAmendment
+          ? <GitBranch className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+          : <FileText className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />}
+        <div className="min-w-0 space-y-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <p className="text-sm font-medium">{contract.name}</p>
+            {contract.contractType && contract.contractType !== 'original' && (
+              <Badge variant="outline" className="capitalize">
+                {contract.contractType}
+                {contract.amendmentNumber ? ` #${contract.amendmentNumber}` : ''}
+              </Badge>
+            )}
+            <Badge variant={contract.status === 'active' ? 'default' : 'secondary'}>{contract.status}</Badge>
+            {contract.archivedAt && <Badge variant="secondary">archived</Badge>}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {contract.contractNumber && `#${contract.contractNumber} • `}
+            {formatDate(contract.startDate)} - {formatDate(contract.endDate)}
+            {contract.executionDate && ` • signed ${formatDate(contract.executionDate)}`}
+          </p>
+        </div>
+      </div>
+      {canEdit && (
+        <div className="flex shrink-0 gap-1">
+          <Button variant="ghost" size="sm" onClick={() => setStatusContract(contract)}>
+            <CircleDot className="mr-1 h-4 w-4" />
+            Status
+          </Button>
+          {isChangeable(contract) && (
+            <>
+              <Button variant="ghost" size="sm" onClick={() => openChange(contract, 'amend')}>
+                <FilePlus className="mr-1 h-4 w-4" />
+                Amend
+              </Button>
+              {!isAmendment && (
+                <Button variant="ghost" size="sm" onClick={() => openChange(contract, 'supersede')}>
+                  <Replace className="mr-1 h-4 w-4" />
+                  Supersede
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderChain = (root: ContractTimelineNode) => {
+    const chain: ContractTimelineNode[] = [];
+    for (let node: ContractTimelineNode | null = root; node; node = node.successor) {
+      chain.push(node);
+    }
+
+    return (
+      <div key={root.id} className="space-y-2">
+        {chain.map((contract, index) => (
+          <div key={contract.id} className="space-y-2">
+            {index > 0 && (
+              <div className="flex items-center gap-2 pl-3 text-xs text-muted-foreground">
+                <ArrowDown className="h-3 w-3" />
+                Superseded by
+              </div>
+            )}
+            {renderContract(contract)}
+            {contract.amendments.length > 0 && (
+              <div className="ml-5 space-y-2 border-l pl-4">
+                {contract.amendments.map((amendment) => (
+                  <div key={amendment.id}>{renderContract(amendment, true)}</div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const timeline = data?.timeline ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Contract Timeline</CardTitle>
+        <CardDescription>Amendments and replacements for each agreement</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : timeline.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No contracts yet</p>
+        ) : (
+          <div className="space-y-6">{timeline.map(renderChain)}</div>
+        )}
+      </CardContent>
+
+      <ContractChangeDialog
+        customerId={customerId}
+        contract={selected}
+        mode={mode}
+        isOpen={!!selected}
+        onClose={() => setSelected(null)}
+      />
+
+      <ContractStatusDialog
+        customerId={customerId}
+        contract={statusContract}
+        isOpen={!!statusContract}
+        onClose={() => setStatusContract(null)}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,297 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api } from '../../lib/api';
+import { isApiError } from '../../types/errors';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Checkbox } from '../ui/checkbox';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/dialog';
+import { Ban, CheckCircle2, Circle, Pause, Play, Undo2, Warehouse } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { TerminateCustomerDialog } from './TerminateCustomerDialog';
+import type { CustomerLifecycleCardProps, CustomerOffboardingState, CustomerStatusHistory } from './types';
+
+const OPEN_OFFBOARDING = ['scheduled', 'terminated'];
+const FINAL_INVOICE_STATUSES = ['issued', 'sent', 'paid', 'partial', 'overdue'];
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString(undefined, { timeZone: 'UTC' });
+}
+
+/**
+ * Client status controls: pause / resume, scheduled termination with its offboarding
+ * steps and final-bill checklist, and the status history.
+ */
+export function CustomerLifecycleCard({ customerId, canEdit }: CustomerLifecycleCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [isPauseOpen, setIsPauseOpen] = useState(false);
+  const [pauseReason, setPauseReason] = useState('');
+  const [isTerminateOpen, setIsTerminateOpen] = useState(false);
+  const [finalInvoiceId, setFinalInvoiceId] = useState('');
+
+  const { data: history } = useQuery({
+    queryKey: ['client-status-history', customerId],
+    queryFn: async () => {
+      const response = await api.get(`/api/clients/${customerId}/status-history`);
+      return response as CustomerStatusHistory;
+    },
+  });
+
+  const { data: offboardingState } = useQuery({
+    queryKey: ['client-offboarding', customerId],
+    queryFn: async () => {
+      const response = await api.get(`/api/clients/${customerId}/offboarding`);
+      return response as CustomerOffboardingState;
+    },
+  });
+
+  const offboarding = offboardingState?.offboarding ?? null;
+  const isOpen = !!offboarding && OPEN_OFFBOARDING.includes(offboarding.status);
+
+  const { data: invoicesData } = useQuery({
+    queryKey: ['invoices', 'customer', customerId],
+    queryFn: () => api.get<{ invoices: Array<{ id: string; invoiceNumber: string; status: string; periodEnd: string }> }>(
+      `/api/customers/${customerId}/invoices?limit=20`
+    ),
+    enabled: canEdit && isOpen && !offboarding?.finalInvoice,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['client-offboarding', customerId] });
+    queryClient.invalidateQueries({ queryKey: ['client-status-history', customerId] });
+    queryClient.invalidateQueries({ queryKey: ['client', customerId] });
+  };
+
+  const handleError = (error: Error) => {
+    const reason = isApiError(error) ? error.response?.data?.reason : undefined;
+    toast({
+      title: 'Error',
+      description: typeof reason === 'string' ? reason : error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const actionMutation = useMutation({
+    mutationFn: ({ path, payload }: { path: string; payload?: Record<string, unknown>; message: string }) =>
+      api.post(`/api/clients/${customerId}/${path}`, payload ?? {}),
+    onSuccess: (_data, variables) => {
+      refresh();
+      if (variables.path === 'offboarding/cancel') {
+        queryClient.invalidateQueries({ queryKey: ['contract-timeline', customerId] });
+      }
+      toast({ title: 'Client Updated', description: variables.message });
+      setIsPauseOpen(false);
+      setFinalInvoiceId('');
+    },
+    onError: handleError,
+  });
+
+  const checklistMutation = useMutation({
+    mutationFn: ({ key, done }: { key: string; done: boolean }) =>
+      api.put(`/api/clients/${customerId}/offboarding/checklist/${key}`, { done }),
+    onSuccess: refresh,
+    onError: handleError,
+  });
+
+  const status = history?.status;
+  const finalInvoices = (invoicesData?.invoices ?? []).filter((invoice) => FINAL_INVOICE_STATUSES.includes(invoice.status));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Client Status</CardTitle>
+          <CardDescription>
+            Pause billing activity ingestion or schedule the end of the relationship
+          </CardDescription>
+        </div>
+        {canEdit && status && (
+          <div className="flex gap-2">
+            {status === 'active' && (
+              <Button variant="outline" onClick={() => { setPauseReason(''); setIsPauseOpen(true); }}>
+                <Pause className="h-4 w-4 mr-2" />
+                Pause
+              </Button>
+            )}
+            {status === 'paused' && (
+              <Button
+                variant="outline"
+                onClick={() => actionMutation.mutate({ path: 'resume', message: 'The client is active again' })}
+                disabled={actionMutation.isPending}
+              >
+                <Play className="h-4 w-4 mr-2" />
+                Resume
+              </Button>
+            )}
+            {status !== 'terminated' && !isOpen && (
+              <Button variant="destructive" onClick={() => setIsTerminateOpen(true)}>
+                <Ban className="h-4 w-4 mr-2" />
+                Terminate
+              </Button>
+            )}
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {status === 'paused' && (
+          <div className="rounded-md bg-muted p-3 text-sm">
+            This client is paused - new billing activities are rejected until it is resumed.
+          </div>
+        )}
+
+        {offboarding && (isOpen || offboarding.status === 'completed') && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <p className="text-sm font-medium">
+                  Termination effective {formatDate(offboarding.effectiveDate)}
+                  <Badge variant="secondary" className="ml-2">{offboarding.status}</Badge>
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {offboarding.reason}
+                  {offboarding.requestedByUser && ` • requested by ${offboarding.requestedByUser.name}`}
+                </p>
+              </div>
+              {canEdit && offboarding.status === 'scheduled' && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => actionMutation.mutate({ path: 'offboarding/cancel', message: 'Termination cancelled and all steps undone' })}
+                  disabled={!!offboardingState?.cancelBlocker || actionMutation.isPending}
+                  title={offboardingState?.cancelBlocker ?? undefined}
+                >
+                  <Undo2 className="h-4 w-4 mr-2" />
+                  Cancel Termination
+                </Button>
+              )}
+            </div>
+
+            <div className="space-y-2 text-sm">
+              <div className="flex items-center gap-2">
+                <CheckCircle2 className="h-4 w-4 text-green-600" />
+                {offboarding.contractChanges.length} contract{offboarding.contractChanges.length !== 1 ? 's' : ''} end-dated
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                {offboarding.allocationsReleasedAt
+                  ? <CheckCircle2 className="h-4 w-4 text-green-600" />
+                  : <Circle className="h-4 w-4 text-muted-foreground" />}
+                {offboarding.allocationsReleasedAt
+                  ? `${offboarding.releasedAllocations.length} warehouse allocation${offboarding.releasedAllocations.length !== 1 ? 's' : ''} released`
+                  : 'Warehouse allocations are released on the effective date'}
+                {canEdit && isOpen && !offboarding.allocationsReleasedAt && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => actionMutation.mutate({ path: 'offboarding/release-allocations', message: 'Warehouse allocations released' })}
+                    disabled={actionMutation.isPending}
+                  >
+                    <Warehouse className="mr-1 h-4 w-4" />
+                    Release Now
+                  </Button>
+                )}
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                {offboarding.finalInvoice
+                  ? <CheckCircle2 className="h-4 w-4 text-green-600" />
+                  : <Circle className="h-4 w-4 text-muted-foreground" />}
+                {offboarding.finalInvoice
+                  ? `Final invoice ${offboarding.finalInvoice.invoiceNumber} - ${offboarding.deactivatedRateCards.length} rate card${offboarding.deactivatedRateCards.length !== 1 ? 's' : ''} deactivated`
+                  : 'Rate cards are deactivated once the final invoice is issued'}
+              </div>
+              {canEdit && isOpen && !offboarding.finalInvoice && finalInvoices.length > 0 && (
+                <div className="flex items-center gap-2 pl-6">
+                  <Select value={finalInvoiceId} onValueChange={setFinalInvoiceId}>
+                    <SelectTrigger className="h-8 w-64">
+                      <SelectValue placeholder="Select final invoice" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {finalInvoices.map((invoice) => (
+                        <SelectItem key={invoice.id} value={invoice.id}>
+                          {invoice.invoiceNumber} (through {formatDate(invoice.periodEnd)})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="sm"
+                    onClick={() => actionMutation.mutate({
+                      path: 'offboarding/final-invoice',
+                      payload: { invoice_id: finalInvoiceId },
+                      message: 'Final invoice recorded and rate cards deactivated',
+                    })}
+                    disabled={!finalInvoiceId || actionMutation.isPending}
+                  >
+                    Record
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2 border-t pt-4">
+              <p className="text-sm font-medium">Final Bill Checklist</p>
+              {offboarding.finalBillChecklist.map((item) => (
+                <div key={item.key} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`final-bill-${item.key}`}
+                    checked={item.done}
+                    disabled={!canEdit || !isOpen || item.key === 'final_invoice' || checklistMutation.isPending}
+                    onCheckedChange={(checked) => checklistMutation.mutate({ key: item.key, done: !!checked })}
+                  />
+                  <Label htmlFor={`final-bill-${item.key}`} className="text-sm">{item.label}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {history && history.history.length > 0 && (
+          <div className="space-y-2 border-t pt-4">
+            <p className="text-sm font-medium">Status History</p>
+            {history.history.map((entry) => (
+              <div key={entry.id} className="text-xs text-muted-foreground">
+                <span className="font-medium text-foreground">{entry.fromStatus} → {entry.toStatus}</span>
+                {' • '}{new Date(entry.changedAt).toLocaleString()}
+                {' • '}{entry.changedByUser?.name ?? (entry.trigger === 'onboarding' ? 'Onboarding checklist' : 'System')}
+                {entry.reason && <p>{entry.reason}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isPauseOpen} onOpenChange={setIsPauseOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Pause Client</DialogTitle>
+            <DialogDescription>New billing activities are rejected while the client is paused.</DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="pauseReason">Reason *</Label>
+            <Textarea id="pauseReason" value={pauseReason} onChange={(e) => setPauseReason(e.target.value)} rows={3} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsPauseOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => actionMutation.mutate({ path: 'pause', payload: { reason: pauseReason }, message: 'The client is paused' })}
+              disabled={!pauseReason.trim() || actionMutation.isPending}
+            >
+              Pause Client
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <TerminateCustomerDialog
+        customerId={customerId}
+        isOpen={isTerminateOpen}
+        onClose={() => setIsTerminateOpen(false)}
+      />
+    </Card>
+  );
+}
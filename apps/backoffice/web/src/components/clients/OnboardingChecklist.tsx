@@ -0,0 +1,213 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api } from '../../lib/api';
+import { isApiError } from '../../types/errors';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Checkbox } from '../ui/checkbox';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Progress } from '../ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { CheckCircle2, Circle, RefreshCw, Undo2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { OnboardingChecklistData, OnboardingChecklistProps, OnboardingStep, OnboardingStepKey } from './types';
+
+const UNASSIGNED = 'unassigned';
+
+interface ChecklistResponse {
+  checklist: OnboardingChecklistData;
+  statusChange?: { from: string; to: string } | null;
+}
+
+/**
+ * Onboarding steps for a client: completion is detected from the client's records
+ * or signed off by hand, and the client goes live once the required steps are done.
+ */
+export function OnboardingChecklist({ customerId, canEdit }: OnboardingChecklistProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['client-onboarding', customerId],
+    queryFn: async () => {
+      const response = await api.get(`/api/clients/${customerId}/onboarding`);
+      return response as { checklist: OnboardingChecklistData; nextStatus: string };
+    },
+  });
+
+  const { data: usersData } = useQuery({
+    queryKey: ['admin-users'],
+    queryFn: () => api.get<{ users: Array<{ id: string; name: string }> }>('/api/admin/users'),
+    enabled: canEdit,
+  });
+
+  const handleSuccess = (response: ChecklistResponse) => {
+    queryClient.invalidateQueries({ queryKey: ['client-onboarding', customerId] });
+    if (response.statusChange) {
+      queryClient.invalidateQueries({ queryKey: ['client', customerId] });
+      toast({
+        title: 'Client Status Updated',
+        description: `Onboarding moved the client from ${response.statusChange.from} to ${response.statusChange.to}`,
+      });
+    }
+  };
+
+  const handleError = (error: Error) => {
+    const reason = isApiError(error) ? error.response?.data?.reason : undefined;
+    toast({
+      title: 'Error',
+      description: typeof reason === 'string' ? reason : error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: ({ key, payload }: { key: OnboardingStepKey; payload: Record<string, unknown> }) =>
+      api.put<ChecklistResponse>(`/api/clients/${customerId}/onboarding/steps/${key}`, payload),
+    onSuccess: handleSuccess,
+    onError: handleError,
+  });
+
+  const signOffMutation = useMutation({
+    mutationFn: ({ key, revoke }: { key: OnboardingStepKey; revoke: boolean }) =>
+      revoke
+        ? api.delete<ChecklistResponse>(`/api/clients/${customerId}/onboarding/steps/${key}/sign-off`)
+        : api.post<ChecklistResponse>(`/api/clients/${customerId}/onboarding/steps/${key}/sign-off`, {}),
+    onSuccess: handleSuccess,
+    onError: handleError,
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: () => api.post<ChecklistResponse>(`/api/clients/${customerId}/onboarding/sync`, {}),
+    onSuccess: handleSuccess,
+    onError: handleError,
+  });
+
+  const users = usersData?.users ?? [];
+  const userName = (userId: string | null) => users.find((user) => user.id === userId)?.name ?? 'a user';
+
+  const renderStep = (step: OnboardingStep) => (
+    <div key={step.key} className="flex flex-col gap-3 rounded-lg bg-muted/50 p-3 md:flex-row md:items-start md:justify-between">
+      <div className="flex min-w-0 items-start gap-3">
+        {step.complete
+          ? <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-green-600" />
+          : <Circle className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />}
+        <div className="min-w-0 space-y-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <p className="text-sm font-medium">{step.label}</p>
+            <Badge variant={step.required ? 'default' : 'outline'}>{step.required ? 'required' : 'optional'}</Badge>
+            {step.overdue && <Badge variant="destructive">overdue</Badge>}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {step.description}
+            {step.detected && ' • detected'}
+            {step.signedOff && ` • signed off by ${userName(step.signedOffBy)} on ${new Date(step.signedOffAt!).toLocaleDateString()}`}
+          </p>
+          {step.notes && <p className="text-xs text-muted-foreground">{step.notes}</p>}
+        </div>
+      </div>
+
+      {canEdit && (
+        <div className="flex shrink-0 flex-wrap items-center gap-2">
+          <Select
+            value={step.ownerUserId ?? UNASSIGNED}
+            onValueChange={(value) => updateMutation.mutate({
+              key: step.key,
+              payload: { owner_user_id: value === UNASSIGNED ? null : value },
+            })}
+          >
+            <SelectTrigger className="h-8 w-36">
+              <SelectValue placeholder="Owner" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNASSIGNED}>No owner</SelectItem>
+              {users.map((user) => (
+                <SelectItem key={user.id} value={user.id}>{user.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="date"
+            className="h-8 w-36"
+            defaultValue={step.dueDate ?? ''}
+            onBlur={(e) => {
+              if ((e.target.value || null) !== step.dueDate) {
+                updateMutation.mutate({ key: step.key, payload: { due_date: e.target.value || null } });
+              }
+            }}
+          />
+          <div className="flex items-center gap-1">
+            <Checkbox
+              id={`required-${step.key}`}
+              checked={step.required}
+              onCheckedChange={(checked) => updateMutation.mutate({ key: step.key, payload: { required: !!checked } })}
+            />
+            <Label htmlFor={`required-${step.key}`} className="text-xs">Required</Label>
+          </div>
+          {step.signedOff ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => signOffMutation.mutate({ key: step.key, revoke: true })}
+              disabled={signOffMutation.isPending}
+            >
+              <Undo2 className="mr-1 h-4 w-4" />
+              Undo
+            </Button>
+          ) : !step.detected && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => signOffMutation.mutate({ key: step.key, revoke: false })}
+              disabled={signOffMutation.isPending}
+            >
+              Sign Off
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  const checklist = data?.checklist;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Onboarding Checklist</CardTitle>
+          <CardDescription>
+            The client moves from prospect to setup to active as the required steps complete
+          </CardDescription>
+        </div>
+        {canEdit && data && data.nextStatus !== data.checklist.status && (
+          <Button variant="outline" onClick={() => syncMutation.mutate()} disabled={syncMutation.isPending}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Move to {data.nextStatus}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !checklist ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>{checklist.completedSteps} of {checklist.steps.length} steps complete</span>
+                <span className="text-muted-foreground">
+                  {checklist.requiredComplete
+                    ? 'All required steps done'
+                    : `${checklist.steps.filter((step) => step.required && step.complete).length} of ${checklist.requiredSteps} required`}
+                </span>
+              </div>
+              <Progress value={(checklist.completedSteps / checklist.steps.length) * 100} />
+            </div>
+            <div className="space-y-2">{checklist.steps.map(renderStep)}</div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,224 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api } from '../../lib/api';
+import { isApiError } from '../../types/errors';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/dialog';
+import { ExternalLink, KeyRound, UserPlus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { PortalUser, PortalUsersCardProps } from './types';
+
+/**
+ * Customer logins for the self-service portal. Portal users only ever see this
+ * client's data and cannot sign in to the backoffice.
+ */
+export function PortalUsersCard({ customerId, portalEnabled, portalSubdomain, canEdit }: PortalUsersCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+  const [passwordUser, setPasswordUser] = useState<PortalUser | null>(null);
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['client-portal-users', customerId],
+    queryFn: () => api.get<{ users: PortalUser[] }>(`/api/clients/${customerId}/portal-users`),
+  });
+
+  const handleError = (error: Error) => {
+    const reason = isApiError(error) ? error.response?.data?.reason : undefined;
+    toast({
+      title: 'Error',
+      description: typeof reason === 'string' ? reason : error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const closeDialogs = () => {
+    setIsInviteOpen(false);
+    setPasswordUser(null);
+    setEmail('');
+    setName('');
+    setPassword('');
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: () => api.post(`/api/clients/${customerId}/portal-users`, { email, name, password }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['client-portal-users', customerId] });
+      toast({ title: 'Portal User Added', description: `${email} can now sign in to the portal` });
+      closeDialogs();
+    },
+    onError: handleError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ userId, payload }: { userId: string; payload: Record<string, unknown>; message: string }) =>
+      api.put(`/api/clients/${customerId}/portal-users/${userId}`, payload),
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['client-portal-users', customerId] });
+      toast({ title: 'Portal User Updated', description: variables.message });
+      closeDialogs();
+    },
+    onError: handleError,
+  });
+
+  const users = data?.users ?? [];
+  const portalPath = portalSubdomain ? `/portal/${portalSubdomain}` : null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Portal Users</CardTitle>
+          <CardDescription>
+            Client logins for the read-only portal: invoices, payments, rates, contracts and warehouses
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          {portalEnabled && portalPath && (
+            <Button variant="outline" asChild>
+              <a href={portalPath} target="_blank" rel="noreferrer">
+                <ExternalLink className="h-4 w-4 mr-2" />
+                Open Portal
+              </a>
+            </Button>
+          )}
+          {canEdit && (
+            <Button onClick={() => setIsInviteOpen(true)}>
+              <UserPlus className="h-4 w-4 mr-2" />
+              Add User
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {(!portalEnabled || !portalSubdomain) && (
+          <div className="rounded-md bg-muted p-3 text-sm">
+            Enable the client portal and set a subdomain below - portal users cannot sign in until then.
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading portal users...</p>
+        ) : users.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No portal users yet</p>
+        ) : (
+          users.map((user) => (
+            <div key={user.id} className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3">
+              <div>
+                <p className="text-sm font-medium">
+                  {user.name}
+                  {user.disabled && <Badge variant="secondary" className="ml-2">Disabled</Badge>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {user.email}
+                  {' • '}
+                  {user.lastLoginAt ? `last signed in ${new Date(user.lastLoginAt).toLocaleString()}` : 'never signed in'}
+                </p>
+              </div>
+              {canEdit && (
+                <div className="flex gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => setPasswordUser(user)}>
+                    <KeyRound className="mr-1 h-4 w-4" />
+                    Reset Password
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateMutation.mutate({
+                      userId: user.id,
+                      payload: { disabled: !user.disabled },
+                      message: user.disabled ? `${user.email} can sign in again` : `${user.email} has been signed out and disabled`,
+                    })}
+                    disabled={updateMutation.isPending}
+                  >
+                    {user.disabled ? 'Enable' : 'Disable'}
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={isInviteOpen} onOpenChange={(open) => !open && closeDialogs()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add Portal User</DialogTitle>
+            <DialogDescription>Share the initial password with the user directly.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="portalUserName">Name *</Label>
+              <Input id="portalUserName" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="portalUserEmail">Email *</Label>
+              <Input id="portalUserEmail" type="email" value={email} onChange={(e) => setEmail(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="portalUserPassword">Initial Password *</Label>
+              <Input
+                id="portalUserPassword"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                minLength={8}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialogs}>Cancel</Button>
+            <Button
+              onClick={() => inviteMutation.mutate()}
+              disabled={!name.trim() || !email.trim() || password.length < 8 || inviteMutation.isPending}
+            >
+              Add User
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!passwordUser} onOpenChange={(open) => !open && closeDialogs()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reset Password</DialogTitle>
+            <DialogDescription>
+              {passwordUser?.email} is signed out everywhere and must use the new password.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="portalUserNewPassword">New Password *</Label>
+            <Input
+              id="portalUserNewPassword"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              minLength={8}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialogs}>Cancel</Button>
+            <Button
+              onClick={() => passwordUser && updateMutation.mutate({
+                userId: passwordUser.id,
+                payload: { password },
+                message: `Password reset for ${passwordUser.email}`,
+              })}
+              disabled={password.length < 8 || updateMutation.isPending}
+            >
+              Reset Password
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../../lib/api';
+import { isApiError } from '../../types/errors';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/dialog';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import type { TerminateCustomerDialogProps } from './types';
+
+/**
+ * Schedule the end of a customer relationship for an effective date.
+ */
+export function TerminateCustomerDialog({ customerId, isOpen, onClose }: TerminateCustomerDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [effectiveDate, setEffectiveDate] = useState('');
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setEffectiveDate('');
+      setReason('');
+    }
+  }, [isOpen]);
+
+  const terminateMutation = useMutation({
+    mutationFn: (payload: Record<string, unknown>) => api.post(`/api/clients/${customerId}/terminate`, payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['client-offboarding', customerId] });
+      queryClient.invalidateQueries({ queryKey: ['client-status-history', customerId] });
+      queryClient.invalidateQueries({ queryKey: ['client', customerId] });
+      queryClient.invalidateQueries({ queryKey: ['contract-timeline', customerId] });
+      toast({
+        title: 'Termination Scheduled',
+        description: `The client will be terminated on ${effectiveDate}`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      const reason = isApiError(error) ? error.response?.data?.reason : undefined;
+      toast({
+        title: 'Termination Not Allowed',
+        description: typeof reason === 'string' ? reason : error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    terminateMutation.mutate({ effective_date: effectiveDate, reason });
+  };
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Terminate Client</DialogTitle>
+          <DialogDescription>
+            Contracts end the day before the effective date and a final-bill checklist is created.
+            Everything can be undone until the effective date.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="terminateEffective">Effective Date *</Label>
+            <Input
+              id="terminateEffective"
+              type="date"
+              min={today}
+              value={effectiveDate}
+              onChange={(e) => setEffectiveDate(e.target.value)}
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="terminateReason">Reason *</Label>
+            <Textarea
+              id="terminateReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              placeholder="Minimum 10 characters"
+              required
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+            <Button
+              type="submit"
+              variant="destructive"
+              disabled={!effectiveDate || reason.trim().length < 10 || terminateMutation.isPending}
+            >
+              Schedule Termination
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
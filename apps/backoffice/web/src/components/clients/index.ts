@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Client Components Barrel Export
+ *
+ * Central export point for client detail components and their types.
+ */
+
+export { ContractTimeline } from './ContractTimeline';
+export { ContractChangeDialog } from './ContractChangeDialog';
+export { ContractStatusDialog } from './ContractStatusDialog';
+export { ClientTimeline } from './ClientTimeline';
+export { ContactLogDialog } from './ContactLogDialog';
+export { OnboardingChecklist } from './OnboardingChecklist';
+export { CustomerLifecycleCard } from './CustomerLifecycleCard';
+export { TerminateCustomerDialog } from './TerminateCustomerDialog';
+export { PortalUsersCard } from './PortalUsersCard';
+
+export type {
+  ContractTimelineNode,
+  ContractTimelineProps,
+  ContractChangeDialogProps,
+  ContractChangeMode,
+  ContractStatus,
+  ContractStatusChange,
+  ContractStatusHistory,
+  ContractStatusDialogProps,
+  ContactLogType,
+  SystemEventType,
+  ClientTimelineItem,
+  ClientTimelineContact,
+  ClientTimelineProps,
+  ContactLogDialogProps,
+  OnboardingStepKey,
+  OnboardingStep,
+  OnboardingChecklistData,
+  OnboardingChecklistProps,
+  CustomerStatus,
+  CustomerStatusChange,
+  CustomerStatusHistory,
+  FinalBillItem,
+  CustomerOffboarding,
+  CustomerOffboardingState,
+  CustomerLifecycleCardProps,
+  TerminateCustomerDialogProps,
+  PortalUser,
+  PortalUsersCardProps,
+} from './types';
@@ -0,0 +1,266 @@
+/**
+ * @fileoverview Client Component Types
+ *
+ * Shared types for client detail components (contract lifecycle, client timeline,
+ * onboarding checklist, customer status and offboarding).
+ */
+
+// ============================================
+// CONTRACT TIMELINE
+// ============================================
+
+/**
+ * Contract in the timeline tree - amendments hang under the contract they amend,
+ * successor is the contract that superseded it
+ */
+export type ContractStatus = 'draft' | 'active' | 'expired' | 'terminated';
+
+export interface ContractTimelineNode {
+  id: string;
+  name: string;
+  contractNumber: string | null;
+  contractType: 'original' | 'amendment' | 'addendum' | 'renewal' | null;
+  status: string;
+  startDate: string;
+  endDate: string | null;
+  executionDate: string | null;
+  amendmentNumber: number | null;
+  parentContractId: string | null;
+  supersededByContractId: string | null;
+  archivedAt: string | null;
+  /** Statuses the contract may move to next */
+  allowedTransitions?: ContractStatus[];
+  amendments: ContractTimelineNode[];
+  successor: ContractTimelineNode | null;
+}
+
+export type ContractChangeMode = 'amend' | 'supersede';
+
+export interface ContractTimelineProps {
+  customerId: string;
+  canEdit: boolean;
+}
+
+export interface ContractChangeDialogProps {
+  customerId: string;
+  contract: ContractTimelineNode | null;
+  mode: ContractChangeMode;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// ============================================
+// CONTRACT STATUS
+// ============================================
+
+export interface ContractStatusChange {
+  id: string;
+  contractId: string;
+  fromStatus: ContractStatus;
+  toStatus: ContractStatus;
+  trigger: 'manual' | 'scheduled' | 'supersede';
+  reason: string | null;
+  changedBy: string | null;
+  changedAt: string;
+  changedByUser: { id: string; name: string } | null;
+}
+
+export interface ContractStatusHistory {
+  contractId: string;
+  status: ContractStatus;
+  allowedTransitions: ContractStatus[];
+  history: ContractStatusChange[];
+}
+
+export interface ContractStatusDialogProps {
+  customerId: string;
+  contract: ContractTimelineNode | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// ============================================
+// CLIENT TIMELINE
+// ============================================
+
+export type ContactLogType = 'call' | 'email' | 'meeting' | 'note' | 'other';
+
+export type SystemEventType =
+  | 'contract_signed'
+  | 'contract_status_changed'
+  | 'rate_card_activated'
+  | 'customer_terminated';
+
+/**
+ * Contact log entry or system event - system events are derived and read-only
+ */
+export interface ClientTimelineItem {
+  id: string;
+  kind: 'contact_log' | 'system';
+  type: ContactLogType | SystemEventType;
+  occurredAt: string;
+  title: string;
+  description: string | null;
+  contact: { id: string; name: string } | null;
+  user: { id: string; name: string } | null;
+  reference: { entity: 'contract' | 'rate_card' | 'customer'; id: string } | null;
+}
+
+export interface ClientTimelineContact {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+export interface ClientTimelineProps {
+  customerId: string;
+  contacts: ClientTimelineContact[];
+  canEdit: boolean;
+}
+
+export interface ContactLogDialogProps {
+  customerId: string;
+  contacts: ClientTimelineContact[];
+  /** Entry to edit; null logs a new contact */
+  entry: ClientTimelineItem | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// ============================================
+// ONBOARDING CHECKLIST
+// ============================================
+
+export type OnboardingStepKey =
+  | 'contract_signed'
+  | 'rate_card_active'
+  | 'warehouse_allocated'
+  | 'facilities_added'
+  | 'primary_contact'
+  | 'portal_enabled';
+
+/**
+ * Checklist step - complete when detected from the client's data or signed off
+ */
+export interface OnboardingStep {
+  key: OnboardingStepKey;
+  label: string;
+  description: string;
+  required: boolean;
+  detected: boolean;
+  signedOff: boolean;
+  complete: boolean;
+  overdue: boolean;
+  ownerUserId: string | null;
+  dueDate: string | null;
+  notes: string | null;
+  signedOffAt: string | null;
+  signedOffBy: string | null;
+}
+
+export interface OnboardingChecklistData {
+  customerId: string;
+  status: string;
+  steps: OnboardingStep[];
+  completedSteps: number;
+  requiredSteps: number;
+  requiredComplete: boolean;
+}
+
+export interface OnboardingChecklistProps {
+  customerId: string;
+  canEdit: boolean;
+}
+
+// ============================================
+// CUSTOMER STATUS & OFFBOARDING
+// ============================================
+
+export type CustomerStatus = 'prospect' | 'setup' | 'active' | 'paused' | 'terminated';
+
+export interface CustomerStatusChange {
+  id: string;
+  fromStatus: CustomerStatus;
+  toStatus: CustomerStatus;
+  trigger: 'manual' | 'onboarding' | 'offboarding';
+  reason: string | null;
+  changedAt: string;
+  changedByUser: { id: string; name: string } | null;
+}
+
+export interface CustomerStatusHistory {
+  customerId: string;
+  status: CustomerStatus;
+  allowedTransitions: CustomerStatus[];
+  history: CustomerStatusChange[];
+}
+
+export interface FinalBillItem {
+  key: string;
+  label: string;
+  done: boolean;
+  doneAt: string | null;
+  doneBy: string | null;
+}
+
+/**
+ * Scheduled termination - each step keeps what it changed so it can be cancelled
+ * until the effective date
+ */
+export interface CustomerOffboarding {
+  id: string;
+  status: 'scheduled' | 'terminated' | 'completed' | 'cancelled';
+  effectiveDate: string;
+  reason: string;
+  contractChanges: Array<{ contractId: string; previousEndDate: string | null; previousAutoRenew: boolean; endDate: string }>;
+  releasedAllocations: Array<{ allocationId: string; previousStatus: string }>;
+  deactivatedRateCards: string[];
+  allocationsReleasedAt: string | null;
+  rateCardsDeactivatedAt: string | null;
+  finalInvoice: { id: string; invoiceNumber: string; periodEnd: string; status: string } | null;
+  finalBillChecklist: FinalBillItem[];
+  requestedByUser: { id: string; name: string } | null;
+  cancelledByUser: { id: string; name: string } | null;
+  cancelledAt: string | null;
+  terminatedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+export interface CustomerOffboardingState {
+  offboarding: CustomerOffboarding | null;
+  /** Why the offboarding cannot be cancelled, null when it can */
+  cancelBlocker: string | null;
+}
+
+export interface CustomerLifecycleCardProps {
+  customerId: string;
+  canEdit: boolean;
+}
+
+export interface TerminateCustomerDialogProps {
+  customerId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Customer portal login - separate from staff users
+ */
+export interface PortalUser {
+  id: string;
+  customerId: string;
+  email: string;
+  name: string;
+  disabled: boolean;
+  lastLoginAt: string | null;
+  createdAt: string;
+  createdByUser: { id: string; name: string } | null;
+}
+
+export interface PortalUsersCardProps {
+  customerId: string;
+  portalEnabled: boolean;
+  portalSubdomain: string | null;
+  canEdit: boolean;
+}
@@ -1,8 +1,9 @@
 import { useLocation } from 'react-router-dom';
-import { Menu, Bell } from 'lucide-react';
+import { Menu } from 'lucide-react';
 import { useSidebar } from './SidebarContext';
 import { ThemeToggle } from './ThemeToggle';
 import { UserMenu } from './UserMenu';
+import { NotificationsMenu } from './NotificationsMenu';
 import { Button } from '../ui/button';
 import { navigation } from '../../config/navigation';
 import { cn } from '../../lib/utils';
@@ -72,10 +73,7 @@ export function Header({ children }: HeaderProps) {
       {/* Right side actions */}
       <div className="flex items-center gap-2">
         {/* Notifications */}
-        <Button variant="ghost" size="icon" className="h-9 w-9">
-          <Bell className="h-4 w-4" />
-          <span className="sr-only">Notifications</span>
-        </Button>
+        <NotificationsMenu />
 
         {/* Theme toggle */}
         <ThemeToggle />
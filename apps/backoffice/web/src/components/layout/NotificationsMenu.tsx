@@ -0,0 +1,69 @@
+import { Link } from 'react-router-dom';
+import { Bell } from 'lucide-react';
+import { Button } from '../ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '../ui/dropdown-menu';
+import { useRenewalAlerts } from '../../hooks/useRenewalAlerts';
+import { cn } from '../../lib/utils';
+
+const severityDot = {
+  critical: 'bg-red-500',
+  warning: 'bg-amber-500',
+  info: 'bg-blue-500',
+};
+
+export function NotificationsMenu() {
+  const { data } = useRenewalAlerts();
+  const alerts = data?.alerts.filter((alert) => alert.status === 'open') ?? [];
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative h-9 w-9">
+          <Bell className="h-4 w-4" />
+          {alerts.length > 0 && (
+            <span className="absolute right-1 top-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-semibold text-destructive-foreground">
+              {alerts.length > 99 ? '99+' : alerts.length}
+            </span>
+          )}
+          <span className="sr-only">Notifications</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {alerts.length === 0 ? (
+          <p className="px-2 py-4 text-center text-sm text-muted-foreground">No new notifications</p>
+        ) : (
+          alerts.slice(0, 8).map((alert) => (
+            <DropdownMenuItem key={alert.id} asChild>
+              <Link to={`/clients/${alert.customerId}`} className="flex cursor-pointer items-start gap-2">
+                <span className={cn('mt-1.5 h-2 w-2 shrink-0 rounded-full', severityDot[alert.severity])} />
+                <div className="space-y-0.5">
+                  <p className="text-sm font-medium">{alert.title}</p>
+                  <p className="text-xs text-muted-foreground">{alert.message}</p>
+                </div>
+              </Link>
+            </DropdownMenuItem>
+          ))
+        )}
+        {alerts.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem asChild>
+              <Link to="/" className="cursor-pointer justify-center text-sm">
+                View all on the dashboard
+              </Link>
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,61 @@
+import { Checkbox } from '../ui/checkbox';
+import { Label } from '../ui/label';
+import type { NotificationEventType, NotificationPreferences } from '../../types/notifications';
+
+export const NOTIFICATION_EVENT_OPTIONS: Array<{
+  eventType: NotificationEventType;
+  label: string;
+  description: string;
+  customerFacing: boolean;
+}> = [
+  { eventType: 'invoice_issued', label: 'Invoice issued', description: 'An invoice is issued', customerFacing: true },
+  { eventType: 'payment_received', label: 'Payment received', description: 'A payment is recorded against an invoice', customerFacing: true },
+  { eventType: 'contract_expiring', label: 'Contract expiring', description: 'A contract reaches an expiry alert window', customerFacing: true },
+  { eventType: 'import_failed', label: 'Import failed', description: 'A data import fails (imports you run are always reported unless turned off)', customerFacing: false },
+];
+
+interface NotificationPreferenceTogglesProps {
+  /** customer: events default on (opt-out), staff: events default off (opt-in) */
+  audience: 'customer' | 'staff';
+  value: NotificationPreferences;
+  onChange: (value: NotificationPreferences) => void;
+  disabled?: boolean;
+  idPrefix?: string;
+}
+
+/**
+ * One checkbox per notification event
+ */
+export function NotificationPreferenceToggles({
+  audience,
+  value,
+  onChange,
+  disabled,
+  idPrefix = 'notify',
+}: NotificationPreferenceTogglesProps) {
+  const options = NOTIFICATION_EVENT_OPTIONS.filter((option) => audience === 'staff' || option.customerFacing);
+
+  return (
+    <div className="space-y-3">
+      {options.map((option) => {
+        const checked = value[option.eventType] ?? audience === 'customer';
+        const id = `${idPrefix}-${option.eventType}`;
+
+        return (
+          <div key={option.eventType} className="flex items-start gap-3">
+            <Checkbox
+              id={id}
+              checked={checked}
+              disabled={disabled}
+              onCheckedChange={(state) => onChange({ ...value, [option.eventType]: state === true })}
+            />
+            <div className="space-y-0.5">
+              <Label htmlFor={id} className="font-normal">{option.label}</Label>
+              <p className="text-xs text-muted-foreground">{option.description}</p>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { NavLink, Outlet } from 'react-router-dom';
+import { LogOut } from 'lucide-react';
+import { Button } from '../ui/button';
+import { ThemeToggle } from '../layout/ThemeToggle';
+import { cn } from '../../lib/utils';
+import type { PortalUser } from '../../types/portal';
+
+interface PortalLayoutProps {
+  user: PortalUser;
+  /** '' when served from a portal subdomain, '/portal/:subdomain' otherwise */
+  basePath: string;
+  onLogout: () => void;
+}
+
+const PORTAL_NAVIGATION = [
+  { label: 'Overview', path: '' },
+  { label: 'Invoices', path: '/invoices' },
+  { label: 'Payments', path: '/payments' },
+  { label: 'Rates', path: '/rates' },
+  { label: 'Contracts & Warehouses', path: '/contracts' },
+];
+
+/**
+ * Customer portal shell - top navigation only, no backoffice sidebar
+ */
+export function PortalLayout({ user, basePath, onLogout }: PortalLayoutProps) {
+  return (
+    <div className="min-h-screen bg-muted/30">
+      <header className="border-b bg-card">
+        <div className="mx-auto flex h-16 max-w-6xl items-center gap-4 px-4 lg:px-6">
+          <img src="/handled_icon.png" alt="Handled" className="h-8 w-8" />
+          <div className="flex-1">
+            <p className="text-lg font-semibold">{user.customer.name}</p>
+          </div>
+          <span className="hidden text-sm text-muted-foreground md:inline">{user.email}</span>
+          <ThemeToggle />
+          <Button variant="ghost" size="sm" onClick={onLogout}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Sign Out
+          </Button>
+        </div>
+        <nav className="mx-auto flex max-w-6xl gap-1 overflow-x-auto px-4 lg:px-6">
+          {PORTAL_NAVIGATION.map((item) => (
+            <NavLink
+              key={item.label}
+              to={`${basePath}${item.path}` || '/'}
+              end
+              className={({ isActive }) => cn(
+                'whitespace-nowrap border-b-2 px-3 py-2 text-sm font-medium transition-colors',
+                isActive ? 'border-primary text-foreground' : 'border-transparent text-muted-foreground hover:text-foreground'
+              )}
+            >
+              {item.label}
+            </NavLink>
+          ))}
+        </nav>
+      </header>
+      <main className="mx-auto max-w-6xl space-y-6 p-4 lg:p-6">
+        <Outlet />
+      </main>
+    </div>
+  );
+}
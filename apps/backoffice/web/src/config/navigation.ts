@@ -147,14 +147,16 @@ export const navigation: NavSection[] = [
     label: 'Billing',
     icon: Receipt,
     href: '/billing',
-    implemented: false,
-    // permission: 'view_billing', // TODO: Enable after database migration
+    implemented: true,
+    requiredAnyPermission: ['view_billing', 'manage_billing'],
     children: [
-      { id: 'invoices', label: 'Invoices', href: '/billing', implemented: false },
-      { id: 'storage-billing', label: 'Storage Billing', href: '/billing/storage', implemented: false },
+      { id: 'invoices', label: 'Invoices', href: '/billing', implemented: true, requiredAnyPermission: ['view_billing', 'manage_billing'] },
+      { id: 'storage-billing', label: 'Storage Billing', href: '/billing/storage', implemented: true },
+      { id: 'carrier-costs', label: 'Carrier Costs', href: '/billing/carrier-costs', implemented: true },
+      { id: 'rate-card-templates', label: 'Rate Card Templates', href: '/billing/rate-card-templates', implemented: true, requiredAnyPermission: ['view_billing', 'manage_billing'] },
       { id: 'activity-charges', label: 'Activity Charges', href: '/billing/activity', implemented: false },
-      { id: 'credit-notes', label: 'Credit Notes', href: '/billing/credits', implemented: false },
-      { id: 'payments', label: 'Payments & AR', href: '/billing/payments', implemented: false },
+      { id: 'credit-notes', label: 'Credit Notes', href: '/billing/credits', implemented: true, requiredAnyPermission: ['view_billing', 'manage_billing'] },
+      { id: 'payments', label: 'Payments & AR', href: '/billing/payments', implemented: true, requiredAnyPermission: ['view_billing', 'manage_billing'] },
       { id: 'reconciliation', label: 'Reconciliation', href: '/billing/reconciliation', implemented: false },
       { id: 'financial-reports', label: 'Financial Reports', href: '/billing/reports', implemented: false },
     ],
@@ -212,14 +214,14 @@ export const navigation: NavSection[] = [
     href: '/admin',
     implemented: true,
     // Show if user can access ANY admin page
-    requiredAnyPermission: ['view_users', 'manage_users', 'view_roles', 'manage_roles'],
+    requiredAnyPermission: ['view_users', 'manage_users', 'view_roles', 'manage_roles', 'view_settings', 'manage_settings'],
     children: [
       { id: 'users', label: 'Users & Roles', href: '/admin/users', implemented: true, requiredAnyPermission: ['view_users', 'manage_users'] },
       { id: 'roles', label: 'Role Permissions', href: '/admin/roles', implemented: true, requiredAnyPermission: ['view_roles', 'manage_roles'] },
       { id: 'company', label: 'Company Settings', href: '/admin/company', implemented: false },
       { id: 'billing-rules', label: 'Billing Rules', href: '/admin/billing-rules', implemented: false },
-      { id: 'notifications', label: 'Notifications', href: '/admin/notifications', implemented: false },
-      { id: 'audit-log', label: 'Audit Log', href: '/admin/audit-log', implemented: false },
+      { id: 'notifications', label: 'Notifications', href: '/admin/notifications', implemented: true, requiredAnyPermission: ['view_settings', 'manage_settings'] },
+      { id: 'audit-log', label: 'Audit Log', href: '/admin/audit-log', implemented: true, requiredAnyPermission: ['view_settings', 'manage_settings'] },
     ],
   },
   {
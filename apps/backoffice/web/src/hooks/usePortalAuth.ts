@@ -0,0 +1,85 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../lib/api';
+import { isApiError } from '../types/errors';
+import type { PortalBranding, PortalUser } from '../types/portal';
+
+/**
+ * Portal subdomain when the app is served from a portal host
+ * (acme.portal.handled.app with VITE_PORTAL_BASE_DOMAIN=portal.handled.app), otherwise null
+ */
+export function getPortalHostSubdomain(): string | null {
+  const baseDomain = import.meta.env.VITE_PORTAL_BASE_DOMAIN as string | undefined;
+  if (!baseDomain) return null;
+
+  const hostname = window.location.hostname.toLowerCase();
+  const suffix = `.${baseDomain.toLowerCase()}`;
+  if (!hostname.endsWith(suffix)) return null;
+
+  const label = hostname.slice(0, -suffix.length);
+  return label && !label.includes('.') ? label : null;
+}
+
+/**
+ * Customer portal session - separate from the staff session in useAuth
+ */
+export function usePortalAuth(subdomain: string) {
+  const queryClient = useQueryClient();
+
+  const { data: branding, isLoading: isBrandingLoading } = useQuery({
+    queryKey: ['portal', 'branding', subdomain],
+    queryFn: () => api.get<PortalBranding>(`/api/portal/auth/portal?subdomain=${encodeURIComponent(subdomain)}`),
+    retry: false,
+    staleTime: Infinity,
+  });
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['portal', 'me', subdomain],
+    queryFn: async () => {
+      try {
+        return await api.get<PortalUser>(`/api/portal/auth/me?subdomain=${encodeURIComponent(subdomain)}`);
+      } catch (error: unknown) {
+        // Signed out, disabled, portal switched off or signed in to another portal - show the login page
+        if (isApiError(error) && (error.response?.status === 401 || error.response?.status === 403)) {
+          return null;
+        }
+        throw error;
+      }
+    },
+    retry: false,
+    staleTime: 1000 * 60 * 5,
+    refetchOnWindowFocus: false,
+  });
+
+  // Portal data cached for a previous session must not outlive it
+  const clearPortalData = () => {
+    queryClient.removeQueries({
+      predicate: (query) => query.queryKey[0] === 'portal' && query.queryKey[1] !== 'me' && query.queryKey[1] !== 'branding',
+    });
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: (credentials: { email: string; password: string }) =>
+      api.post('/api/portal/auth/login', { ...credentials, subdomain }),
+    onSuccess: () => {
+      clearPortalData();
+      queryClient.invalidateQueries({ queryKey: ['portal', 'me', subdomain] });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: () => api.post('/api/portal/auth/logout', {}),
+    onSuccess: () => {
+      queryClient.setQueryData(['portal', 'me', subdomain], null);
+      clearPortalData();
+    },
+  });
+
+  return {
+    user: data,
+    branding,
+    isLoading: isLoading || isBrandingLoading,
+    login: loginMutation.mutateAsync,
+    logout: logoutMutation.mutateAsync,
+    isLoggingIn: loginMutation.isPending,
+  };
+}
@@ -0,0 +1,33 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api } from '../lib/api';
+import { PERMISSIONS, usePermissions } from './usePermissions';
+import type { RenewalAlert, RenewalAlertList } from '../types/renewalAlerts';
+
+/**
+ * Open + acknowledged renewal alerts (shared by the header notifications and dashboard)
+ */
+export function useRenewalAlerts() {
+  const { hasPermission } = usePermissions();
+
+  return useQuery({
+    queryKey: ['renewal-alerts'],
+    queryFn: async () => {
+      const response = await api.get('/api/renewal-alerts');
+      return response as RenewalAlertList;
+    },
+    enabled: hasPermission(PERMISSIONS.VIEW_CLIENTS),
+    refetchInterval: 5 * 60 * 1000,
+  });
+}
+
+export function useAcknowledgeRenewalAlert() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (alertId: string) =>
+      api.post<RenewalAlert>(`/api/renewal-alerts/${alertId}/acknowledge`, {}),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['renewal-alerts'] });
+    },
+  });
+}
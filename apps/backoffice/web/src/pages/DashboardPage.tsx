@@ -1,8 +1,14 @@
 import { Link } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import { Button } from '../components/ui/button';
+import { Badge } from '../components/ui/badge';
+import { useAcknowledgeRenewalAlert, useRenewalAlerts } from '../hooks/useRenewalAlerts';
+import { PERMISSIONS, usePermissions } from '../hooks/usePermissions';
+import type { RenewalAlertSeverity } from '../types/renewalAlerts';
 import { 
   Activity, 
+  CalendarClock,
+  Check,
   Upload, 
   Download, 
   Database, 
@@ -12,6 +18,86 @@ import {
   Layers
 } from 'lucide-react';
 
+const severityVariant: Record<RenewalAlertSeverity, 'destructive' | 'default' | 'secondary'> = {
+  critical: 'destructive',
+  warning: 'default',
+  info: 'secondary',
+};
+
+/**
+ * Expiring rate cards / contracts and drafted renewals raised by the daily renewal check
+ */
+function RenewalTasksCard() {
+  const { hasPermission } = usePermissions();
+  const { data, isLoading } = useRenewalAlerts();
+  const acknowledge = useAcknowledgeRenewalAlert();
+
+  if (!hasPermission(PERMISSIONS.VIEW_CLIENTS)) return null;
+
+  const alerts = data?.alerts ?? [];
+  const canAcknowledge = hasPermission(PERMISSIONS.MANAGE_CLIENTS);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Renewals & Expiries
+          </CardTitle>
+          <CardDescription>Rate cards and contracts that need attention before they lapse</CardDescription>
+        </div>
+        {data && data.counts.open > 0 && (
+          <Badge variant="destructive">{data.counts.open} new</Badge>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : alerts.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CheckCircle className="h-4 w-4 text-green-600" />
+            Nothing expiring in the alert windows
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {alerts.map((alert) => (
+              <div
+                key={alert.id}
+                className="flex items-start justify-between gap-3 rounded-lg bg-muted/50 p-3"
+              >
+                <Link to={`/clients/${alert.customerId}`} className="min-w-0 flex-1 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={severityVariant[alert.severity]}>
+                      {alert.windowDays ? `${alert.windowDays} days` : 'Renewal'}
+                    </Badge>
+                    <p className="truncate text-sm font-medium">{alert.title}</p>
+                  </div>
+                  <p className="text-xs text-muted-foreground">{alert.message}</p>
+                </Link>
+                {alert.status === 'acknowledged' ? (
+                  <span className="shrink-0 text-xs text-muted-foreground">Acknowledged</span>
+                ) : canAcknowledge && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="shrink-0"
+                    onClick={() => acknowledge.mutate(alert.id)}
+                    disabled={acknowledge.isPending}
+                  >
+                    <Check className="mr-1 h-4 w-4" />
+                    Acknowledge
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export function DashboardPage() {
   return (
     <div className="space-y-6">
@@ -72,6 +158,9 @@ export function DashboardPage() {
         </Card>
       </div>
 
+      {/* Renewal tasks */}
+      <RenewalTasksCard />
+
       {/* Quick Actions */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <Card>
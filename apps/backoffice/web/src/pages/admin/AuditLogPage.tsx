@@ -0,0 +1,307 @@
+import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { api } from '../../lib/api';
+import { Button } from '../../components/ui/button';
+import { Card, CardContent } from '../../components/ui/card';
+import { Input } from '../../components/ui/input';
+import { Badge } from '../../components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../../components/ui/dialog';
+import { History, X } from 'lucide-react';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ACTION_VARIANTS,
+  AuditChangeDiff,
+  formatAuditActor,
+  formatEntityType,
+  formatFieldName,
+  getChangedFields,
+} from '../../components/audit';
+import type { AuditAction, AuditLogEntry, AuditLogList, AuditSource } from '../../types/auditLog';
+
+const PAGE_SIZE = 100;
+
+const SOURCE_LABELS: Record<AuditSource, string> = {
+  user: 'Staff user',
+  portal: 'Customer portal',
+  job: 'Scheduled job',
+  system: 'System',
+};
+
+/** Filters that can be set from links elsewhere (e.g. a user's history) */
+const LINK_FILTERS = ['entityId', 'actorId', 'requestId'] as const;
+
+function summarizeEntry(entry: AuditLogEntry) {
+  if (entry.details) return entry.details;
+  if (entry.action === 'UPDATE') return getChangedFields(entry).map(formatFieldName).join(', ');
+  return '';
+}
+
+export function AuditLogPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [entityType, setEntityType] = useState(searchParams.get('entityType') || 'all');
+  const [action, setAction] = useState<string>('all');
+  const [source, setSource] = useState<string>('all');
+  const [search, setSearch] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [offset, setOffset] = useState(0);
+  const [viewing, setViewing] = useState<AuditLogEntry | null>(null);
+
+  const linkFilters = LINK_FILTERS
+    .map((key) => [key, searchParams.get(key)] as const)
+    .filter((filter): filter is readonly [typeof LINK_FILTERS[number], string] => !!filter[1]);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['audit-log', entityType, action, source, search, from, to, offset, searchParams.toString()],
+    queryFn: () => {
+      const params = new URLSearchParams();
+      if (entityType !== 'all') params.set('entityType', entityType);
+      if (action !== 'all') params.set('action', action);
+      if (source !== 'all') params.set('source', source);
+      if (search.trim()) params.set('search', search.trim());
+      // Whole days - the end date is inclusive
+      if (from) params.set('from', `${from}T00:00:00`);
+      if (to) params.set('to', `${to}T23:59:59.999`);
+      for (const [key, value] of linkFilters) params.set(key, value);
+      params.set('limit', String(PAGE_SIZE));
+      params.set('offset', String(offset));
+      return api.get<AuditLogList>(`/api/audit-log?${params.toString()}`);
+    },
+  });
+
+  const { data: typesData } = useQuery({
+    queryKey: ['audit-log-entity-types'],
+    queryFn: () => api.get<{ entityTypes: string[] }>('/api/audit-log/entity-types'),
+  });
+
+  const entries = data?.entries || [];
+  const total = data?.total || 0;
+  const entityTypes = typesData?.entityTypes || [];
+
+  // Any filter change starts again from the newest entries
+  const withReset = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setOffset(0);
+  };
+
+  const clearLinkFilter = (key: string) => {
+    const next = new URLSearchParams(searchParams);
+    next.delete(key);
+    setSearchParams(next);
+    setOffset(0);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">Audit Log</h1>
+        <p className="text-muted-foreground mt-1">
+          Every change to clients, warehouses, billing and user records, with who made it and what changed
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Select value={entityType} onValueChange={withReset(setEntityType)}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="All Records" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Records</SelectItem>
+            {entityTypes.map((type) => (
+              <SelectItem key={type} value={type}>
+                {formatEntityType(type)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={action} onValueChange={withReset(setAction)}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="All Actions" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Actions</SelectItem>
+            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map((value) => (
+              <SelectItem key={value} value={value}>
+                {AUDIT_ACTION_LABELS[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={source} onValueChange={withReset(setSource)}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="All Sources" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Sources</SelectItem>
+            {(Object.keys(SOURCE_LABELS) as AuditSource[]).map((value) => (
+              <SelectItem key={value} value={value}>
+                {SOURCE_LABELS[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          className="w-[160px]"
+          value={from}
+          onChange={(e) => withReset(setFrom)(e.target.value)}
+          aria-label="From date"
+        />
+        <Input
+          type="date"
+          className="w-[160px]"
+          value={to}
+          onChange={(e) => withReset(setTo)(e.target.value)}
+          aria-label="To date"
+        />
+        <Input
+          className="w-[260px]"
+          placeholder="Search record ID, actor or details"
+          value={search}
+          onChange={(e) => withReset(setSearch)(e.target.value)}
+        />
+      </div>
+
+      {linkFilters.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {linkFilters.map(([key, value]) => (
+            <Badge key={key} variant="secondary" className="gap-1">
+              {formatFieldName(key)}: {value}
+              <button type="button" onClick={() => clearLinkFilter(key)} aria-label={`Clear ${key} filter`}>
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      ) : entries.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <History className="mx-auto h-12 w-12 text-muted-foreground" />
+            <h3 className="mt-4 text-lg font-semibold">No audit entries</h3>
+            <p className="mt-2 text-sm text-muted-foreground max-w-md mx-auto">
+              Nothing matches these filters. Changes are recorded as they are made.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr className="border-b">
+                  <th className="px-4 py-3 text-left text-sm font-medium">When</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium">Action</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium">Record</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium">Changes</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium">By</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => (
+                  <tr key={entry.id} className="border-b">
+                    <td className="px-4 py-3 text-sm whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                    <td className="px-4 py-3">
+                      <Badge variant={AUDIT_ACTION_VARIANTS[entry.action]}>{AUDIT_ACTION_LABELS[entry.action]}</Badge>
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {formatEntityType(entry.entityType)}
+                      <div className="text-xs text-muted-foreground">{entry.entityId}</div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-muted-foreground max-w-[320px] truncate" title={summarizeEntry(entry)}>
+                      {summarizeEntry(entry)}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {formatAuditActor(entry)}
+                      {entry.ipAddress && <div className="text-xs text-muted-foreground">{entry.ipAddress}</div>}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <Button size="sm" variant="outline" onClick={() => setViewing(entry)}>
+                        View
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="flex items-center justify-between px-4 py-3">
+              <p className="text-xs text-muted-foreground">
+                {offset + 1}–{offset + entries.length} of {total}
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={offset === 0}
+                  onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+                >
+                  Newer
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={offset + entries.length >= total}
+                  onClick={() => setOffset(offset + PAGE_SIZE)}
+                >
+                  Older
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Entry detail */}
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {viewing && `${AUDIT_ACTION_LABELS[viewing.action]} ${formatEntityType(viewing.entityType)}`}
+            </DialogTitle>
+            <DialogDescription>
+              {viewing && `${viewing.entityId} · ${new Date(viewing.timestamp).toLocaleString()}`}
+            </DialogDescription>
+          </DialogHeader>
+          {viewing && (
+            <div className="space-y-4">
+              <AuditChangeDiff entry={viewing} />
+              <dl className="grid grid-cols-2 gap-2 text-sm">
+                <dt className="text-muted-foreground">By</dt>
+                <dd>{formatAuditActor(viewing)}</dd>
+                <dt className="text-muted-foreground">Source</dt>
+                <dd>{SOURCE_LABELS[viewing.source]}</dd>
+                {viewing.parentType && (
+                  <>
+                    <dt className="text-muted-foreground">Belongs to</dt>
+                    <dd>
+                      {formatEntityType(viewing.parentType)} {viewing.parentId}
+                    </dd>
+                  </>
+                )}
+                {viewing.details && (
+                  <>
+                    <dt className="text-muted-foreground">Details</dt>
+                    <dd>{viewing.details}</dd>
+                  </>
+                )}
+                <dt className="text-muted-foreground">IP address</dt>
+                <dd>{viewing.ipAddress || '—'}</dd>
+                <dt className="text-muted-foreground">Request ID</dt>
+                <dd className="break-all">{viewing.requestId || '—'}</dd>
+              </dl>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
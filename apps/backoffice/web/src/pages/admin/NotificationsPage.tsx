@@ -0,0 +1,399 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../../lib/api';
+import { Button } from '../../components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import { Input } from '../../components/ui/input';
+import { Label } from '../../components/ui/label';
+import { Badge } from '../../components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../../components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../../components/ui/dialog';
+import { Bell, RefreshCw, Send } from 'lucide-react';
+import { usePermissions, PERMISSIONS } from '../../hooks/usePermissions';
+import { NOTIFICATION_EVENT_OPTIONS } from '../../components/notifications/NotificationPreferenceToggles';
+import type {
+  NotificationDelivery,
+  NotificationDeliveryList,
+  NotificationEventDefinition,
+  NotificationStatus,
+} from '../../types/notifications';
+
+const STATUS_COLORS: Record<NotificationStatus, string> = {
+  sent: 'default',
+  pending: 'secondary',
+  failed: 'destructive',
+};
+
+const EVENT_LABELS: Record<string, string> = Object.fromEntries(
+  NOTIFICATION_EVENT_OPTIONS.map((option) => [option.eventType, option.label])
+);
+
+function formatDateTime(value: string | null) {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+export function NotificationsPage() {
+  const queryClient = useQueryClient();
+  const { hasPermission } = usePermissions();
+  const canManage = hasPermission(PERMISSIONS.MANAGE_SETTINGS);
+  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [eventFilter, setEventFilter] = useState<string>('all');
+  const [search, setSearch] = useState('');
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [viewing, setViewing] = useState<NotificationDelivery | null>(null);
+
+  // Send test form
+  const [testOpen, setTestOpen] = useState(false);
+  const [testTo, setTestTo] = useState('');
+  const [testError, setTestError] = useState('');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['notifications', statusFilter, eventFilter, search],
+    queryFn: () => {
+      const params = new URLSearchParams();
+      if (statusFilter !== 'all') params.set('status', statusFilter);
+      if (eventFilter !== 'all') params.set('eventType', eventFilter);
+      if (search.trim()) params.set('search', search.trim());
+      const query = params.toString();
+      return api.get<NotificationDeliveryList>(`/api/notifications${query ? `?${query}` : ''}`);
+    },
+  });
+
+  const { data: eventsData } = useQuery({
+    queryKey: ['notification-events'],
+    queryFn: () => api.get<{ events: NotificationEventDefinition[] }>('/api/notifications/events'),
+  });
+
+  const deliveries = data?.deliveries || [];
+  const counts = data?.counts || { pending: 0, sent: 0, failed: 0 };
+  const events = eventsData?.events || [];
+
+  const onNotificationError = (error: any) => {
+    setNotice('');
+    setError(error.response?.data?.reason || error.response?.data?.error || 'Request failed');
+  };
+
+  const retryMutation = useMutation({
+    mutationFn: (id: string) => api.post<NotificationDelivery>(`/api/notifications/${id}/retry`),
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+      setError('');
+      setNotice(delivery.status === 'sent' ? `Sent to ${delivery.recipient}` : `Retry failed: ${delivery.lastError}`);
+      if (viewing?.id === delivery.id) setViewing(delivery);
+    },
+    onError: onNotificationError,
+  });
+
+  const processMutation = useMutation({
+    mutationFn: () =>
+      api.post<{ processed: number; sent: number; retrying: number; failed: number }>('/api/notifications/process'),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+      setError('');
+      setNotice(
+        result.processed === 0
+          ? 'No deliveries are due'
+          : `Processed ${result.processed}: ${result.sent} sent, ${result.retrying} will retry, ${result.failed} failed`
+      );
+    },
+    onError: onNotificationError,
+  });
+
+  const testMutation = useMutation({
+    mutationFn: (to: string) => api.post<{ transport: string; messageId: string }>('/api/notifications/test', { to }),
+    onSuccess: (result) => {
+      setTestOpen(false);
+      setError('');
+      setNotice(`Test message sent through the ${result.transport} transport`);
+    },
+    onError: (error: any) => {
+      setTestError(error.response?.data?.reason || error.response?.data?.error || 'Test message could not be sent');
+    },
+  });
+
+  const handleSendTest = () => {
+    if (!testTo.trim()) {
+      setTestError('Enter an email address');
+      return;
+    }
+    testMutation.mutate(testTo.trim());
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Notifications</h1>
+          <p className="text-muted-foreground mt-1">
+            Email delivery log for invoice, payment, contract and import notifications
+          </p>
+        </div>
+        {canManage && (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => processMutation.mutate()} disabled={processMutation.isPending}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Process Due
+            </Button>
+            <Button
+              onClick={() => {
+                setTestTo('');
+                setTestError('');
+                setTestOpen(true);
+              }}
+            >
+              <Send className="h-4 w-4 mr-2" />
+              Send Test
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {notice && <p className="text-sm text-muted-foreground">{notice}</p>}
+
+      <Tabs defaultValue="log" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="log">Delivery Log</TabsTrigger>
+          <TabsTrigger value="events">Events & Templates</TabsTrigger>
+        </TabsList>
+
+        {/* Delivery log */}
+        <TabsContent value="log" className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            {(['sent', 'pending', 'failed'] as NotificationStatus[]).map((status) => (
+              <Card key={status}>
+                <CardHeader className="pb-2">
+                  <CardDescription className="capitalize">{status}</CardDescription>
+                  <CardTitle className="text-2xl">{counts[status]}</CardTitle>
+                </CardHeader>
+              </Card>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="All Statuses" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                <SelectItem value="sent">Sent</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={eventFilter} onValueChange={setEventFilter}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="All Events" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Events</SelectItem>
+                {NOTIFICATION_EVENT_OPTIONS.map((option) => (
+                  <SelectItem key={option.eventType} value={option.eventType}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              className="w-[260px]"
+              placeholder="Search recipient or subject"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+
+          {deliveries.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center">
+                <Bell className="mx-auto h-12 w-12 text-muted-foreground" />
+                <h3 className="mt-4 text-lg font-semibold">No notifications</h3>
+                <p className="mt-2 text-sm text-muted-foreground max-w-md mx-auto">
+                  Emails queued for issued invoices, received payments, expiring contracts and failed imports appear here.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardContent className="p-0">
+                <table className="w-full">
+                  <thead className="bg-muted/50">
+                    <tr className="border-b">
+                      <th className="px-4 py-3 text-left text-sm font-medium">Queued</th>
+                      <th className="px-4 py-3 text-left text-sm font-medium">Event</th>
+                      <th className="px-4 py-3 text-left text-sm font-medium">Recipient</th>
+                      <th className="px-4 py-3 text-left text-sm font-medium">Subject</th>
+                      <th className="px-4 py-3 text-left text-sm font-medium">Status</th>
+                      <th className="px-4 py-3 text-right text-sm font-medium">Attempts</th>
+                      <th className="px-4 py-3" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {deliveries.map((delivery) => (
+                      <tr key={delivery.id} className="border-b">
+                        <td className="px-4 py-3 text-sm whitespace-nowrap">{formatDateTime(delivery.createdAt)}</td>
+                        <td className="px-4 py-3 text-sm">{EVENT_LABELS[delivery.eventType] || delivery.eventType}</td>
+                        <td className="px-4 py-3 text-sm">
+                          {delivery.recipient}
+                          <div className="text-xs text-muted-foreground">
+                            {delivery.audience === 'customer' ? delivery.customer?.name : delivery.user?.name || 'Staff'}
+                          </div>
+                        </td>
+                        <td className="px-4 py-3 text-sm">{delivery.subject}</td>
+                        <td className="px-4 py-3">
+                          <Badge variant={STATUS_COLORS[delivery.status] as any}>{delivery.status}</Badge>
+                          {delivery.lastError && delivery.status !== 'sent' && (
+                            <div className="mt-1 text-xs text-destructive max-w-[240px] truncate" title={delivery.lastError}>
+                              {delivery.lastError}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right">{delivery.attempts}</td>
+                        <td className="px-4 py-3 text-right space-x-2 whitespace-nowrap">
+                          <Button size="sm" variant="outline" onClick={() => setViewing(delivery)}>
+                            View
+                          </Button>
+                          {canManage && delivery.status !== 'sent' && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => retryMutation.mutate(delivery.id)}
+                              disabled={retryMutation.isPending}
+                            >
+                              Retry
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {data && data.total > deliveries.length && (
+                  <p className="px-4 py-3 text-xs text-muted-foreground">
+                    Showing the latest {deliveries.length} of {data.total}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        {/* Events & templates */}
+        <TabsContent value="events" className="space-y-4">
+          {events.map((event) => (
+            <Card key={event.eventType}>
+              <CardHeader>
+                <div className="flex items-center gap-2">
+                  <CardTitle className="text-lg">{event.label}</CardTitle>
+                  <Badge variant="outline">{event.customerFacing ? 'Customer + staff' : 'Staff only'}</Badge>
+                </div>
+                <CardDescription>{event.description}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <p className="text-sm font-medium">{event.template.subject}</p>
+                <pre className="whitespace-pre-wrap rounded-md bg-muted/50 p-3 text-xs">{event.template.body}</pre>
+              </CardContent>
+            </Card>
+          ))}
+        </TabsContent>
+      </Tabs>
+
+      {/* Delivery detail */}
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{viewing?.subject}</DialogTitle>
+            <DialogDescription>
+              To {viewing?.recipient} · {viewing && (EVENT_LABELS[viewing.eventType] || viewing.eventType)}
+            </DialogDescription>
+          </DialogHeader>
+          {viewing && (
+            <div className="space-y-4">
+              <pre className="whitespace-pre-wrap rounded-md bg-muted/50 p-3 text-sm">{viewing.body}</pre>
+              <dl className="grid grid-cols-2 gap-2 text-sm">
+                <dt className="text-muted-foreground">Status</dt>
+                <dd>
+                  <Badge variant={STATUS_COLORS[viewing.status] as any}>{viewing.status}</Badge>
+                </dd>
+                <dt className="text-muted-foreground">Attempts</dt>
+                <dd>{viewing.attempts}</dd>
+                <dt className="text-muted-foreground">Sent</dt>
+                <dd>{formatDateTime(viewing.sentAt)}</dd>
+                {viewing.status === 'pending' && (
+                  <>
+                    <dt className="text-muted-foreground">Next attempt</dt>
+                    <dd>{formatDateTime(viewing.nextAttemptAt)}</dd>
+                  </>
+                )}
+                <dt className="text-muted-foreground">Transport</dt>
+                <dd>{viewing.transport || '—'}</dd>
+                {viewing.messageId && (
+                  <>
+                    <dt className="text-muted-foreground">Message ID</dt>
+                    <dd className="break-all">{viewing.messageId}</dd>
+                  </>
+                )}
+                {viewing.lastError && (
+                  <>
+                    <dt className="text-muted-foreground">Last error</dt>
+                    <dd className="text-destructive break-words">{viewing.lastError}</dd>
+                  </>
+                )}
+              </dl>
+            </div>
+          )}
+          <DialogFooter>
+            {canManage && viewing && viewing.status !== 'sent' && (
+              <Button variant="outline" onClick={() => retryMutation.mutate(viewing.id)} disabled={retryMutation.isPending}>
+                Retry Now
+              </Button>
+            )}
+            <Button onClick={() => setViewing(null)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Send test */}
+      <Dialog open={testOpen} onOpenChange={setTestOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Send Test Message</DialogTitle>
+            <DialogDescription>
+              Sends a message through the configured transport. The outbox transport writes it to disk instead of emailing.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="test-to">Recipient</Label>
+            <Input
+              id="test-to"
+              type="email"
+              placeholder="you@example.com"
+              value={testTo}
+              onChange={(e) => setTestTo(e.target.value)}
+            />
+            {testError && <p className="text-sm text-destructive">{testError}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTestOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSendTest} disabled={testMutation.isPending}>
+              {testMutation.isPending ? 'Sending...' : 'Send'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
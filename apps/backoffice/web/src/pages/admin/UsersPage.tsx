@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader } from '../../components/ui/card';
 import { Button } from '../../components/ui/button';
@@ -26,6 +27,8 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from '../../components/ui/alert-dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../../components/ui/tabs';
+import { AuditHistory } from '../../components/audit';
 import { api } from '../../lib/api';
 import { usePermissions, PERMISSIONS } from '../../hooks/usePermissions';
 import { Plus, Trash2, KeyRound, Ban, CheckCircle, Loader2 } from 'lucide-react';
@@ -50,6 +53,7 @@ export function UsersPage() {
   const queryClient = useQueryClient();
   const { hasPermission } = usePermissions();
   const canManageUsers = hasPermission(PERMISSIONS.MANAGE_USERS);
+  const canViewAuditLog = hasPermission(PERMISSIONS.VIEW_SETTINGS);
   
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
@@ -455,55 +459,80 @@ export function UsersPage() {
 
       {/* Edit User Dialog */}
       <Dialog open={!!editingUser} onOpenChange={(open) => !open && setEditingUser(null)}>
-        <DialogContent>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
           <form onSubmit={handleUpdate}>
             <DialogHeader>
               <DialogTitle>Edit User</DialogTitle>
               <DialogDescription>Update user information.</DialogDescription>
             </DialogHeader>
-            <div className="grid gap-4 py-4">
-              <div className="grid gap-2">
-                <Label htmlFor="edit-name">Name</Label>
-                <Input
-                  id="edit-name"
-                  value={formData.name}
-                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                  required
-                />
-              </div>
-              <div className="grid gap-2">
-                <Label htmlFor="edit-email">Email</Label>
-                <Input
-                  id="edit-email"
-                  type="email"
-                  value={formData.email}
-                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
-                  required
-                />
-              </div>
-              <div className="grid gap-2">
-                <Label>Roles</Label>
-                <div className="space-y-2 border rounded-md p-3 max-h-48 overflow-y-auto">
-                  {roles.map(role => (
-                    <label key={role.id} className="flex items-center gap-2 cursor-pointer">
-                      <input
-                        type="checkbox"
-                        checked={formData.roleIds.includes(role.id)}
-                        onChange={(e) => {
-                          if (e.target.checked) {
-                            setFormData({ ...formData, roleIds: [...formData.roleIds, role.id] });
-                          } else {
-                            setFormData({ ...formData, roleIds: formData.roleIds.filter(id => id !== role.id) });
-                          }
-                        }}
-                        className="h-4 w-4"
-                      />
-                      <span className="text-sm">{role.name}</span>
-                    </label>
-                  ))}
+            <Tabs defaultValue="details" className="py-4">
+              <TabsList>
+                <TabsTrigger value="details">Details</TabsTrigger>
+                <TabsTrigger value="history">History</TabsTrigger>
+              </TabsList>
+              <TabsContent value="details">
+                <div className="grid gap-4">
+                  <div className="grid gap-2">
+                    <Label htmlFor="edit-name">Name</Label>
+                    <Input
+                      id="edit-name"
+                      value={formData.name}
+                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="edit-email">Email</Label>
+                    <Input
+                      id="edit-email"
+                      type="email"
+                      value={formData.email}
+                      onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label>Roles</Label>
+                    <div className="space-y-2 border rounded-md p-3 max-h-48 overflow-y-auto">
+                      {roles.map(role => (
+                        <label key={role.id} className="flex items-center gap-2 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={formData.roleIds.includes(role.id)}
+                            onChange={(e) => {
+                              if (e.target.checked) {
+                                setFormData({ ...formData, roleIds: [...formData.roleIds, role.id] });
+                              } else {
+                                setFormData({ ...formData, roleIds: formData.roleIds.filter(id => id !== role.id) });
+                              }
+                            }}
+                            className="h-4 w-4"
+                          />
+                          <span className="text-sm">{role.name}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
                 </div>
-              </div>
-            </div>
+              </TabsContent>
+              <TabsContent value="history" className="space-y-2">
+                {editingUser && (
+                  <AuditHistory
+                    endpoint={`/api/users/${editingUser.id}/audit-log`}
+                    entityType="user"
+                    description="Changes to this user and their role assignments"
+                  />
+                )}
+                {editingUser && canViewAuditLog && (
+                  <Link
+                    to={`/admin/audit-log?actorId=${editingUser.id}`}
+                    className="block text-sm text-primary hover:underline"
+                  >
+                    View changes made by {editingUser.name}
+                  </Link>
+                )}
+              </TabsContent>
+            </Tabs>
             <DialogFooter className="flex items-center !justify-between">
               {/* Delete button on left */}
               <AlertDialog>
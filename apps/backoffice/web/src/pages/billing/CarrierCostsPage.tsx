@@ -0,0 +1,383 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../../lib/api';
+import { Button } from '../../components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import { Input } from '../../components/ui/input';
+import { Label } from '../../components/ui/label';
+import { Badge } from '../../components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../../components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../components/ui/select';
+import { Truck, Upload, Eye } from 'lucide-react';
+import { usePermissions, PERMISSIONS } from '../../hooks/usePermissions';
+
+interface Client {
+  id: string;
+  name: string;
+}
+
+interface CarrierCostReport {
+  matched: Array<{
+    activityId: string;
+    referenceId: string | null;
+    type: string;
+    trackingNumbers: string[];
+    cost: number;
+    amount: number | null;
+    mechanism: string | null;
+  }>;
+  unmatched: Array<{
+    trackingNumber: string | null;
+    referenceId: string | null;
+    carrier: string | null;
+    chargeDate: string | null;
+    invoiceNumbers: string[];
+    cost: number;
+    rows: string[];
+    reason: 'no_activity' | 'ambiguous';
+  }>;
+  locked: Array<{ activityId: string; reason: 'invoiced' | 'manual_override'; trackingNumbers: string[]; cost: number }>;
+  unpriced: Array<{ activityId: string; detail: string }>;
+}
+
+interface ImportResult {
+  importId: string | null;
+  dryRun: boolean;
+  carriers: string[];
+  chargeCount: number;
+  shipmentCount: number;
+  matchedCount: number;
+  unmatchedCount: number;
+  totalCost: number;
+  matchedCost: number;
+  unmatchedCost: number;
+  totalBilled: number;
+  report: CarrierCostReport;
+}
+
+interface CarrierCostImport {
+  id: string;
+  filenames: string[];
+  carriers: string[];
+  chargeCount: number;
+  matchedCount: number;
+  unmatchedCount: number;
+  totalCost: string;
+  totalBilled: string;
+  importedAt: string;
+  report?: CarrierCostReport;
+}
+
+const UNMATCHED_REASONS: Record<string, string> = {
+  no_activity: 'No shipping activity',
+  ambiguous: 'Several activities',
+};
+
+const LOCKED_REASONS: Record<string, string> = {
+  invoiced: 'Already invoiced',
+  manual_override: 'Manual override',
+};
+
+function formatMoney(value: number | string | null) {
+  return value === null ? '—' : `$${Number(value).toFixed(2)}`;
+}
+
+export function CarrierCostsPage() {
+  const queryClient = useQueryClient();
+  const { hasPermission } = usePermissions();
+  const canManageBilling = hasPermission(PERMISSIONS.MANAGE_BILLING);
+  const [customerId, setCustomerId] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [viewedImportId, setViewedImportId] = useState('');
+  const [error, setError] = useState('');
+
+  const { data: clientsData } = useQuery({
+    queryKey: ['clients'],
+    queryFn: () => api.get<{ clients: Client[] }>('/api/clients'),
+  });
+
+  const { data: importsData } = useQuery({
+    queryKey: ['carrier-cost-imports', customerId],
+    queryFn: () => api.get<{ imports: CarrierCostImport[]; total: number }>(`/api/customers/${customerId}/carrier-costs/imports`),
+    enabled: !!customerId,
+  });
+
+  const { data: viewedImport } = useQuery({
+    queryKey: ['carrier-cost-import', customerId, viewedImportId],
+    queryFn: () => api.get<CarrierCostImport>(`/api/customers/${customerId}/carrier-costs/imports/${viewedImportId}`),
+    enabled: !!customerId && !!viewedImportId,
+  });
+
+  const clients = clientsData?.clients || [];
+  const imports = importsData?.imports || [];
+  const report = viewedImportId ? viewedImport?.report : result?.report;
+
+  const importMutation = useMutation({
+    mutationFn: ({ dryRun }: { dryRun: boolean }) =>
+      api.uploadFile<ImportResult>(`/api/customers/${customerId}/carrier-costs?dryRun=${dryRun}`, file!),
+    onSuccess: (importResult) => {
+      if (!importResult.dryRun) {
+        queryClient.invalidateQueries({ queryKey: ['carrier-cost-imports', customerId] });
+        queryClient.invalidateQueries({ queryKey: ['billing-activities'] });
+        setFile(null);
+      }
+      setResult(importResult);
+      setViewedImportId('');
+      setError('');
+    },
+    onError: (error: any) => {
+      const files = error.response?.data?.files as Array<{ filename: string; errors: Array<{ row?: number; message: string }> }> | undefined;
+      const firstError = files?.[0]?.errors?.[0];
+      setError(firstError
+        ? `${files![0].filename}${firstError.row ? ` row ${firstError.row}` : ''}: ${firstError.message}`
+        : error.response?.data?.error || 'Import failed');
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">Carrier Costs</h1>
+        <p className="text-muted-foreground mt-1">
+          Import UPS / USPS label costs, bill shipping cost-plus and reconcile unmatched charges
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <Label>Client</Label>
+          <Select
+            value={customerId}
+            onValueChange={(value) => {
+              setCustomerId(value);
+              setResult(null);
+              setViewedImportId('');
+            }}
+          >
+            <SelectTrigger className="w-[240px]">
+              <SelectValue placeholder="Select client" />
+            </SelectTrigger>
+            <SelectContent>
+              {clients.map((client) => (
+                <SelectItem key={client.id} value={client.id}>{client.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {canManageBilling && customerId && (
+          <div className="flex items-end gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="carrierFile">Carrier cost file (CSV / XLSX)</Label>
+              <Input
+                id="carrierFile"
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+            </div>
+            <Button
+              variant="outline"
+              disabled={!file || importMutation.isPending}
+              onClick={() => importMutation.mutate({ dryRun: true })}
+            >
+              <Eye className="h-4 w-4 mr-2" />
+              Preview
+            </Button>
+            <Button disabled={!file || importMutation.isPending} onClick={() => importMutation.mutate({ dryRun: false })}>
+              <Upload className="h-4 w-4 mr-2" />
+              {importMutation.isPending ? 'Importing...' : 'Import'}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {result && !viewedImportId && (
+        <p className="text-sm text-muted-foreground">
+          {result.dryRun ? 'Preview: ' : ''}
+          {result.chargeCount} charges ({result.shipmentCount} shipments, {result.carriers.join(' / ') || 'carrier unknown'}),{' '}
+          {result.matchedCount} matched for {formatMoney(result.matchedCost)} cost → {formatMoney(result.totalBilled)} billed,{' '}
+          {result.unmatchedCount} unmatched ({formatMoney(result.unmatchedCost)})
+        </p>
+      )}
+
+      {!customerId ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Truck className="mx-auto h-12 w-12 text-muted-foreground" />
+            <h3 className="mt-4 text-lg font-semibold">Select a client</h3>
+            <p className="mt-2 text-sm text-muted-foreground max-w-md mx-auto">
+              Carrier charges are matched to the client's shipping activities by tracking number or shipment reference.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {report && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Reconciliation</CardTitle>
+                <CardDescription>
+                  {viewedImport ? `Import of ${new Date(viewedImport.importedAt).toLocaleString()}` : 'Latest upload'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Tabs defaultValue="unmatched" className="space-y-4">
+                  <TabsList>
+                    <TabsTrigger value="unmatched">Unmatched ({report.unmatched.length})</TabsTrigger>
+                    <TabsTrigger value="matched">Matched ({report.matched.length})</TabsTrigger>
+                    <TabsTrigger value="locked">Locked ({report.locked.length})</TabsTrigger>
+                    <TabsTrigger value="unpriced">Unpriced ({report.unpriced.length})</TabsTrigger>
+                  </TabsList>
+
+                  <TabsContent value="unmatched">
+                    <table className="w-full">
+                      <thead className="bg-muted/50">
+                        <tr className="border-b">
+                          <th className="px-4 py-2 text-left text-sm font-medium">Tracking / Reference</th>
+                          <th className="px-4 py-2 text-left text-sm font-medium">Carrier</th>
+                          <th className="px-4 py-2 text-left text-sm font-medium">Date</th>
+                          <th className="px-4 py-2 text-left text-sm font-medium">Invoice</th>
+                          <th className="px-4 py-2 text-left text-sm font-medium">Reason</th>
+                          <th className="px-4 py-2 text-right text-sm font-medium">Cost</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {report.unmatched.map((charge, index) => (
+                          <tr key={index} className="border-b">
+                            <td className="px-4 py-2 text-sm font-mono">{charge.trackingNumber || charge.referenceId}</td>
+                            <td className="px-4 py-2 text-sm">{charge.carrier || '—'}</td>
+                            <td className="px-4 py-2 text-sm">{charge.chargeDate || '—'}</td>
+                            <td className="px-4 py-2 text-sm">{charge.invoiceNumbers.join(', ') || '—'}</td>
+                            <td className="px-4 py-2">
+                              <Badge variant={charge.reason === 'ambiguous' ? 'secondary' : 'outline'}>
+                                {UNMATCHED_REASONS[charge.reason]}
+                              </Badge>
+                            </td>
+                            <td className="px-4 py-2 text-sm text-right">{formatMoney(charge.cost)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </TabsContent>
+
+                  <TabsContent value="matched">
+                    <table className="w-full">
+                      <thead className="bg-muted/50">
+                        <tr className="border-b">
+                          <th className="px-4 py-2 text-left text-sm font-medium">Reference</th>
+                          <th className="px-4 py-2 text-left text-sm font-medium">Service</th>
+                          <th className="px-4 py-2 text-left text-sm font-medium">Tracking</th>
+                          <th className="px-4 py-2 text-left text-sm font-medium">Priced by</th>
+                          <th className="px-4 py-2 text-right text-sm font-medium">Cost</th>
+                          <th className="px-4 py-2 text-right text-sm font-medium">Billed</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {report.matched.map((match) => (
+                          <tr key={match.activityId} className="border-b">
+                            <td className="px-4 py-2 text-sm">{match.referenceId || match.activityId}</td>
+                            <td className="px-4 py-2 text-sm">{match.type}</td>
+                            <td className="px-4 py-2 text-xs font-mono">{match.trackingNumbers.join(', ')}</td>
+                            <td className="px-4 py-2 text-sm">{match.mechanism === 'carrierCost' ? 'Cost + markup' : match.mechanism || '—'}</td>
+                            <td className="px-4 py-2 text-sm text-right">{formatMoney(match.cost)}</td>
+                            <td className="px-4 py-2 text-sm text-right">{formatMoney(match.amount)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </TabsContent>
+
+                  <TabsContent value="locked">
+                    <table className="w-full">
+                      <thead className="bg-muted/50">
+                        <tr className="border-b">
+                          <th className="px-4 py-2 text-left text-sm font-medium">Activity</th>
+                          <th className="px-4 py-2 text-left text-sm font-medium">Tracking</th>
+                          <th className="px-4 py-2 text-left text-sm font-medium">Reason</th>
+                          <th className="px-4 py-2 text-right text-sm font-medium">Cost</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {report.locked.map((entry) => (
+                          <tr key={entry.activityId} className="border-b">
+                            <td className="px-4 py-2 text-sm font-mono">{entry.activityId}</td>
+                            <td className="px-4 py-2 text-xs font-mono">{entry.trackingNumbers.join(', ')}</td>
+                            <td className="px-4 py-2 text-sm">{LOCKED_REASONS[entry.reason]}</td>
+                            <td className="px-4 py-2 text-sm text-right">{formatMoney(entry.cost)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </TabsContent>
+
+                  <TabsContent value="unpriced">
+                    <ul className="space-y-1 text-sm">
+                      {report.unpriced.map((entry) => (
+                        <li key={entry.activityId}>
+                          <span className="font-mono">{entry.activityId}</span>
+                          <span className="text-muted-foreground"> — {entry.detail}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </TabsContent>
+                </Tabs>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Import history */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Imports</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              {imports.length === 0 ? (
+                <p className="px-6 pb-6 text-sm text-muted-foreground">No carrier cost imports yet.</p>
+              ) : (
+                <table className="w-full">
+                  <thead className="bg-muted/50">
+                    <tr className="border-b">
+                      <th className="px-4 py-3 text-left text-sm font-medium">Imported</th>
+                      <th className="px-4 py-3 text-left text-sm font-medium">Files</th>
+                      <th className="px-4 py-3 text-left text-sm font-medium">Carriers</th>
+                      <th className="px-4 py-3 text-right text-sm font-medium">Matched</th>
+                      <th className="px-4 py-3 text-right text-sm font-medium">Unmatched</th>
+                      <th className="px-4 py-3 text-right text-sm font-medium">Cost</th>
+                      <th className="px-4 py-3 text-right text-sm font-medium">Billed</th>
+                      <th className="px-4 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {imports.map((entry) => (
+                      <tr key={entry.id} className="border-b">
+                        <td className="px-4 py-3 text-sm">{new Date(entry.importedAt).toLocaleString()}</td>
+                        <td className="px-4 py-3 text-sm">{entry.filenames.join(', ')}</td>
+                        <td className="px-4 py-3 text-sm">{entry.carriers.join(', ') || '—'}</td>
+                        <td className="px-4 py-3 text-sm text-right">{entry.matchedCount}</td>
+                        <td className="px-4 py-3 text-sm text-right">
+                          {entry.unmatchedCount > 0 ? <Badge variant="destructive">{entry.unmatchedCount}</Badge> : 0}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right">{formatMoney(entry.totalCost)}</td>
+                        <td className="px-4 py-3 text-sm text-right">{formatMoney(entry.totalBilled)}</td>
+                        <td className="px-4 py-3 text-right">
+                          <Button size="sm" variant="ghost" onClick={() => setViewedImportId(entry.id)}>
+                            View
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
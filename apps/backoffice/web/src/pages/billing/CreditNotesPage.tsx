@@ -0,0 +1,566 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../../lib/api';
+import { Button } from '../../components/ui/button';
+import { Card, CardContent } from '../../components/ui/card';
+import { Input } from '../../components/ui/input';
+import { Label } from '../../components/ui/label';
+import { Textarea } from '../../components/ui/textarea';
+import { Badge } from '../../components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../../components/ui/dialog';
+import { Plus, ReceiptText, Trash2 } from 'lucide-react';
+import { usePermissions, PERMISSIONS } from '../../hooks/usePermissions';
+import { useAuth } from '../../hooks/useAuth';
+
+interface CreditNote {
+  id: string;
+  creditNoteNumber: string;
+  reasonCode: string;
+  reason: string;
+  total: string;
+  appliedToInvoice: string;
+  appliedToAccount: string;
+  status: string;
+  rejectedReason?: string;
+  createdAt: string;
+  customer: { id: string; name: string };
+  invoice: { id: string; invoiceNumber: string; status: string };
+  createdByUser?: { id: string; name: string };
+  approvedByUser?: { id: string; name: string };
+}
+
+interface CreditableInvoice {
+  id: string;
+  invoiceNumber: string;
+  status: string;
+  total: string;
+  balanceDue: string;
+  customer: { id: string; name: string };
+}
+
+interface InvoiceLine {
+  id: string;
+  description: string;
+  quantity: string;
+  unitRate: string;
+  lineTotal: string;
+}
+
+interface DraftLine {
+  invoiceLineId: string;
+  description: string;
+  quantity: string;
+  unitRate: string;
+}
+
+const CREDITABLE_STATUSES = ['issued', 'sent', 'partial', 'overdue', 'paid', 'credited'];
+
+const GENERAL_CREDIT = 'general';
+
+const REASON_LABELS: Record<string, string> = {
+  billing_error: 'Billing error',
+  pricing_correction: 'Pricing correction',
+  duplicate_charge: 'Duplicate charge',
+  service_issue: 'Service issue',
+  goodwill: 'Goodwill',
+  other: 'Other',
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  pending: 'secondary',
+  approved: 'default',
+  applied: 'outline',
+  rejected: 'destructive',
+};
+
+function formatMoney(value: string | number) {
+  return Number(value).toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+}
+
+function emptyLine(): DraftLine {
+  return { invoiceLineId: GENERAL_CREDIT, description: '', quantity: '1', unitRate: '' };
+}
+
+export function CreditNotesPage() {
+  const queryClient = useQueryClient();
+  const { hasPermission } = usePermissions();
+  const canManageBilling = hasPermission(PERMISSIONS.MANAGE_BILLING);
+  const { user } = useAuth();
+  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [error, setError] = useState('');
+
+  // Request form
+  const [createOpen, setCreateOpen] = useState(false);
+  const [invoiceId, setInvoiceId] = useState('');
+  const [reasonCode, setReasonCode] = useState('billing_error');
+  const [reason, setReason] = useState('');
+  const [lines, setLines] = useState<DraftLine[]>([emptyLine()]);
+
+  // Reject / apply forms
+  const [rejecting, setRejecting] = useState<CreditNote | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+  const [applying, setApplying] = useState<CreditNote | null>(null);
+  const [target, setTarget] = useState('invoice');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['credit-notes', statusFilter],
+    queryFn: () => {
+      const params = statusFilter !== 'all' ? `?status=${statusFilter}` : '';
+      return api.get<{ creditNotes: CreditNote[] }>(`/api/credit-notes${params}`);
+    },
+  });
+
+  const { data: invoicesData } = useQuery({
+    queryKey: ['invoices', 'creditable'],
+    queryFn: () => api.get<{ invoices: CreditableInvoice[] }>('/api/invoices?limit=500'),
+    enabled: canManageBilling,
+  });
+
+  const { data: invoiceDetail } = useQuery({
+    queryKey: ['invoices', invoiceId],
+    queryFn: () => api.get<CreditableInvoice & { lines: InvoiceLine[] }>(`/api/invoices/${invoiceId}`),
+    enabled: !!invoiceId,
+  });
+
+  const creditNotes = data?.creditNotes || [];
+  const creditableInvoices = (invoicesData?.invoices || []).filter(
+    (invoice) => CREDITABLE_STATUSES.includes(invoice.status)
+  );
+  const invoiceLines = invoiceDetail?.lines || [];
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['credit-notes'] });
+    queryClient.invalidateQueries({ queryKey: ['invoices'] });
+    queryClient.invalidateQueries({ queryKey: ['credits'] });
+    queryClient.invalidateQueries({ queryKey: ['ar-aging'] });
+  };
+
+  const onError = (error: any) => {
+    setError(error.response?.data?.reason || error.response?.data?.error || 'Request failed');
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (data: any) => api.post('/api/credit-notes', data),
+    onSuccess: () => {
+      invalidate();
+      setCreateOpen(false);
+    },
+    onError,
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: (id: string) => api.post(`/api/credit-notes/${id}/approve`),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: any }) => api.post(`/api/credit-notes/${id}/reject`, data),
+    onSuccess: () => {
+      invalidate();
+      setRejecting(null);
+    },
+    onError,
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: any }) => api.post(`/api/credit-notes/${id}/apply`, data),
+    onSuccess: () => {
+      invalidate();
+      setApplying(null);
+    },
+    onError,
+  });
+
+  function openCreateDialog() {
+    setInvoiceId('');
+    setReasonCode('billing_error');
+    setReason('');
+    setLines([emptyLine()]);
+    setError('');
+    setCreateOpen(true);
+  }
+
+  const updateLine = (index: number, changes: Partial<DraftLine>) => {
+    setLines((current) => current.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const selectInvoiceLine = (index: number, lineId: string) => {
+    const invoiceLine = invoiceLines.find((line) => line.id === lineId);
+    updateLine(index, invoiceLine
+      ? { invoiceLineId: lineId, description: '', quantity: String(Number(invoiceLine.quantity)), unitRate: String(Number(invoiceLine.unitRate)) }
+      : { invoiceLineId: GENERAL_CREDIT });
+  };
+
+  const draftTotal = lines.reduce((sum, line) => sum + Number(line.quantity || 0) * Number(line.unitRate || 0), 0);
+
+  const handleCreate = () => {
+    if (!invoiceId) {
+      setError('Select an invoice');
+      return;
+    }
+    if (!reason.trim()) {
+      setError('A reason is required');
+      return;
+    }
+    if (lines.some((line) => line.invoiceLineId === GENERAL_CREDIT && !line.description.trim())) {
+      setError('General credit lines need a description');
+      return;
+    }
+
+    createMutation.mutate({
+      invoiceId,
+      reasonCode,
+      reason: reason.trim(),
+      lines: lines.map((line) => ({
+        invoiceLineId: line.invoiceLineId === GENERAL_CREDIT ? undefined : line.invoiceLineId,
+        description: line.description.trim() || undefined,
+        quantity: Number(line.quantity),
+        unitRate: Number(line.unitRate),
+      })),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Credit Notes</h1>
+          <p className="text-muted-foreground mt-1">
+            Correct issued invoices through approved credit notes
+          </p>
+        </div>
+        {canManageBilling && (
+          <Button onClick={openCreateDialog}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Credit Note
+          </Button>
+        )}
+      </div>
+
+      {error && !createOpen && !rejecting && !applying && (
+        <p className="text-sm text-destructive">{error}</p>
+      )}
+
+      <Select value={statusFilter} onValueChange={setStatusFilter}>
+        <SelectTrigger className="w-[180px]">
+          <SelectValue placeholder="All Statuses" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All Statuses</SelectItem>
+          <SelectItem value="pending">Pending</SelectItem>
+          <SelectItem value="approved">Approved</SelectItem>
+          <SelectItem value="applied">Applied</SelectItem>
+          <SelectItem value="rejected">Rejected</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {creditNotes.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <ReceiptText className="mx-auto h-12 w-12 text-muted-foreground" />
+            <h3 className="mt-4 text-lg font-semibold">No credit notes</h3>
+            <p className="mt-2 text-sm text-muted-foreground max-w-md mx-auto">
+              Issued invoices are never edited. Corrections are requested here and applied once approved.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr className="border-b">
+                  <th className="px-4 py-3 text-left text-sm font-medium">Number</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium">Client</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium">Invoice</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium">Reason</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium">Status</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium">Total</th>
+                  {canManageBilling && <th className="px-4 py-3" />}
+                </tr>
+              </thead>
+              <tbody>
+                {creditNotes.map((creditNote) => (
+                  <tr key={creditNote.id} className="border-b">
+                    <td className="px-4 py-3 text-sm font-medium">{creditNote.creditNoteNumber}</td>
+                    <td className="px-4 py-3 text-sm">{creditNote.customer.name}</td>
+                    <td className="px-4 py-3 text-sm">{creditNote.invoice.invoiceNumber}</td>
+                    <td className="px-4 py-3 text-sm">
+                      <div>{REASON_LABELS[creditNote.reasonCode] || creditNote.reasonCode}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {creditNote.status === 'rejected' ? creditNote.rejectedReason : creditNote.reason}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <Badge variant={STATUS_COLORS[creditNote.status] as any}>{creditNote.status}</Badge>
+                      {creditNote.status === 'applied' && Number(creditNote.appliedToAccount) > 0 && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {formatMoney(creditNote.appliedToAccount)} to account
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right">{formatMoney(creditNote.total)}</td>
+                    {canManageBilling && (
+                      <td className="px-4 py-3 text-right space-x-2">
+                        {creditNote.status === 'pending' && (
+                          <>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={creditNote.createdByUser?.id === user?.id}
+                              title={creditNote.createdByUser?.id === user?.id ? 'Credit notes must be approved by someone other than their creator' : undefined}
+                              onClick={() => approveMutation.mutate(creditNote.id)}
+                            >
+                              Approve
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => {
+                                setRejectReason('');
+                                setError('');
+                                setRejecting(creditNote);
+                              }}
+                            >
+                              Reject
+                            </Button>
+                          </>
+                        )}
+                        {creditNote.status === 'approved' && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => {
+                              setTarget('invoice');
+                              setError('');
+                              setApplying(creditNote);
+                            }}
+                          >
+                            Apply
+                          </Button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* New Credit Note Dialog */}
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>New Credit Note</DialogTitle>
+            <DialogDescription>
+              Credit specific invoice lines or add a general credit. It takes effect once approved and applied.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Invoice</Label>
+                <Select
+                  value={invoiceId}
+                  onValueChange={(value) => {
+                    setInvoiceId(value);
+                    setLines([emptyLine()]);
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select an issued invoice" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {creditableInvoices.map((invoice) => (
+                      <SelectItem key={invoice.id} value={invoice.id}>
+                        {invoice.invoiceNumber} · {invoice.customer.name} · {formatMoney(invoice.total)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Reason</Label>
+                <Select value={reasonCode} onValueChange={setReasonCode}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(REASON_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="reason">Explanation</Label>
+              <Textarea id="reason" value={reason} onChange={(e) => setReason(e.target.value)} rows={2} />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Lines</Label>
+              {lines.map((line, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  <div className="col-span-4">
+                    <Select value={line.invoiceLineId} onValueChange={(value) => selectInvoiceLine(index, value)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={GENERAL_CREDIT}>General credit</SelectItem>
+                        {invoiceLines.map((invoiceLine) => (
+                          <SelectItem key={invoiceLine.id} value={invoiceLine.id}>
+                            {invoiceLine.description} · {formatMoney(invoiceLine.lineTotal)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Input
+                    className="col-span-3"
+                    placeholder={line.invoiceLineId === GENERAL_CREDIT ? 'Description' : 'Description (optional)'}
+                    value={line.description}
+                    onChange={(e) => updateLine(index, { description: e.target.value })}
+                  />
+                  <Input
+                    className="col-span-2"
+                    type="number"
+                    min="0"
+                    step="any"
+                    placeholder="Qty"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                  />
+                  <Input
+                    className="col-span-2"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Rate"
+                    value={line.unitRate}
+                    onChange={(e) => updateLine(index, { unitRate: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="col-span-1"
+                    disabled={lines.length === 1}
+                    onClick={() => setLines((current) => current.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex items-center justify-between">
+                <Button variant="outline" size="sm" onClick={() => setLines((current) => [...current, emptyLine()])}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Line
+                </Button>
+                <span className="text-sm font-medium">Total {formatMoney(draftTotal)}</span>
+              </div>
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={createMutation.isPending}>
+              Request Credit Note
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reject Dialog */}
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Credit Note</DialogTitle>
+            <DialogDescription>
+              {rejecting && `${rejecting.creditNoteNumber} for ${formatMoney(rejecting.total)}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="rejectReason">Reason</Label>
+              <Textarea id="rejectReason" value={rejectReason} onChange={(e) => setRejectReason(e.target.value)} rows={2} />
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!rejectReason.trim() || rejectMutation.isPending}
+              onClick={() => rejecting && rejectMutation.mutate({ id: rejecting.id, data: { reason: rejectReason.trim() } })}
+            >
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Apply Dialog */}
+      <Dialog open={!!applying} onOpenChange={(open) => !open && setApplying(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Apply Credit Note</DialogTitle>
+            <DialogDescription>
+              {applying && `${formatMoney(applying.total)} from ${applying.creditNoteNumber} on ${applying.invoice.invoiceNumber}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Apply to</Label>
+              <Select value={target} onValueChange={setTarget}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="invoice">Invoice balance (excess held as account credit)</SelectItem>
+                  <SelectItem value="account">Account credit for the next invoice</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setApplying(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={applyMutation.isPending}
+              onClick={() => applying && applyMutation.mutate({ id: applying.id, data: { target } })}
+            >
+              Apply
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
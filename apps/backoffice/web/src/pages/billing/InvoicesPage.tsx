@@ -0,0 +1,476 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { api } from '../../lib/api';
+import { Button } from '../../components/ui/button';
+import { Card, CardContent } from '../../components/ui/card';
+import { Input } from '../../components/ui/input';
+import { Label } from '../../components/ui/label';
+import { Textarea } from '../../components/ui/textarea';
+import { Badge } from '../../components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../../components/ui/dialog';
+import { Download, FileText, Play, Receipt } from 'lucide-react';
+import { usePermissions, PERMISSIONS } from '../../hooks/usePermissions';
+
+interface InvoiceSummary {
+  id: string;
+  invoiceNumber: string;
+  billingCycle: string;
+  periodStart: string;
+  periodEnd: string;
+  status: string;
+  total: string;
+  balanceDue: string;
+  issuedAt?: string;
+  dueDate?: string;
+  customer: { id: string; name: string; slug: string };
+}
+
+interface InvoiceLine {
+  id: string;
+  description: string;
+  category?: string;
+  quantity: string;
+  unit?: string;
+  unitRate: string;
+  lineTotal: string;
+}
+
+interface InvoiceDetail extends InvoiceSummary {
+  subtotal: string;
+  tax: string;
+  internalNotes?: string;
+  lines: InvoiceLine[];
+}
+
+interface GeneratedInvoice {
+  invoiceNumber: string;
+  customerName: string;
+  billingCycle: string;
+  periodStart: string;
+  periodEnd: string;
+  total: number;
+  activityCount: number;
+  minimumTopUp: number;
+  warnings: string[];
+}
+
+interface GenerationResult {
+  asOf: string;
+  preview: boolean;
+  invoices: GeneratedInvoice[];
+  skipped: Array<{ customerId: string; billingCycle: string; periodStart: string; reason: string }>;
+  totals: { invoiceCount: number; amount: number };
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  draft: 'secondary',
+  issued: 'default',
+  sent: 'default',
+  paid: 'outline',
+  partial: 'default',
+  overdue: 'destructive',
+  void: 'outline',
+  credited: 'outline',
+};
+
+const CYCLE_LABELS: Record<string, string> = {
+  immediate: 'Immediate',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  'ad-hoc': 'Ad-hoc',
+};
+
+function formatMoney(value: string | number) {
+  return Number(value).toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+}
+
+function formatDate(value: string) {
+  return value.slice(0, 10);
+}
+
+export function InvoicesPage() {
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const { hasPermission } = usePermissions();
+  const canManageBilling = hasPermission(PERMISSIONS.MANAGE_BILLING);
+  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [cycleFilter, setCycleFilter] = useState<string>('all');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [generateOpen, setGenerateOpen] = useState(false);
+  const [asOf, setAsOf] = useState(new Date().toISOString().slice(0, 10));
+  const [generation, setGeneration] = useState<GenerationResult | null>(null);
+  const [voidReason, setVoidReason] = useState('');
+  const [error, setError] = useState('');
+
+  const { data: invoicesData, isLoading } = useQuery({
+    queryKey: ['invoices', statusFilter, cycleFilter],
+    queryFn: () => {
+      const params = new URLSearchParams();
+      if (statusFilter !== 'all') params.set('status', statusFilter);
+      if (cycleFilter !== 'all') params.set('billingCycle', cycleFilter);
+      const query = params.toString();
+      return api.get<{ invoices: InvoiceSummary[]; total: number }>(`/api/invoices${query ? `?${query}` : ''}`);
+    },
+  });
+
+  const { data: selectedInvoice } = useQuery({
+    queryKey: ['invoices', 'detail', selectedId],
+    queryFn: () => api.get<InvoiceDetail>(`/api/invoices/${selectedId}`),
+    enabled: !!selectedId,
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: (preview: boolean) =>
+      api.post<GenerationResult>('/api/invoices/generate', { asOf, preview }),
+    onSuccess: (result) => {
+      setGeneration(result);
+      setError('');
+      if (!result.preview) {
+        queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      }
+    },
+    onError: (error: any) => {
+      setError(error.response?.data?.error || 'Failed to generate invoices');
+    },
+  });
+
+  const lifecycleMutation = useMutation({
+    mutationFn: ({ id, action, data }: { id: string; action: 'issue' | 'void'; data?: unknown }) =>
+      api.post(`/api/invoices/${id}/${action}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      setVoidReason('');
+      setError('');
+    },
+    onError: (error: any) => {
+      setError(error.response?.data?.reason || error.response?.data?.error || 'Failed to update invoice');
+    },
+  });
+
+  const invoices = invoicesData?.invoices || [];
+
+  const openGenerateDialog = () => {
+    setGeneration(null);
+    setError('');
+    setGenerateOpen(true);
+  };
+
+  const closeDetail = () => {
+    setSelectedId(null);
+    setVoidReason('');
+    setError('');
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Invoices</h1>
+          <p className="text-muted-foreground mt-1">
+            Generate, review and issue invoices from priced billing activity
+          </p>
+        </div>
+        {canManageBilling && (
+          <Button onClick={openGenerateDialog}>
+            <Play className="h-4 w-4 mr-2" />
+            Generate Invoices
+          </Button>
+        )}
+      </div>
+
+      {/* Filters */}
+      <div className="flex gap-4">
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="All Statuses" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Statuses</SelectItem>
+            <SelectItem value="draft">Draft</SelectItem>
+            <SelectItem value="issued">Issued</SelectItem>
+            <SelectItem value="partial">Partially Paid</SelectItem>
+            <SelectItem value="paid">Paid</SelectItem>
+            <SelectItem value="credited">Credited</SelectItem>
+            <SelectItem value="overdue">Overdue</SelectItem>
+            <SelectItem value="void">Void</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={cycleFilter} onValueChange={setCycleFilter}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="All Cycles" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Cycles</SelectItem>
+            {Object.entries(CYCLE_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Empty State */}
+      {invoices.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Receipt className="mx-auto h-12 w-12 text-muted-foreground" />
+            <h3 className="mt-4 text-lg font-semibold">No invoices</h3>
+            <p className="mt-2 text-sm text-muted-foreground max-w-md mx-auto">
+              Invoices are generated from priced billing activities once a billing period closes.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        /* Invoice Table */
+        <Card>
+          <CardContent className="p-0">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr className="border-b">
+                  <th className="px-4 py-3 text-left text-sm font-medium">Invoice</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium">Client</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium">Period</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium">Status</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium">Total</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium">Balance Due</th>
+                </tr>
+              </thead>
+              <tbody>
+                {invoices.map((invoice) => (
+                  <tr
+                    key={invoice.id}
+                    className="border-b hover:bg-muted/30 cursor-pointer"
+                    onClick={() => setSelectedId(invoice.id)}
+                  >
+                    <td className="px-4 py-3">
+                      <div className="font-medium text-primary">{invoice.invoiceNumber}</div>
+                      <div className="text-xs text-muted-foreground">{CYCLE_LABELS[invoice.billingCycle] || invoice.billingCycle}</div>
+                    </td>
+                    <td className="px-4 py-3 text-sm">{invoice.customer.name}</td>
+                    <td className="px-4 py-3 text-sm">
+                      {formatDate(invoice.periodStart)} – {formatDate(invoice.periodEnd)}
+                    </td>
+                    <td className="px-4 py-3">
+                      <Badge variant={STATUS_COLORS[invoice.status] as any}>{invoice.status}</Badge>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right">{formatMoney(invoice.total)}</td>
+                    <td className="px-4 py-3 text-sm text-right">{formatMoney(invoice.balanceDue)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Generate Dialog */}
+      <Dialog open={generateOpen} onOpenChange={setGenerateOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Generate Invoices</DialogTitle>
+            <DialogDescription>
+              Billing periods ending before the run date are invoiced. Preview first - it writes nothing.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2 max-w-xs">
+              <Label htmlFor="asOf">Run date</Label>
+              <Input
+                id="asOf"
+                type="date"
+                value={asOf}
+                onChange={(e) => {
+                  setAsOf(e.target.value);
+                  setGeneration(null);
+                }}
+              />
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            {generation && (
+              <div className="space-y-3">
+                <p className="text-sm">
+                  {generation.preview ? 'Preview: ' : 'Generated: '}
+                  <span className="font-medium">{generation.totals.invoiceCount} invoice(s)</span>
+                  {' totalling '}
+                  <span className="font-medium">{formatMoney(generation.totals.amount)}</span>
+                </p>
+                {generation.invoices.length > 0 && (
+                  <div className="max-h-80 overflow-y-auto border rounded-md">
+                    <table className="w-full text-sm">
+                      <thead className="bg-muted/50">
+                        <tr className="border-b">
+                          <th className="px-3 py-2 text-left font-medium">Invoice</th>
+                          <th className="px-3 py-2 text-left font-medium">Client</th>
+                          <th className="px-3 py-2 text-left font-medium">Period</th>
+                          <th className="px-3 py-2 text-right font-medium">Activities</th>
+                          <th className="px-3 py-2 text-right font-medium">Total</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {generation.invoices.map((invoice) => (
+                          <tr key={invoice.invoiceNumber} className="border-b align-top">
+                            <td className="px-3 py-2">{invoice.invoiceNumber}</td>
+                            <td className="px-3 py-2">
+                              {invoice.customerName}
+                              {invoice.warnings.map((warning) => (
+                                <div key={warning} className="text-xs text-muted-foreground">{warning}</div>
+                              ))}
+                            </td>
+                            <td className="px-3 py-2">{invoice.periodStart} – {invoice.periodEnd}</td>
+                            <td className="px-3 py-2 text-right">{invoice.activityCount}</td>
+                            <td className="px-3 py-2 text-right">
+                              {formatMoney(invoice.total)}
+                              {invoice.minimumTopUp > 0 && (
+                                <div className="text-xs text-muted-foreground">incl. minimum {formatMoney(invoice.minimumTopUp)}</div>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setGenerateOpen(false)}>
+              Close
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => generateMutation.mutate(true)}
+              disabled={generateMutation.isPending}
+            >
+              Preview
+            </Button>
+            <Button
+              onClick={() => generateMutation.mutate(false)}
+              disabled={generateMutation.isPending || !generation?.preview}
+            >
+              Generate Drafts
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Invoice Detail Dialog */}
+      <Dialog open={!!selectedId} onOpenChange={(open) => !open && closeDetail()}>
+        <DialogContent className="max-w-3xl">
+          {selectedInvoice && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-3">
+                  <FileText className="h-5 w-5" />
+                  {selectedInvoice.invoiceNumber}
+                  <Badge variant={STATUS_COLORS[selectedInvoice.status] as any}>{selectedInvoice.status}</Badge>
+                </DialogTitle>
+                <DialogDescription>
+                  {selectedInvoice.customer.name} · {CYCLE_LABELS[selectedInvoice.billingCycle] || selectedInvoice.billingCycle}
+                  {' · '}{formatDate(selectedInvoice.periodStart)} – {formatDate(selectedInvoice.periodEnd)}
+                  {selectedInvoice.dueDate && ` · Due ${formatDate(selectedInvoice.dueDate)}`}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="max-h-80 overflow-y-auto border rounded-md">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/50">
+                    <tr className="border-b">
+                      <th className="px-3 py-2 text-left font-medium">Description</th>
+                      <th className="px-3 py-2 text-right font-medium">Qty</th>
+                      <th className="px-3 py-2 text-right font-medium">Rate</th>
+                      <th className="px-3 py-2 text-right font-medium">Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {selectedInvoice.lines.map((line) => (
+                      <tr key={line.id} className="border-b">
+                        <td className="px-3 py-2">
+                          {line.description}
+                          {line.category && <span className="ml-2 text-xs text-muted-foreground">{line.category}</span>}
+                        </td>
+                        <td className="px-3 py-2 text-right">{Number(line.quantity)} {line.unit}</td>
+                        <td className="px-3 py-2 text-right">{formatMoney(line.unitRate)}</td>
+                        <td className="px-3 py-2 text-right">{formatMoney(line.lineTotal)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot>
+                    <tr>
+                      <td colSpan={3} className="px-3 py-2 text-right font-medium">Total</td>
+                      <td className="px-3 py-2 text-right font-medium">{formatMoney(selectedInvoice.total)}</td>
+                    </tr>
+                  </tfoot>
+                </table>
+              </div>
+
+              {selectedInvoice.internalNotes && (
+                <p className="text-sm text-muted-foreground whitespace-pre-line">{selectedInvoice.internalNotes}</p>
+              )}
+
+              {canManageBilling && ['draft', 'issued', 'sent'].includes(selectedInvoice.status) && (
+                <div className="space-y-2">
+                  <Label htmlFor="voidReason">Void reason</Label>
+                  <Textarea
+                    id="voidReason"
+                    value={voidReason}
+                    onChange={(e) => setVoidReason(e.target.value)}
+                    placeholder="Required to void this invoice"
+                    rows={2}
+                  />
+                </div>
+              )}
+
+              {error && <p className="text-sm text-destructive">{error}</p>}
+
+              <DialogFooter>
+                <Button variant="outline" asChild>
+                  <a href={`/api/invoices/${selectedInvoice.id}/pdf`} target="_blank" rel="noreferrer">
+                    <Download className="h-4 w-4 mr-2" />
+                    {selectedInvoice.status === 'draft' ? 'Preview PDF' : 'Download PDF'}
+                  </a>
+                </Button>
+                {canManageBilling && ['draft', 'issued', 'sent'].includes(selectedInvoice.status) && (
+                  <Button
+                    variant="destructive"
+                    disabled={!voidReason.trim() || lifecycleMutation.isPending}
+                    onClick={() => lifecycleMutation.mutate({ id: selectedInvoice.id, action: 'void', data: { reason: voidReason.trim() } })}
+                  >
+                    Void
+                  </Button>
+                )}
+                {canManageBilling && selectedInvoice.status === 'draft' && (
+                  <Button
+                    disabled={lifecycleMutation.isPending}
+                    onClick={() => lifecycleMutation.mutate({ id: selectedInvoice.id, action: 'issue' })}
+                  >
+                    Issue Invoice
+                  </Button>
+                )}
+                {canManageBilling && ['issued', 'sent', 'partial', 'overdue'].includes(selectedInvoice.status) && (
+                  <Button onClick={() => navigate(`/billing/payments?invoice=${selectedInvoice.id}`)}>
+                    Record Payment
+                  </Button>
+                )}
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,645 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSearchParams } from 'react-router-dom';
+import { api } from '../../lib/api';
+import { Button } from '../../components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import { Input } from '../../components/ui/input';
+import { Label } from '../../components/ui/label';
+import { Textarea } from '../../components/ui/textarea';
+import { Badge } from '../../components/ui/badge';
+import { Checkbox } from '../../components/ui/checkbox';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../../components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../../components/ui/dialog';
+import { Plus, Wallet } from 'lucide-react';
+import { usePermissions, PERMISSIONS } from '../../hooks/usePermissions';
+
+interface Payment {
+  id: string;
+  amount: string;
+  paymentDate: string;
+  method: string;
+  reference?: string;
+  status: string;
+  notes?: string;
+  invoice: {
+    id: string;
+    invoiceNumber: string;
+    status: string;
+    balanceDue: string;
+    customer: { id: string; name: string };
+  };
+}
+
+interface OpenInvoice {
+  id: string;
+  invoiceNumber: string;
+  status: string;
+  balanceDue: string;
+  dueDate?: string;
+  customer: { id: string; name: string };
+}
+
+interface Credit {
+  id: string;
+  customerId: string;
+  amount: string;
+  remaining: string;
+  notes?: string;
+  createdAt: string;
+  customer: { id: string; name: string };
+}
+
+type AgingBucket = 'current' | 'days1to30' | 'days31to60' | 'days61to90' | 'days90plus';
+
+interface AgingReport {
+  asOf: string;
+  customers: Array<{
+    customerId: string;
+    customerName: string;
+    buckets: Record<AgingBucket, number>;
+    totalOutstanding: number;
+    unappliedCredit: number;
+    netOutstanding: number;
+  }>;
+  totals: Record<AgingBucket, number> & { totalOutstanding: number; unappliedCredit: number; netOutstanding: number };
+}
+
+const PAYABLE_STATUSES = ['issued', 'sent', 'partial', 'overdue'];
+
+const AGING_COLUMNS: Array<{ key: AgingBucket; label: string }> = [
+  { key: 'current', label: 'Current' },
+  { key: 'days1to30', label: '1-30' },
+  { key: 'days31to60', label: '31-60' },
+  { key: 'days61to90', label: '61-90' },
+  { key: 'days90plus', label: '90+' },
+];
+
+const STATUS_COLORS: Record<string, string> = {
+  applied: 'default',
+  pending: 'secondary',
+  failed: 'destructive',
+  reversed: 'outline',
+};
+
+const METHOD_LABELS: Record<string, string> = {
+  ach: 'ACH',
+  card: 'Card',
+  wire: 'Wire',
+  check: 'Check',
+  cash: 'Cash',
+  credit: 'Credit',
+};
+
+function formatMoney(value: string | number) {
+  return Number(value).toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+}
+
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export function PaymentsPage() {
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { hasPermission } = usePermissions();
+  const canManageBilling = hasPermission(PERMISSIONS.MANAGE_BILLING);
+  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [error, setError] = useState('');
+
+  // Record payment form
+  const [recordOpen, setRecordOpen] = useState(false);
+  const [invoiceId, setInvoiceId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [paymentDate, setPaymentDate] = useState(today());
+  const [method, setMethod] = useState('ach');
+  const [reference, setReference] = useState('');
+  const [pending, setPending] = useState(false);
+
+  // Reverse form
+  const [reversing, setReversing] = useState<Payment | null>(null);
+  const [reverseReason, setReverseReason] = useState('');
+  const [nsf, setNsf] = useState(false);
+
+  // Apply credit form
+  const [applying, setApplying] = useState<Credit | null>(null);
+  const [creditInvoiceId, setCreditInvoiceId] = useState('');
+
+  const { data: paymentsData, isLoading } = useQuery({
+    queryKey: ['payments', statusFilter],
+    queryFn: () => {
+      const params = statusFilter !== 'all' ? `?status=${statusFilter}` : '';
+      return api.get<{ payments: Payment[] }>(`/api/payments${params}`);
+    },
+  });
+
+  const { data: invoicesData } = useQuery({
+    queryKey: ['invoices', 'open'],
+    queryFn: () => api.get<{ invoices: OpenInvoice[] }>('/api/invoices?limit=500'),
+  });
+
+  const { data: creditsData } = useQuery({
+    queryKey: ['credits'],
+    queryFn: () => api.get<{ credits: Credit[] }>('/api/credits'),
+  });
+
+  const { data: aging } = useQuery({
+    queryKey: ['ar-aging'],
+    queryFn: () => api.get<AgingReport>('/api/ar/aging'),
+  });
+
+  const payments = paymentsData?.payments || [];
+  const credits = creditsData?.credits || [];
+  const openInvoices = (invoicesData?.invoices || []).filter(
+    (invoice) => PAYABLE_STATUSES.includes(invoice.status) && Number(invoice.balanceDue) > 0
+  );
+
+  // Opened from an invoice ("Record Payment")
+  useEffect(() => {
+    const preselected = searchParams.get('invoice');
+    if (preselected && canManageBilling && invoicesData) {
+      openRecordDialog(preselected);
+      setSearchParams({}, { replace: true });
+    }
+  }, [searchParams, invoicesData]);
+
+  const invalidateLedger = () => {
+    queryClient.invalidateQueries({ queryKey: ['payments'] });
+    queryClient.invalidateQueries({ queryKey: ['invoices'] });
+    queryClient.invalidateQueries({ queryKey: ['credits'] });
+    queryClient.invalidateQueries({ queryKey: ['ar-aging'] });
+  };
+
+  const onLedgerError = (error: any) => {
+    setError(error.response?.data?.reason || error.response?.data?.error || 'Request failed');
+  };
+
+  const recordMutation = useMutation({
+    mutationFn: (data: any) => api.post('/api/payments', data),
+    onSuccess: () => {
+      invalidateLedger();
+      setRecordOpen(false);
+    },
+    onError: onLedgerError,
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: (id: string) => api.post(`/api/payments/${id}/clear`),
+    onSuccess: invalidateLedger,
+    onError: onLedgerError,
+  });
+
+  const reverseMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: any }) => api.post(`/api/payments/${id}/reverse`, data),
+    onSuccess: () => {
+      invalidateLedger();
+      setReversing(null);
+    },
+    onError: onLedgerError,
+  });
+
+  const applyCreditMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: any }) => api.post(`/api/credits/${id}/apply`, data),
+    onSuccess: () => {
+      invalidateLedger();
+      setApplying(null);
+    },
+    onError: onLedgerError,
+  });
+
+  function openRecordDialog(preselectedInvoiceId = '') {
+    const invoice = openInvoices.find((inv) => inv.id === preselectedInvoiceId);
+    setInvoiceId(preselectedInvoiceId);
+    setAmount(invoice ? String(Number(invoice.balanceDue)) : '');
+    setPaymentDate(today());
+    setMethod('ach');
+    setReference('');
+    setPending(false);
+    setError('');
+    setRecordOpen(true);
+  }
+
+  const handleRecord = () => {
+    if (!invoiceId) {
+      setError('Select an invoice');
+      return;
+    }
+    if (!amount || Number(amount) <= 0) {
+      setError('Amount must be positive');
+      return;
+    }
+
+    recordMutation.mutate({
+      invoiceId,
+      amount: Number(amount),
+      paymentDate,
+      method,
+      reference: reference.trim() || undefined,
+      status: pending ? 'pending' : 'applied',
+    });
+  };
+
+  const selectedInvoice = openInvoices.find((inv) => inv.id === invoiceId);
+  const overpayment = selectedInvoice && !pending ? Number(amount) - Number(selectedInvoice.balanceDue) : 0;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Payments & AR</h1>
+          <p className="text-muted-foreground mt-1">
+            Record payments, manage unapplied credit and track receivables aging
+          </p>
+        </div>
+        {canManageBilling && (
+          <Button onClick={() => openRecordDialog()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Record Payment
+          </Button>
+        )}
+      </div>
+
+      {error && !recordOpen && !reversing && !applying && (
+        <p className="text-sm text-destructive">{error}</p>
+      )}
+
+      <Tabs defaultValue="payments" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="payments">Payments</TabsTrigger>
+          <TabsTrigger value="credits">Unapplied Credit ({credits.length})</TabsTrigger>
+          <TabsTrigger value="aging">AR Aging</TabsTrigger>
+        </TabsList>
+
+        {/* Payments */}
+        <TabsContent value="payments" className="space-y-4">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="All Statuses" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Statuses</SelectItem>
+              <SelectItem value="applied">Applied</SelectItem>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="failed">Failed (NSF)</SelectItem>
+              <SelectItem value="reversed">Reversed</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {payments.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center">
+                <Wallet className="mx-auto h-12 w-12 text-muted-foreground" />
+                <h3 className="mt-4 text-lg font-semibold">No payments recorded</h3>
+                <p className="mt-2 text-sm text-muted-foreground max-w-md mx-auto">
+                  Payments recorded against issued invoices appear here.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardContent className="p-0">
+                <table className="w-full">
+                  <thead className="bg-muted/50">
+                    <tr className="border-b">
+                      <th className="px-4 py-3 text-left text-sm font-medium">Date</th>
+                      <th className="px-4 py-3 text-left text-sm font-medium">Client</th>
+                      <th className="px-4 py-3 text-left text-sm font-medium">Invoice</th>
+                      <th className="px-4 py-3 text-left text-sm font-medium">Method</th>
+                      <th className="px-4 py-3 text-left text-sm font-medium">Status</th>
+                      <th className="px-4 py-3 text-right text-sm font-medium">Amount</th>
+                      {canManageBilling && <th className="px-4 py-3" />}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {payments.map((payment) => (
+                      <tr key={payment.id} className="border-b">
+                        <td className="px-4 py-3 text-sm">{payment.paymentDate.slice(0, 10)}</td>
+                        <td className="px-4 py-3 text-sm">{payment.invoice.customer.name}</td>
+                        <td className="px-4 py-3 text-sm">{payment.invoice.invoiceNumber}</td>
+                        <td className="px-4 py-3 text-sm">
+                          {METHOD_LABELS[payment.method] || payment.method}
+                          {payment.reference && <span className="ml-2 text-xs text-muted-foreground">{payment.reference}</span>}
+                        </td>
+                        <td className="px-4 py-3">
+                          <Badge variant={STATUS_COLORS[payment.status] as any}>{payment.status}</Badge>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right">{formatMoney(payment.amount)}</td>
+                        {canManageBilling && (
+                          <td className="px-4 py-3 text-right space-x-2 whitespace-nowrap">
+                            {payment.status === 'pending' && (
+                              <Button size="sm" variant="outline" onClick={() => clearMutation.mutate(payment.id)}>
+                                Clear
+                              </Button>
+                            )}
+                            {['applied', 'pending'].includes(payment.status) && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => {
+                                  setReversing(payment);
+                                  setReverseReason('');
+                                  setNsf(false);
+                                  setError('');
+                                }}
+                              >
+                                Reverse
+                              </Button>
+                            )}
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        {/* Unapplied credit */}
+        <TabsContent value="credits">
+          {credits.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center">
+                <p className="text-muted-foreground">No unapplied credit</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardContent className="p-0">
+                <table className="w-full">
+                  <thead className="bg-muted/50">
+                    <tr className="border-b">
+                      <th className="px-4 py-3 text-left text-sm font-medium">Client</th>
+                      <th className="px-4 py-3 text-left text-sm font-medium">Origin</th>
+                      <th className="px-4 py-3 text-right text-sm font-medium">Amount</th>
+                      <th className="px-4 py-3 text-right text-sm font-medium">Remaining</th>
+                      {canManageBilling && <th className="px-4 py-3" />}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {credits.map((credit) => (
+                      <tr key={credit.id} className="border-b">
+                        <td className="px-4 py-3 text-sm">{credit.customer.name}</td>
+                        <td className="px-4 py-3 text-sm text-muted-foreground">{credit.notes}</td>
+                        <td className="px-4 py-3 text-sm text-right">{formatMoney(credit.amount)}</td>
+                        <td className="px-4 py-3 text-sm text-right font-medium">{formatMoney(credit.remaining)}</td>
+                        {canManageBilling && (
+                          <td className="px-4 py-3 text-right">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => {
+                                setApplying(credit);
+                                setCreditInvoiceId('');
+                                setError('');
+                              }}
+                            >
+                              Apply
+                            </Button>
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        {/* Aging */}
+        <TabsContent value="aging">
+          <Card>
+            <CardHeader>
+              <CardTitle>Receivables Aging</CardTitle>
+              <CardDescription>
+                Open balances by days past due as of {aging?.asOf}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+              <table className="w-full">
+                <thead className="bg-muted/50">
+                  <tr className="border-b">
+                    <th className="px-4 py-3 text-left text-sm font-medium">Client</th>
+                    {AGING_COLUMNS.map((column) => (
+                      <th key={column.key} className="px-4 py-3 text-right text-sm font-medium">{column.label}</th>
+                    ))}
+                    <th className="px-4 py-3 text-right text-sm font-medium">Total</th>
+                    <th className="px-4 py-3 text-right text-sm font-medium">Credit</th>
+                    <th className="px-4 py-3 text-right text-sm font-medium">Net</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(aging?.customers || []).map((customer) => (
+                    <tr key={customer.customerId} className="border-b">
+                      <td className="px-4 py-3 text-sm">{customer.customerName}</td>
+                      {AGING_COLUMNS.map((column) => (
+                        <td key={column.key} className="px-4 py-3 text-sm text-right">
+                          {customer.buckets[column.key] ? formatMoney(customer.buckets[column.key]) : '-'}
+                        </td>
+                      ))}
+                      <td className="px-4 py-3 text-sm text-right font-medium">{formatMoney(customer.totalOutstanding)}</td>
+                      <td className="px-4 py-3 text-sm text-right">{customer.unappliedCredit ? formatMoney(-customer.unappliedCredit) : '-'}</td>
+                      <td className="px-4 py-3 text-sm text-right font-medium">{formatMoney(customer.netOutstanding)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                {aging && (
+                  <tfoot className="bg-muted/50">
+                    <tr>
+                      <td className="px-4 py-3 text-sm font-medium">Total</td>
+                      {AGING_COLUMNS.map((column) => (
+                        <td key={column.key} className="px-4 py-3 text-sm text-right font-medium">
+                          {formatMoney(aging.totals[column.key])}
+                        </td>
+                      ))}
+                      <td className="px-4 py-3 text-sm text-right font-medium">{formatMoney(aging.totals.totalOutstanding)}</td>
+                      <td className="px-4 py-3 text-sm text-right font-medium">{formatMoney(-aging.totals.unappliedCredit)}</td>
+                      <td className="px-4 py-3 text-sm text-right font-medium">{formatMoney(aging.totals.netOutstanding)}</td>
+                    </tr>
+                  </tfoot>
+                )}
+              </table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {/* Record Payment Dialog */}
+      <Dialog open={recordOpen} onOpenChange={setRecordOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Payment</DialogTitle>
+            <DialogDescription>
+              Amounts above the invoice balance are kept as unapplied credit for the client.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Invoice</Label>
+              <Select
+                value={invoiceId}
+                onValueChange={(value) => {
+                  setInvoiceId(value);
+                  const invoice = openInvoices.find((inv) => inv.id === value);
+                  if (invoice) setAmount(String(Number(invoice.balanceDue)));
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select an open invoice" />
+                </SelectTrigger>
+                <SelectContent>
+                  {openInvoices.map((invoice) => (
+                    <SelectItem key={invoice.id} value={invoice.id}>
+                      {invoice.invoiceNumber} · {invoice.customer.name} · {formatMoney(invoice.balanceDue)} due
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="amount">Amount</Label>
+                <Input id="amount" type="number" step="0.01" min="0" value={amount} onChange={(e) => setAmount(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="paymentDate">Payment date</Label>
+                <Input id="paymentDate" type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Method</Label>
+                <Select value={method} onValueChange={setMethod}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {['ach', 'card', 'wire', 'check', 'cash'].map((value) => (
+                      <SelectItem key={value} value={value}>{METHOD_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reference">Reference</Label>
+                <Input id="reference" value={reference} onChange={(e) => setReference(e.target.value)} placeholder="Check # / transaction ID" />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox id="pending" checked={pending} onCheckedChange={(checked) => setPending(checked === true)} />
+              <Label htmlFor="pending" className="font-normal">Pending - apply once funds clear</Label>
+            </div>
+            {overpayment > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {formatMoney(overpayment)} will be held as unapplied credit.
+              </p>
+            )}
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRecordOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRecord} disabled={recordMutation.isPending}>
+              Record Payment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reverse Payment Dialog */}
+      <Dialog open={!!reversing} onOpenChange={(open) => !open && setReversing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reverse Payment</DialogTitle>
+            <DialogDescription>
+              {reversing && `${formatMoney(reversing.amount)} on ${reversing.invoice.invoiceNumber}. The invoice balance is reopened.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="reverseReason">Reason</Label>
+              <Textarea id="reverseReason" value={reverseReason} onChange={(e) => setReverseReason(e.target.value)} rows={2} />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox id="nsf" checked={nsf} onCheckedChange={(checked) => setNsf(checked === true)} />
+              <Label htmlFor="nsf" className="font-normal">Returned for insufficient funds (NSF)</Label>
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReversing(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!reverseReason.trim() || reverseMutation.isPending}
+              onClick={() => reversing && reverseMutation.mutate({ id: reversing.id, data: { reason: reverseReason.trim(), nsf } })}
+            >
+              Reverse Payment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Apply Credit Dialog */}
+      <Dialog open={!!applying} onOpenChange={(open) => !open && setApplying(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Apply Credit</DialogTitle>
+            <DialogDescription>
+              {applying && `${formatMoney(applying.remaining)} available for ${applying.customer.name}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Invoice</Label>
+              <Select value={creditInvoiceId} onValueChange={setCreditInvoiceId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select an open invoice" />
+                </SelectTrigger>
+                <SelectContent>
+                  {openInvoices
+                    .filter((invoice) => invoice.customer.id === applying?.customerId)
+                    .map((invoice) => (
+                      <SelectItem key={invoice.id} value={invoice.id}>
+                        {invoice.invoiceNumber} · {formatMoney(invoice.balanceDue)} due
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setApplying(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!creditInvoiceId || applyCreditMutation.isPending}
+              onClick={() => applying && applyCreditMutation.mutate({ id: applying.id, data: { invoiceId: creditInvoiceId } })}
+            >
+              Apply Credit
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,346 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../../lib/api';
+import { Button } from '../../components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import { Input } from '../../components/ui/input';
+import { Label } from '../../components/ui/label';
+import { Badge } from '../../components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../components/ui/select';
+import { Eye, FileText, Pencil, Plus, Archive, TrendingUp } from 'lucide-react';
+import { usePermissions, PERMISSIONS } from '../../hooks/usePermissions';
+import { RateCardTemplateForm } from '../../components/billing/RateCardTemplateForm';
+import type { BulkRateIncreaseResult, RateCardTemplate } from '../../components/billing/types';
+
+const ROUNDING_INCREMENTS = ['0.01', '0.05', '0.10', '0.25', '1'];
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  preview: 'outline',
+  updated: 'default',
+  skipped: 'secondary',
+  failed: 'destructive',
+};
+
+function formatMoney(value: number) {
+  return `$${value.toFixed(2)}`;
+}
+
+export function RateCardTemplatesPage() {
+  const queryClient = useQueryClient();
+  const { hasPermission } = usePermissions();
+  const canManageBilling = hasPermission(PERMISSIONS.MANAGE_BILLING);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editedTemplate, setEditedTemplate] = useState<RateCardTemplate | null>(null);
+  const [selectedId, setSelectedId] = useState('');
+  const [error, setError] = useState('');
+
+  // Bulk increase options
+  const [percentage, setPercentage] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState('');
+  const [increment, setIncrement] = useState('0.01');
+  const [roundingMode, setRoundingMode] = useState<'nearest' | 'up' | 'down'>('nearest');
+  const [excludeServices, setExcludeServices] = useState<string[]>([]);
+  const [includeSurcharges, setIncludeSurcharges] = useState(false);
+  const [includeMinimums, setIncludeMinimums] = useState(false);
+  const [result, setResult] = useState<BulkRateIncreaseResult | null>(null);
+
+  const { data: templates = [], isLoading } = useQuery({
+    queryKey: ['rate-card-templates'],
+    queryFn: () => api.get<RateCardTemplate[]>('/api/rate-card-templates'),
+  });
+
+  const selected = templates.find((template) => template.id === selectedId);
+
+  const selectTemplate = (id: string) => {
+    setSelectedId(id);
+    setExcludeServices([]);
+    setResult(null);
+    setError('');
+  };
+
+  const archiveMutation = useMutation({
+    mutationFn: (id: string) => api.delete(`/api/rate-card-templates/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['rate-card-templates'] });
+      selectTemplate('');
+    },
+    onError: (error: Error) => setError(error.message),
+  });
+
+  const increaseMutation = useMutation({
+    mutationFn: ({ dryRun }: { dryRun: boolean }) =>
+      api.post<BulkRateIncreaseResult>(`/api/rate-card-templates/${selectedId}/bulk-increase`, {
+        percentage: parseFloat(percentage),
+        effectiveDate,
+        rounding: { increment: parseFloat(increment), mode: roundingMode },
+        excludeServices,
+        includeSurcharges,
+        includeMinimums,
+        dryRun,
+      }),
+    onSuccess: (increaseResult) => {
+      if (!increaseResult.dryRun) {
+        queryClient.invalidateQueries({ queryKey: ['rate-card-templates'] });
+        queryClient.invalidateQueries({ queryKey: ['rate-cards'] });
+      }
+      setResult(increaseResult);
+      setError('');
+    },
+    onError: (error: Error) => setError(error.message),
+  });
+
+  const toggleExcluded = (serviceType: string) => {
+    setExcludeServices(excludeServices.includes(serviceType)
+      ? excludeServices.filter((code) => code !== serviceType)
+      : [...excludeServices, serviceType]);
+    setResult(null);
+  };
+
+  const canRunIncrease = !!selected && !!percentage && parseFloat(percentage) !== 0 && !!effectiveDate && !increaseMutation.isPending;
+  // Only apply what has just been previewed with the same options
+  const canApply = canRunIncrease && result?.dryRun === true && result.cards.some((card) => card.status === 'preview');
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Rate Card Templates</h1>
+          <p className="text-muted-foreground mt-1">
+            Company list prices that customer rate cards start from, with general rate increases across derived cards
+          </p>
+        </div>
+        {canManageBilling && (
+          <Button onClick={() => { setEditedTemplate(null); setFormOpen(true); }}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Template
+          </Button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <p className="px-6 py-6 text-sm text-muted-foreground">Loading templates...</p>
+          ) : templates.length === 0 ? (
+            <div className="py-12 text-center">
+              <FileText className="mx-auto h-12 w-12 text-muted-foreground" />
+              <h3 className="mt-4 text-lg font-semibold">No templates yet</h3>
+              <p className="mt-2 text-sm text-muted-foreground max-w-md mx-auto">
+                Build a template from billing services, then pick it when creating a customer rate card.
+              </p>
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr className="border-b">
+                  <th className="px-4 py-3 text-left text-sm font-medium">Template</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium">Key</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium">Version</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium">Services</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium">Active cards</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {templates.map((template) => (
+                  <tr key={template.id} className={`border-b ${template.id === selectedId ? 'bg-muted/30' : ''}`}>
+                    <td className="px-4 py-3 text-sm">
+                      <div className="font-medium">{template.name}</div>
+                      {template.description && <div className="text-xs text-muted-foreground">{template.description}</div>}
+                    </td>
+                    <td className="px-4 py-3 text-sm font-mono">{template.templateKey}</td>
+                    <td className="px-4 py-3 text-sm text-right">v{template.version}</td>
+                    <td className="px-4 py-3 text-sm text-right">{template.rates.services.length}</td>
+                    <td className="px-4 py-3 text-sm text-right">{template.activeCardCount ?? 0}</td>
+                    <td className="px-4 py-3 text-right space-x-1">
+                      {canManageBilling && (
+                        <>
+                          <Button size="sm" variant="ghost" onClick={() => selectTemplate(template.id)}>
+                            <TrendingUp className="h-4 w-4 mr-1" />
+                            Rate increase
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => { setEditedTemplate(template); setFormOpen(true); }}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={archiveMutation.isPending}
+                            onClick={() => {
+                              if (window.confirm(`Archive ${template.name}? Customer cards created from it keep their rates.`)) {
+                                archiveMutation.mutate(template.id);
+                              }
+                            }}
+                          >
+                            <Archive className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Bulk rate increase */}
+      {selected && canManageBilling && (
+        <Card>
+          <CardHeader>
+            <CardTitle>General rate increase — {selected.name}</CardTitle>
+            <CardDescription>
+              Creates a new version of every active customer card derived from this template ({selected.activeCardCount ?? 0} cards).
+              Percentage-based services and surcharges never change.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="increasePercentage">Increase (%)</Label>
+                <Input
+                  id="increasePercentage"
+                  type="number"
+                  step="0.1"
+                  className="w-[120px]"
+                  value={percentage}
+                  onChange={(e) => { setPercentage(e.target.value); setResult(null); }}
+                  placeholder="4.5"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="increaseEffectiveDate">Effective date</Label>
+                <Input
+                  id="increaseEffectiveDate"
+                  type="date"
+                  value={effectiveDate}
+                  onChange={(e) => { setEffectiveDate(e.target.value); setResult(null); }}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Round to</Label>
+                <Select value={increment} onValueChange={(value) => { setIncrement(value); setResult(null); }}>
+                  <SelectTrigger className="w-[110px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROUNDING_INCREMENTS.map((value) => (
+                      <SelectItem key={value} value={value}>${value}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Rounding</Label>
+                <Select value={roundingMode} onValueChange={(value) => { setRoundingMode(value as typeof roundingMode); setResult(null); }}>
+                  <SelectTrigger className="w-[120px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="nearest">Nearest</SelectItem>
+                    <SelectItem value="up">Up</SelectItem>
+                    <SelectItem value="down">Down</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <label className="flex items-center gap-2 text-sm pb-2">
+                <input
+                  type="checkbox"
+                  checked={includeSurcharges}
+                  onChange={(e) => { setIncludeSurcharges(e.target.checked); setResult(null); }}
+                />
+                Fixed surcharges
+              </label>
+              <label className="flex items-center gap-2 text-sm pb-2">
+                <input
+                  type="checkbox"
+                  checked={includeMinimums}
+                  onChange={(e) => { setIncludeMinimums(e.target.checked); setResult(null); }}
+                />
+                Minimums
+              </label>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Exclude services</Label>
+              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                {selected.rates.services.map((service) => (
+                  <label key={service.serviceType} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={excludeServices.includes(service.serviceType)}
+                      onChange={() => toggleExcluded(service.serviceType)}
+                    />
+                    {service.description}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Button variant="outline" disabled={!canRunIncrease} onClick={() => increaseMutation.mutate({ dryRun: true })}>
+                <Eye className="h-4 w-4 mr-2" />
+                Preview
+              </Button>
+              <Button disabled={!canApply} onClick={() => increaseMutation.mutate({ dryRun: false })}>
+                <TrendingUp className="h-4 w-4 mr-2" />
+                {increaseMutation.isPending ? 'Applying...' : 'Apply increase'}
+              </Button>
+            </div>
+
+            {result && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  {result.dryRun ? 'Preview: ' : ''}
+                  {result.totals.cards} cards, {result.dryRun ? `${result.cards.filter((card) => card.status === 'preview').length} would change` : `${result.totals.updated} updated`},{' '}
+                  {result.totals.skipped} skipped{result.totals.failed > 0 ? `, ${result.totals.failed} failed` : ''} — effective{' '}
+                  {result.effectiveDate.split('T')[0]}
+                </p>
+                <table className="w-full">
+                  <thead className="bg-muted/50">
+                    <tr className="border-b">
+                      <th className="px-4 py-2 text-left text-sm font-medium">Customer</th>
+                      <th className="px-4 py-2 text-left text-sm font-medium">Rate card</th>
+                      <th className="px-4 py-2 text-left text-sm font-medium">Status</th>
+                      <th className="px-4 py-2 text-left text-sm font-medium">Changes</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.cards.map((card) => (
+                      <tr key={card.rateCardId} className="border-b align-top">
+                        <td className="px-4 py-2 text-sm">{card.customerName}</td>
+                        <td className="px-4 py-2 text-sm">{card.rateCardName} v{card.version}</td>
+                        <td className="px-4 py-2">
+                          <Badge variant={STATUS_VARIANTS[card.status]} className="capitalize">{card.status}</Badge>
+                        </td>
+                        <td className="px-4 py-2 text-sm">
+                          {card.reason && <div className="text-muted-foreground">{card.reason}</div>}
+                          {card.changes.map((change, index) => (
+                            <div key={index}>
+                              <span className="text-muted-foreground">{change.serviceType} {change.field}:</span>{' '}
+                              {formatMoney(change.from)} → {formatMoney(change.to)}
+                            </div>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <RateCardTemplateForm
+        template={editedTemplate}
+        isOpen={formOpen}
+        onClose={() => setFormOpen(false)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,503 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../../lib/api';
+import { Button } from '../../components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import { Input } from '../../components/ui/input';
+import { Label } from '../../components/ui/label';
+import { Textarea } from '../../components/ui/textarea';
+import { Badge } from '../../components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../../components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../../components/ui/dialog';
+import { Boxes, Play, Plus, Trash2 } from 'lucide-react';
+import { usePermissions, PERMISSIONS } from '../../hooks/usePermissions';
+
+interface Client {
+  id: string;
+  name: string;
+}
+
+interface Allocation {
+  id: string;
+  status: string;
+  spaceAllocated?: { pallets?: number; sqft?: number };
+  warehouse: { id: string; code: string; name: string };
+}
+
+interface AgingEntry {
+  storedSince: string;
+  pallets: number;
+}
+
+interface StorageLevel {
+  id: string;
+  effectiveDate: string;
+  pallets: string;
+  cubicFeet: string;
+  aging: AgingEntry[];
+  notes?: string;
+  allocation: { id: string; warehouse: { id: string; name: string } };
+  createdByUser?: { id: string; name: string };
+}
+
+interface Snapshot {
+  id: string;
+  snapshotDate: string;
+  source: string;
+  pallets: string;
+  cubicFeet: string;
+  activityTypes: string[];
+  customer: { id: string; name: string };
+  allocation: { id: string; warehouse: { id: string; name: string } };
+}
+
+interface RunResult {
+  date: string;
+  snapshots: number;
+  activities: { created: number; updated: number; skipped: number; removed: number };
+  skippedAllocations: Array<{ allocationId: string; reason: string }>;
+}
+
+const SOURCE_COLORS: Record<string, string> = {
+  manual: 'default',
+  allocation: 'secondary',
+};
+
+function yesterday() {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() - 1);
+  return date.toISOString().slice(0, 10);
+}
+
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export function StorageBillingPage() {
+  const queryClient = useQueryClient();
+  const { hasPermission } = usePermissions();
+  const canManageBilling = hasPermission(PERMISSIONS.MANAGE_BILLING);
+  const [customerId, setCustomerId] = useState('');
+  const [error, setError] = useState('');
+
+  // Run snapshot
+  const [runDate, setRunDate] = useState(yesterday());
+  const [runResult, setRunResult] = useState<RunResult | null>(null);
+
+  // Record level form
+  const [levelOpen, setLevelOpen] = useState(false);
+  const [allocationId, setAllocationId] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState(today());
+  const [pallets, setPallets] = useState('');
+  const [cubicFeet, setCubicFeet] = useState('');
+  const [aging, setAging] = useState<AgingEntry[]>([]);
+  const [notes, setNotes] = useState('');
+
+  // Penalty thresholds
+  const [thresholds, setThresholds] = useState('');
+
+  const { data: clientsData } = useQuery({
+    queryKey: ['clients'],
+    queryFn: () => api.get<{ clients: Client[] }>('/api/clients'),
+  });
+
+  const { data: clientData } = useQuery({
+    queryKey: ['client', customerId],
+    queryFn: () => api.get<{ client: Client & { warehouseAllocations: Allocation[] } }>(`/api/clients/${customerId}`),
+    enabled: !!customerId,
+  });
+
+  const { data: levelsData } = useQuery({
+    queryKey: ['storage-levels', customerId],
+    queryFn: () => api.get<{ levels: StorageLevel[] }>(`/api/customers/${customerId}/storage/levels`),
+    enabled: !!customerId,
+  });
+
+  const { data: configData } = useQuery({
+    queryKey: ['storage-config', customerId],
+    queryFn: () => api.get<{ longTermThresholdDays: number[] }>(`/api/customers/${customerId}/storage/config`),
+    enabled: !!customerId,
+  });
+
+  const { data: snapshotsData, isLoading } = useQuery({
+    queryKey: ['storage-snapshots', customerId],
+    queryFn: () => {
+      const params = customerId ? `?customerId=${customerId}` : '';
+      return api.get<{ snapshots: Snapshot[]; total: number }>(`/api/storage/snapshots${params}`);
+    },
+  });
+
+  useEffect(() => {
+    if (configData) {
+      setThresholds(configData.longTermThresholdDays.join(', '));
+    }
+  }, [configData]);
+
+  const clients = clientsData?.clients || [];
+  const allocations = (clientData?.client.warehouseAllocations || []).filter(a => a.status === 'active');
+  const levels = levelsData?.levels || [];
+  const snapshots = snapshotsData?.snapshots || [];
+
+  const onStorageError = (error: any) => {
+    setError(error.response?.data?.reason || error.response?.data?.error || 'Request failed');
+  };
+
+  const runMutation = useMutation({
+    mutationFn: (data: any) => api.post<RunResult>('/api/storage/snapshots/run', data),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['storage-snapshots'] });
+      queryClient.invalidateQueries({ queryKey: ['billing-activities'] });
+      setRunResult(result);
+      setError('');
+    },
+    onError: onStorageError,
+  });
+
+  const levelMutation = useMutation({
+    mutationFn: (data: any) => api.post('/api/storage/levels', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['storage-levels'] });
+      setLevelOpen(false);
+    },
+    onError: onStorageError,
+  });
+
+  const configMutation = useMutation({
+    mutationFn: (data: any) => api.put(`/api/customers/${customerId}/storage/config`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['storage-config', customerId] });
+      setError('');
+    },
+    onError: onStorageError,
+  });
+
+  function openLevelDialog() {
+    setAllocationId(allocations[0]?.id || '');
+    setEffectiveDate(today());
+    setPallets('');
+    setCubicFeet('');
+    setAging([]);
+    setNotes('');
+    setError('');
+    setLevelOpen(true);
+  }
+
+  const handleRecordLevel = () => {
+    if (!allocationId) {
+      setError('Select a warehouse allocation');
+      return;
+    }
+
+    levelMutation.mutate({
+      warehouseAllocationId: allocationId,
+      effectiveDate,
+      pallets: Number(pallets || 0),
+      cubicFeet: Number(cubicFeet || 0),
+      aging: aging.filter(entry => entry.storedSince && entry.pallets > 0),
+      notes: notes.trim() || undefined,
+    });
+  };
+
+  const handleSaveThresholds = () => {
+    const days = thresholds.split(',').map(value => Number(value.trim())).filter(value => value > 0);
+    configMutation.mutate({ longTermThresholdDays: days });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Storage Billing</h1>
+          <p className="text-muted-foreground mt-1">
+            Daily on-hand storage snapshots, billed prorated daily against the rate card
+          </p>
+        </div>
+        {canManageBilling && customerId && (
+          <Button onClick={openLevelDialog} disabled={allocations.length === 0}>
+            <Plus className="h-4 w-4 mr-2" />
+            Record Storage
+          </Button>
+        )}
+      </div>
+
+      {error && !levelOpen && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <Label>Client</Label>
+          <Select value={customerId || 'all'} onValueChange={(value) => setCustomerId(value === 'all' ? '' : value)}>
+            <SelectTrigger className="w-[240px]">
+              <SelectValue placeholder="All Clients" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Clients</SelectItem>
+              {clients.map((client) => (
+                <SelectItem key={client.id} value={client.id}>{client.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {canManageBilling && (
+          <div className="flex items-end gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="runDate">Snapshot date</Label>
+              <Input id="runDate" type="date" value={runDate} max={today()} onChange={(e) => setRunDate(e.target.value)} />
+            </div>
+            <Button
+              variant="outline"
+              disabled={runMutation.isPending}
+              onClick={() => runMutation.mutate({ date: runDate, customerId: customerId || undefined })}
+            >
+              <Play className="h-4 w-4 mr-2" />
+              {runMutation.isPending ? 'Running...' : 'Run Snapshot'}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {runResult && (
+        <p className="text-sm text-muted-foreground">
+          {runResult.date}: {runResult.snapshots} snapshots, {runResult.activities.created} activities created,{' '}
+          {runResult.activities.updated} updated, {runResult.activities.removed} removed
+          {runResult.activities.skipped > 0 && `, ${runResult.activities.skipped} skipped (invoiced)`}
+          {runResult.skippedAllocations.length > 0 && `, ${runResult.skippedAllocations.length} allocations without storage`}
+        </p>
+      )}
+
+      <Tabs defaultValue="snapshots" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="snapshots">Snapshots</TabsTrigger>
+          <TabsTrigger value="levels" disabled={!customerId}>Storage Levels</TabsTrigger>
+          <TabsTrigger value="config" disabled={!customerId}>Long-Term Penalty</TabsTrigger>
+        </TabsList>
+
+        {/* Snapshots */}
+        <TabsContent value="snapshots">
+          {snapshots.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center">
+                <Boxes className="mx-auto h-12 w-12 text-muted-foreground" />
+                <h3 className="mt-4 text-lg font-semibold">No storage snapshots</h3>
+                <p className="mt-2 text-sm text-muted-foreground max-w-md mx-auto">
+                  Snapshots are taken nightly for the previous day, or on demand with Run Snapshot.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardContent className="p-0">
+                <table className="w-full">
+                  <thead className="bg-muted/50">
+                    <tr className="border-b">
+                      <th className="px-4 py-3 text-left text-sm font-medium">Date</th>
+                      <th className="px-4 py-3 text-left text-sm font-medium">Client</th>
+                      <th className="px-4 py-3 text-left text-sm font-medium">Warehouse</th>
+                      <th className="px-4 py-3 text-left text-sm font-medium">Source</th>
+                      <th className="px-4 py-3 text-right text-sm font-medium">Pallets</th>
+                      <th className="px-4 py-3 text-right text-sm font-medium">Cubic Feet</th>
+                      <th className="px-4 py-3 text-left text-sm font-medium">Charges</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {snapshots.map((snapshot) => (
+                      <tr key={snapshot.id} className="border-b">
+                        <td className="px-4 py-3 text-sm">{snapshot.snapshotDate.slice(0, 10)}</td>
+                        <td className="px-4 py-3 text-sm">{snapshot.customer.name}</td>
+                        <td className="px-4 py-3 text-sm">{snapshot.allocation.warehouse.name}</td>
+                        <td className="px-4 py-3">
+                          <Badge variant={SOURCE_COLORS[snapshot.source] as any}>{snapshot.source}</Badge>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right">{Number(snapshot.pallets)}</td>
+                        <td className="px-4 py-3 text-sm text-right">{Number(snapshot.cubicFeet)}</td>
+                        <td className="px-4 py-3 text-xs text-muted-foreground">
+                          {snapshot.activityTypes.map(type => type.replace('Storage_', '')).join(', ')}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        {/* Storage levels */}
+        <TabsContent value="levels">
+          {levels.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center">
+                <p className="text-muted-foreground">
+                  No storage recorded. Snapshots fall back to the allocated pallets.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardContent className="p-0">
+                <table className="w-full">
+                  <thead className="bg-muted/50">
+                    <tr className="border-b">
+                      <th className="px-4 py-3 text-left text-sm font-medium">Effective</th>
+                      <th className="px-4 py-3 text-left text-sm font-medium">Warehouse</th>
+                      <th className="px-4 py-3 text-right text-sm font-medium">Pallets</th>
+                      <th className="px-4 py-3 text-right text-sm font-medium">Cubic Feet</th>
+                      <th className="px-4 py-3 text-left text-sm font-medium">Aged Pallets</th>
+                      <th className="px-4 py-3 text-left text-sm font-medium">Recorded By</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {levels.map((level) => (
+                      <tr key={level.id} className="border-b">
+                        <td className="px-4 py-3 text-sm">{level.effectiveDate.slice(0, 10)}</td>
+                        <td className="px-4 py-3 text-sm">{level.allocation.warehouse.name}</td>
+                        <td className="px-4 py-3 text-sm text-right">{Number(level.pallets)}</td>
+                        <td className="px-4 py-3 text-sm text-right">{Number(level.cubicFeet)}</td>
+                        <td className="px-4 py-3 text-xs text-muted-foreground">
+                          {level.aging.map(entry => `${entry.pallets} since ${entry.storedSince}`).join(', ') || '—'}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-muted-foreground">{level.createdByUser?.name || '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        {/* Long-term penalty thresholds */}
+        <TabsContent value="config">
+          <Card>
+            <CardHeader>
+              <CardTitle>Long-Term Storage Penalty</CardTitle>
+              <CardDescription>
+                Pallets stored at least this many days are charged Storage_LongTermPenalty when the rate card
+                defines it. Each threshold is billed as its own item (e.g. "365+ days").
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex items-end gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="thresholds">Thresholds (days)</Label>
+                <Input
+                  id="thresholds"
+                  value={thresholds}
+                  placeholder="180, 365"
+                  disabled={!canManageBilling}
+                  onChange={(e) => setThresholds(e.target.value)}
+                />
+              </div>
+              {canManageBilling && (
+                <Button
+                  variant="outline"
+                  disabled={configMutation.isPending || thresholds === configData?.longTermThresholdDays.join(', ')}
+                  onClick={handleSaveThresholds}
+                >
+                  Save
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {/* Record storage dialog */}
+      <Dialog open={levelOpen} onOpenChange={setLevelOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Record Storage</DialogTitle>
+            <DialogDescription>
+              On-hand storage from the effective date until the next recorded level
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Warehouse allocation</Label>
+              <Select value={allocationId} onValueChange={setAllocationId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select allocation" />
+                </SelectTrigger>
+                <SelectContent>
+                  {allocations.map((allocation) => (
+                    <SelectItem key={allocation.id} value={allocation.id}>
+                      {allocation.warehouse.name} ({allocation.spaceAllocated?.pallets ?? 0} pallets allocated)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="effectiveDate">Effective</Label>
+                <Input id="effectiveDate" type="date" value={effectiveDate} onChange={(e) => setEffectiveDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="pallets">Pallets</Label>
+                <Input id="pallets" type="number" min="0" value={pallets} onChange={(e) => setPallets(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="cubicFeet">Cubic feet</Label>
+                <Input id="cubicFeet" type="number" min="0" value={cubicFeet} onChange={(e) => setCubicFeet(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Aged pallets</Label>
+                <Button size="sm" variant="ghost" onClick={() => setAging([...aging, { storedSince: '', pallets: 0 }])}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+              {aging.map((entry, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    type="date"
+                    value={entry.storedSince}
+                    onChange={(e) => setAging(aging.map((a, i) => (i === index ? { ...a, storedSince: e.target.value } : a)))}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    placeholder="Pallets"
+                    value={entry.pallets || ''}
+                    onChange={(e) => setAging(aging.map((a, i) => (i === index ? { ...a, pallets: Number(e.target.value) } : a)))}
+                  />
+                  <Button size="icon" variant="ghost" onClick={() => setAging(aging.filter((_, i) => i !== index))}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="levelNotes">Notes</Label>
+              <Textarea id="levelNotes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setLevelOpen(false)}>Cancel</Button>
+            <Button onClick={handleRecordLevel} disabled={levelMutation.isPending}>
+              {levelMutation.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -18,6 +18,10 @@ import { WebGLCoverageMap, MapSettings } from '@/components/map';
 import type { MapFeatureFlags } from '@/components/map';
 import MapErrorBoundary from '../../components/map/MapErrorBoundary';
 import { RateCardList } from '../../components/billing';
+import { ClientTimeline, ContractTimeline, CustomerLifecycleCard, OnboardingChecklist, PortalUsersCard } from '../../components/clients';
+import { NotificationPreferenceToggles } from '../../components/notifications/NotificationPreferenceToggles';
+import { AuditHistory } from '../../components/audit';
+import type { NotificationPreferences } from '../../types/notifications';
 
 interface WarehouseAllocation {
   id: string;
@@ -80,6 +84,7 @@ interface Contract {
   status: string;
   billingCycle?: string;
   paymentTerms?: string;
+  documentUrl?: string | null;
   notes?: string;
   createdAt?: string;
   updatedAt?: string;
@@ -222,6 +227,7 @@ export function ClientDetailPage() {
   const [portalEnabled, setPortalEnabled] = useState(false);
   const [portalSubdomain, setPortalSubdomain] = useState('');
   const [notificationEmail, setNotificationEmail] = useState('');
+  const [notificationPreferences, setNotificationPreferences] = useState<NotificationPreferences>({});
   const [timezone, setTimezone] = useState('America/Chicago');
 
   // Map loading and error states
@@ -368,6 +374,18 @@ export function ClientDetailPage() {
     },
   });
 
+  const uploadContractDocumentMutation = useMutation({
+    mutationFn: ({ contractId, file }: { contractId: string; file: File }) =>
+      api.uploadFile(`/api/clients/${id}/contracts/${contractId}/document`, file),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['client', id] });
+      setError('');
+    },
+    onError: (error: any) => {
+      setError(error.response?.data?.error || 'Failed to upload contract document');
+    },
+  });
+
   // Handlers
   const openAddAllocation = () => {
     setEditingAllocation(null);
@@ -571,6 +589,7 @@ export function ClientDetailPage() {
       portal_enabled: portalEnabled,
       portal_subdomain: portalSubdomain || undefined,
       notification_email: notificationEmail || undefined,
+      notification_preferences: notificationPreferences,
       timezone,
     };
 
@@ -583,6 +602,7 @@ export function ClientDetailPage() {
       setPortalEnabled(data.settings.portalEnabled || false);
       setPortalSubdomain(data.settings.portalSubdomain || '');
       setNotificationEmail(data.settings.notificationEmail || '');
+      setNotificationPreferences(data.settings.notificationPreferences || {});
       setTimezone(data.settings.timezone || 'America/Chicago');
     }
   }, [data?.settings, portalSubdomain]);
@@ -638,7 +658,7 @@ export function ClientDetailPage() {
   const client = data;
 
   // Tab state management with validation
-  const validTabs = ['overview', 'allocations', 'contacts', 'contracts', 'integrations', 'settings'];
+  const validTabs = ['overview', 'allocations', 'contacts', 'timeline', 'contracts', 'integrations', 'settings', 'history'];
   const rawTab = searchParams.get('tab') || 'overview';
   const activeTab = validTabs.includes(rawTab) ? rawTab : 'overview';
   
@@ -678,6 +698,9 @@ export function ClientDetailPage() {
           <TabsTrigger value="contacts">
             Communications
           </TabsTrigger>
+          <TabsTrigger value="timeline">
+            Timeline
+          </TabsTrigger>
           <TabsTrigger value="contracts">
             Billing
           </TabsTrigger>
@@ -685,6 +708,7 @@ export function ClientDetailPage() {
             Integrations
           </TabsTrigger>
           <TabsTrigger value="settings">Account Setup</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
         </TabsList>
 
         {/* Tab 1: Overview - Keep mounted for map performance */}
@@ -1360,6 +1384,15 @@ export function ClientDetailPage() {
           )}
         </TabsContent>
 
+        {/* Timeline: contact log and system events */}
+        <TabsContent value="timeline" className="space-y-4">
+          <ClientTimeline
+            customerId={client.id}
+            contacts={(client.contacts || []).filter((contact) => !contact.deleted)}
+            canEdit={canManageClients}
+          />
+        </TabsContent>
+
         {/* Tab 4: Contracts */}
         <TabsContent value="contracts" className="space-y-6">
           {/* Contracts Section */}
@@ -1402,6 +1435,34 @@ export function ClientDetailPage() {
                           <span className="text-muted-foreground">Billing Cycle:</span>{' '}
                           <span className="capitalize">{contract.billingCycle || 'Not set'}</span>
                         </div>
+                        <div>
+                          <span className="text-muted-foreground">Signed Copy:</span>{' '}
+                          {contract.documentUrl ? (
+                            <a href={contract.documentUrl} target="_blank" rel="noreferrer" className="text-primary hover:underline">
+                              View PDF
+                            </a>
+                          ) : (
+                            <span>Not uploaded</span>
+                          )}
+                          {canManageClients && (
+                            <label className="ml-3 text-primary hover:underline cursor-pointer">
+                              {contract.documentUrl ? 'Replace' : 'Upload'}
+                              <input
+                                type="file"
+                                accept="application/pdf,.pdf"
+                                className="hidden"
+                                disabled={uploadContractDocumentMutation.isPending}
+                                onChange={(e) => {
+                                  const file = e.target.files?.[0];
+                                  if (file) {
+                                    uploadContractDocumentMutation.mutate({ contractId: contract.id, file });
+                                  }
+                                  e.target.value = '';
+                                }}
+                              />
+                            </label>
+                          )}
+                        </div>
                       </div>
                     </CardContent>
                   </Card>
@@ -1424,6 +1485,11 @@ export function ClientDetailPage() {
             )}
           </div>
 
+          {/* Amendments and supersession chain */}
+          {client.contracts && client.contracts.length > 0 && (
+            <ContractTimeline customerId={client.id} canEdit={canManageClients} />
+          )}
+
           {/* Divider */}
           <div className="border-t" />
 
@@ -1454,6 +1520,9 @@ export function ClientDetailPage() {
 
         {/* Tab 6: Account Setup */}
         <TabsContent value="settings" className="space-y-4">
+          <OnboardingChecklist customerId={client.id} canEdit={canManageClients} />
+          <CustomerLifecycleCard customerId={client.id} canEdit={canManageClients} />
+
           <Card>
             <CardHeader>
               <CardTitle>Account Setup</CardTitle>
@@ -1516,6 +1585,17 @@ export function ClientDetailPage() {
                     Alerts and notifications will be sent to this email
                   </p>
                 </div>
+
+                <div className="space-y-2">
+                  <Label>Email this client when</Label>
+                  <NotificationPreferenceToggles
+                    audience="customer"
+                    value={notificationPreferences}
+                    onChange={setNotificationPreferences}
+                    disabled={!notificationEmail}
+                    idPrefix="client-notify"
+                  />
+                </div>
               </div>
 
               {/* General Settings */}
@@ -1552,6 +1632,22 @@ export function ClientDetailPage() {
               </div>
             </CardContent>
           </Card>
+
+          <PortalUsersCard
+            customerId={client.id}
+            portalEnabled={client.settings?.portalEnabled ?? false}
+            portalSubdomain={client.settings?.portalSubdomain ?? null}
+            canEdit={canManageClients}
+          />
+        </TabsContent>
+
+        {/* Tab 7: History */}
+        <TabsContent value="history" className="space-y-4">
+          <AuditHistory
+            endpoint={`/api/clients/${client.id}/audit-log`}
+            entityType="customer"
+            description="Changes to this client and its contacts, allocations, contracts and settings"
+          />
         </TabsContent>
       </Tabs>
 
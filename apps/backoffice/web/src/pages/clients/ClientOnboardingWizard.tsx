@@ -82,7 +82,6 @@ export function ClientOnboardingWizard() {
         client: {
           name,
           slug,
-          status: 'active',
         },
         contact: {
           first_name: firstName,
@@ -0,0 +1,47 @@
+import { Routes, Route, Navigate } from 'react-router-dom';
+import { usePortalAuth } from '../../hooks/usePortalAuth';
+import { PortalLayout } from '../../components/portal/PortalLayout';
+import { PortalLoginPage } from './PortalLoginPage';
+import { PortalOverviewPage } from './PortalOverviewPage';
+import { PortalInvoicesPage } from './PortalInvoicesPage';
+import { PortalPaymentsPage } from './PortalPaymentsPage';
+import { PortalRatesPage } from './PortalRatesPage';
+import { PortalContractsPage } from './PortalContractsPage';
+
+interface PortalAppProps {
+  subdomain: string;
+  /** '' when served from a portal subdomain, '/portal/:subdomain' otherwise */
+  basePath: string;
+}
+
+/**
+ * Customer portal - read-only, signed in with a portal session rather than a staff session
+ */
+export function PortalApp({ subdomain, basePath }: PortalAppProps) {
+  const { user, branding, isLoading, login, logout, isLoggingIn } = usePortalAuth(subdomain);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <PortalLoginPage branding={branding} login={login} isLoggingIn={isLoggingIn} />;
+  }
+
+  return (
+    <Routes>
+      <Route element={<PortalLayout user={user} basePath={basePath} onLogout={() => logout()} />}>
+        <Route index element={<PortalOverviewPage />} />
+        <Route path="invoices" element={<PortalInvoicesPage />} />
+        <Route path="payments" element={<PortalPaymentsPage />} />
+        <Route path="rates" element={<PortalRatesPage />} />
+        <Route path="contracts" element={<PortalContractsPage />} />
+        <Route path="*" element={<Navigate to={basePath || '/'} replace />} />
+      </Route>
+    </Routes>
+  );
+}
@@ -0,0 +1,92 @@
+import { useQuery } from '@tanstack/react-query';
+import { api } from '../../lib/api';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import { Badge } from '../../components/ui/badge';
+import { Warehouse } from 'lucide-react';
+import type { PortalAllocation, PortalContract } from '../../types/portal';
+
+function formatDate(value: string | null) {
+  return value ? value.slice(0, 10) : 'Open-ended';
+}
+
+export function PortalContractsPage() {
+  const { data: contractsData, isLoading: isContractsLoading } = useQuery({
+    queryKey: ['portal', 'contracts'],
+    queryFn: () => api.get<{ contracts: PortalContract[] }>('/api/portal/contracts'),
+  });
+
+  const { data: allocationsData, isLoading: isAllocationsLoading } = useQuery({
+    queryKey: ['portal', 'allocations'],
+    queryFn: () => api.get<{ allocations: PortalAllocation[] }>('/api/portal/allocations'),
+  });
+
+  const contracts = contractsData?.contracts ?? [];
+  const allocations = allocationsData?.allocations ?? [];
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Contracts</CardTitle>
+          <CardDescription>Your agreements with us</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isContractsLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : contracts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No contracts</p>
+          ) : (
+            contracts.map((contract) => (
+              <div key={contract.id} className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3">
+                <div>
+                  <p className="text-sm font-medium">
+                    {contract.name}
+                    {contract.contractNumber && <span className="text-muted-foreground"> #{contract.contractNumber}</span>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {contract.startDate.slice(0, 10)} – {formatDate(contract.endDate)}
+                    {contract.autoRenew && ' • renews automatically'}
+                    {contract.paymentTerms && ` • ${contract.paymentTerms}`}
+                  </p>
+                </div>
+                <Badge variant={contract.status === 'active' ? 'default' : 'secondary'}>{contract.status}</Badge>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Warehouses</CardTitle>
+          <CardDescription>Where your inventory is stored</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isAllocationsLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : allocations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No warehouse space allocated</p>
+          ) : (
+            allocations.map((allocation) => (
+              <div key={allocation.id} className="flex items-start gap-3 rounded-md border p-3">
+                <Warehouse className="mt-0.5 h-4 w-4 text-muted-foreground" />
+                <div className="flex-1">
+                  <p className="text-sm font-medium">
+                    {allocation.warehouse.name}
+                    {allocation.isPrimary && <Badge variant="outline" className="ml-2">Primary</Badge>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {[allocation.warehouse.address?.city, allocation.warehouse.address?.state].filter(Boolean).join(', ')}
+                    {allocation.spaceAllocated?.pallets !== undefined && ` • ${allocation.spaceAllocated.pallets} pallets`}
+                    {allocation.spaceAllocated?.sqft !== undefined && ` • ${allocation.spaceAllocated.sqft} sq ft`}
+                    {allocation.zoneAssignment && ` • zone ${allocation.zoneAssignment}`}
+                  </p>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
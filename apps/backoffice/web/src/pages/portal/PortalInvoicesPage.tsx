@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { api } from '../../lib/api';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import { Badge } from '../../components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../../components/ui/dialog';
+import { formatCurrency } from '../../utils/currency';
+import type { PortalInvoice, PortalInvoiceDetail } from '../../types/portal';
+
+const STATUS_COLORS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  issued: 'default',
+  sent: 'default',
+  paid: 'outline',
+  credited: 'outline',
+  partial: 'default',
+  overdue: 'destructive',
+  void: 'outline',
+};
+
+function formatDate(value: string | null) {
+  return value ? value.slice(0, 10) : '-';
+}
+
+export function PortalInvoicesPage() {
+  const [statusFilter, setStatusFilter] = useState<'all' | 'open' | 'paid'>('all');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['portal', 'invoices', statusFilter],
+    queryFn: () => api.get<{ invoices: PortalInvoice[]; total: number }>(`/api/portal/invoices?status=${statusFilter}&limit=200`),
+  });
+
+  const { data: detail } = useQuery({
+    queryKey: ['portal', 'invoices', 'detail', selectedId],
+    queryFn: () => api.get<{ invoice: PortalInvoiceDetail }>(`/api/portal/invoices/${selectedId}`),
+    enabled: !!selectedId,
+  });
+
+  const invoices = data?.invoices ?? [];
+  const invoice = detail?.invoice;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Invoices</CardTitle>
+          <CardDescription>{data?.total ?? 0} invoice{data?.total === 1 ? '' : 's'}</CardDescription>
+        </div>
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as typeof statusFilter)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All invoices</SelectItem>
+            <SelectItem value="open">Open</SelectItem>
+            <SelectItem value="paid">Paid</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : invoices.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No invoices</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2 font-medium">Invoice</th>
+                <th className="py-2 font-medium">Period</th>
+                <th className="py-2 font-medium">Due</th>
+                <th className="py-2 font-medium">Status</th>
+                <th className="py-2 text-right font-medium">Total</th>
+                <th className="py-2 text-right font-medium">Balance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {invoices.map((row) => (
+                <tr
+                  key={row.id}
+                  className="cursor-pointer border-b hover:bg-muted/50"
+                  onClick={() => setSelectedId(row.id)}
+                >
+                  <td className="py-2 font-medium">{row.invoiceNumber}</td>
+                  <td className="py-2">{formatDate(row.periodStart)} – {formatDate(row.periodEnd)}</td>
+                  <td className="py-2">{formatDate(row.dueDate)}</td>
+                  <td className="py-2"><Badge variant={STATUS_COLORS[row.status] ?? 'default'}>{row.status}</Badge></td>
+                  <td className="py-2 text-right">{formatCurrency(Number(row.total))}</td>
+                  <td className="py-2 text-right">{formatCurrency(Number(row.balanceDue))}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!selectedId} onOpenChange={(open) => !open && setSelectedId(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Invoice {invoice?.invoiceNumber}</DialogTitle>
+            <DialogDescription>
+              {invoice && `${formatDate(invoice.periodStart)} – ${formatDate(invoice.periodEnd)} • due ${formatDate(invoice.dueDate)}`}
+            </DialogDescription>
+          </DialogHeader>
+          {invoice && (
+            <div className="space-y-4">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 font-medium">Description</th>
+                    <th className="py-2 text-right font-medium">Qty</th>
+                    <th className="py-2 text-right font-medium">Rate</th>
+                    <th className="py-2 text-right font-medium">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {invoice.lines.map((line) => (
+                    <tr key={line.id} className="border-b">
+                      <td className="py-2">{line.description}</td>
+                      <td className="py-2 text-right">{Number(line.quantity)}{line.unit ? ` ${line.unit}` : ''}</td>
+                      <td className="py-2 text-right">{formatCurrency(Number(line.unitRate))}</td>
+                      <td className="py-2 text-right">{formatCurrency(Number(line.lineTotal))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="ml-auto w-64 space-y-1 text-sm">
+                <div className="flex justify-between"><span>Subtotal</span><span>{formatCurrency(Number(invoice.subtotal))}</span></div>
+                <div className="flex justify-between"><span>Tax</span><span>{formatCurrency(Number(invoice.tax))}</span></div>
+                <div className="flex justify-between font-semibold"><span>Total</span><span>{formatCurrency(Number(invoice.total))}</span></div>
+                <div className="flex justify-between"><span>Balance due</span><span>{formatCurrency(Number(invoice.balanceDue))}</span></div>
+              </div>
+              {invoice.payments.length > 0 && (
+                <div className="space-y-1 border-t pt-3 text-sm">
+                  <p className="font-medium">Payments</p>
+                  {invoice.payments.map((payment) => (
+                    <div key={payment.id} className="flex justify-between text-muted-foreground">
+                      <span>{formatDate(payment.paymentDate)} • {payment.method}{payment.reference ? ` • ${payment.reference}` : ''}</span>
+                      <span>{formatCurrency(Number(payment.amount))} ({payment.status})</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {invoice.notes && <p className="text-sm text-muted-foreground">{invoice.notes}</p>}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Button } from '../../components/ui/button';
+import { Input } from '../../components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import type { PortalBranding } from '../../types/portal';
+
+interface PortalLoginPageProps {
+  branding: PortalBranding | undefined;
+  login: (credentials: { email: string; password: string }) => Promise<unknown>;
+  isLoggingIn: boolean;
+}
+
+export function PortalLoginPage({ branding, login, isLoggingIn }: PortalLoginPageProps) {
+  const [error, setError] = useState('');
+  const [formData, setFormData] = useState({ email: '', password: '' });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      await login(formData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Authentication failed');
+    }
+  };
+
+  if (!branding) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted/30">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <CardTitle>Portal Not Found</CardTitle>
+            <CardDescription>
+              This portal does not exist or is not enabled. Please check the address with your account manager.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-muted/30">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <img src="/handled_icon.png" alt="Handled" className="h-16 w-16" />
+          </div>
+          <CardTitle>{branding.customerName}</CardTitle>
+          <CardDescription>Sign in to your customer portal</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="text-sm font-medium" htmlFor="email">
+                Email
+              </label>
+              <Input
+                id="email"
+                type="email"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                placeholder="you@example.com"
+                required
+              />
+            </div>
+
+            <div>
+              <label className="text-sm font-medium" htmlFor="password">
+                Password
+              </label>
+              <Input
+                id="password"
+                type="password"
+                value={formData.password}
+                onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                placeholder="••••••••"
+                required
+                minLength={8}
+              />
+            </div>
+
+            {error && (
+              <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+                {error}
+              </div>
+            )}
+
+            <Button type="submit" className="w-full" disabled={isLoggingIn}>
+              {isLoggingIn ? 'Please wait...' : 'Sign In'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useQuery } from '@tanstack/react-query';
+import { api } from '../../lib/api';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import { Badge } from '../../components/ui/badge';
+import { AlertTriangle, CheckCircle2, Info } from 'lucide-react';
+import { formatCurrency } from '../../utils/currency';
+import type { PortalInvoice, PortalIssue } from '../../types/portal';
+
+const SEVERITY_ICONS = {
+  critical: <AlertTriangle className="h-4 w-4 text-destructive" />,
+  warning: <AlertTriangle className="h-4 w-4 text-yellow-600" />,
+  info: <Info className="h-4 w-4 text-muted-foreground" />,
+};
+
+export function PortalOverviewPage() {
+  const { data: issuesData, isLoading } = useQuery({
+    queryKey: ['portal', 'issues'],
+    queryFn: () => api.get<{ issues: PortalIssue[] }>('/api/portal/issues'),
+  });
+
+  const { data: openInvoices } = useQuery({
+    queryKey: ['portal', 'invoices', 'open'],
+    queryFn: () => api.get<{ invoices: PortalInvoice[]; total: number }>('/api/portal/invoices?status=open&limit=200'),
+  });
+
+  const issues = issuesData?.issues ?? [];
+  const balanceDue = (openInvoices?.invoices ?? []).reduce((sum, invoice) => sum + Number(invoice.balanceDue), 0);
+
+  return (
+    <>
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Balance Due</CardDescription>
+            <CardTitle className="text-2xl">{formatCurrency(balanceDue)}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">
+            {openInvoices?.total ?? 0} open invoice{openInvoices?.total === 1 ? '' : 's'}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Open Issues</CardDescription>
+            <CardTitle className="text-2xl">{issues.length}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">
+            Items that need your attention
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Open Issues</CardTitle>
+          <CardDescription>Overdue invoices, contracts ending soon and account changes</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : issues.length === 0 ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <CheckCircle2 className="h-4 w-4 text-green-600" />
+              Nothing needs your attention
+            </div>
+          ) : (
+            issues.map((issue) => (
+              <div key={issue.id} className="flex items-start gap-3 rounded-md border p-3">
+                <div className="pt-0.5">{SEVERITY_ICONS[issue.severity]}</div>
+                <div className="flex-1">
+                  <p className="text-sm font-medium">{issue.title}</p>
+                  <p className="text-xs text-muted-foreground">{issue.message}</p>
+                </div>
+                <Badge variant={issue.severity === 'critical' ? 'destructive' : 'secondary'}>{issue.severity}</Badge>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
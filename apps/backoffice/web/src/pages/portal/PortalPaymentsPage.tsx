@@ -0,0 +1,67 @@
+import { useQuery } from '@tanstack/react-query';
+import { api } from '../../lib/api';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import { Badge } from '../../components/ui/badge';
+import { formatCurrency } from '../../utils/currency';
+import type { PortalPayment } from '../../types/portal';
+
+const METHOD_LABELS: Record<string, string> = {
+  ach: 'ACH',
+  card: 'Card',
+  wire: 'Wire',
+  check: 'Check',
+  cash: 'Cash',
+  credit: 'Credit',
+};
+
+export function PortalPaymentsPage() {
+  const { data, isLoading } = useQuery({
+    queryKey: ['portal', 'payments'],
+    queryFn: () => api.get<{ payments: PortalPayment[] }>('/api/portal/payments?limit=200'),
+  });
+
+  const payments = data?.payments ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Payments</CardTitle>
+        <CardDescription>Payments received against your invoices</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : payments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No payments yet</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2 font-medium">Date</th>
+                <th className="py-2 font-medium">Invoice</th>
+                <th className="py-2 font-medium">Method</th>
+                <th className="py-2 font-medium">Reference</th>
+                <th className="py-2 font-medium">Status</th>
+                <th className="py-2 text-right font-medium">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {payments.map((payment) => (
+                <tr key={payment.id} className="border-b">
+                  <td className="py-2">{payment.paymentDate.slice(0, 10)}</td>
+                  <td className="py-2">{payment.invoice?.invoiceNumber ?? '-'}</td>
+                  <td className="py-2">{METHOD_LABELS[payment.method] ?? payment.method}</td>
+                  <td className="py-2">{payment.reference ?? '-'}</td>
+                  <td className="py-2">
+                    <Badge variant={payment.status === 'applied' ? 'outline' : 'secondary'}>{payment.status}</Badge>
+                  </td>
+                  <td className="py-2 text-right">{formatCurrency(Number(payment.amount))}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,111 @@
+import { useQuery } from '@tanstack/react-query';
+import { api } from '../../lib/api';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import { Badge } from '../../components/ui/badge';
+import { formatCurrency } from '../../utils/currency';
+import type { PortalRateCard } from '../../types/portal';
+
+const MINIMUM_LABELS: Record<string, string> = {
+  monthlyMinimum: 'Monthly minimum',
+  orderMinimum: 'Order minimum',
+  minimumMonthlyCharge: 'Minimum monthly charge',
+};
+
+function formatRate(serviceType: string, rate: Record<string, unknown>) {
+  if (Array.isArray(rate.tiers)) {
+    return `${rate.tiers.length} pricing tiers`;
+  }
+  if (typeof rate.baseRate === 'number') {
+    return serviceType.includes('Percent') ? `${rate.baseRate}%` : formatCurrency(rate.baseRate);
+  }
+  return 'Contact for pricing';
+}
+
+function formatSurcharge(surcharge: Record<string, unknown>) {
+  if (typeof surcharge.percentage === 'number') return `${surcharge.percentage}%`;
+  if (typeof surcharge.amount === 'number') return formatCurrency(surcharge.amount);
+  return '-';
+}
+
+export function PortalRatesPage() {
+  const { data, isLoading } = useQuery({
+    queryKey: ['portal', 'rate-card'],
+    queryFn: () => api.get<PortalRateCard>('/api/portal/rate-card'),
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading...</p>;
+  }
+
+  if (!data || data.rateCards.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Rates</CardTitle>
+          <CardDescription>No rate card is in effect - please contact your account manager</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Rates in Effect</CardTitle>
+          <CardDescription>
+            As of {data.date.slice(0, 10)} from{' '}
+            {data.rateCards.map((card) => `${card.name} v${card.version}`).join(', ')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2 font-medium">Service</th>
+                <th className="py-2 font-medium">Category</th>
+                <th className="py-2 font-medium">Unit</th>
+                <th className="py-2 text-right font-medium">Rate</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.services.map((service) => (
+                <tr key={service.serviceType} className="border-b">
+                  <td className="py-2 font-medium">{service.name}</td>
+                  <td className="py-2">{service.category ?? '-'}</td>
+                  <td className="py-2">{service.unit ?? '-'}</td>
+                  <td className="py-2 text-right font-mono">{formatRate(service.serviceType, service.rate)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      {(data.surcharges.length > 0 || data.minimums.length > 0) && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Surcharges & Minimums</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            {data.surcharges.map(({ type, surcharge }) => (
+              <div key={type} className="flex items-center justify-between">
+                <span>
+                  {typeof surcharge.description === 'string' ? surcharge.description : type}
+                  {surcharge.basis === 'invoice' && <Badge variant="outline" className="ml-2">per invoice</Badge>}
+                </span>
+                <span className="font-mono">{formatSurcharge(surcharge)}</span>
+              </div>
+            ))}
+            {data.minimums.map((minimum) => (
+              <div key={minimum.field} className="flex items-center justify-between">
+                <span>{MINIMUM_LABELS[minimum.field] ?? minimum.field}</span>
+                <span className="font-mono">{formatCurrency(minimum.value)}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </>
+  );
+}
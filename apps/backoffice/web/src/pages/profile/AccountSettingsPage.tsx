@@ -1,13 +1,16 @@
 import { useState } from 'react';
-import { useMutation } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from '../../lib/api';
 import { Card, CardHeader, CardTitle, CardContent } from '../../components/ui/card';
 import { Button } from '../../components/ui/button';
 import { Input } from '../../components/ui/input';
 import { Label } from '../../components/ui/label';
-import { Lock } from 'lucide-react';
+import { Bell, Lock } from 'lucide-react';
+import { NotificationPreferenceToggles } from '../../components/notifications/NotificationPreferenceToggles';
+import type { NotificationPreferences } from '../../types/notifications';
 
 export function AccountSettingsPage() {
+  const queryClient = useQueryClient();
   const [currentPassword, setCurrentPassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
@@ -30,6 +33,24 @@ export function AccountSettingsPage() {
     },
   });
 
+  const { data: preferencesData } = useQuery({
+    queryKey: ['notification-preferences'],
+    queryFn: () => api.get<{ preferences: NotificationPreferences }>('/api/notifications/preferences'),
+  });
+  const [preferencesError, setPreferencesError] = useState('');
+
+  const updatePreferences = useMutation({
+    mutationFn: (preferences: NotificationPreferences) =>
+      api.put<{ preferences: NotificationPreferences }>('/api/notifications/preferences', preferences),
+    onSuccess: (data) => {
+      queryClient.setQueryData(['notification-preferences'], data);
+      setPreferencesError('');
+    },
+    onError: (err: any) => {
+      setPreferencesError(err.response?.data?.error || 'Failed to save notification preferences');
+    },
+  });
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -119,15 +140,30 @@ export function AccountSettingsPage() {
         </CardContent>
       </Card>
 
-      {/* Future: Notification Preferences */}
+      {/* Notification Preferences */}
       <Card>
         <CardHeader>
-          <CardTitle>Preferences</CardTitle>
+          <CardTitle>
+            <Bell className="inline h-4 w-4 mr-2" />
+            Email Notifications
+          </CardTitle>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
           <p className="text-sm text-muted-foreground">
-            Additional preferences coming soon (notifications, timezone, language)
+            Choose which events are emailed to you. Client contacts are notified separately, per client.
           </p>
+          <NotificationPreferenceToggles
+            audience="staff"
+            value={preferencesData?.preferences || {}}
+            onChange={(preferences) => updatePreferences.mutate(preferences)}
+            disabled={!preferencesData || updatePreferences.isPending}
+            idPrefix="account-notify"
+          />
+          {preferencesError && (
+            <div className="text-sm text-destructive bg-destructive/10 p-2 rounded">
+              {preferencesError}
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -9,6 +9,7 @@ import { Progress } from '../../components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../../components/ui/tabs';
 import { ArrowLeft, MapPin, Users, BarChart3 } from 'lucide-react';
 import { getStatusColor } from '../../lib/warehouse-utils';
+import { AuditHistory } from '../../components/audit';
 
 interface WarehouseAllocation {
   id: string;
@@ -128,6 +129,7 @@ export function WarehouseDetailPage() {
             Clients ({warehouse._count?.warehouseAllocations || 0})
           </TabsTrigger>
           <TabsTrigger value="capacity">Capacity</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
         </TabsList>
 
         {/* Tab 1: Overview */}
@@ -432,6 +434,15 @@ export function WarehouseDetailPage() {
             )}
           </div>
         </TabsContent>
+
+        {/* Tab 4: History */}
+        <TabsContent value="history" className="space-y-4">
+          <AuditHistory
+            endpoint={`/api/warehouses/${warehouse.id}/audit-log`}
+            entityType="warehouse"
+            description="Changes to this warehouse, its zones and allocations"
+          />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,33 @@
+/**
+ * Type definitions for the audit log (config.audit_log)
+ */
+
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'PURGE';
+
+export type AuditSource = 'user' | 'portal' | 'job' | 'system';
+
+export interface AuditLogEntry {
+  id: string;
+  timestamp: string;
+  action: AuditAction;
+  /** snake_case model name: customer, contact, user_role, ... */
+  entityType: string;
+  /** Record ID, "<a>:<b>" for composite keys, "*" for bulk entries */
+  entityId: string;
+  parentType: string | null;
+  parentId: string | null;
+  source: AuditSource;
+  actorId: string | null;
+  actorName: string | null;
+  /** Changed columns only (full record for CREATE / DELETE) */
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  details: string | null;
+  requestId: string | null;
+  ipAddress: string | null;
+}
+
+export interface AuditLogList {
+  entries: AuditLogEntry[];
+  total: number;
+}
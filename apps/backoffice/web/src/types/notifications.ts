@@ -0,0 +1,52 @@
+/**
+ * Type definitions for email notifications and their delivery log
+ */
+
+export type NotificationEventType =
+  | 'invoice_issued'
+  | 'payment_received'
+  | 'contract_expiring'
+  | 'import_failed';
+
+export type NotificationStatus = 'pending' | 'sent' | 'failed';
+
+/** Per-event switches - customers opt out (false), staff opt in (true) */
+export type NotificationPreferences = Partial<Record<NotificationEventType, boolean>>;
+
+export interface NotificationDelivery {
+  id: string;
+  eventType: NotificationEventType;
+  customerId: string | null;
+  subjectType: 'invoice' | 'payment' | 'contract' | 'integration_run';
+  subjectId: string;
+  audience: 'customer' | 'staff';
+  userId: string | null;
+  recipient: string;
+  subject: string;
+  body: string;
+  status: NotificationStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  transport: string | null;
+  messageId: string | null;
+  sentAt: string | null;
+  createdAt: string;
+  customer: { id: string; name: string } | null;
+  user: { id: string; name: string; email: string } | null;
+}
+
+export interface NotificationDeliveryList {
+  deliveries: NotificationDelivery[];
+  total: number;
+  counts: Record<NotificationStatus, number>;
+}
+
+export interface NotificationEventDefinition {
+  eventType: NotificationEventType;
+  label: string;
+  description: string;
+  customerFacing: boolean;
+  notifyActor: boolean;
+  template: { subject: string; body: string };
+}
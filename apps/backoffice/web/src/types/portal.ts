@@ -0,0 +1,118 @@
+/**
+ * Type definitions for the customer self-service portal
+ */
+
+export interface PortalUser {
+  id: string;
+  email: string;
+  name: string;
+  customer: {
+    id: string;
+    name: string;
+    status: string;
+    settings: { timezone: string } | null;
+  };
+}
+
+export interface PortalBranding {
+  subdomain: string;
+  customerName: string;
+}
+
+export interface PortalInvoice {
+  id: string;
+  invoiceNumber: string;
+  billingCycle: string;
+  periodStart: string;
+  periodEnd: string;
+  issuedAt: string | null;
+  dueDate: string | null;
+  status: string;
+  subtotal: string;
+  tax: string;
+  total: string;
+  balanceDue: string;
+  notes: string | null;
+}
+
+export interface PortalPayment {
+  id: string;
+  amount: string;
+  paymentDate: string;
+  method: string;
+  reference: string | null;
+  status: string;
+  invoice?: { id: string; invoiceNumber: string };
+}
+
+export interface PortalInvoiceDetail extends PortalInvoice {
+  lines: Array<{
+    id: string;
+    description: string;
+    category: string | null;
+    quantity: string;
+    unit: string | null;
+    unitRate: string;
+    lineTotal: string;
+  }>;
+  payments: PortalPayment[];
+}
+
+export interface PortalRateCard {
+  date: string;
+  rateCards: Array<{
+    name: string;
+    version: number;
+    rateCardType: string;
+    effectiveDate: string;
+    expiresDate: string | null;
+  }>;
+  services: Array<{
+    serviceType: string;
+    name: string;
+    unit: string | null;
+    category: string | null;
+    rate: Record<string, unknown>;
+  }>;
+  surcharges: Array<{ type: string; surcharge: Record<string, unknown> }>;
+  minimums: Array<{ field: string; value: number }>;
+}
+
+export interface PortalContract {
+  id: string;
+  contractNumber: string | null;
+  name: string;
+  contractType: string | null;
+  status: string;
+  startDate: string;
+  endDate: string | null;
+  autoRenew: boolean;
+  billingCycle: string | null;
+  paymentTerms: string | null;
+}
+
+export interface PortalAllocation {
+  id: string;
+  isPrimary: boolean;
+  spaceAllocated: { pallets?: number; sqft?: number } | null;
+  zoneAssignment: string | null;
+  warehouse: {
+    id: string;
+    code: string;
+    name: string;
+    address: { city?: string; state?: string } | null;
+    timezone: string;
+  };
+}
+
+export type PortalIssueType = 'invoice_overdue' | 'contract_expiring' | 'termination_scheduled';
+
+export interface PortalIssue {
+  id: string;
+  type: PortalIssueType;
+  severity: 'info' | 'warning' | 'critical';
+  title: string;
+  message: string;
+  date: string;
+  reference: { entity: 'invoice' | 'contract' | 'customer'; id: string };
+}
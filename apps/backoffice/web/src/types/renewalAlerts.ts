@@ -0,0 +1,41 @@
+/**
+ * Type definitions for rate card / contract renewal alerts
+ */
+
+export type RenewalAlertType =
+  | 'rate_card_expiring'
+  | 'contract_expiring'
+  | 'no_active_rate_card'
+  | 'contract_renewal_drafted';
+
+export type RenewalAlertSeverity = 'info' | 'warning' | 'critical';
+
+export interface RenewalAlert {
+  id: string;
+  customerId: string;
+  alertType: RenewalAlertType;
+  subjectType: 'rate_card' | 'contract' | 'customer';
+  subjectId: string;
+  subjectDate: string;
+  windowDays: number | null;
+  severity: RenewalAlertSeverity;
+  title: string;
+  message: string;
+  details: Record<string, unknown>;
+  status: 'open' | 'acknowledged' | 'resolved';
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null;
+  createdAt: string;
+  customer: { id: string; name: string };
+}
+
+export interface RenewalAlertList {
+  alerts: RenewalAlert[];
+  counts: {
+    open: number;
+    acknowledged: number;
+    critical: number;
+    warning: number;
+    info: number;
+  };
+}
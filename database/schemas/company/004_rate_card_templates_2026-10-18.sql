@@ -0,0 +1,55 @@
+-- ============================================
+-- COMPANY SCHEMA: RATE CARD TEMPLATES
+-- Milestone: Rate Card Management
+-- Date: 2026-10-18
+-- Purpose: Company-level rate card templates customer cards are created from
+-- ============================================
+-- A template is the company's list price for a service offering, built from
+-- billing_services codes. Templates are versioned like rate cards: editing a
+-- template creates version N+1 with the same template_key and supersedes_id
+-- pointing at the previous version, which is deactivated.
+--
+-- customer.rate_cards.based_on_template holds the id of the template version a
+-- customer card was created from; bulk rate increases find every active card
+-- derived from any version of a template through it.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS company.rate_card_templates (
+  id TEXT PRIMARY KEY DEFAULT ('rctpl_' || gen_random_uuid()),
+
+  -- Stable identity across versions (e.g. 'ecommerce-standard')
+  template_key TEXT NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  supersedes_id TEXT REFERENCES company.rate_card_templates(id),
+
+  name TEXT NOT NULL,
+  description TEXT,
+
+  -- Same shape as customer.rate_cards.rates ({ services, surcharges, minimums })
+  rates JSONB NOT NULL DEFAULT '{}',
+  billing_cycles JSONB NOT NULL DEFAULT '{}',
+  minimum_monthly_charge DECIMAL(10,2),
+
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  notes TEXT,
+
+  created_by TEXT REFERENCES config.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  archived_at TIMESTAMPTZ,
+
+  UNIQUE(template_key, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_card_templates_key ON company.rate_card_templates(template_key, is_active);
+
+CREATE TRIGGER update_rate_card_templates_updated_at
+  BEFORE UPDATE ON company.rate_card_templates
+  FOR EACH ROW EXECUTE FUNCTION company.update_updated_at();
+
+CREATE INDEX IF NOT EXISTS idx_rate_cards_based_on_template ON customer.rate_cards(based_on_template) WHERE based_on_template IS NOT NULL;
+
+COMMENT ON TABLE company.rate_card_templates IS 'Versioned company rate card templates (list prices) built from billing service codes';
+COMMENT ON COLUMN company.rate_card_templates.template_key IS 'Stable template identity shared by all versions';
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON company.rate_card_templates TO handled_user;
@@ -0,0 +1,76 @@
+-- ============================================
+-- CONFIG SCHEMA: AUDIT LOG
+-- Milestone: Audit Log
+-- Date: 2026-10-18
+-- Purpose: Append-only record of every change made through the primary Prisma client
+-- ============================================
+-- One row per created, updated, deleted or purged record. Rows are written by the
+-- API (Prisma client extension) with the acting user, request ID and client IP,
+-- and carry a before/after diff of the changed columns only.
+--
+-- Append-only:
+-- - UPDATE, DELETE and TRUNCATE are rejected by triggers, whoever runs them
+-- - actor_id has no foreign key so entries survive user purges
+--
+-- Entity history:
+-- - entity_type / entity_id identify the changed record (e.g. contact / ct_123)
+-- - parent_type / parent_id point at the owning customer, warehouse or user so a
+--   client's history also lists its contacts, settings, contracts, ...
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS config.audit_log (
+  id TEXT PRIMARY KEY DEFAULT ('audit_' || gen_random_uuid()),
+  timestamp TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  action TEXT NOT NULL CHECK (action IN ('CREATE', 'UPDATE', 'DELETE', 'PURGE')),
+  -- snake_case model name: customer, customer_settings, user_role, ...
+  entity_type TEXT NOT NULL,
+  -- Record ID, "<a>:<b>" for composite keys, "*" for bulk entries
+  entity_id TEXT NOT NULL,
+  parent_type TEXT,
+  parent_id TEXT,
+
+  -- user = staff request, portal = customer portal request, job = background job
+  source TEXT NOT NULL DEFAULT 'system' CHECK (source IN ('user', 'portal', 'job', 'system')),
+  actor_id TEXT,
+  actor_name TEXT,
+
+  -- Changed columns only (full record for CREATE / DELETE); secrets are redacted
+  before JSONB,
+  after JSONB,
+  details TEXT,
+
+  request_id TEXT,
+  ip_address TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON config.audit_log(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_parent ON config.audit_log(parent_type, parent_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_timestamp ON config.audit_log(timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON config.audit_log(actor_id, timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_request ON config.audit_log(request_id);
+
+CREATE OR REPLACE FUNCTION config.prevent_audit_log_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'config.audit_log is append-only (% rejected)', TG_OP;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON config.audit_log;
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON config.audit_log
+  FOR EACH ROW EXECUTE FUNCTION config.prevent_audit_log_change();
+
+DROP TRIGGER IF EXISTS audit_log_no_truncate ON config.audit_log;
+CREATE TRIGGER audit_log_no_truncate
+  BEFORE TRUNCATE ON config.audit_log
+  FOR EACH STATEMENT EXECUTE FUNCTION config.prevent_audit_log_change();
+
+COMMENT ON TABLE config.audit_log IS 'Append-only change history for primary database records';
+COMMENT ON COLUMN config.audit_log.before IS 'Changed columns before the change (full record for DELETE / PURGE)';
+COMMENT ON COLUMN config.audit_log.after IS 'Changed columns after the change (full record for CREATE)';
+COMMENT ON COLUMN config.audit_log.request_id IS 'API request ID (X-Request-Id) - groups every change made by one request';
+
+GRANT SELECT, INSERT ON config.audit_log TO handled_user;
+REVOKE UPDATE, DELETE, TRUNCATE ON config.audit_log FROM handled_user;
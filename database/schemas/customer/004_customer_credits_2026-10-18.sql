@@ -0,0 +1,51 @@
+-- ============================================
+-- CUSTOMER SCHEMA: UNAPPLIED CREDIT
+-- Milestone: Payments & Accounts Receivable
+-- Date: 2026-10-18
+-- Purpose: Hold overpayments (and other customer credit) until applied to an invoice
+-- ============================================
+-- Payments always reference a single invoice and never exceed its balance.
+-- The part of a payment above the invoice balance is recorded here as
+-- unapplied credit; applying it later creates a payment with method 'credit'
+-- whose reference is the credit id.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS customer.customer_credits (
+  id TEXT PRIMARY KEY DEFAULT ('credit_' || gen_random_uuid()),
+  customer_id TEXT NOT NULL REFERENCES customer.customers(id) ON DELETE RESTRICT,
+
+  -- Origin
+  source TEXT NOT NULL DEFAULT 'overpayment' CHECK (source IN ('overpayment', 'manual')),
+  source_payment_id TEXT REFERENCES customer.payments(id) ON DELETE RESTRICT,
+
+  -- Amounts
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  remaining DECIMAL(12,2) NOT NULL CHECK (remaining >= 0),
+
+  -- Status
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'applied', 'void')),
+
+  -- Metadata
+  notes TEXT,
+
+  -- Audit
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by TEXT REFERENCES config.users(id),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT check_credit_remaining CHECK (remaining <= amount)
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_credits_customer ON customer.customer_credits(customer_id, status);
+CREATE INDEX IF NOT EXISTS idx_customer_credits_payment ON customer.customer_credits(source_payment_id);
+
+CREATE TRIGGER update_customer_credits_updated_at
+  BEFORE UPDATE ON customer.customer_credits
+  FOR EACH ROW
+  EXECUTE FUNCTION customer.update_updated_at();
+
+COMMENT ON TABLE customer.customer_credits IS 'Unapplied customer credit (overpayments) available to apply to open invoices';
+COMMENT ON COLUMN customer.customer_credits.remaining IS 'Credit not yet applied; applications are payments with method credit and reference = credit id';
+COMMENT ON COLUMN customer.customer_credits.source_payment_id IS 'Payment whose excess created this credit (source = overpayment)';
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON customer.customer_credits TO handled_user;
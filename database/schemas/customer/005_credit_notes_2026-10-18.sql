@@ -0,0 +1,98 @@
+-- ============================================
+-- CUSTOMER SCHEMA: CREDIT NOTES
+-- Milestone: Invoice Adjustments
+-- Date: 2026-10-18
+-- Purpose: Corrections to issued invoices without editing them
+-- ============================================
+-- Issued invoices are immutable. A credit note references the invoice (and
+-- optionally specific invoice lines), is approved by a manage_billing holder
+-- and is then applied either against the invoice balance or as account credit
+-- (customer.customer_credits) for a later invoice.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS customer.credit_notes (
+  id TEXT PRIMARY KEY DEFAULT ('cn_' || gen_random_uuid()),
+  credit_note_number TEXT NOT NULL UNIQUE,
+  customer_id TEXT NOT NULL REFERENCES customer.customers(id) ON DELETE RESTRICT,
+  invoice_id TEXT NOT NULL REFERENCES customer.invoices(id) ON DELETE RESTRICT,
+
+  -- Reason
+  reason_code TEXT NOT NULL CHECK (reason_code IN (
+    'billing_error', 'pricing_correction', 'duplicate_charge', 'service_issue', 'goodwill', 'other'
+  )),
+  reason TEXT NOT NULL,
+
+  -- Amounts
+  total DECIMAL(12,2) NOT NULL CHECK (total > 0),
+  applied_to_invoice DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (applied_to_invoice >= 0),
+  applied_to_account DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (applied_to_account >= 0),
+
+  -- Workflow
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'applied')),
+  approved_at TIMESTAMPTZ,
+  approved_by TEXT REFERENCES config.users(id),
+  rejected_reason TEXT,
+  applied_at TIMESTAMPTZ,
+
+  -- Audit
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by TEXT REFERENCES config.users(id),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT check_credit_note_applied CHECK (applied_to_invoice + applied_to_account <= total)
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_notes_customer ON customer.credit_notes(customer_id);
+CREATE INDEX IF NOT EXISTS idx_credit_notes_invoice ON customer.credit_notes(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_credit_notes_status ON customer.credit_notes(status);
+
+CREATE TRIGGER update_credit_notes_updated_at
+  BEFORE UPDATE ON customer.credit_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION customer.update_updated_at();
+
+COMMENT ON TABLE customer.credit_notes IS 'Credit notes against issued invoices (corrections never edit the invoice)';
+COMMENT ON COLUMN customer.credit_notes.credit_note_number IS 'Format: CN-YYYY-CUSTCODE-NNN (own sequence per customer and year)';
+COMMENT ON COLUMN customer.credit_notes.applied_to_invoice IS 'Portion that reduced the invoice balance';
+COMMENT ON COLUMN customer.credit_notes.applied_to_account IS 'Portion held as account credit (customer.customer_credits)';
+
+-- ============================================
+-- CREDIT NOTE LINES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS customer.credit_note_lines (
+  id TEXT PRIMARY KEY DEFAULT ('cnline_' || gen_random_uuid()),
+  credit_note_id TEXT NOT NULL REFERENCES customer.credit_notes(id) ON DELETE CASCADE,
+  invoice_line_id TEXT REFERENCES customer.invoice_lines(id) ON DELETE RESTRICT,
+
+  description TEXT NOT NULL,
+  quantity DECIMAL(10,3) NOT NULL CHECK (quantity > 0),
+  unit_rate DECIMAL(10,2) NOT NULL CHECK (unit_rate >= 0),
+  line_total DECIMAL(12,2) NOT NULL CHECK (line_total >= 0),
+  line_order INT,
+
+  CONSTRAINT check_credit_note_line_total CHECK (line_total = quantity * unit_rate)
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_note_lines_note ON customer.credit_note_lines(credit_note_id);
+CREATE INDEX IF NOT EXISTS idx_credit_note_lines_invoice_line ON customer.credit_note_lines(invoice_line_id);
+
+COMMENT ON TABLE customer.credit_note_lines IS 'Credited amounts, optionally tied to the invoice line being corrected';
+
+-- ============================================
+-- ACCOUNT CREDIT FROM CREDIT NOTES
+-- ============================================
+
+ALTER TABLE customer.customer_credits
+  ADD COLUMN IF NOT EXISTS credit_note_id TEXT REFERENCES customer.credit_notes(id) ON DELETE RESTRICT;
+
+ALTER TABLE customer.customer_credits DROP CONSTRAINT IF EXISTS customer_credits_source_check;
+ALTER TABLE customer.customer_credits
+  ADD CONSTRAINT customer_credits_source_check CHECK (source IN ('overpayment', 'credit_note', 'manual'));
+
+CREATE INDEX IF NOT EXISTS idx_customer_credits_credit_note ON customer.customer_credits(credit_note_id);
+
+COMMENT ON COLUMN customer.customer_credits.credit_note_id IS 'Credit note whose account portion created this credit (source = credit_note)';
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON customer.credit_notes TO handled_user;
+GRANT SELECT, INSERT, UPDATE, DELETE ON customer.credit_note_lines TO handled_user;
@@ -0,0 +1,83 @@
+-- ============================================
+-- CUSTOMER SCHEMA: STORAGE SNAPSHOTS
+-- Milestone: Storage Billing
+-- Date: 2026-10-18
+-- Purpose: Daily on-hand storage per warehouse allocation, billed prorated daily
+-- ============================================
+-- Until inventory is tracked, on-hand storage comes from manual storage levels
+-- (effective from a date until the next level) or, failing that, from the
+-- allocation's space_allocated. The daily job writes one snapshot per allocation
+-- and day, then emits Storage_* billing activities from it. Both are keyed so the
+-- job can be re-run for a date without duplicating anything.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS customer.storage_levels (
+  id TEXT PRIMARY KEY DEFAULT ('stlevel_' || gen_random_uuid()),
+  customer_id TEXT NOT NULL REFERENCES customer.customers(id) ON DELETE CASCADE,
+  warehouse_allocation_id TEXT NOT NULL REFERENCES customer.warehouse_allocations(id) ON DELETE CASCADE,
+  effective_date DATE NOT NULL,
+
+  -- On-hand units
+  pallets DECIMAL(10,3) NOT NULL DEFAULT 0 CHECK (pallets >= 0),
+  cubic_feet DECIMAL(12,3) NOT NULL DEFAULT 0 CHECK (cubic_feet >= 0),
+
+  -- Pallets by storage start date, for long-term penalties: [{ "storedSince": "2025-01-10", "pallets": 4 }]
+  aging JSONB NOT NULL DEFAULT '[]',
+
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by TEXT REFERENCES config.users(id),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT unique_storage_level_per_day UNIQUE (warehouse_allocation_id, effective_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_storage_levels_customer ON customer.storage_levels(customer_id);
+
+CREATE TRIGGER update_storage_levels_updated_at
+  BEFORE UPDATE ON customer.storage_levels
+  FOR EACH ROW
+  EXECUTE FUNCTION customer.update_updated_at();
+
+COMMENT ON TABLE customer.storage_levels IS 'Manually entered on-hand storage per allocation, effective until the next level';
+COMMENT ON COLUMN customer.storage_levels.aging IS 'Pallets by storage start date (drives long-term storage penalties)';
+
+-- ============================================
+-- DAILY SNAPSHOTS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS customer.storage_snapshots (
+  id TEXT PRIMARY KEY DEFAULT ('stsnap_' || gen_random_uuid()),
+  customer_id TEXT NOT NULL REFERENCES customer.customers(id) ON DELETE CASCADE,
+  warehouse_allocation_id TEXT NOT NULL REFERENCES customer.warehouse_allocations(id) ON DELETE CASCADE,
+  snapshot_date DATE NOT NULL,
+
+  -- Where the numbers came from
+  source TEXT NOT NULL CHECK (source IN ('manual', 'allocation')),
+  storage_level_id TEXT REFERENCES customer.storage_levels(id) ON DELETE SET NULL,
+
+  pallets DECIMAL(10,3) NOT NULL DEFAULT 0 CHECK (pallets >= 0),
+  cubic_feet DECIMAL(12,3) NOT NULL DEFAULT 0 CHECK (cubic_feet >= 0),
+  aging JSONB NOT NULL DEFAULT '[]',
+
+  -- Activity types emitted for this snapshot (for re-run cleanup and review)
+  activity_types TEXT[] NOT NULL DEFAULT '{}',
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT unique_storage_snapshot_per_day UNIQUE (warehouse_allocation_id, snapshot_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_storage_snapshots_customer_date ON customer.storage_snapshots(customer_id, snapshot_date);
+
+CREATE TRIGGER update_storage_snapshots_updated_at
+  BEFORE UPDATE ON customer.storage_snapshots
+  FOR EACH ROW
+  EXECUTE FUNCTION customer.update_updated_at();
+
+COMMENT ON TABLE customer.storage_snapshots IS 'On-hand storage per allocation and day, source of Storage_* billing activities';
+COMMENT ON COLUMN customer.storage_snapshots.source IS 'manual: latest storage_levels row on or before the date; allocation: warehouse_allocations.space_allocated';
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON customer.storage_levels TO handled_user;
+GRANT SELECT, INSERT, UPDATE, DELETE ON customer.storage_snapshots TO handled_user;
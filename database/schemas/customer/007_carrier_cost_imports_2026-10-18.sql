@@ -0,0 +1,41 @@
+-- ============================================
+-- CUSTOMER SCHEMA: CARRIER COST IMPORTS
+-- Milestone: Shipping Billing
+-- Date: 2026-10-18
+-- Purpose: Carrier invoice / label cost imports and their reconciliation reports
+-- ============================================
+-- Carrier cost files (UPS billing data, USPS postage reports) are matched to
+-- shipping billing activities by tracking number or reference. Matched costs are
+-- stored on the activity (metadata.carrierCost) and priced cost-plus; this table
+-- keeps one row per import with the reconciliation report, so unmatched charges
+-- can be followed up after the upload.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS customer.carrier_cost_imports (
+  id TEXT PRIMARY KEY DEFAULT ('ccimp_' || gen_random_uuid()),
+  customer_id TEXT NOT NULL REFERENCES customer.customers(id) ON DELETE CASCADE,
+
+  -- Uploaded files and detected carriers
+  filenames TEXT[] NOT NULL DEFAULT '{}',
+  carriers TEXT[] NOT NULL DEFAULT '{}',
+
+  -- Totals
+  charge_count INTEGER NOT NULL DEFAULT 0,
+  matched_count INTEGER NOT NULL DEFAULT 0,
+  unmatched_count INTEGER NOT NULL DEFAULT 0,
+  total_cost DECIMAL(12,2) NOT NULL DEFAULT 0,
+  total_billed DECIMAL(12,2) NOT NULL DEFAULT 0,
+
+  -- Reconciliation: { matched: [...], unmatched: [...], locked: [...], unpriced: [...] }
+  report JSONB NOT NULL DEFAULT '{}',
+
+  imported_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  imported_by TEXT REFERENCES config.users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_carrier_cost_imports_customer ON customer.carrier_cost_imports(customer_id, imported_at);
+
+COMMENT ON TABLE customer.carrier_cost_imports IS 'Carrier cost file imports with the reconciliation of charges against shipping activities';
+COMMENT ON COLUMN customer.carrier_cost_imports.report IS 'Matched, unmatched, locked (invoiced/override) and unpriced charges';
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON customer.carrier_cost_imports TO handled_user;
@@ -0,0 +1,60 @@
+-- ============================================
+-- CUSTOMER SCHEMA: RENEWAL ALERTS
+-- Milestone: Contract & Rate Card Lifecycle
+-- Date: 2026-10-18
+-- Purpose: Expiry / renewal warnings for rate cards and contracts
+-- ============================================
+-- A daily check raises one alert per subject and alert window (90/60/30 days by
+-- default): standard rate cards lapsing without a successor, active contracts
+-- reaching their end date, customers with no rate card for an upcoming date and
+-- renewal contracts drafted for autoRenew contracts. Alerts are shown as
+-- dashboard tasks and notifications, and are resolved automatically once the
+-- condition no longer holds.
+-- ============================================
+
+-- Drafted renewals are contracts of their own type
+ALTER TABLE customer.contracts DROP CONSTRAINT IF EXISTS contracts_contract_type_check;
+ALTER TABLE customer.contracts ADD CONSTRAINT contracts_contract_type_check
+  CHECK (contract_type IN ('original', 'addendum', 'amendment', 'renewal'));
+
+CREATE TABLE IF NOT EXISTS customer.renewal_alerts (
+  id TEXT PRIMARY KEY DEFAULT ('ralert_' || gen_random_uuid()),
+  customer_id TEXT NOT NULL REFERENCES customer.customers(id) ON DELETE CASCADE,
+
+  -- rate_card_expiring | contract_expiring | no_active_rate_card | contract_renewal_drafted
+  alert_type TEXT NOT NULL,
+  -- rate_card | contract | customer
+  subject_type TEXT NOT NULL,
+  subject_id TEXT NOT NULL,
+  -- Expiry date, contract end date or first date without a rate card
+  subject_date DATE NOT NULL,
+  window_days INTEGER,
+
+  severity TEXT NOT NULL DEFAULT 'info' CHECK (severity IN ('info', 'warning', 'critical')),
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  details JSONB NOT NULL DEFAULT '{}',
+
+  -- One alert per alert type, subject and window
+  dedupe_key TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged', 'resolved')),
+  acknowledged_at TIMESTAMPTZ,
+  acknowledged_by TEXT REFERENCES config.users(id),
+  resolved_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_renewal_alerts_status ON customer.renewal_alerts(status, severity);
+CREATE INDEX IF NOT EXISTS idx_renewal_alerts_customer ON customer.renewal_alerts(customer_id, status);
+
+CREATE TRIGGER update_renewal_alerts_updated_at
+  BEFORE UPDATE ON customer.renewal_alerts
+  FOR EACH ROW EXECUTE FUNCTION customer.update_updated_at();
+
+COMMENT ON TABLE customer.renewal_alerts IS 'Rate card / contract expiry and renewal alerts raised by the daily renewal check';
+COMMENT ON COLUMN customer.renewal_alerts.window_days IS 'Alert window the subject date fell in (e.g. 90/60/30), null for drafted renewals';
+COMMENT ON COLUMN customer.renewal_alerts.dedupe_key IS 'alert_type:subject_id[:window] - re-running the check never duplicates alerts';
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON customer.renewal_alerts TO handled_user;
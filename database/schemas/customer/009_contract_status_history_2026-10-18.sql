@@ -0,0 +1,31 @@
+-- ============================================
+-- CUSTOMER SCHEMA: CONTRACT STATUS HISTORY
+-- Milestone: Contract & Rate Card Lifecycle
+-- Date: 2026-10-18
+-- Purpose: Audit entry for every contract status transition
+-- ============================================
+-- Contract status follows a fixed transition table (draft → active → expired,
+-- draft/active → terminated). Manual changes, supersession and the daily status
+-- job all record the transition here; rows are never updated or deleted.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS customer.contract_status_history (
+  id TEXT PRIMARY KEY DEFAULT ('cstatus_' || gen_random_uuid()),
+  contract_id TEXT NOT NULL REFERENCES customer.contracts(id) ON DELETE CASCADE,
+
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  -- manual | scheduled | supersede
+  trigger TEXT NOT NULL CHECK (trigger IN ('manual', 'scheduled', 'supersede')),
+  reason TEXT,
+
+  changed_by TEXT REFERENCES config.users(id),
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_status_history_contract ON customer.contract_status_history(contract_id, changed_at);
+
+COMMENT ON TABLE customer.contract_status_history IS 'Append-only log of contract status transitions';
+COMMENT ON COLUMN customer.contract_status_history.changed_by IS 'User who made the change, null for the daily status job';
+
+GRANT SELECT, INSERT ON customer.contract_status_history TO handled_user;
@@ -0,0 +1,93 @@
+-- ============================================
+-- CUSTOMER SCHEMA: CUSTOMER STATUS & OFFBOARDING
+-- Milestone: Customer Lifecycle
+-- Date: 2026-10-18
+-- Purpose: Customer status history, pause / resume and scheduled terminations
+-- ============================================
+-- Customer status follows a transition table (prospect → setup → active,
+-- active ⇄ paused, anything but terminated → terminated). Every change is logged
+-- in customer_status_history.
+--
+-- Terminating schedules an offboarding for an effective date: active contracts
+-- are end-dated to the day before, a final-bill checklist is generated, rate cards
+-- are deactivated once the final invoice is issued and warehouse allocations are
+-- released. Each step stores what it changed so the whole offboarding can be
+-- cancelled until the effective date; on that date the daily offboarding job
+-- marks the customer terminated.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS customer.customer_status_history (
+  id TEXT PRIMARY KEY DEFAULT ('custstatus_' || gen_random_uuid()),
+  customer_id TEXT NOT NULL REFERENCES customer.customers(id) ON DELETE CASCADE,
+
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  -- manual | onboarding | offboarding
+  trigger TEXT NOT NULL CHECK (trigger IN ('manual', 'onboarding', 'offboarding')),
+  reason TEXT,
+
+  changed_by TEXT REFERENCES config.users(id),
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_status_history_customer ON customer.customer_status_history(customer_id, changed_at);
+
+COMMENT ON TABLE customer.customer_status_history IS 'Append-only log of customer status transitions';
+COMMENT ON COLUMN customer.customer_status_history.changed_by IS 'User who made the change, null for daily jobs';
+
+GRANT SELECT, INSERT ON customer.customer_status_history TO handled_user;
+
+CREATE TABLE IF NOT EXISTS customer.customer_offboardings (
+  id TEXT PRIMARY KEY DEFAULT ('offb_' || gen_random_uuid()),
+  customer_id TEXT NOT NULL REFERENCES customer.customers(id) ON DELETE CASCADE,
+
+  -- scheduled → terminated → completed, or cancelled before the effective date
+  status TEXT NOT NULL DEFAULT 'scheduled'
+    CHECK (status IN ('scheduled', 'terminated', 'completed', 'cancelled')),
+  -- First day the customer is no longer served
+  effective_date DATE NOT NULL,
+  reason TEXT NOT NULL,
+
+  -- Undo information for each step
+  -- [{ contractId, previousEndDate, previousAutoRenew }]
+  contract_changes JSONB NOT NULL DEFAULT '[]',
+  -- [{ allocationId, previousStatus }]
+  released_allocations JSONB NOT NULL DEFAULT '[]',
+  -- [rateCardId]
+  deactivated_rate_cards JSONB NOT NULL DEFAULT '[]',
+  allocations_released_at TIMESTAMPTZ,
+  rate_cards_deactivated_at TIMESTAMPTZ,
+
+  final_invoice_id TEXT REFERENCES customer.invoices(id),
+  -- [{ key, label, done, doneAt, doneBy }]
+  final_bill_checklist JSONB NOT NULL DEFAULT '[]',
+
+  requested_by TEXT REFERENCES config.users(id),
+  cancelled_by TEXT REFERENCES config.users(id),
+  cancelled_at TIMESTAMPTZ,
+  terminated_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One open offboarding per customer
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customer_offboardings_open
+  ON customer.customer_offboardings(customer_id)
+  WHERE status IN ('scheduled', 'terminated');
+CREATE INDEX IF NOT EXISTS idx_customer_offboardings_due ON customer.customer_offboardings(status, effective_date);
+
+CREATE TRIGGER update_customer_offboardings_updated_at
+  BEFORE UPDATE ON customer.customer_offboardings
+  FOR EACH ROW EXECUTE FUNCTION customer.update_updated_at();
+
+COMMENT ON TABLE customer.customer_offboardings IS 'Scheduled customer terminations with the changes made by each offboarding step';
+COMMENT ON COLUMN customer.customer_offboardings.effective_date IS 'Termination takes effect on this date; contracts end the day before';
+
+GRANT SELECT, INSERT, UPDATE ON customer.customer_offboardings TO handled_user;
+
+-- Contracts end-dated or terminated by an offboarding
+ALTER TABLE customer.contract_status_history DROP CONSTRAINT IF EXISTS contract_status_history_trigger_check;
+ALTER TABLE customer.contract_status_history ADD CONSTRAINT contract_status_history_trigger_check
+  CHECK (trigger IN ('manual', 'scheduled', 'supersede', 'offboarding'));
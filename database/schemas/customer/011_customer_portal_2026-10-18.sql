@@ -0,0 +1,52 @@
+-- ============================================
+-- CUSTOMER SCHEMA: CUSTOMER PORTAL ACCOUNTS
+-- Milestone: Customer Portal
+-- Date: 2026-10-18
+-- Purpose: Customer-scoped logins and sessions for the read-only portal
+-- ============================================
+-- Portal users are not staff: they live here rather than in config.users, belong to
+-- exactly one customer and sign in through that customer's portal
+-- (settings.portal_subdomain). Their sessions are kept apart from config.sessions
+-- so a portal session can never authenticate a backoffice request.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS customer.portal_users (
+  id TEXT PRIMARY KEY,
+  customer_id TEXT NOT NULL REFERENCES customer.customers(id) ON DELETE CASCADE,
+
+  -- Stored lowercase; unique within the customer
+  email TEXT NOT NULL,
+  hashed_password TEXT NOT NULL,
+  name TEXT NOT NULL,
+  disabled BOOLEAN NOT NULL DEFAULT FALSE,
+  last_login_at TIMESTAMPTZ,
+
+  created_by TEXT REFERENCES config.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (customer_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_portal_users_customer ON customer.portal_users(customer_id);
+
+CREATE TRIGGER update_portal_users_updated_at
+  BEFORE UPDATE ON customer.portal_users
+  FOR EACH ROW EXECUTE FUNCTION customer.update_updated_at();
+
+COMMENT ON TABLE customer.portal_users IS 'Customer portal logins - separate from staff users in config.users';
+COMMENT ON COLUMN customer.portal_users.created_by IS 'Staff user who invited the portal user';
+
+GRANT SELECT, INSERT, UPDATE ON customer.portal_users TO handled_user;
+
+CREATE TABLE IF NOT EXISTS customer.portal_sessions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES customer.portal_users(id) ON DELETE CASCADE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_portal_sessions_user_id ON customer.portal_sessions(user_id);
+
+COMMENT ON TABLE customer.portal_sessions IS 'Active customer portal sessions for Lucia Auth';
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON customer.portal_sessions TO handled_user;
@@ -0,0 +1,71 @@
+-- ============================================
+-- CUSTOMER SCHEMA: NOTIFICATIONS
+-- Milestone: Customer Notifications
+-- Date: 2026-10-18
+-- Purpose: Email notifications for billing / contract / import events with a delivery log
+-- ============================================
+-- Events (invoice issued, payment received, contract expiring, import failed) are
+-- rendered from templates and sent to the customer's settings.notification_email
+-- and to staff users who opted in. Each recipient gets one delivery row; failed
+-- sends are retried with backoff until the attempt limit is reached.
+--
+-- Preferences:
+-- - customer.settings.notification_preferences: { "<event_type>": false } mutes an event for the customer
+-- - config.users.notification_preferences:      { "<event_type>": true } subscribes a staff user
+-- ============================================
+
+ALTER TABLE config.users
+  ADD COLUMN IF NOT EXISTS notification_preferences JSONB NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN config.users.notification_preferences IS 'Per-event email subscriptions, e.g. {"import_failed": true}';
+
+CREATE TABLE IF NOT EXISTS customer.notification_deliveries (
+  id TEXT PRIMARY KEY DEFAULT ('notif_' || gen_random_uuid()),
+
+  event_type TEXT NOT NULL
+    CHECK (event_type IN ('invoice_issued', 'payment_received', 'contract_expiring', 'import_failed')),
+  -- Null for events that do not belong to a customer (imports)
+  customer_id TEXT REFERENCES customer.customers(id) ON DELETE CASCADE,
+  -- invoice | payment | contract | integration_run
+  subject_type TEXT NOT NULL,
+  subject_id TEXT NOT NULL,
+
+  -- customer = settings.notification_email, staff = an opted-in config.users row
+  audience TEXT NOT NULL CHECK (audience IN ('customer', 'staff')),
+  user_id TEXT REFERENCES config.users(id) ON DELETE SET NULL,
+  recipient TEXT NOT NULL,
+
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL,
+
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ,
+  last_error TEXT,
+  transport TEXT,
+  message_id TEXT,
+  sent_at TIMESTAMPTZ,
+
+  -- One delivery per event, subject and recipient
+  dedupe_key TEXT NOT NULL UNIQUE,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_due
+  ON customer.notification_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_customer
+  ON customer.notification_deliveries(customer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_event
+  ON customer.notification_deliveries(event_type, created_at DESC);
+
+CREATE TRIGGER update_notification_deliveries_updated_at
+  BEFORE UPDATE ON customer.notification_deliveries
+  FOR EACH ROW EXECUTE FUNCTION customer.update_updated_at();
+
+COMMENT ON TABLE customer.notification_deliveries IS 'Notification delivery log - one row per event recipient, retried until sent or failed';
+COMMENT ON COLUMN customer.notification_deliveries.status IS 'pending (queued or waiting for a retry), sent, failed (attempt limit reached)';
+COMMENT ON COLUMN customer.notification_deliveries.dedupe_key IS 'event_type:subject_id[:variant]:recipient - re-publishing an event never sends twice';
+
+GRANT SELECT, INSERT, UPDATE ON customer.notification_deliveries TO handled_user;
@@ -0,0 +1,15 @@
+-- ============================================
+-- CUSTOMER SCHEMA: INVOICE ISSUER
+-- Milestone: Invoicing
+-- Date: 2026-10-19
+-- Purpose: Record who issued an invoice
+-- ============================================
+-- created_by is whoever generated the draft; issuing is a separate step that
+-- freezes the invoice and marks its activities invoiced, so it is attributed on
+-- its own.
+-- ============================================
+
+ALTER TABLE customer.invoices
+  ADD COLUMN IF NOT EXISTS issued_by TEXT REFERENCES config.users(id);
+
+COMMENT ON COLUMN customer.invoices.issued_by IS 'User who moved the invoice out of draft (null for invoices issued by jobs)';
@@ -0,0 +1,16 @@
+-- ============================================
+-- CUSTOMER SCHEMA: PAYMENTS CLEARED TO CREDIT
+-- Milestone: Payments & AR
+-- Date: 2026-10-19
+-- Purpose: Let a pending payment clear after its invoice was settled
+-- ============================================
+-- A pending payment (e.g. a check) can clear after its invoice was paid, credited
+-- or voided by other means. Nothing is due any more, so the whole amount becomes
+-- unapplied customer credit linked to the payment and the payment itself applies
+-- 0.00 - the same split as an overpayment, with nothing applied.
+-- ============================================
+
+ALTER TABLE customer.payments DROP CONSTRAINT IF EXISTS payments_amount_check;
+ALTER TABLE customer.payments ADD CONSTRAINT payments_amount_check CHECK (amount >= 0);
+
+COMMENT ON COLUMN customer.payments.amount IS 'Amount applied to the invoice; the excess of an overpayment (or all of a payment cleared after its invoice was settled) is in customer_credits';
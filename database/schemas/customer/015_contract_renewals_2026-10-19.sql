@@ -0,0 +1,24 @@
+-- ============================================
+-- CUSTOMER SCHEMA: DRAFTED CONTRACT RENEWALS
+-- Milestone: Contract & Rate Card Lifecycle
+-- Date: 2026-10-19
+-- Purpose: Link drafted renewals to the contract they renew without touching it
+-- ============================================
+-- The renewal check drafts a renewal contract ahead of an autoRenew contract's end
+-- date. The draft points back at the original through renewal_of_contract_id; the
+-- original's superseded_by_contract_id is only set once the renewal is executed.
+--
+-- When rate card versions are drafted too, the card whose next version the renewal
+-- needs is recorded in planned_rate_card_id. The version is only created when the
+-- renewal is executed, so a renewal that is never signed leaves the current card
+-- (and its expiry) as it is.
+-- ============================================
+
+ALTER TABLE customer.contracts
+  ADD COLUMN IF NOT EXISTS renewal_of_contract_id TEXT REFERENCES customer.contracts(id),
+  ADD COLUMN IF NOT EXISTS planned_rate_card_id TEXT REFERENCES customer.rate_cards(id);
+
+CREATE INDEX IF NOT EXISTS idx_contracts_renewal_of ON customer.contracts(renewal_of_contract_id);
+
+COMMENT ON COLUMN customer.contracts.renewal_of_contract_id IS 'FK to the contract a drafted renewal renews (set by the renewal check)';
+COMMENT ON COLUMN customer.contracts.planned_rate_card_id IS 'Rate card whose next version is created when this renewal is executed; cleared once created';
@@ -0,0 +1,30 @@
+-- ============================================================================
+-- Workspace Schema - Billing Activities Staging
+-- Date: 2026-10-18
+-- Purpose: Staging table for the billing-activities integration
+-- ============================================================================
+-- Raw WMS/OMS activity feeds uploaded through the generic integration flow.
+-- Billable rows live in customer.billing_activities (PRIMARY DB); this table
+-- is disposable and only used to inspect a feed before it is ingested.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS workspace.billing_activities_staging (
+    customer_id VARCHAR(100),
+    activity_date DATE NOT NULL,
+    type VARCHAR(100) NOT NULL,
+    quantity NUMERIC(10, 3) NOT NULL,
+    unit VARCHAR(50),
+    description TEXT,
+    reference_id VARCHAR(255) NOT NULL,
+    billing_cycle VARCHAR(20),
+    metadata JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (reference_id, activity_date, type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_billing_activities_staging_customer ON workspace.billing_activities_staging(customer_id);
+
+COMMENT ON TABLE workspace.billing_activities_staging IS 'Billing activity feeds (WMS/OMS) - imported via CSV/XLSX/JSON';
+
+GRANT ALL ON workspace.billing_activities_staging TO handled_user;
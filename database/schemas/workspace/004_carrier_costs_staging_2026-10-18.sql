@@ -0,0 +1,30 @@
+-- ============================================================================
+-- Workspace Schema - Carrier Costs Staging
+-- Date: 2026-10-18
+-- Purpose: Staging table for the carrier-costs integration
+-- ============================================================================
+-- Raw carrier invoice / label cost rows uploaded through the generic integration
+-- flow. Matched costs live on customer.billing_activities (PRIMARY DB) and the
+-- reconciliation in customer.carrier_cost_imports; this table is disposable and
+-- replaced on every upload.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS workspace.carrier_costs_staging (
+    carrier VARCHAR(20),
+    tracking_number VARCHAR(64),
+    reference_id VARCHAR(255),
+    charge_date DATE,
+    invoice_number VARCHAR(100),
+    service VARCHAR(100),
+    zone VARCHAR(20),
+    weight NUMERIC(10, 3),
+    cost NUMERIC(12, 2) NOT NULL,
+    metadata JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_carrier_costs_staging_tracking ON workspace.carrier_costs_staging(tracking_number);
+
+COMMENT ON TABLE workspace.carrier_costs_staging IS 'Carrier invoice / label costs (UPS, USPS) - imported via CSV/XLSX';
+
+GRANT ALL ON workspace.carrier_costs_staging TO handled_user;